@@ -19,6 +19,19 @@ const CACHE_TTL = {
 
 // Football API configuration
 const FOOTBALL_API_BASE = 'https://api.football-data.org/v4';
+
+// Competitions the proxy serves (football-data.org codes, see the competitions table)
+const SUPPORTED_COMPETITIONS = ['PL', 'PD', 'SA', 'CL'];
+
+// Competition endpoint requested, including the legacy Premier League paths
+const parseCompetitionEndpoint = (path: string): { code: string; resource: string } | null => {
+  if (path.includes('/premier-league-data')) return { code: 'PL', resource: 'standings' };
+  if (path.includes('/premier-league-matches')) return { code: 'PL', resource: 'matches' };
+
+  const match = path.match(/\/competitions\/([A-Z0-9]+)\/(standings|matches|teams)/);
+  if (!match || !SUPPORTED_COMPETITIONS.includes(match[1])) return null;
+  return { code: match[1], resource: match[2] };
+};
 const API_KEY = process.env.VITE_FOOTBALL_API_KEY;
 
 // Get allowed origins from environment or default to production domain
@@ -152,15 +165,10 @@ export const handler = async (event: any, context: any) => {
            // Generate cache key based on endpoint
            let cacheKey = '';
            let ttl = CACHE_TTL.PREMIER_LEAGUE;
+           const competitionEndpoint = parseCompetitionEndpoint(path);
 
-           if (path.includes('/premier-league-data') || path.includes('/competitions/PL/standings')) {
-             cacheKey = `premier_league_standings_${season}`;
-             ttl = CACHE_TTL.PREMIER_LEAGUE;
-           } else if (path.includes('/premier-league-matches') || path.includes('/competitions/PL/matches')) {
-             cacheKey = `premier_league_matches_${season}`;
-             ttl = CACHE_TTL.PREMIER_LEAGUE;
-           } else if (path.includes('/competitions/PL/teams')) {
-             cacheKey = `premier_league_teams_${season}`;
+           if (competitionEndpoint) {
+             cacheKey = `competition_${competitionEndpoint.code}_${competitionEndpoint.resource}_${season}`;
              ttl = CACHE_TTL.PREMIER_LEAGUE;
            } else if (path.includes('/all-teams')) {
              cacheKey = `all_teams_details`;
@@ -195,12 +203,8 @@ export const handler = async (event: any, context: any) => {
 
            // Cache miss - fetch from Football API
            let apiUrl = '';
-           if (path.includes('/premier-league-data') || path.includes('/competitions/PL/standings')) {
-             apiUrl = `${FOOTBALL_API_BASE}/competitions/PL/standings?season=${season}`;
-           } else if (path.includes('/premier-league-matches') || path.includes('/competitions/PL/matches')) {
-             apiUrl = `${FOOTBALL_API_BASE}/competitions/PL/matches?season=${season}`;
-           } else if (path.includes('/competitions/PL/teams')) {
-             apiUrl = `${FOOTBALL_API_BASE}/competitions/PL/teams?season=${season}`;
+           if (competitionEndpoint) {
+             apiUrl = `${FOOTBALL_API_BASE}/competitions/${competitionEndpoint.code}/${competitionEndpoint.resource}?season=${season}`;
            } else if (path.includes('/all-teams')) {
              apiUrl = `${FOOTBALL_API_BASE}/teams/`;
            } else if (path.includes('/teams/') && path.includes('/matches')) {
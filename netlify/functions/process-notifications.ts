@@ -0,0 +1,297 @@
+import type { HandlerEvent, HandlerResponse } from "@netlify/functions";
+import { schedule } from "@netlify/functions";
+import { createClient } from "@supabase/supabase-js";
+
+import {
+  buildNotificationDrafts,
+  buildNotificationEmail,
+  MAX_BUY_WINDOW_LEAD_MINUTES,
+  type MatchPriceMove,
+  type NotificationDraft,
+  type PriceAlert,
+  type UpcomingBuyWindow
+} from "../../src/shared/lib/utils/notifications";
+import { createEmailChannelFromEnv } from "./utils/smtp-email-channel";
+
+/**
+ * Helper function to get environment variables with fallbacks
+ * Supports multiple naming conventions used across different platforms
+ */
+function getEnvVar(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+const SUPABASE_URL = getEnvVar(
+  'VITE_SUPABASE_URL',
+  'SUPABASE_URL',
+  'NEXT_PUBLIC_SUPABASE_URL'
+);
+const SUPABASE_SERVICE_KEY = getEnvVar(
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'SUPABASE_SERVICE_KEY',
+  'VITE_SUPABASE_SERVICE_ROLE_KEY'
+);
+const APP_URL = getEnvVar('APP_URL', 'URL');
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  throw new Error(
+    'Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+  );
+}
+
+/**
+ * Supabase admin client
+ * Uses service role key because this is a trusted backend job
+ * and must bypass RLS.
+ */
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+/** Applied matches older than this are no longer notified */
+const MATCH_LOOKBACK_HOURS = 24;
+
+const LEDGER_OUTCOMES: Record<string, MatchPriceMove['outcome']> = {
+  match_win: 'win',
+  match_loss: 'loss',
+  match_draw: 'draw'
+};
+
+interface TeamRow {
+  id: number;
+  name: string;
+  market_cap: number;
+  total_shares: number;
+}
+
+interface FixtureRow {
+  id: number;
+  home_team_id: number;
+  away_team_id: number;
+  buy_close_at: string;
+}
+
+async function loadTeams(): Promise<Map<number, { name: string; share_price_cents: number }>> {
+  const { data, error } = await supabase
+    .from("teams")
+    .select("id, name, market_cap, total_shares");
+
+  if (error) throw error;
+
+  return new Map(
+    ((data || []) as TeamRow[]).map(team => [
+      team.id,
+      {
+        name: team.name,
+        share_price_cents: team.total_shares > 0 ? Math.round(Number(team.market_cap) / Number(team.total_shares)) : 0
+      }
+    ])
+  );
+}
+
+/**
+ * Share price moves of matches applied within the lookback window
+ */
+async function loadMatchMoves(now: Date): Promise<MatchPriceMove[]> {
+  const since = new Date(now.getTime() - MATCH_LOOKBACK_HOURS * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from("total_ledger")
+    .select("team_id, ledger_type, trigger_event_id, opponent_team_name, match_score, share_price_before, share_price_after, teams(name)")
+    .eq("trigger_event_type", "fixture")
+    .in("ledger_type", Object.keys(LEDGER_OUTCOMES))
+    .gte("created_at", since.toISOString());
+
+  if (error) throw error;
+
+  return (data || []).map(row => {
+    const team = row.teams as { name: string } | { name: string }[] | null;
+    return {
+      fixture_id: row.trigger_event_id,
+      team_id: row.team_id,
+      team_name: (Array.isArray(team) ? team[0]?.name : team?.name) ?? `Club #${row.team_id}`,
+      opponent_name: row.opponent_team_name ?? 'opponent',
+      outcome: LEDGER_OUTCOMES[row.ledger_type],
+      match_score: row.match_score,
+      share_price_before: Number(row.share_price_before),
+      share_price_after: Number(row.share_price_after)
+    };
+  });
+}
+
+/**
+ * One entry per club for scheduled fixtures whose buy window closes within
+ * the longest allowed alert lead time
+ */
+async function loadBuyWindows(
+  now: Date,
+  teams: Map<number, { name: string; share_price_cents: number }>
+): Promise<UpcomingBuyWindow[]> {
+  const until = new Date(now.getTime() + MAX_BUY_WINDOW_LEAD_MINUTES * 60 * 1000);
+  const { data, error } = await supabase
+    .from("fixtures")
+    .select("id, home_team_id, away_team_id, buy_close_at")
+    .eq("status", "scheduled")
+    .gt("buy_close_at", now.toISOString())
+    .lte("buy_close_at", until.toISOString());
+
+  if (error) throw error;
+
+  const teamName = (id: number) => teams.get(id)?.name ?? `Club #${id}`;
+  return ((data || []) as FixtureRow[]).flatMap(fixture => [
+    {
+      fixture_id: fixture.id,
+      team_id: fixture.home_team_id,
+      team_name: teamName(fixture.home_team_id),
+      opponent_name: teamName(fixture.away_team_id),
+      buy_close_at: fixture.buy_close_at
+    },
+    {
+      fixture_id: fixture.id,
+      team_id: fixture.away_team_id,
+      team_name: teamName(fixture.away_team_id),
+      opponent_name: teamName(fixture.home_team_id),
+      buy_close_at: fixture.buy_close_at
+    }
+  ]);
+}
+
+/**
+ * Send email for newly stored notifications that asked for it
+ */
+async function deliverEmails(stored: { id: number; user_id: string; title: string; body: string; dedupe_key: string }[], drafts: NotificationDraft[]) {
+  const emailKeys = new Set(drafts.filter(d => d.send_email).map(d => `${d.user_id}:${d.dedupe_key}`));
+  const toEmail = stored.filter(n => emailKeys.has(`${n.user_id}:${n.dedupe_key}`));
+  if (toEmail.length === 0) return { sent: 0, failed: 0 };
+
+  const { data: profiles, error } = await supabase
+    .from("profiles")
+    .select("id, email")
+    .in("id", [...new Set(toEmail.map(n => n.user_id))]);
+
+  if (error) throw error;
+
+  const emails = new Map((profiles || []).map(p => [p.id as string, p.email as string | null]));
+  const channel = createEmailChannelFromEnv();
+  let sent = 0;
+  let failed = 0;
+
+  for (const notification of toEmail) {
+    const address = emails.get(notification.user_id);
+    if (!address) continue;
+
+    try {
+      await channel.send(buildNotificationEmail(address, notification, APP_URL));
+      await supabase
+        .from("notifications")
+        .update({ emailed_at: new Date().toISOString() })
+        .eq("id", notification.id);
+      sent++;
+    } catch (error) {
+      console.error(`❌ Email for notification ${notification.id} failed:`, error instanceof Error ? error.message : error);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Notification scheduled function.
+ * Schedule: every 5 minutes.
+ *
+ * Evaluates active price alerts, buy-window alerts for held clubs and
+ * recent match results, stores new notifications (deduplicated per user)
+ * and emails those whose alert has email enabled.
+ */
+export const handler = schedule("*/5 * * * *", async (event: HandlerEvent): Promise<HandlerResponse> => {
+  /**
+   * Allow execution via:
+   * - Netlify scheduled cron (body contains next_run)
+   * - Manual: POST with header x-manual-run: true or query ?manual=true
+   */
+  const headers = event.headers || {};
+  const manualHeader = headers["x-manual-run"] ?? headers["X-Manual-Run"];
+  const manualQuery = event.queryStringParameters?.manual === "true";
+  const isManual =
+    event.httpMethod === "POST" &&
+    (manualHeader === "true" || manualQuery);
+
+  const isScheduled = Boolean(
+    (event as { cron?: boolean }).cron ||
+    (event.body && typeof event.body === "string" && event.body.includes("next_run"))
+  );
+
+  if (!isScheduled && !isManual) {
+    return { statusCode: 403, body: "Forbidden" };
+  }
+
+  try {
+    console.log("🔔 Notification Job Started");
+    const now = new Date();
+
+    const { data: alerts, error: alertsError } = await supabase
+      .from("price_alerts")
+      .select("id, user_id, team_id, alert_type, threshold, email_enabled")
+      .eq("is_active", true);
+
+    if (alertsError) throw alertsError;
+
+    const { data: holdings, error: holdingsError } = await supabase
+      .from("positions")
+      .select("user_id, team_id")
+      .gt("quantity", 0);
+
+    if (holdingsError) throw holdingsError;
+
+    const teams = await loadTeams();
+    const { drafts, firedPriceAlertIds } = buildNotificationDrafts({
+      alerts: ((alerts || []) as PriceAlert[]).map(alert => ({ ...alert, threshold: Number(alert.threshold) })),
+      teams,
+      matchMoves: await loadMatchMoves(now),
+      buyWindows: await loadBuyWindows(now, teams),
+      holdings: holdings || [],
+      now
+    });
+
+    if (drafts.length === 0) {
+      console.log("✅ Nothing to notify");
+      return { statusCode: 200, body: JSON.stringify({ created: 0 }) };
+    }
+
+    // Existing dedupe keys are skipped, so only new rows come back
+    const { data: stored, error: insertError } = await supabase
+      .from("notifications")
+      .upsert(
+        drafts.map(({ send_email: _sendEmail, ...draft }) => draft),
+        { onConflict: "user_id,dedupe_key", ignoreDuplicates: true }
+      )
+      .select("id, user_id, title, body, dedupe_key");
+
+    if (insertError) throw insertError;
+
+    if (firedPriceAlertIds.length > 0) {
+      const { error: deactivateError } = await supabase
+        .from("price_alerts")
+        .update({ is_active: false, last_triggered_at: now.toISOString() })
+        .in("id", firedPriceAlertIds);
+
+      if (deactivateError) console.error("❌ Failed to deactivate fired alerts:", deactivateError);
+    }
+
+    const emails = await deliverEmails(stored || [], drafts);
+    console.log(`✅ ${stored?.length ?? 0} notifications created, ${emails.sent} emailed, ${emails.failed} email failures`);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ created: stored?.length ?? 0, emailed: emails.sent, email_failures: emails.failed })
+    };
+  } catch (error) {
+    console.error("❌ Notification job failed:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: error instanceof Error ? error.message : "Notification job failed" })
+    };
+  }
+});
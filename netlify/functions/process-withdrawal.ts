@@ -0,0 +1,140 @@
+import type { Handler } from '@netlify/functions';
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { payoutWithdrawal, type WithdrawalStatus } from '../../src/shared/lib/utils/withdrawals';
+import { createWithdrawalStore } from './utils/withdrawal-store';
+
+/**
+ * Withdrawal payout endpoint
+ * Sends an approved withdrawal to the user's Stripe Connect account.
+ * Admin only: the caller's Supabase access token must belong to an admin.
+ * The withdrawal is marked paid by the transfer.created webhook.
+ */
+
+interface WithdrawalRow {
+  id: number;
+  user_id: string;
+  amount_cents: number;
+  status: WithdrawalStatus;
+  stripe_transfer_id: string | null;
+}
+
+const json = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return json(405, { error: 'Method not allowed' });
+  }
+
+  try {
+    // Prioritize live keys for production (can fallback to test keys if live not available)
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY_LIVE || process.env.STRIPE_SECRET_KEY;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return json(500, { error: 'Server configuration error: Missing Supabase credentials' });
+    }
+
+    if (!stripeSecretKey) {
+      return json(500, { error: 'Server configuration error: Missing Stripe credentials' });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify the caller is an admin
+    const authHeader = event.headers.authorization || event.headers.Authorization;
+    const accessToken = authHeader?.replace(/^Bearer\s+/i, '');
+    if (!accessToken) {
+      return json(401, { error: 'Missing access token' });
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(accessToken);
+    if (authError || !authData.user) {
+      return json(401, { error: 'Invalid access token' });
+    }
+
+    const { data: caller } = await supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', authData.user.id)
+      .maybeSingle();
+
+    if (!caller?.is_admin) {
+      return json(403, { error: 'Admin access required' });
+    }
+
+    let requestBody: { withdrawal_id?: number };
+    try {
+      requestBody = typeof event.body === 'string' ? JSON.parse(event.body) : event.body || {};
+    } catch (parseError) {
+      return json(400, {
+        error: 'Invalid request body',
+        details: parseError instanceof Error ? parseError.message : String(parseError),
+      });
+    }
+
+    const withdrawalId = Number(requestBody.withdrawal_id);
+    if (!Number.isInteger(withdrawalId) || withdrawalId <= 0) {
+      return json(400, { error: 'withdrawal_id is required' });
+    }
+
+    const { data: withdrawal, error: withdrawalError } = await supabase
+      .from('withdrawal_requests')
+      .select('id, user_id, amount_cents, status, stripe_transfer_id')
+      .eq('id', withdrawalId)
+      .maybeSingle<WithdrawalRow>();
+
+    if (withdrawalError) throw withdrawalError;
+    if (!withdrawal) {
+      return json(404, { error: 'Withdrawal not found' });
+    }
+
+    if (withdrawal.status !== 'approved') {
+      return json(409, { error: `Withdrawal is ${withdrawal.status}` });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('stripe_connect_account_id')
+      .eq('id', withdrawal.user_id)
+      .maybeSingle<{ stripe_connect_account_id: string | null }>();
+
+    if (!profile?.stripe_connect_account_id && !withdrawal.stripe_transfer_id) {
+      return json(400, { error: 'User has no connected payout account' });
+    }
+
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2024-06-20',
+    });
+
+    let transferId: string;
+    try {
+      transferId = await payoutWithdrawal(stripe, createWithdrawalStore(supabase), {
+        id: withdrawal.id,
+        userId: withdrawal.user_id,
+        amountCents: Number(withdrawal.amount_cents),
+        status: withdrawal.status,
+        destinationAccountId: profile?.stripe_connect_account_id ?? null,
+        stripeTransferId: withdrawal.stripe_transfer_id,
+      });
+    } catch (stripeError) {
+      // Withdrawal stays approved; retrying reuses the idempotency key
+      console.error(`Payout failed for withdrawal ${withdrawal.id}:`, stripeError);
+      return json(502, {
+        error: 'Failed to create payout',
+        details: stripeError instanceof Error ? stripeError.message : String(stripeError),
+      });
+    }
+
+    console.log(`Payout sent for withdrawal ${withdrawal.id}: ${transferId} ($${Number(withdrawal.amount_cents) / 100})`);
+    return json(200, { success: true, withdrawal_id: withdrawal.id, transfer_id: transferId });
+  } catch (e) {
+    console.error('Process withdrawal error:', e);
+    return json(500, { error: e instanceof Error ? e.message : 'process withdrawal error' });
+  }
+};
@@ -1,6 +1,8 @@
 import type { Handler } from '@netlify/functions';
 import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
+import { handleWithdrawalTransferEvent } from '../../src/shared/lib/utils/withdrawals';
+import { createWithdrawalStore } from './utils/withdrawal-store';
 
 export const config = {
   // Ensure Netlify passes the raw body so we can verify signature
@@ -155,6 +157,29 @@ export const handler: Handler = async (event) => {
             })
           };
         }
+      } else if (stripeEvent.type === 'transfer.created' || stripeEvent.type === 'transfer.reversed') {
+        // Withdrawal payouts (created by process-withdrawal)
+        const transfer = stripeEvent.data.object as Stripe.Transfer;
+        try {
+          const outcome = await handleWithdrawalTransferEvent(createWithdrawalStore(supabase), stripeEvent);
+          console.log(`Withdrawal transfer ${transfer.id} (${stripeEvent.type}): ${outcome}`);
+        } catch (withdrawalError) {
+          const message = withdrawalError instanceof Error ? withdrawalError.message : String(withdrawalError);
+          console.error('Error settling withdrawal:', {
+            transferId: transfer.id,
+            metadata: transfer.metadata,
+            message,
+          });
+          // Release the event so Stripe's retry is processed
+          await supabase.from('stripe_events').delete().eq('id', stripeEvent.id);
+          return {
+            statusCode: 500,
+            body: JSON.stringify({
+              error: 'Failed to settle withdrawal',
+              details: message
+            })
+          };
+        }
       }
     }
 
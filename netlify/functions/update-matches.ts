@@ -6,6 +6,23 @@
 import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
 import { schedule } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
+import { readFileSync } from 'fs';
+import {
+  createFootballDataProvider,
+  parseRecording,
+  resolveFootballDataProviderId,
+  type FootballDataProvider
+} from '../../src/shared/lib/football-providers';
+import { buildFixtureUpserts, partitionFixtureUpserts } from '../../src/shared/lib/football-providers/fixture-sync';
+import {
+  ACTIVE_LIFECYCLE_STATES,
+  LIFECYCLE_RESUME_WINDOW_HOURS,
+  MAX_LIFECYCLE_ATTEMPTS,
+  advanceFixtureLifecycle,
+  type FixtureLifecycleDriver,
+  type LifecycleFixture
+} from '../../src/shared/lib/utils/fixture-lifecycle';
+import type { CompetitionType } from '../../src/shared/lib/utils/transfer-rules';
 
 // Helper function to get environment variables with fallbacks
 function getEnvVar(...names: string[]): string | undefined {
@@ -21,66 +38,36 @@ function getEnvVar(...names: string[]): string | undefined {
 const SUPABASE_URL = getEnvVar('VITE_SUPABASE_URL', 'SUPABASE_URL', 'NEXT_PUBLIC_SUPABASE_URL');
 const SUPABASE_SERVICE_KEY = getEnvVar('SUPABASE_SERVICE_ROLE_KEY', 'SUPABASE_SERVICE_KEY');
 const API_KEY = getEnvVar('VITE_FOOTBALL_API_KEY', 'FOOTBALL_API_KEY');
+const API_FOOTBALL_KEY = getEnvVar('API_FOOTBALL_KEY');
 
-// Football API configuration
-const FOOTBALL_API_BASE_URL = 'https://api.football-data.org/v4';
+// Football data provider: football-data (default), api-football, or recorded,
+// which replays the JSON file at FOOTBALL_RECORDING_PATH
+function createProviderFromEnv(): FootballDataProvider {
+  const provider = resolveFootballDataProviderId(getEnvVar('FOOTBALL_DATA_PROVIDER'));
 
-interface MatchData {
-  status: 'SCHEDULED' | 'LIVE' | 'IN_PLAY' | 'FINISHED' | 'PAUSED' | 'POSTPONED' | 'SUSPENDED' | 'CANCELLED';
-  score: {
-    fullTime: {
-      home: number | null;
-      away: number | null;
-    };
-    halfTime?: {
-      home: number | null;
-      away: number | null;
-    };
-    // For live matches, the API might provide current score in different fields
-    duration?: string;
-  };
-}
-
-interface FootballMatch {
-  id: number;
-  utcDate: string;
-  status: string;
-  matchday: number;
-  homeTeam: { id: number; name: string };
-  awayTeam: { id: number; name: string };
-  score: {
-    fullTime: {
-      home: number | null;
-      away: number | null;
-    };
-  };
-}
+  if (provider === 'recorded') {
+    const recordingPath = getEnvVar('FOOTBALL_RECORDING_PATH');
+    if (!recordingPath) {
+      throw new Error('Missing FOOTBALL_RECORDING_PATH. The recorded football data provider replays a recording file.');
+    }
+    return createFootballDataProvider({
+      provider,
+      recording: parseRecording(JSON.parse(readFileSync(recordingPath, 'utf8'))),
+      now: () => new Date(),
+    });
+  }
 
-// Helper functions for status conversion
-function convertMatchStatus(status: string, score: any): 'home_win' | 'away_win' | 'draw' | 'pending' {
-  if (status !== 'FINISHED') return 'pending';
-  
-  if (score?.fullTime?.home === null || score?.fullTime?.home === undefined) return 'pending';
-  if (score?.fullTime?.away === null || score?.fullTime?.away === undefined) return 'pending';
-  
-  if (score.fullTime.home > score.fullTime.away) return 'home_win';
-  if (score.fullTime.away > score.fullTime.home) return 'away_win';
-  return 'draw';
-}
+  if (provider === 'api-football') {
+    if (!API_FOOTBALL_KEY) {
+      throw new Error('Missing API_FOOTBALL_KEY. Please set API_FOOTBALL_KEY in Netlify environment variables.');
+    }
+    return createFootballDataProvider({ provider, apiFootballApiKey: API_FOOTBALL_KEY });
+  }
 
-function convertMatchStatusToFixtureStatus(status: string): 'scheduled' | 'live' | 'applied' | 'postponed' {
-  switch (status) {
-    case 'SCHEDULED':
-    case 'TIMED': return 'scheduled';
-    case 'LIVE':
-    case 'IN_PLAY':
-    case 'PAUSED': return 'live';
-    case 'FINISHED': return 'applied';
-    case 'POSTPONED':
-    case 'SUSPENDED':
-    case 'CANCELLED': return 'postponed';
-    default: return 'scheduled';
+  if (!API_KEY) {
+    throw new Error('Missing FOOTBALL_API_KEY. Please set VITE_FOOTBALL_API_KEY or FOOTBALL_API_KEY in Netlify environment variables.');
   }
+  return createFootballDataProvider({ provider, footballDataApiKey: API_KEY });
 }
 
 // Use schedule() wrapper to create a scheduled function
@@ -125,6 +112,12 @@ async function processUpdate() {
     errors: 0,
     snapshots: 0,
     fixturesSynced: 0,
+    limitOrdersFilled: 0,
+    limitOrdersExpired: 0,
+    p2pTrades: 0,
+    p2pOrdersExpired: 0,
+    triggersFired: 0,
+    triggerSalesExecuted: 0,
   };
 
   try {
@@ -137,9 +130,7 @@ async function processUpdate() {
       throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY. Please set SUPABASE_SERVICE_ROLE_KEY in Netlify environment variables.');
     }
 
-    if (!API_KEY) {
-      throw new Error('Missing FOOTBALL_API_KEY. Please set VITE_FOOTBALL_API_KEY or FOOTBALL_API_KEY in Netlify environment variables.');
-    }
+    const provider = createProviderFromEnv();
 
     // Initialize Supabase client
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
@@ -150,7 +141,7 @@ async function processUpdate() {
     if (shouldSyncFixtures) {
       try {
         console.log('🔄 Syncing fixtures from Football API...');
-        const syncResult = await syncFixturesFromAPI(supabase);
+        const syncResult = await syncFixturesFromAPI(supabase, provider);
         results.fixturesSynced = syncResult;
         console.log(`✅ Synced ${syncResult} fixtures from API`);
       } catch (error) {
@@ -162,17 +153,19 @@ async function processUpdate() {
       console.log('⏭️ Skipping fixture sync (last sync was less than 30 minutes ago)');
     }
 
-    // Get fixtures that need updates
-    // - Status is scheduled or closed
-    // - Kickoff within last 2 hours or next 48 hours
+    // Walk every fixture with lifecycle work due through its transitions.
+    // Failed transitions are retried with backoff (lifecycle_retry_at) until
+    // MAX_LIFECYCLE_ATTEMPTS, then left to an admin.
     const now = new Date();
-    const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
-    const twoDaysLater = new Date(now.getTime() + 48 * 60 * 60 * 1000);    // Get fixtures that need updating (scheduled, live, or recently finished)
+    const resumeFrom = new Date(now.getTime() - LIFECYCLE_RESUME_WINDOW_HOURS * 60 * 60 * 1000);
+    const twoDaysLater = new Date(now.getTime() + 48 * 60 * 60 * 1000);
     const { data: fixtures, error: fetchError } = await supabase
       .from('fixtures')
-      .select('*')
-      .in('status', ['scheduled', 'live', 'closed']) // Include 'closed' for backward compatibility
-      .gte('kickoff_at', twoHoursAgo.toISOString())
+      .select('id, external_id, lifecycle_state, kickoff_at, buy_close_at, home_score, away_score')
+      .in('lifecycle_state', ACTIVE_LIFECYCLE_STATES)
+      .lt('lifecycle_attempts', MAX_LIFECYCLE_ATTEMPTS)
+      .or(`lifecycle_retry_at.is.null,lifecycle_retry_at.lte.${now.toISOString()}`)
+      .gte('kickoff_at', resumeFrom.toISOString())
       .lte('kickoff_at', twoDaysLater.toISOString());
 
     if (fetchError) {
@@ -182,132 +175,42 @@ async function processUpdate() {
 
     if (!fixtures || fixtures.length === 0) {
       console.log('✅ No fixtures need updating');
+      // Trading windows may still have reopened since the last run
+      await processPositionTriggers(supabase, results);
+      await processLimitOrders(supabase, results);
+      await processP2POrders(supabase, results);
       return results;
     }
 
     console.log(`📊 Checking ${fixtures.length} fixtures...`);
 
-    // Process each fixture
-    for (const fixture of fixtures) {
-      try {
-        // Skip fixtures without external_id
-        if (!fixture.external_id) {
-          continue;
-        }        results.checked++;
-
-        const kickoffTime = new Date(fixture.kickoff_at);
-        const buyCloseTime = new Date(kickoffTime.getTime() - 15 * 60 * 1000);
-        const timeToBuyClose = buyCloseTime.getTime() - now.getTime();
-
-        // Capture snapshots 15 min before kickoff
-        if (fixture.status === 'scheduled' && (fixture.snapshot_home_cap === null || fixture.snapshot_away_cap === null)) {
-          if (timeToBuyClose <= 5 * 60 * 1000 && timeToBuyClose >= -5 * 60 * 1000) {
-            console.log(`📸 Capturing snapshots for fixture ${fixture.id}`);
-            
-            // Get current market caps
-            const { data: homeTeam } = await supabase
-              .from('teams')
-              .select('market_cap')
-              .eq('id', fixture.home_team_id)
-              .single();
-
-            const { data: awayTeam } = await supabase
-              .from('teams')
-              .select('market_cap')
-              .eq('id', fixture.away_team_id)
-              .single();
-
-            // Update fixture with snapshots
-            await supabase
-              .from('fixtures')
-              .update({
-                snapshot_home_cap: homeTeam?.market_cap || 100,
-                snapshot_away_cap: awayTeam?.market_cap || 100,
-              })
-              .eq('id', fixture.id);
-
-            results.snapshots++;
-          }
-        }        // Update match data for fixtures that are potentially live or recently finished
-        // Check matches from 30 min before kickoff until 3 hours after kickoff
-        // This ensures we catch matches that start late or go into extra time
-        const thirtyMinBeforeKickoff = new Date(kickoffTime.getTime() - 30 * 60 * 1000);
-        const threeHoursAfterKickoff = new Date(kickoffTime.getTime() + 3 * 60 * 60 * 1000);
-        
-        if (now >= thirtyMinBeforeKickoff && now <= threeHoursAfterKickoff) {
-          console.log(`🔥 Updating match fixture ${fixture.id} (${fixture.status})`);
-
-          // Fetch from Football API
-          const response = await fetch(`${FOOTBALL_API_BASE_URL}/matches/${fixture.external_id}`, {
-            headers: {
-              'X-Auth-Token': API_KEY,
-            },
-          });
-
-          if (!response.ok) {
-            console.error(`❌ Failed to fetch match ${fixture.external_id} from API`);
-            results.errors++;
-            continue;
-          }
-
-          const matchData: MatchData = await response.json();          // Convert API status to database status
-          let newStatus = fixture.status;
-          let newResult = fixture.result;
-          let homeScore = fixture.home_score;
-          let awayScore = fixture.away_score;
-
-          if (matchData.status === 'FINISHED') {
-            newStatus = 'applied';
-            // Determine result based on scores
-            if (matchData.score.fullTime.home !== null && matchData.score.fullTime.away !== null) {
-              homeScore = matchData.score.fullTime.home;
-              awayScore = matchData.score.fullTime.away;
-              
-              if (homeScore > awayScore) newResult = 'home_win';
-              else if (awayScore > homeScore) newResult = 'away_win';
-              else newResult = 'draw';
-            }
-          } else if (matchData.status === 'IN_PLAY' || matchData.status === 'LIVE' || matchData.status === 'PAUSED') {
-            newStatus = 'live';
-            // For live matches, use fullTime scores (they contain current score during the match)
-            // The API provides live scores in the fullTime field even though the match isn't finished
-            if (matchData.score.fullTime.home !== null && matchData.score.fullTime.away !== null) {
-              homeScore = matchData.score.fullTime.home;
-              awayScore = matchData.score.fullTime.away;
-            }
-            // Result stays 'pending' during live matches
-            newResult = 'pending';
-          }
-
-          // Update fixture if status, result, or scores changed
-          if (newStatus !== fixture.status || 
-              newResult !== fixture.result || 
-              homeScore !== fixture.home_score || 
-              awayScore !== fixture.away_score) {
-            
-            await supabase
-              .from('fixtures')
-              .update({
-                status: newStatus,
-                result: newResult,
-                home_score: homeScore,
-                away_score: awayScore,
-                updated_at: now.toISOString(),
-              })
-              .eq('id', fixture.id);
-
-            console.log(`✅ Updated fixture ${fixture.id}: ${fixture.status} -> ${newStatus}, Result: ${newResult}, Score: ${homeScore}-${awayScore}`);
-            results.updated++;
-          }
-        }
+    const driver = createLifecycleDriver(supabase, provider);
+    for (const fixture of fixtures as LifecycleFixture[]) {
+      // Fixtures without external_id are advanced by an admin
+      if (!fixture.external_id) {
+        continue;
+      }
+      results.checked++;
 
-      } catch (error) {
-        console.error(`❌ Error processing fixture ${fixture.id}:`, error);
+      const advanced = await advanceFixtureLifecycle(fixture, driver, now);
+      if (advanced.transitions.length > 0) {
+        console.log(`✅ Fixture ${fixture.id}: ${[fixture.lifecycle_state, ...advanced.transitions].join(' -> ')}`);
+      }
+      if (advanced.transitions.length > 0 || advanced.scoreUpdated) results.updated++;
+      if (advanced.transitions.includes('snapshotted')) results.snapshots++;
+      if (advanced.error) {
+        console.error(`❌ Error advancing fixture ${fixture.id}:`, advanced.error);
         results.errors++;
       }
     }
 
-    console.log(`✅ Match update complete: ${results.updated} updated, ${results.snapshots} snapshots, ${results.fixturesSynced} fixtures synced, ${results.errors} errors`);
+    // Re-check stop-loss/take-profit triggers and resting limit orders now that
+    // results (and market caps) may have changed
+    await processPositionTriggers(supabase, results);
+    await processLimitOrders(supabase, results);
+    await processP2POrders(supabase, results);
+
+    console.log(`✅ Match update complete: ${results.updated} updated, ${results.snapshots} snapshots, ${results.fixturesSynced} fixtures synced, ${results.limitOrdersFilled} limit orders filled, ${results.triggerSalesExecuted} trigger sales, ${results.errors} errors`);
 
     return results;
   } catch (error) {
@@ -317,6 +220,136 @@ async function processUpdate() {
   }
 }
 
+// Lifecycle transitions go through transition_fixture, which snapshots caps,
+// records scores and applies results; the provider decides when they are due
+function createLifecycleDriver(supabase: any, provider: FootballDataProvider): FixtureLifecycleDriver {
+  return {
+    getMatch: fixture => provider.getMatch(Number(fixture.external_id)),
+
+    async transition(fixture, step) {
+      const { data, error } = await supabase.rpc('transition_fixture', {
+        p_fixture_id: fixture.id,
+        p_to_state: step.to,
+        p_details: step.details,
+        p_source: 'scheduler',
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || `Transition to ${step.to} failed`);
+    },
+
+    async recordFailure(fixture, to, message) {
+      const { error } = await supabase.rpc('record_fixture_transition_failure', {
+        p_fixture_id: fixture.id,
+        p_to_state: to,
+        p_error: message,
+        p_source: 'scheduler',
+      });
+      if (error) console.error(`❌ Error recording failure for fixture ${fixture.id}:`, error);
+    },
+
+    async updateLiveScore(fixture, scores) {
+      const { error } = await supabase
+        .from('fixtures')
+        .update({ ...scores, updated_at: new Date().toISOString() })
+        .eq('id', fixture.id)
+        .eq('lifecycle_state', 'live');
+      if (error) throw error;
+    },
+  };
+}
+
+// Queue sales for stop-loss/take-profit triggers crossed by applied results,
+// then execute queued sales for clubs whose trading window is open again.
+// Sales go through process_share_sale_atomic, the same path as sellClub.
+async function processPositionTriggers(
+  supabase: ReturnType<typeof createClient>,
+  results: { triggersFired: number; triggerSalesExecuted: number; errors: number }
+): Promise<void> {
+  try {
+    const { data: fired, error: evaluateError } = await supabase.rpc('evaluate_position_triggers');
+    if (evaluateError) throw evaluateError;
+    results.triggersFired = fired || 0;
+    if (results.triggersFired > 0) {
+      console.log(`🎯 ${results.triggersFired} stop-loss/take-profit triggers fired`);
+    }
+
+    const { data: executeResult, error: executeError } = await supabase.rpc('execute_queued_position_triggers');
+    if (executeError) throw executeError;
+    results.triggerSalesExecuted = executeResult?.executed || 0;
+    if (results.triggerSalesExecuted > 0) {
+      console.log(`💸 Executed ${results.triggerSalesExecuted} trigger sales`);
+    }
+    if (executeResult?.failed > 0) {
+      console.warn(`⚠️ ${executeResult.failed} trigger sales failed`);
+    }
+  } catch (error) {
+    console.error('❌ Error processing position triggers:', error);
+    results.errors++;
+    // Don't throw - trigger processing must not block match updates
+  }
+}
+
+// Expire stale limit orders, then fill any whose limit has been crossed.
+// Matching happens in the database (match_limit_orders) so reservations,
+// the trading-window check and execution stay in one transaction per order.
+async function processLimitOrders(
+  supabase: ReturnType<typeof createClient>,
+  results: { limitOrdersFilled: number; limitOrdersExpired: number; errors: number }
+): Promise<void> {
+  try {
+    const { data: expired, error: expireError } = await supabase.rpc('expire_limit_orders');
+    if (expireError) throw expireError;
+    results.limitOrdersExpired = expired || 0;
+    if (results.limitOrdersExpired > 0) {
+      console.log(`⌛ Expired ${results.limitOrdersExpired} limit orders`);
+    }
+
+    const { data: matchResult, error: matchError } = await supabase.rpc('match_limit_orders', { p_team_id: null });
+    if (matchError) throw matchError;
+    results.limitOrdersFilled = matchResult?.filled || 0;
+    if (results.limitOrdersFilled > 0) {
+      console.log(`📈 Filled ${results.limitOrdersFilled} limit orders`);
+    }
+    if (matchResult?.failed > 0) {
+      console.warn(`⚠️ ${matchResult.failed} triggered limit orders could not be executed`);
+    }
+  } catch (error) {
+    console.error('❌ Error processing limit orders:', error);
+    results.errors++;
+    // Don't throw - limit order matching must not block match updates
+  }
+}
+
+// Expire stale peer-to-peer orders, then cross the order books of clubs
+// whose trading window has reopened since the orders were placed
+async function processP2POrders(
+  supabase: ReturnType<typeof createClient>,
+  results: { p2pTrades: number; p2pOrdersExpired: number; errors: number }
+): Promise<void> {
+  try {
+    const { data: expired, error: expireError } = await supabase.rpc('expire_p2p_orders');
+    if (expireError) throw expireError;
+    results.p2pOrdersExpired = expired || 0;
+    if (results.p2pOrdersExpired > 0) {
+      console.log(`⌛ Expired ${results.p2pOrdersExpired} P2P orders`);
+    }
+
+    const { data: matchResult, error: matchError } = await supabase.rpc('match_p2p_orders', { p_team_id: null });
+    if (matchError) throw matchError;
+    results.p2pTrades = matchResult?.trades || 0;
+    if (results.p2pTrades > 0) {
+      console.log(`🤝 Executed ${results.p2pTrades} P2P trades`);
+    }
+    if (matchResult?.failed > 0) {
+      console.warn(`⚠️ ${matchResult.failed} P2P trades could not be settled`);
+    }
+  } catch (error) {
+    console.error('❌ Error processing P2P orders:', error);
+    results.errors++;
+    // Don't throw - P2P matching must not block match updates
+  }
+}
+
 // Check if we should run fixture sync (every 30 minutes)
 async function shouldRunFixtureSync(supabase: any): Promise<boolean> {
   try {
@@ -345,24 +378,34 @@ async function shouldRunFixtureSync(supabase: any): Promise<boolean> {
   }
 }
 
-// Sync fixtures from Football API
-async function syncFixturesFromAPI(supabase: any): Promise<number> {
-  // Fetch Premier League matches for current season (2025)
-  const response = await fetch(`${FOOTBALL_API_BASE_URL}/competitions/PL/matches?season=2025`, {
-    headers: {
-      'X-Auth-Token': API_KEY!,
-    },
-  });
+// Sync fixtures of every active competition from the football data provider
+async function syncFixturesFromAPI(supabase: any, provider: FootballDataProvider): Promise<number> {
+  const { data: competitions, error: competitionsError } = await supabase
+    .from('competitions')
+    .select('id, code, competition_type')
+    .eq('is_active', true);
+
+  if (competitionsError) {
+    throw new Error(`Failed to fetch competitions: ${competitionsError.message}`);
+  }
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch fixtures from API: ${response.status} ${response.statusText}`);
+  let syncedCount = 0;
+  for (const competition of competitions || []) {
+    syncedCount += await syncCompetitionFixtures(supabase, provider, competition);
   }
+  return syncedCount;
+}
 
-  const data = await response.json();
-  const matches: FootballMatch[] = data.matches || [];
+async function syncCompetitionFixtures(
+  supabase: any,
+  provider: FootballDataProvider,
+  competition: { id: number; code: string; competition_type: CompetitionType }
+): Promise<number> {
+  // Fetch the competition's matches for current season (2025)
+  const matches = await provider.getMatches(competition.code, 2025);
 
   if (matches.length === 0) {
-    console.log('⚠️ No matches returned from API');
+    console.log(`⚠️ No ${competition.code} matches returned from API`);
     return 0;
   }
 
@@ -373,7 +416,7 @@ async function syncFixturesFromAPI(supabase: any): Promise<number> {
     matchdayCounts.set(match.matchday, count + 1);
   });
   const matchdays = Array.from(matchdayCounts.keys()).sort((a, b) => a - b);
-  console.log(`📊 Fetched ${matches.length} matches from API. Matchdays: ${matchdays.join(', ')}`);
+  console.log(`📊 Fetched ${matches.length} ${competition.code} matches from API. Matchdays: ${matchdays.join(', ')}`);
   console.log(`📊 Matchday distribution: ${Array.from(matchdayCounts.entries()).map(([md, count]) => `MD${md}:${count}`).join(', ')}`);
 
   // Get teams for mapping
@@ -385,65 +428,39 @@ async function syncFixturesFromAPI(supabase: any): Promise<number> {
     throw new Error('Failed to fetch teams from database');
   }
 
-  // Create team mapping by name
-  const teamMapping = new Map<string, number>();
-  teams.forEach((team: any) => {
-    teamMapping.set(team.name, team.id);
-  });
-  // Prepare fixture data for upsert
-  const fixtureData: Array<{
-    external_id: string;
-    home_team_id: number;
-    away_team_id: number;
-    kickoff_at: string;
-    buy_close_at: string;
-    status: 'scheduled' | 'live' | 'applied' | 'postponed';
-    result: 'home_win' | 'away_win' | 'draw' | 'pending';
-    home_score: number;
-    away_score: number;
-    matchday: number;
-    season: number;
-    updated_at: string;
-  }> = [];
-  let skippedCount = 0;
-
-  for (const match of matches) {
-    const homeTeamId = teamMapping.get(match.homeTeam.name);
-    const awayTeamId = teamMapping.get(match.awayTeam.name);
-
-    if (!homeTeamId || !awayTeamId) {
-      console.warn(`⚠️ Skipping match: teams not found for ${match.homeTeam.name} vs ${match.awayTeam.name}`);
-      skippedCount++;
-      continue;    }
-
-    const kickoffTime = new Date(match.utcDate);
-    const buyCloseTime = new Date(kickoffTime.getTime() - 15 * 60 * 1000);
-
-    fixtureData.push({
-      external_id: match.id.toString(),
-      home_team_id: homeTeamId,
-      away_team_id: awayTeamId,
-      kickoff_at: kickoffTime.toISOString(),
-      buy_close_at: buyCloseTime.toISOString(),
-      status: convertMatchStatusToFixtureStatus(match.status),
-      result: convertMatchStatus(match.status, match.score),
-      home_score: match.score?.fullTime?.home || 0,
-      away_score: match.score?.fullTime?.away || 0,
-      matchday: match.matchday,
-      season: 2025,
-      updated_at: new Date().toISOString(),
-    });
-  }
+  // Cup ties against clubs that are not listed are skipped
+  const { fixtures: fixtureData, skipped } = buildFixtureUpserts(
+    matches,
+    teams.map((team: { id: number; name: string; external_id: string | null }) => ({
+      id: team.id,
+      name: team.name,
+      externalId: team.external_id ? Number(team.external_id) : null,
+    })),
+    competition,
+    2025
+  );
+  const skippedCount = skipped.length;
 
   if (fixtureData.length === 0) {
     console.log('⚠️ No fixtures to sync after team mapping');
     return 0;
   }
 
-  // Upsert fixtures - update all fields including dates when fixture already exists
+  // Existing fixtures only take schedule changes; the lifecycle moves the rest
+  const { data: existingFixtures, error: existingError } = await supabase
+    .from('fixtures')
+    .select('id, external_id, lifecycle_state, kickoff_at')
+    .eq('competition_id', competition.id);
+
+  if (existingError) {
+    throw new Error(`Failed to fetch existing fixtures: ${existingError.message}`);
+  }
+
+  const { inserts, updates, postponedFixtureIds, rescheduled } = partitionFixtureUpserts(fixtureData, existingFixtures || []);
+
   const { data: upsertedFixtures, error: upsertError } = await supabase
     .from('fixtures')
-    .upsert(fixtureData, {
+    .upsert([...inserts, ...updates], {
       onConflict: 'external_id',
       ignoreDuplicates: false,
     })
@@ -453,6 +470,35 @@ async function syncFixturesFromAPI(supabase: any): Promise<number> {
     throw new Error(`Failed to upsert fixtures: ${upsertError.message}`);
   }
 
+  for (const fixtureId of postponedFixtureIds) {
+    const { data, error } = await supabase.rpc('transition_fixture', {
+      p_fixture_id: fixtureId,
+      p_to_state: 'postponed',
+      p_details: {},
+      p_source: 'provider',
+    });
+    if (error || !data?.success) {
+      console.error(`❌ Error postponing fixture ${fixtureId}:`, error || data?.error);
+    } else {
+      console.log(`⏸️ Postponed fixture ${fixtureId}`);
+    }
+  }
+
+  // New kickoffs for postponed, abandoned or snapshotted fixtures reopen the buy window
+  for (const { fixtureId, kickoffAt } of rescheduled) {
+    const { data, error } = await supabase.rpc('transition_fixture', {
+      p_fixture_id: fixtureId,
+      p_to_state: 'scheduled',
+      p_details: { kickoff_at: kickoffAt },
+      p_source: 'provider',
+    });
+    if (error || !data?.success) {
+      console.error(`❌ Error rescheduling fixture ${fixtureId}:`, error || data?.error);
+    } else {
+      console.log(`📅 Rescheduled fixture ${fixtureId} to ${kickoffAt}`);
+    }
+  }
+
   const syncedCount = upsertedFixtures?.length || 0;
   
   // Log synced matchday distribution
@@ -462,10 +508,10 @@ async function syncFixturesFromAPI(supabase: any): Promise<number> {
     syncedMatchdayCounts.set(fixture.matchday, count + 1);
   });
   const syncedMatchdays = Array.from(syncedMatchdayCounts.keys()).sort((a, b) => a - b);
-  console.log(`✅ Synced ${syncedCount} fixtures. Matchdays synced: ${syncedMatchdays.join(', ')}`);
+  console.log(`✅ Synced ${syncedCount} ${competition.code} fixtures. Matchdays synced: ${syncedMatchdays.join(', ')}`);
   
   if (skippedCount > 0) {
-    console.log(`⚠️ Skipped ${skippedCount} fixtures due to team mapping issues`);
+    console.log(`⚠️ Skipped ${skippedCount} ${competition.code} fixtures involving clubs that are not listed`);
   }
 
   return syncedCount;
@@ -0,0 +1,289 @@
+import type { HandlerEvent, HandlerResponse } from "@netlify/functions";
+import { schedule } from "@netlify/functions";
+import { createClient } from "@supabase/supabase-js";
+
+import {
+  calculateLeaderboard,
+  toPeriodLeaderboardDbFormat,
+  validateLeaderboardEntries
+} from "../../src/shared/lib/utils/leaderboard-calculations";
+import {
+  buildMatchdayPeriods,
+  getCompletedMonthPeriod,
+  getCustomPeriod,
+  getSeasonPeriod,
+  type LeaderboardPeriod,
+  type LeaderboardPeriodFixture
+} from "../../src/shared/lib/utils/leaderboard-periods";
+import { fetchUserLeaderboardData } from "./utils/leaderboard-data";
+
+/**
+ * Helper function to get environment variables with fallbacks
+ * Supports multiple naming conventions used across different platforms
+ */
+function getEnvVar(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+const SUPABASE_URL = getEnvVar(
+  'VITE_SUPABASE_URL',
+  'SUPABASE_URL',
+  'NEXT_PUBLIC_SUPABASE_URL'
+);
+const SUPABASE_SERVICE_KEY = getEnvVar(
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'SUPABASE_SERVICE_KEY',
+  'VITE_SUPABASE_SERVICE_ROLE_KEY'
+);
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  throw new Error(
+    'Missing required environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+  );
+}
+
+/**
+ * Supabase admin client
+ * Uses service role key because this is a trusted backend job
+ * and must bypass RLS.
+ */
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+interface PeriodFixtureRow extends LeaderboardPeriodFixture {
+  status: string;
+  lifecycle_state: string;
+}
+
+// Fixtures that will not be applied on their matchday, so they do not hold it open
+const SETTLED_WITHOUT_RESULT_STATES = new Set(['postponed', 'voided']);
+
+interface PeriodResult {
+  key: string;
+  status: 'stored' | 'skipped' | 'empty' | 'failed';
+  users?: number;
+}
+
+async function isPeriodStored(period: LeaderboardPeriod): Promise<boolean> {
+  const { count } = await supabase
+    .from("period_leaderboard")
+    .select("id", { count: "exact", head: true })
+    .eq("period_type", period.type)
+    .eq("period_key", period.key);
+
+  return Boolean(count && count > 0);
+}
+
+/**
+ * Calculate and store one period.
+ * Completed periods are written once; `replace` rewrites an existing period
+ * (used for the running season and for re-running custom ranges).
+ */
+async function storePeriod(period: LeaderboardPeriod, replace = false): Promise<PeriodResult> {
+  if (!replace && await isPeriodStored(period)) {
+    console.log(`⏭️  ${period.label} already generated`);
+    return { key: period.key, status: 'skipped' };
+  }
+
+  console.log(`📅 Processing ${period.label}: ${period.start.toISOString()} → ${period.end.toISOString()}`);
+
+  const userData = await fetchUserLeaderboardData(supabase, period.start.toISOString(), period.end.toISOString());
+  if (userData.length === 0) {
+    console.log(`⚠️ No users with account activity for ${period.label}`);
+    return { key: period.key, status: 'empty' };
+  }
+
+  const entries = calculateLeaderboard(userData);
+  const validationErrors = validateLeaderboardEntries(entries);
+  if (validationErrors.length > 0) {
+    console.error(`❌ Validation errors for ${period.label}:`, validationErrors);
+    return { key: period.key, status: 'failed' };
+  }
+
+  if (replace) {
+    const { error: deleteError } = await supabase
+      .from("period_leaderboard")
+      .delete()
+      .eq("period_type", period.type)
+      .eq("period_key", period.key);
+
+    if (deleteError) {
+      console.error(`❌ Failed to clear ${period.label}:`, deleteError);
+      return { key: period.key, status: 'failed' };
+    }
+  }
+
+  const { error: insertError } = await supabase
+    .from("period_leaderboard")
+    .insert(entries.map(entry => toPeriodLeaderboardDbFormat(entry, period)));
+
+  if (insertError) {
+    console.error(`❌ Insert failed for ${period.label}:`, insertError);
+    return { key: period.key, status: 'failed' };
+  }
+
+  console.log(`✅ ${period.label} generated (${entries.length} users)`);
+  return { key: period.key, status: 'stored', users: entries.length };
+}
+
+/**
+ * Matchday and season periods of the current season.
+ * A matchday is complete once all of its fixtures have been applied,
+ * postponed or voided.
+ */
+async function getFixturePeriods(now: Date): Promise<{ matchdays: LeaderboardPeriod[]; season: LeaderboardPeriod | null }> {
+  const { data: fixtures, error } = await supabase
+    .from("fixtures")
+    .select("kickoff_at, matchday, season, status, lifecycle_state")
+    .not("season", "is", null);
+
+  if (error) {
+    console.error("❌ Failed to fetch fixtures:", error);
+    throw error;
+  }
+
+  const started = (fixtures || []).filter(f => new Date(f.kickoff_at) <= now);
+  if (started.length === 0) {
+    return { matchdays: [], season: null };
+  }
+
+  const currentSeason = Math.max(...started.map(f => f.season as number));
+  const seasonFixtures: PeriodFixtureRow[] = (fixtures || []).filter(f => f.season === currentSeason);
+
+  const openMatchdays = new Set(
+    seasonFixtures
+      .filter(f => f.status !== 'applied' && !SETTLED_WITHOUT_RESULT_STATES.has(f.lifecycle_state))
+      .map(f => f.matchday)
+  );
+
+  return {
+    matchdays: buildMatchdayPeriods(
+      seasonFixtures.filter(f => !openMatchdays.has(f.matchday)),
+      currentSeason
+    ),
+    season: getSeasonPeriod(currentSeason, seasonFixtures, now),
+  };
+}
+
+/**
+ * Calculate a custom date range on request of an admin (bearer token)
+ */
+async function handleCustomPeriod(event: HandlerEvent): Promise<HandlerResponse> {
+  const authHeader = event.headers.authorization || event.headers.Authorization;
+  const accessToken = authHeader?.replace(/^Bearer\s+/i, '');
+  if (!accessToken) {
+    return { statusCode: 401, body: JSON.stringify({ error: "Missing access token" }) };
+  }
+
+  const { data: authData, error: authError } = await supabase.auth.getUser(accessToken);
+  if (authError || !authData.user) {
+    return { statusCode: 401, body: JSON.stringify({ error: "Invalid access token" }) };
+  }
+
+  const { data: caller } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", authData.user.id)
+    .maybeSingle();
+
+  if (!caller?.is_admin) {
+    return { statusCode: 403, body: JSON.stringify({ error: "Admin access required" }) };
+  }
+
+  const { start, end } = JSON.parse(event.body || "{}") as { start?: string; end?: string };
+  if (!start || !end) {
+    return { statusCode: 400, body: JSON.stringify({ error: "start and end are required" }) };
+  }
+
+  let period: LeaderboardPeriod;
+  try {
+    period = getCustomPeriod(new Date(start), new Date(end));
+  } catch (error) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ error: error instanceof Error ? error.message : "Invalid period" })
+    };
+  }
+
+  if (period.end.getTime() > Date.now()) {
+    return { statusCode: 400, body: JSON.stringify({ error: "Custom period cannot end in the future" }) };
+  }
+
+  const result = await storePeriod(period, true);
+  return {
+    statusCode: result.status === 'failed' ? 500 : 200,
+    body: JSON.stringify({ period_key: period.key, ...result })
+  };
+}
+
+/**
+ * Period leaderboard scheduled function.
+ * Schedule: daily 23:00 UTC = 03:00 UAE, the leaderboard day boundary.
+ *
+ * Each run stores the last completed month and any completed matchdays that
+ * are missing, then rewrites the running season.
+ *
+ * Admins can also POST {"period_type": "custom", "start": "<ISO>", "end": "<ISO>"}
+ * with their access token to calculate a custom date range.
+ */
+export const handler = schedule("0 23 * * *", async (event: HandlerEvent): Promise<HandlerResponse> => {
+  /**
+   * Allow execution via:
+   * - Netlify scheduled cron (body contains next_run)
+   * - Manual: POST with header x-manual-run: true or query ?manual=true
+   * - Admin custom range: POST with period_type "custom"
+   */
+  const headers = event.headers || {};
+  const manualHeader = headers["x-manual-run"] ?? headers["X-Manual-Run"];
+  const manualQuery = event.queryStringParameters?.manual === "true";
+  const isManual =
+    event.httpMethod === "POST" &&
+    (manualHeader === "true" || manualQuery);
+
+  const isScheduled = Boolean(
+    (event as { cron?: boolean }).cron ||
+    (event.body && typeof event.body === "string" && event.body.includes("next_run"))
+  );
+
+  try {
+    if (!isScheduled && event.httpMethod === "POST" && event.body?.includes('"custom"')) {
+      return await handleCustomPeriod(event);
+    }
+
+    if (!isScheduled && !isManual) {
+      return { statusCode: 403, body: "Forbidden" };
+    }
+
+    console.log("🚀 Period Leaderboard Job Started");
+
+    const now = new Date();
+    const results: PeriodResult[] = [];
+
+    results.push(await storePeriod(getCompletedMonthPeriod(now)));
+
+    const { matchdays, season } = await getFixturePeriods(now);
+    for (const matchday of matchdays) {
+      results.push(await storePeriod(matchday));
+    }
+    if (season) {
+      results.push(await storePeriod(season, true));
+    }
+
+    const failed = results.filter(result => result.status === 'failed');
+    console.log(`✅ Period leaderboards done (${results.length - failed.length}/${results.length} ok)`);
+
+    return {
+      statusCode: failed.length > 0 ? 500 : 200,
+      body: JSON.stringify({ results })
+    };
+  } catch (error) {
+    console.error("❌ Period leaderboard job failed:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: error instanceof Error ? error.message : "Period leaderboard job failed" })
+    };
+  }
+});
@@ -1,17 +1,15 @@
 import type { HandlerEvent, HandlerResponse } from "@netlify/functions";
 import { schedule } from "@netlify/functions";
 import { createClient } from "@supabase/supabase-js";
-import Decimal from 'decimal.js';
 
 // Import centralized calculation utilities
 import {
-  calculateWeeklyReturn,
   calculateLeaderboard,
   toLeaderboardDbFormat,
-  validateLeaderboardEntries,
-  type UserLeaderboardData
+  validateLeaderboardEntries
 } from "../../src/shared/lib/utils/leaderboard-calculations";
-import { toDecimal } from "../../src/shared/lib/utils/decimal";
+import { getCompletedWeekPeriod } from "../../src/shared/lib/utils/leaderboard-periods";
+import { fetchUserLeaderboardData } from "./utils/leaderboard-data";
 
 /**
  * Helper function to get environment variables with fallbacks
@@ -50,294 +48,6 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
  */
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
-/**
- * Compute the COMPLETED leaderboard week (UAE time)
- *
- * IMPORTANT:
- * - This job runs on Monday 03:00 UAE time
- * - At that point, the previous week is fully complete
- * - So we ALWAYS compute the PREVIOUS Monday 03:00 → Monday 02:59 window
- *
- * Week definition:
- *   Monday 03:00 UAE → next Monday 02:59 UAE (exactly 7 days)
- *
- * Returned values are converted back to UTC
- * because Supabase stores timestamps in UTC.
- */
-function getCompletedUAEWeekBounds() {
-  const nowUTC = new Date();
-
-  // Convert to UAE time (UTC +4)
-  const nowUAE = new Date(nowUTC.getTime() + 4 * 60 * 60 * 1000);
-
-  // Move back one full week to ensure we process the COMPLETED week
-  nowUAE.setUTCDate(nowUAE.getUTCDate() - 7);
-
-  const day = nowUAE.getUTCDay(); // 0 = Sunday
-  const diffToMonday = (day === 0 ? -6 : 1) - day;
-
-  // Monday 03:00 UAE
-  const weekStartUAE = new Date(nowUAE);
-  weekStartUAE.setUTCDate(nowUAE.getUTCDate() + diffToMonday);
-  weekStartUAE.setUTCHours(3, 0, 0, 0);
-
-  // Next Monday 02:59:59 UAE (exactly 7 days, matches DB format)
-  const weekEndUAE = new Date(weekStartUAE);
-  weekEndUAE.setUTCDate(weekStartUAE.getUTCDate() + 7);
-  weekEndUAE.setUTCHours(2, 59, 59, 0);
-  // Convert back to UTC before saving to DB
-  return {
-    week_start: new Date(weekStartUAE.getTime() - 4 * 60 * 60 * 1000),
-    week_end: new Date(weekEndUAE.getTime() - 4 * 60 * 60 * 1000),
-  };
-}
-
-/**
- * Helper: Convert cents (bigint) to dollars with FULL PRECISION
- * CRITICAL: Do NOT round during intermediate calculations
- * Only round when displaying or storing final results
- */
-function fromCents(cents: number | null | undefined): number {
-  if (cents === null || cents === undefined) return 0;
-  // Keep full precision - let Decimal.js handle it
-  return new Decimal(cents).dividedBy(100).toNumber();
-}
-
-/**
- * Helper: Convert Decimal to number with FULL PRECISION
- * Used for intermediate calculations to avoid rounding errors
- */
-function toNumber(value: Decimal): number {
-  return value.toNumber();
-}
-
-async function calculatePortfolioAtTimestamp(
-  userId: string,
-  timestamp: string
-): Promise<number> {
-
-  // 1️⃣ Get all FILLED orders before timestamp
-  // Use executed_at if available, otherwise fall back to created_at
-  const { data: orders, error: ordersError } = await supabase
-  .from("orders")
-  .select("team_id, order_type, quantity, executed_at, created_at")
-  .eq("user_id", userId)
-  .eq("status", "FILLED");
-
-  if (ordersError) {
-    console.error(`❌ Error fetching orders for ${userId}:`, ordersError);
-    return 0;
-  }
-
-  if (!orders || orders.length === 0) {
-    return 0;
-  }
-
-  // Filter orders by timestamp (executed_at or created_at)
-  const ordersBeforeTimestamp = orders.filter(order => {
-    const orderTime = order.executed_at || order.created_at;
-    return orderTime <= timestamp;
-  });
-
-  if (ordersBeforeTimestamp.length === 0) {
-    return 0;
-  }
-
-  // 2️⃣ Reconstruct quantity per team
-  const teamQuantities = new Map<number, Decimal>();
-
-  for (const order of ordersBeforeTimestamp) {
-    const currentQty = teamQuantities.get(order.team_id) ?? new Decimal(0);
-    const qty = new Decimal(order.quantity); // quantity is INTEGER, NOT cents
-
-    if (order.order_type === "BUY") {
-      teamQuantities.set(order.team_id, currentQty.plus(qty));
-    } else {
-      teamQuantities.set(order.team_id, currentQty.minus(qty));
-    }
-  }
-
-  // 3️⃣ Calculate portfolio value
-  let portfolioValue = new Decimal(0);
-
-  for (const [teamId, quantity] of teamQuantities.entries()) {
-
-    if (quantity.lte(0)) continue;
-
-    const { data: ledger } = await supabase
-      .from("total_ledger")
-      .select("share_price_after")
-      .eq("team_id", teamId)
-      .lte("event_date", timestamp)
-      .order("event_date", { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    let price: Decimal;
-
-    if (ledger?.share_price_after) {
-      // share_price_after is BIGINT cents
-      price = new Decimal(ledger.share_price_after).dividedBy(100);
-    } else {
-      // fallback to launch price from teams table
-      const { data: team } = await supabase
-        .from("teams")
-        .select("launch_price")
-        .eq("id", teamId)
-        .single();
-
-      price = new Decimal(team?.launch_price ?? 2000).dividedBy(100);
-    }
-
-    portfolioValue = portfolioValue.plus(price.times(quantity));
-  }
-
-  return portfolioValue.toNumber(); // full precision
-}
-
-/**
- * Fetch user wallet and portfolio data for leaderboard calculation
- * Uses the same calculation logic as the frontend for consistency
- */
-async function fetchUserLeaderboardData(
-  weekStart: string,
-  weekEnd: string
-): Promise<UserLeaderboardData[]> {
-  console.log("📊 Fetching user data for leaderboard calculation...");
-
-  // Get all users with profiles
-  const { data: profiles, error: profilesError } = await supabase
-    .from("profiles")
-    .select("id, full_name, wallet_balance");
-
-  if (profilesError) {
-    console.error("❌ Failed to fetch profiles:", profilesError);
-    throw profilesError;
-  }
-
-  if (!profiles || profiles.length === 0) {
-    console.log("⚠️ No users found");
-    return [];
-  }
-  console.log(`  Found ${profiles.length} users`);
-  
-  // Process each user
-  const userData: UserLeaderboardData[] = [];
-
-  for (const profile of profiles) {
-    const userId = profile.id;    // 1. Get wallet balance at start and end of week
-    // Calculate wallet balance by summing all transactions up to that point
-    // Deposits/sales ADD to wallet, purchases SUBTRACT from wallet
-    
-    // Start: Calculate wallet balance from ALL transactions BEFORE week_start
-    const { data: startTransactions } = await supabase
-      .from("wallet_transactions")
-      .select("amount_cents, type")
-      .eq("user_id", userId)
-      .lt("created_at", weekStart)
-      .order("created_at", { ascending: true });
-
-    let startWalletBalance = 0;
-    if (startTransactions && startTransactions.length > 0) {
-      for (const tx of startTransactions) {
-        const amount = fromCents(tx.amount_cents);
-        if (tx.type === "deposit" || tx.type === "sale") {
-          startWalletBalance += amount;
-        } else if (tx.type === "purchase") {
-          startWalletBalance -= amount;
-        }
-      }
-    }
-
-    // End: Calculate wallet balance from ALL transactions BEFORE week_end
-    const { data: endTransactions } = await supabase
-      .from("wallet_transactions")
-      .select("amount_cents, type")
-      .eq("user_id", userId)
-      .lt("created_at", weekEnd)
-      .order("created_at", { ascending: true });
-
-    let endWalletBalance = 0;
-    if (endTransactions && endTransactions.length > 0) {
-      for (const tx of endTransactions) {
-        const amount = fromCents(tx.amount_cents);
-        if (tx.type === "deposit" || tx.type === "sale") {
-          endWalletBalance += amount;
-        } else if (tx.type === "purchase") {
-          endWalletBalance -= amount;
-        }
-      }
-    }
-    
-    const startWalletValue = startWalletBalance;
-    const endWalletValue = endWalletBalance;
-
-    // 2. Reconstruct portfolio at start and end using orders + ledger
-    const startPortfolioValue = await calculatePortfolioAtTimestamp(userId, weekStart);
-    const endPortfolioValue = await calculatePortfolioAtTimestamp(userId, weekEnd);
-
-    // 3. Calculate deposits during the week
-    const { data: deposits } = await supabase
-      .from("wallet_transactions")
-      .select("amount_cents")
-      .eq("user_id", userId)
-      .eq("type", "deposit")
-      .gte("created_at", weekStart)
-      .lt("created_at", weekEnd);
-
-    const depositsWeek = (deposits || []).reduce((sum, tx) => sum + fromCents(tx.amount_cents), 0);
-
-    // 4. Calculate account values using Decimal.js
-    const startAccountValue = new Decimal(startWalletValue).plus(new Decimal(startPortfolioValue)).toNumber();
-    const endAccountValue = new Decimal(endWalletValue).plus(new Decimal(endPortfolioValue)).toNumber();
-
-    // 5. Determine if user should be included in leaderboard
-    // Include if ANY of these conditions are met:
-    // - Has starting account value (existing user)
-    // - Has ending account value (made trades/received deposits)
-    // - Made deposits this week (new user who deposited)
-    const hasActivity = startAccountValue > 0 || endAccountValue > 0 || depositsWeek > 0;
-    
-    // Special handling for mid-week joiners:
-    // If user joined mid-week (start = 0) but has deposits and trades (end > deposits),
-    // they should be included    const isMidWeekJoiner = startAccountValue === 0 && depositsWeek > 0;
-    const hasTradingActivity = endAccountValue > depositsWeek; // Traded, not just deposited
-
-    if (hasActivity) {
-      // Calculate weekly return to check for anomalies
-      const weeklyReturn = calculateWeeklyReturn(startAccountValue, endAccountValue, depositsWeek);
-        // Debug logging for users with extreme returns
-      if (Math.abs(weeklyReturn) > 5) { // More than 500% return
-        console.log(`⚠️ Extreme return detected for user ${profile.full_name || userId}:`);
-        console.log(`  Start Wallet: $${startWalletValue.toFixed(2)}`);
-        console.log(`  Start Portfolio: $${startPortfolioValue.toFixed(2)}`);
-        console.log(`  Start Account: $${startAccountValue.toFixed(2)}`);
-        console.log(`  End Wallet: $${endWalletValue.toFixed(2)}`);
-        console.log(`  End Portfolio: $${endPortfolioValue.toFixed(2)}`);
-        console.log(`  End Account: $${endAccountValue.toFixed(2)}`);
-        console.log(`  Deposits: $${depositsWeek.toFixed(2)}`);
-        console.log(`  Calculated Return: ${(weeklyReturn * 100).toFixed(2)}%`);
-        console.log(`  Week Start: ${weekStart}`);
-        console.log(`  Week End: ${weekEnd}`);
-      }
-      
-      userData.push({
-        user_id: userId,
-        full_name: profile.full_name,
-        start_wallet_value: startWalletValue,
-        start_portfolio_value: startPortfolioValue,
-        start_account_value: startAccountValue,
-        end_wallet_value: endWalletValue,
-        end_portfolio_value: endPortfolioValue,
-        end_account_value: endAccountValue,
-        deposits_week: depositsWeek
-      });
-    }
-  }
-  console.log(`  Processed ${userData.length} users with account activity`);
-  return userData;
-}
-
 /**
  * Weekly leaderboard scheduled function.
  * Schedule: Sunday 23:00 UTC = Monday 03:00 UAE
@@ -369,7 +79,11 @@ export const handler = schedule("0 23 * * 0", async (event: HandlerEvent): Promi
 
   console.log("🚀 Weekly Leaderboard Job Started");
 
-  const { week_start, week_end } = getCompletedUAEWeekBounds();
+  /**
+   * This job runs on Monday 03:00 UAE time, when the previous
+   * Monday 03:00 → Monday 02:59:59 UAE week is fully complete
+   */
+  const { start: week_start, end: week_end } = getCompletedWeekPeriod();
 
   console.log("📅 Processing week:");
   console.log("  Week start (UTC):", week_start.toISOString());
@@ -397,7 +111,7 @@ export const handler = schedule("0 23 * * 0", async (event: HandlerEvent): Promi
    * Step 1: Fetch user data and compute leaderboard using TypeScript
    * This ensures calculations match the frontend exactly (using Decimal.js)
    */
-  const userData = await fetchUserLeaderboardData(weekStartStr, weekEndStr);
+  const userData = await fetchUserLeaderboardData(supabase, weekStartStr, weekEndStr);
 
   if (userData.length === 0) {
     console.log("⚠️ No users with account activity for this week");
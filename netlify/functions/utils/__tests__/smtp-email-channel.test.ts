@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'node:net';
+import { buildSmtpMessage, createSmtpEmailChannel } from '../smtp-email-channel';
+
+interface StubSession {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Local SMTP stub: accepts one message per connection and records the
+ * conversation. `rejectRecipient` answers RCPT TO with 550.
+ */
+function startSmtpStub(options: { rejectRecipient?: boolean } = {}) {
+  const sessions: StubSession[] = [];
+
+  const server = net.createServer(socket => {
+    const session: StubSession = { commands: [], data: '' };
+    sessions.push(session);
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 stub ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        session.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        session.commands.push(line);
+
+        if (line.startsWith('EHLO')) socket.write('250-stub\r\n250 AUTH LOGIN\r\n');
+        else if (line === 'AUTH LOGIN') socket.write('334 VXNlcm5hbWU6\r\n');
+        else if (session.commands[session.commands.length - 2] === 'AUTH LOGIN') socket.write('334 UGFzc3dvcmQ6\r\n');
+        else if (session.commands[session.commands.length - 3] === 'AUTH LOGIN') socket.write('235 ok\r\n');
+        else if (line.startsWith('MAIL FROM')) socket.write('250 ok\r\n');
+        else if (line.startsWith('RCPT TO')) socket.write(options.rejectRecipient ? '550 no such user\r\n' : '250 ok\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; sessions: StubSession[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, sessions, close: () => new Promise(done => server.close(() => done())) });
+    });
+  });
+}
+
+describe('SMTP email channel', () => {
+  let stub: Awaited<ReturnType<typeof startSmtpStub>> | null = null;
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = null;
+  });
+
+  it('should authenticate and deliver the message to the SMTP server', async () => {
+    stub = await startSmtpStub();
+    const channel = createSmtpEmailChannel({
+      host: '127.0.0.1',
+      port: stub.port,
+      username: 'mailer',
+      password: 'secret',
+      from: 'Football Trading <alerts@example.com>',
+    });
+
+    await channel.send({ to: 'fan@example.com', subject: 'Arsenal above $25.00', text: 'Shares are up.\n.leading dot' });
+
+    const [session] = stub.sessions;
+    expect(session.commands).toContain(Buffer.from('mailer').toString('base64'));
+    expect(session.commands).toContain('MAIL FROM:<alerts@example.com>');
+    expect(session.commands).toContain('RCPT TO:<fan@example.com>');
+    expect(session.commands[session.commands.length - 1]).toBe('QUIT');
+    expect(session.data).toContain('Subject: Arsenal above $25.00');
+    expect(session.data).toContain('Shares are up.\r\n..leading dot');
+  });
+
+  it('should reject when the server refuses the recipient', async () => {
+    stub = await startSmtpStub({ rejectRecipient: true });
+    const channel = createSmtpEmailChannel({ host: '127.0.0.1', port: stub.port, from: 'alerts@example.com' });
+
+    await expect(channel.send({ to: 'nobody@example.com', subject: 'Hi', text: 'Hi' }))
+      .rejects.toThrow('SMTP RCPT TO failed: 550');
+  });
+
+  it('should build headers without letting the subject inject new ones', () => {
+    const message = buildSmtpMessage(
+      'alerts@example.com',
+      { to: 'fan@example.com', subject: 'Hello\r\nBcc: evil@example.com', text: 'Body' },
+      new Date('2025-10-18T12:00:00Z')
+    );
+
+    expect(message).toContain('Subject: Hello Bcc: evil@example.com\r\n');
+    expect(message).toContain('Date: Sat, 18 Oct 2025 12:00:00 GMT');
+    expect(message.endsWith('\r\n\r\nBody')).toBe(true);
+  });
+});
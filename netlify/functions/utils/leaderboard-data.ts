@@ -0,0 +1,233 @@
+// Leaderboard input data for Netlify Functions
+// Shared by the weekly and period leaderboard jobs so every period type is
+// valued with the same wallet/portfolio reconstruction
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import Decimal from 'decimal.js';
+import {
+  calculatePeriodReturn,
+  type UserLeaderboardData
+} from "../../../src/shared/lib/utils/leaderboard-calculations";
+import {
+  calculatePortfolioValueAt,
+  calculateWalletBalanceAt,
+  EXTERNAL_FLOW_TYPES,
+  p2pTradesToHistoryOrders,
+  type HistoryOrder,
+  type HistoryWalletTransaction,
+  type TeamPricePoint
+} from "../../../src/shared/lib/utils/portfolio-history";
+
+/**
+ * Helper: Convert cents (bigint) to dollars with FULL PRECISION
+ * CRITICAL: Do NOT round during intermediate calculations
+ * Only round when displaying or storing final results
+ */
+function fromCents(cents: number | null | undefined): number {
+  if (cents === null || cents === undefined) return 0;
+  // Keep full precision - let Decimal.js handle it
+  return new Decimal(cents).dividedBy(100).toNumber();
+}
+
+const LEDGER_PAGE_SIZE = 1000;
+
+/**
+ * Load the inputs needed to value a user's portfolio at any point in time:
+ * FILLED orders and P2P trades, the price history of every team they traded and each
+ * team's launch price (used before a team has any ledger history)
+ */
+export async function loadPortfolioHistory(supabase: SupabaseClient, userId: string): Promise<{
+  orders: HistoryOrder[];
+  prices: TeamPricePoint[];
+  fallbackPriceCents: Map<number, number>;
+}> {
+  // Use executed_at if available, otherwise fall back to created_at
+  const { data: orders, error: ordersError } = await supabase
+    .from("orders")
+    .select("team_id, order_type, quantity, executed_at, created_at")
+    .eq("user_id", userId)
+    .eq("status", "FILLED");
+
+  if (ordersError) {
+    console.error(`❌ Error fetching orders for ${userId}:`, ordersError);
+    return { orders: [], prices: [], fallbackPriceCents: new Map() };
+  }
+
+  // P2P settlement moves shares between positions without an orders row
+  const { data: p2pTrades, error: p2pError } = await supabase
+    .from("p2p_trades")
+    .select("team_id, buyer_id, seller_id, quantity, executed_at")
+    .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`);
+
+  if (p2pError) {
+    console.error(`❌ Error fetching P2P trades for ${userId}:`, p2pError);
+    return { orders: [], prices: [], fallbackPriceCents: new Map() };
+  }
+
+  const historyOrders: HistoryOrder[] = [
+    ...(orders || []).map(order => ({
+      teamId: order.team_id,
+      orderType: order.order_type,
+      quantity: order.quantity, // quantity is INTEGER, NOT cents
+      executedAt: order.executed_at || order.created_at
+    })),
+    ...p2pTradesToHistoryOrders(p2pTrades || [], userId)
+  ];
+
+  const teamIds = [...new Set(historyOrders.map(order => order.teamId))];
+  if (teamIds.length === 0) {
+    return { orders: historyOrders, prices: [], fallbackPriceCents: new Map() };
+  }
+
+  // Page through the ledger: Supabase caps each response at 1000 rows
+  const ledger: { team_id: number; event_date: string; share_price_after: number | null }[] = [];
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data: page, error: ledgerError } = await supabase
+      .from("total_ledger")
+      .select("team_id, event_date, share_price_after")
+      .in("team_id", teamIds)
+      .order("id", { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (ledgerError) {
+      console.error(`❌ Error fetching price history for ${userId}:`, ledgerError);
+      break;
+    }
+    ledger.push(...(page || []));
+    if (!page || page.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  const { data: teams } = await supabase
+    .from("teams")
+    .select("id, launch_price")
+    .in("id", teamIds);
+
+  // share_price_after is BIGINT cents
+  const prices: TeamPricePoint[] = ledger
+    .filter(entry => entry.share_price_after)
+    .map(entry => ({
+      teamId: entry.team_id,
+      effectiveAt: entry.event_date,
+      sharePriceCents: Number(entry.share_price_after)
+    }));
+
+  const fallbackPriceCents = new Map<number, number>(
+    (teams || []).map(team => [team.id, team.launch_price ?? 2000])
+  );
+
+  return { orders: historyOrders, prices, fallbackPriceCents };
+}
+
+/**
+ * Fetch user wallet and portfolio data for leaderboard calculation
+ * Uses the same calculation logic as the frontend for consistency.
+ * Works for any period: weekStart/weekEnd are the period bounds (ISO strings).
+ */
+export async function fetchUserLeaderboardData(
+  supabase: SupabaseClient,
+  weekStart: string,
+  weekEnd: string
+): Promise<UserLeaderboardData[]> {
+  console.log("📊 Fetching user data for leaderboard calculation...");
+
+  // Get all users with profiles
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name, wallet_balance");
+
+  if (profilesError) {
+    console.error("❌ Failed to fetch profiles:", profilesError);
+    throw profilesError;
+  }
+
+  if (!profiles || profiles.length === 0) {
+    console.log("⚠️ No users found");
+    return [];
+  }
+  console.log(`  Found ${profiles.length} users`);
+  
+  // Process each user
+  const userData: UserLeaderboardData[] = [];
+
+  for (const profile of profiles) {
+    const userId = profile.id;
+
+    // 1. Get wallet balance at start and end of week
+    // Rebuilt from ALL transactions strictly BEFORE each bound
+    // Deposits/sales ADD to wallet, purchases SUBTRACT from wallet
+    const { data: transactions } = await supabase
+      .from("wallet_transactions")
+      .select("amount_cents, type, created_at")
+      .eq("user_id", userId)
+      .lt("created_at", weekEnd)
+      .order("created_at", { ascending: true });
+
+    const walletHistory: HistoryWalletTransaction[] = (transactions || []).map(tx => ({
+      type: tx.type,
+      amountCents: tx.amount_cents,
+      createdAt: tx.created_at
+    }));
+
+    const startWalletValue = calculateWalletBalanceAt(walletHistory, weekStart, false);
+    const endWalletValue = calculateWalletBalanceAt(walletHistory, weekEnd, false);
+
+    // 2. Reconstruct portfolio at start and end using orders + ledger
+    const history = await loadPortfolioHistory(supabase, userId);
+    const startPortfolioValue = calculatePortfolioValueAt(history.orders, history.prices, weekStart, history.fallbackPriceCents);
+    const endPortfolioValue = calculatePortfolioValueAt(history.orders, history.prices, weekEnd, history.fallbackPriceCents);
+
+    // 3. Calculate net deposits during the week (deposits minus withdrawals)
+    const depositsWeek = walletHistory
+      .filter(tx => EXTERNAL_FLOW_TYPES[tx.type] && new Date(tx.createdAt) >= new Date(weekStart))
+      .reduce((sum, tx) => sum + EXTERNAL_FLOW_TYPES[tx.type] * fromCents(tx.amountCents), 0);
+
+    // 4. Calculate account values using Decimal.js
+    const startAccountValue = new Decimal(startWalletValue).plus(new Decimal(startPortfolioValue)).toNumber();
+    const endAccountValue = new Decimal(endWalletValue).plus(new Decimal(endPortfolioValue)).toNumber();
+
+    // 5. Determine if user should be included in leaderboard
+    // Include if ANY of these conditions are met:
+    // - Has starting account value (existing user)
+    // - Has ending account value (made trades/received deposits)
+    // - Made deposits this week (new user who deposited)
+    const hasActivity = startAccountValue > 0 || endAccountValue > 0 || depositsWeek > 0;
+    
+    // Special handling for mid-week joiners:
+    // If user joined mid-week (start = 0) but has deposits and trades (end > deposits),
+    // they should be included    const isMidWeekJoiner = startAccountValue === 0 && depositsWeek > 0;
+    const hasTradingActivity = endAccountValue > depositsWeek; // Traded, not just deposited
+
+    if (hasActivity) {
+      // Calculate weekly return to check for anomalies
+      const weeklyReturn = calculatePeriodReturn(startAccountValue, endAccountValue, depositsWeek);
+        // Debug logging for users with extreme returns
+      if (Math.abs(weeklyReturn) > 5) { // More than 500% return
+        console.log(`⚠️ Extreme return detected for user ${profile.full_name || userId}:`);
+        console.log(`  Start Wallet: $${startWalletValue.toFixed(2)}`);
+        console.log(`  Start Portfolio: $${startPortfolioValue.toFixed(2)}`);
+        console.log(`  Start Account: $${startAccountValue.toFixed(2)}`);
+        console.log(`  End Wallet: $${endWalletValue.toFixed(2)}`);
+        console.log(`  End Portfolio: $${endPortfolioValue.toFixed(2)}`);
+        console.log(`  End Account: $${endAccountValue.toFixed(2)}`);
+        console.log(`  Deposits: $${depositsWeek.toFixed(2)}`);
+        console.log(`  Calculated Return: ${(weeklyReturn * 100).toFixed(2)}%`);
+        console.log(`  Week Start: ${weekStart}`);
+        console.log(`  Week End: ${weekEnd}`);
+      }
+      
+      userData.push({
+        user_id: userId,
+        full_name: profile.full_name,
+        start_wallet_value: startWalletValue,
+        start_portfolio_value: startPortfolioValue,
+        start_account_value: startAccountValue,
+        end_wallet_value: endWalletValue,
+        end_portfolio_value: endPortfolioValue,
+        end_account_value: endAccountValue,
+        deposits_week: depositsWeek
+      });
+    }
+  }
+  console.log(`  Processed ${userData.length} users with account activity`);
+  return userData;
+}
@@ -0,0 +1,198 @@
+// SMTP email channel for Netlify Functions
+// Minimal SMTP client (EHLO, STARTTLS, AUTH LOGIN, MAIL/RCPT/DATA) so outbound
+// notification email has no extra dependency. Tests run it against a local
+// SMTP stub; without SMTP settings the env factory falls back to logging.
+
+import net from 'node:net';
+import tls from 'node:tls';
+import type { EmailChannel, EmailMessage } from '../../../src/shared/lib/utils/notifications';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+  /** Accept self-signed certificates (local relays only) */
+  allowInsecureTls?: boolean;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Collects multi-line SMTP replies ("250-..." continuation lines up to "250 ...")
+ * from whichever socket is currently attached
+ */
+function createReplyReader() {
+  let buffer = '';
+  let current: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      current.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: current };
+        current = [];
+        const waiter = waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+
+  const fail = (error: Error) => {
+    failure = error;
+    while (waiters.length > 0) waiters.shift()!.reject(error);
+  };
+
+  return {
+    attach(socket: net.Socket) {
+      socket.on('data', onData);
+      socket.on('error', fail);
+      socket.on('close', () => fail(new Error('SMTP connection closed')));
+    },
+    detach(socket: net.Socket) {
+      socket.removeAllListeners('data');
+      socket.removeAllListeners('error');
+      socket.removeAllListeners('close');
+    },
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    }
+  };
+}
+
+const formatAddress = (address: string) => `<${address.replace(/^.*<|>.*$/g, '').trim()}>`;
+
+/**
+ * RFC 5322 message with dot-stuffing applied to the body
+ */
+export function buildSmtpMessage(from: string, message: EmailMessage, date: Date = new Date()): string {
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body
+  ].join('\r\n');
+}
+
+export function createSmtpEmailChannel(config: SmtpConfig): EmailChannel {
+  const timeoutMs = config.timeoutMs ?? 15000;
+
+  const connect = () => new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: !config.allowInsecureTls })
+      : net.connect({ host: config.host, port: config.port });
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+  return {
+    async send(message: EmailMessage): Promise<void> {
+      let socket = await connect();
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP timeout')));
+
+      const reader = createReplyReader();
+      reader.attach(socket);
+
+      const expect = async (codes: number[], step: string) => {
+        const reply = await reader.next();
+        if (!codes.includes(reply.code)) {
+          throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+      };
+
+      const command = async (line: string, codes: number[], step: string) => {
+        socket.write(`${line}\r\n`);
+        return expect(codes, step);
+      };
+
+      try {
+        await expect([220], 'greeting');
+        let ehlo = await command('EHLO localhost', [250], 'EHLO');
+
+        const offersStartTls = ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'));
+        if (!config.secure && offersStartTls) {
+          await command('STARTTLS', [220], 'STARTTLS');
+          reader.detach(socket);
+          socket = tls.connect({ socket, servername: config.host, rejectUnauthorized: !config.allowInsecureTls });
+          reader.attach(socket);
+          ehlo = await command('EHLO localhost', [250], 'EHLO');
+        }
+
+        if (config.username && config.password) {
+          await command('AUTH LOGIN', [334], 'AUTH');
+          await command(Buffer.from(config.username).toString('base64'), [334], 'AUTH username');
+          await command(Buffer.from(config.password).toString('base64'), [235], 'AUTH password');
+        }
+
+        await command(`MAIL FROM:${formatAddress(config.from)}`, [250], 'MAIL FROM');
+        await command(`RCPT TO:${formatAddress(message.to)}`, [250, 251], 'RCPT TO');
+        await command('DATA', [354], 'DATA');
+        await command(`${buildSmtpMessage(config.from, message)}\r\n.`, [250], 'message');
+        await command('QUIT', [221], 'QUIT').catch(() => undefined);
+      } finally {
+        reader.detach(socket);
+        socket.destroy();
+      }
+    }
+  };
+}
+
+/**
+ * Channel used when no SMTP server is configured: emails are only logged
+ */
+export function createLogEmailChannel(): EmailChannel {
+  return {
+    async send(message: EmailMessage): Promise<void> {
+      console.log(`📧 [email disabled] To: ${message.to} | ${message.subject}`);
+    }
+  };
+}
+
+/**
+ * SMTP channel from SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER /
+ * SMTP_PASSWORD / SMTP_FROM, or the logging channel if SMTP_HOST is unset
+ */
+export function createEmailChannelFromEnv(env: Record<string, string | undefined> = process.env): EmailChannel {
+  if (!env.SMTP_HOST) {
+    return createLogEmailChannel();
+  }
+
+  return createSmtpEmailChannel({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT || (env.SMTP_SECURE === 'true' ? 465 : 587)),
+    secure: env.SMTP_SECURE === 'true',
+    username: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+    from: env.SMTP_FROM || 'Football Trading <no-reply@localhost>'
+  });
+}
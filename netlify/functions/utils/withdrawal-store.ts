@@ -0,0 +1,37 @@
+// Withdrawal payout store for Netlify Functions
+// Wraps the service-role settlement RPCs from the withdrawals migration
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WithdrawalPayoutStore } from '../../../src/shared/lib/utils/withdrawals';
+
+interface SettlementResult {
+  success: boolean;
+  error?: string;
+}
+
+export function createWithdrawalStore(supabase: SupabaseClient): WithdrawalPayoutStore {
+  const call = async (fn: string, params: Record<string, unknown>) => {
+    const { data, error } = await supabase.rpc(fn, params);
+    if (error) {
+      throw new Error(`${fn} failed: ${error.message}`);
+    }
+    const result = data as SettlementResult | null;
+    if (result && !result.success) {
+      // Status already moved on (e.g. rejected before payout); nothing to settle
+      console.warn(`${fn} skipped:`, result.error);
+    }
+  };
+
+  return {
+    recordTransfer: (withdrawalId, transferId, destinationAccountId) =>
+      call('record_withdrawal_transfer', {
+        p_withdrawal_id: withdrawalId,
+        p_transfer_id: transferId,
+        p_destination_account_id: destinationAccountId,
+      }),
+    complete: (withdrawalId, transferId) =>
+      call('complete_withdrawal', { p_withdrawal_id: withdrawalId, p_transfer_id: transferId }),
+    fail: (withdrawalId, reason) =>
+      call('fail_withdrawal', { p_withdrawal_id: withdrawalId, p_reason: reason }),
+  };
+}
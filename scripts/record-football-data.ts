@@ -0,0 +1,95 @@
+/**
+ * Record Football Data
+ *
+ * Captures matches, clubs, standings and top scorers from a live football
+ * data provider into a JSON recording that the recorded provider replays
+ * (src/shared/lib/football-providers/recorded.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/record-football-data.ts
+ *   npx tsx scripts/record-football-data.ts --competitions PL,CL --season 2025
+ *   npx tsx scripts/record-football-data.ts --provider api-football --out recording.json
+ *
+ * Options:
+ *   --provider ID       football-data (default) or api-football
+ *   --competitions LIST Comma-separated competition codes (default: PL)
+ *   --season YEAR       Season start year (default: 2025)
+ *   --out FILE          Output file (default: src/shared/lib/football-providers/recordings/<codes>-<season>.json)
+ *
+ * Requirements (from .env):
+ *   - FOOTBALL_API_KEY (or VITE_FOOTBALL_API_KEY) for football-data
+ *   - API_FOOTBALL_KEY for api-football
+ */
+
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+  captureRecording,
+  createFootballDataProvider,
+  resolveFootballDataProviderId
+} from '../src/shared/lib/football-providers';
+
+// Load .env if present
+const envPath = join(process.cwd(), '.env');
+if (existsSync(envPath)) {
+  const env = readFileSync(envPath, 'utf-8').replace(/\r/g, '');
+  for (const line of env.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eqIdx = trimmed.indexOf('=');
+    if (eqIdx <= 0) continue;
+    const key = trimmed.slice(0, eqIdx).trim();
+    const val = trimmed.slice(eqIdx + 1).trim().replace(/^["']|["']$/g, '');
+    if (!process.env[key]) process.env[key] = val;
+  }
+}
+
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+const providerId = resolveFootballDataProviderId(argValue('--provider'));
+const competitionCodes = (argValue('--competitions') || 'PL').split(',').map(code => code.trim().toUpperCase());
+const season = parseInt(argValue('--season') || '2025', 10);
+const outFile = argValue('--out') ||
+  join('src/shared/lib/football-providers/recordings', `${competitionCodes.join('-').toLowerCase()}-${season}.json`);
+
+async function main() {
+  if (providerId === 'recorded') {
+    throw new Error('Record from a live provider: football-data or api-football');
+  }
+
+  const footballDataApiKey = process.env.FOOTBALL_API_KEY || process.env.VITE_FOOTBALL_API_KEY;
+  const apiFootballApiKey = process.env.API_FOOTBALL_KEY;
+  if (providerId === 'football-data' && !footballDataApiKey) {
+    throw new Error('Missing FOOTBALL_API_KEY (or VITE_FOOTBALL_API_KEY)');
+  }
+  if (providerId === 'api-football' && !apiFootballApiKey) {
+    throw new Error('Missing API_FOOTBALL_KEY');
+  }
+
+  const provider = createFootballDataProvider({ provider: providerId, footballDataApiKey, apiFootballApiKey });
+
+  console.log(`🎙️ Recording ${competitionCodes.join(', ')} ${season} from ${providerId}...`);
+  const recording = await captureRecording(
+    provider,
+    competitionCodes.map(competitionCode => ({ competitionCode, season }))
+  );
+
+  for (const code of competitionCodes) {
+    const data = recording.competitions[code][String(season)];
+    console.log(`   ${code}: ${data.matches.length} matches, ${data.teams.length} clubs, ${data.standings.length} table rows, ${data.scorers.length} scorers`);
+  }
+
+  writeFileSync(outFile, JSON.stringify(recording, null, 2) + '\n');
+  console.log(`✅ Written to ${outFile}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
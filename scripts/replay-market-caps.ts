@@ -0,0 +1,243 @@
+/**
+ * Replay Market Caps
+ *
+ * Recomputes every team's market cap from teams.initial_market_cap and the
+ * ordered history of applied fixtures, then diffs the replay against
+ * transfers_ledger, team_state_snapshots and teams.market_cap.
+ *
+ * Prints a reconciliation report. Optionally writes the corrective patch set
+ * to a JSON file and/or applies it.
+ *
+ * Usage:
+ *   npx tsx scripts/replay-market-caps.ts
+ *   npx tsx scripts/replay-market-caps.ts --patch replay-patch.json
+ *   npx tsx scripts/replay-market-caps.ts --apply
+ *
+ * Options:
+ *   --tolerance N   Ignore differences of up to N cents (default: 0)
+ *   --patch FILE    Write the corrective patch set to FILE
+ *   --apply         Apply the corrective patch set to the database
+ *
+ * Requirements (from .env):
+ *   - NEXT_PUBLIC_SUPABASE_URL
+ *   - SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createClient } from '@supabase/supabase-js';
+
+import {
+  replayMarketCaps,
+  reconcileReplay,
+  buildCorrectivePatch,
+  type PatchOperation,
+  type ReplayFixture,
+  type ReplayTeam,
+  type StoredSnapshot,
+  type StoredTransfer
+} from '../src/shared/lib/utils/market-cap-replay';
+import { getTransferRuleSet } from '../src/shared/lib/utils/transfer-rules';
+
+// Load .env if present
+const envPath = join(process.cwd(), '.env');
+if (existsSync(envPath)) {
+  const env = readFileSync(envPath, 'utf-8').replace(/\r/g, '');
+  for (const line of env.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const eqIdx = trimmed.indexOf('=');
+    if (eqIdx <= 0) continue;
+    const key = trimmed.slice(0, eqIdx).trim();
+    const val = trimmed.slice(eqIdx + 1).trim().replace(/^["']|["']$/g, '');
+    if (!process.env[key]) process.env[key] = val;
+  }
+}
+
+const supabaseUrl =
+  process.env.NEXT_PUBLIC_SUPABASE_URL ||
+  process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey =
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase credentials');
+  console.error('Required: NEXT_PUBLIC_SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+const tolerance = parseInt(argValue('--tolerance') || '0', 10);
+const patchFile = argValue('--patch');
+const shouldApply = args.includes('--apply');
+
+const PAGE_SIZE = 1000;
+
+interface TeamRow { id: number; name: string; initial_market_cap: number; market_cap: number }
+interface FixtureRow {
+  id: number;
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  result: ReplayFixture['result'];
+  home_score: number | null;
+  away_score: number | null;
+  competition_type: ReplayFixture['competitionType'] | null;
+}
+interface TransferRow {
+  id: number;
+  fixture_id: number;
+  winner_team_id: number;
+  loser_team_id: number;
+  transfer_amount: number;
+  rule_version: string | null;
+  rule_params: StoredTransfer['ruleParams'];
+  voided_at: string | null;
+}
+interface SnapshotRow { id: number; team_id: number; trigger_event_id: number; market_cap: number }
+
+type Filter = [column: string, op: 'eq' | 'neq', value: string];
+
+// Supabase caps responses at 1000 rows; page through the full table
+async function fetchAll<T>(table: string, columns: string, filters: Filter[] = []): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select(columns);
+    for (const [column, op, value] of filters) {
+      query = op === 'eq' ? query.eq(column, value) : query.neq(column, value);
+    }
+    const { data, error } = await query.order('id', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    rows.push(...((data || []) as unknown as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function loadData() {
+  const [teamRows, fixtureRows, transferRows, snapshotRows, activeRules] = await Promise.all([
+    fetchAll<TeamRow>('teams', 'id, name, initial_market_cap, market_cap'),
+    fetchAll<FixtureRow>('fixtures', 'id, home_team_id, away_team_id, kickoff_at, result, home_score, away_score, competition_type',
+      [['status', 'eq', 'applied'], ['result', 'neq', 'pending']]),
+    fetchAll<TransferRow>('transfers_ledger', 'id, fixture_id, winner_team_id, loser_team_id, transfer_amount, rule_version, rule_params, voided_at'),
+    fetchAll<SnapshotRow>('team_state_snapshots', 'id, team_id, trigger_event_id, market_cap',
+      [['snapshot_type', 'eq', 'match_result'], ['trigger_event_type', 'eq', 'fixture']]),
+    supabase.from('transfer_rule_sets').select('version').eq('is_active', true).maybeSingle()
+  ]);
+
+  const teams: ReplayTeam[] = teamRows.map(t => ({
+    id: t.id,
+    name: t.name,
+    initialMarketCapCents: Math.round(Number(t.initial_market_cap)),
+    currentMarketCapCents: Math.round(Number(t.market_cap))
+  }));
+
+  const fixtures: ReplayFixture[] = fixtureRows.map(f => ({
+    id: f.id,
+    homeTeamId: f.home_team_id,
+    awayTeamId: f.away_team_id,
+    kickoffAt: f.kickoff_at,
+    result: f.result,
+    homeScore: f.home_score,
+    awayScore: f.away_score,
+    competitionType: f.competition_type || 'league'
+  }));
+
+  const transfers: StoredTransfer[] = transferRows.map(t => ({
+    id: t.id,
+    fixtureId: t.fixture_id,
+    winnerTeamId: t.winner_team_id,
+    loserTeamId: t.loser_team_id,
+    transferAmountCents: Math.round(Number(t.transfer_amount)),
+    ruleVersion: t.rule_version,
+    ruleParams: t.rule_params,
+    voidedAt: t.voided_at
+  }));
+
+  const snapshots: StoredSnapshot[] = snapshotRows.map(s => ({
+    id: s.id,
+    teamId: s.team_id,
+    fixtureId: s.trigger_event_id,
+    marketCapCents: Math.round(Number(s.market_cap))
+  }));
+
+  return { teams, fixtures, transfers, snapshots, activeVersion: activeRules.data?.version as string | undefined };
+}
+
+async function applyPatch(patch: PatchOperation[]) {
+  let applied = 0;
+  for (const op of patch) {
+    const { error } =
+      op.action === 'insert' ? await supabase.from(op.table).insert(op.values)
+      : op.action === 'update' ? await supabase.from(op.table).update(op.values).eq('id', op.match.id)
+      : await supabase.from(op.table).delete().eq('id', op.match.id);
+
+    if (error) {
+      console.error(`   ❌ ${op.action} on ${op.table} failed:`, error.message);
+    } else {
+      applied++;
+    }
+  }
+  console.log(`\n✅ Applied ${applied}/${patch.length} patch operations`);
+}
+
+async function main() {
+  console.log('🔁 Replaying market caps from fixture history...\n');
+
+  const { teams, fixtures, transfers, snapshots, activeVersion } = await loadData();
+  const defaultRuleSet = getTransferRuleSet(activeVersion);
+
+  console.log(`Teams: ${teams.length} | Applied fixtures: ${fixtures.length} | Ledger rows: ${transfers.length} | Match snapshots: ${snapshots.length}`);
+  console.log(`Rule set for fixtures without a recorded version: ${defaultRuleSet.version}\n`);
+
+  const replay = replayMarketCaps(teams, fixtures, { defaultRuleSet, storedTransfers: transfers });
+  if (replay.skippedFixtureIds.length > 0) {
+    console.warn(`⚠️  Skipped fixtures with unknown teams: ${replay.skippedFixtureIds.join(', ')}\n`);
+  }
+
+  const stored = { transfers, snapshots, teams };
+  const report = reconcileReplay(replay, stored, tolerance);
+
+  console.log('📋 Reconciliation report');
+  console.log(`   Fixtures replayed: ${report.fixturesReplayed}`);
+  for (const [type, count] of Object.entries(report.summary)) {
+    console.log(`   ${type.padEnd(20)} ${count}`);
+  }
+
+  if (report.isConsistent) {
+    console.log('\n✅ Stored history matches the replay');
+    return;
+  }
+
+  console.log('\nIssues:');
+  for (const issue of report.issues) {
+    console.log(`   • [${issue.type}] ${issue.message}`);
+  }
+
+  const patch = buildCorrectivePatch(replay, report, stored);
+  console.log(`\n🩹 Corrective patch: ${patch.length} operations`);
+
+  if (patchFile) {
+    writeFileSync(patchFile, JSON.stringify(patch, null, 2));
+    console.log(`   Written to ${patchFile}`);
+  }
+
+  if (shouldApply) {
+    await applyPatch(patch);
+  } else {
+    console.log('   (not applied - rerun with --apply)');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -1,15 +1,24 @@
 /**
- * Update Buy Close Times Migration
+ * Update Buy Close Times
  * 
- * This script updates all existing fixtures to use the new 15-minute buy window
- * instead of the old 30-minute window.
+ * Recalculates buy_close_at for all fixtures from the trading window rules
+ * of each fixture's competition (trading_window_rules, configured in the
+ * admin matches panel). New and rescheduled fixtures are kept in sync by a
+ * database trigger; this script repairs existing data.
  * 
- * Run this script once to migrate existing data:
+ * Run:
  * npx tsx scripts/update-buy-close-times.ts
  */
 
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import {
+  DEFAULT_TRADING_WINDOW_CONFIG,
+  getBuyCloseTime,
+  getRuleForFixture,
+  type TradingWindowConfig,
+  type TradingWindowRule
+} from '../src/shared/lib/utils/trading-window';
 
 // Load environment variables
 dotenv.config();
@@ -32,10 +41,25 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 async function updateBuyCloseTimes() {
   console.log('🔄 Updating buy_close_at times for all fixtures...\n');
 
-  try {    // Get all fixtures
+  try {
+    // Load the rule per competition (defaults if the table is not there yet)
+    const config: TradingWindowConfig = { ...DEFAULT_TRADING_WINDOW_CONFIG, rules: { ...DEFAULT_TRADING_WINDOW_CONFIG.rules } };
+    const { data: rules, error: rulesError } = await supabase
+      .from('trading_window_rules')
+      .select('competition_type, close_before_kickoff_minutes, reopen_after_full_time_minutes, matchday_freeze');
+
+    if (rulesError) {
+      console.warn(`⚠️  Could not load trading window rules, using defaults: ${rulesError.message}`);
+    }
+    for (const rule of (rules || []) as TradingWindowRule[]) {
+      config.rules[rule.competition_type] = rule;
+      console.log(`📏 ${rule.competition_type}: close ${rule.close_before_kickoff_minutes} min before kickoff`);
+    }
+
+    // Get all fixtures
     const { data: fixtures, error: fetchError } = await supabase
       .from('fixtures')
-      .select('id, kickoff_at, buy_close_at')
+      .select('id, kickoff_at, buy_close_at, competition_type, home_team_id, away_team_id, status')
       .order('kickoff_at', { ascending: true });
 
     if (fetchError) {
@@ -57,8 +81,8 @@ async function updateBuyCloseTimes() {
       try {
         const kickoffTime = new Date(fixture.kickoff_at);
         
-        // Calculate new buy_close_at (15 minutes before kickoff)
-        const newBuyCloseTime = new Date(kickoffTime.getTime() - 15 * 60 * 1000);
+        // Calculate new buy_close_at from the competition's rule
+        const newBuyCloseTime = getBuyCloseTime(kickoffTime, getRuleForFixture(config, fixture));
         
         // Get old buy_close_at for comparison
         const oldBuyCloseTime = new Date(fixture.buy_close_at);
@@ -106,7 +130,7 @@ async function updateBuyCloseTimes() {
     console.log('='.repeat(60));
 
     if (updatedCount > 0) {
-      console.log('\n✨ Buy close times successfully updated to 15 minutes before kickoff!');
+      console.log('\n✨ Buy close times successfully updated from the trading window rules!');
       console.log('🔄 Please refresh your application to see the changes.');
     }
 
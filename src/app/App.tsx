@@ -7,7 +7,6 @@ import { AuthProvider } from "@/features/auth/contexts/AuthContext";
 import { ThemeProvider } from "@/shared/components/theme-provider";
 import ErrorBoundary from "@/shared/components/ErrorBoundary";
 import Index from "../pages/Index";
-import NotFound from "../pages/NotFound";
 
 const queryClient = new QueryClient();
 
@@ -21,8 +20,7 @@ const App = () => (
             <Sonner />
             <BrowserRouter>
               <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="*" element={<NotFound />} />
+                <Route path="/*" element={<Index />} />
               </Routes>
             </BrowserRouter>
           </AuthProvider>
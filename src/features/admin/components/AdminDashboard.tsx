@@ -16,18 +16,13 @@ import { AdminWeeklyLeaderboardPanel } from './WeeklyLeaderboardPanel';
 import { AdminErrorBoundary } from './AdminErrorBoundary';
 import { adminService } from '@/shared/lib/services/admin.service';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
-import { useAppContext } from '@/features/trading/contexts/AppContext';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { adminPath, isAdminPanel, type AdminPanel } from '@/shared/lib/utils/app-routes';
 
 export const AdminDashboard: React.FC = () => {
   const { user, isAdmin } = useAuth();
-  const { setCurrentPage } = useAppContext();
-
-  // Redirect if user is not admin
-  useEffect(() => {
-    if (!isAdmin) {
-      setCurrentPage('marketplace');
-    }
-  }, [isAdmin, setCurrentPage]);
+  const { panel } = useParams<{ panel: string }>();
+  const navigate = useNavigate();
 
   // Log admin dashboard access
   useEffect(() => {
@@ -39,6 +34,11 @@ export const AdminDashboard: React.FC = () => {
     }
   }, [user, isAdmin]);
 
+  // Unknown panels fall back to the overview
+  if (panel !== undefined && !isAdminPanel(panel)) {
+    return <Navigate to={adminPath()} replace />;
+  }
+
   // Don't render if user is not admin
   if (!isAdmin) {
     return (
@@ -92,7 +92,11 @@ export const AdminDashboard: React.FC = () => {
             </div>
           </div>
         </div>        {/* Main Content */}
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">          <Tabs defaultValue="dashboard" className="space-y-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">          <Tabs
+            value={panel ?? 'dashboard'}
+            onValueChange={(value) => navigate(adminPath(value as AdminPanel))}
+            className="space-y-6"
+          >
             <div className="overflow-x-auto scrollbar-hide">
               <TabsList className="inline-flex w-auto min-w-full">
                 <TabsTrigger value="dashboard" className="flex items-center gap-2">
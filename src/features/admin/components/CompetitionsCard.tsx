@@ -0,0 +1,152 @@
+// Competitions, their listed clubs and fixture sync for the matches management panel
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Trophy, RefreshCw, Users, Calendar } from 'lucide-react';
+import { competitionsService, type DatabaseCompetition } from '@/shared/lib/services/competitions.service';
+import { footballApiService, footballIntegrationService } from '@/shared/lib/football-api';
+import { formatSeasonLabel } from '@/shared/lib/utils/season-rollover';
+import { useToast } from '@/shared/hooks/use-toast';
+
+export const CompetitionsCard: React.FC = () => {
+  const { toast } = useToast();
+  const [competitions, setCompetitions] = useState<DatabaseCompetition[]>([]);
+  const [clubCounts, setClubCounts] = useState<Map<number, number>>(new Map());
+  const [season, setSeason] = useState(String(footballApiService.calculateCurrentSeason()));
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const seasonNumber = parseInt(season);
+
+  const load = useCallback(async () => {
+    if (!seasonNumber) return;
+    try {
+      setLoading(true);
+      const all = await competitionsService.getAll(true);
+      const counts = await Promise.all(all.map(competition => competitionsService.getTeamIds(competition.id, seasonNumber)));
+      setCompetitions(all);
+      setClubCounts(new Map(all.map((competition, i) => [competition.id, counts[i].length])));
+    } catch (error) {
+      console.error('Error loading competitions:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load competitions',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [seasonNumber, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (key: string, action: () => Promise<void>, success: string) => {
+    try {
+      setBusy(key);
+      await action();
+      toast({ title: 'Success', description: success });
+      await load();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Competition action failed',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleToggle = (competition: DatabaseCompetition, isActive: boolean) => runAction(
+    `active-${competition.id}`,
+    () => competitionsService.setActive(competition.id, isActive),
+    `${competition.name} ${isActive ? 'shown to users' : 'hidden from users'}`
+  );
+
+  const handleSyncClubs = (competition: DatabaseCompetition) => runAction(
+    `clubs-${competition.id}`,
+    () => footballIntegrationService.syncTeamNamesFromApi(seasonNumber, competition.code),
+    `${competition.name} clubs synced for ${formatSeasonLabel(seasonNumber)}`
+  );
+
+  const handleSyncFixtures = (competition: DatabaseCompetition) => runAction(
+    `fixtures-${competition.id}`,
+    () => footballIntegrationService.syncCompetitionFixtures(competition.code, seasonNumber),
+    `${competition.name} fixtures synced for ${formatSeasonLabel(seasonNumber)}`
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Competitions
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-[10rem] space-y-1">
+          <Label className="text-xs">Season</Label>
+          <Input type="number" value={season} onChange={e => setSeason(e.target.value)} />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Leagues list the clubs they contain. Cups only link clubs already listed through a league,
+          so sync leagues first; cup ties against clubs that are not listed are skipped.
+        </p>
+
+        <div className="space-y-2">
+          {competitions.map(competition => (
+            <div key={competition.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border rounded-lg">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={competition.is_active}
+                  disabled={busy !== null}
+                  onCheckedChange={checked => handleToggle(competition, checked)}
+                />
+                <div>
+                  <p className="font-medium">{competition.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {competition.code} · {competition.area ?? '—'}
+                  </p>
+                </div>
+                <Badge variant="outline">{competition.competition_type === 'cup' ? 'Cup' : 'League'}</Badge>
+                <Badge variant="secondary">{clubCounts.get(competition.id) ?? 0} clubs</Badge>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy !== null || !seasonNumber}
+                  onClick={() => handleSyncClubs(competition)}
+                >
+                  <Users className={`h-4 w-4 mr-2 ${busy === `clubs-${competition.id}` ? 'animate-pulse' : ''}`} />
+                  Sync Clubs
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy !== null || !seasonNumber}
+                  onClick={() => handleSyncFixtures(competition)}
+                >
+                  <Calendar className={`h-4 w-4 mr-2 ${busy === `fixtures-${competition.id}` ? 'animate-pulse' : ''}`} />
+                  Sync Fixtures
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,352 @@
+// Dividend prize pools, payout preview and confirmation for the season management panel
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Trophy, Eye, CheckCircle, Save, RefreshCw } from 'lucide-react';
+import { dividendsService, type DatabaseDividendAward } from '@/shared/lib/services/dividends.service';
+import {
+  DIVIDEND_AWARD_TYPES,
+  matchPrizePoolsToTeams,
+  type DividendAwardType,
+  type DividendPreview,
+  type DividendPrizePool,
+  type LeagueTableRow
+} from '@/shared/lib/utils/dividends';
+import { fromCents, toCents } from '@/shared/lib/utils/decimal';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+import { useToast } from '@/shared/hooks/use-toast';
+
+interface DividendPayoutsAdminProps {
+  /** Season to default to (the database season) */
+  season: number | null;
+}
+
+const centsToDollars = (cents: number) => fromCents(cents).toNumber();
+
+const toDateTimeLocal = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export const DividendPayoutsAdmin: React.FC<DividendPayoutsAdminProps> = ({ season: defaultSeason }) => {
+  const { toast } = useToast();
+  const [season, setSeason] = useState(String(defaultSeason ?? new Date().getFullYear()));
+  const [awardType, setAwardType] = useState<DividendAwardType>('league_position');
+  const [matchday, setMatchday] = useState('');
+  const [recordDate, setRecordDate] = useState(toDateTimeLocal(new Date()));
+  const [table, setTable] = useState<LeagueTableRow[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [poolInputs, setPoolInputs] = useState<Record<string, string>>({});
+  const [cupWinnerId, setCupWinnerId] = useState('');
+  const [awards, setAwards] = useState<DatabaseDividendAward[]>([]);
+  const [preview, setPreview] = useState<DividendPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const seasonNumber = parseInt(season);
+  const matchdayNumber = awardType === 'matchday_position' ? parseInt(matchday) || null : null;
+  const poolKey = (position: number | null) => (position === null ? 'cup' : String(position));
+
+  const load = useCallback(async () => {
+    if (!seasonNumber) return;
+    try {
+      setLoading(true);
+      const [league, pools, paid] = await Promise.all([
+        dividendsService.getLeagueTable(seasonNumber, matchdayNumber),
+        dividendsService.getPrizePools(seasonNumber),
+        dividendsService.getAwards(seasonNumber)
+      ]);
+      setTable(league.table);
+      setTeamNames(league.teamNames);
+      setPoolInputs(Object.fromEntries(
+        pools
+          .filter(pool => pool.awardType === awardType)
+          .map(pool => [poolKey(pool.leaguePosition), String(centsToDollars(pool.poolCents))])
+      ));
+      setAwards(paid);
+      setPreview(null);
+    } catch (error) {
+      console.error('Error loading dividends:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load dividends',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [seasonNumber, matchdayNumber, awardType, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const pools: DividendPrizePool[] = Object.entries(poolInputs)
+    .map(([key, value]) => ({
+      awardType,
+      leaguePosition: key === 'cup' ? null : parseInt(key),
+      poolCents: toCents(parseFloat(value) || 0)
+    }))
+    .filter(pool => pool.poolCents > 0 && (awardType === 'cup_win') === (pool.leaguePosition === null));
+
+  const awardInputs = matchPrizePoolsToTeams(pools, table, teamNames, cupWinnerId ? parseInt(cupWinnerId) : null);
+
+  const setPool = (position: number | null, value: string) => {
+    setPoolInputs(current => ({ ...current, [poolKey(position)]: value }));
+    setPreview(null);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Dividend action failed',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSavePools = () => runAction(async () => {
+    await dividendsService.setPrizePools(seasonNumber, awardType, pools);
+    toast({ title: 'Prize pools saved' });
+  });
+
+  const handlePreview = () => runAction(async () => {
+    setPreview(await dividendsService.previewAwards(awardInputs, new Date(recordDate).toISOString()));
+  });
+
+  const handleConfirm = () => runAction(async () => {
+    const result = await dividendsService.payDividends({
+      season: seasonNumber,
+      awardType,
+      matchday: matchdayNumber,
+      recordDate: new Date(recordDate).toISOString(),
+      awards: awardInputs
+    });
+    toast({
+      title: 'Dividends paid',
+      description: `${result.awards} awards, ${formatCurrency(centsToDollars(result.paid_cents))} credited to shareholders`
+    });
+    await load();
+  });
+
+  const alreadyPaid = awards.filter(award =>
+    award.award_type === awardType && (award.matchday ?? null) === matchdayNumber
+  );
+  const positions = awardType === 'cup_win' ? [] : table;
+
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <div className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Dividend Payouts
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading} className="border-gray-600 text-gray-300 hover:bg-gray-700">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-300">Season</Label>
+            <Input type="number" value={season} onChange={e => setSeason(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-300">Award</Label>
+            <Select value={awardType} onValueChange={value => setAwardType(value as DividendAwardType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIVIDEND_AWARD_TYPES) as DividendAwardType[]).map(type => (
+                  <SelectItem key={type} value={type}>{DIVIDEND_AWARD_TYPES[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {awardType === 'matchday_position' && (
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Matchday</Label>
+              <Input type="number" min={1} value={matchday} onChange={e => setMatchday(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-300">Record date</Label>
+            <Input
+              type="datetime-local"
+              value={recordDate}
+              onChange={e => {
+                setRecordDate(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+        </div>
+
+        {awardType === 'cup_win' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Cup winner</Label>
+              <Select
+                value={cupWinnerId}
+                onValueChange={value => {
+                  setCupWinnerId(value);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select club" />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...teamNames.entries()]
+                    .sort((a, b) => a[1].localeCompare(b[1]))
+                    .map(([id, name]) => (
+                      <SelectItem key={id} value={String(id)}>{name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-300">Prize pool ($)</Label>
+              <Input type="number" min={0} step="0.01" value={poolInputs.cup ?? ''} onChange={e => setPool(null, e.target.value)} />
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm text-gray-300">
+              <thead className="sticky top-0 bg-gray-800">
+                <tr className="border-b border-gray-600 text-gray-400">
+                  <th className="text-left p-2 font-medium">Pos</th>
+                  <th className="text-left p-2 font-medium">Club</th>
+                  <th className="text-right p-2 font-medium">Pld</th>
+                  <th className="text-right p-2 font-medium">GD</th>
+                  <th className="text-right p-2 font-medium">Pts</th>
+                  <th className="text-right p-2 font-medium w-36">Prize pool ($)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map(row => (
+                  <tr key={row.teamId} className="border-b border-gray-700">
+                    <td className="p-2">{row.position}</td>
+                    <td className="p-2">{teamNames.get(row.teamId)}</td>
+                    <td className="p-2 text-right">{row.played}</td>
+                    <td className="p-2 text-right">{row.goalDifference}</td>
+                    <td className="p-2 text-right font-semibold">{row.points}</td>
+                    <td className="p-1 text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="h-8 text-right"
+                        value={poolInputs[poolKey(row.position)] ?? ''}
+                        onChange={e => setPool(row.position, e.target.value)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleSavePools} disabled={busy || !seasonNumber} className="border-gray-600 text-gray-300 hover:bg-gray-700">
+            <Save className="h-4 w-4 mr-2" />
+            Save Pools
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePreview}
+            disabled={busy || awardInputs.length === 0 || (awardType === 'matchday_position' && !matchdayNumber)}
+            className="border-gray-600 text-gray-300 hover:bg-gray-700"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview Payout
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3 rounded-lg border border-gray-600 p-3">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-xs text-gray-400">Total pools</p>
+                <p className="font-bold text-white">{formatCurrency(centsToDollars(preview.totalPoolCents))}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-400">Paid to holders</p>
+                <p className="font-bold text-green-400">{formatCurrency(centsToDollars(preview.totalPaidCents))}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-400">Shareholders credited</p>
+                <p className="font-bold text-white">{formatNumber(preview.byUser.length)}</p>
+              </div>
+            </div>
+            <table className="w-full text-sm text-gray-300">
+              <thead>
+                <tr className="border-b border-gray-600 text-gray-400">
+                  <th className="text-left p-2 font-medium">Award</th>
+                  <th className="text-left p-2 font-medium">Club</th>
+                  <th className="text-right p-2 font-medium">Pool</th>
+                  <th className="text-right p-2 font-medium">Holders</th>
+                  <th className="text-right p-2 font-medium">Shares</th>
+                  <th className="text-right p-2 font-medium">Per Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.awards.map(award => (
+                  <tr key={`${award.awardType}-${award.teamId}`} className="border-b border-gray-700 last:border-b-0">
+                    <td className="p-2">{award.leaguePosition ? `#${award.leaguePosition}` : 'Cup'}</td>
+                    <td className="p-2">{award.teamName}</td>
+                    <td className="p-2 text-right">{formatCurrency(centsToDollars(award.poolCents))}</td>
+                    <td className="p-2 text-right">{award.holders}</td>
+                    <td className="p-2 text-right">{formatNumber(award.sharesHeld)}</td>
+                    <td className="p-2 text-right">
+                      {award.sharesHeld > 0 ? formatCurrency(centsToDollars(award.poolCents) / award.sharesHeld) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.totalPaidCents < preview.totalPoolCents && (
+              <p className="text-xs text-yellow-400">Pools for clubs without shareholders are not paid out.</p>
+            )}
+            <Button onClick={handleConfirm} disabled={busy || preview.totalPaidCents === 0} className="bg-green-600 hover:bg-green-700 text-white">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Confirm &amp; Pay {formatCurrency(centsToDollars(preview.totalPaidCents))}
+            </Button>
+          </div>
+        )}
+
+        {alreadyPaid.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-300">Already paid</p>
+            {alreadyPaid.map(award => (
+              <div key={award.id} className="flex items-center justify-between p-2 border border-gray-700 rounded text-sm text-gray-300">
+                <span>
+                  {award.league_position ? `#${award.league_position} ` : ''}{award.team?.name}
+                  <span className="text-xs text-gray-400"> · {award.holders_count} holders · {new Date(award.paid_at).toLocaleDateString()}</span>
+                </span>
+                <Badge variant="outline" className="text-green-400 border-green-400">
+                  {formatCurrency(centsToDollars(award.paid_cents))}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DividendPayoutsAdmin;
@@ -16,12 +16,15 @@ import {
 import { adminService } from '@/shared/lib/services/admin.service';
 import { formatCurrency } from '@/shared/lib/formatters';
 import { useToast } from '@/shared/hooks/use-toast';
+import { WithdrawalQueueCard } from './WithdrawalQueueCard';
+import { TradingFeesCard } from './TradingFeesCard';
 
 interface FinancialOverview {
   totalPlatformValue: number;
   totalUserDeposits: number;
   totalUserWallets: number;
   totalInvested: number;
+  totalWithdrawals: number;
   platformRevenue: number;
 }
 
@@ -71,6 +74,7 @@ export const FinancialOverviewPanel: React.FC = () => {
       ['Total User Deposits', overview.totalUserDeposits],
       ['Total User Wallets', overview.totalUserWallets],
       ['Cost', overview.totalInvested],
+      ['Total User Withdrawals', overview.totalWithdrawals],
       ['Platform Revenue', overview.platformRevenue]
     ];
 
@@ -159,7 +163,7 @@ export const FinancialOverviewPanel: React.FC = () => {
       title: 'Platform Revenue',
       value: formatCurrency(overview.platformRevenue),
       icon: DollarSign,
-      description: 'Deposits - Wallets',
+      description: 'Deposits - Wallets - Withdrawals',
       variant: overview.platformRevenue >= 0 ? 'default' : 'destructive'
     }
   ];
@@ -167,8 +171,10 @@ export const FinancialOverviewPanel: React.FC = () => {
   // Calculate transaction summary
   const deposits = walletTransactions.filter(tx => tx.type === 'deposit');
   const purchases = walletTransactions.filter(tx => tx.type === 'purchase');
+  const withdrawals = walletTransactions.filter(tx => tx.type === 'withdrawal');
   const totalDepositAmount = deposits.reduce((sum, tx) => sum + (tx.amount_cents / 100), 0);
   const totalPurchaseAmount = purchases.reduce((sum, tx) => sum + (tx.amount_cents / 100), 0);
+  const totalWithdrawalAmount = withdrawals.reduce((sum, tx) => sum + (tx.amount_cents / 100), 0);
 
   return (
     <div className="space-y-6">
@@ -218,12 +224,18 @@ export const FinancialOverviewPanel: React.FC = () => {
                 {formatCurrency(totalPurchaseAmount)}
               </span>
             </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Total Withdrawals</span>
+              <span className="font-medium text-red-600">
+                {formatCurrency(totalWithdrawalAmount)}
+              </span>
+            </div>
             <div className="flex items-center justify-between pt-2 border-t">
               <span className="text-sm font-medium">Net Flow</span>
               <span className={`font-bold ${
-                (totalDepositAmount - totalPurchaseAmount) >= 0 ? 'text-green-600' : 'text-red-600'
+                (totalDepositAmount - totalPurchaseAmount - totalWithdrawalAmount) >= 0 ? 'text-green-600' : 'text-red-600'
               }`}>
-                {formatCurrency(totalDepositAmount - totalPurchaseAmount)}
+                {formatCurrency(totalDepositAmount - totalPurchaseAmount - totalWithdrawalAmount)}
               </span>
             </div>
           </CardContent>
@@ -252,9 +264,9 @@ export const FinancialOverviewPanel: React.FC = () => {
                     </div>
                     <div className="text-right">
                       <p className={`text-sm font-medium ${
-                        tx.type === 'deposit' ? 'text-green-600' : 'text-red-600'
+                        tx.type === 'deposit' || tx.type === 'withdrawal_reversal' ? 'text-green-600' : 'text-red-600'
                       }`}>
-                        {tx.type === 'deposit' ? '+' : '-'}{formatCurrency(tx.amount_cents / 100)}
+                        {tx.type === 'deposit' || tx.type === 'withdrawal_reversal' ? '+' : '-'}{formatCurrency(tx.amount_cents / 100)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {new Date(tx.created_at).toLocaleDateString()}
@@ -267,6 +279,12 @@ export const FinancialOverviewPanel: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Trading Fee Schedule and Revenue */}
+      <TradingFeesCard />
+
+      {/* Withdrawal Approval Queue */}
+      <WithdrawalQueueCard onChange={loadFinancialData} />
     </div>
   );
 };
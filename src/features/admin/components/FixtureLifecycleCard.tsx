@@ -0,0 +1,320 @@
+// Fixture lifecycle states, transition history and manual transitions for the matches management panel
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Workflow, RefreshCw, FastForward, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  fixtureLifecycleService,
+  type DatabaseFixtureTransition,
+  type DatabaseLifecycleFixture
+} from '@/shared/lib/services/fixture-lifecycle.service';
+import {
+  FIXTURE_LIFECYCLE_LABELS,
+  FIXTURE_LIFECYCLE_TRANSITIONS,
+  MAX_LIFECYCLE_ATTEMPTS,
+  transitionInput,
+  type FixtureLifecycleState,
+  type LifecycleTransitionDetails
+} from '@/shared/lib/utils/fixture-lifecycle';
+import { useToast } from '@/shared/hooks/use-toast';
+
+const STATE_BADGE_CLASSES: Record<FixtureLifecycleState, string> = {
+  scheduled: 'text-blue-400 border-blue-400/50',
+  buy_closed: 'text-sky-400 border-sky-400/50',
+  snapshotted: 'text-indigo-400 border-indigo-400/50',
+  live: 'text-yellow-400 border-yellow-400/50 animate-pulse',
+  finished: 'text-orange-400 border-orange-400/50',
+  applied: 'text-green-400 border-green-400/50',
+  postponed: 'text-red-400 border-red-400/50',
+  abandoned: 'text-red-400 border-red-400/50',
+  voided: 'text-gray-400 border-gray-400/50'
+};
+
+const LifecycleBadge: React.FC<{ state: FixtureLifecycleState | null }> = ({ state }) =>
+  state
+    ? <Badge variant="outline" className={STATE_BADGE_CLASSES[state]}>{FIXTURE_LIFECYCLE_LABELS[state]}</Badge>
+    : <Badge variant="outline">—</Badge>;
+
+interface TransitionForm {
+  home: string;
+  away: string;
+  kickoff: string;
+  reason: string;
+}
+
+const EMPTY_FORM: TransitionForm = { home: '', away: '', kickoff: '', reason: '' };
+
+/** transition_fixture details from the form, or null while a required input is missing */
+const transitionDetails = (
+  from: FixtureLifecycleState,
+  to: FixtureLifecycleState,
+  form: TransitionForm
+): LifecycleTransitionDetails | null => {
+  switch (transitionInput(from, to)) {
+    case 'score':
+      return form.home !== '' && form.away !== ''
+        ? { home_score: parseInt(form.home), away_score: parseInt(form.away) }
+        : null;
+    case 'kickoff':
+      return form.kickoff ? { kickoff_at: new Date(form.kickoff).toISOString() } : null;
+    case 'reason':
+      return form.reason.trim() ? { reason: form.reason.trim() } : null;
+    default:
+      return {};
+  }
+};
+
+export const FixtureLifecycleCard: React.FC<{ onChanged?: () => void }> = ({ onChanged }) => {
+  const { toast } = useToast();
+  const [fixtures, setFixtures] = useState<DatabaseLifecycleFixture[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [history, setHistory] = useState<DatabaseFixtureTransition[]>([]);
+  const [targets, setTargets] = useState<Record<number, FixtureLifecycleState>>({});
+  const [forms, setForms] = useState<Record<number, TransitionForm>>({});
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setFixtures(await fixtureLifecycleService.getActive());
+    } catch (error) {
+      console.error('Error loading fixture lifecycles:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load fixture lifecycles',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const loadHistory = async (fixtureId: number) => {
+    try {
+      setHistory(await fixtureLifecycleService.getHistory(fixtureId));
+    } catch (error) {
+      console.error('Error loading fixture transitions:', error);
+      setHistory([]);
+    }
+  };
+
+  const toggleHistory = async (fixtureId: number) => {
+    if (expanded === fixtureId) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(fixtureId);
+    await loadHistory(fixtureId);
+  };
+
+  const runAction = async (fixture: DatabaseLifecycleFixture, action: () => Promise<string>) => {
+    try {
+      setBusy(fixture.id);
+      const description = await action();
+      toast({ title: 'Success', description });
+      await load();
+      if (expanded === fixture.id) await loadHistory(fixture.id);
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Fixture transition failed',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const fixtureName = (fixture: DatabaseLifecycleFixture) =>
+    `${fixture.home_team?.name ?? 'Home'} vs ${fixture.away_team?.name ?? 'Away'}`;
+
+  const handleAdvance = (fixture: DatabaseLifecycleFixture) => runAction(fixture, async () => {
+    const result = await fixtureLifecycleService.advance(fixture);
+    if (result.error) throw new Error(result.error);
+    return result.transitions.length > 0
+      ? `${fixtureName(fixture)}: ${result.transitions.map(state => FIXTURE_LIFECYCLE_LABELS[state]).join(' → ')}`
+      : `${fixtureName(fixture)}: nothing due yet`;
+  });
+
+  const handleTransition = (
+    fixture: DatabaseLifecycleFixture,
+    to: FixtureLifecycleState,
+    details: LifecycleTransitionDetails
+  ) => runAction(fixture, async () => {
+    await fixtureLifecycleService.transition(fixture.id, to, details);
+    setForms(prev => ({ ...prev, [fixture.id]: EMPTY_FORM }));
+    return `${fixtureName(fixture)} moved to ${FIXTURE_LIFECYCLE_LABELS[to]}`;
+  });
+
+  const setField = (fixtureId: number, field: keyof TransitionForm, value: string) =>
+    setForms(prev => ({ ...prev, [fixtureId]: { ...EMPTY_FORM, ...prev[fixtureId], [field]: value } }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Fixture Lifecycle
+            <Badge variant="secondary">{fixtures.length} active</Badge>
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          The scheduled match update advances fixtures on its own and retries failed transitions with backoff,
+          up to {MAX_LIFECYCLE_ATTEMPTS} attempts. Advance runs the same check now; a manual transition forces
+          the next state. Rescheduling clears the kickoff snapshot and reopens the buy window; voiding an applied
+          result reverses its transfer at today's market caps.
+        </p>
+
+        {!loading && fixtures.length === 0 && (
+          <div className="text-center py-4 text-muted-foreground">No fixtures in progress or awaiting a decision.</div>
+        )}
+
+        <div className="space-y-2">
+          {fixtures.map(fixture => {
+            const allowed = FIXTURE_LIFECYCLE_TRANSITIONS[fixture.lifecycle_state];
+            const chosen = targets[fixture.id];
+            const target = chosen && allowed.includes(chosen) ? chosen : allowed[0];
+            const input = target ? transitionInput(fixture.lifecycle_state, target) : null;
+            const form = forms[fixture.id] ?? EMPTY_FORM;
+            const details = target ? transitionDetails(fixture.lifecycle_state, target, form) : null;
+
+            return (
+              <div key={fixture.id} className="p-3 border rounded-lg space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <LifecycleBadge state={fixture.lifecycle_state} />
+                    <div>
+                      <p className="font-medium">{fixtureName(fixture)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(fixture.kickoff_at).toLocaleString()}
+                        {fixture.lifecycle_state === 'live' && ` · ${fixture.home_score ?? 0}-${fixture.away_score ?? 0}`}
+                      </p>
+                    </div>
+                    {fixture.lifecycle_attempts > 0 && (
+                      <Badge variant="destructive">
+                        {fixture.lifecycle_attempts}/{MAX_LIFECYCLE_ATTEMPTS} attempts
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {allowed.length > 0 && (
+                      <>
+                        <Select
+                          value={target}
+                          onValueChange={value => setTargets(prev => ({ ...prev, [fixture.id]: value as FixtureLifecycleState }))}
+                        >
+                          <SelectTrigger className="w-[140px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {allowed.map(state => (
+                              <SelectItem key={state} value={state}>{FIXTURE_LIFECYCLE_LABELS[state]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {input === 'score' && (
+                          <>
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-16 h-8"
+                              placeholder="H"
+                              value={form.home}
+                              onChange={e => setField(fixture.id, 'home', e.target.value)}
+                            />
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-16 h-8"
+                              placeholder="A"
+                              value={form.away}
+                              onChange={e => setField(fixture.id, 'away', e.target.value)}
+                            />
+                          </>
+                        )}
+                        {input === 'kickoff' && (
+                          <Input
+                            type="datetime-local"
+                            className="w-[200px] h-8"
+                            value={form.kickoff}
+                            onChange={e => setField(fixture.id, 'kickoff', e.target.value)}
+                          />
+                        )}
+                        {input === 'reason' && (
+                          <Input
+                            className="w-[200px] h-8"
+                            placeholder="Reason for voiding"
+                            value={form.reason}
+                            onChange={e => setField(fixture.id, 'reason', e.target.value)}
+                          />
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy !== null || !details}
+                          onClick={() => details && handleTransition(fixture, target, details)}
+                        >
+                          Move
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy !== null || !fixture.external_id}
+                      onClick={() => handleAdvance(fixture)}
+                    >
+                      <FastForward className={`h-4 w-4 mr-2 ${busy === fixture.id ? 'animate-pulse' : ''}`} />
+                      Advance
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => toggleHistory(fixture.id)}>
+                      {expanded === fixture.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+
+                {fixture.lifecycle_error && (
+                  <p className="text-xs text-red-400">
+                    Last attempt failed: {fixture.lifecycle_error}
+                    {fixture.lifecycle_retry_at && ` · retry after ${new Date(fixture.lifecycle_retry_at).toLocaleTimeString()}`}
+                  </p>
+                )}
+
+                {expanded === fixture.id && (
+                  <div className="space-y-1 border-t pt-2">
+                    {history.length === 0 && <p className="text-xs text-muted-foreground">No transitions recorded.</p>}
+                    {history.map(transition => (
+                      <div key={transition.id} className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-muted-foreground w-36">{new Date(transition.created_at).toLocaleString()}</span>
+                        <LifecycleBadge state={transition.from_state} />
+                        <span>→</span>
+                        <LifecycleBadge state={transition.to_state} />
+                        <Badge variant="secondary">{transition.source}</Badge>
+                        {!transition.succeeded && <span className="text-red-400">{transition.error}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
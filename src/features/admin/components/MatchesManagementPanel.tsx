@@ -27,6 +27,9 @@ import { footballIntegrationService } from '@/shared/lib/football-api';
 import { useToast } from '@/shared/hooks/use-toast';
 import { formatCurrency } from '@/shared/lib/formatters';
 import TeamLogo from '@/shared/components/TeamLogo';
+import { TradingWindowRulesCard } from './TradingWindowRulesCard';
+import { CompetitionsCard } from './CompetitionsCard';
+import { FixtureLifecycleCard } from './FixtureLifecycleCard';
 
 type SortField = 'kickoff_at' | 'home_team' | 'away_team' | 'status' | 'result';
 type SortDirection = 'asc' | 'desc';
@@ -214,7 +217,7 @@ export const MatchesManagementPanel: React.FC = () => {
     switch (status) {
       case 'scheduled':
         return <Badge variant="outline" className="text-blue-400 border-blue-400/50">Scheduled</Badge>;
-      case 'closed':
+      case 'live':
         return <Badge variant="outline" className="text-yellow-400 border-yellow-400/50 animate-pulse">Live</Badge>;
       case 'applied':
         return <Badge variant="outline" className="text-green-400 border-green-400/50">Finished</Badge>;
@@ -247,6 +250,15 @@ export const MatchesManagementPanel: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      {/* Competitions */}
+      <CompetitionsCard />
+
+      {/* Trading Window Rules */}
+      <TradingWindowRulesCard />
+
+      {/* Fixture Lifecycle */}
+      <FixtureLifecycleCard onChanged={loadFixtures} />
+
       {/* Match Processing Panel */}
       <Card>
         <CardHeader>
@@ -332,7 +344,7 @@ export const MatchesManagementPanel: React.FC = () => {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="scheduled">Scheduled</SelectItem>
-                <SelectItem value="closed">Live</SelectItem>
+                <SelectItem value="live">Live</SelectItem>
                 <SelectItem value="applied">Finished</SelectItem>
                 <SelectItem value="postponed">Postponed</SelectItem>
               </SelectContent>
@@ -0,0 +1,198 @@
+// Season rollover preview and confirmation for the season management panel
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Archive, Eye, CheckCircle } from 'lucide-react';
+import { seasonManagementService, type SeasonRolloverPreview } from '@/shared/lib/season-management.service';
+import {
+  DEFAULT_PROMOTED_IPO_MARKET_CAP_CENTS,
+  RELEGATION_POLICIES,
+  formatSeasonLabel,
+  type RelegationPolicy
+} from '@/shared/lib/utils/season-rollover';
+import { fromCents, toCents } from '@/shared/lib/utils/decimal';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+import { useToast } from '@/shared/hooks/use-toast';
+
+interface SeasonRolloverCardProps {
+  /** Season in the database, to be archived */
+  season: number;
+  /** Season the API reports, to roll over to */
+  nextSeason: number;
+  onComplete: () => void;
+}
+
+const centsToDollars = (cents: number) => fromCents(cents).toNumber();
+
+export const SeasonRolloverCard: React.FC<SeasonRolloverCardProps> = ({ season, nextSeason, onComplete }) => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<RelegationPolicy>('buyout');
+  const [ipoMarketCap, setIpoMarketCap] = useState(String(centsToDollars(DEFAULT_PROMOTED_IPO_MARKET_CAP_CENTS)));
+  const [preview, setPreview] = useState<SeasonRolloverPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const ipoMarketCapCents = parseFloat(ipoMarketCap) > 0 ? toCents(ipoMarketCap) : 0;
+  const options = { relegationPolicy: policy, ipoMarketCapCents };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Season rollover failed',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = () => runAction(async () => {
+    setPreview(await seasonManagementService.previewRollover(season, nextSeason, options));
+  });
+
+  const handleConfirm = () => runAction(async () => {
+    const result = await seasonManagementService.updateToNewSeason(nextSeason, options);
+    if (!result.success) throw new Error(result.message);
+    toast({
+      title: 'Season rolled over',
+      description: `${result.message}. ${formatCurrency(centsToDollars(result.settledCents ?? 0))} settled to holders of relegated clubs.`
+    });
+    setPreview(null);
+    onComplete();
+  });
+
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Archive className="h-5 w-5" />
+          Roll Over {formatSeasonLabel(season)} to {formatSeasonLabel(nextSeason)}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-300">Relegated clubs</Label>
+            <Select
+              value={policy}
+              onValueChange={value => {
+                setPolicy(value as RelegationPolicy);
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RELEGATION_POLICIES) as RelegationPolicy[]).map(key => (
+                  <SelectItem key={key} value={key}>{RELEGATION_POLICIES[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-300">Promoted club IPO market cap ($)</Label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={ipoMarketCap}
+              onChange={e => {
+                setIpoMarketCap(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handlePreview}
+          disabled={busy || ipoMarketCapCents === 0}
+          className="border-gray-600 text-gray-300 hover:bg-gray-700"
+        >
+          <Eye className="h-4 w-4 mr-2" />
+          Preview Rollover
+        </Button>
+
+        {preview && (
+          <div className="space-y-3 rounded-lg border border-gray-600 p-3">
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-2">Relegated</p>
+              {preview.relegated.length === 0 ? (
+                <p className="text-xs text-gray-400">No listed club leaves the competition.</p>
+              ) : (
+                <table className="w-full text-sm text-gray-300">
+                  <thead>
+                    <tr className="border-b border-gray-600 text-gray-400">
+                      <th className="text-left p-2 font-medium">Pos</th>
+                      <th className="text-left p-2 font-medium">Club</th>
+                      <th className="text-right p-2 font-medium">Final Price</th>
+                      <th className="text-right p-2 font-medium">Holders</th>
+                      <th className="text-right p-2 font-medium">Value</th>
+                      <th className="text-left p-2 font-medium">Settlement</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.relegated.map(team => {
+                      const valueCents = team.settlements.reduce((sum, s) => sum + s.valueCents, 0);
+                      const converted = team.settlements.reduce((sum, s) => sum + s.convertedQuantity, 0);
+                      return (
+                        <tr key={team.teamId} className="border-b border-gray-700 last:border-b-0">
+                          <td className="p-2">{team.finalPosition ?? '—'}</td>
+                          <td className="p-2">{team.name}</td>
+                          <td className="p-2 text-right">{formatCurrency(centsToDollars(team.finalPriceCents))}</td>
+                          <td className="p-2 text-right">{team.settlements.length}</td>
+                          <td className="p-2 text-right">{formatCurrency(centsToDollars(valueCents))}</td>
+                          <td className="p-2 text-xs">
+                            {team.convertTo
+                              ? `${formatNumber(converted)} ${team.convertTo.name} shares + cash`
+                              : 'Cash buyout'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-2">
+                Promoted at {formatCurrency(centsToDollars(preview.ipoPriceCents))} per share
+              </p>
+              {preview.promoted.length === 0 ? (
+                <p className="text-xs text-gray-400">No new clubs to list.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {preview.promoted.map(team => (
+                    <Badge key={team.externalId} variant="outline" className="text-green-400 border-green-400">
+                      {team.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-yellow-400">
+              The {formatSeasonLabel(season)} fixtures, ledger and leaderboard will be archived and relegated clubs delisted.
+              This cannot be undone.
+            </p>
+            <Button onClick={handleConfirm} disabled={busy} className="bg-red-600 hover:bg-red-700 text-white">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Confirm Rollover
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
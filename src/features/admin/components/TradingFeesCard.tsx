@@ -0,0 +1,261 @@
+// Trading fee schedule, promotions and fee revenue for the financial overview panel
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Percent, RefreshCw, Gift, Square } from 'lucide-react';
+import {
+  tradingFeesService,
+  type DatabaseFeePromotion,
+  type DatabaseFeeSchedule
+} from '@/shared/lib/services/trading-fees.service';
+import { summarizeFeeRevenue, type FeeRevenueRow, type FeeSide } from '@/shared/lib/utils/trading-fees';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { useToast } from '@/shared/hooks/use-toast';
+
+const BOTH_SIDES = 'both';
+
+/** Months of fee revenue shown */
+const REVENUE_MONTHS = 6;
+
+const centsToDollars = (cents: number) => fromCents(cents).toNumber();
+
+const promotionStatus = (promotion: DatabaseFeePromotion): 'active' | 'upcoming' | 'ended' => {
+  const now = Date.now();
+  if (new Date(promotion.ends_at).getTime() <= now) return 'ended';
+  return new Date(promotion.starts_at).getTime() > now ? 'upcoming' : 'active';
+};
+
+export const TradingFeesCard: React.FC = () => {
+  const [schedules, setSchedules] = useState<DatabaseFeeSchedule[]>([]);
+  const [promotions, setPromotions] = useState<DatabaseFeePromotion[]>([]);
+  const [revenue, setRevenue] = useState<FeeRevenueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [promoName, setPromoName] = useState('');
+  const [promoStartsAt, setPromoStartsAt] = useState('');
+  const [promoEndsAt, setPromoEndsAt] = useState('');
+  const [promoSide, setPromoSide] = useState<string>(BOTH_SIDES);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [allSchedules, allPromotions, revenueRows] = await Promise.all([
+        tradingFeesService.listSchedules(),
+        tradingFeesService.listPromotions(),
+        tradingFeesService.getRevenueBreakdown(REVENUE_MONTHS)
+      ]);
+      setSchedules(allSchedules);
+      setPromotions(allPromotions);
+      setRevenue(revenueRows);
+    } catch (error) {
+      console.error('Error loading trading fees:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load trading fees',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (action: () => Promise<void>, successTitle: string) => {
+    try {
+      setBusy(true);
+      await action();
+      await load();
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update trading fees',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleActivate = (version: string) =>
+    runAction(() => tradingFeesService.activateSchedule(version), `Fee schedule ${version} active`);
+
+  const handleCreatePromotion = () =>
+    runAction(async () => {
+      await tradingFeesService.createPromotion({
+        name: promoName,
+        startsAt: (promoStartsAt ? new Date(promoStartsAt) : new Date()).toISOString(),
+        endsAt: new Date(promoEndsAt).toISOString(),
+        side: promoSide === BOTH_SIDES ? null : promoSide as FeeSide
+      });
+      setPromoName('');
+      setPromoStartsAt('');
+      setPromoEndsAt('');
+    }, 'Fee-free promotion scheduled');
+
+  const handleEndPromotion = (promotionId: number) =>
+    runAction(() => tradingFeesService.endPromotion(promotionId), 'Promotion ended');
+
+  const activeSchedule = schedules.find(s => s.is_active);
+  const summary = summarizeFeeRevenue(revenue);
+  const currentPromotions = promotions.filter(p => promotionStatus(p) !== 'ended');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Trading Fees
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Fee Revenue ({REVENUE_MONTHS} mo)</p>
+            <p className="text-xl font-bold text-green-600">{formatCurrency(centsToDollars(summary.totalFeeCents))}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Traded Volume</p>
+            <p className="text-xl font-bold">{formatCurrency(centsToDollars(summary.totalVolumeCents))}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Effective Rate</p>
+            <p className="text-xl font-bold">{summary.effectiveRatePercent.toFixed(2)}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Trades (fee-free)</p>
+            <p className="text-xl font-bold">{summary.trades} ({summary.waivedTrades})</p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <h4 className="text-sm font-semibold mb-2">Revenue Breakdown</h4>
+          {summary.byMonth.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No trades in the last {REVENUE_MONTHS} months</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="text-left py-2 pr-3 font-medium">Month</th>
+                  <th className="text-right py-2 px-2 font-medium">Buy Fees</th>
+                  <th className="text-right py-2 px-2 font-medium">Sell Fees</th>
+                  <th className="text-right py-2 px-2 font-medium">Volume</th>
+                  <th className="text-right py-2 pl-2 font-medium">Total Fees</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byMonth.map(month => {
+                  const sideFees = (side: FeeSide) => revenue
+                    .filter(row => row.month === month.month && row.side === side)
+                    .reduce((sum, row) => sum + row.feeCents, 0);
+                  return (
+                    <tr key={month.month} className="border-b last:border-b-0">
+                      <td className="py-2 pr-3">{month.month}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(centsToDollars(sideFees('BUY')))}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(centsToDollars(sideFees('SELL')))}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(centsToDollars(month.volumeCents))}</td>
+                      <td className="text-right py-2 pl-2 font-mono font-semibold">{formatCurrency(centsToDollars(month.feeCents))}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Fee Schedule</h4>
+          {schedules.map(schedule => (
+            <div key={schedule.version} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <div>
+                <span className="font-medium">{schedule.version}</span>
+                <span className="text-muted-foreground"> — {schedule.description}</span>
+                {schedule.is_active && schedule.activated_at && (
+                  <div className="text-xs text-muted-foreground">Active since {new Date(schedule.activated_at).toLocaleString()}</div>
+                )}
+              </div>
+              {schedule.is_active ? (
+                <Badge>Active</Badge>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => handleActivate(schedule.version)} disabled={busy}>
+                  Activate
+                </Button>
+              )}
+            </div>
+          ))}
+          {!activeSchedule && !loading && (
+            <p className="text-sm text-muted-foreground">No active schedule - trades are free.</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <Gift className="h-4 w-4" />
+            Fee-Free Promotions
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Name</Label>
+              <Input value={promoName} maxLength={100} onChange={e => setPromoName(e.target.value)} placeholder="e.g. Derby weekend" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Starts (blank = now)</Label>
+              <Input type="datetime-local" value={promoStartsAt} onChange={e => setPromoStartsAt(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Ends</Label>
+              <Input type="datetime-local" value={promoEndsAt} onChange={e => setPromoEndsAt(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Applies to</Label>
+              <Select value={promoSide} onValueChange={setPromoSide}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BOTH_SIDES}>Buys and sells</SelectItem>
+                  <SelectItem value="BUY">Buys only</SelectItem>
+                  <SelectItem value="SELL">Sells only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreatePromotion} disabled={busy || !promoName.trim() || !promoEndsAt}>
+              Schedule
+            </Button>
+          </div>
+
+          {currentPromotions.map(promotion => (
+            <div key={promotion.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <div>
+                <span className="font-medium">{promotion.name}</span>
+                <Badge variant="secondary" className="ml-2">{promotionStatus(promotion)}</Badge>
+                <div className="text-xs text-muted-foreground">
+                  {promotion.side === null ? 'Buys and sells' : promotion.side === 'BUY' ? 'Buys only' : 'Sells only'}
+                  {' · '}{new Date(promotion.starts_at).toLocaleString()} – {new Date(promotion.ends_at).toLocaleString()}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleEndPromotion(promotion.id)} disabled={busy}>
+                <Square className="h-4 w-4 mr-2" />
+                End
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
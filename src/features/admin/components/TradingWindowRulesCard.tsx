@@ -0,0 +1,245 @@
+// Trading window rules and halts for the matches management panel
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Clock, OctagonPause, Play, RefreshCw, Save } from 'lucide-react';
+import { teamsService, type DatabaseTeam } from '@/shared/lib/services/teams.service';
+import { tradingWindowService, type DatabaseTradingHalt } from '@/shared/lib/services/trading-window.service';
+import { buyWindowService } from '@/shared/lib/buy-window.service';
+import type { TradingWindowRule } from '@/shared/lib/utils/trading-window';
+import type { CompetitionType } from '@/shared/lib/utils/transfer-rules';
+import { useToast } from '@/shared/hooks/use-toast';
+
+const COMPETITION_LABELS: Record<CompetitionType, string> = {
+  league: 'League',
+  cup: 'Cup',
+};
+
+const MARKET_WIDE = 'market';
+
+export const TradingWindowRulesCard: React.FC = () => {
+  const [rules, setRules] = useState<TradingWindowRule[]>([]);
+  const [halts, setHalts] = useState<DatabaseTradingHalt[]>([]);
+  const [teams, setTeams] = useState<DatabaseTeam[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingRule, setSavingRule] = useState<CompetitionType | null>(null);
+  const [haltTarget, setHaltTarget] = useState<string>(MARKET_WIDE);
+  const [haltReason, setHaltReason] = useState('');
+  const [haltEndsAt, setHaltEndsAt] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [config, openHalts, allTeams] = await Promise.all([
+        buyWindowService.refreshTradingWindowConfig(),
+        tradingWindowService.getOpenHalts(),
+        teamsService.getAll()
+      ]);
+      setRules(Object.values<TradingWindowRule>(config.rules));
+      setHalts(openHalts);
+      setTeams(allTeams);
+    } catch (error) {
+      console.error('Error loading trading window rules:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load trading window rules',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateRuleField = (competition: CompetitionType, changes: Partial<TradingWindowRule>) => {
+    setRules(current => current.map(rule => (rule.competition_type === competition ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSaveRule = async (rule: TradingWindowRule) => {
+    try {
+      setSavingRule(rule.competition_type);
+      const fixturesUpdated = await tradingWindowService.updateRule(rule);
+      await buyWindowService.refreshTradingWindowConfig();
+      toast({
+        title: 'Rule saved',
+        description: `${COMPETITION_LABELS[rule.competition_type]}: ${fixturesUpdated} upcoming fixtures updated`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save rule',
+        variant: 'destructive'
+      });
+    } finally {
+      setSavingRule(null);
+    }
+  };
+
+  const handleCreateHalt = async () => {
+    try {
+      setBusy(true);
+      await tradingWindowService.createHalt(
+        haltTarget === MARKET_WIDE ? null : Number(haltTarget),
+        haltReason,
+        haltEndsAt ? new Date(haltEndsAt) : undefined
+      );
+      setHaltReason('');
+      setHaltEndsAt('');
+      await load();
+      toast({ title: 'Trading halted', description: haltTarget === MARKET_WIDE ? 'Whole market' : teamName(Number(haltTarget)) });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to halt trading',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLiftHalt = async (haltId: number) => {
+    try {
+      setBusy(true);
+      await tradingWindowService.liftHalt(haltId);
+      await load();
+      toast({ title: 'Halt lifted' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to lift halt',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const teamName = (teamId: number) => teams.find(t => t.id === teamId)?.name ?? `Club #${teamId}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Trading Window Rules
+          </div>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <div key={rule.competition_type} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end p-3 border rounded-lg">
+              <div className="font-medium">{COMPETITION_LABELS[rule.competition_type]}</div>
+              <div className="space-y-1">
+                <Label className="text-xs">Close before kickoff (min)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="1440"
+                  value={rule.close_before_kickoff_minutes}
+                  onChange={e => updateRuleField(rule.competition_type, { close_before_kickoff_minutes: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Reopen after full time (min)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="1440"
+                  value={rule.reopen_after_full_time_minutes}
+                  onChange={e => updateRuleField(rule.competition_type, { reopen_after_full_time_minutes: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id={`freeze-${rule.competition_type}`}
+                  checked={rule.matchday_freeze}
+                  onCheckedChange={checked => updateRuleField(rule.competition_type, { matchday_freeze: checked })}
+                />
+                <Label htmlFor={`freeze-${rule.competition_type}`} className="text-sm">Freeze whole matchday</Label>
+              </div>
+              <Button
+                onClick={() => handleSaveRule(rule)}
+                disabled={savingRule !== null}
+                size="sm"
+              >
+                {savingRule === rule.competition_type
+                  ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  : <Save className="h-4 w-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <OctagonPause className="h-4 w-4" />
+            Emergency Halts
+            <Badge variant={halts.length > 0 ? 'destructive' : 'secondary'}>{halts.length} active</Badge>
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Scope</Label>
+              <Select value={haltTarget} onValueChange={setHaltTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MARKET_WIDE}>Whole market</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={String(team.id)}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Reason</Label>
+              <Input value={haltReason} maxLength={200} onChange={e => setHaltReason(e.target.value)} placeholder="Shown to traders" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Ends at (optional)</Label>
+              <Input type="datetime-local" value={haltEndsAt} onChange={e => setHaltEndsAt(e.target.value)} />
+            </div>
+            <Button variant="destructive" onClick={handleCreateHalt} disabled={busy || !haltReason.trim()}>
+              <OctagonPause className="h-4 w-4 mr-2" />
+              Halt Trading
+            </Button>
+          </div>
+
+          {halts.map(halt => (
+            <div key={halt.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <div>
+                <span className="font-medium">{halt.team_id === null ? 'Whole market' : teamName(halt.team_id)}</span>
+                <span className="text-muted-foreground"> — {halt.reason}</span>
+                <div className="text-xs text-muted-foreground">
+                  Since {new Date(halt.starts_at).toLocaleString()}
+                  {halt.ends_at ? ` until ${new Date(halt.ends_at).toLocaleString()}` : ' until lifted'}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleLiftHalt(halt.id)} disabled={busy}>
+                <Play className="h-4 w-4 mr-2" />
+                Lift
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -27,6 +27,7 @@ import { usersService, type UserListItem, type UserDetails, type WalletTransacti
 import { formatCurrency } from '@/shared/lib/formatters';
 import { useToast } from '@/shared/hooks/use-toast';
 import { supabase } from '@/shared/lib/supabase';
+import AccountStatementExport from '@/shared/components/AccountStatementExport';
 import {
   calculatePercentChange,
   calculateAverageCost
@@ -580,6 +581,10 @@ export const UsersManagementPanel: React.FC = () => {
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    <div>
+                      <p className="text-sm font-medium mb-2">Account Statement</p>
+                      <AccountStatementExport userId={selectedUser.id} />
+                    </div>
                     <div>
                       <p className="text-sm font-medium mb-2">Credit Wallet</p>
                       <div className="flex flex-col sm:flex-row gap-2">
@@ -607,8 +612,8 @@ export const UsersManagementPanel: React.FC = () => {
                           <p className="text-sm text-muted-foreground">No transactions</p>
                         ) : (
                           userTransactions.map((tx) => {
-                            // Types that add money to wallet (positive/green): deposit, sale, refund
-                            const isPositive = ['deposit', 'sale', 'refund'].includes(tx.type.toLowerCase());
+                            // Types that add money to wallet (positive/green): deposit, sale, refund, dividend
+                            const isPositive = ['deposit', 'sale', 'refund', 'dividend'].includes(tx.type.toLowerCase());
                             const amount = tx.amount_cents / 100;
                             
                             return (
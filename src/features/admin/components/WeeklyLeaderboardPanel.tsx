@@ -4,16 +4,25 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Badge } from '@/shared/components/ui/badge';
 import { Skeleton } from '@/shared/components/ui/skeleton';
-import { ArrowUp, ArrowDown, ArrowUpDown, Trophy } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { ArrowUp, ArrowDown, ArrowUpDown, Trophy, Calculator } from 'lucide-react';
 import { supabase } from '@/shared/lib/supabase';
 import { formatCurrency } from '@/shared/lib/formatters';
 import { useToast } from '@/shared/hooks/use-toast';
+import { leaderboardService, type LeaderboardPeriodOption } from '@/shared/lib/services/leaderboard.service';
+import {
+  LEADERBOARD_PERIOD_LABELS,
+  LEADERBOARD_PERIOD_TYPES,
+  type LeaderboardPeriodType
+} from '@/shared/lib/utils/leaderboard-periods';
 
 interface WeekOption {
   id: string;
   weekStart: string;
   weekEnd: string;
   label: string;
+  period: LeaderboardPeriodOption;
 }
 
 interface AdminLeaderboardRow {
@@ -31,69 +40,67 @@ interface AdminLeaderboardRow {
 }
 
 export const AdminWeeklyLeaderboardPanel: React.FC = () => {
+  const [periodType, setPeriodType] = useState<LeaderboardPeriodType>('week');
   const [weeks, setWeeks] = useState<WeekOption[]>([]);
   const [selectedWeek, setSelectedWeek] = useState<WeekOption | null>(null);
   const [data, setData] = useState<AdminLeaderboardRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortField, setSortField] = useState<'rank' | 'username' | 'weeklyReturn'>('rank');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [calculating, setCalculating] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const { toast } = useToast();
 
-  /* -------------------- LOAD WEEKS -------------------- */
+  /* -------------------- LOAD PERIODS -------------------- */
   useEffect(() => {
     const loadWeeks = async () => {
       try {
-        const { data: weeksData, error } = await supabase
-          .from('weekly_leaderboard')
-          .select('week_start, week_end')
-          .order('week_start', { ascending: false });
-
-        if (error) throw error;
-
-        const uniqueWeeks = Array.from(
-          new Map(weeksData.map(w => [`${w.week_start}_${w.week_end}`, w])).values()
-        );
-
-        const formatted = uniqueWeeks.map((w, i) => {
-          const startDate = new Date(w.week_start);
-          const endDate = new Date(w.week_end);
-
-          const formatDate = (date: Date) => {
-            const day = date.getDate();
-            const suffix =
-              day === 1 || day === 21 || day === 31 ? 'st'
-              : day === 2 || day === 22 ? 'nd'
-              : day === 3 || day === 23 ? 'rd'
-              : 'th';
-
-            const month = date.toLocaleDateString('en-GB', { month: 'short' });
-            const year = date.getFullYear();
-
-            return `${day}${suffix} ${month} ${year}`;
-          };
-
-          return {
-            id: `${w.week_start}_${w.week_end}`,
-            weekStart: w.week_start,
-            weekEnd: w.week_end,
-            label: `Week ${uniqueWeeks.length - i}: ${formatDate(startDate)} - ${formatDate(endDate)}${i === 0 ? ' (Latest)' : ''}`
-          };
-        });
+        const periods = await leaderboardService.getPeriods(periodType);
+
+        const formatDate = (date: Date) => {
+          const day = date.getDate();
+          const suffix =
+            day === 1 || day === 21 || day === 31 ? 'st'
+            : day === 2 || day === 22 ? 'nd'
+            : day === 3 || day === 23 ? 'rd'
+            : 'th';
+
+          const month = date.toLocaleDateString('en-GB', { month: 'short' });
+          const year = date.getFullYear();
+
+          return `${day}${suffix} ${month} ${year}`;
+        };
+
+        const formatted = periods.map((period, i) => ({
+          id: period.key,
+          weekStart: period.start,
+          weekEnd: period.end,
+          label: periodType === 'week'
+            ? `Week ${periods.length - i}: ${formatDate(new Date(period.start))} - ${formatDate(new Date(period.end))}${i === 0 ? ' (Latest)' : ''}`
+            : `${period.label}${i === 0 ? ' (Latest)' : ''}`,
+          period
+        }));
 
         setWeeks(formatted);
-        setSelectedWeek(formatted[0]);
+        setSelectedWeek(formatted[0] ?? null);
+        if (formatted.length === 0) {
+          setData([]);
+          setLoading(false);
+        }
       } catch (error) {
         console.error(error);
         toast({
           title: 'Error',
-          description: 'Failed to load weekly leaderboard weeks',
+          description: `Failed to load ${LEADERBOARD_PERIOD_LABELS[periodType].toLowerCase()} leaderboard periods`,
           variant: 'destructive'
         });
       }
     };
 
     loadWeeks();
-  }, [toast]);
+  }, [periodType, reloadKey, toast]);
 
   /* -------------------- LOAD DATA -------------------- */
   useEffect(() => {
@@ -103,16 +110,7 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
       setLoading(true);
 
       try {
-        const { data: leaderboardData, error } = await supabase
-          .from('weekly_leaderboard')
-          .select(
-            'user_id, rank, start_wallet_value, start_portfolio_value, start_account_value, end_wallet_value, end_portfolio_value, end_account_value, deposits_week, weekly_return, week_start, week_end'
-          )
-          .eq('week_start', selectedWeek.weekStart)
-          .eq('week_end', selectedWeek.weekEnd)
-          .order('rank', { ascending: true });
-
-        if (error) throw error;
+        const leaderboardData = await leaderboardService.getPeriodDetail(selectedWeek.period);
 
         const userIds = leaderboardData.map(row => row.user_id);
 
@@ -144,8 +142,8 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
           endWalletValue: row.end_wallet_value,
           endPortfolioValue: row.end_portfolio_value,
           endAccountValue: row.end_account_value,
-          totalDeposits: row.deposits_week,
-          weeklyReturn: Number(row.weekly_return)
+          totalDeposits: row.deposits,
+          weeklyReturn: row.period_return
         }));
 
         setData(mappedData);
@@ -153,7 +151,7 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
         console.error(error);
         toast({
           title: 'Error',
-          description: 'Failed to load weekly leaderboard data',
+          description: 'Failed to load leaderboard data',
           variant: 'destructive'
         });
       } finally {
@@ -197,6 +195,24 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
       : <ArrowDown className="h-3 w-3" />;
   };
 
+  /* -------------------- CUSTOM RANGE -------------------- */
+  const handleCalculateCustom = async () => {
+    try {
+      setCalculating(true);
+      await leaderboardService.calculateCustomPeriod(new Date(customStart), new Date(customEnd));
+      toast({ title: 'Leaderboard calculated', description: 'Custom range leaderboard is ready' });
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to calculate custom leaderboard',
+        variant: 'destructive'
+      });
+    } finally {
+      setCalculating(false);
+    }
+  };
+
   /* -------------------- UI -------------------- */
   return (
     <Card>
@@ -205,7 +221,7 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
           <div className="flex flex-col gap-2 md:flex-row md:items-center md:gap-2">
             <div className="flex items-center gap-2">
               <Trophy className="h-5 w-5 text-yellow-400" />
-              <span className="text-base md:text-lg">Admin Weekly Leaderboard</span>
+              <span className="text-base md:text-lg">Admin {LEADERBOARD_PERIOD_LABELS[periodType]} Leaderboard</span>
             </div>
 
             {selectedWeek && (
@@ -218,8 +234,10 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
                   const end = new Date(selectedWeek.weekEnd);
 
                   // Force UAE display cycle
-                  start.setHours(3, 0, 0, 0);
-                  end.setHours(2, 59, 0, 0);
+                  if (periodType === 'week') {
+                    start.setHours(3, 0, 0, 0);
+                    end.setHours(2, 59, 0, 0);
+                  }
 
                   const formatDateTime = (date: Date) => {
                     const day = date.getDate();
@@ -249,28 +267,65 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
             )}
           </div>
 
-          <Select
-            value={selectedWeek?.id}
-            onValueChange={(id) => {
-              const week = weeks.find(w => w.id === id);
-              if (week) setSelectedWeek(week);
-            }}
-          >
-            <SelectTrigger className="w-full md:w-[260px]">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {weeks.map(w => (
-                <SelectItem key={w.id} value={w.id}>
-                  {w.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Select value={periodType} onValueChange={(value) => setPeriodType(value as LeaderboardPeriodType)}>
+              <SelectTrigger className="w-full md:w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEADERBOARD_PERIOD_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {LEADERBOARD_PERIOD_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={selectedWeek?.id}
+              onValueChange={(id) => {
+                const week = weeks.find(w => w.id === id);
+                if (week) setSelectedWeek(week);
+              }}
+            >
+              <SelectTrigger className="w-full md:w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {weeks.map(w => (
+                  <SelectItem key={w.id} value={w.id}>
+                    {w.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardTitle>
       </CardHeader>
 
       <CardContent>
+        {periodType === 'custom' && (
+          <div className="flex flex-col gap-2 md:flex-row md:items-center mb-4">
+            <Input
+              type="datetime-local"
+              value={customStart}
+              onChange={(e) => setCustomStart(e.target.value)}
+              className="md:w-[220px]"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="datetime-local"
+              value={customEnd}
+              onChange={(e) => setCustomEnd(e.target.value)}
+              className="md:w-[220px]"
+            />
+            <Button onClick={handleCalculateCustom} disabled={calculating || !customStart || !customEnd}>
+              <Calculator className="h-4 w-4 mr-2" />
+              {calculating ? 'Calculating...' : 'Calculate'}
+            </Button>
+          </div>
+        )}
+
         {loading ? (
           <Skeleton className="h-48 w-full" />
         ) : (
@@ -287,7 +342,7 @@ export const AdminWeeklyLeaderboardPanel: React.FC = () => {
                   <TableHead className="text-center">End Portfolio Value</TableHead>
                   <TableHead className="text-center">End Account Value</TableHead>
                   <TableHead className="text-center">Total Deposits</TableHead>
-                  <TableHead className="text-center">% Weekly Return</TableHead>
+                  <TableHead className="text-center">% {periodType === 'week' ? 'Weekly' : 'Period'} Return</TableHead>
                 </TableRow>
               </TableHeader>
 
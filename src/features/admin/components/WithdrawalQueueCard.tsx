@@ -0,0 +1,164 @@
+// Withdrawal approval queue for the financial overview
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Check, X, Send, RefreshCw } from 'lucide-react';
+import { withdrawalsService, type WithdrawalQueueItem } from '@/shared/lib/services/withdrawals.service';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { useToast } from '@/shared/hooks/use-toast';
+
+interface WithdrawalQueueCardProps {
+  /** Called after any review or payout so totals can be refreshed */
+  onChange?: () => void;
+}
+
+export const WithdrawalQueueCard: React.FC<WithdrawalQueueCardProps> = ({ onChange }) => {
+  const [queue, setQueue] = useState<WithdrawalQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [rejectReasons, setRejectReasons] = useState<Record<number, string>>({});
+  const { toast } = useToast();
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setQueue(await withdrawalsService.getWithdrawalQueue());
+    } catch (error) {
+      console.error('Error loading withdrawal queue:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load withdrawal queue',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const runAction = async (withdrawal: WithdrawalQueueItem, action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setBusyId(withdrawal.id);
+      await action();
+      toast({ title: 'Withdrawal updated', description: successMessage });
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update withdrawal',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyId(null);
+      loadQueue();
+    }
+  };
+
+  const handleApprove = (withdrawal: WithdrawalQueueItem) =>
+    runAction(withdrawal, async () => {
+      await withdrawalsService.reviewWithdrawal(withdrawal.id, true);
+      await withdrawalsService.sendPayout(withdrawal.id);
+    }, `${formatCurrency(withdrawal.amount_cents / 100)} approved and sent to Stripe for ${withdrawal.username}`);
+
+  const handleReject = (withdrawal: WithdrawalQueueItem) =>
+    runAction(
+      withdrawal,
+      () => withdrawalsService.reviewWithdrawal(withdrawal.id, false, rejectReasons[withdrawal.id]),
+      `${formatCurrency(withdrawal.amount_cents / 100)} refunded to ${withdrawal.username}`
+    );
+
+  const handleRetryPayout = (withdrawal: WithdrawalQueueItem) =>
+    runAction(
+      withdrawal,
+      () => withdrawalsService.sendPayout(withdrawal.id),
+      `Payout for ${withdrawal.username} sent to Stripe`
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="text-lg">Withdrawal Queue</span>
+          <Button variant="outline" size="sm" onClick={loadQueue} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {loading ? 'Loading...' : 'No pending withdrawals'}
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {queue.map((withdrawal) => {
+              const busy = busyId === withdrawal.id;
+              return (
+                <div key={withdrawal.id} className="p-3 border rounded space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">{withdrawal.username}</p>
+                      <p className="text-xs text-muted-foreground">
+                        #{withdrawal.id} · {new Date(withdrawal.requested_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="text-right space-y-1">
+                      <p className="text-sm font-medium">{formatCurrency(withdrawal.amount_cents / 100)}</p>
+                      <div className="flex gap-1 justify-end">
+                        <Badge variant={withdrawal.status === 'approved' ? 'default' : 'secondary'}>
+                          {withdrawal.status === 'approved' ? 'awaiting payout' : withdrawal.status}
+                        </Badge>
+                        {!withdrawal.has_payout_account && (
+                          <Badge variant="destructive">no payout account</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {withdrawal.status === 'requested' ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Rejection reason (optional)"
+                        value={rejectReasons[withdrawal.id] || ''}
+                        onChange={(e) => setRejectReasons(prev => ({ ...prev, [withdrawal.id]: e.target.value }))}
+                        className="h-8 text-xs"
+                        disabled={busy}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(withdrawal)}
+                        disabled={busy || !withdrawal.has_payout_account}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleReject(withdrawal)} disabled={busy}>
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  ) : !withdrawal.stripe_transfer_id ? (
+                    <Button size="sm" variant="outline" onClick={() => handleRetryPayout(withdrawal)} disabled={busy}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Retry payout
+                    </Button>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Transfer {withdrawal.stripe_transfer_id} sent, waiting for Stripe confirmation
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -25,6 +25,8 @@ interface AuthContextType {
   walletBalance: number;
   totalDeposits: number;
   loading: boolean;
+  // True until the signed-in user's profile (and with it isAdmin) has loaded
+  profileLoading: boolean;
   isAdmin: boolean;
   signUp: (email: string, password: string, userData: Omit<UserProfile, 'id' | 'email'>) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
@@ -48,6 +50,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [walletBalance, setWalletBalance] = useState<number>(0);
   const [totalDeposits, setTotalDeposits] = useState<number>(0);
   const [loading, setLoading] = useState(true);
+  const [profileLoading, setProfileLoading] = useState(true);
 
   const ensureProfile = async (authUser: User) => {
     try {
@@ -117,14 +120,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         });
         
         // Fetch profile - this is critical, but don't block forever
+        setProfileLoading(true);
         fetchProfile(session.user.id).catch(err => {
           logger.warn('fetchProfile error in getSession (non-blocking):', err);
           // Set defaults if fetch fails
           setProfile(null);
           setWalletBalance(0);
+        }).finally(() => {
+          if (mounted) setProfileLoading(false);
         });
       } else {
         setWalletBalance(0);
+        setProfileLoading(false);
       }
       
       if (loadingTimeout) {
@@ -164,15 +171,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         });
         
         // Fetch profile - critical but non-blocking
+        setProfileLoading(true);
         fetchProfile(session.user.id).catch(err => {
           logger.warn('fetchProfile error in onAuthStateChange (non-blocking):', err);
           // Set defaults if fetch fails
           setProfile(null);
           setWalletBalance(0);
+        }).finally(() => {
+          if (mounted) setProfileLoading(false);
         });
       } else {
         setProfile(null);
         setWalletBalance(0);
+        setProfileLoading(false);
       }
       
       if (mounted) {
@@ -418,6 +429,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       walletBalance,
       totalDeposits,
       loading,
+      profileLoading,
       isAdmin: profile?.is_admin ?? false,
       signUp,
       signIn,
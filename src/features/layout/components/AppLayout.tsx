@@ -1,5 +1,5 @@
-import React, { useEffect } from 'react';
-import { useAppContext } from '@/features/trading/contexts/AppContext';
+import React from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
 import Navigation from './Navigation';
 import ClubValuesPage from '../../trading/components/ClubValuesPage';
@@ -9,48 +9,45 @@ import StandingsPage from '../../trading/components/StandingsPage';
 import SeasonSimulation from '../../trading/components/SeasonSimulation';
 import { AdminDashboard } from '../../admin/components/AdminDashboard';
 import LeaderboardPage from '../../leaderboard/components/LeaderboardPage';
+import NotFound from '@/pages/NotFound';
+import { PAGE_PATHS } from '@/shared/lib/utils/app-routes';
 
-const AppLayout: React.FC = () => {
-  const { currentPage, setCurrentPage } = useAppContext();
-  const { isAdmin } = useAuth();
-
-  // Redirect to marketplace if non-admin tries to access admin or simulation pages
-  useEffect(() => {
-    if ((currentPage === 'admin' || currentPage === 'season-simulation') && !isAdmin) {
-      setCurrentPage('marketplace');
-    }
-  }, [currentPage, isAdmin, setCurrentPage]);
-
-  const renderCurrentPage = () => {
-    // Block admin and simulation access if user is not admin
-    if ((currentPage === 'admin' || currentPage === 'season-simulation') && !isAdmin) {
-      return <ClubValuesPage />;
-    }    switch (currentPage) {
-      case 'marketplace':
-      case 'club-values':
-        return <ClubValuesPage />;
-      case 'portfolio':
-        return <PortfolioPage />;
-      case 'leaderboard':
-        return <LeaderboardPage />;
-      case 'match-results':
-        return <MatchResultsPage />;
-      case 'standings':
-        return <StandingsPage />;
-      case 'season-simulation':
-        return <SeasonSimulation />;
-      case 'admin':
-        return <AdminDashboard />;
-      default:
-        return <ClubValuesPage />;
-    }
-  };
+// Send non-admins back to the marketplace from admin and simulation routes,
+// waiting for the profile first so a deep link on a fresh load keeps its target
+const AdminRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
+  const { isAdmin, profileLoading } = useAuth();
+  if (isAdmin) return children;
+  if (profileLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+  return <Navigate to={PAGE_PATHS.marketplace} replace />;
+};
 
+const AppLayout: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 w-full overflow-x-hidden pb-20 md:pb-0">
-      <Navigation currentPage={currentPage} onPageChange={setCurrentPage} />
+      <Navigation />
       <main className="max-w-7xl mx-auto w-full px-4 lg:px-6 overflow-x-hidden">
-        {renderCurrentPage()}
+        <Routes>
+          <Route index element={<Navigate to={PAGE_PATHS.marketplace} replace />} />
+          <Route path="marketplace" element={<ClubValuesPage />} />
+          <Route path="clubs/:teamId" element={<ClubValuesPage />} />
+          <Route path="clubs/:teamId/history" element={<ClubValuesPage showMatchHistory />} />
+          <Route path="portfolio" element={<PortfolioPage />} />
+          <Route path="leaderboard" element={<LeaderboardPage />} />
+          <Route path="leaderboard/:period" element={<LeaderboardPage />} />
+          <Route path="matches" element={<MatchResultsPage />} />
+          <Route path="matches/:fixtureId" element={<MatchResultsPage />} />
+          <Route path="standings" element={<StandingsPage />} />
+          <Route path="simulation" element={<AdminRoute><SeasonSimulation /></AdminRoute>} />
+          <Route path="admin" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
+          <Route path="admin/:panel" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
+          <Route path="*" element={<NotFound />} />
+        </Routes>
       </main>
     </div>
   );
@@ -1,4 +1,5 @@
 import React, { useState, useContext } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/shared/components/ui/button';
 import {
   Tooltip,
@@ -25,7 +26,10 @@ import {
 import { useAuth } from '@/features/auth/contexts/AuthContext';
 import { AppContext } from '@/features/trading/contexts/AppContext';
 import { DepositModal } from '@/features/trading/components/DepositModal';
+import { WithdrawModal } from '@/features/trading/components/WithdrawModal';
+import { NotificationBell } from '@/features/notifications/components/NotificationBell';
 import { formatCurrency } from '@/shared/lib/formatters';
+import { ADMIN_PAGE_IDS, PAGE_PATHS, getPageIdFromPath, type AppPageId } from '@/shared/lib/utils/app-routes';
 import {
   Trophy,
   Briefcase,
@@ -41,23 +45,23 @@ import {
   Menu,
   X,
   Mail,
-  ChevronDown
+  ChevronDown,
+  ArrowUpRight
 } from 'lucide-react';
 
-interface NavigationProps {
-  currentPage: string;
-  onPageChange: (page: string) => void;
-}
-
-const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) => {
+const Navigation: React.FC = () => {
   const { signOut, profile, walletBalance, refreshWalletBalance, isAdmin, user, totalDeposits } = useAuth();
   const [depositModalOpen, setDepositModalOpen] = useState(false);
+  const [withdrawModalOpen, setWithdrawModalOpen] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false);
   const [netWorthDialogOpen, setNetWorthDialogOpen] = useState(false);
   const { totalMarketValue = 0, refreshData } = useContext(AppContext) || {};
+  const navigate = useNavigate();
+  const location = useLocation();
+  const currentPage = getPageIdFromPath(location.pathname);
 
-  const allPages = [
+  const allPages: { id: AppPageId; label: string; icon: typeof Trophy }[] = [
     { id: 'marketplace', label: 'Marketplace', icon: TrendingUp },
     { id: 'portfolio', label: 'Portfolio', icon: Briefcase },
     { id: 'leaderboard', label: 'Leaderboard', icon: Trophy },
@@ -69,11 +73,16 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
 
   // Filter out admin and simulation pages if user is not admin
   const pages = allPages.filter(page => {
-    if (page.id === 'admin' || page.id === 'season-simulation') {
+    if (ADMIN_PAGE_IDS.includes(page.id)) {
       return isAdmin;
     }
     return true;
   });
+
+  const onPageChange = (page: AppPageId) => {
+    navigate(PAGE_PATHS[page]);
+  };
+
   const handleSignOutClick = () => {
     setLogoutDialogOpen(true);
     setMobileMenuOpen(false); // Close mobile menu if open
@@ -171,8 +180,13 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
               </div>
             </div>
 
+            {/* Notification Bell - Desktop & Mobile */}
+            <div className="flex items-center flex-shrink-0 ml-auto">
+              {profile && <NotificationBell />}
+            </div>
+
             {/* User Menu - Desktop */}
-            <div className="hidden md:flex items-center space-x-1 lg:space-x-2 flex-shrink-0 ml-auto">
+            <div className="hidden md:flex items-center space-x-1 lg:space-x-2 flex-shrink-0">
               {profile && (
                 <>
                   <div className="hidden lg:flex items-center space-x-1.5 text-gray-300">
@@ -221,6 +235,13 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
                             {formatCurrency(netWorth)}
                           </span>
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setWithdrawModalOpen(true)}
+                          className="cursor-pointer hover:bg-gray-700/50"
+                        >
+                          <ArrowUpRight className="w-4 h-4 mr-2 text-trading-primary" />
+                          Withdraw
+                        </DropdownMenuItem>
 
                       </DropdownMenuContent>
                     </DropdownMenu>
@@ -249,7 +270,7 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
 
             {/* Mobile Wallet & User Info */}
             {profile && (
-              <div className="md:hidden flex items-center gap-1.5 ml-auto">
+              <div className="md:hidden flex items-center gap-1.5">
                 {/* Wallet Balance */}
                 <Button
                   onClick={() => setDepositModalOpen(true)}
@@ -303,6 +324,13 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
                         {formatCurrency(netWorth)}
                       </span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setWithdrawModalOpen(true)}
+                      className="cursor-pointer hover:bg-gray-700/50"
+                    >
+                      <ArrowUpRight className="w-4 h-4 mr-2 text-trading-primary" />
+                      Withdraw
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -354,6 +382,10 @@ const Navigation: React.FC<NavigationProps> = ({ currentPage, onPageChange }) =>
             }, 1500); // Give webhook time to process
           }}
         />
+        <WithdrawModal
+          isOpen={withdrawModalOpen}
+          onClose={() => setWithdrawModalOpen(false)}
+        />
 
         {/* Logout Confirmation Dialog */}
         <AlertDialog open={logoutDialogOpen} onOpenChange={setLogoutDialogOpen}>
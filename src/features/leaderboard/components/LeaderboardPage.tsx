@@ -2,10 +2,22 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent } from '@/shared/components/ui/card';
 import { formatPercent } from '@/shared/lib/formatters';
 import { ArrowUpDown, ArrowUp, ArrowDown, Trophy } from 'lucide-react';
-import { supabase } from '@/shared/lib/supabase';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { leaderboardService } from '@/shared/lib/services/leaderboard.service';
+import { LEADERBOARD_PERIOD_LABELS, type LeaderboardPeriodType } from '@/shared/lib/utils/leaderboard-periods';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import {
+  LEAGUES_LEADERBOARD_SEGMENT,
+  PAGE_PATHS,
+  PUBLIC_LEADERBOARD_PERIODS,
+  isPublicLeaderboardPeriod,
+  leaderboardPath
+} from '@/shared/lib/utils/app-routes';
 import { LeaderboardInfoWidget } from './LeaderboardInfoWidget';
 import { LeaderboardInfoWidgetCompact } from './LeaderboardInfoWidgetCompact';
+import { PrivateLeaguesTab } from './PrivateLeaguesTab';
 import { LEADERBOARD_WIDGET_CONFIG } from '../config/leaderboard-widget.config';
 
 interface LeaderboardEntry {
@@ -17,64 +29,64 @@ interface LeaderboardEntry {
   isCurrentUser: boolean;
 }
 
+const PERIOD_NOUNS: Record<LeaderboardPeriodType, string> = {
+  week: 'Week',
+  matchday: 'Matchday',
+  month: 'Month',
+  season: 'Season',
+  custom: 'Range',
+};
+
 const LeaderboardPage: React.FC = () => {
   const { user } = useAuth();
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortField, setSortField] = useState<'rank' | 'userName' | 'weeklyReturn'>('rank');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [currentWeekNumber, setCurrentWeekNumber] = useState<number | null>(null);
-  const [previousWeekNumber, setPreviousWeekNumber] = useState<number | null>(null);
+  // View and period come from /leaderboard/:period ('leagues' opens private leagues)
+  const { period } = useParams<{ period: string }>();
+  const navigate = useNavigate();
+  const view: 'global' | 'leagues' = period === LEAGUES_LEADERBOARD_SEGMENT ? 'leagues' : 'global';
+  const periodType: LeaderboardPeriodType = isPublicLeaderboardPeriod(period) ? period : 'week';
+  const [currentPeriodLabel, setCurrentPeriodLabel] = useState<string | null>(null);
+  const [previousPeriodLabel, setPreviousPeriodLabel] = useState<string | null>(null);
 
   useEffect(() => {
     loadLeaderboardData();
-  }, [user]);
+  }, [user, periodType]);
 
   const loadLeaderboardData = async () => {
     try {
       setLoading(true);
 
-      // Fetch week numbers and leaderboard data in parallel
-      const [currentWeekRes, previousWeekRes, currentLeaderboardRes, previousWeekDataRes] = await Promise.all([
-        supabase.from('weekly_leaderboard').select('week_number').eq('is_latest', true).order('week_number', { ascending: false }).limit(1).single(),
-        supabase.from('weekly_leaderboard').select('week_number').eq('is_latest', false).order('week_number', { ascending: false }).limit(1).single(),
-        supabase.rpc('get_weekly_leaderboard_current'),
-        supabase.from('weekly_leaderboard').select('user_id, weekly_return').eq('is_latest', false).order('week_start', { ascending: false }),
-      ]);
-
-      setCurrentWeekNumber(currentWeekRes.data?.week_number ?? null);
-      setPreviousWeekNumber(previousWeekRes.data?.week_number ?? null);
+      const periods = await leaderboardService.getPeriods(periodType);
+      const [currentPeriod, previousPeriod] = periods;
 
-      const { data: currentLeaderboard, error: currentError } = currentLeaderboardRes;
-      const { data: previousWeekData, error: prevError } = previousWeekDataRes;
+      setCurrentPeriodLabel(currentPeriod?.label ?? null);
+      setPreviousPeriodLabel(previousPeriod?.label ?? null);
 
-      if (currentError) {
-        console.error('Error fetching leaderboard:', currentError);
-        throw currentError;
-      }
-
-      if (prevError) {
-        console.error('Error fetching previous week data:', prevError);
-      }
+      // Weekly standings come from the latest-week RPC; other types by key
+      const [currentLeaderboard, previousStandings] = await Promise.all([
+        periodType === 'week' || currentPeriod
+          ? leaderboardService.getStandings(periodType, periodType === 'week' ? undefined : currentPeriod.key)
+          : Promise.resolve([]),
+        previousPeriod
+          ? leaderboardService.getStandings(periodType, previousPeriod.key).catch(prevError => {
+              console.error('Error fetching previous period data:', prevError);
+              return [];
+            })
+          : Promise.resolve([]),
+      ]);
 
-      // Create a map of user_id -> previous weekly return
-      const previousReturnsMap = new Map<string, number>();
-      if (previousWeekData && previousWeekData.length > 0) {
-        // Group by user_id and get the most recent non-latest entry
-        const userPreviousWeeks = new Map<string, number>();
-        previousWeekData.forEach((record: { user_id: string; weekly_return: number }) => {
-          if (!userPreviousWeeks.has(record.user_id)) {
-            userPreviousWeeks.set(record.user_id, parseFloat(String(record.weekly_return)) * 100);
-          }
-        });
-        previousReturnsMap.clear();
-        userPreviousWeeks.forEach((value, key) => previousReturnsMap.set(key, value));
-      }
+      // Create a map of user_id -> previous period return
+      const previousReturnsMap = new Map<string, number>(
+        previousStandings.map(record => [record.user_id, record.period_return * 100])
+      );
 
       // If we have real data, use it
-      if (currentLeaderboard && currentLeaderboard.length > 0) {
-        const transformedData: LeaderboardEntry[] = currentLeaderboard.map((record: { user_id: string; full_name: string | null; rank: number; weekly_return: number }) => {
-          const rawName = record.full_name?.trim() ?? (record as { fullName?: string }).fullName?.trim();
+      if (currentLeaderboard.length > 0) {
+        const transformedData: LeaderboardEntry[] = currentLeaderboard.map(record => {
+          const rawName = record.full_name?.trim();
           const userName = rawName && !/^User [0-9a-fA-F]{8}$/.test(rawName)
             ? rawName
             : 'Unknown User';
@@ -82,7 +94,7 @@ const LeaderboardPage: React.FC = () => {
           rank: record.rank,
           userId: record.user_id,
           userName,
-          weeklyReturn: parseFloat(String(record.weekly_return)) * 100, // Convert to percentage
+          weeklyReturn: record.period_return * 100, // Convert to percentage
           previousWeeklyReturn: previousReturnsMap.get(record.user_id) ?? null,
           isCurrentUser: user?.id === record.user_id
         };
@@ -126,6 +138,10 @@ const LeaderboardPage: React.FC = () => {
     });
   }, [leaderboardData, sortField, sortDirection]);
 
+  if (period !== undefined && view === 'global' && !isPublicLeaderboardPeriod(period)) {
+    return <Navigate to={PAGE_PATHS.leaderboard} replace />;
+  }
+
   if (loading) {
     return (
       <div className="md:p-3 sm:p-4 md:p-5 lg:p-6 space-y-3 sm:space-y-4 md:space-y-6 w-full max-w-full overflow-x-hidden">
@@ -143,19 +159,170 @@ const LeaderboardPage: React.FC = () => {
         <div>
           <h1 className="text-lg sm:text-xl md:text-2xl font-bold flex items-center gap-2">
             <Trophy className="w-6 h-6 text-yellow-400" />
-            Weekly Leaderboard
+            {view === 'leagues' ? 'Private Leagues' : `${LEADERBOARD_PERIOD_LABELS[periodType]} Leaderboard`}
           </h1>
-          <p className="text-sm text-gray-400 mt-1">Top performers this week</p>
+          <p className="text-sm text-gray-400 mt-1">
+            {view === 'leagues'
+              ? 'Compete with your friends'
+              : `Top performers ${periodType === 'week' ? 'this week' : currentPeriodLabel ? `· ${currentPeriodLabel}` : ''}`}
+          </p>
         </div>
-      </div>      {/* Main Leaderboard Table */}
-      <Card className="trading-card border-0 md:rounded-lg max-w-6xl mx-auto">
-        <CardContent className="p-0">
-          {/* Desktop/Tablet Table */}
-          <div className="hidden md:block overflow-x-auto">
-            <table className="trading-table w-full">
-              <thead>
-                <tr>
-                  <th className="text-center w-[10%] px-4">
+        {view === 'global' && (
+          <Select value={periodType} onValueChange={(value) => navigate(leaderboardPath(value as LeaderboardPeriodType))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PUBLIC_LEADERBOARD_PERIODS.map(type => (
+                <SelectItem key={type} value={type}>
+                  {LEADERBOARD_PERIOD_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => navigate(value === 'leagues' ? leaderboardPath(LEAGUES_LEADERBOARD_SEGMENT) : PAGE_PATHS.leaderboard)} className="space-y-3 sm:space-y-4">
+        <TabsList className="mx-3 md:mx-0">
+          <TabsTrigger value="global">Global</TabsTrigger>
+          <TabsTrigger value="leagues">My Leagues</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="leagues">
+          <PrivateLeaguesTab />
+        </TabsContent>
+
+        <TabsContent value="global">
+          {/* Main Leaderboard Table */}
+          <Card className="trading-card border-0 md:rounded-lg max-w-6xl mx-auto">
+            <CardContent className="p-0">
+              {/* Desktop/Tablet Table */}
+              <div className="hidden md:block overflow-x-auto">
+                <table className="trading-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="text-center w-[10%] px-4">
+                        <button
+                          onClick={() => {
+                            if (sortField === 'rank') {
+                              setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+                            } else {
+                              setSortField('rank');
+                              setSortDirection('asc');
+                            }
+                          }}
+                          className="flex items-center justify-center gap-2 hover:text-foreground transition-colors mx-auto text-base"
+                        >
+                          <span>Rank</span>
+                          {sortField === 'rank' ? (
+                            sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                          ) : (
+                            <ArrowUpDown className="h-4 w-4 opacity-20" />
+                          )}
+                        </button>
+                      </th>
+                      <th className="text-left w-[28%] px-4">
+                        <button
+                          onClick={() => {
+                            if (sortField === 'userName') {
+                              setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+                            } else {
+                              setSortField('userName');
+                              setSortDirection('asc');
+                            }
+                          }}
+                          className="flex items-center gap-2 hover:text-foreground transition-colors text-base"
+                        >
+                          <span>User</span>
+                          {sortField === 'userName' ? (
+                            sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                          ) : (
+                            <ArrowUpDown className="h-4 w-4 opacity-20" />
+                          )}
+                        </button>
+                      </th>
+                      <th className="text-right w-[31%] px-4">
+                        <div className="flex items-center justify-end gap-2 ml-auto text-base">
+                          <span>Previous {PERIOD_NOUNS[periodType]}{previousPeriodLabel != null ? ` (${previousPeriodLabel})` : ''}</span>
+                        </div>
+                      </th>
+                      <th className="text-right w-[31%] px-4">
+                        <button
+                          onClick={() => {
+                            if (sortField === 'weeklyReturn') {
+                              setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+                            } else {
+                              setSortField('weeklyReturn');
+                              setSortDirection('desc');
+                            }
+                          }}
+                          className="flex items-center justify-end gap-2 hover:text-foreground transition-colors ml-auto text-base"
+                        >
+                          <span>Current {PERIOD_NOUNS[periodType]}{currentPeriodLabel != null ? ` (${currentPeriodLabel})` : ''}</span>
+                          {sortField === 'weeklyReturn' ? (
+                            sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                          ) : (
+                            <ArrowUpDown className="h-4 w-4 opacity-20" />
+                          )}
+                        </button>
+                      </th>
+                    </tr>
+                  </thead><tbody>
+                    {/* If no data, show a friendly message */}
+                    {sortedData.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="text-center py-12 text-gray-400 text-base">
+                          No Rankings Displayed Yet.
+                        </td>
+                      </tr>
+                    )}                {sortedData.map((entry) => (
+                      <tr
+                        key={entry.userId}
+                        className={`group ${entry.isCurrentUser ? 'bg-trading-primary/10' : ''}`}
+                      >
+                        <td className="px-4 text-center">
+                          <span className="text-gray-400 font-medium text-base">{entry.rank}</span>
+                        </td>
+                        <td className="px-4">
+                          <span className={`font-medium text-base ${entry.isCurrentUser ? 'text-trading-primary' : ''}`}>
+                            {entry.userName}
+                            {entry.isCurrentUser && <span className="ml-2 text-sm font-medium" style={{ color: 'hsl(var(--muted-foreground))' }}>(You)</span>}
+                          </span>
+                        </td>
+                        <td className={`px-4 text-right font-mono text-base ${
+                          entry.previousWeeklyReturn === null
+                            ? 'text-gray-500'
+                            : entry.previousWeeklyReturn === 0
+                            ? 'price-neutral'
+                            : entry.previousWeeklyReturn > 0
+                            ? 'price-positive'
+                            : 'price-negative'
+                        }`}>
+                          {entry.previousWeeklyReturn === null 
+                            ? 'N/A' 
+                            : `${entry.previousWeeklyReturn > 0 ? '+' : ''}${formatPercent(entry.previousWeeklyReturn)}`
+                          }
+                        </td>
+                        <td className={`px-4 text-right font-mono font-semibold text-base ${
+                          entry.weeklyReturn === 0 
+                            ? 'price-neutral' 
+                            : entry.weeklyReturn > 0 
+                            ? 'price-positive' 
+                            : 'price-negative'
+                        }`}>
+                          {entry.weeklyReturn > 0 ? '+' : ''}{formatPercent(entry.weeklyReturn)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+                {/* Mobile Table Layout - Matching Marketplace Style */}
+              <div className="md:hidden -mx-3 sm:-mx-4">
+                {/* Mobile Table Header */}
+                <div className="sticky top-0 z-10 bg-gray-900/95 backdrop-blur-sm border-b border-gray-700/50">
+                  <div className="grid grid-cols-[55px_0.85fr_80px_80px] gap-2 px-3 py-2.5 text-[10px] font-semibold text-gray-400 items-center">
                     <button
                       onClick={() => {
                         if (sortField === 'rank') {
@@ -165,17 +332,15 @@ const LeaderboardPage: React.FC = () => {
                           setSortDirection('asc');
                         }
                       }}
-                      className="flex items-center justify-center gap-2 hover:text-foreground transition-colors mx-auto text-base"
+                      className="flex items-center justify-center gap-0.5 hover:text-white transition-colors"
                     >
                       <span>Rank</span>
                       {sortField === 'rank' ? (
-                        sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                        sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
                       ) : (
-                        <ArrowUpDown className="h-4 w-4 opacity-20" />
+                        <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
                       )}
                     </button>
-                  </th>
-                  <th className="text-left w-[28%] px-4">
                     <button
                       onClick={() => {
                         if (sortField === 'userName') {
@@ -185,22 +350,18 @@ const LeaderboardPage: React.FC = () => {
                           setSortDirection('asc');
                         }
                       }}
-                      className="flex items-center gap-2 hover:text-foreground transition-colors text-base"
+                      className="flex items-center gap-0.5 hover:text-white transition-colors text-left"
                     >
                       <span>User</span>
                       {sortField === 'userName' ? (
-                        sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                        sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
                       ) : (
-                        <ArrowUpDown className="h-4 w-4 opacity-20" />
+                        <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
                       )}
                     </button>
-                  </th>
-                  <th className="text-right w-[31%] px-4">
-                    <div className="flex items-center justify-end gap-2 ml-auto text-base">
-                      <span>Previous Week{previousWeekNumber != null ? ` (Week ${previousWeekNumber})` : ''}</span>
+                    <div className="flex items-center justify-end">
+                      <span className="text-right leading-tight">Prev<br />{PERIOD_NOUNS[periodType]}</span>
                     </div>
-                  </th>
-                  <th className="text-right w-[31%] px-4">
                     <button
                       onClick={() => {
                         if (sortField === 'weeklyReturn') {
@@ -210,190 +371,78 @@ const LeaderboardPage: React.FC = () => {
                           setSortDirection('desc');
                         }
                       }}
-                      className="flex items-center justify-end gap-2 hover:text-foreground transition-colors ml-auto text-base"
+                      className="flex items-center justify-end gap-0.5 hover:text-white transition-colors ml-auto"
                     >
-                      <span>Current Week{currentWeekNumber != null ? ` (Week ${currentWeekNumber})` : ''}</span>
+                      <span className="text-right leading-tight">Current<br />{PERIOD_NOUNS[periodType]}</span>
                       {sortField === 'weeklyReturn' ? (
-                        sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />
+                        sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
                       ) : (
-                        <ArrowUpDown className="h-4 w-4 opacity-20" />
+                        <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
                       )}
                     </button>
-                  </th>
-                </tr>
-              </thead><tbody>
-                {/* If no data, show a friendly message */}
-                {sortedData.length === 0 && (
-                  <tr>
-                    <td colSpan={4} className="text-center py-12 text-gray-400 text-base">
-                      No Rankings Displayed Yet.
-                    </td>
-                  </tr>
-                )}                {sortedData.map((entry) => (
-                  <tr
-                    key={entry.userId}
-                    className={`group ${entry.isCurrentUser ? 'bg-trading-primary/10' : ''}`}
-                  >
-                    <td className="px-4 text-center">
-                      <span className="text-gray-400 font-medium text-base">{entry.rank}</span>
-                    </td>
-                    <td className="px-4">
-                      <span className={`font-medium text-base ${entry.isCurrentUser ? 'text-trading-primary' : ''}`}>
-                        {entry.userName}
-                        {entry.isCurrentUser && <span className="ml-2 text-sm font-medium" style={{ color: 'hsl(var(--muted-foreground))' }}>(You)</span>}
-                      </span>
-                    </td>
-                    <td className={`px-4 text-right font-mono text-base ${
-                      entry.previousWeeklyReturn === null
-                        ? 'text-gray-500'
-                        : entry.previousWeeklyReturn === 0
-                        ? 'price-neutral'
-                        : entry.previousWeeklyReturn > 0
-                        ? 'price-positive'
-                        : 'price-negative'
-                    }`}>
-                      {entry.previousWeeklyReturn === null 
-                        ? 'N/A' 
-                        : `${entry.previousWeeklyReturn > 0 ? '+' : ''}${formatPercent(entry.previousWeeklyReturn)}`
-                      }
-                    </td>
-                    <td className={`px-4 text-right font-mono font-semibold text-base ${
-                      entry.weeklyReturn === 0 
-                        ? 'price-neutral' 
-                        : entry.weeklyReturn > 0 
-                        ? 'price-positive' 
-                        : 'price-negative'
-                    }`}>
-                      {entry.weeklyReturn > 0 ? '+' : ''}{formatPercent(entry.weeklyReturn)}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-            {/* Mobile Table Layout - Matching Marketplace Style */}
-          <div className="md:hidden -mx-3 sm:-mx-4">
-            {/* Mobile Table Header */}
-            <div className="sticky top-0 z-10 bg-gray-900/95 backdrop-blur-sm border-b border-gray-700/50">
-              <div className="grid grid-cols-[55px_0.85fr_80px_80px] gap-2 px-3 py-2.5 text-[10px] font-semibold text-gray-400 items-center">
-                <button
-                  onClick={() => {
-                    if (sortField === 'rank') {
-                      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-                    } else {
-                      setSortField('rank');
-                      setSortDirection('asc');
-                    }
-                  }}
-                  className="flex items-center justify-center gap-0.5 hover:text-white transition-colors"
-                >
-                  <span>Rank</span>
-                  {sortField === 'rank' ? (
-                    sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
-                  ) : (
-                    <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
-                  )}
-                </button>
-                <button
-                  onClick={() => {
-                    if (sortField === 'userName') {
-                      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-                    } else {
-                      setSortField('userName');
-                      setSortDirection('asc');
-                    }
-                  }}
-                  className="flex items-center gap-0.5 hover:text-white transition-colors text-left"
-                >
-                  <span>User</span>
-                  {sortField === 'userName' ? (
-                    sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
-                  ) : (
-                    <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
-                  )}
-                </button>
-                <div className="flex items-center justify-end">
-                  <span className="text-right leading-tight">Prev<br />Week{previousWeekNumber != null ? ` (${previousWeekNumber})` : ''}</span>
+                  </div>
                 </div>
-                <button
-                  onClick={() => {
-                    if (sortField === 'weeklyReturn') {
-                      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-                    } else {
-                      setSortField('weeklyReturn');
-                      setSortDirection('desc');
-                    }
-                  }}
-                  className="flex items-center justify-end gap-0.5 hover:text-white transition-colors ml-auto"
-                >
-                  <span className="text-right leading-tight">Current<br />Week{currentWeekNumber != null ? ` (${currentWeekNumber})` : ''}</span>
-                  {sortField === 'weeklyReturn' ? (
-                    sortDirection === 'asc' ? <ArrowUp className="h-2.5 w-2.5" /> : <ArrowDown className="h-2.5 w-2.5" />
-                  ) : (
-                    <ArrowUpDown className="h-2.5 w-2.5 opacity-20" />
-                  )}
-                </button>
-              </div>
-            </div>
             
-            {/* Mobile Table Rows */}
-            <div className="space-y-0">
-              {sortedData.map((entry) => (
-                <div key={entry.userId} className="border-b border-gray-700/30 last:border-b-0">
-                  <div className={`grid grid-cols-[55px_0.85fr_80px_80px] gap-2 px-3 py-2.5 items-center active:bg-gray-700/30 transition-colors touch-manipulation ${
-                    entry.isCurrentUser ? 'bg-trading-primary/10' : ''
-                  }`}>
+                {/* Mobile Table Rows */}
+                <div className="space-y-0">
+                  {sortedData.map((entry) => (
+                    <div key={entry.userId} className="border-b border-gray-700/30 last:border-b-0">
+                      <div className={`grid grid-cols-[55px_0.85fr_80px_80px] gap-2 px-3 py-2.5 items-center active:bg-gray-700/30 transition-colors touch-manipulation ${
+                        entry.isCurrentUser ? 'bg-trading-primary/10' : ''
+                      }`}>
                     
-                    {/* Rank */}
-                    <div className="text-center flex justify-center text-[10px] font-medium">
-                      {getRankDisplay(entry.rank)}
-                    </div>                    
+                        {/* Rank */}
+                        <div className="text-center flex justify-center text-[10px] font-medium">
+                          {getRankDisplay(entry.rank)}
+                        </div>                    
                     
-                    {/* User */}
-                    <div className="flex items-center min-w-0 flex-1">
-                      <span className={`text-[10px] font-medium truncate block ${
-                        entry.isCurrentUser ? 'text-trading-primary' : 'text-white'
-                      }`}>
-                        {entry.userName}
-                        {entry.isCurrentUser && (
-                          <span className="ml-1 text-[9px] text-gray-400">(You)</span>
-                        )}
-                      </span>
-                    </div>
+                        {/* User */}
+                        <div className="flex items-center min-w-0 flex-1">
+                          <span className={`text-[10px] font-medium truncate block ${
+                            entry.isCurrentUser ? 'text-trading-primary' : 'text-white'
+                          }`}>
+                            {entry.userName}
+                            {entry.isCurrentUser && (
+                              <span className="ml-1 text-[9px] text-gray-400">(You)</span>
+                            )}
+                          </span>
+                        </div>
                     
-                    {/* Previous Week Return */}
-                    <div className={`text-right font-mono text-[10px] ${
-                      entry.previousWeeklyReturn === null
-                        ? 'text-gray-500'
-                        : entry.previousWeeklyReturn === 0 
-                        ? 'text-gray-400' 
-                        : entry.previousWeeklyReturn > 0 
-                        ? 'text-green-400' 
-                        : 'text-red-400'
-                    }`}>
-                      {entry.previousWeeklyReturn === null 
-                        ? 'N/A' 
-                        : `${entry.previousWeeklyReturn > 0 ? '+' : ''}${formatPercent(entry.previousWeeklyReturn)}`
-                      }
-                    </div>
+                        {/* Previous Week Return */}
+                        <div className={`text-right font-mono text-[10px] ${
+                          entry.previousWeeklyReturn === null
+                            ? 'text-gray-500'
+                            : entry.previousWeeklyReturn === 0 
+                            ? 'text-gray-400' 
+                            : entry.previousWeeklyReturn > 0 
+                            ? 'text-green-400' 
+                            : 'text-red-400'
+                        }`}>
+                          {entry.previousWeeklyReturn === null 
+                            ? 'N/A' 
+                            : `${entry.previousWeeklyReturn > 0 ? '+' : ''}${formatPercent(entry.previousWeeklyReturn)}`
+                          }
+                        </div>
                     
-                    {/* Current Week Return */}
-                    <div className={`text-right font-mono font-semibold text-[10px] ${
-                      entry.weeklyReturn === 0 
-                        ? 'text-gray-400' 
-                        : entry.weeklyReturn > 0 
-                        ? 'text-green-400' 
-                        : 'text-red-400'
-                    }`}>
-                      {entry.weeklyReturn > 0 ? '+' : ''}{formatPercent(entry.weeklyReturn)}
+                        {/* Current Week Return */}
+                        <div className={`text-right font-mono font-semibold text-[10px] ${
+                          entry.weeklyReturn === 0 
+                            ? 'text-gray-400' 
+                            : entry.weeklyReturn > 0 
+                            ? 'text-green-400' 
+                            : 'text-red-400'
+                        }`}>
+                          {entry.weeklyReturn > 0 ? '+' : ''}{formatPercent(entry.weeklyReturn)}
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
 
       {/* Info Widget for Leaderboard */}
       {LEADERBOARD_WIDGET_CONFIG.enabled && (
@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Copy, LogOut, Plus, RefreshCw, UserMinus, Users } from 'lucide-react';
+import { formatPercent } from '@/shared/lib/formatters';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { leaguesService, type DatabaseLeague, type DatabaseLeagueMember } from '@/shared/lib/services/leagues.service';
+import {
+  MAX_LEAGUE_NAME_LENGTH,
+  isValidInviteCode,
+  normalizeInviteCode,
+  type LeagueStanding
+} from '@/shared/lib/utils/private-leagues';
+
+const returnClass = (value: number | null) =>
+  value === null || value === 0 ? 'text-gray-400' : value > 0 ? 'text-green-400' : 'text-red-400';
+
+const formatReturn = (value: number | null) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${formatPercent(value * 100)}`;
+
+export const PrivateLeaguesTab: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [leagues, setLeagues] = useState<DatabaseLeague[]>([]);
+  const [selectedLeagueId, setSelectedLeagueId] = useState<number | null>(null);
+  const [standings, setStandings] = useState<LeagueStanding[]>([]);
+  const [members, setMembers] = useState<DatabaseLeagueMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newLeagueName, setNewLeagueName] = useState('');
+  const [newLeagueStart, setNewLeagueStart] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+
+  const selectedLeague = leagues.find(l => l.id === selectedLeagueId) ?? null;
+  const isOwner = !!selectedLeague && selectedLeague.owner_id === user?.id;
+
+  const loadLeagues = useCallback(async (selectId?: number) => {
+    try {
+      setLoading(true);
+      const myLeagues = await leaguesService.getMyLeagues();
+      setLeagues(myLeagues);
+      setSelectedLeagueId(current => {
+        const preferred = selectId ?? current;
+        return myLeagues.some(l => l.id === preferred) ? preferred! : myLeagues[0]?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Error loading leagues:', error);
+      setLeagues([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadLeagues();
+  }, [user, loadLeagues]);
+
+  useEffect(() => {
+    if (!selectedLeague) {
+      setStandings([]);
+      setMembers([]);
+      return;
+    }
+
+    const loadStandings = async () => {
+      try {
+        const leagueMembers = await leaguesService.getMembers(selectedLeague.id);
+        setMembers(leagueMembers);
+        setStandings(await leaguesService.getStandings(selectedLeague, leagueMembers));
+      } catch (error) {
+        console.error('Error loading league standings:', error);
+        setStandings([]);
+      }
+    };
+
+    loadStandings();
+  }, [selectedLeague]);
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : errorMessage,
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    if (!user) return;
+    const leagueId = await leaguesService.createLeague(
+      user.id,
+      newLeagueName.trim(),
+      newLeagueStart ? new Date(newLeagueStart) : undefined
+    );
+    setNewLeagueName('');
+    setNewLeagueStart('');
+    toast({ title: 'League created', description: 'Share the invite code with your friends' });
+    await loadLeagues(leagueId);
+  }, 'Failed to create league');
+
+  const handleJoin = () => runAction(async () => {
+    if (!user) return;
+    const leagueId = await leaguesService.joinLeague(user.id, inviteCode);
+    setInviteCode('');
+    toast({ title: 'Joined league', description: 'Your returns count from the next leaderboard week' });
+    await loadLeagues(leagueId);
+  }, 'Failed to join league');
+
+  const handleLeave = () => runAction(async () => {
+    if (!user || !selectedLeague) return;
+    const message = isOwner
+      ? `Leaving will delete "${selectedLeague.name}" for all members. Continue?`
+      : `Leave "${selectedLeague.name}"?`;
+    if (!window.confirm(message)) return;
+    await leaguesService.leaveLeague(user.id, selectedLeague.id);
+    setSelectedLeagueId(null);
+    await loadLeagues();
+  }, 'Failed to leave league');
+
+  const handleRemoveMember = (member: DatabaseLeagueMember) => runAction(async () => {
+    if (!selectedLeague) return;
+    if (!window.confirm(`Remove ${member.full_name || 'this member'} from the league?`)) return;
+    await leaguesService.removeMember(selectedLeague.id, member.user_id);
+    await loadLeagues(selectedLeague.id);
+  }, 'Failed to remove member');
+
+  const handleRegenerateCode = () => runAction(async () => {
+    if (!selectedLeague) return;
+    await leaguesService.regenerateInviteCode(selectedLeague.id);
+    await loadLeagues(selectedLeague.id);
+  }, 'Failed to regenerate invite code');
+
+  const handleCopyCode = async () => {
+    if (!selectedLeague) return;
+    await navigator.clipboard.writeText(selectedLeague.invite_code);
+    toast({ title: 'Copied', description: 'Invite code copied to clipboard' });
+  };
+
+  if (!user) {
+    return (
+      <Card className="trading-card border-0 md:rounded-lg max-w-6xl mx-auto">
+        <CardContent className="py-12 text-center text-gray-400">
+          Sign in to create or join a private league.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-6xl mx-auto">
+      {/* Create / Join */}
+      <div className="grid gap-4 md:grid-cols-2 px-3 md:px-0">
+        <Card className="trading-card border-0">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Create a league</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <Label htmlFor="league-name" className="text-gray-300 mb-1 block">Name</Label>
+              <Input
+                id="league-name"
+                value={newLeagueName}
+                maxLength={MAX_LEAGUE_NAME_LENGTH}
+                onChange={(e) => setNewLeagueName(e.target.value)}
+                placeholder="Sunday League Legends"
+              />
+            </div>
+            <div>
+              <Label htmlFor="league-start" className="text-gray-300 mb-1 block">Starts (optional)</Label>
+              <Input
+                id="league-start"
+                type="date"
+                value={newLeagueStart}
+                onChange={(e) => setNewLeagueStart(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={busy || !newLeagueName.trim()} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Create league
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="trading-card border-0">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Join with an invite code</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              placeholder="ABCD2345"
+              className="font-mono uppercase"
+            />
+            <Button
+              onClick={handleJoin}
+              disabled={busy || !isValidInviteCode(normalizeInviteCode(inviteCode))}
+              className="w-full"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Join league
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Standings */}
+      <Card className="trading-card border-0 md:rounded-lg">
+        <CardHeader>
+          <CardTitle className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            {leagues.length > 0 ? (
+              <Select
+                value={selectedLeagueId != null ? String(selectedLeagueId) : undefined}
+                onValueChange={(id) => setSelectedLeagueId(Number(id))}
+              >
+                <SelectTrigger className="w-full md:w-[260px]">
+                  <SelectValue placeholder="Select a league" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leagues.map(league => (
+                    <SelectItem key={league.id} value={String(league.id)}>
+                      {league.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-base">My Leagues</span>
+            )}
+
+            {selectedLeague && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary" className="font-mono">{selectedLeague.invite_code}</Badge>
+                <Button variant="outline" size="sm" onClick={handleCopyCode}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                {isOwner && (
+                  <Button variant="outline" size="sm" onClick={handleRegenerateCode} disabled={busy} title="New invite code">
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={handleLeave} disabled={busy}>
+                  <LogOut className="h-4 w-4 mr-1" />
+                  {isOwner ? 'Delete' : 'Leave'}
+                </Button>
+              </div>
+            )}
+          </CardTitle>
+          {selectedLeague && (
+            <p className="text-xs text-gray-400">
+              Weekly returns compounded from {new Date(selectedLeague.starts_at).toLocaleDateString()} or each member's join date, whichever is later
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-trading-primary"></div>
+            </div>
+          ) : !selectedLeague ? (
+            <p className="text-center text-gray-400 py-12">You are not in any private leagues yet.</p>
+          ) : (
+            <table className="trading-table w-full">
+              <thead>
+                <tr>
+                  <th className="text-center w-[10%] px-4">Rank</th>
+                  <th className="text-left px-4">User</th>
+                  <th className="text-right px-4">Last Week</th>
+                  <th className="text-right px-4">League Return</th>
+                  {isOwner && <th className="w-[8%]" />}
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map(standing => {
+                  const member = members.find(m => m.user_id === standing.user_id);
+                  const isCurrentUser = standing.user_id === user.id;
+                  return (
+                    <tr key={standing.user_id} className={isCurrentUser ? 'bg-trading-primary/10' : ''}>
+                      <td className="text-center px-4 text-gray-400 font-medium">{standing.rank}</td>
+                      <td className="px-4">
+                        {standing.full_name || 'Unknown User'}
+                        {member?.role === 'owner' && <Badge variant="outline" className="ml-2 text-[10px]">owner</Badge>}
+                        {standing.weeks_counted === 0 && (
+                          <span className="ml-2 text-xs text-gray-500">from next week</span>
+                        )}
+                      </td>
+                      <td className={`text-right px-4 font-mono ${returnClass(standing.last_week_return)}`}>
+                        {formatReturn(standing.last_week_return)}
+                      </td>
+                      <td className={`text-right px-4 font-mono font-semibold ${returnClass(standing.league_return)}`}>
+                        {formatReturn(standing.weeks_counted > 0 ? standing.league_return : null)}
+                      </td>
+                      {isOwner && (
+                        <td className="text-center">
+                          {member && member.role !== 'owner' && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)} disabled={busy}>
+                              <UserMinus className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover';
+import { Button } from '@/shared/components/ui/button';
+import { Bell, BellPlus, CheckCheck } from 'lucide-react';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { notificationsService, type DatabaseNotification } from '@/shared/lib/services/notifications.service';
+import { realtimeService } from '@/shared/lib/services/realtime.service';
+import { clubPath, matchPath } from '@/shared/lib/utils/app-routes';
+import { PriceAlertsDialog } from './PriceAlertsDialog';
+
+const formatAge = (createdAt: string) => {
+  const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(createdAt).toLocaleDateString();
+};
+
+export const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<DatabaseNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const navigate = useNavigate();
+
+  const loadInbox = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [inbox, unread] = await Promise.all([
+        notificationsService.getInbox(user.id),
+        notificationsService.getUnreadCount(user.id)
+      ]);
+      setNotifications(inbox);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadInbox();
+
+    const channel = realtimeService.subscribeToNotifications(user.id, notification => {
+      setNotifications(current => [notification, ...current.filter(n => n.id !== notification.id)]);
+      setUnreadCount(count => count + 1);
+    });
+
+    return () => {
+      realtimeService.unsubscribe(channel);
+    };
+  }, [user, loadInbox]);
+
+  const handleMarkRead = async (ids?: number[]) => {
+    if (!user) return;
+    try {
+      await notificationsService.markRead(user.id, ids);
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(n =>
+        !n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: readAt } : n
+      ));
+      setUnreadCount(count => (ids ? Math.max(0, count - ids.length) : 0));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  // Mark read and open the fixture or club the notification is about
+  const handleOpenNotification = (notification: DatabaseNotification) => {
+    if (!notification.read_at) {
+      handleMarkRead([notification.id]);
+    }
+    const target = notification.fixture_id !== null
+      ? matchPath(notification.fixture_id)
+      : notification.team_id !== null ? clubPath(notification.team_id) : null;
+    if (target) {
+      setOpen(false);
+      navigate(target);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            className="relative text-gray-300 hover:text-white hover:bg-white/10 p-1.5 lg:p-2 flex-shrink-0"
+            aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+          >
+            <Bell className="w-4 h-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-4 text-center">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="bg-gray-800 border-gray-700 text-white w-80 p-0">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+            <span className="text-sm font-semibold">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleMarkRead()}
+                disabled={unreadCount === 0}
+                className="text-xs text-gray-400 hover:text-white hover:bg-white/10 h-7 px-2"
+              >
+                <CheckCheck className="w-3.5 h-3.5 mr-1" />
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setOpen(false);
+                  setAlertsOpen(true);
+                }}
+                className="text-xs text-gray-400 hover:text-white hover:bg-white/10 h-7 px-2"
+              >
+                <BellPlus className="w-3.5 h-3.5 mr-1" />
+                Alerts
+              </Button>
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-6">No notifications yet</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`w-full text-left px-3 py-2 border-b border-gray-700/50 hover:bg-gray-700/40 ${
+                    notification.read_at ? 'text-gray-400' : 'text-white'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-medium">{notification.title}</span>
+                    {!notification.read_at && <span className="mt-1.5 w-2 h-2 rounded-full bg-trading-primary flex-shrink-0" />}
+                  </div>
+                  <p className="text-xs text-gray-400 mt-0.5">{notification.body}</p>
+                  <p className="text-[10px] text-gray-500 mt-1">{formatAge(notification.created_at)}</p>
+                </button>
+              ))
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+      <PriceAlertsDialog isOpen={alertsOpen} onClose={() => setAlertsOpen(false)} />
+    </>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback, useContext } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { BellPlus, Mail, Trash2 } from 'lucide-react';
+import { BuyWindowIndicator } from '@/shared/components/BuyWindowIndicator';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { AppContext } from '@/features/trading/contexts/AppContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { fromCents, toCents } from '@/shared/lib/utils/decimal';
+import { notificationsService, type DatabasePriceAlert } from '@/shared/lib/services/notifications.service';
+import {
+  ALERT_TYPE_LABELS,
+  validateAlertThreshold,
+  type AlertType
+} from '@/shared/lib/utils/notifications';
+
+const ALERT_TYPES = Object.keys(ALERT_TYPE_LABELS) as AlertType[];
+
+const THRESHOLD_UNITS: Record<AlertType, string> = {
+  price_above: '$',
+  price_below: '$',
+  match_move: '%',
+  buy_window_closing: 'minutes',
+};
+
+const isPriceAlert = (type: AlertType) => type === 'price_above' || type === 'price_below';
+
+const formatThreshold = (alert: DatabasePriceAlert) => {
+  if (isPriceAlert(alert.alert_type)) return formatCurrency(fromCents(alert.threshold).toNumber());
+  if (alert.alert_type === 'match_move') return `${alert.threshold}%`;
+  return `${alert.threshold} min`;
+};
+
+interface PriceAlertsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const PriceAlertsDialog: React.FC<PriceAlertsDialogProps> = ({ isOpen, onClose }) => {
+  const { user } = useAuth();
+  const { clubs = [] } = useContext(AppContext) || {};
+  const { toast } = useToast();
+  const [alerts, setAlerts] = useState<DatabasePriceAlert[]>([]);
+  const [teamId, setTeamId] = useState<string>('');
+  const [alertType, setAlertType] = useState<AlertType>('price_above');
+  const [threshold, setThreshold] = useState('');
+  const [emailEnabled, setEmailEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const clubName = (id: number) => clubs.find(c => Number(c.id) === id)?.name ?? `Club #${id}`;
+
+  const loadAlerts = useCallback(async () => {
+    if (!user) return;
+    try {
+      setAlerts(await notificationsService.getAlerts(user.id));
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (isOpen) loadAlerts();
+  }, [isOpen, loadAlerts]);
+
+  const handleCreate = async () => {
+    if (!user || !teamId) return;
+
+    // Price thresholds are entered in dollars and stored in cents
+    const value = isPriceAlert(alertType) ? toCents(threshold) : Number(threshold);
+    const validationError = validateAlertThreshold(alertType, value);
+    if (validationError) {
+      toast({ title: 'Invalid alert', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setBusy(true);
+      await notificationsService.createAlert(user.id, {
+        teamId: Number(teamId),
+        alertType,
+        threshold: value,
+        emailEnabled
+      });
+      setThreshold('');
+      await loadAlerts();
+      toast({ title: 'Alert created', description: `${clubName(Number(teamId))}: ${ALERT_TYPE_LABELS[alertType].toLowerCase()}` });
+    } catch (error) {
+      toast({
+        title: 'Could not create alert',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (alertId: number) => {
+    if (!user) return;
+    try {
+      await notificationsService.deleteAlert(user.id, alertId);
+      setAlerts(current => current.filter(a => a.id !== alertId));
+    } catch (error) {
+      toast({
+        title: 'Could not delete alert',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellPlus className="w-5 h-5 text-trading-primary" />
+            Price Alerts
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Get notified when a club's price crosses a level, moves after a match, or before trading closes for a club you hold.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Club</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger className="bg-gray-700 border-gray-600">
+                  <SelectValue placeholder="Select club" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clubs.map(club => (
+                    <SelectItem key={club.id} value={club.id}>{club.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Condition</Label>
+              <Select value={alertType} onValueChange={value => setAlertType(value as AlertType)}>
+                <SelectTrigger className="bg-gray-700 border-gray-600">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{ALERT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {teamId && (
+            <div className="flex items-center justify-between text-sm text-gray-400">
+              <span>
+                Current price: {formatCurrency(clubs.find(c => c.id === teamId)?.currentValue ?? 0)}
+              </span>
+              {alertType === 'buy_window_closing' && <BuyWindowIndicator teamId={Number(teamId)} compact />}
+            </div>
+          )}
+
+          <div className="flex items-end gap-3">
+            <div className="space-y-1 flex-1">
+              <Label>Threshold ({THRESHOLD_UNITS[alertType]})</Label>
+              <Input
+                type="number"
+                min="0"
+                step={isPriceAlert(alertType) ? '0.01' : alertType === 'match_move' ? '0.5' : '5'}
+                value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                className="bg-gray-700 border-gray-600"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="alert-email" checked={emailEnabled} onCheckedChange={setEmailEnabled} />
+              <Label htmlFor="alert-email" className="flex items-center gap-1">
+                <Mail className="w-3.5 h-3.5" /> Email
+              </Label>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={busy || !teamId || !threshold}
+            className="w-full bg-trading-primary hover:bg-trading-primary/80 text-white"
+          >
+            Add Alert
+          </Button>
+        </div>
+
+        <div className="border-t border-gray-700 pt-3 space-y-2 max-h-64 overflow-y-auto">
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-2">No alerts yet</p>
+          ) : (
+            alerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between text-sm bg-gray-700/40 rounded-lg px-3 py-2">
+                <div className={alert.is_active ? '' : 'text-gray-500'}>
+                  <span className="font-medium">{clubName(alert.team_id)}</span>{' '}
+                  {ALERT_TYPE_LABELS[alert.alert_type].toLowerCase()} {formatThreshold(alert)}
+                  {alert.email_enabled && <Mail className="inline w-3 h-3 ml-1 text-gray-400" />}
+                  {!alert.is_active && <span className="ml-1">(triggered)</span>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(alert.id)}
+                  className="text-gray-400 hover:text-red-400 hover:bg-red-900/20 p-1"
+                  aria-label="Delete alert"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { seasonArchiveService, type DatabaseArchivedFixture } from '@/shared/lib/services/season-archive.service';
+import { formatSeasonLabel } from '@/shared/lib/utils/season-rollover';
+
+interface ArchivedSeasonResultsProps {
+  season: number;
+}
+
+/**
+ * Results of a season archived at rollover, latest matchday first
+ */
+const ArchivedSeasonResults: React.FC<ArchivedSeasonResultsProps> = ({ season }) => {
+  const [fixtures, setFixtures] = useState<DatabaseArchivedFixture[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    seasonArchiveService.getFixtures(season)
+      .then(setFixtures)
+      .catch(error => console.error('Error loading archived fixtures:', error))
+      .finally(() => setLoading(false));
+  }, [season]);
+
+  const byMatchday = useMemo(() => {
+    const groups = new Map<string, DatabaseArchivedFixture[]>();
+    for (const fixture of fixtures) {
+      const key = fixture.competition_type === 'cup'
+        ? 'Cup'
+        : fixture.matchday ? `Matchday ${fixture.matchday}` : 'Other';
+      groups.set(key, [...(groups.get(key) || []), fixture]);
+    }
+    return [...groups.entries()];
+  }, [fixtures]);
+
+  if (loading) {
+    return (
+      <Card className="trading-card">
+        <CardContent className="p-8 text-center">
+          <p className="text-gray-400">Loading {formatSeasonLabel(season)} results...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (fixtures.length === 0) {
+    return (
+      <Card className="trading-card">
+        <CardContent className="p-12 text-center">
+          <p className="text-gray-400 text-lg font-medium">No fixtures archived for {formatSeasonLabel(season)}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {byMatchday.map(([label, matchdayFixtures]) => (
+        <div key={label} className="space-y-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">{label}</h2>
+            <div className="flex-1 h-px bg-gray-700"></div>
+            <span className="text-xs text-gray-500">
+              {matchdayFixtures.length} {matchdayFixtures.length === 1 ? 'match' : 'matches'}
+            </span>
+          </div>
+          <Card className="trading-card overflow-hidden">
+            <CardContent className="p-0 divide-y divide-gray-700/50">
+              {matchdayFixtures.map(fixture => {
+                const played = fixture.result !== 'pending';
+                return (
+                  <div key={fixture.fixture_id} className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 px-4 py-3 text-sm">
+                    <span className={`text-right truncate ${fixture.result === 'home_win' ? 'font-semibold text-white' : 'text-gray-300'}`}>
+                      {fixture.home_team_name}
+                    </span>
+                    <div className="flex flex-col items-center">
+                      {played ? (
+                        <span className="font-mono font-bold text-white">{fixture.home_score ?? 0} - {fixture.away_score ?? 0}</span>
+                      ) : (
+                        <Badge variant="outline" className="text-red-400 border-red-400/50 text-xs px-2 py-0.5">Not played</Badge>
+                      )}
+                      <span className="text-[10px] text-gray-500">
+                        {new Date(fixture.kickoff_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </span>
+                    </div>
+                    <span className={`truncate ${fixture.result === 'away_win' ? 'font-semibold text-white' : 'text-gray-300'}`}>
+                      {fixture.away_team_name}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ArchivedSeasonResults;
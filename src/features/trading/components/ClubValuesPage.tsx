@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useAppContext } from '../contexts/AppContext';
 import { Button } from '@/shared/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
@@ -8,6 +9,7 @@ import { PurchaseConfirmationModal } from './PurchaseConfirmationModal';
 import ClickableTeamName from '@/shared/components/ClickableTeamName';
 import TeamLogo from '@/shared/components/TeamLogo';
 import TeamDetailsSlideDown from './TeamDetailsSlideDown';
+import { MatchHistoryModal } from './MatchHistoryModal';
 import { fixturesService } from '@/shared/lib/database';
 import type { DatabaseFixture } from '@/shared/lib/database';
 import { FixtureSync } from './FixtureSync';
@@ -17,9 +19,16 @@ import { ChevronDown, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 import { useRealtimeMarket } from '@/shared/hooks/useRealtimeMarket';
 import { useRealtimeOrders } from '@/shared/hooks/useRealtimeOrders';
 import BuyWindowIndicator from '@/shared/components/BuyWindowIndicator';
+import ProjectedPriceBadge from '@/shared/components/ProjectedPriceBadge';
+import { useLiveProjections } from '@/shared/hooks/useLiveProjections';
 import { buyWindowService } from '@/shared/lib/buy-window.service';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { PAGE_PATHS, clubPath, parseIdParam } from '@/shared/lib/utils/app-routes';
 import { supabase } from '@/shared/lib/supabase';
+import { p2pMarketService } from '@/shared/lib/services/p2p-market.service';
+import { competitionsService, type DatabaseCompetition } from '@/shared/lib/services/competitions.service';
+import { PREMIER_LEAGUE_CODE } from '@/shared/lib/utils/competitions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import {
   calculateMatchdayPercentChange,
   calculateLifetimePercentChange,
@@ -28,11 +37,21 @@ import {
 } from '@/shared/lib/utils/calculations';
 import { toDecimal, roundForDisplay, fromCents, Decimal } from '@/shared/lib/utils/decimal';
 
-export const ClubValuesPage: React.FC = () => {
+interface ClubValuesPageProps {
+  /** Open the match history modal for the club in the URL (/clubs/:teamId/history) */
+  showMatchHistory?: boolean;
+}
+
+export const ClubValuesPage: React.FC<ClubValuesPageProps> = ({ showMatchHistory = false }) => {
   const { clubs, matches, purchaseClub, user, refreshData } = useAppContext();
   const { toast } = useToast();
   const { refreshWalletBalance, isAdmin } = useAuth();
-  const [selectedClub, setSelectedClub] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { teamId } = useParams<{ teamId: string }>();
+  // The expanded club lives in the URL (/clubs/:teamId) so it can be shared
+  const selectedClubId = parseIdParam(teamId);
+  const selectedClub = selectedClubId !== null ? String(selectedClubId) : null;
+  const { projections } = useLiveProjections();
   const [fixtures, setFixtures] = useState<DatabaseFixture[]>([]);
   const [confirmationData, setConfirmationData] = useState<{
     clubId: string;
@@ -42,9 +61,15 @@ export const ClubValuesPage: React.FC = () => {
   } | null>(null);
   const [isPurchasing, setIsPurchasing] = useState(false);
   const [purchasingClubId, setPurchasingClubId] = useState<string | null>(null);  const [buyWindowStatuses, setBuyWindowStatuses] = useState<Map<string, any>>(new Map());
+  const [competitions, setCompetitions] = useState<DatabaseCompetition[]>([]);
+  const [competitionCode, setCompetitionCode] = useState<string>(PREMIER_LEAGUE_CODE);
+  // Clubs listed in the selected competition; null shows every club
+  const [competitionTeamIds, setCompetitionTeamIds] = useState<Set<number> | null>(null);
   const [sortField, setSortField] = useState<'name' | 'price' | 'change' | 'marketCap'>('change');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [matchdayChanges, setMatchdayChanges] = useState<Map<string, { change: number; percentChange: number }>>(new Map());
+  // Last peer-to-peer trade price per team id, shown next to NAV
+  const [lastTradedPrices, setLastTradedPrices] = useState<Map<number, number>>(new Map());
 
   // Realtime subscriptions (for toast notifications)
   const { lastUpdate } = useRealtimeMarket();
@@ -55,6 +80,7 @@ export const ClubValuesPage: React.FC = () => {
   useEffect(() => {
     loadFixtures();
     loadMatchdayChanges();
+    loadLastTradedPrices();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only load once on mount  // Reload matchday changes when clubs change or market caps update
   useEffect(() => {
@@ -62,6 +88,7 @@ export const ClubValuesPage: React.FC = () => {
       // Add a small delay to ensure database writes have completed after match results
       const timeoutId = setTimeout(() => {
         loadMatchdayChanges();
+        loadLastTradedPrices();
       }, 500); // 500ms delay to allow database updates to propagate
       
       return () => clearTimeout(timeoutId);
@@ -92,6 +119,14 @@ export const ClubValuesPage: React.FC = () => {
     }
   }, [recentOrders.length, toast]);
 
+  const loadLastTradedPrices = async () => {
+    try {
+      setLastTradedPrices(await p2pMarketService.getLastTradedPrices());
+    } catch (error) {
+      console.error('Error loading last traded prices:', error);
+    }
+  };
+
   const loadFixtures = async () => {
     try {
       const fixturesData = await fixturesService.getAll();
@@ -291,9 +326,38 @@ export const ClubValuesPage: React.FC = () => {
     return latestMatch.homeTeam === clubName ? latestMatch.homeEndValue : latestMatch.awayEndValue;
   };
 
+  useEffect(() => {
+    competitionsService.getAll()
+      .then(setCompetitions)
+      .catch(error => console.error('Error loading competitions:', error));
+  }, []);
+
+  useEffect(() => {
+    const competition = competitions.find(c => c.code === competitionCode);
+    if (!competition) {
+      setCompetitionTeamIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    competitionsService.getTeamIds(competition.id)
+      .then(ids => {
+        if (!cancelled) setCompetitionTeamIds(new Set(ids));
+      })
+      .catch(error => console.error('Error loading competition clubs:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [competitions, competitionCode]);
+
+  const listedClubs = useMemo(
+    () => (competitionTeamIds ? clubs.filter(c => competitionTeamIds.has(parseInt(c.id))) : clubs),
+    [clubs, competitionTeamIds]
+  );
+
   const handleTeamClick = useCallback((clubId: string) => {
-    setSelectedClub(selectedClub === clubId ? null : clubId);
-  }, [selectedClub]);
+    navigate(selectedClub === clubId ? PAGE_PATHS.marketplace : clubPath(clubId));
+  }, [selectedClub, navigate]);
 
   // Memoize the teams data to prevent unnecessary re-renders
   const memoizedTeams = useMemo(() => {
@@ -385,8 +449,25 @@ export const ClubValuesPage: React.FC = () => {
       {/* Header Section - Mobile Optimized */}
       <div className="flex items-center justify-between px-3 md:px-0">
         <div>
-          <h1 className="text-lg sm:text-xl md:text-2xl font-bold">The Premier League</h1>
+          <h1 className="text-lg sm:text-xl md:text-2xl font-bold">
+            {competitionCode === 'all'
+              ? 'All Clubs'
+              : competitions.find(c => c.code === competitionCode)?.name ?? 'The Premier League'}
+          </h1>
         </div>
+        {competitions.length > 1 && (
+          <Select value={competitionCode} onValueChange={setCompetitionCode}>
+            <SelectTrigger className="w-48 min-h-[44px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {competitions.map(competition => (
+                <SelectItem key={competition.code} value={competition.code}>{competition.name}</SelectItem>
+              ))}
+              <SelectItem value="all">All clubs</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Main Marketplace Table - Clean Professional Style */}
@@ -487,7 +568,7 @@ export const ClubValuesPage: React.FC = () => {
               </thead>              <tbody>
                 {useMemo(() => {
                   // Sort based on selected field
-                  let filtered = [...clubs].sort((a, b) => {
+                  let filtered = [...listedClubs].sort((a, b) => {
                     switch (sortField) {
                       case 'name':
                         const aName = a.name.toLowerCase();
@@ -556,7 +637,19 @@ export const ClubValuesPage: React.FC = () => {
                         >
                           {getGamesPlayed(club.id)}
                         </td>
-                        <td className="px-3 text-center font-mono font-semibold">{formatCurrency(club.currentValue)}</td>
+                        <td className="px-3 text-center font-mono font-semibold">
+                          {formatCurrency(club.currentValue)}
+                          {lastTradedPrices.has(parseInt(club.id)) && (
+                            <div className="font-sans font-normal text-[10px] text-gray-400 mt-0.5">
+                              Last {formatCurrency(lastTradedPrices.get(parseInt(club.id))!)}
+                            </div>
+                          )}
+                          {projections.has(parseInt(club.id)) && (
+                            <div className="font-sans font-normal mt-0.5">
+                              <ProjectedPriceBadge projection={projections.get(parseInt(club.id))!} />
+                            </div>
+                          )}
+                        </td>
                         <td className={`px-3 text-center ${
                           (() => {
                             const latestMatchChange = matchdayChanges.get(club.id)?.percentChange;
@@ -620,7 +713,7 @@ export const ClubValuesPage: React.FC = () => {
                       </tr>
                     </React.Fragment>
                   ));
-                }, [clubs, sortField, sortDirection, selectedClub, getGamesPlayed, handleTeamClick, handlePurchaseClick, isPurchasing, purchasingClubId, buyWindowStatuses, formatTradingDeadline, matchdayChanges])}
+                }, [listedClubs, sortField, sortDirection, selectedClub, getGamesPlayed, handleTeamClick, handlePurchaseClick, isPurchasing, purchasingClubId, buyWindowStatuses, formatTradingDeadline, matchdayChanges, projections])}
 
               </tbody>
             </table>
@@ -692,7 +785,7 @@ export const ClubValuesPage: React.FC = () => {
               <div className="space-y-0">
                 {useMemo(() => {
                   // Sort based on selected field (same logic as desktop)
-                  let filtered = [...clubs].sort((a, b) => {
+                  let filtered = [...listedClubs].sort((a, b) => {
                     switch (sortField) {
                       case 'name':
                         const aName = a.name.toLowerCase();
@@ -765,6 +858,16 @@ export const ClubValuesPage: React.FC = () => {
                             {/* Price */}
                             <div className="text-center font-mono font-semibold text-[11px] text-white flex-shrink-0 whitespace-nowrap">
                               {formatCurrency(club.currentValue)}
+                              {lastTradedPrices.has(parseInt(club.id)) && (
+                                <div className="font-sans font-normal text-[9px] text-gray-400">
+                                  Last {formatCurrency(lastTradedPrices.get(parseInt(club.id))!)}
+                                </div>
+                              )}
+                              {projections.has(parseInt(club.id)) && (
+                                <div className="font-sans">
+                                  <ProjectedPriceBadge projection={projections.get(parseInt(club.id))!} compact />
+                                </div>
+                              )}
                             </div>
                             
                             {/* Percent Change */}
@@ -860,7 +963,7 @@ export const ClubValuesPage: React.FC = () => {
                     </React.Fragment>
                   );
                   });
-                }, [clubs, sortField, sortDirection, selectedClub, getGamesPlayed, handleTeamClick, handlePurchaseClick, isPurchasing, purchasingClubId, buyWindowStatuses, matchdayChanges])}
+                }, [listedClubs, sortField, sortDirection, selectedClub, getGamesPlayed, handleTeamClick, handlePurchaseClick, isPurchasing, purchasingClubId, buyWindowStatuses, matchdayChanges, projections])}
               </div>
           </div>
         </CardContent>
@@ -893,7 +996,14 @@ export const ClubValuesPage: React.FC = () => {
         isProcessing={isPurchasing}
       />
 
-
+      {showMatchHistory && selectedClub && (
+        <MatchHistoryModal
+          isOpen
+          onClose={() => navigate(clubPath(selectedClub))}
+          clubId={selectedClub}
+          clubName={clubs.find(c => c.id === selectedClub)?.name ?? ''}
+        />
+      )}
     </div>
   );
 };
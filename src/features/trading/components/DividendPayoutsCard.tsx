@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+import { dividendsService, type DatabaseDividendPayout } from '@/shared/lib/services/dividends.service';
+import { DIVIDEND_AWARD_TYPES } from '@/shared/lib/utils/dividends';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { Trophy } from 'lucide-react';
+
+interface DividendPayoutsCardProps {
+  userId: string;
+}
+
+const awardLabel = (payout: DatabaseDividendPayout) => {
+  const { award } = payout;
+  if (award.award_type === 'cup_win') return `${DIVIDEND_AWARD_TYPES.cup_win} ${award.season}`;
+  const position = `#${award.league_position}`;
+  return award.award_type === 'matchday_position'
+    ? `${position} after matchday ${award.matchday}, ${award.season}`
+    : `Finished ${position}, ${award.season}`;
+};
+
+const DividendPayoutsCard: React.FC<DividendPayoutsCardProps> = ({ userId }) => {
+  const [payouts, setPayouts] = useState<DatabaseDividendPayout[]>([]);
+
+  useEffect(() => {
+    dividendsService.getUserPayouts(userId)
+      .then(setPayouts)
+      .catch(error => console.error('Failed to load dividend payouts:', error));
+  }, [userId]);
+
+  if (payouts.length === 0) {
+    return null;
+  }
+
+  const totalCents = payouts.reduce((sum, p) => sum + Number(p.amount_cents), 0);
+
+  return (
+    <Card className="trading-card border-0">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-trading-primary" />
+            Dividends
+          </CardTitle>
+          <span className="text-sm text-gray-400">
+            Total received <span className="font-semibold price-positive">{formatCurrency(fromCents(totalCents).toNumber())}</span>
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700 text-gray-400">
+              <th className="text-left p-2 font-medium">Date</th>
+              <th className="text-left p-2 font-medium">Club</th>
+              <th className="text-left p-2 font-medium">Award</th>
+              <th className="text-right p-2 font-medium">Shares</th>
+              <th className="text-right p-2 font-medium">Payout</th>
+            </tr>
+          </thead>
+          <tbody>
+            {payouts.map(payout => (
+              <tr key={payout.id} className="border-b border-gray-700/50 last:border-b-0">
+                <td className="p-2">{new Date(payout.created_at).toLocaleDateString()}</td>
+                <td className="p-2">{payout.team?.name}</td>
+                <td className="p-2 text-gray-400">{awardLabel(payout)}</td>
+                <td className="p-2 text-right">{formatNumber(payout.quantity)}</td>
+                <td className="p-2 text-right price-positive">{formatCurrency(fromCents(payout.amount_cents).toNumber())}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DividendPayoutsCard;
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { formatCurrency } from '@/shared/lib/formatters';
+import TeamLogo from '@/shared/components/TeamLogo';
+import { sanitizeInput } from '@/shared/lib/sanitization';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import {
+  validateLimitOrderInput,
+  calculateLimitReservationCents,
+  calculateDistanceToLimitPercent,
+  isLimitOrderTriggered,
+  type LimitOrderSide,
+} from '@/shared/lib/utils/limit-orders';
+import { calculateMaxTradeFeeCents } from '@/shared/lib/utils/trading-fees';
+import { useTradeFeeQuote } from '@/shared/hooks/useTradeFeeQuote';
+import { fromCents } from '@/shared/lib/utils/decimal';
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Until cancelled', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+interface LimitOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (side: LimitOrderSide, shares: number, limitPrice: number, expiresAt: string | null) => void;
+  clubName: string;
+  externalId?: number;
+  pricePerShare: number;
+  availableQuantity: number; // Shares not already reserved by other limit orders
+  defaultSide?: LimitOrderSide;
+  isProcessing?: boolean;
+}
+
+export const LimitOrderModal: React.FC<LimitOrderModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  clubName,
+  externalId,
+  pricePerShare,
+  availableQuantity,
+  defaultSide = 'BUY',
+  isProcessing = false
+}) => {
+  const { walletBalance } = useAuth();
+  const { context: feeContext } = useTradeFeeQuote(isOpen, 'BUY', 0);
+  const [side, setSide] = useState<LimitOrderSide>(defaultSide);
+  const [shares, setShares] = useState<string>('');
+  const [limitPrice, setLimitPrice] = useState<string>('');
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSide(defaultSide);
+      setShares('');
+      setLimitPrice(pricePerShare > 0 ? pricePerShare.toFixed(2) : '');
+      setExpiryDays(null);
+    }
+  }, [isOpen, defaultSide, pricePerShare]);
+
+  const numericShares = parseInt(shares) || 0;
+  const numericLimit = parseFloat(limitPrice) || 0;
+  const expiresAt = expiryDays
+    ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  // A BUY also reserves the most its fill can be charged in fees
+  const feeReserveCents = side === 'BUY' && feeContext
+    ? calculateMaxTradeFeeCents(calculateLimitReservationCents('BUY', numericLimit, numericShares), feeContext.schedule.params)
+    : 0;
+
+  const validation = validateLimitOrderInput({
+    side,
+    quantity: numericShares,
+    limitPrice: numericLimit,
+    expiresAt,
+    walletBalance: side === 'BUY' ? walletBalance : undefined,
+    feeReserveCents,
+    availableQuantity: side === 'SELL' ? availableQuantity : undefined,
+  });
+
+  const reservation = fromCents(calculateLimitReservationCents(side, numericLimit, numericShares, feeReserveCents)).toNumber();
+  const wouldFillNow = numericLimit > 0 && isLimitOrderTriggered(side, numericLimit, pricePerShare);
+  const distance = numericLimit > 0 ? calculateDistanceToLimitPercent(side, numericLimit, pricePerShare) : 0;
+  const showErrors = numericShares > 0 || limitPrice !== '';
+
+  const handleConfirm = () => {
+    if (isProcessing || !validation.valid) return;
+    onConfirm(side, numericShares, numericLimit, expiresAt);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-gray-800/95 backdrop-blur-md border border-trading-primary/30 text-white max-w-md rounded-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-center gradient-text">
+            Limit Order
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div className="text-center space-y-3">
+            <div className="flex justify-center">
+              <div className="team-logo-container">
+                <TeamLogo teamName={clubName} externalId={externalId} size="lg" className="mx-auto" />
+              </div>
+            </div>
+            <h3 className="text-lg font-semibold text-trading-primary">{clubName}</h3>
+            <p className="text-xs text-gray-400">Current price: {formatCurrency(pricePerShare)}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['BUY', 'SELL'] as LimitOrderSide[]).map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant="outline"
+                onClick={() => setSide(option)}
+                disabled={option === 'SELL' && availableQuantity <= 0}
+                className={`font-semibold border-gray-600 ${
+                  side === option
+                    ? option === 'BUY' ? 'bg-green-600 hover:bg-green-600 text-white' : 'bg-red-600 hover:bg-red-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {option === 'BUY' ? 'Buy Limit' : 'Sell Limit'}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="limit-shares" className="text-gray-300">Shares</Label>
+              <Input
+                id="limit-shares"
+                type="number"
+                min="1"
+                value={shares}
+                onChange={(e) => setShares(sanitizeInput(e.target.value, 'number'))}
+                className="bg-gray-700 border-gray-600 text-white"
+                placeholder="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="limit-price" className="text-gray-300">Limit price ($)</Label>
+              <Input
+                id="limit-price"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+          {side === 'SELL' && (
+            <p className="text-gray-400 text-xs">{availableQuantity} share(s) available to sell</p>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-gray-300">Expires</Label>
+            <div className="grid grid-cols-4 gap-1">
+              {EXPIRY_OPTIONS.map(option => (
+                <Button
+                  key={option.label}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setExpiryDays(option.days)}
+                  className={`text-xs border-gray-600 ${
+                    expiryDays === option.days ? 'bg-trading-primary/30 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  }`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 bg-gradient-card p-4 rounded-lg border border-trading-primary/20 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-300">Fills when price is</span>
+              <span className="font-semibold text-white">
+                {side === 'BUY' ? '≤' : '≥'} {formatCurrency(numericLimit)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-300">{side === 'BUY' ? 'Cash reserved' : 'Shares reserved'}</span>
+              <span className="font-semibold text-white">
+                {side === 'BUY' ? formatCurrency(reservation) : numericShares.toLocaleString()}
+              </span>
+            </div>
+            {feeReserveCents > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-400 text-xs">Includes up to this trading fee</span>
+                <span className="text-gray-400 text-xs">{formatCurrency(fromCents(feeReserveCents).toNumber())}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-300">Distance to limit</span>
+              <span className="font-semibold text-white">
+                {wouldFillNow ? 'Fills at next check' : `${distance.toFixed(2)}%`}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400 pt-2 border-t border-trading-primary/20">
+              Limit orders are checked after each match update and only fill while the club's trading window is open.
+              Fills execute at the current price, never worse than your limit.
+            </p>
+          </div>
+
+          {showErrors && !validation.valid && (
+            <p className="text-red-400 text-sm">{validation.errors[0]}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button
+            onClick={onClose}
+            variant="outline"
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-white border-gray-600 hover:border-gray-500 font-semibold"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!validation.valid || isProcessing}
+            className="flex-1 bg-gradient-success hover:bg-gradient-success/80 disabled:bg-gray-600 text-white font-semibold"
+          >
+            {isProcessing ? 'Processing...' : 'Place Order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { calculateDistanceToLimitPercent } from '@/shared/lib/utils/limit-orders';
+import type { DatabaseOrderWithTeam } from '@/shared/lib/services/orders.service';
+import type { Club } from '@/shared/constants/clubs';
+
+interface LimitOrdersCardProps {
+  orders: DatabaseOrderWithTeam[];
+  clubs: Club[];
+  onCancel: (orderId: number) => void;
+  cancellingId?: number | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  TRIGGERED: 'bg-green-500/20 text-green-300 border-green-500/30',
+  CANCELLED: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+  EXPIRED: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Open',
+  TRIGGERED: 'Filled',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+};
+
+const LimitOrdersCard: React.FC<LimitOrdersCardProps> = ({ orders, clubs, onCancel, cancellingId }) => {
+  if (orders.length === 0) return null;
+
+  return (
+    <Card className="trading-card border-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <span>Limit Orders</span>
+          <span className="text-xs text-gray-400 font-normal">
+            {orders.filter(o => o.status === 'PENDING').length} open
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto w-full">
+          <table className="trading-table w-full">
+            <thead>
+              <tr>
+                <th className="text-left px-3">Club</th>
+                <th className="text-left px-3">Side</th>
+                <th className="text-right px-3">Units</th>
+                <th className="text-right px-3">Limit</th>
+                <th className="text-right px-3">Current</th>
+                <th className="text-right px-3">Distance</th>
+                <th className="text-right px-3">Expires</th>
+                <th className="text-center px-3">Status</th>
+                <th className="text-center px-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map(order => {
+                const club = clubs.find(c => c.id === order.team_id.toString());
+                const limitPrice = fromCents(order.limit_price || 0).toNumber();
+                const currentPrice = club?.currentValue || 0;
+                const isOpen = order.status === 'PENDING';
+                const distance = isOpen && currentPrice > 0
+                  ? calculateDistanceToLimitPercent(order.order_type, limitPrice, currentPrice)
+                  : null;
+
+                return (
+                  <tr key={order.id}>
+                    <td className="px-3 font-medium">{order.team?.name || club?.name || `Team ${order.team_id}`}</td>
+                    <td className={`px-3 font-semibold ${order.order_type === 'BUY' ? 'price-positive' : 'price-negative'}`}>
+                      {order.order_type}
+                    </td>
+                    <td className="px-3 text-right font-mono">{formatNumber(order.quantity)}</td>
+                    <td className="px-3 text-right font-mono">{formatCurrency(limitPrice)}</td>
+                    <td className="px-3 text-right font-mono">{currentPrice > 0 ? formatCurrency(currentPrice) : '—'}</td>
+                    <td className="px-3 text-right font-mono text-gray-300">
+                      {distance === null ? '—' : distance === 0 ? 'At limit' : `${distance.toFixed(2)}%`}
+                    </td>
+                    <td className="px-3 text-right text-xs text-gray-400">
+                      {order.expires_at ? new Date(order.expires_at).toLocaleString() : 'GTC'}
+                    </td>
+                    <td className="px-3 text-center">
+                      <Badge variant="outline" className={STATUS_STYLES[order.status] || ''} title={order.last_match_error || undefined}>
+                        {STATUS_LABELS[order.status] || order.status}
+                      </Badge>
+                    </td>
+                    <td className="px-3 text-center">
+                      {isOpen && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="bg-gray-700 hover:bg-gray-600 text-white border-gray-600 text-xs"
+                          disabled={cancellingId === order.id}
+                          onClick={() => onCancel(order.id)}
+                        >
+                          {cancellingId === order.id ? 'Cancelling...' : 'Cancel'}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LimitOrdersCard;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
 import { Card, CardContent } from '@/shared/components/ui/card';
 import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
@@ -10,13 +11,24 @@ import { useAppContext } from '@/features/trading/contexts/AppContext';
 import { PurchaseConfirmationModal } from './PurchaseConfirmationModal';
 import { useToast } from '@/shared/hooks/use-toast';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { parseIdParam } from '@/shared/lib/utils/app-routes';
+import ProjectedPriceBadge from '@/shared/components/ProjectedPriceBadge';
+import { useLiveProjections } from '@/shared/hooks/useLiveProjections';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { seasonArchiveService } from '@/shared/lib/services/season-archive.service';
+import { formatSeasonLabel } from '@/shared/lib/utils/season-rollover';
+import ArchivedSeasonResults from './ArchivedSeasonResults';
 
 const MatchResultsPage: React.FC = () => {
   const { clubs, purchaseClub, refreshData } = useAppContext();
   const { toast } = useToast();
   const { refreshWalletBalance, user } = useAuth();  const [fixtures, setFixtures] = useState<DatabaseFixtureWithTeams[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'finished' | 'upcoming'>('upcoming');
+  // /matches/:fixtureId highlights one fixture; show all so it is never filtered out
+  const { fixtureId } = useParams<{ fixtureId: string }>();
+  const highlightedFixtureId = parseIdParam(fixtureId);
+  const [filter, setFilter] = useState<'all' | 'finished' | 'upcoming'>(highlightedFixtureId !== null ? 'all' : 'upcoming');
+  const { projections } = useLiveProjections();
   const [isAutoRefreshing, setIsAutoRefreshing] = useState(false);
   const [confirmationData, setConfirmationData] = useState<{
     clubId: string;
@@ -25,8 +37,14 @@ const MatchResultsPage: React.FC = () => {
     pricePerShare: number;
   } | null>(null);
   const [isPurchasing, setIsPurchasing] = useState(false);
-  const [purchasingClubId, setPurchasingClubId] = useState<string | null>(null);  useEffect(() => {
+  const [purchasingClubId, setPurchasingClubId] = useState<string | null>(null);
+  // Past seasons archived at rollover; null shows the current season's fixtures
+  const [archivedSeasons, setArchivedSeasons] = useState<number[]>([]);
+  const [archivedSeason, setArchivedSeason] = useState<number | null>(null);  useEffect(() => {
     loadFixtures();
+    seasonArchiveService.getSeasons()
+      .then(seasons => setArchivedSeasons(seasons.map(s => s.season)))
+      .catch(error => console.error('Error loading archived seasons:', error));
   }, []);
   
   // Separate effect for auto-refresh that only runs when there are live matches
@@ -51,6 +69,12 @@ const MatchResultsPage: React.FC = () => {
       clearInterval(refreshInterval);
     };
   }, [fixtures]); // Re-run when fixtures change
+
+  // Scroll a deep-linked fixture into view once it has rendered
+  useEffect(() => {
+    if (loading || highlightedFixtureId === null) return;
+    document.getElementById(`fixture-${highlightedFixtureId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, highlightedFixtureId]);
   
   const loadFixtures = async () => {
     try {
@@ -97,7 +121,15 @@ const MatchResultsPage: React.FC = () => {
       default:
         return <Badge variant="outline" className="text-xs px-2 py-0.5">{status}</Badge>;
     }
-  };  const filteredFixtures = fixtures.filter(fixture => {
+  };
+
+  // Projected post-match price of a club playing in this fixture right now
+  const getLiveProjection = (teamId: number, fixtureId: number) => {
+    const projection = projections.get(teamId);
+    return projection && projection.fixtureId === fixtureId ? projection : undefined;
+  };
+
+  const filteredFixtures = fixtures.filter(fixture => {
     if (filter === 'finished') {
       // Include applied matches and postponed matches that are past their date
       if (fixture.status === 'applied') return true;
@@ -338,6 +370,22 @@ const MatchResultsPage: React.FC = () => {
               <span>Updating...</span>
             </div>
           )}
+          {archivedSeasons.length > 0 && (
+            <Select
+              value={archivedSeason === null ? 'current' : String(archivedSeason)}
+              onValueChange={value => setArchivedSeason(value === 'current' ? null : Number(value))}
+            >
+              <SelectTrigger className="w-32 min-h-[44px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Current season</SelectItem>
+                {archivedSeasons.map(season => (
+                  <SelectItem key={season} value={String(season)}>{formatSeasonLabel(season)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button 
             onClick={loadFixtures} 
             variant="outline" 
@@ -347,431 +395,454 @@ const MatchResultsPage: React.FC = () => {
             Refresh
           </Button>
         </div>
-      </div>      {/* Filter Controls */}
-      <div className="flex flex-wrap gap-2">
-        <Button 
-          onClick={() => setFilter('all')} 
-          variant={filter === 'all' ? 'default' : 'outline'}
-          size="sm"
-          className={`text-xs touch-manipulation min-h-[44px] px-3 ${
-            filter === 'all' 
-              ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
-              : 'text-gray-300 hover:text-white hover:bg-white/10'
-          }`}
-        >
-          All ({fixtures.length})
-        </Button>
-        <Button 
-          onClick={() => setFilter('finished')} 
-          variant={filter === 'finished' ? 'default' : 'outline'}
-          size="sm"
-          className={`text-xs touch-manipulation min-h-[44px] px-3 ${
-            filter === 'finished' 
-              ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
-              : 'text-gray-300 hover:text-white hover:bg-white/10'
-          }`}
-        >
-          Finished ({fixtures.filter(f => {
-            if (f.status === 'applied') return true;
-            if (f.status === 'postponed') {
-              return new Date(f.kickoff_at) < new Date();
-            }
-            return false;
-          }).length})
-        </Button>        <Button 
-          onClick={() => setFilter('upcoming')} 
-          variant={filter === 'upcoming' ? 'default' : 'outline'}
-          size="sm"
-          className={`text-xs touch-manipulation min-h-[44px] px-3 ${
-            filter === 'upcoming' 
-              ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
-              : 'text-gray-300 hover:text-white hover:bg-white/10'
-          }`}        >
-          Upcoming ({fixtures.filter(f => {
-            if (f.status === 'scheduled') return true;
-            if (f.status === 'live' || f.status === 'closed') return true; // Include live matches
-            if (f.status === 'postponed') {
-              return new Date(f.kickoff_at) >= new Date();
-            }
-            return false;
-          }).length})
-        </Button>
       </div>
 
-      {filteredFixtures.length === 0 ? (
-        <Card className="trading-card">
-          <CardContent className="p-12 text-center">
-            <div className="w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
-              <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>            </div>            <p className="text-gray-400 text-lg font-medium mb-2">
-              {filter === 'all' 
-                ? 'No fixtures found'
-                : `No ${filter} fixtures found`
+      {archivedSeason !== null ? (
+        <ArchivedSeasonResults season={archivedSeason} />
+      ) : (
+        <>
+        {/* Filter Controls */}
+        <div className="flex flex-wrap gap-2">
+          <Button 
+            onClick={() => setFilter('all')} 
+            variant={filter === 'all' ? 'default' : 'outline'}
+            size="sm"
+            className={`text-xs touch-manipulation min-h-[44px] px-3 ${
+              filter === 'all' 
+                ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
+                : 'text-gray-300 hover:text-white hover:bg-white/10'
+            }`}
+          >
+            All ({fixtures.length})
+          </Button>
+          <Button 
+            onClick={() => setFilter('finished')} 
+            variant={filter === 'finished' ? 'default' : 'outline'}
+            size="sm"
+            className={`text-xs touch-manipulation min-h-[44px] px-3 ${
+              filter === 'finished' 
+                ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
+                : 'text-gray-300 hover:text-white hover:bg-white/10'
+            }`}
+          >
+            Finished ({fixtures.filter(f => {
+              if (f.status === 'applied') return true;
+              if (f.status === 'postponed') {
+                return new Date(f.kickoff_at) < new Date();
               }
-            </p>
-            <p className="text-gray-500 text-sm">
-              {filter === 'all' 
-                ? 'Sync fixtures from the Football API Test page to see matches.'
-                : `There are no ${filter} matches at the moment.`
+              return false;
+            }).length})
+          </Button>        <Button 
+            onClick={() => setFilter('upcoming')} 
+            variant={filter === 'upcoming' ? 'default' : 'outline'}
+            size="sm"
+            className={`text-xs touch-manipulation min-h-[44px] px-3 ${
+              filter === 'upcoming' 
+                ? 'bg-trading-primary hover:bg-trading-primary/80 text-white' 
+                : 'text-gray-300 hover:text-white hover:bg-white/10'
+            }`}        >
+            Upcoming ({fixtures.filter(f => {
+              if (f.status === 'scheduled') return true;
+              if (f.status === 'live' || f.status === 'closed') return true; // Include live matches
+              if (f.status === 'postponed') {
+                return new Date(f.kickoff_at) >= new Date();
               }
-            </p>
-          </CardContent>
-        </Card>
-      ) : (        <div className="space-y-6">
-          {Object.entries(groupedFixtures).map(([dateKey, dateFixtures]) => (
-            <div key={dateKey} className="space-y-3">
-              {/* Date Header */}
-              <div className="flex items-center gap-3">
-                <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">
-                  {dateKey === '__LIVE__' ? (
-                    <span className="flex items-center gap-2">
-                      <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                      Live Matches
-                    </span>
-                  ) : (
-                    formatDateHeader(dateFixtures[0].kickoff_at)
-                  )}
-                </h2>
-                <div className="flex-1 h-px bg-gray-700"></div>
-                <span className="text-xs text-gray-500">
-                  {dateFixtures.length} {dateFixtures.length === 1 ? 'match' : 'matches'}
-                </span>
-              </div>              {/* Fixtures for this date */}
-              <Card className="trading-card overflow-hidden">
-                <CardContent className="p-0">
-                  {(() => {
-                    // For live matches group, all are live
-                    // For other groups, separate live and non-live (shouldn't have live in other groups now)
-                    const isLiveGroup = dateKey === '__LIVE__';
-                    const liveMatches = isLiveGroup ? dateFixtures : dateFixtures.filter(f => f.status === 'live' || f.status === 'closed');
-                    const otherMatches = isLiveGroup ? [] : dateFixtures.filter(f => f.status !== 'closed');
-                    
-                    const renderFixture = (fixture: DatabaseFixtureWithTeams, idx: number) => (
-                      <div 
-                        key={fixture.id} 
-                        className="p-3 sm:p-4 hover:bg-gray-800/30 transition-colors"
-                      >
-                        {/* Mobile Layout */}
-                        <div className="md:hidden space-y-3">
-                          {/* Header: Matchday & Status */}
-                          <div className="flex items-center justify-between">                            <div className="flex items-center gap-2">
+              return false;
+            }).length})
+          </Button>
+        </div>
+
+        {filteredFixtures.length === 0 ? (
+          <Card className="trading-card">
+            <CardContent className="p-12 text-center">
+              <div className="w-16 h-16 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>            </div>            <p className="text-gray-400 text-lg font-medium mb-2">
+                {filter === 'all' 
+                  ? 'No fixtures found'
+                  : `No ${filter} fixtures found`
+                }
+              </p>
+              <p className="text-gray-500 text-sm">
+                {filter === 'all' 
+                  ? 'Sync fixtures from the Football API Test page to see matches.'
+                  : `There are no ${filter} matches at the moment.`
+                }
+              </p>
+            </CardContent>
+          </Card>
+        ) : (        <div className="space-y-6">
+            {Object.entries(groupedFixtures).map(([dateKey, dateFixtures]) => (
+              <div key={dateKey} className="space-y-3">
+                {/* Date Header */}
+                <div className="flex items-center gap-3">
+                  <h2 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">
+                    {dateKey === '__LIVE__' ? (
+                      <span className="flex items-center gap-2">
+                        <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+                        Live Matches
+                      </span>
+                    ) : (
+                      formatDateHeader(dateFixtures[0].kickoff_at)
+                    )}
+                  </h2>
+                  <div className="flex-1 h-px bg-gray-700"></div>
+                  <span className="text-xs text-gray-500">
+                    {dateFixtures.length} {dateFixtures.length === 1 ? 'match' : 'matches'}
+                  </span>
+                </div>              {/* Fixtures for this date */}
+                <Card className="trading-card overflow-hidden">
+                  <CardContent className="p-0">
+                    {(() => {
+                      // For live matches group, all are live
+                      // For other groups, separate live and non-live (shouldn't have live in other groups now)
+                      const isLiveGroup = dateKey === '__LIVE__';
+                      const liveMatches = isLiveGroup ? dateFixtures : dateFixtures.filter(f => f.status === 'live' || f.status === 'closed');
+                      const otherMatches = isLiveGroup ? [] : dateFixtures.filter(f => f.status !== 'closed');
+                      
+                      const renderFixture = (fixture: DatabaseFixtureWithTeams, idx: number) => (
+                        <div 
+                          key={fixture.id} 
+                          id={`fixture-${fixture.id}`}
+                          className={`p-3 sm:p-4 hover:bg-gray-800/30 transition-colors ${
+                            fixture.id === highlightedFixtureId ? 'ring-2 ring-inset ring-trading-primary bg-trading-primary/10' : ''
+                          }`}
+                        >
+                          {/* Mobile Layout */}
+                          <div className="md:hidden space-y-3">
+                            {/* Header: Matchday & Status */}
+                            <div className="flex items-center justify-between">                            <div className="flex items-center gap-2">
+                                <div className={`text-xs font-mono font-bold ${
+                                  (fixture.status === 'live' || fixture.status === 'closed') ? 'text-yellow-500' : 'text-gray-500'
+                                }`}>
+                                  MD{fixture.matchday}
+                                </div>
+                                {getStatusBadge(fixture.status)}
+                              </div>
+                              {fixture.status === 'scheduled' && fixture.buy_close_at && (
+                                <div className="text-xs text-gray-500">
+                                  Closes {formatTime(fixture.buy_close_at)}
+                                </div>
+                              )}
+                            </div>                          {/* Match Display */}
+                            <div className="bg-gray-800/40 rounded-lg p-3 border border-gray-700/30">                            {/* Home Team Row */}
+                              <div className="flex items-center justify-between mb-2">
+                              <div className="flex items-center gap-2 flex-1 min-w-0">
+                                <TeamLogo 
+                                  teamName={fixture.home_team?.name || 'Home Team'} 
+                                  externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
+                                  size="sm" 
+                                />
+                                <ClickableTeamName
+                                  teamName={fixture.home_team?.name || 'Home Team'}
+                                  teamId={fixture.home_team_id}
+                                  externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
+                                  userId={user?.id}
+                                  variant="default"
+                                  className="text-sm font-semibold text-white hover:text-trading-primary transition-colors truncate text-left"
+                                />
+                              </div>
+                                {/* Show projected return only for scheduled matches (not live, not finished) */}
+                                {fixture.status === 'scheduled' && (() => {
+                                  const projectedReturn = calculateProjectedReturn(fixture.home_team_id, fixture.away_team_id);
+                                  return projectedReturn !== null && (
+                                    <span className="text-[10px] text-green-400 font-medium whitespace-nowrap mx-2">
+                                      +{projectedReturn.toFixed(2)}%
+                                    </span>
+                                  );
+                                })()}
+                                {getLiveProjection(fixture.home_team_id, fixture.id) && (
+                                  <ProjectedPriceBadge projection={getLiveProjection(fixture.home_team_id, fixture.id)!} compact className="mx-2" />
+                                )}
+                                {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null ? (
+                                  <span className={`text-lg font-bold ml-2 ${
+                                    fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-green-400' : 
+                                    fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-gray-400' : 'text-white'
+                                  }`}>
+                                    {fixture.home_score}
+                                  </span>
+                                ) : (
+                                  fixture.home_team_id && fixture.status === 'scheduled' && (
+                                    <Button
+                                      onClick={() => handlePurchaseClick(
+                                        fixture.home_team_id,
+                                        fixture.home_team?.name || 'Home Team',
+                                        fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined
+                                      )}
+                                      size="sm"
+                                      disabled={isPurchasing || purchasingClubId === fixture.home_team_id.toString()}
+                                      className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed touch-manipulation min-h-[36px] flex-shrink-0"
+                                      title="Buy shares"
+                                    >
+                                      {isPurchasing && purchasingClubId === fixture.home_team_id.toString() ? '...' : 'Buy'}
+                                    </Button>
+                                  )
+                                )}
+                              </div>{/* Score/Time Divider */}
+                              {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null && fixture.away_score !== null ? (
+                                <div className="flex items-center justify-center py-2 mb-2">
+                                  <div className="flex items-center gap-2">
+                                    <span className={`text-xl font-bold ${
+                                      fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-green-400' : 
+                                      fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-gray-400' : 'text-white'
+                                    }`}>
+                                      {fixture.home_score}
+                                    </span>
+                                    <span className="text-gray-500">-</span>
+                                    <span className={`text-xl font-bold ${
+                                      fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-green-400' : 
+                                      fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-gray-400' : 'text-white'
+                                    }`}>
+                                      {fixture.away_score}
+                                    </span>
+                                  </div>
+                                  {fixture.status === 'closed' && (
+                                    <Badge variant="outline" className="ml-2 text-yellow-400 border-yellow-400/50 text-[10px] px-1.5 py-0 animate-pulse">
+                                      LIVE
+                                    </Badge>
+                                  )}
+                                </div>
+                              ) : (
+                                <div className="text-center py-2 mb-2 border-y border-gray-700/30">
+                                  <span className="text-sm text-gray-400 font-mono">
+                                    {formatTime(fixture.kickoff_at)}
+                                  </span>
+                                </div>
+                              )}                            {/* Away Team Row */}
+                              <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2 flex-1 min-w-0">
+                                <TeamLogo 
+                                  teamName={fixture.away_team?.name || 'Away Team'} 
+                                  externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
+                                  size="sm" 
+  />
+                                  <ClickableTeamName
+                                    teamName={fixture.away_team?.name || 'Away Team'}
+                                    teamId={fixture.away_team_id}
+                                    externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
+                                    userId={user?.id}
+                                    variant="default"
+                                    className="text-sm font-semibold text-white hover:text-trading-primary transition-colors truncate text-left"
+                                  />
+                                </div>
+                                {/* Show projected return only for scheduled matches (not live, not finished) */}
+                                {fixture.status === 'scheduled' && (() => {
+                                  const projectedReturn = calculateProjectedReturn(fixture.away_team_id, fixture.home_team_id);
+                                  return projectedReturn !== null && (
+                                    <span className="text-[10px] text-green-400 font-medium whitespace-nowrap mx-2">
+                                      +{projectedReturn.toFixed(2)}%
+                                    </span>
+                                  );
+                                })()}
+                                {getLiveProjection(fixture.away_team_id, fixture.id) && (
+                                  <ProjectedPriceBadge projection={getLiveProjection(fixture.away_team_id, fixture.id)!} compact className="mx-2" />
+                                )}
+                                {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.away_score !== null ? (
+                                  <span className={`text-lg font-bold ml-2 ${
+                                    fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-green-400' : 
+                                    fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-gray-400' : 'text-white'
+                                  }`}>
+                                    {fixture.away_score}
+                                  </span>
+                                ) : (
+                                  fixture.away_team_id && fixture.status === 'scheduled' && (
+                                    <Button
+                                      onClick={() => handlePurchaseClick(
+                                        fixture.away_team_id,
+                                        fixture.away_team?.name || 'Away Team',
+                                        fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined
+                                      )}
+                                      size="sm"
+                                      disabled={isPurchasing || purchasingClubId === fixture.away_team_id.toString()}
+                                      className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed touch-manipulation min-h-[36px] flex-shrink-0"
+                                      title="Buy shares"
+                                    >
+                                      {isPurchasing && purchasingClubId === fixture.away_team_id.toString() ? '...' : 'Buy'}
+                                    </Button>
+                                  )
+                                )}
+                              </div>
+                            </div>
+                          </div>{/* Desktop/Tablet Layout */}
+                          <div className="hidden md:grid grid-cols-[140px_50px_60px_1fr_32px_80px_32px_1fr_60px_50px_120px] items-center gap-2">
+                            {/* Left: Matchday & Status */}                          <div className="flex items-center gap-3">
                               <div className={`text-xs font-mono font-bold ${
                                 (fixture.status === 'live' || fixture.status === 'closed') ? 'text-yellow-500' : 'text-gray-500'
                               }`}>
                                 MD{fixture.matchday}
                               </div>
                               {getStatusBadge(fixture.status)}
+                            </div>                          {/* Home Buy Button */}
+                            <div className="flex justify-center">
+                              {fixture.home_team_id && fixture.status === 'scheduled' && (
+                                <Button
+                                  onClick={() => handlePurchaseClick(
+                                    fixture.home_team_id,
+                                    fixture.home_team?.name || 'Home Team',
+                                    fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined
+                                  )}
+                                  size="sm"
+                                  disabled={isPurchasing || purchasingClubId === fixture.home_team_id.toString()}
+                                  className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-2 py-1 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed h-7 touch-manipulation w-full"
+                                  title="Buy shares"
+                                >
+                                  {isPurchasing && purchasingClubId === fixture.home_team_id.toString() ? '...' : 'Buy'}
+                                </Button>
+                              )}
                             </div>
-                            {fixture.status === 'scheduled' && fixture.buy_close_at && (
-                              <div className="text-xs text-gray-500">
-                                Closes {formatTime(fixture.buy_close_at)}
-                              </div>
-                            )}
-                          </div>                          {/* Match Display */}
-                          <div className="bg-gray-800/40 rounded-lg p-3 border border-gray-700/30">                            {/* Home Team Row */}
-                            <div className="flex items-center justify-between mb-2">
-                            <div className="flex items-center gap-2 flex-1 min-w-0">
-                              <TeamLogo 
-                                teamName={fixture.home_team?.name || 'Home Team'} 
-                                externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
-                                size="sm" 
-                              />
+
+                            {/* Home Projected % Return */}
+                            <div className="flex justify-center items-center">
+                              {fixture.status === 'scheduled' && (() => {
+                                const projectedReturn = calculateProjectedReturn(fixture.home_team_id, fixture.away_team_id);
+                                return projectedReturn !== null ? (
+                                  <span className="text-xs text-green-400 font-medium whitespace-nowrap">
+                                    +{projectedReturn.toFixed(2)}%
+                                  </span>
+                                ) : null;
+                              })()}
+                              {getLiveProjection(fixture.home_team_id, fixture.id) && (
+                                <ProjectedPriceBadge projection={getLiveProjection(fixture.home_team_id, fixture.id)!} />
+                              )}
+                            </div>
+
+                            {/* Home Team Name */}
+                            <div className="flex items-center gap-2 justify-end overflow-hidden">
                               <ClickableTeamName
                                 teamName={fixture.home_team?.name || 'Home Team'}
                                 teamId={fixture.home_team_id}
                                 externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
                                 userId={user?.id}
                                 variant="default"
-                                className="text-sm font-semibold text-white hover:text-trading-primary transition-colors truncate text-left"
+                                className="text-sm font-medium text-white hover:text-trading-primary transition-colors text-right truncate"
                               />
                             </div>
-                              {/* Show projected return only for scheduled matches (not live, not finished) */}
-                              {fixture.status === 'scheduled' && (() => {
-                                const projectedReturn = calculateProjectedReturn(fixture.home_team_id, fixture.away_team_id);
-                                return projectedReturn !== null && (
-                                  <span className="text-[10px] text-green-400 font-medium whitespace-nowrap mx-2">
-                                    +{projectedReturn.toFixed(2)}%
-                                  </span>
-                                );
-                              })()}
-                              {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null ? (
-                                <span className={`text-lg font-bold ml-2 ${
-                                  fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-green-400' : 
-                                  fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-gray-400' : 'text-white'
-                                }`}>
-                                  {fixture.home_score}
-                                </span>
-                              ) : (
-                                fixture.home_team_id && fixture.status === 'scheduled' && (
-                                  <Button
-                                    onClick={() => handlePurchaseClick(
-                                      fixture.home_team_id,
-                                      fixture.home_team?.name || 'Home Team',
-                                      fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined
-                                    )}
-                                    size="sm"
-                                    disabled={isPurchasing || purchasingClubId === fixture.home_team_id.toString()}
-                                    className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed touch-manipulation min-h-[36px] flex-shrink-0"
-                                    title="Buy shares"
-                                  >
-                                    {isPurchasing && purchasingClubId === fixture.home_team_id.toString() ? '...' : 'Buy'}
-                                  </Button>
-                                )
-                              )}
-                            </div>{/* Score/Time Divider */}
-                            {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null && fixture.away_score !== null ? (
-                              <div className="flex items-center justify-center py-2 mb-2">
-                                <div className="flex items-center gap-2">
-                                  <span className={`text-xl font-bold ${
+
+                            {/* Home Team Logo */}
+                            <div className="flex justify-center">
+                              <TeamLogo 
+                                teamName={fixture.home_team?.name || 'Home Team'} 
+                                externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
+                                size="sm" 
+                              />
+                            </div>{/* Score/Time */}
+                            <div className="flex items-center gap-2 justify-center">
+                              {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null && fixture.away_score !== null ? (
+                                <>
+                                  <span className={`text-lg font-bold ${
                                     fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-green-400' : 
                                     fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-gray-400' : 'text-white'
                                   }`}>
                                     {fixture.home_score}
                                   </span>
-                                  <span className="text-gray-500">-</span>
-                                  <span className={`text-xl font-bold ${
+                                  <span className="text-gray-500 text-xs">-</span>
+                                  <span className={`text-lg font-bold ${
                                     fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-green-400' : 
                                     fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-gray-400' : 'text-white'
                                   }`}>
                                     {fixture.away_score}
                                   </span>
-                                </div>
-                                {fixture.status === 'closed' && (
-                                  <Badge variant="outline" className="ml-2 text-yellow-400 border-yellow-400/50 text-[10px] px-1.5 py-0 animate-pulse">
-                                    LIVE
-                                  </Badge>
-                                )}
-                              </div>
-                            ) : (
-                              <div className="text-center py-2 mb-2 border-y border-gray-700/30">
-                                <span className="text-sm text-gray-400 font-mono">
+                                </>
+                              ) : (
+                                <span className="text-xs text-gray-500 font-mono">
                                   {formatTime(fixture.kickoff_at)}
                                 </span>
-                              </div>
-                            )}                            {/* Away Team Row */}
-                            <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2 flex-1 min-w-0">
+                              )}
+                            </div>                          {/* Away Team Logo */}
+                            <div className="flex justify-center">
                               <TeamLogo 
                                 teamName={fixture.away_team?.name || 'Away Team'} 
                                 externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
                                 size="sm" 
-/>
-                                <ClickableTeamName
-                                  teamName={fixture.away_team?.name || 'Away Team'}
-                                  teamId={fixture.away_team_id}
-                                  externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
-                                  userId={user?.id}
-                                  variant="default"
-                                  className="text-sm font-semibold text-white hover:text-trading-primary transition-colors truncate text-left"
-                                />
-                              </div>
-                              {/* Show projected return only for scheduled matches (not live, not finished) */}
+                              />
+                            </div>
+
+                            {/* Away Team Name */}
+                            <div className="flex items-center gap-2 justify-start overflow-hidden">
+                              <ClickableTeamName
+                                teamName={fixture.away_team?.name || 'Away Team'}
+                                teamId={fixture.away_team_id}
+                                externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
+                                userId={user?.id}
+                                variant="default"
+                                className="text-sm font-medium text-white hover:text-trading-primary transition-colors text-left truncate"
+                              />
+                            </div>                          {/* Away Projected % Return */}
+                            <div className="flex justify-center items-center">
                               {fixture.status === 'scheduled' && (() => {
                                 const projectedReturn = calculateProjectedReturn(fixture.away_team_id, fixture.home_team_id);
-                                return projectedReturn !== null && (
-                                  <span className="text-[10px] text-green-400 font-medium whitespace-nowrap mx-2">
+                                return projectedReturn !== null ? (
+                                  <span className="text-xs text-green-400 font-medium whitespace-nowrap">
                                     +{projectedReturn.toFixed(2)}%
                                   </span>
-                                );
+                                ) : null;
                               })()}
-                              {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.away_score !== null ? (
-                                <span className={`text-lg font-bold ml-2 ${
-                                  fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-green-400' : 
-                                  fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-gray-400' : 'text-white'
-                                }`}>
-                                  {fixture.away_score}
-                                </span>
-                              ) : (
-                                fixture.away_team_id && fixture.status === 'scheduled' && (
-                                  <Button
-                                    onClick={() => handlePurchaseClick(
-                                      fixture.away_team_id,
-                                      fixture.away_team?.name || 'Away Team',
-                                      fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined
-                                    )}
-                                    size="sm"
-                                    disabled={isPurchasing || purchasingClubId === fixture.away_team_id.toString()}
-                                    className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-3 py-1.5 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed touch-manipulation min-h-[36px] flex-shrink-0"
-                                    title="Buy shares"
-                                  >
-                                    {isPurchasing && purchasingClubId === fixture.away_team_id.toString() ? '...' : 'Buy'}
-                                  </Button>
-                                )
+                              {getLiveProjection(fixture.away_team_id, fixture.id) && (
+                                <ProjectedPriceBadge projection={getLiveProjection(fixture.away_team_id, fixture.id)!} />
                               )}
                             </div>
-                          </div>
-                        </div>{/* Desktop/Tablet Layout */}
-                        <div className="hidden md:grid grid-cols-[140px_50px_60px_1fr_32px_80px_32px_1fr_60px_50px_120px] items-center gap-2">
-                          {/* Left: Matchday & Status */}                          <div className="flex items-center gap-3">
-                            <div className={`text-xs font-mono font-bold ${
-                              (fixture.status === 'live' || fixture.status === 'closed') ? 'text-yellow-500' : 'text-gray-500'
-                            }`}>
-                              MD{fixture.matchday}
-                            </div>
-                            {getStatusBadge(fixture.status)}
-                          </div>                          {/* Home Buy Button */}
-                          <div className="flex justify-center">
-                            {fixture.home_team_id && fixture.status === 'scheduled' && (
-                              <Button
-                                onClick={() => handlePurchaseClick(
-                                  fixture.home_team_id,
-                                  fixture.home_team?.name || 'Home Team',
-                                  fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined
-                                )}
-                                size="sm"
-                                disabled={isPurchasing || purchasingClubId === fixture.home_team_id.toString()}
-                                className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-2 py-1 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed h-7 touch-manipulation w-full"
-                                title="Buy shares"
-                              >
-                                {isPurchasing && purchasingClubId === fixture.home_team_id.toString() ? '...' : 'Buy'}
-                              </Button>
-                            )}
-                          </div>
-
-                          {/* Home Projected % Return */}
-                          <div className="flex justify-center items-center">
-                            {fixture.status === 'scheduled' && (() => {
-                              const projectedReturn = calculateProjectedReturn(fixture.home_team_id, fixture.away_team_id);
-                              return projectedReturn !== null ? (
-                                <span className="text-xs text-green-400 font-medium whitespace-nowrap">
-                                  +{projectedReturn.toFixed(2)}%
-                                </span>
-                              ) : null;
-                            })()}
-                          </div>
 
-                          {/* Home Team Name */}
-                          <div className="flex items-center gap-2 justify-end overflow-hidden">
-                            <ClickableTeamName
-                              teamName={fixture.home_team?.name || 'Home Team'}
-                              teamId={fixture.home_team_id}
-                              externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
-                              userId={user?.id}
-                              variant="default"
-                              className="text-sm font-medium text-white hover:text-trading-primary transition-colors text-right truncate"
-                            />
-                          </div>
-
-                          {/* Home Team Logo */}
-                          <div className="flex justify-center">
-                            <TeamLogo 
-                              teamName={fixture.home_team?.name || 'Home Team'} 
-                              externalId={fixture.home_team?.external_id ? parseInt(fixture.home_team.external_id) : undefined}
-                              size="sm" 
-                            />
-                          </div>{/* Score/Time */}
-                          <div className="flex items-center gap-2 justify-center">
-                            {(fixture.status === 'applied' || fixture.status === 'closed') && fixture.home_score !== null && fixture.away_score !== null ? (
-                              <>
-                                <span className={`text-lg font-bold ${
-                                  fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-green-400' : 
-                                  fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-gray-400' : 'text-white'
-                                }`}>
-                                  {fixture.home_score}
-                                </span>
-                                <span className="text-gray-500 text-xs">-</span>
-                                <span className={`text-lg font-bold ${
-                                  fixture.status === 'applied' && fixture.result === 'away_win' ? 'text-green-400' : 
-                                  fixture.status === 'applied' && fixture.result === 'home_win' ? 'text-gray-400' : 'text-white'
-                                }`}>
-                                  {fixture.away_score}
-                                </span>
-                              </>
-                            ) : (
-                              <span className="text-xs text-gray-500 font-mono">
-                                {formatTime(fixture.kickoff_at)}
-                              </span>
-                            )}
-                          </div>                          {/* Away Team Logo */}
-                          <div className="flex justify-center">
-                            <TeamLogo 
-                              teamName={fixture.away_team?.name || 'Away Team'} 
-                              externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
-                              size="sm" 
-                            />
-                          </div>
-
-                          {/* Away Team Name */}
-                          <div className="flex items-center gap-2 justify-start overflow-hidden">
-                            <ClickableTeamName
-                              teamName={fixture.away_team?.name || 'Away Team'}
-                              teamId={fixture.away_team_id}
-                              externalId={fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined}
-                              userId={user?.id}
-                              variant="default"
-                              className="text-sm font-medium text-white hover:text-trading-primary transition-colors text-left truncate"
-                            />
-                          </div>                          {/* Away Projected % Return */}
-                          <div className="flex justify-center items-center">
-                            {fixture.status === 'scheduled' && (() => {
-                              const projectedReturn = calculateProjectedReturn(fixture.away_team_id, fixture.home_team_id);
-                              return projectedReturn !== null ? (
-                                <span className="text-xs text-green-400 font-medium whitespace-nowrap">
-                                  +{projectedReturn.toFixed(2)}%
-                                </span>
-                              ) : null;
-                            })()}
-                          </div>
-
-                          {/* Away Buy Button */}
-                          <div className="flex justify-center">
-                            {fixture.away_team_id && fixture.status === 'scheduled' && (
-                              <Button
-                                onClick={() => handlePurchaseClick(
-                                  fixture.away_team_id,
-                                  fixture.away_team?.name || 'Away Team',
-                                  fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined
-                                )}
-                                size="sm"
-                                disabled={isPurchasing || purchasingClubId === fixture.away_team_id.toString()}
-                                className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-2 py-1 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed h-7 touch-manipulation w-full"
-                                title="Buy shares"
-                              >
-                                {isPurchasing && purchasingClubId === fixture.away_team_id.toString() ? '...' : 'Buy'}
-                              </Button>
-                            )}
-                          </div>
+                            {/* Away Buy Button */}
+                            <div className="flex justify-center">
+                              {fixture.away_team_id && fixture.status === 'scheduled' && (
+                                <Button
+                                  onClick={() => handlePurchaseClick(
+                                    fixture.away_team_id,
+                                    fixture.away_team?.name || 'Away Team',
+                                    fixture.away_team?.external_id ? parseInt(fixture.away_team.external_id) : undefined
+                                  )}
+                                  size="sm"
+                                  disabled={isPurchasing || purchasingClubId === fixture.away_team_id.toString()}
+                                  className="bg-[#10B981] hover:bg-[#059669] text-white font-medium px-2 py-1 text-xs rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed h-7 touch-manipulation w-full"
+                                  title="Buy shares"
+                                >
+                                  {isPurchasing && purchasingClubId === fixture.away_team_id.toString() ? '...' : 'Buy'}
+                                </Button>
+                              )}
+                            </div>
 
-                          {/* Right: Close Time (Only for scheduled) */}
-                          <div className="flex justify-end">
-                            {fixture.status === 'scheduled' && fixture.buy_close_at && (
-                              <div className="text-xs text-gray-500">
-                                Closes {formatTime(fixture.buy_close_at)}
-                              </div>
-                            )}
+                            {/* Right: Close Time (Only for scheduled) */}
+                            <div className="flex justify-end">
+                              {fixture.status === 'scheduled' && fixture.buy_close_at && (
+                                <div className="text-xs text-gray-500">
+                                  Closes {formatTime(fixture.buy_close_at)}
+                                </div>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    );
-                    
-                    return (
-                      <>
-                        {/* Live matches group with red border */}
-                        {liveMatches.length > 0 && (
-                          <div className="border-2 border-red-500 bg-red-500/5">
-                            <div className="divide-y divide-gray-700/50">
-                              {liveMatches.map(renderFixture)}
+                      );
+                      
+                      return (
+                        <>
+                          {/* Live matches group with red border */}
+                          {liveMatches.length > 0 && (
+                            <div className="border-2 border-red-500 bg-red-500/5">
+                              <div className="divide-y divide-gray-700/50">
+                                {liveMatches.map(renderFixture)}
+                              </div>
                             </div>
-                          </div>
-                        )}
-                        
-                        {/* Other matches without border */}
-                        {otherMatches.length > 0 && (
-                          <div className={liveMatches.length > 0 ? "border-t border-gray-700/50" : ""}>
-                            <div className="divide-y divide-gray-700/50">
-                              {otherMatches.map(renderFixture)}
+                          )}
+                          
+                          {/* Other matches without border */}
+                          {otherMatches.length > 0 && (
+                            <div className={liveMatches.length > 0 ? "border-t border-gray-700/50" : ""}>
+                              <div className="divide-y divide-gray-700/50">
+                                {otherMatches.map(renderFixture)}
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </>
-                    );
-                  })()}
-                </CardContent>
-              </Card>
-            </div>
-          ))}
-        </div>
+                          )}
+                        </>
+                      );
+                    })()}
+                  </CardContent>
+                </Card>
+              </div>
+            ))}
+          </div>
+        )}
+        </>
       )}
 
       {/* Purchase Confirmation Modal */}
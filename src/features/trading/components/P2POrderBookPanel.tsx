@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { sanitizeInput } from '@/shared/lib/sanitization';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import {
+  p2pMarketService,
+  type DatabaseP2POrderWithTeam,
+  type P2POrderBook
+} from '@/shared/lib/services/p2p-market.service';
+import {
+  buildDepth,
+  calculatePremiumToNavPercent,
+  calculateSpread,
+  validateP2POrderInput,
+  type OrderBookSide
+} from '@/shared/lib/utils/order-book';
+import { fromCents } from '@/shared/lib/utils/decimal';
+
+interface P2POrderBookPanelProps {
+  teamId: number;
+  teamName: string;
+  userId: string;
+  /** Current NAV share price in dollars */
+  navPrice: number;
+  /** Shares the user holds that are not reserved by other orders */
+  availableQuantity: number;
+}
+
+const centsToDollars = (cents: number) => fromCents(cents).toNumber();
+
+const premiumClass = (value: number) => (value > 0 ? 'price-positive' : value < 0 ? 'price-negative' : 'text-gray-400');
+
+const P2POrderBookPanel: React.FC<P2POrderBookPanelProps> = ({
+  teamId,
+  teamName,
+  userId,
+  navPrice,
+  availableQuantity
+}) => {
+  const { walletBalance, refreshWalletBalance } = useAuth();
+  const { toast } = useToast();
+  const [book, setBook] = useState<P2POrderBook | null>(null);
+  const [myOrders, setMyOrders] = useState<DatabaseP2POrderWithTeam[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [side, setSide] = useState<OrderBookSide>('BID');
+  const [shares, setShares] = useState('');
+  const [price, setPrice] = useState('');
+
+  const loadBook = useCallback(async () => {
+    try {
+      const [nextBook, orders] = await Promise.all([
+        p2pMarketService.getOrderBook(teamId),
+        userId ? p2pMarketService.getUserOrders(userId, teamId) : Promise.resolve([])
+      ]);
+      setBook(nextBook);
+      setMyOrders(orders);
+    } catch (error) {
+      console.error('Error loading order book:', error);
+      setBook(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadBook();
+  }, [loadBook]);
+
+  useEffect(() => {
+    if (navPrice > 0) setPrice(navPrice.toFixed(2));
+  }, [navPrice]);
+
+  const numericShares = parseInt(shares) || 0;
+  const numericPrice = parseFloat(price) || 0;
+  const validation = validateP2POrderInput({
+    side,
+    quantity: numericShares,
+    price: numericPrice,
+    walletBalance: side === 'BID' ? walletBalance : undefined,
+    availableQuantity: side === 'ASK' ? availableQuantity : undefined,
+  });
+
+  const bids = buildDepth(book?.bids ?? []);
+  const asks = buildDepth(book?.asks ?? []);
+  const spread = calculateSpread(bids[0]?.priceCents, asks[0]?.priceCents);
+  const maxDepth = Math.max(bids[bids.length - 1]?.cumulativeQuantity ?? 0, asks[asks.length - 1]?.cumulativeQuantity ?? 0, 1);
+  const lastTrade = book?.lastTrade ?? null;
+
+  const handleSubmit = async () => {
+    if (submitting || !validation.valid) return;
+    setSubmitting(true);
+    try {
+      const result = await p2pMarketService.placeOrder({ userId, teamId, side, quantity: numericShares, price: numericPrice });
+      toast({
+        title: result.filled_quantity > 0 ? 'Order matched' : 'Order posted',
+        description: `${side === 'BID' ? 'Bid' : 'Ask'} for ${numericShares} ${teamName} shares at ${formatCurrency(numericPrice)}` +
+          (result.filled_quantity > 0 ? ` - ${result.filled_quantity} filled` : ''),
+      });
+      setShares('');
+      await Promise.all([loadBook(), refreshWalletBalance()]);
+      window.dispatchEvent(new CustomEvent('refreshTeamDetails'));
+    } catch (error) {
+      toast({
+        title: 'Order failed',
+        description: error instanceof Error ? error.message : 'Failed to place order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: number) => {
+    try {
+      await p2pMarketService.cancelOrder(orderId, userId);
+      await Promise.all([loadBook(), refreshWalletBalance()]);
+    } catch (error) {
+      toast({
+        title: 'Cancel failed',
+        description: error instanceof Error ? error.message : 'Failed to cancel order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'hsl(var(--muted-foreground))' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+          <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>NAV</p>
+          <p className="text-xs sm:text-sm font-semibold font-mono">{formatCurrency(navPrice)}</p>
+        </div>
+        <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+          <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Last Traded</p>
+          {lastTrade ? (
+            <p className="text-xs sm:text-sm font-semibold font-mono">
+              {formatCurrency(centsToDollars(lastTrade.price_cents))}
+              <span className={`ml-1 text-[9px] sm:text-[10px] ${premiumClass(calculatePremiumToNavPercent(lastTrade.price_cents, navPrice))}`}>
+                {calculatePremiumToNavPercent(lastTrade.price_cents, navPrice) > 0 ? '+' : ''}
+                {calculatePremiumToNavPercent(lastTrade.price_cents, navPrice).toFixed(2)}%
+              </span>
+            </p>
+          ) : (
+            <p className="text-xs sm:text-sm font-semibold text-gray-400">—</p>
+          )}
+        </div>
+        <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+          <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Spread</p>
+          <p className="text-xs sm:text-sm font-semibold font-mono">
+            {spread ? formatCurrency(centsToDollars(spread.spreadCents)) : '—'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 rounded border border-gray-800/30 p-2 sm:p-3">
+        {([['Bids', bids, 'BID'], ['Asks', asks, 'ASK']] as const).map(([label, levels, levelSide]) => (
+          <div key={label}>
+            <div className="flex justify-between text-[9px] sm:text-[10px] text-gray-400 mb-1">
+              <span>{label}</span>
+              <span>Shares</span>
+            </div>
+            {levels.length === 0 ? (
+              <p className="text-[10px] sm:text-xs text-gray-500 py-2">No {label.toLowerCase()}</p>
+            ) : (
+              levels.map(level => (
+                <div key={level.priceCents} className="relative flex justify-between text-[11px] sm:text-xs font-mono py-0.5">
+                  <div
+                    className={`absolute inset-y-0 ${levelSide === 'BID' ? 'right-0 bg-green-500/10' : 'left-0 bg-red-500/10'}`}
+                    style={{ width: `${(level.cumulativeQuantity / maxDepth) * 100}%` }}
+                  />
+                  <span className={`relative ${levelSide === 'BID' ? 'price-positive' : 'price-negative'}`}>
+                    {formatCurrency(centsToDollars(level.priceCents))}
+                  </span>
+                  <span className="relative text-white">{level.quantity}</span>
+                </div>
+              ))
+            )}
+          </div>
+        ))}
+      </div>
+
+      {userId && (
+        <div className="rounded border border-gray-800/30 p-2 sm:p-3 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(['BID', 'ASK'] as OrderBookSide[]).map(option => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setSide(option)}
+                disabled={option === 'ASK' && availableQuantity <= 0}
+                className={`font-semibold border-gray-600 ${
+                  side === option
+                    ? option === 'BID' ? 'bg-green-600 hover:bg-green-600 text-white' : 'bg-red-600 hover:bg-red-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {option === 'BID' ? 'Bid' : 'Ask'}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              type="number"
+              min="1"
+              value={shares}
+              onChange={(e) => setShares(sanitizeInput(e.target.value, 'number'))}
+              className="bg-gray-700 border-gray-600 text-white h-8 text-xs"
+              placeholder="Shares"
+            />
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              className="bg-gray-700 border-gray-600 text-white h-8 text-xs"
+              placeholder="Price ($)"
+            />
+            <Button size="sm" onClick={handleSubmit} disabled={submitting || !validation.valid}>
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Post'}
+            </Button>
+          </div>
+          {(numericShares > 0 || price !== '') && !validation.valid && (
+            <p className="text-[10px] sm:text-xs text-red-400">{validation.errors[0]}</p>
+          )}
+          <p className="text-[10px] text-gray-500">
+            {side === 'BID'
+              ? `Reserves ${formatCurrency(numericShares * numericPrice)} until filled or cancelled.`
+              : `${availableQuantity} shares available to offer.`}
+            {' '}Trades with other users only; NAV is unaffected.
+          </p>
+        </div>
+      )}
+
+      {myOrders.length > 0 && (
+        <div className="rounded border border-gray-800/30 p-2 sm:p-3">
+          <p className="text-[10px] sm:text-xs text-gray-400 mb-1">Your open orders</p>
+          {myOrders.map(order => (
+            <div key={order.id} className="flex items-center justify-between text-[11px] sm:text-xs font-mono py-0.5">
+              <span className={order.side === 'BID' ? 'price-positive' : 'price-negative'}>{order.side}</span>
+              <span className="text-white">
+                {order.quantity - order.filled_quantity}/{order.quantity} @ {formatCurrency(centsToDollars(order.price_cents))}
+              </span>
+              <button
+                onClick={() => handleCancel(order.id)}
+                className="text-gray-400 hover:text-red-400 transition-colors"
+                aria-label="Cancel order"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default P2POrderBookPanel;
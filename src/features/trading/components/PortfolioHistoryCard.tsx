@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { LineChart, type ChartDataPoint } from '@/shared/components/ui/line-chart';
+import { formatCurrency, formatPercent } from '@/shared/lib/formatters';
+import {
+  portfolioHistoryService,
+  type EquityCurveGranularity,
+  type PortfolioHistory
+} from '@/shared/lib/services/portfolio-history.service';
+
+interface PortfolioHistoryCardProps {
+  userId: string;
+}
+
+const MAX_CHART_POINTS = 60;
+
+const percentLabel = (value: number | null) => (value == null ? '—' : formatPercent(value * 100));
+
+const PortfolioHistoryCard: React.FC<PortfolioHistoryCardProps> = ({ userId }) => {
+  const [granularity, setGranularity] = useState<EquityCurveGranularity>('daily');
+  const [history, setHistory] = useState<PortfolioHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setHistory(await portfolioHistoryService.getPortfolioHistory(userId, granularity));
+    } catch (error) {
+      console.error('Failed to load portfolio history:', error);
+      setHistory(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, granularity]);
+
+  useEffect(() => {
+    loadHistory();
+    window.addEventListener('wallet-balance-changed', loadHistory);
+    return () => window.removeEventListener('wallet-balance-changed', loadHistory);
+  }, [loadHistory]);
+
+  const curve = history?.curve.slice(-MAX_CHART_POINTS) || [];
+  const chartData: ChartDataPoint[] = curve.map((point, index) => ({
+    x: index,
+    y: point.accountValue,
+    label: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    date: new Date(point.date).toLocaleDateString()
+  }));
+
+  const metrics = history?.metrics;
+  const stats = [
+    { label: 'Time-weighted return', value: percentLabel(metrics?.timeWeightedReturn ?? null), signed: metrics?.timeWeightedReturn },
+    { label: 'Money-weighted (IRR, annualised)', value: percentLabel(metrics?.moneyWeightedReturn ?? null), signed: metrics?.moneyWeightedReturn },
+    { label: 'Max drawdown', value: percentLabel(metrics ? -metrics.maxDrawdown : null), signed: metrics ? -metrics.maxDrawdown : null },
+    { label: `Volatility (per ${granularity === 'daily' ? 'day' : 'matchday'})`, value: percentLabel(metrics?.volatility ?? null), signed: null }
+  ];
+
+  return (
+    <Card className="trading-card border-0">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold">Account Value History</CardTitle>
+          <div className="flex gap-2">
+            {(['daily', 'matchday'] as const).map(option => (
+              <Button
+                key={option}
+                variant={granularity === option ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setGranularity(option)}
+              >
+                {option === 'daily' ? 'Daily' : 'Matchday'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !history ? (
+          <div className="text-center py-8 text-gray-400">Loading history...</div>
+        ) : chartData.length < 2 ? (
+          <div className="text-center py-8 text-gray-400">Not enough history yet</div>
+        ) : (
+          <>
+            <div className="rounded border border-gray-800/30 p-2 sm:p-4 bg-secondary/10">
+              <div className="w-full overflow-x-auto">
+                <LineChart
+                  data={chartData}
+                  width={800}
+                  height={250}
+                  color="#10b981"
+                  showGrid={chartData.length <= 20}
+                  showAxes={true}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {stats.map(stat => (
+                <div key={stat.label} className="bg-gradient-card p-3 rounded-lg border border-trading-primary/20">
+                  <p className="text-xs text-gray-400">{stat.label}</p>
+                  <p className={`text-lg font-semibold font-mono ${
+                    stat.signed == null ? '' : stat.signed > 0 ? 'price-positive' : stat.signed < 0 ? 'price-negative' : ''
+                  }`}>
+                    {stat.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              Current account value {formatCurrency(curve[curve.length - 1].accountValue)}. Deposits are excluded from
+              time-weighted return and drawdown.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioHistoryCard;
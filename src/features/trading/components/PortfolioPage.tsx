@@ -4,6 +4,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui
 import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
 import TransactionHistoryModal from './TransactionHistoryModal';
 import { SellConfirmationModal } from './SellConfirmationModal';
+import { LimitOrderModal } from './LimitOrderModal';
+import LimitOrdersCard from './LimitOrdersCard';
+import { PositionTriggerModal } from './PositionTriggerModal';
+import PositionTriggersCard from './PositionTriggersCard';
+import PortfolioHistoryCard from './PortfolioHistoryCard';
+import PortfolioRiskCard from './PortfolioRiskCard';
+import DividendPayoutsCard from './DividendPayoutsCard';
+import AccountStatementExport from '@/shared/components/AccountStatementExport';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
 import { realtimeService } from '@/shared/lib/services/realtime.service';
 import { useToast } from '@/shared/hooks/use-toast';
@@ -18,10 +26,21 @@ import ClickableTeamName from '@/shared/components/ClickableTeamName';
 import { supabase } from '@/shared/lib/supabase';
 import { calculatePriceImpactPercent } from '@/shared/lib/utils/calculations';
 import { buyWindowService } from '@/shared/lib/buy-window.service';
-import { fixturesService } from '@/shared/lib/database';
+import ProjectedPriceBadge from '@/shared/components/ProjectedPriceBadge';
+import { useLiveProjections } from '@/shared/hooks/useLiveProjections';
+import { calculateProjectedPortfolioValue } from '@/shared/lib/utils/live-projections';
+import { fixturesService, ordersService } from '@/shared/lib/database';
+import type { DatabaseOrderWithTeam } from '@/shared/lib/services/orders.service';
+import {
+  positionTriggersService,
+  type ArmedPositionTrigger,
+  type DatabasePositionTriggerEvent
+} from '@/shared/lib/services/position-triggers.service';
+import type { LimitOrderSide } from '@/shared/lib/utils/limit-orders';
 
 const PortfolioPage: React.FC = () => {
-  const { portfolio, getTransactionsByClub, sellClub, clubs } = useContext(AppContext);
+  const { portfolio, getTransactionsByClub, sellClub, placeLimitOrder, cancelLimitOrder, clubs } = useContext(AppContext);
+  const { projections } = useLiveProjections();
   const [matchdayChanges, setMatchdayChanges] = useState<Map<string, number>>(new Map());
   const [currentMarketCaps, setCurrentMarketCaps] = useState<Map<string, Decimal>>(new Map()); // Full-precision market caps in Decimal
   const [tradingWindowStatus, setTradingWindowStatus] = useState<Map<string, boolean>>(new Map()); // Track if trading window is open for each team
@@ -34,6 +53,28 @@ const PortfolioPage: React.FC = () => {
     currentQuantity: number;
   } | null>(null);
   const [isSelling, setIsSelling] = useState(false);
+  const [limitOrders, setLimitOrders] = useState<DatabaseOrderWithTeam[]>([]);
+  const [limitModalData, setLimitModalData] = useState<{
+    clubId: string;
+    clubName: string;
+    externalId?: number;
+    pricePerShare: number;
+    availableQuantity: number;
+  } | null>(null);
+  const [isPlacingLimit, setIsPlacingLimit] = useState(false);
+  const [cancellingLimitId, setCancellingLimitId] = useState<number | null>(null);
+  const [armedTriggers, setArmedTriggers] = useState<ArmedPositionTrigger[]>([]);
+  const [triggerHistory, setTriggerHistory] = useState<DatabasePositionTriggerEvent[]>([]);
+  const [triggerModalData, setTriggerModalData] = useState<{
+    clubId: string;
+    clubName: string;
+    externalId?: number;
+    pricePerShare: number;
+    quantity: number;
+    stopLoss: number | null;
+    takeProfit: number | null;
+  } | null>(null);
+  const [isSavingTriggers, setIsSavingTriggers] = useState(false);
   const { user, profile } = useAuth();
   const { toast } = useToast();
 
@@ -260,6 +301,18 @@ const PortfolioPage: React.FC = () => {
     };
   }, [portfolio]);
 
+  // Portfolio value if every match in progress ended with its current score
+  const projectedPortfolio = useMemo(() => calculateProjectedPortfolioValue(
+    portfolio.map(item => ({ teamId: parseInt(item.clubId), units: item.units, currentPrice: item.currentPrice })),
+    projections
+  ), [portfolio, projections]);
+
+  // Current share price per team, for tax-lot unrealized P&L
+  const currentPrices = useMemo(
+    () => new Map(portfolio.map(item => [parseInt(item.clubId), item.currentPrice])),
+    [portfolio]
+  );
+
   const handleClubClick = useCallback((clubId: string, clubName: string) => {
     const club = clubs.find(c => c.id === clubId);
     setSelectedClub({ 
@@ -288,6 +341,135 @@ const PortfolioPage: React.FC = () => {
     });
   }, [clubs]);
 
+  // Load open limit orders plus the most recent closed ones
+  const loadLimitOrders = useCallback(async () => {
+    if (!user) return;
+    try {
+      const orders = await ordersService.getUserLimitOrders(user.id, ['PENDING', 'TRIGGERED', 'CANCELLED', 'EXPIRED']);
+      const open = orders.filter(o => o.status === 'PENDING');
+      const recent = orders.filter(o => o.status !== 'PENDING').slice(0, 10);
+      setLimitOrders([...open, ...recent]);
+    } catch (error) {
+      console.error('Error loading limit orders:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadLimitOrders();
+    window.addEventListener('limit-orders-changed', loadLimitOrders);
+    return () => window.removeEventListener('limit-orders-changed', loadLimitOrders);
+  }, [loadLimitOrders, portfolio]);
+
+  const handleLimitClick = useCallback((e: React.MouseEvent, item: typeof portfolio[0]) => {
+    e.stopPropagation();
+
+    const club = clubs.find(c => c.id === item.clubId);
+    const reservedShares = limitOrders
+      .filter(o => o.status === 'PENDING' && o.order_type === 'SELL' && o.team_id.toString() === item.clubId)
+      .reduce((sum, o) => sum + o.quantity, 0);
+
+    setLimitModalData({
+      clubId: item.clubId,
+      clubName: item.clubName,
+      externalId: club?.externalId ? parseInt(club.externalId) : undefined,
+      pricePerShare: item.currentPrice,
+      availableQuantity: Math.max(0, item.units - reservedShares)
+    });
+  }, [clubs, limitOrders]);
+
+  const handleConfirmLimit = useCallback(async (side: LimitOrderSide, shares: number, limitPrice: number, expiresAt: string | null) => {
+    if (!limitModalData) return;
+
+    setIsPlacingLimit(true);
+    try {
+      await placeLimitOrder(limitModalData.clubId, side, shares, limitPrice, expiresAt);
+      setLimitModalData(null);
+    } catch (error) {
+      toast({
+        title: "Limit Order Failed",
+        description: error instanceof Error ? error.message : "An error occurred while placing the limit order",
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setIsPlacingLimit(false);
+    }
+  }, [limitModalData, placeLimitOrder, toast]);
+
+  const handleCancelLimit = useCallback(async (orderId: number) => {
+    setCancellingLimitId(orderId);
+    try {
+      await cancelLimitOrder(orderId);
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Could not cancel the limit order",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingLimitId(null);
+    }
+  }, [cancelLimitOrder, toast]);
+
+  // Load armed stop-loss/take-profit triggers and their history
+  const loadPositionTriggers = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [armed, history] = await Promise.all([
+        positionTriggersService.getArmedTriggers(user.id),
+        positionTriggersService.getTriggerHistory(user.id)
+      ]);
+      setArmedTriggers(armed);
+      setTriggerHistory(history);
+    } catch (error) {
+      console.error('Error loading position triggers:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadPositionTriggers();
+  }, [loadPositionTriggers, portfolio]);
+
+  const handleTriggerClick = useCallback((e: React.MouseEvent, item: typeof portfolio[0]) => {
+    e.stopPropagation();
+
+    const club = clubs.find(c => c.id === item.clubId);
+    const armed = armedTriggers.find(t => t.team_id.toString() === item.clubId);
+
+    setTriggerModalData({
+      clubId: item.clubId,
+      clubName: item.clubName,
+      externalId: club?.externalId ? parseInt(club.externalId) : undefined,
+      pricePerShare: item.currentPrice,
+      quantity: item.units,
+      stopLoss: armed?.stop_loss_price != null ? fromCents(armed.stop_loss_price).toNumber() : null,
+      takeProfit: armed?.take_profit_price != null ? fromCents(armed.take_profit_price).toNumber() : null
+    });
+  }, [clubs, armedTriggers]);
+
+  const handleConfirmTriggers = useCallback(async (stopLossPrice: number | null, takeProfitPrice: number | null) => {
+    if (!triggerModalData || !user) return;
+
+    setIsSavingTriggers(true);
+    try {
+      await positionTriggersService.setTriggers(user.id, parseInt(triggerModalData.clubId), stopLossPrice, takeProfitPrice);
+      await loadPositionTriggers();
+      toast({
+        title: stopLossPrice === null && takeProfitPrice === null ? "Triggers Cleared" : "Triggers Armed",
+        description: `${triggerModalData.clubName}: stop-loss ${stopLossPrice != null ? formatCurrency(stopLossPrice) : 'off'}, take-profit ${takeProfitPrice != null ? formatCurrency(takeProfitPrice) : 'off'}.`,
+      });
+      setTriggerModalData(null);
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not update triggers",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTriggers(false);
+    }
+  }, [triggerModalData, user, loadPositionTriggers, toast]);
+
   const handleCloseSellModal = useCallback(() => {
     setSellModalData(null);
   }, []);
@@ -407,7 +589,14 @@ const PortfolioPage: React.FC = () => {
         </td>
         <td className="px-3 text-right font-mono">{formatNumber(item.units)}</td>
         <td className="px-3 text-right font-mono">{formatCurrency(avgPrice)}</td>
-        <td className="px-3 text-right font-mono">{formatCurrency(currentPrice)}</td>
+        <td className="px-3 text-right font-mono">
+          {formatCurrency(currentPrice)}
+          {projections.has(parseInt(item.clubId)) && (
+            <div className="font-sans mt-0.5">
+              <ProjectedPriceBadge projection={projections.get(parseInt(item.clubId))!} />
+            </div>
+          )}
+        </td>
         <td className={`px-3 text-right font-semibold ${percentChange === 0 ? 'text-gray-400' : percentChange > 0 ? 'price-positive' : 'price-negative'}`}>
           {percentChange > 0 ? '+' : ''}{percentChange.toFixed(2)}%
         </td>
@@ -416,25 +605,49 @@ const PortfolioPage: React.FC = () => {
         {pnlCell(realizedPnl)}
         {pnlCell(profitLoss)}
         <td className="px-3 text-center" onClick={(e) => e.stopPropagation()}>
-          {tradingWindowStatus.get(item.clubId) === false ? (
-            <div className="text-[10px] text-gray-500 text-center">
-              Trading<br/>Closed
-            </div>
-          ) : (
+          <div className="flex items-center justify-center gap-1">
+            {tradingWindowStatus.get(item.clubId) === false ? (
+              <div className="text-[10px] text-gray-500 text-center">
+                Trading<br/>Closed
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-gradient-danger hover:bg-gradient-danger/80 text-white border-danger hover:border-danger/80 font-semibold"
+                onClick={(e) => handleSellClick(e, item)}
+              >
+                Sell
+              </Button>
+            )}
             <Button
               size="sm"
               variant="outline"
-              className="bg-gradient-danger hover:bg-gradient-danger/80 text-white border-danger hover:border-danger/80 font-semibold"
-              onClick={(e) => handleSellClick(e, item)}
+              className="bg-gray-700 hover:bg-gray-600 text-white border-gray-600 font-semibold"
+              onClick={(e) => handleLimitClick(e, item)}
+              title="Place a limit order"
             >
-              Sell
+              Limit
             </Button>
-          )}
+            <Button
+              size="sm"
+              variant="outline"
+              className={`border-gray-600 font-semibold text-white ${
+                armedTriggers.some(t => t.team_id.toString() === item.clubId)
+                  ? 'bg-trading-primary/40 hover:bg-trading-primary/60'
+                  : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              onClick={(e) => handleTriggerClick(e, item)}
+              title="Set stop-loss / take-profit"
+            >
+              SL/TP
+            </Button>
+          </div>
         </td>
       </tr>
     );
     });
-  }, [portfolio, clubs, totalMarketValue, handleClubClick, handleSellClick, getTransactionsByClub, matchdayChanges, currentMarketCaps, tradingWindowStatus]);
+  }, [portfolio, clubs, totalMarketValue, handleClubClick, handleSellClick, handleLimitClick, handleTriggerClick, armedTriggers, getTransactionsByClub, matchdayChanges, currentMarketCaps, tradingWindowStatus, projections]);
 
   // Realtime portfolio updates
   useEffect(() => {
@@ -590,6 +803,26 @@ const PortfolioPage: React.FC = () => {
         </Card>
       </div>
 
+      {/* Live projection - only while a held club is playing */}
+      {projectedPortfolio.liveHoldings > 0 && (
+        <Card className="trading-card border-yellow-500/40">
+          <CardContent className="p-3 sm:p-4 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></span>
+              <span className="text-sm text-gray-300">
+                Projected value if current scores hold ({projectedPortfolio.liveHoldings} {projectedPortfolio.liveHoldings === 1 ? 'club' : 'clubs'} playing)
+              </span>
+            </div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-lg font-bold text-white">{formatCurrency(projectedPortfolio.projectedValue)}</span>
+              <span className={`text-sm font-medium ${projectedPortfolio.change > 0 ? 'price-positive' : projectedPortfolio.change < 0 ? 'price-negative' : 'text-gray-400'}`}>
+                {projectedPortfolio.change > 0 ? '+' : ''}{formatCurrency(projectedPortfolio.change)}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Holdings Table */}
       <Card className="trading-card md:rounded-lg">
         <CardHeader className="hidden md:block">
@@ -757,6 +990,11 @@ const PortfolioPage: React.FC = () => {
                           {/* Current Price */}
                           <div className="text-center font-mono font-semibold text-[11px] text-white flex-shrink-0 whitespace-nowrap">
                             {formatCurrency(item.currentPrice)}
+                            {projections.has(parseInt(item.clubId)) && (
+                              <div className="font-sans">
+                                <ProjectedPriceBadge projection={projections.get(parseInt(item.clubId))!} compact />
+                              </div>
+                            )}
                           </div>
                           
                           {/* % Change */}
@@ -797,6 +1035,44 @@ const PortfolioPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {user && <PortfolioHistoryCard userId={user.id} />}
+
+      {user && <DividendPayoutsCard userId={user.id} />}
+
+      {user && (
+        <Card className="trading-card border-0">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg font-semibold">Account Statements</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-400">
+              Monthly statement with opening and closing wallet balance, deposits, trades, match-driven value changes and closing holdings.
+            </p>
+            <AccountStatementExport userId={user.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && portfolio.length > 0 && (
+        <PortfolioRiskCard
+          userId={user.id}
+          holdingsKey={portfolio.map(item => `${item.clubId}:${item.units}`).join(',')}
+        />
+      )}
+
+      <LimitOrdersCard
+        orders={limitOrders}
+        clubs={clubs}
+        onCancel={handleCancelLimit}
+        cancellingId={cancellingLimitId}
+      />
+
+      <PositionTriggersCard
+        armed={armedTriggers}
+        history={triggerHistory}
+        clubs={clubs}
+      />
+
       {selectedClub && (() => {
         const portfolioItem = portfolio.find(p => p.clubId === selectedClub.id);
         return (
@@ -808,6 +1084,7 @@ const PortfolioPage: React.FC = () => {
             externalId={selectedClub.externalId}
             transactions={getTransactionsByClub(selectedClub.id)}
             averagePrice={portfolioItem?.purchasePrice}
+            currentPrices={currentPrices}
           />
         );
       })()}
@@ -825,6 +1102,35 @@ const PortfolioPage: React.FC = () => {
           isProcessing={isSelling}
         />
       )}
+
+      {limitModalData && (
+        <LimitOrderModal
+          isOpen={!!limitModalData}
+          onClose={() => setLimitModalData(null)}
+          onConfirm={handleConfirmLimit}
+          clubName={limitModalData.clubName}
+          externalId={limitModalData.externalId}
+          pricePerShare={limitModalData.pricePerShare}
+          availableQuantity={limitModalData.availableQuantity}
+          defaultSide="SELL"
+          isProcessing={isPlacingLimit}
+        />
+      )}
+
+      {triggerModalData && (
+        <PositionTriggerModal
+          isOpen={!!triggerModalData}
+          onClose={() => setTriggerModalData(null)}
+          onConfirm={handleConfirmTriggers}
+          clubName={triggerModalData.clubName}
+          externalId={triggerModalData.externalId}
+          pricePerShare={triggerModalData.pricePerShare}
+          quantity={triggerModalData.quantity}
+          currentStopLoss={triggerModalData.stopLoss}
+          currentTakeProfit={triggerModalData.takeProfit}
+          isProcessing={isSavingTriggers}
+        />
+      )}
     </div>
   );
 };
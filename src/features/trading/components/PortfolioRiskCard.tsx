@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { portfolioRiskService } from '@/shared/lib/services/portfolio-risk.service';
+import type { MatchdayRisk } from '@/shared/lib/utils/portfolio-risk';
+import { MATCH_OUTCOMES } from '@/shared/lib/utils/match-outcomes';
+import type { MatchOutcome } from '@/shared/lib/utils/transfer-rules';
+import { Scale } from 'lucide-react';
+
+interface PortfolioRiskCardProps {
+  userId: string;
+  /** Reload when holdings change */
+  holdingsKey: string;
+}
+
+const OUTCOME_LABELS: Record<MatchOutcome, string> = {
+  home_win: 'Home win',
+  draw: 'Draw',
+  away_win: 'Away win',
+};
+
+const pnlClass = (value: number) => (value > 0 ? 'price-positive' : value < 0 ? 'price-negative' : 'text-gray-400');
+
+const signedCurrency = (value: number) => `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+
+const PortfolioRiskCard: React.FC<PortfolioRiskCardProps> = ({ userId, holdingsKey }) => {
+  const [matchdays, setMatchdays] = useState<MatchdayRisk[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadRisk = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMatchdays(await portfolioRiskService.getPortfolioRisk(userId));
+    } catch (error) {
+      console.error('Failed to load portfolio risk:', error);
+      setMatchdays([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadRisk();
+  }, [loadRisk, holdingsKey]);
+
+  if (!loading && matchdays.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="trading-card border-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Scale className="w-5 h-5 text-trading-primary" />
+          Fixture Exposure
+        </CardTitle>
+        <p className="text-xs text-gray-400">
+          P&L per outcome at current prices with a one-goal margin. Probabilities use the market-cap model.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && matchdays.length === 0 ? (
+          <div className="text-center py-8 text-gray-400">Calculating exposure...</div>
+        ) : (
+          matchdays.map(matchday => (
+            <div key={matchday.key} className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-sm font-semibold text-white">{matchday.label}</h3>
+                  {matchday.offsettingFixtures > 0 && (
+                    <Badge variant="outline" className="text-yellow-400 border-yellow-400/50 text-[10px]">
+                      {matchday.offsettingFixtures} offsetting
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex gap-4 text-xs">
+                  <span className="text-gray-400">Worst <span className={pnlClass(matchday.worstPnl)}>{signedCurrency(matchday.worstPnl)}</span></span>
+                  <span className="text-gray-400">Expected <span className={pnlClass(matchday.expectedPnl)}>{signedCurrency(matchday.expectedPnl)}</span></span>
+                  <span className="text-gray-400">Best <span className={pnlClass(matchday.bestPnl)}>{signedCurrency(matchday.bestPnl)}</span></span>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-700/50">
+                      <th className="text-left py-2 pr-3 font-medium">Fixture</th>
+                      {MATCH_OUTCOMES.map(outcome => (
+                        <th key={outcome} className="text-right py-2 px-2 font-medium whitespace-nowrap">{OUTCOME_LABELS[outcome]}</th>
+                      ))}
+                      <th className="text-right py-2 pl-2 font-medium">Expected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matchday.scenarios.map(scenario => (
+                      <tr key={scenario.fixtureId} className="border-b border-gray-700/30 last:border-b-0">
+                        <td className="py-2 pr-3">
+                          <div className="text-white whitespace-nowrap">
+                            {scenario.homeTeam.name} v {scenario.awayTeam.name}
+                          </div>
+                          <div className="text-[10px] text-gray-500">
+                            {scenario.homeUnits > 0 && `${scenario.homeUnits} ${scenario.homeTeam.name}`}
+                            {scenario.homeUnits > 0 && scenario.awayUnits > 0 && ' · '}
+                            {scenario.awayUnits > 0 && `${scenario.awayUnits} ${scenario.awayTeam.name}`}
+                          </div>
+                          {scenario.offsetting && (
+                            <div className="text-[10px] text-yellow-400">
+                              Offsetting: max move {formatCurrency(scenario.netExposure)} instead of {formatCurrency(scenario.grossExposure)}
+                            </div>
+                          )}
+                        </td>
+                        {MATCH_OUTCOMES.map(outcome => (
+                          <td key={outcome} className="text-right py-2 px-2 font-mono whitespace-nowrap">
+                            <div className={pnlClass(scenario.pnl[outcome])}>{signedCurrency(scenario.pnl[outcome])}</div>
+                            <div className="text-[10px] text-gray-500">{Math.round(scenario.probabilities[outcome] * 100)}%</div>
+                          </td>
+                        ))}
+                        <td className={`text-right py-2 pl-2 font-mono whitespace-nowrap ${pnlClass(scenario.expectedPnl)}`}>
+                          {signedCurrency(scenario.expectedPnl)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioRiskCard;
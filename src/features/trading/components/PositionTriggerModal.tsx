@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { formatCurrency } from '@/shared/lib/formatters';
+import TeamLogo from '@/shared/components/TeamLogo';
+import { validatePositionTriggers, calculateTriggerDistancePercent } from '@/shared/lib/utils/position-triggers';
+
+interface PositionTriggerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (stopLossPrice: number | null, takeProfitPrice: number | null) => void;
+  clubName: string;
+  externalId?: number;
+  pricePerShare: number;
+  quantity: number;
+  currentStopLoss?: number | null; // dollars
+  currentTakeProfit?: number | null; // dollars
+  isProcessing?: boolean;
+}
+
+const parsePrice = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+export const PositionTriggerModal: React.FC<PositionTriggerModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  clubName,
+  externalId,
+  pricePerShare,
+  quantity,
+  currentStopLoss,
+  currentTakeProfit,
+  isProcessing = false
+}) => {
+  const [stopLoss, setStopLoss] = useState<string>('');
+  const [takeProfit, setTakeProfit] = useState<string>('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setStopLoss(currentStopLoss != null ? currentStopLoss.toFixed(2) : '');
+      setTakeProfit(currentTakeProfit != null ? currentTakeProfit.toFixed(2) : '');
+    }
+  }, [isOpen, currentStopLoss, currentTakeProfit]);
+
+  const stopLossPrice = parsePrice(stopLoss);
+  const takeProfitPrice = parsePrice(takeProfit);
+  const validation = validatePositionTriggers({ stopLossPrice, takeProfitPrice }, pricePerShare);
+  const hasChanges = stopLossPrice !== (currentStopLoss ?? null) || takeProfitPrice !== (currentTakeProfit ?? null);
+
+  const handleConfirm = () => {
+    if (isProcessing || !validation.valid) return;
+    onConfirm(stopLossPrice, takeProfitPrice);
+  };
+
+  const distanceLabel = (price: number | null) =>
+    price && price > 0 ? `${calculateTriggerDistancePercent(price, pricePerShare).toFixed(2)}%` : '—';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-gray-800/95 backdrop-blur-md border border-trading-primary/30 text-white max-w-md rounded-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-center gradient-text">
+            Stop-Loss / Take-Profit
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div className="text-center space-y-3">
+            <div className="flex justify-center">
+              <div className="team-logo-container">
+                <TeamLogo teamName={clubName} externalId={externalId} size="lg" className="mx-auto" />
+              </div>
+            </div>
+            <h3 className="text-lg font-semibold text-trading-primary">{clubName}</h3>
+            <p className="text-xs text-gray-400">
+              {quantity} share(s) at {formatCurrency(pricePerShare)}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="stop-loss" className="text-gray-300">Stop-loss ($)</Label>
+              <Input
+                id="stop-loss"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={stopLoss}
+                onChange={(e) => setStopLoss(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+                placeholder="Not set"
+              />
+              <p className="text-xs text-gray-400">Move: {distanceLabel(stopLossPrice)}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="take-profit" className="text-gray-300">Take-profit ($)</Label>
+              <Input
+                id="take-profit"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={takeProfit}
+                onChange={(e) => setTakeProfit(e.target.value)}
+                className="bg-gray-700 border-gray-600 text-white"
+                placeholder="Not set"
+              />
+              <p className="text-xs text-gray-400">Move: {distanceLabel(takeProfitPrice)}</p>
+            </div>
+          </div>
+
+          <div className="bg-gradient-card p-4 rounded-lg border border-trading-primary/20 text-xs text-gray-400 space-y-1">
+            <p>Triggers are checked after each match result is applied.</p>
+            <p>
+              When one fires, your unreserved shares are sold at the market price the next time
+              the trading window is open. The trigger is then cleared.
+            </p>
+          </div>
+
+          {!validation.valid && (
+            <p className="text-red-400 text-sm">{validation.errors[0]}</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button
+            onClick={onClose}
+            variant="outline"
+            className="flex-1 bg-gray-700 hover:bg-gray-600 text-white border-gray-600 hover:border-gray-500 font-semibold"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!validation.valid || !hasChanges || isProcessing}
+            className="flex-1 bg-gradient-success hover:bg-gradient-success/80 disabled:bg-gray-600 text-white font-semibold"
+          >
+            {isProcessing ? 'Saving...' : stopLossPrice === null && takeProfitPrice === null ? 'Clear Triggers' : 'Save Triggers'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { calculateTriggerDistancePercent } from '@/shared/lib/utils/position-triggers';
+import type { ArmedPositionTrigger, DatabasePositionTriggerEvent } from '@/shared/lib/services/position-triggers.service';
+import type { Club } from '@/shared/constants/clubs';
+
+interface PositionTriggersCardProps {
+  armed: ArmedPositionTrigger[];
+  history: DatabasePositionTriggerEvent[];
+  clubs: Club[];
+}
+
+const EVENT_STYLES: Record<string, string> = {
+  queued: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  executed: 'bg-green-500/20 text-green-300 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-300 border-red-500/30',
+  cancelled: 'bg-gray-500/20 text-gray-300 border-gray-500/30',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+};
+
+const centsLabel = (cents: number | null | undefined) =>
+  cents != null ? formatCurrency(fromCents(cents).toNumber()) : '—';
+
+const PositionTriggersCard: React.FC<PositionTriggersCardProps> = ({ armed, history, clubs }) => {
+  if (armed.length === 0 && history.length === 0) return null;
+
+  return (
+    <Card className="trading-card border-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <span>Stop-Loss / Take-Profit</span>
+          <span className="text-xs text-gray-400 font-normal">{armed.length} armed</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0 space-y-4">
+        {armed.length > 0 && (
+          <div className="overflow-x-auto w-full">
+            <table className="trading-table w-full">
+              <thead>
+                <tr>
+                  <th className="text-left px-3">Club</th>
+                  <th className="text-right px-3">Units</th>
+                  <th className="text-right px-3">Current</th>
+                  <th className="text-right px-3">Stop-loss</th>
+                  <th className="text-right px-3">Take-profit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {armed.map(trigger => {
+                  const currentPrice = clubs.find(c => c.id === trigger.team_id.toString())?.currentValue || 0;
+                  const distance = (cents: number | null) =>
+                    cents != null && currentPrice > 0
+                      ? ` (${calculateTriggerDistancePercent(fromCents(cents), currentPrice).toFixed(2)}%)`
+                      : '';
+
+                  return (
+                    <tr key={trigger.position_id}>
+                      <td className="px-3 font-medium">{trigger.team_name}</td>
+                      <td className="px-3 text-right font-mono">{formatNumber(trigger.quantity)}</td>
+                      <td className="px-3 text-right font-mono">{currentPrice > 0 ? formatCurrency(currentPrice) : '—'}</td>
+                      <td className="px-3 text-right font-mono price-negative">
+                        {centsLabel(trigger.stop_loss_price)}
+                        <span className="text-xs text-gray-400">{distance(trigger.stop_loss_price)}</span>
+                      </td>
+                      <td className="px-3 text-right font-mono price-positive">
+                        {centsLabel(trigger.take_profit_price)}
+                        <span className="text-xs text-gray-400">{distance(trigger.take_profit_price)}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="overflow-x-auto w-full">
+            <div className="px-3 pb-2 text-sm font-semibold text-gray-300">Trigger History</div>
+            <table className="trading-table w-full">
+              <thead>
+                <tr>
+                  <th className="text-left px-3">Triggered</th>
+                  <th className="text-left px-3">Club</th>
+                  <th className="text-left px-3">Type</th>
+                  <th className="text-right px-3">Trigger</th>
+                  <th className="text-right px-3">Price at Trigger</th>
+                  <th className="text-right px-3">Sold</th>
+                  <th className="text-center px-3">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(event => (
+                  <tr key={event.id}>
+                    <td className="px-3 text-xs text-gray-400">{new Date(event.triggered_at).toLocaleString()}</td>
+                    <td className="px-3 font-medium">{event.team?.name || `Team ${event.team_id}`}</td>
+                    <td className="px-3">{TYPE_LABELS[event.trigger_type]}</td>
+                    <td className="px-3 text-right font-mono">{centsLabel(event.trigger_price)}</td>
+                    <td className="px-3 text-right font-mono">{centsLabel(event.nav_at_trigger)}</td>
+                    <td className="px-3 text-right font-mono">
+                      {event.status === 'executed'
+                        ? `${formatNumber(event.quantity || 0)} @ ${centsLabel(event.executed_price)}`
+                        : '—'}
+                    </td>
+                    <td className="px-3 text-center">
+                      <Badge variant="outline" className={EVENT_STYLES[event.status] || ''} title={event.error || undefined}>
+                        {event.status === 'queued' ? 'Awaiting window' : event.status}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PositionTriggersCard;
@@ -11,6 +11,7 @@ import { sanitizeInput } from '@/shared/lib/sanitization';
 import BuyWindowIndicator from '@/shared/components/BuyWindowIndicator';
 import { buyWindowService } from '@/shared/lib/buy-window.service';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { useTradeFeeQuote } from '@/shared/hooks/useTradeFeeQuote';
 import { DepositModal } from './DepositModal';
 
 interface PurchaseConfirmationModalProps {
@@ -123,7 +124,10 @@ export const PurchaseConfirmationModal: React.FC<PurchaseConfirmationModalProps>
   };
 
   const numericShares = parseInt(shares) || 0;
-  const totalValue = numericShares * pricePerShare;
+  const tradeValue = numericShares * pricePerShare;
+  const { quote: feeQuote } = useTradeFeeQuote(isOpen, 'BUY', tradeValue);
+  // Fee is charged on top of the purchase; fall back to the trade value until the quote loads
+  const totalValue = feeQuote ? feeQuote.total : tradeValue;
   const hasSufficientBalance = walletBalance >= totalValue;
   const isValid = Object.keys(validationErrors).length === 0 && numericShares > 0 && hasSufficientBalance;
 
@@ -200,6 +204,14 @@ export const PurchaseConfirmationModal: React.FC<PurchaseConfirmationModalProps>
                 <span className="text-gray-500">Qty</span>
                 <span className="font-medium text-gray-300">{numericShares.toLocaleString()}</span>
               </div>
+              <div className="flex justify-between items-center text-[10px] sm:text-xs" title={feeQuote?.scheduleDescription}>
+                <span className="text-gray-500">
+                  Fee{feeQuote && feeQuote.rate > 0 ? ` (${(feeQuote.rate * 100).toFixed(2)}%)` : ''}
+                </span>
+                <span className="font-medium text-gray-300">
+                  {!feeQuote ? '...' : feeQuote.promotion ? `Free - ${feeQuote.promotion.name}` : formatCurrency(feeQuote.fee)}
+                </span>
+              </div>
               
               <div className="border-t border-gray-600/30 pt-2 space-y-1.5">
                 <div className="flex justify-between items-baseline">
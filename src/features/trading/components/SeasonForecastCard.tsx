@@ -0,0 +1,123 @@
+import React, { useState, useCallback } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { seasonSimulationService, DEFAULT_FORECAST_ITERATIONS } from '@/shared/lib/season-simulation';
+import type { SeasonForecast } from '@/shared/lib/utils/season-forecast';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { Dices } from 'lucide-react';
+
+const ITERATION_OPTIONS = [500, 1000, DEFAULT_FORECAST_ITERATIONS, 5000];
+
+const formatProbability = (value: number) => `${Math.round(value * 100)}%`;
+
+const SeasonForecastCard: React.FC = () => {
+  const [iterations, setIterations] = useState(DEFAULT_FORECAST_ITERATIONS);
+  const [forecast, setForecast] = useState<SeasonForecast | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runForecast = useCallback(async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      const result = await seasonSimulationService.forecastSeason({
+        iterations,
+        refresh: true,
+        onProgress: (completed, total) => setProgress(completed / total),
+      });
+      setForecast(result);
+    } catch (err) {
+      console.error('Season forecast failed:', err);
+      setError(err instanceof Error ? err.message : 'Season forecast failed');
+    } finally {
+      setProgress(null);
+    }
+  }, [iterations]);
+
+  const clubs = forecast ? [...forecast.clubs].sort((a, b) => b.median - a.median) : [];
+  const running = progress !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dices className="w-5 h-5" />
+          Season Forecast
+        </CardTitle>
+        <p className="text-xs text-gray-400">
+          Plays the remaining fixtures many times in memory with the market-cap outcome model and the active
+          transfer rules. Nothing is written to the database.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Select value={iterations.toString()} onValueChange={value => setIterations(Number(value))}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ITERATION_OPTIONS.map(option => (
+                <SelectItem key={option} value={option.toString()}>
+                  {option.toLocaleString()} seasons
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={runForecast} disabled={running} className="sm:flex-none">
+            {running ? `Simulating... ${Math.round((progress ?? 0) * 100)}%` : 'Run Forecast'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {forecast && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">
+              {forecast.iterations.toLocaleString()} simulated seasons over {forecast.remainingFixtures} remaining fixtures
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700/50">
+                    <th className="text-left py-2 pr-3 font-medium">Club</th>
+                    <th className="text-right py-2 px-2 font-medium">Now</th>
+                    <th className="text-right py-2 px-2 font-medium">P5</th>
+                    <th className="text-right py-2 px-2 font-medium">P25</th>
+                    <th className="text-right py-2 px-2 font-medium">Median</th>
+                    <th className="text-right py-2 px-2 font-medium">P75</th>
+                    <th className="text-right py-2 px-2 font-medium">P95</th>
+                    <th className="text-right py-2 px-2 font-medium">P(up)</th>
+                    <th className="text-right py-2 pl-2 font-medium">Exp. Cap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {clubs.map(club => (
+                    <tr key={club.teamId} className="border-b border-gray-700/30 last:border-b-0">
+                      <td className="py-2 pr-3 whitespace-nowrap">{club.teamName}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(club.currentPrice)}</td>
+                      <td className="text-right py-2 px-2 font-mono text-gray-400">{formatCurrency(club.p5)}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(club.p25)}</td>
+                      <td className={`text-right py-2 px-2 font-mono ${club.median >= club.currentPrice ? 'price-positive' : 'price-negative'}`}>
+                        {formatCurrency(club.median)}
+                      </td>
+                      <td className="text-right py-2 px-2 font-mono">{formatCurrency(club.p75)}</td>
+                      <td className="text-right py-2 px-2 font-mono text-gray-400">{formatCurrency(club.p95)}</td>
+                      <td className="text-right py-2 px-2 font-mono">{formatProbability(club.probabilityAbove)}</td>
+                      <td className="text-right py-2 pl-2 font-mono">
+                        {formatCurrency(fromCents(club.expectedFinalCapCents).toNumber())}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeasonForecastCard;
@@ -8,13 +8,73 @@ import { teamsService, fixturesService, positionsService } from '@/shared/lib/da
 import { matchProcessingService } from '@/shared/lib/match-processing';
 import { teamStateSnapshotService } from '@/shared/lib/team-state-snapshots';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
-import { useAppContext } from '@/features/trading/contexts/AppContext';
 import { supabase } from '@/shared/lib/supabase';
+import { transferRulesService } from '@/shared/lib/services/transfer-rules.service';
+import {
+    calculateMatchTransfer,
+    getTransferRuleSet,
+    TRANSFER_RULE_SETS,
+    type CompetitionType,
+    type MatchOutcome,
+    type TransferRuleSet
+} from '@/shared/lib/utils/transfer-rules';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { fromCents } from '@/shared/lib/utils/decimal';
 import { AlertTriangle } from 'lucide-react';
+import SeasonForecastCard from './SeasonForecastCard';
+import SimulationWorkspaceCard from './SimulationWorkspaceCard';
+import {
+    simulationWorkspaceService,
+    type DatabaseSimulationWorkspace,
+    type SimulationWorkspaceState
+} from '@/shared/lib/services/simulation-workspace.service';
+
+// Fixture/team fields the per-game panel needs, from live rows or a workspace
+interface SimulationGame {
+    id: number;
+    home_team_id: number;
+    away_team_id: number;
+    kickoff_at: string;
+    competition_type?: CompetitionType;
+    result?: string;
+    home_score?: number | null;
+    away_score?: number | null;
+}
+
+interface SimulationTeam {
+    id: number;
+    name: string;
+    market_cap: number;
+}
+
+// Random 0-3 goal scoreline, nudged towards the club with the larger market cap
+const generateSimulatedScore = (homeMarketCap: number, awayMarketCap: number) => {
+    // Higher market cap = slightly higher chance to score more goals
+    const homeWinProb = homeMarketCap / (homeMarketCap + awayMarketCap);
+    
+    // Generate base scores (0-3 goals each)
+    let homeScore = Math.floor(Math.random() * 4);
+    let awayScore = Math.floor(Math.random() * 4);
+    
+    // Adjust scores slightly based on market cap difference (but keep it realistic)
+    const marketCapDiff = Math.abs(homeMarketCap - awayMarketCap);
+    const maxAdjustment = Math.min(1, Math.floor(marketCapDiff / 20)); // Max 1 goal adjustment
+    
+    if (homeWinProb > 0.6 && Math.random() < 0.3) {
+        // Home team slightly favored, small chance to score 1 more
+        homeScore = Math.min(3, homeScore + maxAdjustment);
+    } else if (homeWinProb < 0.4 && Math.random() < 0.3) {
+        // Away team slightly favored, small chance to score 1 more
+        awayScore = Math.min(3, awayScore + maxAdjustment);
+    }
+    
+    // Determine result based on actual scores
+    const result: MatchOutcome = homeScore > awayScore ? 'home_win' : awayScore > homeScore ? 'away_win' : 'draw';
+    return { homeScore, awayScore, result };
+};
 
 const SeasonSimulation: React.FC = () => {
     const { user, isAdmin } = useAuth();
-    const { setCurrentPage } = useAppContext();
     const [isLoading, setIsLoading] = useState(false);
     const [simulationResults, setSimulationResults] = useState<string>('');
     const [availableGames, setAvailableGames] = useState<any[]>([]);
@@ -22,15 +82,50 @@ const SeasonSimulation: React.FC = () => {
     const [selectedGameId, setSelectedGameId] = useState<string>('');
     const [nextGame, setNextGame] = useState<any>(null);
     const [teams, setTeams] = useState<any[]>([]);
+    const [activeRuleSet, setActiveRuleSet] = useState<TransferRuleSet>(() => getTransferRuleSet());
+    const [previewRuleVersion, setPreviewRuleVersion] = useState<string>('');
+    // Simulations run against a forked workspace unless live mode is chosen explicitly
+    const [mode, setMode] = useState<'sandbox' | 'live'>('sandbox');
+    const [workspaces, setWorkspaces] = useState<DatabaseSimulationWorkspace[]>([]);
+    const [workspaceState, setWorkspaceState] = useState<SimulationWorkspaceState | null>(null);
+
+    const loadWorkspace = React.useCallback(async (workspaceId: number) => {
+        try {
+            const state = await simulationWorkspaceService.getState(workspaceId);
+            setWorkspaceState(state);
+            const nextSandboxGame = state.fixtures.find(f => f.result === 'pending');
+            setSelectedGameId(nextSandboxGame ? nextSandboxGame.fixture_id.toString() : '');
+        } catch (error) {
+            console.error('Error loading simulation workspace:', error);
+            setSimulationResults(`❌ Failed to load workspace: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, []);
+
+    const loadWorkspaces = React.useCallback(async (selectId?: number) => {
+        try {
+            const list = await simulationWorkspaceService.list();
+            setWorkspaces(list);
+            const target = selectId ?? list.find(w => w.status === 'open')?.id;
+            if (target) {
+                await loadWorkspace(target);
+            } else {
+                setWorkspaceState(null);
+            }
+        } catch (error) {
+            console.error('Error loading simulation workspaces:', error);
+        }
+    }, [loadWorkspace]);
 
     const loadAvailableGames = React.useCallback(async () => {
         try {
-            const [fixtures, teamsData] = await Promise.all([
+            const [fixtures, teamsData, ruleSet] = await Promise.all([
                 fixturesService.getAll(),
-                teamsService.getAll()
+                teamsService.getAll(),
+                transferRulesService.getActiveRuleSet()
             ]);
             
             setTeams(teamsData);
+            setActiveRuleSet(ruleSet);
             
             if (fixtures) {
                 
@@ -65,19 +160,101 @@ const SeasonSimulation: React.FC = () => {
         }
     }, []); // Empty dependency array - only create function once
 
-    // Redirect if user is not admin
-    useEffect(() => {
-        if (!isAdmin) {
-            setCurrentPage('marketplace');
-        }
-    }, [isAdmin, setCurrentPage]);
-
     // Load available games on component mount only
     useEffect(() => {
         if (isAdmin) {
             loadAvailableGames();
+            loadWorkspaces();
+        }
+    }, [loadAvailableGames, loadWorkspaces, isAdmin]);
+
+    const createWorkspace = async (name: string) => {
+        setIsLoading(true);
+        try {
+            const workspaceId = await simulationWorkspaceService.create(name);
+            await loadWorkspaces(workspaceId);
+            setSimulationResults(`🧪 Workspace "${name}" forked from live state.`);
+        } catch (error) {
+            setSimulationResults(`❌ Failed to create workspace: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const discardWorkspace = async () => {
+        if (!workspaceState) return;
+        if (!window.confirm(`Discard workspace "${workspaceState.workspace.name}"? Live data is not affected.`)) return;
+
+        setIsLoading(true);
+        try {
+            await simulationWorkspaceService.discard(workspaceState.workspace.id);
+            await loadWorkspaces(workspaceState.workspace.id);
+            setSimulationResults('🗑️ Workspace discarded. Live data was not changed.');
+        } catch (error) {
+            setSimulationResults(`❌ Failed to discard workspace: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const promoteWorkspace = async () => {
+        if (!workspaceState) return;
+        const simulated = workspaceState.fixtures.filter(f => f.simulated_at).length;
+        const confirmed = window.confirm(
+            `⚠️ Promote workspace "${workspaceState.workspace.name}"?\n\n` +
+            `${simulated} simulated results will be written to the LIVE fixtures and market caps will move for all users.`
+        );
+        if (!confirmed) return;
+
+        setIsLoading(true);
+        try {
+            const promoted = await simulationWorkspaceService.promote(workspaceState.workspace.id);
+            await Promise.all([loadWorkspaces(workspaceState.workspace.id), loadAvailableGames()]);
+            window.dispatchEvent(new CustomEvent('refreshTeamDetails'));
+            setSimulationResults(`🚀 Promoted ${promoted} simulated results to live.`);
+        } catch (error) {
+            setSimulationResults(`❌ Promotion failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const simulateSandboxGame = async (gameId: string) => {
+        if (!workspaceState || workspaceState.workspace.status !== 'open') {
+            setSimulationResults('❌ Fork or select an open workspace first');
+            return;
+        }
+
+        const fixture = workspaceState.fixtures.find(f => f.fixture_id.toString() === gameId.toString());
+        const homeTeam = fixture && workspaceState.teams.find(t => t.team_id === fixture.home_team_id);
+        const awayTeam = fixture && workspaceState.teams.find(t => t.team_id === fixture.away_team_id);
+        if (!fixture || !homeTeam || !awayTeam) {
+            setSimulationResults('❌ No game selected for simulation');
+            return;
+        }
+
+        setIsLoading(true);
+        setSimulationResults('');
+        try {
+            const { homeScore, awayScore } = generateSimulatedScore(homeTeam.market_cap, awayTeam.market_cap);
+            const outcome = await simulationWorkspaceService.simulateFixture(workspaceState.workspace.id, fixture.fixture_id, homeScore, awayScore);
+            const capLine = (name: string, before: number, after: number) =>
+                `• ${name}: ${formatCurrency(fromCents(before).toNumber())} → ${formatCurrency(fromCents(after).toNumber())}\n`;
+
+            setSimulationResults(
+                `🧪 [Sandbox] ${homeTeam.name} vs ${awayTeam.name}: ${homeScore}-${awayScore} (${outcome.result})\n` +
+                `📊 Market Cap Updates (rules ${outcome.rule_version}):\n` +
+                capLine(homeTeam.name, outcome.home_market_cap_before, outcome.home_market_cap_after) +
+                capLine(awayTeam.name, outcome.away_market_cap_before, outcome.away_market_cap_after) +
+                `\nLive data is unchanged.`
+            );
+            await loadWorkspace(workspaceState.workspace.id);
+        } catch (error) {
+            setSimulationResults(`❌ Sandbox simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsLoading(false);
         }
-    }, [loadAvailableGames, isAdmin]);
+    };
 
     const simulateSingleGame = async (gameId?: string) => {
         if (!user) {
@@ -85,12 +262,22 @@ const SeasonSimulation: React.FC = () => {
             return;
         }
 
+        if (mode === 'sandbox') {
+            const sandboxGameId = gameId || gameNext?.id?.toString();
+            if (sandboxGameId) {
+                await simulateSandboxGame(sandboxGameId);
+            } else {
+                setSimulationResults('❌ No game selected for simulation');
+            }
+            return;
+        }
+
         setIsLoading(true);
         setSimulationResults('');
 
         try {
             const gameToSimulate = gameId ? 
-                availableGames.find(g => g.id === gameId) : 
+                availableGames.find(g => g.id.toString() === gameId.toString()) : 
                 nextGame;
 
             if (!gameToSimulate) {
@@ -108,38 +295,7 @@ const SeasonSimulation: React.FC = () => {
                 return;
             }
 
-            const homeMarketCap = homeTeam.market_cap;
-            const awayMarketCap = awayTeam.market_cap;
-            
-            
-            // Higher market cap = slightly higher chance to score more goals
-            const homeWinProb = homeMarketCap / (homeMarketCap + awayMarketCap);
-            
-            // Generate base scores (0-3 goals each)
-            let homeScore = Math.floor(Math.random() * 4);
-            let awayScore = Math.floor(Math.random() * 4);
-            
-            // Adjust scores slightly based on market cap difference (but keep it realistic)
-            const marketCapDiff = Math.abs(homeMarketCap - awayMarketCap);
-            const maxAdjustment = Math.min(1, Math.floor(marketCapDiff / 20)); // Max 1 goal adjustment
-            
-            if (homeWinProb > 0.6 && Math.random() < 0.3) {
-                // Home team slightly favored, small chance to score 1 more
-                homeScore = Math.min(3, homeScore + maxAdjustment);
-            } else if (homeWinProb < 0.4 && Math.random() < 0.3) {
-                // Away team slightly favored, small chance to score 1 more
-                awayScore = Math.min(3, awayScore + maxAdjustment);
-            }
-            
-            // Determine result based on actual scores
-            let result: 'home_win' | 'away_win' | 'draw';
-            if (homeScore > awayScore) {
-                result = 'home_win';
-            } else if (awayScore > homeScore) {
-                result = 'away_win';
-            } else {
-                result = 'draw';
-            }
+            const { homeScore, awayScore, result } = generateSimulatedScore(homeTeam.market_cap, awayTeam.market_cap);
 
             // Update the fixture with simulated result
             const { error } = await supabase
@@ -177,7 +333,7 @@ const SeasonSimulation: React.FC = () => {
                         marketCapUpdate += `• ${awayTeam.name}: $${awayTeam.market_cap.toFixed(2)} → $${updatedAwayTeam.market_cap.toFixed(2)} (Price: $${awayPrice.toFixed(2)})\n`;
                     }
                     
-                    setSimulationResults(`✅ ${homeTeam.name} vs ${awayTeam.name}: ${homeScore}-${awayScore} (${result})${marketCapUpdate}\n\n🎉 Match processed! Market caps updated based on result.`);
+                    setSimulationResults(`✅ ${homeTeam.name} vs ${awayTeam.name}: ${homeScore}-${awayScore} (${result})${marketCapUpdate}\n\n🎉 Match processed with transfer rules ${activeRuleSet.version}! Market caps updated based on result.`);
                     
                     // Refresh fixtures in ClubValuesPage to update games played count
                     if ((window as any).refreshClubValuesFixtures) {
@@ -201,9 +357,44 @@ const SeasonSimulation: React.FC = () => {
         }
     };
 
+    // Games and caps shown in the per-game panel come from the workspace in sandbox mode
+    const inSandbox = mode === 'sandbox';
+    const sandboxFixtures = (workspaceState?.fixtures || []).map(f => ({ ...f, id: f.fixture_id }));
+    const gameTeams: SimulationTeam[] = inSandbox
+        ? (workspaceState?.teams || []).map(t => ({ id: t.team_id, name: t.name, market_cap: t.market_cap }))
+        : teams;
+    const gamesAvailable: SimulationGame[] = inSandbox ? sandboxFixtures.filter(f => f.result === 'pending') : availableGames;
+    const gamesPlayed: SimulationGame[] = inSandbox ? sandboxFixtures.filter(f => f.result !== 'pending') : playedGames;
+    const gameNext = inSandbox ? gamesAvailable[0] ?? null : nextGame;
+
+    // Client-side projection of each result for the selected game under a chosen rule set
+    const previewRuleSet = previewRuleVersion && previewRuleVersion !== activeRuleSet.version
+        ? getTransferRuleSet(previewRuleVersion)
+        : activeRuleSet;
+    const previewGame = gamesAvailable.find(g => g.id.toString() === selectedGameId?.toString());
+    const previewHome = previewGame ? gameTeams.find(t => t.id === previewGame.home_team_id) : null;
+    const previewAway = previewGame ? gameTeams.find(t => t.id === previewGame.away_team_id) : null;
+    const previewOutcomes: MatchOutcome[] = ['home_win', 'draw', 'away_win'];
+    const impactPreview = previewHome && previewAway
+        ? previewOutcomes.map(outcome => calculateMatchTransfer({
+            homeCapCents: previewHome.market_cap,
+            awayCapCents: previewAway.market_cap,
+            result: outcome,
+            competitionType: previewGame.competition_type
+        }, previewRuleSet))
+        : [];
+
+    const switchMode = (next: 'sandbox' | 'live') => {
+        setMode(next);
+        const first = next === 'sandbox'
+            ? workspaceState?.fixtures.find(f => f.result === 'pending')?.fixture_id
+            : nextGame?.id;
+        setSelectedGameId(first ? first.toString() : '');
+    };
+
     const simulateNextGame = async () => {
-        if (nextGame) {
-            await simulateSingleGame(nextGame.id);
+        if (gameNext) {
+            await simulateSingleGame(gameNext.id.toString());
         } else {
             setSimulationResults('❌ No next game available');
         }
@@ -448,6 +639,33 @@ const SeasonSimulation: React.FC = () => {
 
     return (
         <div className="p-3 sm:p-4 lg:p-6 space-y-4 sm:space-y-6">
+            {/* Simulation target */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <Tabs value={mode} onValueChange={value => switchMode(value as 'sandbox' | 'live')}>
+                    <TabsList>
+                        <TabsTrigger value="sandbox">🧪 Sandbox</TabsTrigger>
+                        <TabsTrigger value="live">⚠️ Live</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+                <p className={`text-xs ${inSandbox ? 'text-gray-400' : 'text-red-400'}`}>
+                    {inSandbox
+                        ? 'Simulations write only to the selected workspace.'
+                        : 'Simulations and resets write directly to live fixtures and teams.'}
+                </p>
+            </div>
+
+            {inSandbox && (
+                <SimulationWorkspaceCard
+                    workspaces={workspaces}
+                    workspaceState={workspaceState}
+                    busy={isLoading}
+                    onSelect={loadWorkspace}
+                    onCreate={createWorkspace}
+                    onDiscard={discardWorkspace}
+                    onPromote={promoteWorkspace}
+                />
+            )}
+
             {/* Per-Game Simulation Card */}
             <Card>
                 <CardHeader>
@@ -456,8 +674,8 @@ const SeasonSimulation: React.FC = () => {
                 <CardContent>
                     <Tabs defaultValue="available" className="w-full">
                         <TabsList className="grid w-full grid-cols-2">
-                            <TabsTrigger value="available">Available Games ({availableGames.length})</TabsTrigger>
-                            <TabsTrigger value="played">Games Played ({playedGames.length})</TabsTrigger>
+                            <TabsTrigger value="available">Available Games ({gamesAvailable.length})</TabsTrigger>
+                            <TabsTrigger value="played">Games Played ({gamesPlayed.length})</TabsTrigger>
                         </TabsList>
                         
                         <TabsContent value="available" className="space-y-4">
@@ -468,11 +686,11 @@ const SeasonSimulation: React.FC = () => {
                                         <SelectValue placeholder="Select a game to simulate" />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        {availableGames.map((game) => {
-                                            const homeTeam = teams.find(t => t.id === game.home_team_id);
-                                            const awayTeam = teams.find(t => t.id === game.away_team_id);
+                                        {gamesAvailable.map((game) => {
+                                            const homeTeam = gameTeams.find(t => t.id === game.home_team_id);
+                                            const awayTeam = gameTeams.find(t => t.id === game.away_team_id);
                                             return (
-                                                <SelectItem key={game.id} value={game.id}>
+                                                <SelectItem key={game.id} value={game.id.toString()}>
                                                     {homeTeam?.name || 'Home'} vs {awayTeam?.name || 'Away'}
                                                 </SelectItem>
                                             );
@@ -489,7 +707,7 @@ const SeasonSimulation: React.FC = () => {
                                     </Button>
                                     <Button
                                         onClick={simulateNextGame}
-                                        disabled={isLoading || !nextGame}
+                                        disabled={isLoading || !gameNext}
                                         variant="outline"
                                         className="flex-1 sm:flex-none"
                                     >
@@ -498,15 +716,59 @@ const SeasonSimulation: React.FC = () => {
                                 </div>
                             </div>
                             
+                            {/* Projected market cap impact */}
+                            {impactPreview.length > 0 && (
+                                <div className="space-y-2">
+                                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                        <span className="text-sm font-semibold">Projected impact</span>
+                                        <Select value={previewRuleSet.version} onValueChange={setPreviewRuleVersion}>
+                                            <SelectTrigger className="sm:w-64">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.values(TRANSFER_RULE_SETS).map(ruleSet => (
+                                                    <SelectItem key={ruleSet.version} value={ruleSet.version}>
+                                                        Rules {ruleSet.version}{ruleSet.version === activeRuleSet.version ? ' (active)' : ''}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <p className="text-xs text-gray-400">{previewRuleSet.description}</p>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-gray-400">
+                                                <th className="text-left">Result</th>
+                                                <th className="text-right">Transfer</th>
+                                                <th className="text-right">{previewHome?.name}</th>
+                                                <th className="text-right">{previewAway?.name}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {impactPreview.map(impact => (
+                                                <tr key={impact.outcome}>
+                                                    <td className="capitalize">{impact.outcome.replace('_', ' ')}</td>
+                                                    <td className="text-right font-mono">
+                                                        {formatCurrency(fromCents(impact.transferCents).toNumber())} ({(impact.rate * 100).toFixed(1)}%)
+                                                    </td>
+                                                    <td className="text-right font-mono">{formatCurrency(fromCents(impact.homeCapAfterCents).toNumber())}</td>
+                                                    <td className="text-right font-mono">{formatCurrency(fromCents(impact.awayCapAfterCents).toNumber())}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
                             {/* Debug Info */}
                             <div className="text-sm text-gray-400 space-y-2">
-                                <p>Available games: {availableGames.length}</p>
+                                <p>Available games: {gamesAvailable.length}</p>
                                 <p>Teams loaded: {teams.length}</p>
-                                {availableGames.length === 0 && (
+                                {gamesAvailable.length === 0 && (
                                     <p className="text-yellow-400">No games available for simulation. All games may have been played.</p>
                                 )}
                         <Button
-                                    onClick={loadAvailableGames}
+                                    onClick={() => inSandbox && workspaceState ? loadWorkspace(workspaceState.workspace.id) : loadAvailableGames()}
                                     disabled={isLoading}
                                     variant="secondary"
                                     size="sm"
@@ -518,13 +780,13 @@ const SeasonSimulation: React.FC = () => {
                         
                         <TabsContent value="played" className="space-y-4">
                             <div className="max-h-96 overflow-y-auto">
-                                {playedGames.length === 0 ? (
+                                {gamesPlayed.length === 0 ? (
                                     <p className="text-gray-400 text-center py-8">No games have been played yet.</p>
                                 ) : (
                                     <div className="space-y-2">
-                                        {playedGames.map((game) => {
-                                            const homeTeam = teams.find(t => t.id === game.home_team_id);
-                                            const awayTeam = teams.find(t => t.id === game.away_team_id);
+                                        {gamesPlayed.map((game) => {
+                                            const homeTeam = gameTeams.find(t => t.id === game.home_team_id);
+                                            const awayTeam = gameTeams.find(t => t.id === game.away_team_id);
                                             const result = game.result === 'home_win' ? 'Home Win' : 
                                                          game.result === 'away_win' ? 'Away Win' : 'Draw';
                                             const resultColor = game.result === 'home_win' ? 'text-green-400' : 
@@ -559,7 +821,11 @@ const SeasonSimulation: React.FC = () => {
                 </CardContent>
             </Card>
 
-            {/* Reset Market Caps Card */}
+            {/* Monte Carlo Forecast Card */}
+            <SeasonForecastCard />
+
+            {/* Reset Market Caps Card (live only) */}
+            {!inSandbox && (
             <Card>
                 <CardHeader>
                     <CardTitle>🔄 Reset Marketplace</CardTitle>
@@ -634,6 +900,7 @@ const SeasonSimulation: React.FC = () => {
                     </div>
                 </CardContent>
             </Card>
+            )}
 
             {/* Results Display */}
             {simulationResults && (
@@ -11,6 +11,7 @@ import { sanitizeInput } from '@/shared/lib/sanitization';
 import { useAuth } from '@/features/auth/contexts/AuthContext';
 import { buyWindowService } from '@/shared/lib/buy-window.service';
 import { fixturesService } from '@/shared/lib/database';
+import { useTradeFeeQuote } from '@/shared/hooks/useTradeFeeQuote';
 
 interface SellConfirmationModalProps {
   isOpen: boolean;
@@ -144,7 +145,10 @@ export const SellConfirmationModal: React.FC<SellConfirmationModalProps> = ({
   };
 
   const numericShares = parseInt(shares) || 0;
-  const totalProceeds = numericShares * pricePerShare;
+  const grossProceeds = numericShares * pricePerShare;
+  const { quote: feeQuote } = useTradeFeeQuote(isOpen, 'SELL', grossProceeds);
+  // Fee is deducted from the proceeds
+  const totalProceeds = feeQuote ? feeQuote.total : grossProceeds;
   const newWalletBalance = walletBalance + totalProceeds;
   const isValid = Object.keys(validationErrors).length === 0 && numericShares > 0 && numericShares <= currentQuantity;
 
@@ -230,10 +234,18 @@ export const SellConfirmationModal: React.FC<SellConfirmationModalProps> = ({
                 <span className="text-gray-300 font-medium">Number of shares:</span>
                 <span className="font-semibold text-white">{numericShares.toLocaleString()}</span>
               </div>
+              <div className="flex justify-between items-center" title={feeQuote?.scheduleDescription}>
+                <span className="text-gray-300 font-medium">
+                  Trading fee{feeQuote && feeQuote.rate > 0 ? ` (${(feeQuote.rate * 100).toFixed(2)}%)` : ''}:
+                </span>
+                <span className="font-semibold text-white">
+                  {!feeQuote ? '...' : feeQuote.promotion ? `Free - ${feeQuote.promotion.name}` : `-${formatCurrency(feeQuote.fee)}`}
+                </span>
+              </div>
               
               <div className="border-t border-trading-primary/30 pt-4 space-y-2">
                 <div className="flex justify-between items-center text-lg">
-                  <span className="font-semibold text-gray-300">Total sale proceeds:</span>
+                  <span className="font-semibold text-gray-300">Net sale proceeds:</span>
                   <span className="font-bold text-green-400 text-xl">{formatCurrency(totalProceeds)}</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
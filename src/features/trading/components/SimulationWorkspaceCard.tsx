@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Badge } from '@/shared/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { formatCurrency } from '@/shared/lib/formatters';
+import type {
+  DatabaseSimulationWorkspace,
+  SimulationWorkspaceState
+} from '@/shared/lib/services/simulation-workspace.service';
+import { FlaskConical } from 'lucide-react';
+
+interface SimulationWorkspaceCardProps {
+  workspaces: DatabaseSimulationWorkspace[];
+  workspaceState: SimulationWorkspaceState | null;
+  busy: boolean;
+  onSelect: (workspaceId: number) => void;
+  onCreate: (name: string) => void;
+  onDiscard: () => void;
+  onPromote: () => void;
+}
+
+/** Users shown in the P&L table */
+const USER_PNL_LIMIT = 10;
+
+const STATUS_CLASSES: Record<DatabaseSimulationWorkspace['status'], string> = {
+  open: 'text-green-400 border-green-400/50',
+  discarded: 'text-gray-400 border-gray-400/50',
+  promoted: 'text-blue-400 border-blue-400/50',
+};
+
+const pnlClass = (value: number) => (value > 0 ? 'price-positive' : value < 0 ? 'price-negative' : 'text-gray-400');
+
+const SimulationWorkspaceCard: React.FC<SimulationWorkspaceCardProps> = ({
+  workspaces,
+  workspaceState,
+  busy,
+  onSelect,
+  onCreate,
+  onDiscard,
+  onPromote
+}) => {
+  const [name, setName] = useState('');
+  const workspace = workspaceState?.workspace;
+  const isOpen = workspace?.status === 'open';
+  const simulatedCount = workspaceState?.fixtures.filter(f => f.simulated_at).length ?? 0;
+  const movedClubs = workspaceState?.comparison.filter(c => c.sandboxCapCents !== c.liveCapCents) ?? [];
+
+  const handleCreate = () => {
+    onCreate(name.trim() || `Sandbox ${new Date().toLocaleString()}`);
+    setName('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Simulation Workspace
+        </CardTitle>
+        <p className="text-xs text-gray-400">
+          A forked copy of teams, fixtures and positions. Simulated results only change the workspace until it is promoted.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Select
+            value={workspace ? workspace.id.toString() : ''}
+            onValueChange={value => onSelect(Number(value))}
+          >
+            <SelectTrigger className="sm:w-72">
+              <SelectValue placeholder="Select a workspace" />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map(w => (
+                <SelectItem key={w.id} value={w.id.toString()}>
+                  {w.name} ({w.status})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="New workspace name"
+            maxLength={100}
+            className="sm:w-56"
+          />
+          <Button onClick={handleCreate} disabled={busy} variant="outline">
+            Fork Live State
+          </Button>
+        </div>
+
+        {workspace && workspaceState && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <Badge variant="outline" className={STATUS_CLASSES[workspace.status]}>{workspace.status}</Badge>
+              <span className="text-gray-400">Forked {new Date(workspace.created_at).toLocaleString()}</span>
+              <span className="text-gray-400">{simulatedCount} simulated fixtures</span>
+              {workspaceState.diverged && (
+                <span className="text-yellow-400">Live caps changed since the fork - promotion is blocked</span>
+              )}
+            </div>
+
+            {isOpen && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button
+                  onClick={onPromote}
+                  disabled={busy || simulatedCount === 0 || workspaceState.diverged}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Promote to Live
+                </Button>
+                <Button onClick={onDiscard} disabled={busy} variant="secondary">
+                  Discard Workspace
+                </Button>
+              </div>
+            )}
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold mb-2">Sandbox vs Live</h3>
+                {movedClubs.length === 0 ? (
+                  <p className="text-xs text-gray-400">No club prices differ from live yet.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700/50">
+                        <th className="text-left py-2 pr-3 font-medium">Club</th>
+                        <th className="text-right py-2 px-2 font-medium">Live</th>
+                        <th className="text-right py-2 px-2 font-medium">Sandbox</th>
+                        <th className="text-right py-2 pl-2 font-medium">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {movedClubs.map(club => (
+                        <tr key={club.teamId} className="border-b border-gray-700/30 last:border-b-0">
+                          <td className="py-2 pr-3 whitespace-nowrap">
+                            {club.teamName}
+                            {club.diverged && <span className="ml-1 text-yellow-400">*</span>}
+                          </td>
+                          <td className="text-right py-2 px-2 font-mono">{formatCurrency(club.livePrice)}</td>
+                          <td className="text-right py-2 px-2 font-mono">{formatCurrency(club.sandboxPrice)}</td>
+                          <td className={`text-right py-2 pl-2 font-mono ${pnlClass(club.priceChangePercent)}`}>
+                            {club.priceChangePercent > 0 ? '+' : ''}{club.priceChangePercent.toFixed(2)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold mb-2">User P&L in Sandbox</h3>
+                {workspaceState.userPnl.length === 0 ? (
+                  <p className="text-xs text-gray-400">No open positions were forked.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700/50">
+                        <th className="text-left py-2 pr-3 font-medium">User</th>
+                        <th className="text-right py-2 px-2 font-medium">Clubs</th>
+                        <th className="text-right py-2 px-2 font-medium">At Fork</th>
+                        <th className="text-right py-2 px-2 font-medium">Sandbox</th>
+                        <th className="text-right py-2 pl-2 font-medium">P&L</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {workspaceState.userPnl.slice(0, USER_PNL_LIMIT).map(user => (
+                        <tr key={user.userId} className="border-b border-gray-700/30 last:border-b-0">
+                          <td className="py-2 pr-3 font-mono">{user.userId.slice(0, 8)}</td>
+                          <td className="text-right py-2 px-2">{user.clubs}</td>
+                          <td className="text-right py-2 px-2 font-mono">{formatCurrency(user.forkedValue)}</td>
+                          <td className="text-right py-2 px-2 font-mono">{formatCurrency(user.sandboxValue)}</td>
+                          <td className={`text-right py-2 pl-2 font-mono ${pnlClass(user.pnl)}`}>
+                            {user.pnl > 0 ? '+' : ''}{formatCurrency(user.pnl)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SimulationWorkspaceCard;
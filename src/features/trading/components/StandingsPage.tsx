@@ -1,36 +1,90 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
 import { Button } from '@/shared/components/ui/button';
 import { footballApiService } from '@/shared/lib/football-api';
 import type { Standing } from '@/shared/lib/football-api';
 import ClickableTeamName from '@/shared/components/ClickableTeamName';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { seasonArchiveService, type DatabaseArchivedSeason, type DatabaseArchivedSeasonTeam } from '@/shared/lib/services/season-archive.service';
+import { formatSeasonLabel } from '@/shared/lib/utils/season-rollover';
+import { competitionsService, type DatabaseCompetition } from '@/shared/lib/services/competitions.service';
+import { PREMIER_LEAGUE_CODE } from '@/shared/lib/utils/competitions';
 import { Trophy, TrendingUp, TrendingDown, Minus, Loader2 } from 'lucide-react';
 
+// Archived final table row in the shape of a live API standing
+const toStanding = (row: DatabaseArchivedSeasonTeam): Standing => ({
+  position: row.final_position,
+  team: {
+    id: row.external_id ? Number(row.external_id) : row.team_id,
+    name: row.team_name,
+    shortName: row.team_name,
+    tla: '',
+    crest: row.logo_url || '',
+    website: '',
+    founded: 0,
+    clubColors: '',
+    venue: '',
+    lastUpdated: ''
+  },
+  playedGames: row.played,
+  won: row.won,
+  draw: row.drawn,
+  lost: row.lost,
+  points: row.points,
+  goalsFor: row.goals_for,
+  goalsAgainst: row.goals_against,
+  goalDifference: row.goals_for - row.goals_against
+});
+
 const StandingsPage: React.FC = () => {
   const [standings, setStandings] = useState<Standing[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const season = 2025; // Fixed to 2025-26 season
+  const [competitions, setCompetitions] = useState<DatabaseCompetition[]>([]);
+  const [competitionCode, setCompetitionCode] = useState(PREMIER_LEAGUE_CODE);
+  // Archived seasons are Premier League seasons
+  const isPremierLeague = competitionCode === PREMIER_LEAGUE_CODE;
+  const [archivedSeasons, setArchivedSeasons] = useState<DatabaseArchivedSeason[]>([]);
+  // Live standings are the season after the latest archived one (2025-26 before any rollover)
+  const liveSeason = archivedSeasons[0]?.next_season ?? 2025;
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null);
+  const season = isPremierLeague ? selectedSeason ?? liveSeason : liveSeason;
+  const isArchived = isPremierLeague && archivedSeasons.some(s => s.season === season);
+  const competitionName = competitions.find(c => c.code === competitionCode)?.name ?? 'Premier League';
 
   useEffect(() => {
-    loadStandings();
+    seasonArchiveService.getSeasons()
+      .then(setArchivedSeasons)
+      .catch(err => console.error('Error loading archived seasons:', err));
+    competitionsService.getAll()
+      .then(setCompetitions)
+      .catch(err => console.error('Error loading competitions:', err));
   }, []);
 
-  const loadStandings = async () => {
+  const loadStandings = useCallback(async () => {
     setLoading(true);
     setError(null);
     
     try {
-      const premierLeagueData = await footballApiService.getPremierLeagueData(season);
-      setStandings(premierLeagueData.standings);
+      if (isArchived) {
+        const archived = await seasonArchiveService.getStandings(season);
+        setStandings(archived.map(toStanding));
+      } else {
+        const competitionData = await footballApiService.getCompetitionData(competitionCode, season);
+        setStandings(competitionData.standings);
+      }
     } catch (err) {
       console.error('Error loading standings:', err);
       setError(err instanceof Error ? err.message : 'Failed to load standings');
     } finally {
       setLoading(false);
     }
-  };
+  }, [competitionCode, season, isArchived]);
+
+  useEffect(() => {
+    loadStandings();
+  }, [loadStandings]);
 
   const getPositionChange = (currentPosition: number, previousPosition?: number) => {
     if (!previousPosition) return null;
@@ -40,7 +94,9 @@ const StandingsPage: React.FC = () => {
     return { direction: 'same', change: 0 };
   };
 
+  // Qualification and relegation places are Premier League places
   const getPositionIcon = (position: number) => {
+    if (!isPremierLeague) return null;
     if (position <= 4) return <Trophy className="h-4 w-4 text-yellow-500" />;
     if (position <= 6) return <Trophy className="h-4 w-4 text-gray-400" />;
     if (position >= 18) return <TrendingDown className="h-4 w-4 text-red-500" />;
@@ -48,6 +104,7 @@ const StandingsPage: React.FC = () => {
   };
 
   const getPositionBadge = (position: number) => {
+    if (!isPremierLeague) return null;
     if (position <= 4) return <Badge className="bg-yellow-100 text-yellow-800 text-[10px] py-0 px-1.5 h-4 leading-4 !inline-flex items-center justify-center rounded">Champions League</Badge>;
     if (position === 5) return <Badge className="bg-blue-100 text-blue-800 text-[10px] py-0 px-1.5 h-4 leading-4 !inline-flex items-center justify-center rounded">Europa League</Badge>;
     if (position === 6) return <Badge className="bg-purple-100 text-purple-800 text-[10px] py-0 px-1.5 h-4 leading-4 !inline-flex items-center justify-center rounded">Conference League</Badge>;
@@ -89,9 +146,40 @@ const StandingsPage: React.FC = () => {
 
   return (
     <div className="md:p-4 lg:p-6 space-y-3 sm:space-y-4 md:space-y-6 w-full max-w-full overflow-x-hidden">
-      <div className="px-3 md:px-0">
-        <h1 className="text-lg sm:text-xl md:text-3xl font-bold text-white">Premier League Standings</h1>
-        <p className="text-gray-400 mt-1 text-sm md:text-base">Season 2025-26</p>
+      <div className="px-3 md:px-0 flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-lg sm:text-xl md:text-3xl font-bold text-white">{competitionName} Standings</h1>
+          <p className="text-gray-400 mt-1 text-sm md:text-base">
+            Season {formatSeasonLabel(season)}{isArchived && ' (final table)'}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {competitions.length > 1 && (
+            <Select value={competitionCode} onValueChange={setCompetitionCode}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {competitions.map(competition => (
+                  <SelectItem key={competition.code} value={competition.code}>{competition.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isPremierLeague && archivedSeasons.length > 0 && (
+            <Select value={String(season)} onValueChange={value => setSelectedSeason(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={String(liveSeason)}>{formatSeasonLabel(liveSeason)}</SelectItem>
+                {archivedSeasons.map(s => (
+                  <SelectItem key={s.season} value={String(s.season)}>{formatSeasonLabel(s.season)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
       </div>
 
       <Card className="md:rounded-lg overflow-hidden">
@@ -0,0 +1,258 @@
+// Tax lots, realized/unrealized P&L and annual statements for the transaction history modal
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { taxLotsService } from '@/shared/lib/services/tax-lots.service';
+import {
+  annualStatementToCsv,
+  buildAnnualStatement,
+  buildTaxLots,
+  calculateUnrealizedPnl,
+  COST_BASIS_METHODS,
+  summarizeRealizedPnl,
+  type AnnualStatement,
+  type CostBasisMethod,
+  type LotTrade
+} from '@/shared/lib/utils/tax-lots';
+import { fromCents } from '@/shared/lib/utils/decimal';
+import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
+
+interface TaxLotsSectionProps {
+  isOpen: boolean;
+  teamId: number;
+  /** Current share price (dollars) per team id, for unrealized P&L */
+  currentPrices: Map<number, number>;
+}
+
+const centsToDollars = (cents: number) => fromCents(cents).toNumber();
+
+const pnlClass = (cents: number) => cents > 0 ? 'text-green-400' : cents < 0 ? 'text-red-400' : 'text-white';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+/** Printable statement; the browser's print dialog saves it as PDF */
+const statementToHtml = (statement: AnnualStatement): string => {
+  const money = (cents: number) => escapeHtml(formatCurrency(centsToDollars(cents)));
+  const saleRows = statement.disposals.map(d => `
+    <tr>
+      <td>${escapeHtml(d.teamName)}</td>
+      <td>${formatDate(d.soldAt)}</td>
+      <td class="num">${d.quantity}</td>
+      <td class="num">${money(d.proceedsCents)}</td>
+      <td class="num">${money(d.costBasisCents)}</td>
+      <td class="num">${money(d.gainCents)}</td>
+    </tr>`).join('');
+  const clubRows = statement.realizedByClub.map(c => `
+    <tr>
+      <td>${escapeHtml(c.teamName)}</td>
+      <td class="num">${c.quantitySold}</td>
+      <td class="num">${money(c.proceedsCents)}</td>
+      <td class="num">${money(c.costBasisCents)}</td>
+      <td class="num">${money(c.realizedCents)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Realized P&amp;L Statement ${statement.year}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 12px; margin: 32px; color: #111; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+    .num { text-align: right; }
+  </style>
+</head>
+<body>
+  <h1>Realized P&amp;L Statement ${statement.year}</h1>
+  <p>Cost basis method: ${escapeHtml(COST_BASIS_METHODS[statement.method])}<br>
+  Generated: ${escapeHtml(new Date(statement.generatedAt).toLocaleString())}</p>
+  <h2>Summary</h2>
+  <table>
+    <tr><td>Total proceeds</td><td class="num">${money(statement.totals.proceedsCents)}</td></tr>
+    <tr><td>Total cost basis</td><td class="num">${money(statement.totals.costBasisCents)}</td></tr>
+    <tr><td>Realized gain/loss</td><td class="num">${money(statement.totals.realizedCents)}</td></tr>
+    <tr><td>Trading fees paid</td><td class="num">${money(statement.totals.feesCents)}</td></tr>
+    <tr><td>Unrealized gain/loss (current prices)</td><td class="num">${money(statement.totals.unrealizedCents)}</td></tr>
+  </table>
+  <h2>By Club</h2>
+  <table>
+    <tr><th>Club</th><th class="num">Shares Sold</th><th class="num">Proceeds</th><th class="num">Cost Basis</th><th class="num">Gain/Loss</th></tr>
+    ${clubRows || '<tr><td colspan="5">No sales in this year</td></tr>'}
+  </table>
+  <h2>Sales</h2>
+  <table>
+    <tr><th>Club</th><th>Date Sold</th><th class="num">Shares</th><th class="num">Proceeds</th><th class="num">Cost Basis</th><th class="num">Gain/Loss</th></tr>
+    ${saleRows || '<tr><td colspan="6">No sales in this year</td></tr>'}
+  </table>
+</body>
+</html>`;
+};
+
+const TaxLotsSection: React.FC<TaxLotsSectionProps> = ({ isOpen, teamId, currentPrices }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [trades, setTrades] = useState<LotTrade[]>([]);
+  const [method, setMethod] = useState<CostBasisMethod>('FIFO');
+  const [loading, setLoading] = useState(false);
+  const [statementYear, setStatementYear] = useState(new Date().getUTCFullYear());
+
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([taxLotsService.getLotTrades(user.id), taxLotsService.getCostBasisMethod(user.id)])
+      .then(([loadedTrades, loadedMethod]) => {
+        if (cancelled) return;
+        setTrades(loadedTrades);
+        setMethod(loadedMethod);
+      })
+      .catch(error => console.error('Error loading tax lots:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user?.id]);
+
+  const ledger = useMemo(() => buildTaxLots(trades, method), [trades, method]);
+  const clubLots = ledger.openLots.filter(lot => lot.teamId === teamId);
+  const realized = summarizeRealizedPnl(ledger.disposals.filter(d => d.teamId === teamId))[0];
+  const unrealized = calculateUnrealizedPnl(clubLots, currentPrices)[0];
+
+  const years = useMemo(() => {
+    const current = new Date().getUTCFullYear();
+    const first = trades.reduce((min, t) => Math.min(min, new Date(t.executedAt).getUTCFullYear()), current);
+    return Array.from({ length: current - first + 1 }, (_, i) => current - i);
+  }, [trades]);
+
+  const handleMethodChange = async (value: string) => {
+    if (!user?.id) return;
+    const previous = method;
+    setMethod(value as CostBasisMethod);
+    try {
+      await taxLotsService.setCostBasisMethod(user.id, value as CostBasisMethod);
+    } catch (error) {
+      setMethod(previous);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update cost basis method',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    const statement = buildAnnualStatement(trades, method, statementYear, currentPrices);
+    const blob = new Blob([annualStatementToCsv(statement)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `realized-pnl-${statementYear}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handlePrintPdf = () => {
+    const statement = buildAnnualStatement(trades, method, statementYear, currentPrices);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast({ title: 'Pop-up blocked', description: 'Allow pop-ups to save the statement as PDF', variant: 'destructive' });
+      return;
+    }
+    printWindow.document.write(statementToHtml(statement));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-700/50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-semibold text-white">Tax Lots</h3>
+        <Select value={method} onValueChange={handleMethodChange} disabled={loading}>
+          <SelectTrigger className="w-48 bg-gray-800 border-gray-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(COST_BASIS_METHODS) as CostBasisMethod[]).map(m => (
+              <SelectItem key={m} value={m}>{COST_BASIS_METHODS[m]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div className="text-center">
+          <p className="text-gray-400 mb-1">Realized P&amp;L</p>
+          <p className={`font-bold ${pnlClass(realized?.realizedCents ?? 0)}`}>{formatCurrency(centsToDollars(realized?.realizedCents ?? 0))}</p>
+        </div>
+        <div className="text-center">
+          <p className="text-gray-400 mb-1">Unrealized P&amp;L</p>
+          <p className={`font-bold ${pnlClass(unrealized?.unrealizedCents ?? 0)}`}>{formatCurrency(centsToDollars(unrealized?.unrealizedCents ?? 0))}</p>
+        </div>
+        <div className="text-center">
+          <p className="text-gray-400 mb-1">Lot Cost Basis</p>
+          <p className="font-bold text-white">{formatCurrency(centsToDollars(unrealized?.costBasisCents ?? 0))}</p>
+        </div>
+      </div>
+
+      {clubLots.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-600 text-gray-400">
+              <th className="text-left p-2 font-medium">Acquired</th>
+              <th className="text-right p-2 font-medium">Units</th>
+              <th className="text-right p-2 font-medium">Cost/Unit</th>
+              <th className="text-right p-2 font-medium">Cost Basis</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clubLots.map(lot => (
+              <tr key={lot.tradeId} className="border-b border-gray-700">
+                <td className="p-2">{formatDate(lot.acquiredAt)}</td>
+                <td className="p-2 text-right">{formatNumber(lot.quantity)}</td>
+                <td className="p-2 text-right">{formatCurrency(centsToDollars(lot.costCents) / lot.quantity)}</td>
+                <td className="p-2 text-right">{formatCurrency(centsToDollars(lot.costCents))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-600/50">
+        <span className="text-sm text-gray-400 mr-auto">Annual statement (all clubs)</span>
+        <Select value={String(statementYear)} onValueChange={value => setStatementYear(Number(value))}>
+          <SelectTrigger className="w-24 bg-gray-800 border-gray-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {years.map(year => (
+              <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleDownloadCsv} disabled={loading}>
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={handlePrintPdf} disabled={loading}>
+          <FileText className="h-4 w-4 mr-1" />
+          PDF
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TaxLotsSection;
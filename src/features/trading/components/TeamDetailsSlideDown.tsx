@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { positionsService, fixturesService } from '@/shared/lib/database';
 import type { DatabasePositionWithTeam } from '@/shared/types/database.types';
 import type { DatabaseFixture } from '@/shared/lib/services/fixtures.service';
@@ -14,6 +15,10 @@ import {
   calculatePriceImpactPercent
 } from '@/shared/lib/utils/calculations';
 import { toDecimal, roundForDisplay, fromCents } from '@/shared/lib/utils/decimal';
+import { clubPath } from '@/shared/lib/utils/app-routes';
+import { seasonSimulationService } from '@/shared/lib/season-simulation';
+import type { ClubForecast } from '@/shared/lib/utils/season-forecast';
+import P2POrderBookPanel from './P2POrderBookPanel';
 
 /** Shape from TeamDetailsModal's matchHistory for pre-loaded data */
 export interface InitialMatchHistoryItem {
@@ -43,6 +48,9 @@ interface TeamDetailsSlideDownProps {
   currentPercentChange?: number; // Current percent change from club data for consistent display
 }
 
+/** Simulated seasons behind the club forecast tab (shared cache with the simulation page) */
+const CLUB_FORECAST_ITERATIONS = 1000;
+
 // Utility functions
 const extractOpponentName = (eventDescription?: string): string => {
   if (!eventDescription) return '';
@@ -119,19 +127,45 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
   launchPrice,
   currentPrice,
   currentPercentChange
-}) => {  const [activeTab, setActiveTab] = useState<'matches' | 'upcoming' | 'chart'>('matches');
+}) => {  const [activeTab, setActiveTab] = useState<'matches' | 'upcoming' | 'chart' | 'forecast' | 'orderbook'>('matches');
   const [matchHistory, setMatchHistory] = useState<any[]>(() =>
     initialMatchHistory?.length ? mapInitialMatchHistory(initialMatchHistory) : []
   );
   const [upcomingMatches, setUpcomingMatches] = useState<any[]>([]);
   const [userPosition, setUserPosition] = useState<DatabasePositionWithTeam | null>(initialUserPosition ?? null);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [loading, setLoading] = useState({ matches: false, upcoming: false, chart: false });
+  const [forecast, setForecast] = useState<{ club: ClubForecast | null; iterations: number; remainingFixtures: number } | null>(null);
+  const [loading, setLoading] = useState({ matches: false, upcoming: false, chart: false, forecast: false });
 
   const fixtures = parentFixtures || [];
   const teams = parentTeams || [];
   const hasInitialMatchHistory = (initialMatchHistory?.length ?? 0) > 0;
+  const navTeam = teams.find(t => t.id === teamId);
+  const navPrice = currentPrice && currentPrice > 0
+    ? currentPrice
+    : navTeam
+      ? roundForDisplay(toDecimal(navTeam.market_cap).dividedBy(teamsMarketCapInDollars ? 1 : 100).dividedBy(navTeam.total_shares || 1000))
+      : 0;
+
 
+  const loadForecast = useCallback(async () => {
+    if (!teamId) return;
+
+    setLoading(prev => ({ ...prev, forecast: true }));
+    try {
+      const result = await seasonSimulationService.forecastSeason({ iterations: CLUB_FORECAST_ITERATIONS });
+      setForecast({
+        club: result.clubs.find(club => club.teamId === teamId) ?? null,
+        iterations: result.iterations,
+        remainingFixtures: result.remainingFixtures
+      });
+    } catch (error) {
+      console.error('Error loading season forecast:', error);
+      setForecast(null);
+    } finally {
+      setLoading(prev => ({ ...prev, forecast: false }));
+    }
+  }, [teamId]);
 
   const loadChartData = useCallback(async () => {
     if (!teamId) return;
@@ -439,6 +473,13 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
       loadChartData();
     }
   }, [activeTab, teamId, loadChartData, chartData.length, loading.chart]);
+
+  // Run (or reuse) the season forecast when switching to forecast tab
+  useEffect(() => {
+    if (activeTab === 'forecast' && teamId && !forecast && !loading.forecast) {
+      loadForecast();
+    }
+  }, [activeTab, teamId, loadForecast, forecast, loading.forecast]);
   // Reset data when panel closes
   useEffect(() => {
     if (!isOpen) {
@@ -447,6 +488,7 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
       setUpcomingMatches([]);
       setUserPosition(null);
       setChartData([]);
+      setForecast(null);
     }
   }, [isOpen]);
 
@@ -530,6 +572,32 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
                 >
                   Price Chart
                 </button>
+                <button
+                  onClick={() => setActiveTab('forecast')}
+                  className={`px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold transition-colors border-b-2 touch-manipulation ${
+                    activeTab === 'forecast'
+                      ? 'border-trading-primary text-foreground'
+                      : 'border-transparent text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  Forecast
+                </button>
+                <button
+                  onClick={() => setActiveTab('orderbook')}
+                  className={`px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-semibold transition-colors border-b-2 touch-manipulation ${
+                    activeTab === 'orderbook'
+                      ? 'border-trading-primary text-foreground'
+                      : 'border-transparent text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  Order Book
+                </button>
+                <Link
+                  to={clubPath(teamId, 'history')}
+                  className="ml-auto px-2 py-1.5 text-xs text-muted-foreground hover:text-trading-primary transition-colors"
+                >
+                  Full history
+                </Link>
               </div>
 
               {loading.matches && activeTab === 'matches' ? (
@@ -544,6 +612,11 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
                 <div className="flex items-center justify-center py-12">
                   <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'hsl(var(--muted-foreground))' }} />
                 </div>
+              ) : loading.forecast && activeTab === 'forecast' ? (
+                <div className="flex flex-col items-center justify-center py-12 gap-2">
+                  <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'hsl(var(--muted-foreground))' }} />
+                  <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>Simulating remaining season...</p>
+                </div>
               ) : (
                 <>
                   {activeTab === 'matches' && (
@@ -750,7 +823,72 @@ const TeamDetailsSlideDown: React.FC<TeamDetailsSlideDownProps> = ({
                         </>
                       )}
                     </div>
-                  )}                  {activeTab === 'upcoming' && (
+                  )}
+
+                  {activeTab === 'forecast' && (
+                    <div className="space-y-3">
+                      {!forecast?.club || forecast.club.remainingFixtures === 0 ? (
+                        <div className="text-center py-8">
+                          <p className="text-xs sm:text-sm" style={{ color: 'hsl(var(--muted-foreground))' }}>No remaining fixtures to forecast</p>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-3 gap-2 sm:gap-3">
+                            <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+                              <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Median Final Price</p>
+                              <p className={`text-xs sm:text-sm font-semibold font-mono ${forecast.club.median >= forecast.club.currentPrice ? 'price-positive' : 'price-negative'}`}>
+                                {formatCurrency(forecast.club.median)}
+                              </p>
+                            </div>
+                            <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+                              <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Chance Above Now</p>
+                              <p className="text-xs sm:text-sm font-semibold font-mono">
+                                {Math.round(forecast.club.probabilityAbove * 100)}%
+                              </p>
+                            </div>
+                            <div className="p-2 sm:p-3 rounded border border-gray-800/30">
+                              <p className="text-[9px] sm:text-xs mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Expected Market Cap</p>
+                              <p className="text-xs sm:text-sm font-semibold font-mono">
+                                {formatCurrency(fromCents(forecast.club.expectedFinalCapCents).toNumber())}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-5 gap-1 text-center rounded border border-gray-800/30 p-2 sm:p-3">
+                            {([
+                              ['5%', forecast.club.p5],
+                              ['25%', forecast.club.p25],
+                              ['Median', forecast.club.median],
+                              ['75%', forecast.club.p75],
+                              ['95%', forecast.club.p95]
+                            ] as const).map(([label, price]) => (
+                              <div key={label}>
+                                <p className="text-[9px] sm:text-[10px] text-gray-400 mb-0.5">{label}</p>
+                                <p className="text-[11px] sm:text-xs font-semibold font-mono text-white">{formatCurrency(price)}</p>
+                              </div>
+                            ))}
+                          </div>
+
+                          <p className="text-[10px] sm:text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                            Final share price range from {forecast.iterations.toLocaleString()} simulated seasons
+                            ({forecast.club.remainingFixtures} {teamName} fixtures left), starting from {formatCurrency(forecast.club.currentPrice)}.
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {activeTab === 'orderbook' && (
+                    <P2POrderBookPanel
+                      teamId={teamId}
+                      teamName={teamName}
+                      userId={userId}
+                      navPrice={navPrice}
+                      availableQuantity={Math.max(0, (userPosition?.quantity ?? 0) - (userPosition?.reserved_quantity ?? 0))}
+                    />
+                  )}
+
+                  {activeTab === 'upcoming' && (
                     <div className="space-y-2 sm:space-y-3">
                       {upcomingMatches.length === 0 ? (
                         <div className="text-center py-8">
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { OrderWithImpact, TeamOrdersData } from '@/shared/lib/services/types';
 import { TeamOrdersService } from '@/shared/lib/services/team-orders.service';
+import { ordersService, type DatabaseOrder } from '@/shared/lib/services/orders.service';
 import { supabase } from '@/shared/lib/supabase';
 import { fromCents } from '@/shared/lib/utils/decimal';
 
@@ -20,6 +21,7 @@ export const TeamOrdersModal: React.FC<TeamOrdersModalProps> = ({
   const [teamData, setTeamData] = useState<TeamOrdersData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [openLimitOrders, setOpenLimitOrders] = useState<DatabaseOrder[]>([]);
 
   useEffect(() => {
     if (isOpen && teamId) {
@@ -47,6 +49,10 @@ export const TeamOrdersModal: React.FC<TeamOrdersModalProps> = ({
       // Get market cap timeline
       const marketCapTimeline = await TeamOrdersService.getTeamMarketCapTimeline(teamId);
 
+      // Resting limit orders (not yet executed, so not part of the order history)
+      const limitOrders = await ordersService.getTeamOpenLimitOrders(teamId);
+      setOpenLimitOrders(limitOrders);
+
       const totalCashAdded = ordersWithImpact.reduce((sum, order) => sum + order.cash_added_to_market_cap, 0);
       const totalSharesTraded = ordersWithImpact.reduce((sum, order) => sum + order.quantity, 0);
 
@@ -127,6 +133,28 @@ export const TeamOrdersModal: React.FC<TeamOrdersModalProps> = ({
                 </div>
               </div>
 
+              {/* Resting Limit Orders */}
+              {openLimitOrders.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Resting Limit Orders</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {openLimitOrders.map(order => (
+                      <div key={order.id} className="p-3 flex justify-between items-center text-sm">
+                        <span className={`font-semibold ${order.order_type === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>
+                          {order.order_type === 'BUY' ? 'Buy' : 'Sell'} {order.quantity} shares
+                        </span>
+                        <span className="text-gray-700">
+                          Limit ${fromCents(order.limit_price || 0).toNumber().toFixed(2)}
+                        </span>
+                        <span className="text-gray-500">
+                          {order.expires_at ? `Expires ${new Date(order.expires_at).toLocaleDateString()}` : 'Good until cancelled'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Orders Timeline */}
               <div className="mb-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Order History & Impact</h3>
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader } from '@/shared/components/ui/dial
 import { Transaction } from '@/shared/constants/clubs';
 import { formatCurrency, formatNumber } from '@/shared/lib/formatters';
 import TeamLogo from '@/shared/components/TeamLogo';
+import TaxLotsSection from './TaxLotsSection';
 
 interface TransactionHistoryModalProps {
   isOpen: boolean;
@@ -12,6 +13,7 @@ interface TransactionHistoryModalProps {
   externalId?: number;
   transactions: Transaction[];
   averagePrice?: number; // Average cost basis from positions table (total_invested / quantity)
+  currentPrices?: Map<number, number>; // Current share price (dollars) per team id, for unrealized P&L
 }
 
 const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
@@ -21,7 +23,8 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
   clubId,
   externalId,
   transactions,
-  averagePrice
+  averagePrice,
+  currentPrices
 }) => {
   // Calculate total units: add buys, subtract sells
   const totalUnits = transactions.reduce((sum, t) => {
@@ -69,6 +72,14 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
           </div>
         </div>
 
+        {clubId && (
+          <TaxLotsSection
+            isOpen={isOpen}
+            teamId={parseInt(clubId)}
+            currentPrices={currentPrices ?? new Map()}
+          />
+        )}
+
         <div className="max-h-96 overflow-y-auto">
           <table className="w-full text-sm">
             <thead className="sticky top-0 bg-gray-800">
@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Badge } from '@/shared/components/ui/badge';
+import { formatCurrency } from '@/shared/lib/formatters';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { ArrowUpRight, Loader2, AlertCircle } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { withdrawalsService, type DatabaseWithdrawal } from '@/shared/lib/services/withdrawals.service';
+import { MIN_WITHDRAWAL_CENTS, validateWithdrawalAmount, type WithdrawalStatus } from '@/shared/lib/utils/withdrawals';
+
+interface WithdrawModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  requested: 'Pending review',
+  approved: 'Processing',
+  rejected: 'Rejected',
+  paid: 'Paid',
+  failed: 'Failed',
+};
+
+export const WithdrawModal: React.FC<WithdrawModalProps> = ({ isOpen, onClose, onSuccess }) => {
+  const { user, walletBalance, refreshWalletBalance } = useAuth();
+  const [withdrawAmount, setWithdrawAmount] = useState<string>('');
+  const [recentWithdrawals, setRecentWithdrawals] = useState<DatabaseWithdrawal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const withdrawAmountNum = parseFloat(withdrawAmount) || 0;
+
+  const loadWithdrawals = useCallback(async () => {
+    if (!user) return;
+    try {
+      setRecentWithdrawals(await withdrawalsService.getUserWithdrawals(user.id, 5));
+    } catch (err) {
+      console.error('Error loading withdrawals:', err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadWithdrawals();
+    }
+  }, [isOpen, loadWithdrawals]);
+
+  const handleAmountChange = (value: string) => {
+    // Only allow numbers and one decimal point
+    const cleaned = value.replace(/[^\d.]/g, '');
+    const parts = cleaned.split('.');
+    if (parts.length > 2) return; // Only one decimal point allowed
+    if (parts[1] && parts[1].length > 2) return; // Max 2 decimal places
+    setWithdrawAmount(cleaned);
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    const validation = validateWithdrawalAmount(withdrawAmountNum, walletBalance);
+    if (!validation.valid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await withdrawalsService.requestWithdrawal(user.id, withdrawAmountNum);
+      await refreshWalletBalance();
+      window.dispatchEvent(new CustomEvent('wallet-balance-changed'));
+
+      toast({
+        title: 'Withdrawal Requested',
+        description: `${formatCurrency(withdrawAmountNum)} has been reserved from your wallet and is awaiting review.`,
+      });
+
+      setWithdrawAmount('');
+      onSuccess?.();
+      onClose();
+    } catch (err) {
+      console.error('Withdrawal error:', err);
+      setError(err instanceof Error ? err.message : 'Withdrawal failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-gray-800/95 backdrop-blur-md border border-trading-primary/30 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-center gradient-text flex items-center justify-center gap-2">
+            <ArrowUpRight className="w-5 h-5" />
+            Withdraw Funds
+          </DialogTitle>
+          <DialogDescription className="text-center text-gray-400">
+            Withdrawals are reviewed by an admin and paid out to your connected account. The amount is held from
+            your wallet until then and refunded if the withdrawal is rejected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div>
+            <Label htmlFor="withdraw-amount" className="text-gray-300 mb-2 block">
+              Withdrawal Amount
+            </Label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">$</span>
+              <Input
+                id="withdraw-amount"
+                type="text"
+                value={withdrawAmount}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                placeholder="0.00"
+                className="pl-8 bg-gray-700/50 border-gray-600 text-white"
+              />
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Available: {formatCurrency(walletBalance)} · Minimum: {formatCurrency(MIN_WITHDRAWAL_CENTS / 100)}
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm bg-red-900/20 border border-red-700/50 rounded p-3">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!user || isLoading || withdrawAmountNum < MIN_WITHDRAWAL_CENTS / 100}
+            className="w-full bg-gradient-primary hover:bg-gradient-primary/80 text-white font-semibold"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              `Request ${formatCurrency(withdrawAmountNum)} withdrawal`
+            )}
+          </Button>
+
+          {recentWithdrawals.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-gray-700/50">
+              <p className="text-sm text-gray-300">Recent withdrawals</p>
+              {recentWithdrawals.map((withdrawal) => (
+                <div key={withdrawal.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="text-white">{formatCurrency(withdrawal.amount_cents / 100)}</span>
+                    <span className="text-xs text-gray-400 ml-2">
+                      {new Date(withdrawal.requested_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <Badge
+                    variant={withdrawal.status === 'rejected' || withdrawal.status === 'failed' ? 'destructive' : 'secondary'}
+                    title={withdrawal.rejection_reason || withdrawal.failure_reason || undefined}
+                  >
+                    {STATUS_LABELS[withdrawal.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
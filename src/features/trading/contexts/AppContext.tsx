@@ -16,6 +16,7 @@ import { realtimeService } from '@/shared/lib/services/realtime.service';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import { calculateSharePrice, calculateTotalValue, calculateProfitLoss, calculateAverageCost } from '@/shared/lib/utils/calculations';
 import { toCents, fromCents, Decimal, roundForDisplay } from '@/shared/lib/utils/decimal';
+import { validateLimitOrderInput } from '@/shared/lib/utils/limit-orders';
 
 interface AppContextType {
   sidebarOpen: boolean;
@@ -32,10 +33,10 @@ interface AppContextType {
   totalProfitLoss: number;
   totalDeposits: number;
   walletBalance: number;
-  currentPage: string;
-  setCurrentPage: (page: string) => void;
   purchaseClub: (clubId: string, units: number) => Promise<void>;
   sellClub: (clubId: string, units: number) => Promise<void>;
+  placeLimitOrder: (clubId: string, side: 'BUY' | 'SELL', units: number, limitPrice: number, expiresAt?: string | null) => Promise<void>;
+  cancelLimitOrder: (orderId: number) => Promise<void>;
   simulateMatch: () => void;
   getTransactionsByClub: (clubId: string) => Transaction[];
   loading: boolean;
@@ -61,10 +62,10 @@ const defaultAppContext: AppContextType = {
   totalProfitLoss: 0,
   totalDeposits: 0,
   walletBalance: 0,
-  currentPage: 'marketplace',
-  setCurrentPage: () => {},
   purchaseClub: async () => {},
   sellClub: async () => {},
+  placeLimitOrder: async () => {},
+  cancelLimitOrder: async () => {},
   simulateMatch: () => {},
   getTransactionsByClub: () => [],
   loading: true,
@@ -95,7 +96,6 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
   const [clubs, setClubs] = useState<Club[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
   const [portfolio, setPortfolio] = useState<PortfolioItem[]>([]);
-  const [currentPage, setCurrentPage] = useState('marketplace');
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [standings, setStandings] = useState<Standing[]>([]);
   const [topScorers, setTopScorers] = useState<Scorer[]>([]);
@@ -136,6 +136,9 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
       const convertedClubs = dbTeams.map(convertTeamToClub);
       logger.db('Converted teams to clubs', { count: convertedClubs.length });
       setClubs(convertedClubs);
+
+      // Trading window rules for the synchronous buy window checks
+      await buyWindowService.refreshTradingWindowConfig();
       
       // Load user portfolio from positions table
       const dbPositions = await positionsService.getUserPositions(user.id);
@@ -612,6 +615,8 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
           errorMessage = 'Price has changed. Please refresh and try again.';
         } else if (errorMessage.includes('Team not found')) {
           errorMessage = 'Team not found. Please refresh the page.';
+        } else if (errorMessage.includes('Trading is closed')) {
+          errorMessage = 'Trading is currently closed for this club.';
         }
         
         throw new DatabaseError(errorMessage);
@@ -705,8 +710,11 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
       const userPositions = await positionsService.getUserPositions(user.id);
       const userPosition = userPositions.find(p => p.team_id === teamIdInt);
       
-      if (!userPosition || userPosition.quantity < units) {
-        throw new BusinessLogicError(`You do not have enough shares to sell. You own ${userPosition?.quantity || 0} share(s).`);
+      // Shares committed to resting SELL limit orders cannot be sold again
+      const reservedShares = userPosition?.reserved_quantity || 0;
+      if (!userPosition || userPosition.quantity - reservedShares < units) {
+        const reservedNote = reservedShares > 0 ? ` (${reservedShares} reserved by open limit orders)` : '';
+        throw new BusinessLogicError(`You do not have enough shares to sell. You own ${userPosition?.quantity || 0} share(s)${reservedNote}.`);
       }
 
       // Calculate proper NAV using total_shares (fixed at 1000) - Fixed Shares Model
@@ -799,6 +807,8 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
           errorMessage = 'Price has changed. Please refresh and try again.';
         } else if (errorMessage.includes('Team not found')) {
           errorMessage = 'Team not found. Please refresh the page.';
+        } else if (errorMessage.includes('Trading is closed')) {
+          errorMessage = 'Trading is currently closed for this club.';
         }
         
         throw new DatabaseError(errorMessage);
@@ -839,7 +849,7 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
       
       toast({
         title: "Sale Successful",
-        description: `Successfully sold ${units} share(s) of ${team.name} at $${nav.toFixed(2)} per share. $${totalProceeds.toFixed(2)} has been credited to your wallet.`,
+        description: `Successfully sold ${units} share(s) of ${team.name} at $${nav.toFixed(2)} per share. $${totalProceeds.toFixed(2)} (less trading fees) has been credited to your wallet.`,
         variant: "default",
       });
 
@@ -857,6 +867,94 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
     }
   }, 'sellClub');
 
+  const placeLimitOrder = withErrorHandling(async (
+    clubId: string,
+    side: 'BUY' | 'SELL',
+    units: number,
+    limitPrice: number,
+    expiresAt?: string | null
+  ) => {
+    if (!user) {
+      throw new AuthenticationError('You must be logged in to place limit orders');
+    }
+
+    const teamIdInt = parseInt(clubId);
+    if (isNaN(teamIdInt)) {
+      throw new ValidationError('Invalid club ID format');
+    }
+
+    const validation = validateLimitOrderInput({
+      side,
+      quantity: units,
+      limitPrice,
+      expiresAt
+    });
+    if (!validation.valid) {
+      throw new ValidationError(validation.errors[0]);
+    }
+
+    try {
+      const { ordersService } = await import('@/shared/lib/database');
+      const { reserved_cents } = await ordersService.placeLimitOrder({
+        userId: user.id,
+        teamId: teamIdInt,
+        orderType: side,
+        quantity: units,
+        limitPrice,
+        expiresAt
+      });
+
+      await loadData();
+      window.dispatchEvent(new CustomEvent('wallet-balance-changed'));
+      window.dispatchEvent(new CustomEvent('limit-orders-changed'));
+
+      const reservedNote = side === 'BUY'
+        ? ` $${fromCents(reserved_cents).toFixed(2)} has been reserved from your wallet.`
+        : ` ${units} share(s) have been reserved.`;
+      toast({
+        title: "Limit Order Placed",
+        description: `${side === 'BUY' ? 'Buy' : 'Sell'} ${units} share(s) at $${limitPrice.toFixed(2)} or better.${reservedNote}`,
+        variant: "default",
+      });
+    } catch (error) {
+      logger.error('Error placing limit order:', error);
+
+      if (error instanceof Error) {
+        let message = error.message;
+        if (message.includes('Insufficient balance')) {
+          message = 'Insufficient wallet balance to reserve this order.';
+        } else if (message.includes('Insufficient shares')) {
+          message = 'You do not have enough unreserved shares for this order.';
+        }
+        throw new BusinessLogicError(message);
+      }
+      throw new DatabaseError('Failed to place limit order. Please try again.');
+    }
+  }, 'placeLimitOrder');
+
+  const cancelLimitOrder = withErrorHandling(async (orderId: number) => {
+    if (!user) {
+      throw new AuthenticationError('You must be logged in to cancel limit orders');
+    }
+
+    try {
+      const { ordersService } = await import('@/shared/lib/database');
+      await ordersService.cancelLimitOrder(orderId, user.id);
+
+      await loadData();
+      window.dispatchEvent(new CustomEvent('wallet-balance-changed'));
+      window.dispatchEvent(new CustomEvent('limit-orders-changed'));
+
+      toast({
+        title: "Limit Order Cancelled",
+        description: "Your reservation has been released.",
+      });
+    } catch (error) {
+      logger.error('Error cancelling limit order:', error);
+      throw new BusinessLogicError(error instanceof Error ? error.message : 'Failed to cancel limit order');
+    }
+  }, 'cancelLimitOrder');
+
   const simulateMatch = withErrorHandling(async () => {
     try {
       // Get fixtures that need processing
@@ -950,10 +1048,10 @@ const AppProviderInner: React.FC<{ children: React.ReactNode }> = ({ children })
         totalProfitLoss,
         totalDeposits: 0, // This is now in AuthContext
         walletBalance: 0, // This is now in AuthContext
-        currentPage,
-        setCurrentPage,
         purchaseClub,
         sellClub,
+        placeLimitOrder,
+        cancelLimitOrder,
         simulateMatch,
         getTransactionsByClub,
         loading,
@@ -0,0 +1,118 @@
+// Monthly account statement export (CSV / JSON / PDF), for users and for admins on behalf of a user
+import React, { useMemo, useState } from 'react';
+import { Download, FileJson, FileText } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { useToast } from '@/shared/hooks/use-toast';
+import { accountStatementService } from '@/shared/lib/services/account-statement.service';
+import {
+  accountStatementToCsv,
+  accountStatementToHtml,
+  accountStatementToJson,
+  formatStatementPeriod,
+  type AccountStatement
+} from '@/shared/lib/utils/account-statement';
+
+type ExportFormat = 'csv' | 'json' | 'pdf';
+
+/** Months offered, counting back from the current one */
+const STATEMENT_MONTHS = 24;
+
+interface AccountStatementExportProps {
+  userId: string;
+  className?: string;
+  triggerClassName?: string;
+}
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const AccountStatementExport: React.FC<AccountStatementExportProps> = ({ userId, className, triggerClassName }) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const months = useMemo(() => {
+    const now = new Date();
+    return Array.from({ length: STATEMENT_MONTHS }, (_, i) => {
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+      const period = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1 };
+      return { value: `${period.year}-${String(period.month).padStart(2, '0')}`, label: formatStatementPeriod(period), ...period };
+    });
+  }, []);
+  const [selected, setSelected] = useState(months[0].value);
+
+  const handleExport = async (format: ExportFormat) => {
+    const period = months.find(m => m.value === selected) ?? months[0];
+    // Open the print window before awaiting so pop-up blockers allow it
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    if (format === 'pdf' && !printWindow) {
+      toast({ title: 'Pop-up blocked', description: 'Allow pop-ups to save the statement as PDF', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setExporting(format);
+      const statement: AccountStatement = await accountStatementService.getMonthlyStatement(userId, period.year, period.month);
+      const filename = `account-statement-${statement.accountName}-${period.value}`;
+
+      if (format === 'csv') {
+        downloadFile(accountStatementToCsv(statement), 'text/csv;charset=utf-8;', `${filename}.csv`);
+      } else if (format === 'json') {
+        downloadFile(accountStatementToJson(statement), 'application/json', `${filename}.json`);
+      } else if (printWindow) {
+        printWindow.document.write(accountStatementToHtml(statement));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      }
+    } catch (error) {
+      printWindow?.close();
+      console.error('Error exporting account statement:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to build account statement',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className ?? ''}`}>
+      <Select value={selected} onValueChange={setSelected}>
+        <SelectTrigger className={`w-40 ${triggerClassName ?? ''}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {months.map(m => (
+            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+        <Download className="h-4 w-4 mr-1" />
+        CSV
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={exporting !== null}>
+        <FileJson className="h-4 w-4 mr-1" />
+        JSON
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={exporting !== null}>
+        <FileText className="h-4 w-4 mr-1" />
+        PDF
+      </Button>
+    </div>
+  );
+};
+
+export default AccountStatementExport;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { formatCurrency } from '@/shared/lib/formatters';
+import type { LiveProjection } from '@/shared/lib/utils/live-projections';
+
+interface ProjectedPriceBadgeProps {
+  projection: LiveProjection;
+  /** Hide the scoreline (e.g. when it is already shown next to the badge) */
+  hideScore?: boolean;
+  /** Projected price only, for narrow mobile columns */
+  compact?: boolean;
+  className?: string;
+}
+
+export const ProjectedPriceBadge: React.FC<ProjectedPriceBadgeProps> = ({
+  projection,
+  hideScore = false,
+  compact = false,
+  className = ''
+}) => {
+  const change = projection.projectedChangePercent;
+  const changeClass = change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-gray-300';
+
+  if (compact) {
+    return (
+      <span
+        className={`inline-flex items-center gap-0.5 text-[9px] font-medium whitespace-nowrap ${changeClass} ${className}`}
+        title="Projected share price if the current score is the final score"
+      >
+        <span className="w-1 h-1 rounded-full bg-yellow-400 animate-pulse" />
+        {formatCurrency(projection.projectedPrice)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border border-yellow-500/40 bg-yellow-500/10 px-2 py-0.5 text-[10px] font-medium whitespace-nowrap ${className}`}
+      title="Projected share price if the current score is the final score"
+    >
+      <span className="w-1.5 h-1.5 rounded-full bg-yellow-400 animate-pulse" />
+      {!hideScore && (
+        <span className="text-yellow-400 font-mono">{projection.homeScore}-{projection.awayScore}</span>
+      )}
+      <span className="text-white">{formatCurrency(projection.projectedPrice)}</span>
+      <span className={changeClass}>
+        ({change > 0 ? '+' : ''}{change.toFixed(2)}%)
+      </span>
+    </span>
+  );
+};
+
+export default ProjectedPriceBadge;
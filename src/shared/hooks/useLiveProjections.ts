@@ -0,0 +1,92 @@
+// Live Projections Hook
+// Projected post-match share prices for clubs playing right now
+
+import { useEffect, useState } from 'react';
+import { fixturesService } from '../lib/services/fixtures.service';
+import { transferRulesService } from '../lib/services/transfer-rules.service';
+import { footballApiService } from '../lib/football-api';
+import { competitionsService } from '../lib/services/competitions.service';
+import { logger } from '../lib/logger';
+import {
+  buildLiveProjections,
+  type LiveApiScore,
+  type LiveProjection,
+  type LiveTeam
+} from '../lib/utils/live-projections';
+
+/** Score polling while a match is in progress */
+const LIVE_REFRESH_MS = 60 * 1000;
+/** Check for kickoffs while nothing is being played */
+const IDLE_REFRESH_MS = 5 * 60 * 1000;
+
+const loadApiScores = async (): Promise<LiveApiScore[]> => {
+  try {
+    const competitions = await competitionsService.getAll();
+    const matches = await footballApiService.getLiveMatches(
+      competitions.length > 0 ? competitions.map(competition => competition.code) : undefined
+    );
+    return matches.map(match => ({
+      externalId: match.id,
+      status: match.status,
+      homeScore: match.score.fullTime.home,
+      awayScore: match.score.fullTime.away
+    }));
+  } catch (error) {
+    // Fixture rows still carry the score from the last update-matches run
+    logger.warn('Live scores unavailable, using stored fixture scores:', error);
+    return [];
+  }
+};
+
+export const useLiveProjections = () => {
+  const [projections, setProjections] = useState<Map<number, LiveProjection>>(new Map());
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const refresh = async () => {
+      let next = IDLE_REFRESH_MS;
+      try {
+        const fixtures = await fixturesService.getInProgress();
+        if (fixtures.length === 0) {
+          if (!cancelled) setProjections(new Map());
+        } else {
+          const [ruleSet, apiScores] = await Promise.all([
+            transferRulesService.getActiveRuleSet(),
+            loadApiScores()
+          ]);
+          const teams = new Map<number, LiveTeam>();
+          for (const fixture of fixtures) {
+            teams.set(fixture.home_team.id, fixture.home_team);
+            teams.set(fixture.away_team.id, fixture.away_team);
+          }
+          if (!cancelled) {
+            setProjections(buildLiveProjections(fixtures, teams, apiScores, ruleSet));
+            setLastUpdated(new Date());
+          }
+          next = LIVE_REFRESH_MS;
+        }
+      } catch (error) {
+        logger.error('Error loading live projections:', error);
+      }
+      if (!cancelled) {
+        timer = setTimeout(refresh, next);
+      }
+    };
+
+    refresh();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return {
+    projections,
+    lastUpdated,
+    hasLiveMatches: projections.size > 0
+  };
+};
@@ -0,0 +1,61 @@
+// Trade Fee Quote Hook
+// Up-front trading fee for the confirmation modals, priced with the same
+// engine the database applies when the trade executes
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/features/auth/contexts/AuthContext';
+import { tradingFeesService, type TradeFeeContext } from '../lib/services/trading-fees.service';
+import { calculateTradeFee, type FeeSide, type TradeFeeResult } from '../lib/utils/trading-fees';
+import { fromCents, toCents } from '../lib/utils/decimal';
+
+export interface TradeFeeQuote extends TradeFeeResult {
+  /** Fee in dollars */
+  fee: number;
+  /** Purchase cost or sale proceeds after the fee, in dollars */
+  total: number;
+  scheduleDescription: string;
+}
+
+/**
+ * @param isOpen - Fee context is (re)loaded each time the modal opens
+ * @param side - BUY or SELL
+ * @param amount - Trade amount in dollars (shares x price)
+ */
+export const useTradeFeeQuote = (isOpen: boolean, side: FeeSide, amount: number) => {
+  const { user } = useAuth();
+  const [context, setContext] = useState<TradeFeeContext | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+
+    let cancelled = false;
+    tradingFeesService.getFeeContext(user.id).then(loaded => {
+      if (!cancelled) setContext(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user?.id]);
+
+  const quote = useMemo<TradeFeeQuote | null>(() => {
+    if (!context) return null;
+
+    const result = calculateTradeFee({
+      side,
+      amountCents: toCents(amount),
+      monthlyVolumeCents: context.monthlyVolumeCents,
+      params: context.schedule.params,
+      promotions: context.promotions,
+    });
+
+    return {
+      ...result,
+      fee: fromCents(result.feeCents).toNumber(),
+      total: fromCents(result.totalCents).toNumber(),
+      scheduleDescription: context.schedule.description,
+    };
+  }, [context, side, amount]);
+
+  return { quote, context, loading: isOpen && !context };
+};
@@ -1,105 +1,24 @@
 import { supabase } from './supabase';
 import { supabaseUrl, debugMode } from './env';
 import { apiCache, ApiCacheService } from './api-cache';
-
-// Football Data API v4 types
-export interface FootballMatch {
-  id: number;
-  competition: {
-    id: number;
-    name: string;
-    code: string;
-  };
-  season: {
-    id: number;
-    startDate: string;
-    endDate: string;
-    currentMatchday: number;
-  };
-  utcDate: string;
-  status: 'SCHEDULED' | 'LIVE' | 'IN_PLAY' | 'PAUSED' | 'FINISHED' | 'POSTPONED' | 'SUSPENDED' | 'CANCELLED';
-  matchday: number;
-  stage: string;
-  group: string | null;
-  lastUpdated: string;
-  odds: {
-    msg: string;
-  };
-  score: {
-    winner: 'HOME_TEAM' | 'AWAY_TEAM' | null;
-    duration: string;
-    fullTime: {
-      home: number | null;
-      away: number | null;
-    };
-    halfTime: {
-      home: number | null;
-      away: number | null;
-    };
-  };
-  homeTeam: {
-    id: number;
-    name: string;
-    shortName: string;
-    tla: string;
-    crest: string;
-  };
-  awayTeam: {
-    id: number;
-    name: string;
-    shortName: string;
-    tla: string;
-    crest: string;
-  };
-  referees: Array<{
-    id: number;
-    name: string;
-    type: string;
-    nationality: string;
-  }>;
-}
-
-export interface FootballTeam {
-  id: number;
-  name: string;
-  shortName: string;
-  tla: string;
-  crest: string;
-  website: string;
-  founded: number;
-  clubColors: string;
-  venue: string;
-  lastUpdated: string;
-}
-
-export interface Standing {
-  position: number;
-  team: FootballTeam;
-  playedGames: number;
-  won: number;
-  draw: number;
-  lost: number;
-  points: number;
-  goalsFor: number;
-  goalsAgainst: number;
-  goalDifference: number;
-}
-
-export interface Scorer {
-  player: {
-    id: number;
-    name: string;
-    firstName: string;
-    lastName: string;
-    dateOfBirth: string;
-    nationality: string;
-    position: string;
-  };
-  team: FootballTeam;
-  goals: number;
-  assists: number;
-  penalties: number;
-}
+import { competitionsService } from './services/competitions.service';
+import { PREMIER_LEAGUE_CODE, resolveListedTeamIds } from './utils/competitions';
+import {
+  createFootballDataProvider,
+  mapApiMatchResult,
+  mapApiMatchStatus,
+  parseRecording,
+  resolveFootballDataProviderId,
+  type FootballDataProvider,
+  type FootballMatch,
+  type FootballTeam,
+  type Scorer,
+  type Standing
+} from './football-providers';
+import { buildFixtureUpserts, partitionFixtureUpserts } from './football-providers/fixture-sync';
+
+// Football data types shared with every provider (football-data.org v4 shapes)
+export type { FootballMatch, FootballMatchStatus, FootballTeam, Standing, Scorer } from './football-providers';
 
 export interface HeadToHeadData {
   numberOfMatches: number;
@@ -158,6 +77,58 @@ const FOOTBALL_API_BASE = isProduction
 
   // Debug logging removed for security
 
+// Football data provider (VITE_FOOTBALL_DATA_PROVIDER): football-data (default,
+// through the cache function), api-football, or recorded, which replays
+// VITE_FOOTBALL_RECORDING from football-providers/recordings for offline dev.
+// Team details, team matches and head-to-head are football-data.org only.
+const RECORDINGS = (import.meta as any).glob('./football-providers/recordings/*.json', { import: 'default' }) as Record<string, () => Promise<unknown>>;
+const DEFAULT_RECORDING = 'sample-pl-2025';
+
+let providerPromise: Promise<FootballDataProvider> | null = null;
+
+const loadProvider = async (): Promise<FootballDataProvider> => {
+  const env = (import.meta as any).env ?? {};
+  const provider = resolveFootballDataProviderId(env.VITE_FOOTBALL_DATA_PROVIDER);
+
+  if (provider === 'recorded') {
+    const name = env.VITE_FOOTBALL_RECORDING || DEFAULT_RECORDING;
+    const load = RECORDINGS[`./football-providers/recordings/${name}.json`];
+    if (!load) {
+      throw new Error(`Football data recording "${name}" not found in src/shared/lib/football-providers/recordings`);
+    }
+    return createFootballDataProvider({
+      provider,
+      recording: parseRecording(await load()),
+      now: () => new Date()
+    });
+  }
+
+  if (provider === 'api-football') {
+    return createFootballDataProvider({ provider, apiFootballApiKey: env.VITE_API_FOOTBALL_KEY });
+  }
+
+  // The cache function adds the API key itself
+  const viaProxy = isProduction || isNetlifyDev;
+  if (!viaProxy && !env.VITE_FOOTBALL_API_KEY) {
+    throw new Error('Football API key is required but not configured. Set VITE_FOOTBALL_API_KEY environment variable.');
+  }
+  return createFootballDataProvider({
+    provider,
+    footballDataBaseUrl: FOOTBALL_API_BASE,
+    footballDataApiKey: viaProxy ? undefined : env.VITE_FOOTBALL_API_KEY
+  });
+};
+
+export const getFootballDataProvider = (): Promise<FootballDataProvider> => {
+  if (!providerPromise) {
+    providerPromise = loadProvider().catch(error => {
+      providerPromise = null;
+      throw error;
+    });
+  }
+  return providerPromise;
+};
+
 // Test API connection
 export const testApiConnection = async (): Promise<boolean> => {
   try {
@@ -211,63 +182,29 @@ export const footballApiService = {
   },
 
   async getPremierLeagueMatches(season?: number): Promise<FootballMatch[]> {
-    // Explicitly fetch 2025 season matches
-    const url = `${FOOTBALL_API_BASE}/competitions/PL/matches?season=2025`;
-    
-    const apiKey = (import.meta as any).env?.VITE_FOOTBALL_API_KEY;
-    if (!isProduction && !isNetlifyDev && !apiKey) {
-      throw new Error('Football API key is required but not configured. Set VITE_FOOTBALL_API_KEY environment variable.');
-    }
-    
-    const response = await fetch(url, {
-      headers: (isProduction || isNetlifyDev) ? {} : {
-        'X-Auth-Token': apiKey!
-      }
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Football API error: ${response.status} ${response.statusText}`, errorText);
-      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-    }
+    return this.getCompetitionMatches(PREMIER_LEAGUE_CODE, season);
+  },
 
-    const data = await response.json();
-    return data.matches || [];
+  /** Matches of a competition by football-data.org code (PL, PD, SA, CL) */
+  async getCompetitionMatches(competitionCode: string, season?: number): Promise<FootballMatch[]> {
+    // 2025 season unless another is requested (season rollover)
+    const provider = await getFootballDataProvider();
+    return provider.getMatches(competitionCode, season ?? 2025);
   },
 
   async getMatchDetails(matchId: number): Promise<FootballMatch> {
-    const response = await fetch(
-      `${FOOTBALL_API_BASE}/matches/${matchId}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
+    const provider = await getFootballDataProvider();
+    return provider.getMatch(matchId);
   },
 
   async getPremierLeagueTeams(season?: number): Promise<FootballTeam[]> {
-    // Explicitly fetch 2025 season teams
-    const teamsEndpoint = `${FOOTBALL_API_BASE}/competitions/PL/teams?season=2025`;
-    
-    const apiKey = (import.meta as any).env?.VITE_FOOTBALL_API_KEY;
-    if (!isProduction && !isNetlifyDev && !apiKey) {
-      throw new Error('Football API key is required but not configured. Set VITE_FOOTBALL_API_KEY environment variable.');
-    }
-    
-    const response = await fetch(teamsEndpoint, {
-      headers: (isProduction || isNetlifyDev) ? {} : {
-        'X-Auth-Token': apiKey!
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-    }
+    return this.getCompetitionTeams(PREMIER_LEAGUE_CODE, season);
+  },
 
-    const data = await response.json();
-    return data.teams || [];
+  async getCompetitionTeams(competitionCode: string, season?: number): Promise<FootballTeam[]> {
+    // 2025 season unless another is requested (season rollover)
+    const provider = await getFootballDataProvider();
+    return provider.getTeams(competitionCode, season ?? 2025);
   },
 
   async getCurrentSeason(season?: number): Promise<{ id: number; startDate: string; endDate: string; currentMatchday: number } | null> {
@@ -276,29 +213,9 @@ export const footballApiService = {
       const seasonParam = 2025;
       
       // Get season info from the matches endpoint
-      const response = await fetch(
-        `${FOOTBALL_API_BASE}/competitions/PL/matches?season=${seasonParam}`,
-        {
-          headers: (isProduction || isNetlifyDev) ? {} : {
-            'X-Auth-Token': (() => {
-              const apiKey = (import.meta as any).env?.VITE_FOOTBALL_API_KEY;
-              if (!apiKey) {
-                throw new Error('Football API key is required but not configured. Set VITE_FOOTBALL_API_KEY environment variable.');
-              }
-              return apiKey;
-            })()
-          }
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Football API error: ${response.status} ${response.statusText}`, errorText);
-        throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-      }
+      const provider = await getFootballDataProvider();
+      const matches = await provider.getMatches(PREMIER_LEAGUE_CODE, seasonParam);
 
-      const data = await response.json();
-      
       // Calculate season based on current date (more reliable than API season ID)
       const calculatedSeason = this.calculateCurrentSeason();
       
@@ -307,7 +224,7 @@ export const footballApiService = {
         id: calculatedSeason,
         startDate: `${calculatedSeason}-08-01`,
         endDate: `${calculatedSeason + 1}-05-31`,
-        currentMatchday: data.matches?.length > 0 ? data.matches[0].matchday || 1 : 1
+        currentMatchday: matches.length > 0 ? matches[0].matchday || 1 : 1
       };
     } catch (error) {
       console.error(`Error getting season:`, error);
@@ -361,7 +278,7 @@ export const footballApiService = {
       home_team_id: null, // Will be mapped to our team ID
       away_team_id: null, // Will be mapped to our team ID
       kickoff_at: kickoffTime.toISOString(),
-      buy_close_at: buyCloseTime.toISOString(), // 15 min before kickoff
+      buy_close_at: buyCloseTime.toISOString(), // Default; the database applies the competition's trading window rule
       result: this.convertMatchStatus(match.status, match.score),
       status: this.convertMatchStatusToFixtureStatus(match.status),
       home_score: match.score.fullTime.home,
@@ -371,30 +288,12 @@ export const footballApiService = {
     };
   },
 
-  convertMatchStatus(status: string, score: any): 'home_win' | 'away_win' | 'draw' | 'pending' {
-    if (status !== 'FINISHED') return 'pending';
-    
-    if (!score?.fullTime?.home && score?.fullTime?.home !== 0) return 'pending';
-    if (!score?.fullTime?.away && score?.fullTime?.away !== 0) return 'pending';
-    
-    if (score.fullTime.home > score.fullTime.away) return 'home_win';
-    if (score.fullTime.away > score.fullTime.home) return 'away_win';
-    return 'draw';
+  convertMatchStatus(status: string, score: FootballMatch['score'] | null | undefined): 'home_win' | 'away_win' | 'draw' | 'pending' {
+    return mapApiMatchResult(status, score);
   },
 
-  convertMatchStatusToFixtureStatus(status: string): 'scheduled' | 'closed' | 'applied' | 'postponed' {
-    switch (status) {
-      case 'SCHEDULED': return 'scheduled';
-      case 'LIVE':
-      case 'IN_PLAY':
-      case 'PAUSED': return 'closed';
-      case 'FINISHED': return 'applied';
-      case 'TIMED': return 'scheduled'; // TIMED = scheduled match, not finished
-      case 'POSTPONED':
-      case 'SUSPENDED':
-      case 'CANCELLED': return 'postponed';
-      default: return 'scheduled';
-    }
+  convertMatchStatusToFixtureStatus(status: string): 'scheduled' | 'live' | 'applied' | 'postponed' {
+    return mapApiMatchStatus(status);
   },
 
   // Optimized: Single API call for all Premier League data
@@ -404,41 +303,26 @@ export const footballApiService = {
     teams: TeamDetails[];
     matches: FootballMatch[];
   }> {
-    // Explicitly use 2025 season
-    const seasonParam = 2025;
-    
-    
-    // Use base URL for all endpoints
-    const standingsEndpoint = `${FOOTBALL_API_BASE}/competitions/PL/standings?season=${seasonParam}`;
-    const matchesEndpoint = `${FOOTBALL_API_BASE}/competitions/PL/matches?season=${seasonParam}`;
-    
-    // Make only 2 API calls instead of 20+ calls
-    const [standingsResponse, matchesResponse] = await Promise.all([
-      fetch(standingsEndpoint, {
-        headers: (isProduction || isNetlifyDev) ? {} : {
-          'X-Auth-Token': (import.meta as any).env?.VITE_FOOTBALL_API_KEY || '1550a2317c044eda8644d0367f1a0f22'
-        }
-      }),
-      fetch(matchesEndpoint, {
-        headers: (isProduction || isNetlifyDev) ? {} : {
-          'X-Auth-Token': (import.meta as any).env?.VITE_FOOTBALL_API_KEY || '1550a2317c044eda8644d0367f1a0f22'
-        }
-      })
-    ]);
+    return this.getCompetitionData(PREMIER_LEAGUE_CODE, season);
+  },
 
-    if (!standingsResponse.ok) {
-      throw new Error(`Football API standings error: ${standingsResponse.status} ${standingsResponse.statusText}`);
-    }
+  // Standings, clubs and matches of any competition. Cup competitions with
+  // a group stage return the first table (the league phase for the CL).
+  async getCompetitionData(competitionCode: string, season?: number): Promise<{
+    standings: Standing[];
+    teams: TeamDetails[];
+    matches: FootballMatch[];
+  }> {
+    // 2025 season unless another is requested (season rollover)
+    const seasonParam = season ?? 2025;
     
-    if (!matchesResponse.ok) {
-      throw new Error(`Football API matches error: ${matchesResponse.status} ${matchesResponse.statusText}`);
-    }
-
-    const standingsData = await standingsResponse.json();
-    const matchesData = await matchesResponse.json();
     
-    const standings = standingsData.standings?.[0]?.table || [];
-    const matches = matchesData.matches || [];
+    // Make only 2 provider calls instead of 20+ calls
+    const provider = await getFootballDataProvider();
+    const [standings, matches] = await Promise.all([
+      provider.getStandings(competitionCode, seasonParam),
+      provider.getMatches(competitionCode, seasonParam)
+    ]);
     
     // Extract team details from standings
     // Note: Standings endpoint only provides basic team info, not detailed info like founded, venue, clubColors
@@ -454,6 +338,7 @@ export const footballApiService = {
       venue: standing.team.venue || null, // Not available in standings
       squad: [], // Not available in standings
       staff: [], // Not available in standings
+      coach: null, // Not available in standings
       lastUpdated: standing.team.lastUpdated
     }));
 
@@ -502,20 +387,9 @@ export const footballApiService = {
   },
 
   async getTopScorers(season?: number, limit: number = 10): Promise<Scorer[]> {
-    // Explicitly use 2025 season
-    const seasonParam = 2025;
-    // Removed console.log for security
-    
-    const response = await fetch(
-      `${FOOTBALL_API_BASE}/competitions/PL/scorers?season=${seasonParam}&limit=${limit}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.scorers || [];
+    // 2025 season unless another is requested (season rollover)
+    const provider = await getFootballDataProvider();
+    return provider.getScorers(PREMIER_LEAGUE_CODE, season ?? 2025, limit);
   },
 
   async getMatchHeadToHead(matchId: number): Promise<HeadToHeadData> {
@@ -532,19 +406,9 @@ export const footballApiService = {
     return response.json();
   },
 
-  async getLiveMatches(): Promise<FootballMatch[]> {
-    // Removed console.log for security
-    
-    const response = await fetch(
-      `${FOOTBALL_API_BASE}/matches?status=LIVE&competitions=PL`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.matches || [];
+  async getLiveMatches(competitionCodes: string[] = [PREMIER_LEAGUE_CODE]): Promise<FootballMatch[]> {
+    const provider = await getFootballDataProvider();
+    return provider.getLiveMatches(competitionCodes);
   },
 
   // Mock live matches for testing
@@ -833,9 +697,22 @@ export const footballIntegrationService = {
   },
 
   async syncPremierLeagueFixtures(season?: number): Promise<void> {
+    return this.syncCompetitionFixtures(PREMIER_LEAGUE_CODE, season);
+  },
+
+  /**
+   * Upsert a competition's fixtures between listed clubs. Cup ties against
+   * clubs that are not listed are skipped.
+   */
+  async syncCompetitionFixtures(competitionCode: string, season?: number): Promise<void> {
     try {
+      const competition = await competitionsService.getByCode(competitionCode);
+      if (!competition) {
+        throw new Error(`Unknown competition: ${competitionCode}`);
+      }
+
       // Get matches from football API with same season as teams
-      const matches = await footballApiService.getPremierLeagueMatches(season);
+      const matches = await footballApiService.getCompetitionMatches(competitionCode, season);
 
       // Get our teams for mapping
       const { data: ourTeams, error } = await supabase
@@ -850,89 +727,102 @@ export const footballIntegrationService = {
         throw new Error('No teams found in database');
       }
 
-      // Create team mapping
-      const teamMapping = new Map<string, number>();
-      ourTeams.forEach(team => {
-        teamMapping.set(team.name, team.id);
-      });
+      const targetSeason = season ?? 2025;
+
+      const { fixtures: fixtureInsertData, skipped } = buildFixtureUpserts(
+        matches,
+        ourTeams.map(team => ({
+          id: team.id,
+          name: team.name,
+          externalId: team.external_id ? Number(team.external_id) : null
+        })),
+        competition,
+        targetSeason
+      );
+      const skippedCount = skipped.length;
 
-      // Use 2025 season explicitly
-      const targetSeason = 2025;
+      // Existing fixtures only take schedule changes; the lifecycle moves the rest
+      const { data: existingFixtures, error: existingError } = await supabase
+        .from('fixtures')
+        .select('id, external_id, lifecycle_state, kickoff_at')
+        .eq('competition_id', competition.id);
 
-      // Prepare all fixture data for batch upsert
-      const fixtureInsertData = [];
-      let skippedCount = 0;
-      let updatedCount = 0;
-      let createdCount = 0;
+      if (existingError) throw existingError;
 
-      for (const match of matches) {
-        const homeTeamId = teamMapping.get(match.homeTeam.name);
-        const awayTeamId = teamMapping.get(match.awayTeam.name);
+      const { inserts, updates, postponedFixtureIds, rescheduled } = partitionFixtureUpserts(fixtureInsertData, existingFixtures || []);
+      const rows = [...inserts, ...updates];
 
-        if (!homeTeamId || !awayTeamId) {
-          console.warn(`Skipping match: teams not found for ${match.homeTeam.name} vs ${match.awayTeam.name}`);
-          skippedCount++;
-          continue;
-        }
+      const { data: upsertedFixtures, error: insertError } = rows.length === 0
+        ? { data: [], error: null }
+        : await supabase
+          .from('fixtures')
+          .upsert(rows, {
+            onConflict: 'external_id',
+            ignoreDuplicates: false
+          })
+          .select('id, external_id');
 
-        const kickoffTime = new Date(match.utcDate);
-        const buyCloseTime = new Date(kickoffTime.getTime() - 15 * 60 * 1000);
-        
-        // Log first few fixtures to debug dates
-        if (fixtureInsertData.length < 3) {
-          console.log(`Fixture ${match.id}: ${match.homeTeam.name} vs ${match.awayTeam.name}`);
-          console.log(`  API date: ${match.utcDate}`);
-          console.log(`  Parsed kickoff: ${kickoffTime.toISOString()}`);
-          console.log(`  Status: ${match.status}, Result: ${match.score?.fullTime}`);
-        }
+      if (insertError) {
+        console.error('Error upserting fixtures:', insertError);
+        throw insertError;
+      }
 
-        fixtureInsertData.push({
-          external_id: match.id,
-          home_team_id: homeTeamId,
-          away_team_id: awayTeamId,
-          kickoff_at: kickoffTime.toISOString(),
-          buy_close_at: buyCloseTime.toISOString(),
-          status: footballApiService.convertMatchStatusToFixtureStatus(match.status),
-          result: footballApiService.convertMatchStatus(match.status, match.score),
-          home_score: match.score?.fullTime?.home || 0,
-          away_score: match.score?.fullTime?.away || 0,
-          matchday: match.matchday,
-          season: targetSeason,
-          updated_at: new Date().toISOString()
+      for (const fixtureId of postponedFixtureIds) {
+        const { data, error: transitionError } = await supabase.rpc('transition_fixture', {
+          p_fixture_id: fixtureId,
+          p_to_state: 'postponed',
+          p_details: {},
+          p_source: 'provider'
         });
+        if (transitionError || !data?.success) {
+          console.error(`Error postponing fixture ${fixtureId}:`, transitionError || data?.error);
+        }
       }
 
-      // Use UPSERT to update existing fixtures or insert new ones
-      // This will update ALL fields including dates when a fixture already exists
-      const { data: upsertedFixtures, error: insertError } = await supabase
-        .from('fixtures')
-        .upsert(fixtureInsertData, {
-          onConflict: 'external_id',
-          ignoreDuplicates: false
-        })
-        .select('id, external_id');
-
-      if (insertError) {
-        console.error('Error upserting fixtures:', insertError);
-        throw insertError;
+      for (const { fixtureId, kickoffAt } of rescheduled) {
+        const { data, error: transitionError } = await supabase.rpc('transition_fixture', {
+          p_fixture_id: fixtureId,
+          p_to_state: 'scheduled',
+          p_details: { kickoff_at: kickoffAt },
+          p_source: 'provider'
+        });
+        if (transitionError || !data?.success) {
+          console.error(`Error rescheduling fixture ${fixtureId}:`, transitionError || data?.error);
+        }
       }
 
-      console.log(`✅ Fixtures sync completed: ${upsertedFixtures?.length || 0} fixtures upserted for season ${targetSeason}`);
+      console.log(`✅ Fixtures sync completed: ${upsertedFixtures?.length || 0} ${competitionCode} fixtures upserted for season ${targetSeason}`);
+      if (postponedFixtureIds.length > 0) {
+        console.log(`⏸️ Postponed ${postponedFixtureIds.length} fixtures`);
+      }
+      if (rescheduled.length > 0) {
+        console.log(`📅 Rescheduled ${rescheduled.length} fixtures`);
+      }
       if (skippedCount > 0) {
-        console.log(`⚠️ Skipped ${skippedCount} fixtures due to team mapping issues`);
+        console.log(`⚠️ Skipped ${skippedCount} fixtures involving clubs that are not listed`);
       }
 
     } catch (error) {
-      console.error('❌ Error syncing Premier League fixtures:', error);
+      console.error(`❌ Error syncing ${competitionCode} fixtures:`, error);
       throw error;
     }
   },
 
-  async syncTeamNamesFromApi(season?: number): Promise<void> {
+  /**
+   * Sync a competition's clubs from the API and record them as the
+   * competition's clubs for the season. League competitions create clubs
+   * that are not listed yet; cup competitions only link listed clubs.
+   */
+  async syncTeamNamesFromApi(season?: number, competitionCode: string = PREMIER_LEAGUE_CODE): Promise<void> {
     try {
-      console.log('Syncing team names from Football API...');
+      console.log(`Syncing ${competitionCode} team names from Football API...`);
+
+      const competition = await competitionsService.getByCode(competitionCode);
+      if (!competition) {
+        throw new Error(`Unknown competition: ${competitionCode}`);
+      }
       
-      const apiTeams = await footballApiService.getPremierLeagueTeams(season);
+      const apiTeams = await footballApiService.getCompetitionTeams(competitionCode, season);
       console.log(`Found ${apiTeams.length} teams in API`);
       
       // Get current teams from database
@@ -1004,6 +894,9 @@ export const footballIntegrationService = {
               console.log(`Updated external ID for existing team "${apiTeam.name}": ${apiTeamExternalId}`);
               updatedCount++;
             }
+          } else if (competition.competition_type === 'cup') {
+            // Cup opponents from leagues we don't list stay unlisted
+            unchangedCount++;
           } else {
             // Create new team (only if it truly doesn't exist)
             const { error: insertError } = await supabase
@@ -1042,7 +935,26 @@ export const footballIntegrationService = {
       }
       */
       
-      console.log(`Team sync completed: ${updatedCount} updated, ${createdCount} created, ${unchangedCount} unchanged`);
+      // Record which listed clubs play in the competition this season
+      const { data: listedTeams, error: listedError } = await supabase
+        .from('teams')
+        .select('id, name, external_id');
+
+      if (listedError) {
+        throw new Error(`Database error: ${listedError.message}`);
+      }
+
+      const teamIds = resolveListedTeamIds(
+        apiTeams,
+        (listedTeams || []).map(team => ({
+          id: team.id,
+          name: team.name,
+          externalId: team.external_id ? Number(team.external_id) : null
+        }))
+      );
+      await competitionsService.setTeams(competition.id, season ?? 2025, [...teamIds.values()]);
+
+      console.log(`Team sync completed: ${updatedCount} updated, ${createdCount} created, ${unchangedCount} unchanged, ${teamIds.size} in ${competitionCode}`);
     } catch (error) {
       console.error('Error syncing team names:', error);
       throw error;
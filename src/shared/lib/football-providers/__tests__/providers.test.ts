@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import sample from '../recordings/sample-pl-2025.json';
+import { createApiFootballProvider, createRecordedProvider, fixtureStateFromMatch, parseRecording } from '..';
+import { buildFixtureUpserts } from '../fixture-sync';
+import type { FetchLike } from '../types';
+
+const recording = parseRecording(sample);
+const ARSENAL_CHELSEA = 537785; // 2025-08-16 11:30 UTC, 1-0 at half time, 2-1 at full time
+
+const at = (time: string) => () => new Date(time);
+
+describe('Football data providers', () => {
+  it('should replay a recorded match relative to the clock', async () => {
+    const states = await Promise.all(
+      ['2025-08-16T11:00:00Z', '2025-08-16T11:50:00Z', '2025-08-16T12:20:00Z', '2025-08-16T12:50:00Z', '2025-08-16T13:30:00Z']
+        .map(time => createRecordedProvider(recording, { now: at(time) }).getMatch(ARSENAL_CHELSEA))
+    );
+
+    expect(states.map(match => [match.status, match.score.fullTime.home, match.score.fullTime.away])).toEqual([
+      ['TIMED', null, null],
+      ['IN_PLAY', 0, 0],
+      ['PAUSED', 1, 0],
+      ['IN_PLAY', 1, 0],
+      ['FINISHED', 2, 1],
+    ]);
+
+    const live = await createRecordedProvider(recording, { now: at('2025-08-16T12:20:00Z') }).getLiveMatches(['PL']);
+    expect(live.map(match => match.id)).toEqual([ARSENAL_CHELSEA]);
+  });
+
+  it('should build fixtures from a recording and settle them as the replay advances', async () => {
+    const listed = [
+      { id: 1, name: 'Arsenal FC', externalId: 57 },
+      { id: 2, name: 'Chelsea FC', externalId: 61 },
+      { id: 3, name: 'Liverpool FC', externalId: 64 },
+    ];
+    const before = createRecordedProvider(recording, { now: at('2025-08-16T09:00:00Z') });
+    const { fixtures, skipped } = buildFixtureUpserts(
+      await before.getMatches('PL', 2025),
+      listed,
+      { id: 1, competition_type: 'league' },
+      2025
+    );
+
+    expect(skipped.map(match => match.id)).toEqual([537786, 537796, 537806]);
+    const fixture = fixtures.find(row => row.external_id === String(ARSENAL_CHELSEA))!;
+    expect(fixture).toMatchObject({
+      home_team_id: 1,
+      away_team_id: 2,
+      status: 'scheduled',
+      result: 'pending',
+      buy_close_at: '2025-08-16T11:15:00.000Z',
+    });
+
+    const halfTime = await createRecordedProvider(recording, { now: at('2025-08-16T12:20:00Z') }).getMatch(ARSENAL_CHELSEA);
+    const live = fixtureStateFromMatch(fixture, halfTime);
+    expect(live).toEqual({ status: 'live', result: 'pending', home_score: 1, away_score: 0 });
+
+    const fullTime = await createRecordedProvider(recording, { now: at('2025-08-16T14:00:00Z') }).getMatch(ARSENAL_CHELSEA);
+    expect(fixtureStateFromMatch(live, fullTime)).toEqual({ status: 'applied', result: 'home_win', home_score: 2, away_score: 1 });
+  });
+
+  it('should convert API-Football fixtures and tables into the shared model', async () => {
+    const requests: string[] = [];
+    const responses: Record<string, unknown> = {
+      '/fixtures?id=1035037': [{
+        fixture: { id: 1035037, date: '2025-08-16T11:30:00+00:00', referee: null, status: { short: 'HT', elapsed: 45 } },
+        league: { id: 39, name: 'Premier League', season: 2025, round: 'Regular Season - 1' },
+        teams: {
+          home: { id: 42, name: 'Arsenal', logo: 'https://media.api-sports.io/football/teams/42.png' },
+          away: { id: 49, name: 'Chelsea', logo: 'https://media.api-sports.io/football/teams/49.png' },
+        },
+        goals: { home: 1, away: 0 },
+        score: { halftime: { home: 1, away: 0 }, fulltime: { home: null, away: null } },
+      }],
+      '/standings?league=39&season=2025': [{
+        league: {
+          standings: [[{
+            rank: 1,
+            team: { id: 42, name: 'Arsenal', logo: '' },
+            points: 3,
+            goalsDiff: 1,
+            all: { played: 1, win: 1, draw: 0, lose: 0, goals: { for: 2, against: 1 } },
+          }]],
+        },
+      }],
+    };
+    const stubFetch: FetchLike = async (url, init) => {
+      requests.push(`${url} ${init?.headers?.['x-apisports-key']}`);
+      const path = url.replace('https://v3.football.api-sports.io', '');
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => ({ errors: [], response: responses[path] }),
+        text: async () => '',
+      };
+    };
+    const provider = createApiFootballProvider({ apiKey: 'key', fetch: stubFetch });
+
+    const match = await provider.getMatch(1035037);
+    expect(match).toMatchObject({
+      status: 'PAUSED',
+      matchday: 1,
+      competition: { code: 'PL' },
+      homeTeam: { id: 42, name: 'Arsenal' },
+      score: { winner: null, fullTime: { home: 1, away: 0 } },
+    });
+
+    const [row] = await provider.getStandings('PL', 2025);
+    expect(row).toMatchObject({ position: 1, points: 3, playedGames: 1, goalsFor: 2, goalDifference: 1 });
+    expect(requests[0]).toBe('https://v3.football.api-sports.io/fixtures?id=1035037 key');
+
+    await expect(provider.getMatches('BL1', 2025)).rejects.toThrow('not available from API-Football');
+  });
+});
@@ -0,0 +1,297 @@
+// API-Football (api-sports.io) v3 adapter. Converts its fixtures, teams,
+// standings and top scorers into the football-data.org shapes. Club and
+// match ids are API-Football's, so clubs synced from one provider are
+// matched by name when switching to the other.
+
+import type {
+  FetchLike,
+  FootballDataProvider,
+  FootballMatch,
+  FootballMatchStatus,
+  FootballTeam,
+  Scorer,
+  Standing
+} from './types.ts';
+
+export const API_FOOTBALL_BASE_URL = 'https://v3.football.api-sports.io';
+
+/** API-Football league ids of the competitions the platform lists */
+export const API_FOOTBALL_LEAGUE_IDS: Record<string, number> = {
+  PL: 39,
+  PD: 140,
+  SA: 135,
+  CL: 2
+};
+
+export interface ApiFootballConfig {
+  baseUrl?: string;
+  /** Sent as x-apisports-key */
+  apiKey?: string;
+  fetch?: FetchLike;
+}
+
+interface ApiFootballTeamRef {
+  id: number;
+  name: string;
+  logo: string;
+  code?: string | null;
+}
+
+interface ApiFootballScore {
+  home: number | null;
+  away: number | null;
+}
+
+export interface ApiFootballFixture {
+  fixture: {
+    id: number;
+    date: string;
+    referee: string | null;
+    status: { short: string; elapsed: number | null };
+  };
+  league: { id: number; name: string; season: number; round: string };
+  teams: { home: ApiFootballTeamRef; away: ApiFootballTeamRef };
+  goals: ApiFootballScore;
+  score: { halftime: ApiFootballScore; fulltime: ApiFootballScore };
+}
+
+interface ApiFootballTeamEntry {
+  team: ApiFootballTeamRef & { founded?: number | null };
+  venue?: { name?: string | null };
+}
+
+interface ApiFootballStandingRow {
+  rank: number;
+  team: ApiFootballTeamRef;
+  points: number;
+  goalsDiff: number;
+  all: {
+    played: number;
+    win: number;
+    draw: number;
+    lose: number;
+    goals: { for: number; against: number };
+  };
+}
+
+interface ApiFootballScorerEntry {
+  player: {
+    id: number;
+    name: string;
+    firstname: string;
+    lastname: string;
+    birth?: { date: string | null };
+    nationality: string;
+  };
+  statistics: Array<{
+    team: ApiFootballTeamRef;
+    games?: { position?: string | null };
+    goals: { total: number | null; assists: number | null };
+    penalty?: { scored: number | null };
+  }>;
+}
+
+/**
+ * Map an API-Football short status to a football-data.org status
+ */
+export const mapApiFootballStatus = (short: string): FootballMatchStatus => {
+  switch (short) {
+    case 'NS': return 'TIMED';
+    case 'TBD': return 'SCHEDULED';
+    case '1H':
+    case '2H':
+    case 'ET':
+    case 'P':
+    case 'LIVE': return 'IN_PLAY';
+    case 'HT':
+    case 'BT':
+    case 'INT': return 'PAUSED';
+    case 'FT':
+    case 'AET':
+    case 'PEN':
+    case 'AWD':
+    case 'WO': return 'FINISHED';
+    case 'PST': return 'POSTPONED';
+    case 'SUSP': return 'SUSPENDED';
+    case 'CANC':
+    case 'ABD': return 'CANCELLED';
+    default: return 'SCHEDULED';
+  }
+};
+
+/** Matchday from a round label such as "Regular Season - 12"; 0 for knockout rounds */
+export const parseApiFootballRound = (round: string): number => {
+  const match = /(\d+)\s*$/.exec(round);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+const toTeam = (team: ApiFootballTeamRef, extra: Partial<FootballTeam> = {}): FootballTeam => ({
+  id: team.id,
+  name: team.name,
+  shortName: team.name,
+  tla: team.code ?? '',
+  crest: team.logo,
+  website: '',
+  founded: 0,
+  clubColors: '',
+  venue: '',
+  lastUpdated: '',
+  ...extra
+});
+
+const competitionCodeFor = (leagueId: number): string =>
+  Object.keys(API_FOOTBALL_LEAGUE_IDS).find(code => API_FOOTBALL_LEAGUE_IDS[code] === leagueId) ?? String(leagueId);
+
+/**
+ * Convert an API-Football fixture. During play fullTime carries the current
+ * score, as football-data.org does.
+ */
+export const toFootballMatch = (entry: ApiFootballFixture): FootballMatch => {
+  const status = mapApiFootballStatus(entry.fixture.status.short);
+  const home = entry.goals.home;
+  const away = entry.goals.away;
+  const winner = status !== 'FINISHED' || home === null || away === null
+    ? null
+    : home > away ? 'HOME_TEAM' : away > home ? 'AWAY_TEAM' : 'DRAW';
+  const toSide = (team: ApiFootballTeamRef) => ({
+    id: team.id,
+    name: team.name,
+    shortName: team.name,
+    tla: team.code ?? '',
+    crest: team.logo
+  });
+
+  return {
+    id: entry.fixture.id,
+    competition: {
+      id: entry.league.id,
+      name: entry.league.name,
+      code: competitionCodeFor(entry.league.id)
+    },
+    season: {
+      id: entry.league.season,
+      startDate: '',
+      endDate: '',
+      currentMatchday: 0
+    },
+    utcDate: entry.fixture.date,
+    status,
+    matchday: parseApiFootballRound(entry.league.round),
+    stage: entry.league.round,
+    group: null,
+    lastUpdated: '',
+    odds: { msg: '' },
+    score: {
+      winner,
+      duration: entry.fixture.status.short === 'PEN' ? 'PENALTY_SHOOTOUT'
+        : entry.fixture.status.short === 'AET' ? 'EXTRA_TIME'
+        : 'REGULAR',
+      fullTime: { home, away },
+      halfTime: { home: entry.score.halftime.home, away: entry.score.halftime.away }
+    },
+    homeTeam: toSide(entry.teams.home),
+    awayTeam: toSide(entry.teams.away),
+    referees: entry.fixture.referee
+      ? [{ id: 0, name: entry.fixture.referee, type: 'REFEREE', nationality: '' }]
+      : []
+  };
+};
+
+export const createApiFootballProvider = (config: ApiFootballConfig = {}): FootballDataProvider => {
+  const baseUrl = config.baseUrl ?? API_FOOTBALL_BASE_URL;
+  const get = async <T>(path: string): Promise<T[]> => {
+    const response = await (config.fetch ?? fetch)(`${baseUrl}${path}`, {
+      headers: config.apiKey ? { 'x-apisports-key': config.apiKey } : {}
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`API-Football error: ${response.status} ${response.statusText}`, errorText);
+      throw new Error(`API-Football error: ${response.status} ${response.statusText}`);
+    }
+
+    // API-Football reports quota and parameter errors with a 200 status
+    const data = (await response.json()) as { response?: T[]; errors?: Record<string, string> | unknown[] };
+    const errors = data.errors && !Array.isArray(data.errors) ? Object.values(data.errors) : [];
+    if (errors.length > 0) {
+      throw new Error(`API-Football error: ${errors.join(', ')}`);
+    }
+    return data.response || [];
+  };
+
+  const leagueId = (competitionCode: string): number => {
+    const id = API_FOOTBALL_LEAGUE_IDS[competitionCode];
+    if (!id) throw new Error(`Competition ${competitionCode} is not available from API-Football`);
+    return id;
+  };
+
+  return {
+    id: 'api-football',
+
+    async getMatches(competitionCode, season) {
+      const fixtures = await get<ApiFootballFixture>(`/fixtures?league=${leagueId(competitionCode)}&season=${season}`);
+      return fixtures.map(toFootballMatch);
+    },
+
+    async getMatch(matchId) {
+      const [fixture] = await get<ApiFootballFixture>(`/fixtures?id=${matchId}`);
+      if (!fixture) throw new Error(`Match ${matchId} not found`);
+      return toFootballMatch(fixture);
+    },
+
+    async getLiveMatches(competitionCodes) {
+      const ids = competitionCodes.map(leagueId).join('-');
+      const fixtures = await get<ApiFootballFixture>(`/fixtures?live=${ids}`);
+      return fixtures.map(toFootballMatch);
+    },
+
+    async getTeams(competitionCode, season) {
+      const entries = await get<ApiFootballTeamEntry>(`/teams?league=${leagueId(competitionCode)}&season=${season}`);
+      return entries.map(entry => toTeam(entry.team, {
+        founded: entry.team.founded ?? 0,
+        venue: entry.venue?.name ?? ''
+      }));
+    },
+
+    async getStandings(competitionCode, season) {
+      const [entry] = await get<{ league: { standings: ApiFootballStandingRow[][] } }>(
+        `/standings?league=${leagueId(competitionCode)}&season=${season}`
+      );
+      const table = entry?.league.standings[0] || [];
+      return table.map((row): Standing => ({
+        position: row.rank,
+        team: toTeam(row.team),
+        playedGames: row.all.played,
+        won: row.all.win,
+        draw: row.all.draw,
+        lost: row.all.lose,
+        points: row.points,
+        goalsFor: row.all.goals.for,
+        goalsAgainst: row.all.goals.against,
+        goalDifference: row.goalsDiff
+      }));
+    },
+
+    async getScorers(competitionCode, season, limit) {
+      const entries = await get<ApiFootballScorerEntry>(`/players/topscorers?league=${leagueId(competitionCode)}&season=${season}`);
+      return entries.slice(0, limit).map((entry): Scorer => {
+        const stats = entry.statistics[0];
+        return {
+          player: {
+            id: entry.player.id,
+            name: entry.player.name,
+            firstName: entry.player.firstname,
+            lastName: entry.player.lastname,
+            dateOfBirth: entry.player.birth?.date ?? '',
+            nationality: entry.player.nationality,
+            position: stats?.games?.position ?? ''
+          },
+          team: stats ? toTeam(stats.team) : toTeam({ id: 0, name: '', logo: '' }),
+          goals: stats?.goals.total ?? 0,
+          assists: stats?.goals.assists ?? 0,
+          penalties: stats?.penalty?.scored ?? 0
+        };
+      });
+    }
+  };
+};
@@ -0,0 +1,156 @@
+/**
+ * Fixture Sync
+ *
+ * Fixture rows built from a competition's provider matches, shared by the
+ * admin sync in the browser and the update-matches function. Matches whose
+ * clubs are not both listed are returned in skipped (most cup ties).
+ *
+ * New fixtures are inserted whole and start in the lifecycle state matching
+ * their status. Fixtures that already exist only take schedule changes:
+ * their status, result and scores move through the lifecycle
+ * (utils/fixture-lifecycle.ts), apart from what the provider announces
+ * before kickoff, which the sync passes on as transitions: postponements,
+ * and new kickoffs for fixtures that are postponed, abandoned or past
+ * buy-close (rescheduling them invalidates the kickoff snapshot).
+ */
+
+import { resolveFixtureTeams, type CompetitionListedTeam } from '../utils/competitions.ts';
+import type { CompetitionType } from '../utils/transfer-rules.ts';
+import type { FixtureLifecycleState } from '../utils/fixture-lifecycle.ts';
+import { mapApiMatchResult, mapApiMatchStatus, type FixtureResultFromApi, type FixtureStatusFromApi } from './match-status.ts';
+import type { FootballMatch } from './types.ts';
+
+/** Buy window closes this long before kickoff */
+const BUY_CLOSE_BEFORE_KICKOFF_MS = 15 * 60 * 1000;
+
+export interface FixtureUpsert {
+  external_id: string;
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  buy_close_at: string;
+  status: FixtureStatusFromApi;
+  result: FixtureResultFromApi;
+  home_score: number;
+  away_score: number;
+  matchday: number;
+  season: number;
+  competition_id: number;
+  competition_type: CompetitionType;
+  updated_at: string;
+}
+
+export const buildFixtureUpserts = (
+  matches: FootballMatch[],
+  listedTeams: CompetitionListedTeam[],
+  competition: { id: number; competition_type: CompetitionType },
+  season: number,
+  now: Date = new Date()
+): { fixtures: FixtureUpsert[]; skipped: FootballMatch[] } => {
+  const { fixtures, skipped } = resolveFixtureTeams(matches, listedTeams);
+
+  return {
+    fixtures: fixtures.map(({ match, homeTeamId, awayTeamId }) => {
+      const kickoffTime = new Date(match.utcDate);
+      return {
+        external_id: match.id.toString(),
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        kickoff_at: kickoffTime.toISOString(),
+        buy_close_at: new Date(kickoffTime.getTime() - BUY_CLOSE_BEFORE_KICKOFF_MS).toISOString(),
+        status: mapApiMatchStatus(match.status),
+        result: mapApiMatchResult(match.status, match.score),
+        home_score: match.score?.fullTime?.home || 0,
+        away_score: match.score?.fullTime?.away || 0,
+        matchday: match.matchday,
+        season,
+        competition_id: competition.id,
+        competition_type: competition.competition_type,
+        updated_at: now.toISOString()
+      };
+    }),
+    skipped
+  };
+};
+
+export type FixtureScheduleUpdate = Pick<
+  FixtureUpsert,
+  'external_id' | 'home_team_id' | 'away_team_id' | 'kickoff_at' | 'buy_close_at' | 'matchday' | 'season' | 'competition_id' | 'competition_type' | 'updated_at'
+>;
+
+export interface ExistingSyncedFixture {
+  id: number;
+  external_id: string | number | null;
+  lifecycle_state: FixtureLifecycleState;
+  kickoff_at: string;
+}
+
+export interface FixtureReschedule {
+  fixtureId: number;
+  kickoffAt: string;
+}
+
+const PRE_KICKOFF_STATES: FixtureLifecycleState[] = ['scheduled', 'buy_closed', 'snapshotted'];
+
+/**
+ * Whether a provider row moves an existing fixture back to scheduled: a
+ * postponed or abandoned fixture the provider schedules again, or a fixture
+ * past buy-close whose kickoff moved
+ */
+const needsReschedule = (row: FixtureUpsert, fixture: ExistingSyncedFixture): boolean => {
+  if (row.status !== 'scheduled') return false;
+  if (fixture.lifecycle_state === 'postponed' || fixture.lifecycle_state === 'abandoned') return true;
+  return (fixture.lifecycle_state === 'buy_closed' || fixture.lifecycle_state === 'snapshotted') &&
+    new Date(row.kickoff_at).getTime() !== new Date(fixture.kickoff_at).getTime();
+};
+
+/**
+ * Split built rows into inserts, schedule updates of existing fixtures, the
+ * ids of existing fixtures the provider has postponed and the fixtures it
+ * has rescheduled (whose kickoff moves through the lifecycle instead)
+ */
+export const partitionFixtureUpserts = (
+  rows: FixtureUpsert[],
+  existing: ExistingSyncedFixture[]
+): {
+  inserts: FixtureUpsert[];
+  updates: FixtureScheduleUpdate[];
+  postponedFixtureIds: number[];
+  rescheduled: FixtureReschedule[];
+} => {
+  const byExternalId = new Map(existing.map(fixture => [String(fixture.external_id), fixture]));
+  const inserts: FixtureUpsert[] = [];
+  const updates: FixtureScheduleUpdate[] = [];
+  const postponedFixtureIds: number[] = [];
+  const rescheduled: FixtureReschedule[] = [];
+
+  for (const row of rows) {
+    const fixture = byExternalId.get(row.external_id);
+    if (!fixture) {
+      inserts.push(row);
+      continue;
+    }
+    if (needsReschedule(row, fixture)) {
+      rescheduled.push({ fixtureId: fixture.id, kickoffAt: row.kickoff_at });
+      continue;
+    }
+
+    updates.push({
+      external_id: row.external_id,
+      home_team_id: row.home_team_id,
+      away_team_id: row.away_team_id,
+      kickoff_at: row.kickoff_at,
+      buy_close_at: row.buy_close_at,
+      matchday: row.matchday,
+      season: row.season,
+      competition_id: row.competition_id,
+      competition_type: row.competition_type,
+      updated_at: row.updated_at
+    });
+    if (row.status === 'postponed' && PRE_KICKOFF_STATES.includes(fixture.lifecycle_state)) {
+      postponedFixtureIds.push(fixture.id);
+    }
+  }
+
+  return { inserts, updates, postponedFixtureIds, rescheduled };
+};
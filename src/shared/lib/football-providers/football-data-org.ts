@@ -0,0 +1,71 @@
+// football-data.org v4 adapter. Responses are already in the shared model,
+// so the adapter only builds URLs and unwraps the response envelopes.
+
+import type {
+  FetchLike,
+  FootballDataProvider,
+  FootballMatch,
+  FootballTeam,
+  Scorer,
+  Standing
+} from './types.ts';
+
+export const FOOTBALL_DATA_ORG_BASE_URL = 'https://api.football-data.org/v4';
+
+export interface FootballDataOrgConfig {
+  /** API root, or a proxy serving the same paths (the Netlify cache function) */
+  baseUrl?: string;
+  /** Sent as X-Auth-Token; proxies add their own */
+  apiKey?: string;
+  fetch?: FetchLike;
+}
+
+export const createFootballDataOrgProvider = (config: FootballDataOrgConfig = {}): FootballDataProvider => {
+  const baseUrl = config.baseUrl ?? FOOTBALL_DATA_ORG_BASE_URL;
+  const fetchJson = async <T>(path: string): Promise<T> => {
+    const response = await (config.fetch ?? fetch)(`${baseUrl}${path}`, {
+      headers: config.apiKey ? { 'X-Auth-Token': config.apiKey } : {}
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Football API error: ${response.status} ${response.statusText}`, errorText);
+      throw new Error(`Football API error: ${response.status} ${response.statusText}`);
+    }
+
+    return (await response.json()) as T;
+  };
+
+  return {
+    id: 'football-data',
+
+    async getMatches(competitionCode, season) {
+      const data = await fetchJson<{ matches?: FootballMatch[] }>(`/competitions/${competitionCode}/matches?season=${season}`);
+      return data.matches || [];
+    },
+
+    async getMatch(matchId) {
+      return fetchJson<FootballMatch>(`/matches/${matchId}`);
+    },
+
+    async getLiveMatches(competitionCodes) {
+      const data = await fetchJson<{ matches?: FootballMatch[] }>(`/matches?status=LIVE&competitions=${competitionCodes.join(',')}`);
+      return data.matches || [];
+    },
+
+    async getTeams(competitionCode, season) {
+      const data = await fetchJson<{ teams?: FootballTeam[] }>(`/competitions/${competitionCode}/teams?season=${season}`);
+      return data.teams || [];
+    },
+
+    async getStandings(competitionCode, season) {
+      const data = await fetchJson<{ standings?: Array<{ table?: Standing[] }> }>(`/competitions/${competitionCode}/standings?season=${season}`);
+      return data.standings?.[0]?.table || [];
+    },
+
+    async getScorers(competitionCode, season, limit) {
+      const data = await fetchJson<{ scorers?: Scorer[] }>(`/competitions/${competitionCode}/scorers?season=${season}&limit=${limit}`);
+      return data.scorers || [];
+    }
+  };
+};
@@ -0,0 +1,76 @@
+// Football data providers. The browser, the update-matches function and
+// the football-api edge function pick one from their environment
+// (FOOTBALL_DATA_PROVIDER, football-data by default) and read everything
+// through the FootballDataProvider interface.
+//
+// Imports carry .ts extensions so the Deno edge function can load these
+// modules directly.
+
+import { createApiFootballProvider } from './api-football.ts';
+import { createFootballDataOrgProvider } from './football-data-org.ts';
+import { createRecordedProvider, type FootballDataRecording } from './recorded.ts';
+import type { FetchLike, FootballDataProvider, FootballDataProviderId } from './types.ts';
+
+export * from './types.ts';
+export * from './match-status.ts';
+export { createFootballDataOrgProvider, FOOTBALL_DATA_ORG_BASE_URL } from './football-data-org.ts';
+export { createApiFootballProvider, API_FOOTBALL_BASE_URL, API_FOOTBALL_LEAGUE_IDS, mapApiFootballStatus } from './api-football.ts';
+export {
+  createRecordedProvider,
+  captureRecording,
+  parseRecording,
+  replayMatchAt,
+  type FootballDataRecording,
+  type RecordedCompetitionSeason
+} from './recorded.ts';
+
+const PROVIDER_IDS: FootballDataProviderId[] = ['football-data', 'api-football', 'recorded'];
+
+export interface FootballDataProviderConfig {
+  provider: FootballDataProviderId;
+  /** football-data.org root or a proxy of it */
+  footballDataBaseUrl?: string;
+  footballDataApiKey?: string;
+  apiFootballBaseUrl?: string;
+  apiFootballApiKey?: string;
+  /** Required by the recorded provider */
+  recording?: FootballDataRecording;
+  /** Replay clock of the recorded provider */
+  now?: () => Date;
+  fetch?: FetchLike;
+}
+
+/**
+ * Provider id from configuration; football-data when unset
+ */
+export const resolveFootballDataProviderId = (value: string | null | undefined): FootballDataProviderId => {
+  if (!value) return 'football-data';
+  const id = PROVIDER_IDS.find(candidate => candidate === value.trim().toLowerCase());
+  if (!id) {
+    throw new Error(`Unknown football data provider "${value}". Use one of: ${PROVIDER_IDS.join(', ')}`);
+  }
+  return id;
+};
+
+export const createFootballDataProvider = (config: FootballDataProviderConfig): FootballDataProvider => {
+  switch (config.provider) {
+    case 'api-football':
+      return createApiFootballProvider({
+        baseUrl: config.apiFootballBaseUrl,
+        apiKey: config.apiFootballApiKey,
+        fetch: config.fetch
+      });
+    case 'recorded':
+      if (!config.recording) {
+        throw new Error('The recorded football data provider needs a recording');
+      }
+      return createRecordedProvider(config.recording, { now: config.now });
+    case 'football-data':
+    default:
+      return createFootballDataOrgProvider({
+        baseUrl: config.footballDataBaseUrl,
+        apiKey: config.footballDataApiKey,
+        fetch: config.fetch
+      });
+  }
+};
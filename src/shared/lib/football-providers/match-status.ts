@@ -0,0 +1,93 @@
+/**
+ * Match Status
+ *
+ * How a provider match (football-data.org statuses, which every provider
+ * maps into) becomes a fixture row: its status, its result and the scores
+ * to store. Used by the browser sync, the update-matches function and the
+ * live projections so they agree on what "live" and "finished" mean.
+ */
+
+import type { FootballMatch } from './types.ts';
+
+export type FixtureStatusFromApi = 'scheduled' | 'live' | 'applied' | 'postponed';
+
+export type FixtureResultFromApi = 'home_win' | 'away_win' | 'draw' | 'pending';
+
+/**
+ * Map a football-data.org match status to a fixture status
+ */
+export const mapApiMatchStatus = (status: string): FixtureStatusFromApi => {
+  switch (status) {
+    case 'SCHEDULED':
+    case 'TIMED': return 'scheduled';
+    case 'LIVE':
+    case 'IN_PLAY':
+    case 'PAUSED': return 'live';
+    case 'FINISHED': return 'applied';
+    case 'POSTPONED':
+    case 'SUSPENDED':
+    case 'CANCELLED': return 'postponed';
+    default: return 'scheduled';
+  }
+};
+
+/**
+ * Result of a match; pending until it is finished with a full-time score
+ */
+export const mapApiMatchResult = (
+  status: string,
+  score: { fullTime?: { home: number | null; away: number | null } } | null | undefined
+): FixtureResultFromApi => {
+  const home = score?.fullTime?.home;
+  const away = score?.fullTime?.away;
+  if (status !== 'FINISHED' || home === null || home === undefined || away === null || away === undefined) {
+    return 'pending';
+  }
+
+  if (home > away) return 'home_win';
+  if (away > home) return 'away_win';
+  return 'draw';
+};
+
+export interface FixtureMatchState {
+  status: string;
+  result: string;
+  home_score: number | null;
+  away_score: number | null;
+}
+
+/**
+ * Fixture fields after a provider update. Live matches carry the current
+ * score in fullTime; the result stays pending until the final whistle.
+ * Statuses other than live and finished leave the fixture as it is, so a
+ * match the provider has not started yet never rewinds a stored result.
+ */
+export const fixtureStateFromMatch = (
+  fixture: FixtureMatchState,
+  match: Pick<FootballMatch, 'status' | 'score'>
+): FixtureMatchState => {
+  const status = mapApiMatchStatus(match.status);
+  const home = match.score?.fullTime?.home ?? null;
+  const away = match.score?.fullTime?.away ?? null;
+  const hasScore = home !== null && away !== null;
+
+  if (status === 'applied') {
+    return {
+      status: 'applied',
+      result: hasScore ? mapApiMatchResult(match.status, match.score) : fixture.result,
+      home_score: hasScore ? home : fixture.home_score,
+      away_score: hasScore ? away : fixture.away_score,
+    };
+  }
+
+  if (status === 'live') {
+    return {
+      status: 'live',
+      result: 'pending',
+      home_score: hasScore ? home : fixture.home_score,
+      away_score: hasScore ? away : fixture.away_score,
+    };
+  }
+
+  return fixture;
+};
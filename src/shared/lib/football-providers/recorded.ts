@@ -0,0 +1,172 @@
+/**
+ * Recorded Provider
+ *
+ * Replays football data captured from a live provider
+ * (scripts/record-football-data.ts) so the app, the functions and the tests
+ * can run without network access or API quota.
+ *
+ * With a clock, finished matches are replayed relative to it: before
+ * kickoff they are TIMED, during the first half IN_PLAY at 0-0, at half time
+ * PAUSED at the half-time score, in the second half IN_PLAY at the half-time
+ * score, and from 110 minutes after kickoff FINISHED as recorded. Goals are
+ * not recorded by minute, so the second-half score jumps at full time.
+ * Teams, standings and scorers are returned as recorded.
+ */
+
+import type {
+  FootballDataProvider,
+  FootballDataProviderId,
+  FootballMatch,
+  FootballTeam,
+  Scorer,
+  Standing
+} from './types.ts';
+
+export interface RecordedCompetitionSeason {
+  matches: FootballMatch[];
+  teams: FootballTeam[];
+  standings: Standing[];
+  scorers: Scorer[];
+}
+
+export interface FootballDataRecording {
+  /** Provider the data was captured from */
+  source: FootballDataProviderId;
+  recordedAt: string;
+  /** Competition code, then season start year */
+  competitions: Record<string, Record<string, RecordedCompetitionSeason>>;
+}
+
+export interface RecordedProviderOptions {
+  /** Replay clock; without one matches are returned as recorded */
+  now?: () => Date;
+}
+
+const HALF_TIME_MINUTE = 45;
+const SECOND_HALF_MINUTE = 60;
+const FULL_TIME_MINUTE = 110;
+
+const LIVE_STATUSES = new Set(['LIVE', 'IN_PLAY', 'PAUSED']);
+
+/**
+ * A recorded match as it stood at the given time
+ */
+export const replayMatchAt = (match: FootballMatch, now: Date): FootballMatch => {
+  if (match.status !== 'FINISHED') return match;
+
+  const minute = (now.getTime() - new Date(match.utcDate).getTime()) / 60000;
+  if (minute >= FULL_TIME_MINUTE) return match;
+
+  const halfTime = match.score.halfTime;
+  const replayed = (status: FootballMatch['status'], fullTime: FootballMatch['score']['fullTime'], halfTimeScore: FootballMatch['score']['halfTime']): FootballMatch => ({
+    ...match,
+    status,
+    score: { ...match.score, winner: null, fullTime, halfTime: halfTimeScore }
+  });
+
+  if (minute < 0) return replayed('TIMED', { home: null, away: null }, { home: null, away: null });
+  if (minute < HALF_TIME_MINUTE) return replayed('IN_PLAY', { home: 0, away: 0 }, { home: null, away: null });
+  if (minute < SECOND_HALF_MINUTE) return replayed('PAUSED', { ...halfTime }, halfTime);
+  return replayed('IN_PLAY', { ...halfTime }, halfTime);
+};
+
+/**
+ * Validate recording JSON
+ */
+export const parseRecording = (json: unknown): FootballDataRecording => {
+  const recording = json as Partial<FootballDataRecording> | null;
+  if (!recording || typeof recording !== 'object' || !recording.competitions || typeof recording.competitions !== 'object') {
+    throw new Error('Invalid football data recording: competitions are missing');
+  }
+
+  for (const [code, seasons] of Object.entries(recording.competitions)) {
+    for (const [season, data] of Object.entries(seasons)) {
+      if (!Array.isArray(data?.matches)) {
+        throw new Error(`Invalid football data recording: ${code} ${season} has no matches`);
+      }
+    }
+  }
+
+  return {
+    source: recording.source ?? 'football-data',
+    recordedAt: recording.recordedAt ?? '',
+    competitions: recording.competitions
+  };
+};
+
+export const createRecordedProvider = (
+  recording: FootballDataRecording,
+  options: RecordedProviderOptions = {}
+): FootballDataProvider => {
+  const seasonData = (competitionCode: string, season: number): Partial<RecordedCompetitionSeason> =>
+    recording.competitions[competitionCode]?.[String(season)] ?? {};
+  const replay = (matches: FootballMatch[]): FootballMatch[] => {
+    if (!options.now) return matches;
+    const now = options.now();
+    return matches.map(match => replayMatchAt(match, now));
+  };
+  const allMatches = (competitionCodes?: string[]): FootballMatch[] =>
+    Object.entries(recording.competitions)
+      .filter(([code]) => !competitionCodes || competitionCodes.includes(code))
+      .flatMap(([, seasons]) => Object.values(seasons).flatMap(data => data.matches));
+
+  return {
+    id: 'recorded',
+
+    async getMatches(competitionCode, season) {
+      return replay(seasonData(competitionCode, season).matches ?? []);
+    },
+
+    async getMatch(matchId) {
+      const match = allMatches().find(candidate => candidate.id === matchId);
+      if (!match) throw new Error(`Match ${matchId} is not in the recording`);
+      return replay([match])[0];
+    },
+
+    async getLiveMatches(competitionCodes) {
+      return replay(allMatches(competitionCodes)).filter(match => LIVE_STATUSES.has(match.status));
+    },
+
+    async getTeams(competitionCode, season) {
+      return seasonData(competitionCode, season).teams ?? [];
+    },
+
+    async getStandings(competitionCode, season) {
+      return seasonData(competitionCode, season).standings ?? [];
+    },
+
+    async getScorers(competitionCode, season, limit) {
+      return (seasonData(competitionCode, season).scorers ?? []).slice(0, limit);
+    }
+  };
+};
+
+/**
+ * Capture competitions from a live provider into a recording
+ */
+export const captureRecording = async (
+  provider: FootballDataProvider,
+  targets: Array<{ competitionCode: string; season: number }>,
+  scorersLimit: number = 20
+): Promise<FootballDataRecording> => {
+  const recording: FootballDataRecording = {
+    source: provider.id,
+    recordedAt: new Date().toISOString(),
+    competitions: {}
+  };
+
+  for (const { competitionCode, season } of targets) {
+    // Sequential: provider free tiers are rate limited per minute
+    const matches = await provider.getMatches(competitionCode, season);
+    const teams = await provider.getTeams(competitionCode, season);
+    const standings = await provider.getStandings(competitionCode, season);
+    const scorers = await provider.getScorers(competitionCode, season, scorersLimit);
+
+    recording.competitions[competitionCode] = {
+      ...recording.competitions[competitionCode],
+      [String(season)]: { matches, teams, standings, scorers }
+    };
+  }
+
+  return recording;
+};
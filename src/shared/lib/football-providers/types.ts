@@ -0,0 +1,140 @@
+// Football data model shared by every provider. The shapes are those of
+// football-data.org v4, the platform's original source; other providers
+// convert their responses into them.
+
+export type FootballMatchStatus =
+  | 'SCHEDULED'
+  | 'TIMED'
+  | 'LIVE'
+  | 'IN_PLAY'
+  | 'PAUSED'
+  | 'FINISHED'
+  | 'POSTPONED'
+  | 'SUSPENDED'
+  | 'CANCELLED';
+
+export interface FootballMatch {
+  id: number;
+  competition: {
+    id: number;
+    name: string;
+    code: string;
+  };
+  season: {
+    id: number;
+    startDate: string;
+    endDate: string;
+    currentMatchday: number;
+  };
+  utcDate: string;
+  status: FootballMatchStatus;
+  matchday: number;
+  stage: string;
+  group: string | null;
+  lastUpdated: string;
+  odds: {
+    msg: string;
+  };
+  score: {
+    winner: 'HOME_TEAM' | 'AWAY_TEAM' | 'DRAW' | null;
+    duration: string;
+    fullTime: {
+      home: number | null;
+      away: number | null;
+    };
+    halfTime: {
+      home: number | null;
+      away: number | null;
+    };
+  };
+  homeTeam: {
+    id: number;
+    name: string;
+    shortName: string;
+    tla: string;
+    crest: string;
+  };
+  awayTeam: {
+    id: number;
+    name: string;
+    shortName: string;
+    tla: string;
+    crest: string;
+  };
+  referees: Array<{
+    id: number;
+    name: string;
+    type: string;
+    nationality: string;
+  }>;
+}
+
+export interface FootballTeam {
+  id: number;
+  name: string;
+  shortName: string;
+  tla: string;
+  crest: string;
+  website: string;
+  founded: number;
+  clubColors: string;
+  venue: string;
+  lastUpdated: string;
+}
+
+export interface Standing {
+  position: number;
+  team: FootballTeam;
+  playedGames: number;
+  won: number;
+  draw: number;
+  lost: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+}
+
+export interface Scorer {
+  player: {
+    id: number;
+    name: string;
+    firstName: string;
+    lastName: string;
+    dateOfBirth: string;
+    nationality: string;
+    position: string;
+  };
+  team: FootballTeam;
+  goals: number;
+  assists: number;
+  penalties: number;
+}
+
+export type FootballDataProviderId = 'football-data' | 'api-football' | 'recorded';
+
+/**
+ * A source of football data. Competitions are identified by their
+ * football-data.org code (PL, PD, SA, CL) and seasons by their start year
+ * whatever the provider; match and club ids are the provider's own.
+ */
+export interface FootballDataProvider {
+  readonly id: FootballDataProviderId;
+  getMatches(competitionCode: string, season: number): Promise<FootballMatch[]>;
+  getMatch(matchId: number): Promise<FootballMatch>;
+  /** Matches in play in any of the competitions */
+  getLiveMatches(competitionCodes: string[]): Promise<FootballMatch[]>;
+  getTeams(competitionCode: string, season: number): Promise<FootballTeam[]>;
+  /** League table; cups with a group stage return their first table */
+  getStandings(competitionCode: string, season: number): Promise<Standing[]>;
+  getScorers(competitionCode: string, season: number, limit: number): Promise<Scorer[]>;
+}
+
+/** fetch, injectable so adapters can run against stubs */
+export type FetchLike = (url: string, init?: { headers?: Record<string, string> }) => Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}>;
@@ -1,36 +1,15 @@
-import { fixturesService, teamsService } from './database';
-import { footballApiService } from './football-api';
+import { fixturesService } from './database';
 import { supabase } from './supabase';
+import { fixtureLifecycleService } from './services/fixture-lifecycle.service';
 
 // Match processing service for handling real fixture data
 export const matchProcessingService = {
-  // Process all fixtures that need snapshots (kickoff time has passed)
+  // Snapshot fixtures past buy-close and advance the rest of their lifecycle
   async processKickoffSnapshots(): Promise<void> {
     try {
       console.log('Processing kickoff snapshots...');
-      
-      const fixturesNeedingSnapshot = await fixturesService.getFixturesNeedingSnapshot();
-      console.log(`Found ${fixturesNeedingSnapshot.length} fixtures needing snapshots`);
-      
-      if (!Array.isArray(fixturesNeedingSnapshot)) {
-        throw new Error('getFixturesNeedingSnapshot did not return an array');
-      }
-      
-      for (const fixture of fixturesNeedingSnapshot) {
-        try {
-          // Capture market cap snapshot
-          await teamsService.captureMarketCapSnapshot(fixture.id);
-          
-          // Mark fixture as closed (trading closed)
-          await fixturesService.markFixtureAsClosed(fixture.id);
-          
-          console.log(`✅ Processed kickoff snapshot for ${fixture.home_team?.name} vs ${fixture.away_team?.name}`);
-        } catch (error) {
-          console.error(`❌ Error processing snapshot for fixture ${fixture.id}:`, error);
-        }
-      }
-      
-      console.log(`Kickoff snapshot processing completed: ${fixturesNeedingSnapshot.length} fixtures processed`);
+      const stats = await fixtureLifecycleService.advanceDue();
+      console.log(`Kickoff snapshot processing completed: ${stats.snapshots} fixtures snapshotted, ${stats.errors} errors`);
     } catch (error) {
       console.error('Error processing kickoff snapshots:', error);
       throw error;
@@ -68,73 +47,15 @@ export const matchProcessingService = {
     }
   },
 
-  // Update fixture results from Football API
-  async updateFixtureResults(): Promise<void> {
-    try {
-      console.log('Updating fixture results from Football API...');
-      
-      // Get all fixtures that are finished in the API but not yet processed
-      const fixtures = await fixturesService.getAll();
-      
-      if (!Array.isArray(fixtures)) {
-        throw new Error('getAll did not return an array');
-      }
-      
-      let updatedCount = 0;
-      
-      for (const fixture of fixtures) {
-        if (fixture.external_id && fixture.status === 'applied' && fixture.result === 'pending') {
-          try {
-            // Validate external_id is a valid number
-            const matchId = parseInt(fixture.external_id);
-            if (isNaN(matchId)) {
-              console.log(`⚠️ Skipping fixture ${fixture.id} - invalid external_id: ${fixture.external_id}`);
-              continue;
-            }
-
-            // Get match details from Football API
-            const matchDetails = await footballApiService.getMatchDetails(matchId);
-            
-            // Update fixture with latest result
-            const newResult = footballApiService.convertMatchStatus(matchDetails.status, matchDetails.score);
-            const newStatus = footballApiService.convertMatchStatusToFixtureStatus(matchDetails.status);
-            
-            if (newResult !== fixture.result || newStatus !== fixture.status) {
-              await fixturesService.updateResult(fixture.id, newResult);
-              
-              if (newStatus === 'applied') {
-                await fixturesService.markFixtureAsApplied(fixture.id);
-              }
-              
-              updatedCount++;
-              console.log(`✅ Updated fixture ${fixture.id}: ${newResult} (${newStatus})`);
-            }
-          } catch (error) {
-            console.error(`❌ Error updating fixture ${fixture.id} (external_id: ${fixture.external_id}):`, error);
-            // Continue processing other fixtures even if one fails
-          }
-        }
-      }
-      
-      console.log(`Fixture result update completed: ${updatedCount} fixtures updated`);
-    } catch (error) {
-      console.error('Error updating fixture results:', error);
-      throw error;
-    }
-  },
-
   // Run the complete match processing workflow
   async runMatchProcessingWorkflow(): Promise<void> {
     try {
       console.log('🚀 Starting match processing workflow...');
       
-      // Step 1: Update fixture results from API
-      await this.updateFixtureResults();
-      
-      // Step 2: Process kickoff snapshots
+      // Step 1: Advance fixture lifecycles (snapshots, scores, results)
       await this.processKickoffSnapshots();
       
-      // Step 3: Process finished matches
+      // Step 2: Process finished matches
       await this.processFinishedMatches();
       
       console.log('✅ Match processing workflow completed successfully');
@@ -250,7 +171,7 @@ export const matchProcessingService = {
         }
 
         try {
-          const { data, error } = await supabase.rpc('process_match_result_atomic', {
+          const { data, error } = await supabase.rpc('apply_match_result', {
             p_fixture_id: fixture.id
           });
 
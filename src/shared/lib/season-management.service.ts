@@ -1,6 +1,20 @@
-import { footballApiService } from './football-api';
+import { footballApiService, footballIntegrationService } from './football-api';
 import { supabase } from './supabase';
 import { logger } from './logger';
+import { dividendsService } from './services/dividends.service';
+import { competitionsService } from './services/competitions.service';
+import { PREMIER_LEAGUE_CODE } from './utils/competitions';
+import type { LeagueTableRow } from './utils/dividends';
+import {
+  DEFAULT_PROMOTED_IPO_MARKET_CAP_CENTS,
+  DEFAULT_TOTAL_SHARES,
+  calculateRelegationSettlement,
+  calculateSharePriceCents,
+  pairRelegatedClubs,
+  planSeasonRollover,
+  type RelegationPolicy,
+  type RelegationSettlement
+} from './utils/season-rollover';
 
 export interface SeasonInfo {
   id: number;
@@ -14,8 +28,37 @@ export interface SeasonUpdateResult {
   message: string;
   oldSeason?: number;
   newSeason?: number;
-  teamsUpdated?: number;
-  fixturesUpdated?: number;
+  fixturesArchived?: number;
+  relegated?: number;
+  promoted?: number;
+  /** Paid to holders of relegated clubs, in cents */
+  settledCents?: number;
+}
+
+export interface SeasonRolloverOptions {
+  relegationPolicy?: RelegationPolicy;
+  /** IPO market cap for promoted clubs, in cents */
+  ipoMarketCapCents?: number;
+}
+
+export interface SeasonRolloverPreview {
+  season: number;
+  nextSeason: number;
+  relegationPolicy: RelegationPolicy;
+  ipoMarketCapCents: number;
+  ipoPriceCents: number;
+  table: LeagueTableRow[];
+  teamNames: Map<number, string>;
+  relegated: Array<{
+    teamId: number;
+    name: string;
+    finalPosition: number | null;
+    finalPriceCents: number;
+    /** Promoted club the holders convert into; null = cash buyout */
+    convertTo: { externalId: number; name: string } | null;
+    settlements: RelegationSettlement[];
+  }>;
+  promoted: Array<{ externalId: number; name: string }>;
 }
 
 export const seasonManagementService = {
@@ -96,63 +139,193 @@ export const seasonManagementService = {
   },
 
   /**
-   * Update database to new season data
+   * What rolling the database over from one season to the next would do:
+   * the final table, which listed clubs are relegated (and what their
+   * holders get) and which clubs are promoted. Reads only.
+   */
+  async previewRollover(season: number, nextSeason: number, options: SeasonRolloverOptions = {}): Promise<SeasonRolloverPreview> {
+    const relegationPolicy = options.relegationPolicy ?? 'buyout';
+    const ipoMarketCapCents = options.ipoMarketCapCents ?? DEFAULT_PROMOTED_IPO_MARKET_CAP_CENTS;
+    const ipoPriceCents = calculateSharePriceCents(ipoMarketCapCents, DEFAULT_TOTAL_SHARES);
+
+    const premierLeague = await competitionsService.getByCode(PREMIER_LEAGUE_CODE);
+    const [{ table, teamNames }, nextSeasonTeams, { data: teams, error: teamsError }, memberIds] = await Promise.all([
+      dividendsService.getLeagueTable(season),
+      footballApiService.getPremierLeagueTeams(nextSeason),
+      supabase.from('teams').select('id, name, external_id, market_cap, total_shares, delisted_at'),
+      premierLeague ? competitionsService.getTeamIds(premierLeague.id, season) : Promise.resolve([])
+    ]);
+
+    if (teamsError) throw teamsError;
+
+    // Clubs listed through other competitions are not relegated from this one
+    const members = new Set(memberIds);
+    const plan = planSeasonRollover(
+      (teams || []).filter(team => members.size === 0 || members.has(team.id)).map(team => ({
+        id: team.id,
+        name: team.name,
+        externalId: team.external_id ? Number(team.external_id) : null,
+        delisted: !!team.delisted_at
+      })),
+      table,
+      nextSeasonTeams.map(team => team.id)
+    );
+
+    const promoted = plan.promotedExternalIds.map(externalId => ({
+      externalId,
+      name: nextSeasonTeams.find(team => team.id === externalId)?.name ?? `Club ${externalId}`
+    }));
+
+    const relegatedIds = plan.relegated.map(team => team.id);
+    const { data: positions, error: positionsError } = relegatedIds.length > 0
+      ? await supabase.from('positions').select('user_id, team_id, quantity').in('team_id', relegatedIds).gt('quantity', 0)
+      : { data: [], error: null };
+
+    if (positionsError) throw positionsError;
+
+    const relegated = plan.relegated.map((team, i) => {
+      const dbTeam = teams?.find(t => t.id === team.id);
+      const finalPriceCents = calculateSharePriceCents(Number(dbTeam?.market_cap ?? 0), dbTeam?.total_shares);
+      const convertTo = relegationPolicy === 'convert' ? promoted[i] ?? null : null;
+      const settlements = calculateRelegationSettlement(
+        (positions || [])
+          .filter(position => position.team_id === team.id)
+          .map(position => ({ userId: position.user_id, quantity: position.quantity })),
+        finalPriceCents,
+        convertTo ? ipoPriceCents : null,
+        DEFAULT_TOTAL_SHARES
+      );
+      return {
+        teamId: team.id,
+        name: team.name,
+        finalPosition: table.find(row => row.teamId === team.id)?.position ?? null,
+        finalPriceCents,
+        convertTo,
+        settlements
+      };
+    });
+
+    return {
+      season,
+      nextSeason,
+      relegationPolicy,
+      ipoMarketCapCents,
+      ipoPriceCents,
+      table,
+      teamNames,
+      relegated,
+      promoted
+    };
+  },
+
+  /**
+   * Roll the database over to a new season: archive the finished season,
+   * settle relegated clubs, list promoted clubs and sync the new fixtures.
+   * With no season in the database yet it only syncs teams and fixtures.
    */
-  async updateToNewSeason(season?: number): Promise<SeasonUpdateResult> {
+  async updateToNewSeason(season?: number, options: SeasonRolloverOptions = {}): Promise<SeasonUpdateResult> {
     try {
-      const seasonInfo = season ? await this.getCurrentActiveSeason() : null;
+      const seasonInfo = season ? null : await this.getCurrentActiveSeason();
       const targetSeason = season || seasonInfo?.id;
       
       if (!targetSeason) {
         return { success: false, message: 'Unable to determine target season' };
       }
 
+      const { currentSeason: oldSeason } = await this.needsSeasonUpdate();
+
       logger.info(`Starting season update to ${targetSeason}`);
 
-      // Step 1: Clear old fixtures (but preserve teams for now)
-      const { error: fixturesError } = await supabase
-        .from('fixtures')
-        .delete()
-        .neq('id', 0); // Delete all fixtures
+      let rollover: { fixtures_archived: number; relegated: number; promoted: number; settled_cents: number } | null = null;
 
-      if (fixturesError) {
-        logger.error('Error clearing fixtures:', fixturesError);
-        return { success: false, message: 'Failed to clear old fixtures' };
-      }
+      if (oldSeason && oldSeason !== targetSeason) {
+        if (oldSeason > targetSeason) {
+          return { success: false, message: `Database already has season ${oldSeason}` };
+        }
 
-      // Step 2: Sync teams for new season (updates external_ids)
-      logger.info('Syncing teams for new season...');
-      const teamsResult = await footballApiService.syncTeams(targetSeason);
-      
-      if (!teamsResult.success) {
-        return { success: false, message: `Failed to sync teams: ${teamsResult.message}` };
+        const preview = await this.previewRollover(oldSeason, targetSeason, options);
+
+        // Step 1: Create promoted clubs that have never been listed
+        logger.info('Syncing teams for new season...');
+        await footballIntegrationService.syncTeamNamesFromApi(targetSeason);
+
+        const promotedExternalIds = preview.promoted.map(team => team.externalId);
+        const { data: promotedTeams, error: promotedError } = promotedExternalIds.length > 0
+          ? await supabase.from('teams').select('id, external_id').in('external_id', promotedExternalIds)
+          : { data: [], error: null };
+
+        if (promotedError) throw promotedError;
+
+        const promotedTeamIds = promotedExternalIds
+          .map(externalId => promotedTeams?.find(team => Number(team.external_id) === externalId)?.id)
+          .filter((id): id is number => id !== undefined);
+
+        // Step 2: Archive, relegate and promote in one transaction
+        logger.info(`Rolling over season ${oldSeason} to ${targetSeason}...`);
+        const { data, error } = await supabase.rpc('rollover_season', {
+          p_season: oldSeason,
+          p_next_season: targetSeason,
+          p_standings: preview.table,
+          p_relegations: pairRelegatedClubs(
+            preview.relegated.map(team => team.teamId),
+            promotedTeamIds,
+            preview.relegationPolicy
+          ),
+          p_promoted_team_ids: promotedTeamIds,
+          p_relegation_policy: preview.relegationPolicy,
+          p_ipo_market_cap: preview.ipoMarketCapCents
+        });
+
+        if (error) throw error;
+        if (!data?.success) {
+          return { success: false, message: data?.error || 'Season rollover failed' };
+        }
+
+        rollover = data;
+      } else {
+        logger.info('Syncing teams for new season...');
+        await footballIntegrationService.syncTeamNamesFromApi(targetSeason);
       }
 
-      // Step 3: Sync fixtures for new season with 30-minute buy window
+      // Step 3: Sync fixtures for the new season, then the other active
+      // competitions' clubs and fixtures (leagues before cups, so cup ties
+      // between listed clubs resolve)
       logger.info('Syncing fixtures for new season...');
-      const fixturesResult = await footballApiService.syncFixtures(targetSeason);
-      
-      if (!fixturesResult.success) {
-        return { success: false, message: `Failed to sync fixtures: ${fixturesResult.message}` };
+      await footballIntegrationService.syncPremierLeagueFixtures(targetSeason);
+
+      const otherCompetitions = (await competitionsService.getAll())
+        .filter(competition => competition.code !== PREMIER_LEAGUE_CODE)
+        .sort((a, b) => (a.competition_type === b.competition_type ? 0 : a.competition_type === 'league' ? -1 : 1));
+      for (const competition of otherCompetitions) {
+        logger.info(`Syncing ${competition.name} for new season...`);
+        await footballIntegrationService.syncTeamNamesFromApi(targetSeason, competition.code);
+        await footballIntegrationService.syncCompetitionFixtures(competition.code, targetSeason);
       }
 
       logger.info(`Season update completed successfully to ${targetSeason}`);
       
       return {
         success: true,
-        message: `Successfully updated to season ${targetSeason}`,
+        message: rollover
+          ? `Archived season ${oldSeason} and rolled over to ${targetSeason}: ${rollover.relegated} relegated, ${rollover.promoted} promoted`
+          : `Successfully updated to season ${targetSeason}`,
+        oldSeason: oldSeason ?? undefined,
         newSeason: targetSeason,
-        teamsUpdated: teamsResult.teamsUpdated,
-        fixturesUpdated: fixturesResult.fixturesUpdated
+        fixturesArchived: rollover?.fixtures_archived,
+        relegated: rollover?.relegated,
+        promoted: rollover?.promoted,
+        settledCents: rollover?.settled_cents
       };
     } catch (error) {
       logger.error('Error updating season:', error);
-      return { success: false, message: `Season update failed: ${error}` };
+      return { success: false, message: `Season update failed: ${error instanceof Error ? error.message : error}` };
     }
   },
 
   /**
-   * Auto-check and update season if needed
+   * Auto-check and update season if needed. Only a database without a
+   * season is updated automatically: a rollover settles relegated clubs'
+   * positions, so it waits for an admin to review and confirm it.
    */
   async autoCheckSeasonUpdate(): Promise<SeasonUpdateResult | null> {
     try {
@@ -160,9 +333,12 @@ export const seasonManagementService = {
       
       if (checkResult.needsUpdate) {
         logger.info(`Season update needed: ${checkResult.message}`);
+
+        if (checkResult.currentSeason) {
+          return { success: false, message: `Season ${checkResult.currentSeason} must be rolled over by an admin` };
+        }
         
-        // Auto-update to new season
-        const updateResult = await this.updateToNewSeason();
+        const updateResult = await this.updateToNewSeason(checkResult.apiSeason);
         
         if (updateResult.success) {
           logger.info(`Auto season update completed: ${updateResult.message}`);
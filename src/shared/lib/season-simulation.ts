@@ -1,5 +1,17 @@
 import { fixturesService, teamsService } from './database';
 import { matchProcessingService } from './match-processing';
+import { transferRulesService } from './services/transfer-rules.service';
+import { calculateOutcomeProbabilities, sampleOutcome } from './utils/match-outcomes';
+import { createForecastAccumulator, type SeasonForecast } from './utils/season-forecast';
+
+/** Simulated seasons per forecast */
+export const DEFAULT_FORECAST_ITERATIONS = 2000;
+/** Simulated seasons between yields to the UI */
+const FORECAST_BATCH_SIZE = 50;
+/** A forecast is reused for this long unless a refresh is requested */
+const FORECAST_CACHE_MS = 5 * 60 * 1000;
+
+let cachedForecast: { forecast: SeasonForecast; generatedAt: number } | null = null;
 
 // Season simulation service for demonstrating the trading system
 export const seasonSimulationService = {
@@ -63,7 +75,8 @@ export const seasonSimulationService = {
     };
   },
 
-  // Simulate a single matchday
+  // Simulate a single matchday (writes live fixtures and teams - the admin UI
+  // simulates in a workspace via simulationWorkspaceService instead)
   async simulateMatchday(matchday: number, simulationSpeed: number = 1000): Promise<void> {
     const fixtures = await this.getFixturesByMatchday(matchday);
     
@@ -86,6 +99,7 @@ export const seasonSimulationService = {
       }
     }
     
+    cachedForecast = null;
     console.log(`🎉 Matchday ${matchday} simulation completed!`);
   },
 
@@ -101,31 +115,49 @@ export const seasonSimulationService = {
       return results[Math.floor(Math.random() * results.length)];
     }
     
-    // Calculate probability based on market cap ratio
-    const homeCap = homeTeam.market_cap;
-    const awayCap = awayTeam.market_cap;
-    const totalCap = homeCap + awayCap;
-    
-    const homeWinProbability = homeCap / totalCap;
-    const awayWinProbability = awayCap / totalCap;
-    const drawProbability = 0.25; // 25% chance of draw
-    
-    // Adjust probabilities to account for draw
-    const adjustedHomeWin = homeWinProbability * (1 - drawProbability);
-    const adjustedAwayWin = awayWinProbability * (1 - drawProbability);
-    
-    const random = Math.random();
-    
-    if (random < adjustedHomeWin) {
-      return 'home_win';
-    } else if (random < adjustedHomeWin + adjustedAwayWin) {
-      return 'away_win';
-    } else {
-      return 'draw';
+    // Probability based on market cap ratio, with a fixed draw chance
+    const probabilities = calculateOutcomeProbabilities(homeTeam.market_cap, awayTeam.market_cap);
+    return sampleOutcome(probabilities, Math.random());
+  },
+
+  // Monte Carlo forecast of final club prices over the remaining fixtures.
+  // Runs entirely in memory (nothing is written) in batches so the page stays responsive.
+  async forecastSeason(options: {
+    iterations?: number;
+    refresh?: boolean;
+    onProgress?: (completed: number, total: number) => void;
+  } = {}): Promise<SeasonForecast> {
+    const iterations = options.iterations ?? DEFAULT_FORECAST_ITERATIONS;
+
+    if (
+      !options.refresh &&
+      cachedForecast &&
+      cachedForecast.forecast.iterations >= iterations &&
+      Date.now() - cachedForecast.generatedAt < FORECAST_CACHE_MS
+    ) {
+      return cachedForecast.forecast;
+    }
+
+    const [teams, fixtures, ruleSet] = await Promise.all([
+      teamsService.getAll(),
+      fixturesService.getAll(),
+      transferRulesService.getActiveRuleSet()
+    ]);
+
+    const accumulator = createForecastAccumulator(teams, fixtures.filter(f => f.status === 'scheduled'));
+
+    while (accumulator.iterations < iterations) {
+      accumulator.run(Math.min(FORECAST_BATCH_SIZE, iterations - accumulator.iterations), ruleSet, Math.random);
+      options.onProgress?.(accumulator.iterations, iterations);
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
+
+    const forecast = accumulator.summarize();
+    cachedForecast = { forecast, generatedAt: Date.now() };
+    return forecast;
   },
 
-  // Simulate the entire season
+  // Simulate the entire season (writes live fixtures and teams)
   async simulateEntireSeason(simulationSpeed: number = 1000): Promise<void> {
     console.log('🚀 Starting 2024-25 Premier League Season Simulation...');
     
@@ -237,7 +269,7 @@ export const seasonSimulationService = {
     }).sort((a, b) => b.currentMarketCap - a.currentMarketCap);
   },
 
-  // Reset season simulation (for testing)
+  // Reset season simulation (for testing; writes live fixtures and teams)
   async resetSeasonSimulation(): Promise<void> {
     console.log('🔄 Resetting season simulation...');
     
@@ -255,6 +287,7 @@ export const seasonSimulationService = {
       await teamsService.updateMarketCap(team.id, team.initial_market_cap);
     }
     
+    cachedForecast = null;
     console.log('✅ Season simulation reset completed');
   }
 };
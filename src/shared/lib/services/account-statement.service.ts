@@ -0,0 +1,142 @@
+// Account statement service - loads everything a monthly account statement needs
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import { walletService } from './wallet.service';
+import { ordersService } from './orders.service';
+import { positionsService } from './positions.service';
+import { p2pMarketService } from './p2p-market.service';
+import {
+  buildAccountStatement,
+  type AccountStatement,
+  type StatementLedgerEntry,
+  type StatementTrade,
+  type StatementWalletTransaction
+} from '../utils/account-statement';
+
+const PAGE_SIZE = 1000;
+
+export const accountStatementService = {
+  /**
+   * Statement for one calendar month (UTC). Works for the signed-in user and,
+   * for admins, any user.
+   *
+   * @param month - 1-12
+   */
+  async getMonthlyStatement(userId: string, year: number, month: number): Promise<AccountStatement> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    // Full wallet history: the opening balance is rebuilt from the first transaction
+    const transactions: StatementWalletTransaction[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await walletService.getWalletTransactions(sanitizedUserId, PAGE_SIZE, offset);
+      transactions.push(...page.map(tx => ({
+        id: tx.id,
+        type: tx.type,
+        amountCents: Number(tx.amount_cents),
+        createdAt: tx.created_at,
+        ref: tx.ref ?? null
+      })));
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    const [orders, p2pTrades, positions, { data: profile, error: profileError }] = await Promise.all([
+      ordersService.getUserOrders(sanitizedUserId),
+      p2pMarketService.getUserTrades(sanitizedUserId),
+      positionsService.getUserPositions(sanitizedUserId),
+      supabase.from('profiles').select('username, email').eq('id', sanitizedUserId).maybeSingle()
+    ]);
+
+    if (profileError) throw profileError;
+
+    const trades: StatementTrade[] = [
+      ...orders
+        .filter(order => order.status === 'FILLED' && (order.order_kind ?? 'MARKET') !== 'LIMIT')
+        .map<StatementTrade>(order => ({
+          id: `order:${order.id}`,
+          source: order.order_kind === 'SETTLEMENT' ? 'settlement' : 'market',
+          teamId: order.team_id,
+          teamName: order.team?.name ?? `Club ${order.team_id}`,
+          side: order.order_type,
+          quantity: order.quantity,
+          amountCents: Number(order.total_amount),
+          feeCents: Number(order.fee_cents ?? 0),
+          executedAt: order.executed_at || order.created_at
+        })),
+      ...p2pTrades.map<StatementTrade>(trade => ({
+        id: `p2p:${trade.id}`,
+        source: 'p2p',
+        teamId: trade.team_id,
+        teamName: trade.team?.name ?? `Club ${trade.team_id}`,
+        side: trade.buyer_id === sanitizedUserId ? 'BUY' : 'SELL',
+        quantity: trade.quantity,
+        amountCents: Number(trade.price_cents) * trade.quantity,
+        feeCents: 0,
+        executedAt: trade.executed_at
+      }))
+    ];
+
+    const teamNames = new Map<number, string>();
+    const currentHoldings = new Map<number, number>();
+    for (const trade of trades) teamNames.set(trade.teamId, trade.teamName);
+    for (const position of positions) {
+      currentHoldings.set(position.team_id, position.quantity);
+      if (position.team?.name) teamNames.set(position.team_id, position.team.name);
+    }
+
+    const teamIds = [...teamNames.keys()];
+    const ledger: StatementLedgerEntry[] = [];
+    const fallbackPriceCents = new Map<number, number>();
+
+    if (teamIds.length > 0) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('total_ledger')
+          .select('team_id, ledger_type, event_date, opponent_team_name, match_score, share_price_before, share_price_after')
+          .in('team_id', teamIds)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        for (const entry of data || []) {
+          if (!entry.share_price_after) continue;
+          ledger.push({
+            teamId: entry.team_id,
+            ledgerType: entry.ledger_type,
+            eventDate: entry.event_date,
+            opponentName: entry.opponent_team_name,
+            matchScore: entry.match_score,
+            sharePriceBeforeCents: Number(entry.share_price_before ?? entry.share_price_after),
+            sharePriceAfterCents: Number(entry.share_price_after)
+          });
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      const { data: teams, error: teamsError } = await supabase
+        .from('teams')
+        .select('id, launch_price')
+        .in('id', teamIds);
+
+      if (teamsError) throw teamsError;
+      for (const team of teams || []) {
+        if (team.launch_price) fallbackPriceCents.set(team.id, team.launch_price);
+      }
+    }
+
+    logger.debug(`Building ${year}-${month} statement for ${sanitizedUserId}: ${transactions.length} wallet transactions, ${trades.length} trades`);
+
+    return buildAccountStatement({
+      userId: sanitizedUserId,
+      accountName: profile?.username || profile?.email || sanitizedUserId,
+      year,
+      month,
+      transactions,
+      trades,
+      ledger,
+      currentHoldings,
+      teamNames,
+      fallbackPriceCents
+    });
+  }
+};
@@ -504,6 +504,7 @@ export const adminService = {
     totalUserDeposits: number;
     totalUserWallets: number;
     totalInvested: number;
+    totalWithdrawals: number;
     platformRevenue: number;
   }> {
     try {
@@ -556,14 +557,27 @@ export const adminService = {
       // Convert cents to dollars: total_invested is now BIGINT (cents)
       const totalInvested = (positions || []).reduce((sum, pos) => sum + fromCents(pos.total_invested || 0).toNumber(), 0);
 
-      // Platform revenue = total deposits - total wallets (money in system)
-      const platformRevenue = totalUserDeposits - totalUserWallets;
+      // Get total withdrawals (requested, approved or paid - rejected and failed ones were refunded)
+      const { data: withdrawals, error: withdrawalsError } = await supabase
+        .from('withdrawal_requests')
+        .select('amount_cents')
+        .in('status', ['requested', 'approved', 'paid']);
+
+      if (withdrawalsError) {
+        logger.error('Error fetching withdrawals for financial overview:', withdrawalsError);
+        throw new Error(`Failed to fetch withdrawals: ${withdrawalsError.message}`);
+      }
+      const totalWithdrawals = (withdrawals || []).reduce((sum, w) => sum + fromCents(w.amount_cents || 0).toNumber(), 0);
+
+      // Platform revenue = total deposits - total wallets - withdrawals (money in system)
+      const platformRevenue = totalUserDeposits - totalUserWallets - totalWithdrawals;
 
       return {
         totalPlatformValue,
         totalUserDeposits,
         totalUserWallets,
         totalInvested,
+        totalWithdrawals,
         platformRevenue
       };
     } catch (error) {
@@ -0,0 +1,104 @@
+// Competitions service - competitions and the clubs listed in each season
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import type { CompetitionType } from '../utils/transfer-rules';
+
+export interface DatabaseCompetition {
+  id: number;
+  /** football-data.org competition code, e.g. PL, PD, SA, CL */
+  code: string;
+  name: string;
+  competition_type: CompetitionType;
+  area: string | null;
+  emblem_url: string | null;
+  is_active: boolean;
+}
+
+export const competitionsService = {
+  /** Competitions, active ones only unless includeInactive */
+  async getAll(includeInactive = false): Promise<DatabaseCompetition[]> {
+    let query = supabase
+      .from('competitions')
+      .select('id, code, name, competition_type, area, emblem_url, is_active')
+      .order('id', { ascending: true });
+
+    if (!includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as DatabaseCompetition[];
+  },
+
+  async getByCode(code: string): Promise<DatabaseCompetition | null> {
+    const { data, error } = await supabase
+      .from('competitions')
+      .select('id, code, name, competition_type, area, emblem_url, is_active')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as DatabaseCompetition | null;
+  },
+
+  /**
+   * Clubs listed in a competition for a season, or for the latest season
+   * the competition has clubs for
+   */
+  async getTeamIds(competitionId: number, season?: number): Promise<number[]> {
+    let targetSeason = season;
+
+    if (targetSeason === undefined) {
+      const { data: latest, error: latestError } = await supabase
+        .from('team_competitions')
+        .select('season')
+        .eq('competition_id', competitionId)
+        .order('season', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) throw latestError;
+      if (!latest) return [];
+      targetSeason = latest.season;
+    }
+
+    const { data, error } = await supabase
+      .from('team_competitions')
+      .select('team_id')
+      .eq('competition_id', competitionId)
+      .eq('season', targetSeason);
+
+    if (error) throw error;
+    return (data || []).map(row => row.team_id);
+  },
+
+  /** Replace a competition's clubs for a season (admin only) */
+  async setTeams(competitionId: number, season: number, teamIds: number[]): Promise<number> {
+    const { data, error } = await supabase.rpc('set_competition_teams', {
+      p_competition_id: competitionId,
+      p_season: season,
+      p_team_ids: teamIds
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update competition clubs');
+    }
+
+    return data.teams;
+  },
+
+  /** Show or hide a competition in the competition switchers (admin only) */
+  async setActive(competitionId: number, isActive: boolean): Promise<void> {
+    const { data, error } = await supabase.rpc('set_competition_active', {
+      p_competition_id: competitionId,
+      p_is_active: isActive
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update competition');
+    }
+
+    logger.info(`Competition ${competitionId} ${isActive ? 'activated' : 'deactivated'}`);
+  }
+};
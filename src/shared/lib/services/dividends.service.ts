@@ -0,0 +1,213 @@
+// Dividends service - prize pools, admin preview and payouts to shareholders
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import { competitionsService } from './competitions.service';
+import { PREMIER_LEAGUE_CODE } from '../utils/competitions';
+import {
+  calculateLeagueTable,
+  previewDividends,
+  type DividendAwardInput,
+  type DividendAwardType,
+  type DividendHolding,
+  type DividendPreview,
+  type DividendPrizePool,
+  type LeagueTableRow
+} from '../utils/dividends';
+
+export interface DatabaseDividendAward {
+  id: number;
+  season: number;
+  award_type: DividendAwardType;
+  matchday: number | null;
+  league_position: number | null;
+  team_id: number;
+  pool_cents: number;
+  record_date: string;
+  holders_count: number;
+  shares_held: number;
+  paid_cents: number;
+  paid_at: string;
+  team: {
+    name: string;
+  };
+}
+
+export interface DatabaseDividendPayout {
+  id: number;
+  award_id: number;
+  user_id: string;
+  team_id: number;
+  quantity: number;
+  amount_cents: number;
+  created_at: string;
+  team: {
+    name: string;
+  };
+  award: {
+    season: number;
+    award_type: DividendAwardType;
+    matchday: number | null;
+    league_position: number | null;
+  };
+}
+
+export interface PayDividendsParams {
+  season: number;
+  awardType: DividendAwardType;
+  matchday: number | null;
+  recordDate: string;
+  awards: DividendAwardInput[];
+}
+
+export const dividendsService = {
+  async getPrizePools(season: number): Promise<DividendPrizePool[]> {
+    const { data, error } = await supabase
+      .from('dividend_prize_pools')
+      .select('award_type, league_position, pool_cents')
+      .eq('season', season)
+      .order('league_position', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      awardType: row.award_type as DividendAwardType,
+      leaguePosition: row.league_position,
+      poolCents: Number(row.pool_cents)
+    }));
+  },
+
+  /** Replaces the season's pools for one award type */
+  async setPrizePools(season: number, awardType: DividendAwardType, pools: DividendPrizePool[]): Promise<void> {
+    const { data, error } = await supabase.rpc('set_dividend_prize_pools', {
+      p_season: season,
+      p_award_type: awardType,
+      p_pools: pools
+        .filter(pool => pool.awardType === awardType && pool.poolCents > 0)
+        .map(pool => ({ leaguePosition: pool.leaguePosition, poolCents: Math.round(pool.poolCents) }))
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to save prize pools');
+    }
+  },
+
+  /**
+   * League table for a season from a league competition's applied fixtures
+   * (the Premier League by default), optionally only up to and including a
+   * matchday
+   */
+  async getLeagueTable(
+    season: number,
+    matchday?: number | null,
+    competitionCode: string = PREMIER_LEAGUE_CODE
+  ): Promise<{ table: LeagueTableRow[]; teamNames: Map<number, string> }> {
+    const competition = await competitionsService.getByCode(competitionCode);
+    if (!competition) {
+      throw new Error(`Unknown competition: ${competitionCode}`);
+    }
+
+    const [{ data: teams, error: teamsError }, { data: fixtures, error: fixturesError }, memberIds] = await Promise.all([
+      supabase.from('teams').select('id, name').is('delisted_at', null),
+      (() => {
+        let query = supabase
+          .from('fixtures')
+          .select('home_team_id, away_team_id, home_score, away_score')
+          .eq('season', season)
+          .eq('competition_id', competition.id)
+          .neq('result', 'pending');
+        if (matchday) query = query.lte('matchday', matchday);
+        return query;
+      })(),
+      competitionsService.getTeamIds(competition.id, season)
+    ]);
+
+    if (teamsError) throw teamsError;
+    if (fixturesError) throw fixturesError;
+
+    // The competition's clubs this season, plus any club that has played in it
+    const clubIds = new Set([...memberIds, ...(fixtures || []).flatMap(f => [f.home_team_id, f.away_team_id])]);
+    const teamNames = new Map(
+      (teams || []).filter(team => clubIds.has(team.id)).map(team => [team.id, team.name] as [number, string])
+    );
+    const table = calculateLeagueTable(
+      [...teamNames.keys()],
+      (fixtures || [])
+        .filter(f => f.home_score !== null && f.away_score !== null)
+        .map(f => ({ homeTeamId: f.home_team_id, awayTeamId: f.away_team_id, homeScore: f.home_score, awayScore: f.away_score }))
+    );
+
+    return { table, teamNames };
+  },
+
+  async getHolders(teamId: number, recordDate: string): Promise<DividendHolding[]> {
+    const { data, error } = await supabase.rpc('get_dividend_holders', {
+      p_team_id: teamId,
+      p_record_date: recordDate
+    });
+
+    if (error) throw error;
+    return ((data || []) as Array<{ user_id: string; quantity: number }>).map(row => ({
+      userId: row.user_id,
+      quantity: Number(row.quantity)
+    }));
+  },
+
+  /** What paying these awards would credit, using holdings at the record date */
+  async previewAwards(awards: DividendAwardInput[], recordDate: string): Promise<DividendPreview> {
+    const teamIds = [...new Set(awards.map(award => award.teamId))];
+    const holders = await Promise.all(teamIds.map(teamId => this.getHolders(teamId, recordDate)));
+    return previewDividends(awards, new Map(teamIds.map((teamId, i) => [teamId, holders[i]])));
+  },
+
+  async payDividends(params: PayDividendsParams): Promise<{ awards: number; paid_cents: number }> {
+    const { data, error } = await supabase.rpc('pay_dividends', {
+      p_season: params.season,
+      p_award_type: params.awardType,
+      p_matchday: params.awardType === 'matchday_position' ? params.matchday : null,
+      p_record_date: params.recordDate,
+      p_awards: params.awards.map(award => ({
+        teamId: award.teamId,
+        leaguePosition: award.leaguePosition,
+        poolCents: award.poolCents
+      }))
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to pay dividends');
+    }
+
+    logger.info(`Paid ${data.awards} ${params.awardType} dividend awards for season ${params.season}: ${data.paid_cents} cents`);
+    return { awards: data.awards, paid_cents: data.paid_cents };
+  },
+
+  async getAwards(season: number): Promise<DatabaseDividendAward[]> {
+    const { data, error } = await supabase
+      .from('dividend_awards')
+      .select(`
+        *,
+        team:teams(name)
+      `)
+      .eq('season', season)
+      .order('paid_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseDividendAward[];
+  },
+
+  async getUserPayouts(userId: string): Promise<DatabaseDividendPayout[]> {
+    const { data, error } = await supabase
+      .from('dividend_payouts')
+      .select(`
+        *,
+        team:teams(name),
+        award:dividend_awards(season, award_type, matchday, league_position)
+      `)
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseDividendPayout[];
+  }
+};
@@ -0,0 +1,178 @@
+// Fixture lifecycle service - inspects fixtures' lifecycle state and history
+// and advances them (utils/fixture-lifecycle.ts)
+import { supabase } from '../supabase';
+import { footballApiService } from '../football-api';
+import { logger } from '../logger';
+import {
+  ACTIVE_LIFECYCLE_STATES,
+  LIFECYCLE_RESUME_WINDOW_HOURS,
+  MAX_LIFECYCLE_ATTEMPTS,
+  UNRESOLVED_LIFECYCLE_STATES,
+  advanceFixtureLifecycle,
+  type FixtureLifecycleDriver,
+  type FixtureLifecycleState,
+  type FixtureTransitionSource,
+  type LifecycleAdvanceResult,
+  type LifecycleFixture,
+  type LifecycleTransitionDetails
+} from '../utils/fixture-lifecycle';
+
+export interface DatabaseLifecycleFixture extends LifecycleFixture {
+  external_id: string | null;
+  home_score: number | null;
+  away_score: number | null;
+  status: string;
+  result: string;
+  lifecycle_attempts: number;
+  lifecycle_error: string | null;
+  lifecycle_retry_at: string | null;
+  lifecycle_updated_at: string | null;
+  home_team: { name: string } | null;
+  away_team: { name: string } | null;
+}
+
+export interface DatabaseFixtureTransition {
+  id: number;
+  fixture_id: number;
+  from_state: FixtureLifecycleState;
+  to_state: FixtureLifecycleState | null;
+  succeeded: boolean;
+  source: FixtureTransitionSource | 'migration' | 'direct';
+  actor_id: string | null;
+  details: Record<string, unknown>;
+  error: string | null;
+  created_at: string;
+}
+
+const LIFECYCLE_FIXTURE_COLUMNS = `
+  id, external_id, lifecycle_state, kickoff_at, buy_close_at, home_score, away_score, status, result,
+  lifecycle_attempts, lifecycle_error, lifecycle_retry_at, lifecycle_updated_at,
+  home_team:teams!fixtures_home_team_id_fkey(name),
+  away_team:teams!fixtures_away_team_id_fkey(name)
+`;
+
+const createDriver = (source: FixtureTransitionSource): FixtureLifecycleDriver => ({
+  async getMatch(fixture) {
+    if (!fixture.external_id) throw new Error('Fixture has no external id');
+    return footballApiService.getMatchDetails(Number(fixture.external_id));
+  },
+
+  async transition(fixture, step) {
+    await fixtureLifecycleService.transition(fixture.id, step.to, step.details, source);
+  },
+
+  async recordFailure(fixture, to, message) {
+    const { error } = await supabase.rpc('record_fixture_transition_failure', {
+      p_fixture_id: fixture.id,
+      p_to_state: to,
+      p_error: message,
+      p_source: source
+    });
+    if (error) logger.error(`Error recording lifecycle failure for fixture ${fixture.id}:`, error);
+  },
+
+  async updateLiveScore(fixture, scores) {
+    const { error } = await supabase
+      .from('fixtures')
+      .update({ ...scores, updated_at: new Date().toISOString() })
+      .eq('id', fixture.id)
+      .eq('lifecycle_state', 'live');
+    if (error) throw error;
+  }
+});
+
+export const fixtureLifecycleService = {
+  /**
+   * Fixtures the lifecycle still has work for and results applied recently
+   * (both from the resume window up to two days ahead), postponed and
+   * abandoned fixtures awaiting a decision, and any fixture whose last
+   * attempt failed
+   */
+  async getActive(now: Date = new Date()): Promise<DatabaseLifecycleFixture[]> {
+    const from = new Date(now.getTime() - LIFECYCLE_RESUME_WINDOW_HOURS * 60 * 60 * 1000);
+    const to = new Date(now.getTime() + 48 * 60 * 60 * 1000);
+    const recentStates = [...ACTIVE_LIFECYCLE_STATES, 'applied'].join(',');
+    const { data, error } = await supabase
+      .from('fixtures')
+      .select(LIFECYCLE_FIXTURE_COLUMNS)
+      .or([
+        `and(lifecycle_state.in.(${recentStates}),kickoff_at.gte.${from.toISOString()},kickoff_at.lte.${to.toISOString()})`,
+        `lifecycle_state.in.(${UNRESOLVED_LIFECYCLE_STATES.join(',')})`,
+        'lifecycle_error.not.is.null'
+      ].join(','))
+      .order('kickoff_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as unknown as DatabaseLifecycleFixture[];
+  },
+
+  async getHistory(fixtureId: number): Promise<DatabaseFixtureTransition[]> {
+    const { data, error } = await supabase
+      .from('fixture_transitions')
+      .select('*')
+      .eq('fixture_id', fixtureId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DatabaseFixtureTransition[];
+  },
+
+  /**
+   * Move a fixture to a state; admin transitions are audited. Rescheduling
+   * takes kickoff_at, voiding an applied result takes a reason and reverses
+   * its transfer.
+   */
+  async transition(
+    fixtureId: number,
+    to: FixtureLifecycleState,
+    details: LifecycleTransitionDetails = {},
+    source: FixtureTransitionSource = 'admin'
+  ): Promise<void> {
+    const { data, error } = await supabase.rpc('transition_fixture', {
+      p_fixture_id: fixtureId,
+      p_to_state: to,
+      p_details: details,
+      p_source: source
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || `Transition to ${to} failed`);
+  },
+
+  /** Walk one fixture through every transition that is due now */
+  async advance(fixture: LifecycleFixture, source: FixtureTransitionSource = 'admin'): Promise<LifecycleAdvanceResult> {
+    return advanceFixtureLifecycle(fixture, createDriver(source), new Date());
+  },
+
+  /**
+   * Advance every fixture with lifecycle work due, as the update-matches
+   * function does on its schedule
+   */
+  async advanceDue(): Promise<{ checked: number; transitions: number; snapshots: number; errors: number }> {
+    const now = new Date();
+    const stats = { checked: 0, transitions: 0, snapshots: 0, errors: 0 };
+    const resumeFrom = now.getTime() - LIFECYCLE_RESUME_WINDOW_HOURS * 60 * 60 * 1000;
+    const fixtures = (await this.getActive(now)).filter(fixture =>
+      fixture.external_id &&
+      new Date(fixture.kickoff_at).getTime() >= resumeFrom &&
+      ACTIVE_LIFECYCLE_STATES.includes(fixture.lifecycle_state) &&
+      fixture.lifecycle_attempts < MAX_LIFECYCLE_ATTEMPTS &&
+      (!fixture.lifecycle_retry_at || new Date(fixture.lifecycle_retry_at) <= now)
+    );
+
+    const driver = createDriver('scheduler');
+    for (const fixture of fixtures) {
+      stats.checked++;
+      const result = await advanceFixtureLifecycle(fixture, driver, now);
+      stats.transitions += result.transitions.length;
+      if (result.transitions.includes('snapshotted')) stats.snapshots++;
+      if (result.error) {
+        logger.error(`Error advancing fixture ${fixture.id}:`, result.error);
+        stats.errors++;
+      }
+    }
+
+    return stats;
+  }
+};
@@ -2,9 +2,14 @@
 import { supabase } from '../supabase';
 import { logger } from '../logger';
 import { sanitizeInput } from '../sanitization';
+import type { CompetitionType } from '../utils/transfer-rules';
+import { LIVE_MATCH_GRACE_HOURS } from '../utils/trading-window';
+import type { LiveTeam } from '../utils/live-projections';
+import type { FixtureLifecycleState } from '../utils/fixture-lifecycle';
 
 export interface DatabaseFixture {
   id: number;
+  external_id?: string | null;
   home_team_id: number;
   away_team_id: number;
   kickoff_at: string;
@@ -16,6 +21,12 @@ export interface DatabaseFixture {
   away_score?: number;
   matchday?: number;
   season?: number;
+  competition_type?: CompetitionType;
+  finished_at?: string | null;
+  lifecycle_state?: FixtureLifecycleState;
+  lifecycle_attempts?: number;
+  lifecycle_error?: string | null;
+  lifecycle_retry_at?: string | null;
   created_at: string;
 }
 
@@ -30,6 +41,11 @@ export interface DatabaseFixtureWithTeams extends DatabaseFixture {
   };
 }
 
+export interface DatabaseFixtureInProgress extends DatabaseFixture {
+  home_team: LiveTeam;
+  away_team: LiveTeam;
+}
+
 export const fixturesService = {
   async getAll(): Promise<DatabaseFixtureWithTeams[]> {
     const { data, error } = await supabase
@@ -80,23 +96,6 @@ export const fixturesService = {
     if (error) throw error;
   },
 
-  async getFixturesNeedingSnapshot(): Promise<DatabaseFixtureWithTeams[]> {
-    const now = new Date();
-    const { data, error } = await supabase
-      .from('fixtures')
-      .select(`
-        *,
-        home_team:teams!fixtures_home_team_id_fkey(name, external_id),
-        away_team:teams!fixtures_away_team_id_fkey(name, external_id)
-      `)
-      .eq('status', 'scheduled')
-      .lte('kickoff_at', now.toISOString())
-      .is('snapshot_home_cap', null);
-    
-    if (error) throw error;
-    return data || [];
-  },
-
   async getFixturesNeedingProcessing(): Promise<DatabaseFixtureWithTeams[]> {
     const { data, error } = await supabase
       .from('fixtures')
@@ -114,13 +113,27 @@ export const fixturesService = {
     return data || [];
   },
 
-  async markFixtureAsClosed(id: string): Promise<void> {
-    const { error } = await supabase
+  /**
+   * Fixtures that may be in progress: live, or kicked off within the live
+   * grace period without a result. Teams include their current market cap.
+   */
+  async getInProgress(): Promise<DatabaseFixtureInProgress[]> {
+    const now = new Date();
+    const graceStart = new Date(now.getTime() - LIVE_MATCH_GRACE_HOURS * 60 * 60 * 1000);
+    const { data, error } = await supabase
       .from('fixtures')
-      .update({ status: 'closed' })
-      .eq('id', id);
-    
+      .select(`
+        *,
+        home_team:teams!fixtures_home_team_id_fkey(id, name, market_cap, total_shares),
+        away_team:teams!fixtures_away_team_id_fkey(id, name, market_cap, total_shares)
+      `)
+      .in('status', ['scheduled', 'live', 'closed'])
+      .eq('result', 'pending')
+      .gte('kickoff_at', graceStart.toISOString())
+      .lte('kickoff_at', now.toISOString());
+
     if (error) throw error;
+    return data || [];
   },
 
   async markFixtureAsApplied(id: string): Promise<void> {
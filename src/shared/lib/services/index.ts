@@ -2,9 +2,27 @@
 export { teamsService, type DatabaseTeam } from './teams.service';
 export { fixturesService, type DatabaseFixture, type DatabaseFixtureWithTeams } from './fixtures.service';
 export { positionsService, type DatabasePosition, type DatabasePositionWithTeam } from './positions.service';
-export { ordersService, type DatabaseOrder, type DatabaseOrderWithTeam } from './orders.service';
+export { ordersService, type DatabaseOrder, type DatabaseOrderWithTeam, type PlaceLimitOrderParams } from './orders.service';
 export { transfersLedgerService, type DatabaseTransferLedger } from './transfers.service';
 export { matchService } from './match.service';
 export { marketService, type MarketData } from './market.service';
 export { realtimeService } from './realtime.service';
 export { matchMonitorService } from './match-monitor.service';
+export { positionTriggersService, type ArmedPositionTrigger, type DatabasePositionTriggerEvent } from './position-triggers.service';
+export { transferRulesService, type DatabaseTransferRuleSet } from './transfer-rules.service';
+export { portfolioHistoryService, type EquityCurveGranularity, type PortfolioHistory } from './portfolio-history.service';
+export { portfolioRiskService } from './portfolio-risk.service';
+export { withdrawalsService, type DatabaseWithdrawal, type WithdrawalQueueItem } from './withdrawals.service';
+export { leaderboardService, type LeaderboardPeriodOption, type LeaderboardStanding, type LeaderboardDetailRow } from './leaderboard.service';
+export { leaguesService, type DatabaseLeague, type DatabaseLeagueMember } from './leagues.service';
+export { notificationsService, type DatabasePriceAlert, type DatabaseNotification, type CreatePriceAlertParams } from './notifications.service';
+export { tradingWindowService, type DatabaseTradingHalt } from './trading-window.service';
+export { simulationWorkspaceService, type DatabaseSimulationWorkspace, type DatabaseSimulationFixture, type SimulationWorkspaceState } from './simulation-workspace.service';
+export { p2pMarketService, type DatabaseP2POrder, type DatabaseP2POrderWithTeam, type DatabaseP2PTradeWithTeam, type P2POrderBook, type PlaceP2POrderParams } from './p2p-market.service';
+export { tradingFeesService, type DatabaseFeeSchedule, type DatabaseFeePromotion, type TradeFeeContext, type CreateFeePromotionParams } from './trading-fees.service';
+export { taxLotsService } from './tax-lots.service';
+export { accountStatementService } from './account-statement.service';
+export { dividendsService, type DatabaseDividendAward, type DatabaseDividendPayout, type PayDividendsParams } from './dividends.service';
+export { seasonArchiveService, type DatabaseArchivedSeason, type DatabaseArchivedSeasonTeam, type DatabaseArchivedFixture } from './season-archive.service';
+export { competitionsService, type DatabaseCompetition } from './competitions.service';
+export { fixtureLifecycleService, type DatabaseLifecycleFixture, type DatabaseFixtureTransition } from './fixture-lifecycle.service';
@@ -0,0 +1,194 @@
+// Leaderboard service - weekly and period (matchday, month, season, custom) leaderboards
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import type { LeaderboardPeriodType } from '../utils/leaderboard-periods';
+
+export interface LeaderboardPeriodOption {
+  type: LeaderboardPeriodType;
+  key: string;
+  label: string;
+  start: string;
+  end: string;
+}
+
+export interface LeaderboardStanding {
+  user_id: string;
+  full_name: string | null;
+  rank: number;
+  period_return: number;
+}
+
+/** Stored leaderboard row, money values in cents */
+export interface LeaderboardDetailRow {
+  user_id: string;
+  rank: number;
+  start_wallet_value: number;
+  start_portfolio_value: number;
+  start_account_value: number;
+  end_wallet_value: number;
+  end_portfolio_value: number;
+  end_account_value: number;
+  deposits: number;
+  period_return: number;
+}
+
+const VALUE_COLUMNS = 'user_id, rank, start_wallet_value, start_portfolio_value, start_account_value, end_wallet_value, end_portfolio_value, end_account_value';
+
+export const leaderboardService = {
+  /**
+   * Stored periods of a type, most recent first.
+   * Weekly periods are keyed by week_start and come from weekly_leaderboard.
+   */
+  async getPeriods(type: LeaderboardPeriodType): Promise<LeaderboardPeriodOption[]> {
+    if (type === 'week') {
+      const { data, error } = await supabase
+        .from('weekly_leaderboard')
+        .select('week_start, week_end, week_number')
+        .order('week_start', { ascending: false });
+
+      if (error) throw error;
+
+      const weeks = new Map<string, LeaderboardPeriodOption>();
+      for (const w of data || []) {
+        if (!weeks.has(w.week_start)) {
+          weeks.set(w.week_start, {
+            type,
+            key: w.week_start,
+            label: w.week_number != null ? `Week ${w.week_number}` : `Week of ${new Date(w.week_start).toLocaleDateString('en-GB')}`,
+            start: w.week_start,
+            end: w.week_end
+          });
+        }
+      }
+      return [...weeks.values()];
+    }
+
+    const { data, error } = await supabase
+      .from('period_leaderboard')
+      .select('period_key, period_label, period_start, period_end')
+      .eq('period_type', type)
+      .order('period_end', { ascending: false });
+
+    if (error) throw error;
+
+    const periods = new Map<string, LeaderboardPeriodOption>();
+    for (const p of data || []) {
+      if (!periods.has(p.period_key)) {
+        periods.set(p.period_key, {
+          type,
+          key: p.period_key,
+          label: p.period_label,
+          start: p.period_start,
+          end: p.period_end
+        });
+      }
+    }
+    return [...periods.values()];
+  },
+
+  /**
+   * Public standings for one period (most recent when no key is given).
+   * Returns are fractions (0.05 = 5%).
+   */
+  async getStandings(type: LeaderboardPeriodType, periodKey?: string): Promise<LeaderboardStanding[]> {
+    if (type === 'week') {
+      if (!periodKey) {
+        const { data, error } = await supabase.rpc('get_weekly_leaderboard_current');
+        if (error) throw error;
+        return (data || []).map((row: { user_id: string; full_name: string | null; rank: number; weekly_return: number }) => ({
+          user_id: row.user_id,
+          full_name: row.full_name,
+          rank: row.rank,
+          period_return: Number(row.weekly_return)
+        }));
+      }
+
+      const { data, error } = await supabase
+        .from('weekly_leaderboard')
+        .select('user_id, rank, weekly_return')
+        .eq('week_start', periodKey)
+        .order('rank', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(row => ({
+        user_id: row.user_id,
+        full_name: null,
+        rank: row.rank,
+        period_return: Number(row.weekly_return)
+      }));
+    }
+
+    const { data, error } = await supabase.rpc('get_period_leaderboard', {
+      p_period_type: type,
+      p_period_key: periodKey ? sanitizeInput(periodKey, 'text') : null
+    });
+
+    if (error) throw error;
+    return (data || []).map((row: { user_id: string; full_name: string | null; rank: number; period_return: number }) => ({
+      user_id: row.user_id,
+      full_name: row.full_name,
+      rank: row.rank,
+      period_return: Number(row.period_return)
+    }));
+  },
+
+  /**
+   * Full stored rows for one period (admin view)
+   */
+  async getPeriodDetail(period: LeaderboardPeriodOption): Promise<LeaderboardDetailRow[]> {
+    if (period.type === 'week') {
+      const { data, error } = await supabase
+        .from('weekly_leaderboard')
+        .select(`${VALUE_COLUMNS}, deposits_week, weekly_return`)
+        .eq('week_start', period.start)
+        .eq('week_end', period.end)
+        .order('rank', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(({ deposits_week, weekly_return, ...row }) => ({
+        ...row,
+        deposits: deposits_week,
+        period_return: Number(weekly_return)
+      }));
+    }
+
+    const { data, error } = await supabase
+      .from('period_leaderboard')
+      .select(`${VALUE_COLUMNS}, deposits, period_return`)
+      .eq('period_type', period.type)
+      .eq('period_key', period.key)
+      .order('rank', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, period_return: Number(row.period_return) }));
+  },
+
+  /**
+   * Calculate a leaderboard for a custom date range (admin only, enforced
+   * by the function). Re-running the same range replaces it.
+   */
+  async calculateCustomPeriod(start: Date, end: Date): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not signed in');
+    }
+
+    const response = await fetch('/.netlify/functions/update-period-leaderboards', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ period_type: 'custom', start: start.toISOString(), end: end.toISOString() })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Server error: ${response.status}`);
+    }
+
+    logger.debug(`Custom leaderboard ${result.period_key}: ${result.status}`);
+    return result.period_key;
+  }
+};
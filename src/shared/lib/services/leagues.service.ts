@@ -0,0 +1,145 @@
+// Leagues service - private leagues, invite codes and league standings
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import {
+  calculateLeagueStandings,
+  normalizeInviteCode,
+  type LeagueMember,
+  type LeagueStanding
+} from '../utils/private-leagues';
+
+export interface DatabaseLeague {
+  id: number;
+  name: string;
+  invite_code: string;
+  owner_id: string;
+  starts_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseLeagueMember extends LeagueMember {
+  role: 'owner' | 'member';
+}
+
+export const leaguesService = {
+  /**
+   * Create a league owned by the user. Returns the new league id.
+   */
+  async createLeague(userId: string, name: string, startsAt?: Date): Promise<number> {
+    const { data, error } = await supabase.rpc('create_league', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_name: sanitizeInput(name, 'text'),
+      p_starts_at: startsAt ? startsAt.toISOString() : null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to create league');
+    }
+
+    logger.debug(`League ${data.league_id} created with code ${data.invite_code}`);
+    return data.league_id;
+  },
+
+  async joinLeague(userId: string, inviteCode: string): Promise<number> {
+    const { data, error } = await supabase.rpc('join_league', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_invite_code: normalizeInviteCode(inviteCode)
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to join league');
+    }
+
+    logger.debug(`Joined league ${data.league_id}`);
+    return data.league_id;
+  },
+
+  /**
+   * Leave a league. If the owner leaves, the league is deleted.
+   */
+  async leaveLeague(userId: string, leagueId: number): Promise<void> {
+    const { data, error } = await supabase.rpc('leave_league', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_league_id: leagueId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to leave league');
+    }
+  },
+
+  async removeMember(leagueId: number, memberId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('remove_league_member', {
+      p_league_id: leagueId,
+      p_member_id: sanitizeInput(memberId, 'database')
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to remove member');
+    }
+  },
+
+  async regenerateInviteCode(leagueId: number): Promise<string> {
+    const { data, error } = await supabase.rpc('regenerate_league_invite_code', {
+      p_league_id: leagueId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to regenerate invite code');
+    }
+
+    return data.invite_code;
+  },
+
+  /**
+   * Leagues the current user belongs to (RLS limits rows to memberships)
+   */
+  async getMyLeagues(): Promise<DatabaseLeague[]> {
+    const { data, error } = await supabase
+      .from('leagues')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getMembers(leagueId: number): Promise<DatabaseLeagueMember[]> {
+    const { data, error } = await supabase.rpc('get_league_members', {
+      p_league_id: leagueId
+    });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * League standings from the weekly leaderboard, counting only weeks after
+   * the league start and each member's join date
+   */
+  async getStandings(league: DatabaseLeague, leagueMembers?: LeagueMember[]): Promise<LeagueStanding[]> {
+    const members = leagueMembers ?? await this.getMembers(league.id);
+    if (members.length === 0) return [];
+
+    const { data: weeklyReturns, error } = await supabase
+      .from('weekly_leaderboard')
+      .select('user_id, week_start, weekly_return')
+      .in('user_id', members.map(m => m.user_id))
+      .gte('week_start', league.starts_at);
+
+    if (error) throw error;
+
+    return calculateLeagueStandings(
+      league.starts_at,
+      members,
+      (weeklyReturns || []).map(row => ({ ...row, weekly_return: Number(row.weekly_return) }))
+    );
+  }
+};
@@ -0,0 +1,127 @@
+// Notifications service - price alerts and the notification inbox
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import {
+  validateAlertThreshold,
+  type AlertType,
+  type NotificationType,
+  type PriceAlert
+} from '../utils/notifications';
+
+export interface DatabasePriceAlert extends PriceAlert {
+  is_active: boolean;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface DatabaseNotification {
+  id: number;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  team_id: number | null;
+  fixture_id: number | null;
+  alert_id: number | null;
+  read_at: string | null;
+  emailed_at: string | null;
+  created_at: string;
+}
+
+export interface CreatePriceAlertParams {
+  teamId: number;
+  alertType: AlertType;
+  /** Cents for price alerts, percent for match moves, minutes for buy windows */
+  threshold: number;
+  emailEnabled: boolean;
+}
+
+export const notificationsService = {
+  async getAlerts(userId: string): Promise<DatabasePriceAlert[]> {
+    const { data, error } = await supabase
+      .from('price_alerts')
+      .select('*')
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(alert => ({ ...alert, threshold: Number(alert.threshold) }));
+  },
+
+  async createAlert(userId: string, params: CreatePriceAlertParams): Promise<number> {
+    const validationError = validateAlertThreshold(params.alertType, params.threshold);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { data, error } = await supabase.rpc('create_price_alert', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_team_id: params.teamId,
+      p_alert_type: params.alertType,
+      p_threshold: params.threshold,
+      p_email_enabled: params.emailEnabled
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to create alert');
+    }
+
+    logger.debug(`Price alert ${data.alert_id} created`);
+    return data.alert_id;
+  },
+
+  async deleteAlert(userId: string, alertId: number): Promise<void> {
+    const { data, error } = await supabase.rpc('delete_price_alert', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_alert_id: alertId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to delete alert');
+    }
+  },
+
+  /**
+   * Most recent notifications, newest first
+   */
+  async getInbox(userId: string, limit: number = 30): Promise<DatabaseNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, user_id, type, title, body, team_id, fixture_id, alert_id, read_at, emailed_at, created_at')
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .is('read_at', null);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  /**
+   * Mark notifications as read; all unread ones when no ids are given
+   */
+  async markRead(userId: string, ids?: number[]): Promise<void> {
+    const { data, error } = await supabase.rpc('mark_notifications_read', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_ids: ids ?? null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update notifications');
+    }
+  }
+};
@@ -12,7 +12,22 @@ export interface DatabaseOrder {
   quantity: number;
   price_per_share: number;
   total_amount: number;
-  status: 'PENDING' | 'FILLED' | 'CANCELLED';
+  status: 'PENDING' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'TRIGGERED';
+  // SETTLEMENT: filled by a season rollover (relegated club buyout or conversion)
+  order_kind?: 'MARKET' | 'LIMIT' | 'SETTLEMENT';
+  // Limit orders: price in cents, reservation held until fill/cancel/expiry
+  limit_price?: number | null;
+  expires_at?: string | null;
+  reserved_cents?: number;
+  filled_order_id?: number | null;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  last_match_error?: string | null;
+  // Trading fee charged on execution (cents), priced by the active fee schedule
+  fee_cents?: number;
+  fee_rate?: number | null;
+  fee_schedule_version?: string | null;
+  fee_promotion_id?: number | null;
   executed_at?: string;
   created_at: string;
   updated_at: string;
@@ -29,6 +44,15 @@ export interface DatabaseOrderWithTeam extends DatabaseOrder {
   };
 }
 
+export interface PlaceLimitOrderParams {
+  userId: string;
+  teamId: number;
+  orderType: 'BUY' | 'SELL';
+  quantity: number;
+  limitPrice: number; // dollars per share
+  expiresAt?: string | null;
+}
+
 export const ordersService = {
   async createOrder(order: Omit<DatabaseOrder, 'id' | 'executed_at' | 'created_at' | 'updated_at'>): Promise<DatabaseOrder> {
     // CRITICAL: Validate buy window before processing
@@ -164,7 +188,73 @@ export const ordersService = {
     
     if (error) throw error;
     return data || [];
-  }
-};
+  },
 
+  /**
+   * Place a resting limit order. Cash (BUY) or shares (SELL) are reserved
+   * atomically in the database until the order fills, is cancelled or expires.
+   * Orders may be placed while the trading window is closed; they only fill
+   * once it reopens.
+   */
+  async placeLimitOrder(params: PlaceLimitOrderParams): Promise<{ order_id: number; reserved_cents: number }> {
+    const { data, error } = await supabase.rpc('place_limit_order', {
+      p_user_id: sanitizeInput(params.userId, 'database'),
+      p_team_id: params.teamId,
+      p_order_type: params.orderType,
+      p_quantity: Math.floor(params.quantity),
+      p_limit_price_cents: Math.round(params.limitPrice * 100),
+      p_expires_at: params.expiresAt ?? null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to place limit order');
+    }
+
+    logger.debug(`Limit ${params.orderType} order ${data.order_id} placed for team ${params.teamId}`);
+    return { order_id: data.order_id, reserved_cents: data.reserved_cents };
+  },
 
+  async cancelLimitOrder(orderId: number, userId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('cancel_limit_order', {
+      p_order_id: orderId,
+      p_user_id: sanitizeInput(userId, 'database')
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to cancel limit order');
+    }
+  },
+
+  async getUserLimitOrders(userId: string, statuses: DatabaseOrder['status'][] = ['PENDING']): Promise<DatabaseOrderWithTeam[]> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        team:teams(name)
+      `)
+      .eq('user_id', sanitizedUserId)
+      .eq('order_kind', 'LIMIT')
+      .in('status', statuses)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseOrderWithTeam[];
+  },
+
+  async getTeamOpenLimitOrders(teamId: number): Promise<DatabaseOrder[]> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('team_id', teamId)
+      .eq('order_kind', 'LIMIT')
+      .eq('status', 'PENDING')
+      .order('limit_price', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+};
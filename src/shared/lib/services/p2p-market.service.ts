@@ -0,0 +1,180 @@
+// P2P market service - peer-to-peer order book between users
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import type { OrderBookLevel, OrderBookSide, P2POrderStatus } from '../utils/order-book';
+
+export interface DatabaseP2POrder {
+  id: number;
+  user_id: string;
+  team_id: number;
+  side: OrderBookSide;
+  price_cents: number;
+  quantity: number;
+  filled_quantity: number;
+  reserved_cents: number;
+  status: P2POrderStatus;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+  cancelled_at: string | null;
+}
+
+export interface DatabaseP2POrderWithTeam extends DatabaseP2POrder {
+  team: {
+    name: string;
+  };
+}
+
+export interface DatabaseP2PTrade {
+  id: number;
+  team_id: number;
+  bid_order_id: number;
+  ask_order_id: number;
+  buyer_id: string;
+  seller_id: string;
+  price_cents: number;
+  quantity: number;
+  executed_at: string;
+}
+
+export interface DatabaseP2PTradeWithTeam extends DatabaseP2PTrade {
+  team: {
+    name: string;
+  };
+}
+
+export interface P2PLastTrade {
+  price_cents: number;
+  quantity: number;
+  executed_at: string;
+}
+
+export interface P2POrderBook {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  lastTrade: P2PLastTrade | null;
+}
+
+export interface PlaceP2POrderParams {
+  userId: string;
+  teamId: number;
+  side: OrderBookSide;
+  quantity: number;
+  price: number; // dollars per share
+  expiresAt?: string | null;
+}
+
+interface OrderBookLevelRow {
+  price_cents: number;
+  quantity: number;
+  orders: number;
+}
+
+const toLevel = (row: OrderBookLevelRow): OrderBookLevel => ({
+  priceCents: Number(row.price_cents),
+  quantity: row.quantity,
+  orders: row.orders,
+});
+
+export const p2pMarketService = {
+  /**
+   * Post a bid or ask. Cash (BID) or shares (ASK) are reserved and the book
+   * is matched straight away if the club's trading window is open.
+   */
+  async placeOrder(params: PlaceP2POrderParams): Promise<{ order_id: number; status: P2POrderStatus; filled_quantity: number }> {
+    const { data, error } = await supabase.rpc('place_p2p_order', {
+      p_user_id: sanitizeInput(params.userId, 'database'),
+      p_team_id: params.teamId,
+      p_side: params.side,
+      p_quantity: Math.floor(params.quantity),
+      p_price_cents: Math.round(params.price * 100),
+      p_expires_at: params.expiresAt ?? null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to place order');
+    }
+
+    logger.debug(`P2P ${params.side} order ${data.order_id} placed for team ${params.teamId} (${data.status})`);
+    return { order_id: data.order_id, status: data.status, filled_quantity: data.filled_quantity };
+  },
+
+  async cancelOrder(orderId: number, userId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('cancel_p2p_order', {
+      p_order_id: orderId,
+      p_user_id: sanitizeInput(userId, 'database')
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to cancel order');
+    }
+  },
+
+  /** Aggregated depth for one club, best prices first */
+  async getOrderBook(teamId: number, levels = 10): Promise<P2POrderBook> {
+    const { data, error } = await supabase.rpc('get_p2p_order_book', {
+      p_team_id: teamId,
+      p_levels: levels
+    });
+
+    if (error) throw error;
+    return {
+      bids: (data?.bids || []).map(toLevel),
+      asks: (data?.asks || []).map(toLevel),
+      lastTrade: data?.last_trade
+        ? { ...data.last_trade, price_cents: Number(data.last_trade.price_cents) }
+        : null,
+    };
+  },
+
+  async getUserOrders(userId: string, teamId?: number, statuses: P2POrderStatus[] = ['OPEN']): Promise<DatabaseP2POrderWithTeam[]> {
+    let query = supabase
+      .from('p2p_orders')
+      .select(`
+        *,
+        team:teams(name)
+      `)
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .in('status', statuses)
+      .order('created_at', { ascending: false });
+
+    if (teamId !== undefined) {
+      query = query.eq('team_id', teamId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as DatabaseP2POrderWithTeam[];
+  },
+
+  /** Executed P2P trades where the user was buyer or seller */
+  async getUserTrades(userId: string): Promise<DatabaseP2PTradeWithTeam[]> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    const { data, error } = await supabase
+      .from('p2p_trades')
+      .select(`
+        *,
+        team:teams(name)
+      `)
+      .or(`buyer_id.eq.${sanitizedUserId},seller_id.eq.${sanitizedUserId}`)
+      .order('executed_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseP2PTradeWithTeam[];
+  },
+
+  /** Last P2P trade price (dollars) per team id */
+  async getLastTradedPrices(): Promise<Map<number, number>> {
+    const { data, error } = await supabase.rpc('get_p2p_last_prices');
+
+    if (error) throw error;
+    return new Map(
+      ((data || []) as Array<{ team_id: number; price_cents: number }>).map(row => [row.team_id, Number(row.price_cents) / 100])
+    );
+  }
+};
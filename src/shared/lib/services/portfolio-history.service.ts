@@ -0,0 +1,148 @@
+// Portfolio history service - equity curve and performance metrics per user
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import {
+  buildDailyCheckpoints,
+  buildEquityCurve,
+  buildMatchdayCheckpoints,
+  calculatePerformanceMetrics,
+  p2pTradesToHistoryOrders,
+  type EquityPoint,
+  type PortfolioHistoryInput,
+  type PortfolioPerformanceMetrics,
+} from '../utils/portfolio-history';
+
+export type EquityCurveGranularity = 'daily' | 'matchday';
+
+export interface PortfolioHistory {
+  curve: EquityPoint[];
+  metrics: PortfolioPerformanceMetrics;
+}
+
+const PAGE_SIZE = 1000;
+
+export const portfolioHistoryService = {
+  /**
+   * Load everything needed to value the user's account at any point in time.
+   * Prices come from total_ledger (share_price_after, cents), the same
+   * source the weekly leaderboard job uses.
+   */
+  async getHistoryInput(userId: string): Promise<PortfolioHistoryInput> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    const [
+      { data: orders, error: ordersError },
+      { data: p2pTrades, error: p2pError },
+      { data: transactions, error: txError }
+    ] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('team_id, order_type, quantity, executed_at, created_at')
+        .eq('user_id', sanitizedUserId)
+        .eq('status', 'FILLED'),
+      supabase
+        .from('p2p_trades')
+        .select('team_id, buyer_id, seller_id, quantity, executed_at')
+        .or(`buyer_id.eq.${sanitizedUserId},seller_id.eq.${sanitizedUserId}`),
+      supabase
+        .from('wallet_transactions')
+        .select('type, amount_cents, created_at')
+        .eq('user_id', sanitizedUserId)
+        .order('created_at', { ascending: true })
+    ]);
+
+    if (ordersError) throw ordersError;
+    if (p2pError) throw p2pError;
+    if (txError) throw txError;
+
+    const historyOrders = [
+      ...(orders || []).map(order => ({
+        teamId: order.team_id,
+        orderType: order.order_type as 'BUY' | 'SELL',
+        quantity: order.quantity,
+        executedAt: order.executed_at || order.created_at
+      })),
+      ...p2pTradesToHistoryOrders(p2pTrades || [], sanitizedUserId)
+    ];
+
+    const teamIds = [...new Set(historyOrders.map(order => order.teamId))];
+    const prices: PortfolioHistoryInput['prices'] = [];
+    const fallbackPriceCents = new Map<number, number>();
+
+    if (teamIds.length > 0) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('total_ledger')
+          .select('team_id, event_date, share_price_after')
+          .in('team_id', teamIds)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        for (const entry of data || []) {
+          if (entry.share_price_after) {
+            prices.push({ teamId: entry.team_id, effectiveAt: entry.event_date, sharePriceCents: Number(entry.share_price_after) });
+          }
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      const { data: teams, error: teamsError } = await supabase
+        .from('teams')
+        .select('id, launch_price')
+        .in('id', teamIds);
+
+      if (teamsError) throw teamsError;
+      for (const team of teams || []) {
+        if (team.launch_price) fallbackPriceCents.set(team.id, team.launch_price);
+      }
+    }
+
+    return {
+      orders: historyOrders,
+      transactions: (transactions || []).map(tx => ({
+        type: tx.type,
+        amountCents: tx.amount_cents,
+        createdAt: tx.created_at
+      })),
+      prices,
+      fallbackPriceCents
+    };
+  },
+
+  /**
+   * Equity curve from the user's first wallet activity until now, one point
+   * per day or per matchday, plus TWR / IRR / drawdown / volatility
+   */
+  async getPortfolioHistory(userId: string, granularity: EquityCurveGranularity = 'daily'): Promise<PortfolioHistory> {
+    const input = await this.getHistoryInput(userId);
+    const firstActivity = input.transactions[0]?.createdAt;
+
+    if (!firstActivity) {
+      return { curve: [], metrics: calculatePerformanceMetrics([]) };
+    }
+
+    const now = new Date().toISOString();
+    let checkpoints: string[];
+
+    if (granularity === 'matchday') {
+      const { data: fixtures, error } = await supabase
+        .from('fixtures')
+        .select('matchday, kickoff_at')
+        .gte('kickoff_at', firstActivity)
+        .lte('kickoff_at', now)
+        .neq('result', 'pending');
+
+      if (error) throw error;
+      checkpoints = [firstActivity, ...buildMatchdayCheckpoints(fixtures || []), now];
+    } else {
+      checkpoints = buildDailyCheckpoints(firstActivity, now);
+    }
+
+    const curve = buildEquityCurve(input, checkpoints);
+    logger.debug(`Built ${granularity} equity curve for ${userId}: ${curve.length} points`);
+
+    return { curve, metrics: calculatePerformanceMetrics(curve) };
+  }
+};
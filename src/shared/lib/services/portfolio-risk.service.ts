@@ -0,0 +1,61 @@
+// Portfolio risk service - exposure of a user's positions to upcoming fixtures
+import { supabase } from '../supabase';
+import { sanitizeInput } from '../sanitization';
+import { transferRulesService } from './transfer-rules.service';
+import { buildPortfolioRisk, type MatchdayRisk, type RiskFixture, type RiskTeam } from '../utils/portfolio-risk';
+
+/** Matchdays shown in the scenario table */
+const DEFAULT_MATCHDAY_LIMIT = 3;
+
+export const portfolioRiskService = {
+  /**
+   * Best/worst/expected P&L per upcoming matchday for the user's open positions,
+   * priced with the transfer rule set the database currently applies
+   */
+  async getPortfolioRisk(userId: string, matchdayLimit: number = DEFAULT_MATCHDAY_LIMIT): Promise<MatchdayRisk[]> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    const { data: positions, error: positionsError } = await supabase
+      .from('positions')
+      .select('team_id, quantity')
+      .eq('user_id', sanitizedUserId)
+      .gt('quantity', 0);
+
+    if (positionsError) throw positionsError;
+    if (!positions || positions.length === 0) return [];
+
+    const heldTeamIds = positions.map(position => position.team_id);
+    const teamFilter = heldTeamIds.join(',');
+
+    const [{ data: fixtures, error: fixturesError }, ruleSet] = await Promise.all([
+      supabase
+        .from('fixtures')
+        .select('id, home_team_id, away_team_id, kickoff_at, matchday, season, competition_type')
+        .eq('status', 'scheduled')
+        .gt('kickoff_at', new Date().toISOString())
+        .or(`home_team_id.in.(${teamFilter}),away_team_id.in.(${teamFilter})`)
+        .order('kickoff_at', { ascending: true }),
+      transferRulesService.getActiveRuleSet()
+    ]);
+
+    if (fixturesError) throw fixturesError;
+    if (!fixtures || fixtures.length === 0) return [];
+
+    const teamIds = [...new Set(fixtures.flatMap(f => [f.home_team_id, f.away_team_id]))];
+    const { data: teams, error: teamsError } = await supabase
+      .from('teams')
+      .select('id, name, market_cap, total_shares')
+      .in('id', teamIds);
+
+    if (teamsError) throw teamsError;
+
+    const risk = buildPortfolioRisk(
+      positions.map(position => ({ teamId: position.team_id, units: position.quantity })),
+      fixtures as RiskFixture[],
+      new Map((teams || []).map(team => [team.id, team as RiskTeam])),
+      ruleSet
+    );
+
+    return risk.slice(0, matchdayLimit);
+  }
+};
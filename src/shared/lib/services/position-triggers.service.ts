@@ -0,0 +1,105 @@
+// Position triggers service - stop-loss / take-profit on positions
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import type { PositionTriggerType, PositionTriggerEventStatus } from '../utils/position-triggers';
+
+export interface ArmedPositionTrigger {
+  position_id: number;
+  team_id: number;
+  team_name: string;
+  quantity: number;
+  stop_loss_price: number | null; // cents
+  take_profit_price: number | null; // cents
+}
+
+export interface DatabasePositionTriggerEvent {
+  id: number;
+  user_id: string;
+  team_id: number;
+  trigger_type: PositionTriggerType;
+  trigger_price: number; // cents
+  nav_at_trigger: number; // cents
+  quantity: number | null;
+  executed_price: number | null; // cents
+  order_id: number | null;
+  status: PositionTriggerEventStatus;
+  error: string | null;
+  triggered_at: string;
+  executed_at: string | null;
+  created_at: string;
+  team?: {
+    name: string;
+  };
+}
+
+interface ArmedTriggerRow {
+  id: number;
+  team_id: number;
+  quantity: number;
+  stop_loss_price: number | null;
+  take_profit_price: number | null;
+  team: { name: string } | null;
+}
+
+export const positionTriggersService = {
+  /**
+   * Arm, change or clear the stop-loss / take-profit prices on a position.
+   * Prices are dollars per share; pass null to clear a trigger.
+   */
+  async setTriggers(
+    userId: string,
+    teamId: number,
+    stopLossPrice: number | null,
+    takeProfitPrice: number | null
+  ): Promise<void> {
+    const { data, error } = await supabase.rpc('set_position_triggers', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_team_id: teamId,
+      p_stop_loss_cents: stopLossPrice != null ? Math.round(stopLossPrice * 100) : null,
+      p_take_profit_cents: takeProfitPrice != null ? Math.round(takeProfitPrice * 100) : null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update position triggers');
+    }
+
+    logger.debug(`Position triggers updated for team ${teamId}: SL ${stopLossPrice ?? '-'} / TP ${takeProfitPrice ?? '-'}`);
+  },
+
+  async getArmedTriggers(userId: string): Promise<ArmedPositionTrigger[]> {
+    const { data, error } = await supabase
+      .from('positions')
+      .select('id, team_id, quantity, stop_loss_price, take_profit_price, team:teams(name)')
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .gt('quantity', 0)
+      .or('stop_loss_price.not.is.null,take_profit_price.not.is.null');
+
+    if (error) throw error;
+
+    return ((data || []) as unknown as ArmedTriggerRow[]).map(row => ({
+      position_id: row.id,
+      team_id: row.team_id,
+      team_name: row.team?.name || `Team ${row.team_id}`,
+      quantity: row.quantity,
+      stop_loss_price: row.stop_loss_price,
+      take_profit_price: row.take_profit_price
+    }));
+  },
+
+  async getTriggerHistory(userId: string, limit = 20): Promise<DatabasePositionTriggerEvent[]> {
+    const { data, error } = await supabase
+      .from('position_trigger_events')
+      .select(`
+        *,
+        team:teams(name)
+      `)
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .order('triggered_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as DatabasePositionTriggerEvent[];
+  }
+};
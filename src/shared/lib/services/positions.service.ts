@@ -10,6 +10,7 @@ export interface DatabasePosition {
   quantity: number; // Changed from shares to quantity to match database
   total_invested: number;
   total_pnl?: number; // Total P&L in cents (realized + unrealized) - BIGINT from database
+  reserved_quantity?: number; // Shares committed to resting SELL limit orders
   is_latest: boolean;
   created_at: string;
   updated_at: string;
@@ -4,6 +4,7 @@
 import { supabase } from '../supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { logger } from '../logger';
+import type { DatabaseNotification } from './notifications.service';
 
 export const realtimeService = {
   /**
@@ -119,6 +120,27 @@ export const realtimeService = {
     return channel;
   },
 
+  /**
+   * Subscribe to new notifications for a user
+   * Drives the unread badge of the notification bell
+   */
+  subscribeToNotifications(userId: string, callback: (notification: DatabaseNotification) => void): RealtimeChannel {
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          logger.debug('New notification:', payload.new);
+          callback(payload.new as DatabaseNotification);
+        }
+      )
+      .subscribe();
+
+    logger.info('Subscribed to notifications for user:', userId);
+    return channel;
+  },
+
   /**
    * Subscribe to audit log entries
    * For admin dashboard real-time activity monitoring
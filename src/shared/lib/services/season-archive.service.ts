@@ -0,0 +1,83 @@
+// Season archive service - past seasons archived at season rollover
+import { supabase } from '../supabase';
+
+export interface DatabaseArchivedSeason {
+  season: number;
+  next_season: number;
+  relegation_policy: 'buyout' | 'convert';
+  promoted_ipo_market_cap: number;
+  promoted_team_ids: number[];
+  fixtures_count: number;
+  settled_cents: number;
+  archived_at: string;
+}
+
+export interface DatabaseArchivedSeasonTeam {
+  team_id: number;
+  team_name: string;
+  external_id: string | null;
+  logo_url: string | null;
+  final_position: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goals_for: number;
+  goals_against: number;
+  points: number;
+  final_market_cap: number;
+  final_share_price: number;
+  outcome: 'stayed' | 'relegated';
+  converted_to_team_id: number | null;
+}
+
+export interface DatabaseArchivedFixture {
+  fixture_id: number;
+  competition_type: string;
+  matchday: number | null;
+  kickoff_at: string;
+  home_team_id: number;
+  away_team_id: number;
+  home_team_name: string;
+  away_team_name: string;
+  home_score: number | null;
+  away_score: number | null;
+  result: 'home_win' | 'away_win' | 'draw' | 'pending';
+  status: string;
+}
+
+export const seasonArchiveService = {
+  /** Archived seasons, most recent first */
+  async getSeasons(): Promise<DatabaseArchivedSeason[]> {
+    const { data, error } = await supabase
+      .from('archived_seasons')
+      .select('*')
+      .order('season', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseArchivedSeason[];
+  },
+
+  /** Final table of an archived season */
+  async getStandings(season: number): Promise<DatabaseArchivedSeasonTeam[]> {
+    const { data, error } = await supabase
+      .from('archived_season_teams')
+      .select('*')
+      .eq('season', season)
+      .order('final_position', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DatabaseArchivedSeasonTeam[];
+  },
+
+  async getFixtures(season: number): Promise<DatabaseArchivedFixture[]> {
+    const { data, error } = await supabase
+      .from('archived_season_fixtures')
+      .select('*')
+      .eq('season', season)
+      .order('kickoff_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseArchivedFixture[];
+  }
+};
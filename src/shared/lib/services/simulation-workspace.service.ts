@@ -0,0 +1,188 @@
+// Simulation workspace service - sandboxed season simulation that never writes live teams/fixtures
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import type { MatchOutcome } from '../utils/transfer-rules';
+import {
+  calculateWorkspaceUserPnl,
+  compareWorkspaceTeams,
+  type WorkspacePosition,
+  type WorkspaceTeam,
+  type WorkspaceTeamComparison,
+  type WorkspaceUserPnl
+} from '../utils/simulation-workspace';
+
+export type SimulationWorkspaceStatus = 'open' | 'discarded' | 'promoted';
+
+export interface DatabaseSimulationWorkspace {
+  id: number;
+  name: string;
+  status: SimulationWorkspaceStatus;
+  created_by: string | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface DatabaseSimulationFixture {
+  fixture_id: number;
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  matchday: number | null;
+  competition_type: 'league' | 'cup';
+  status: string;
+  result: MatchOutcome | 'pending';
+  home_score: number | null;
+  away_score: number | null;
+  transfer_amount: number | null;
+  rule_version: string | null;
+  simulated_at: string | null;
+}
+
+export interface SimulationWorkspaceState {
+  workspace: DatabaseSimulationWorkspace;
+  teams: WorkspaceTeam[];
+  fixtures: DatabaseSimulationFixture[];
+  comparison: WorkspaceTeamComparison[];
+  userPnl: WorkspaceUserPnl[];
+  /** Live caps moved since the fork, so the workspace can't be promoted */
+  diverged: boolean;
+}
+
+export interface WorkspaceSimulationResult {
+  result: MatchOutcome;
+  transfer_amount: number;
+  rule_version: string;
+  home_market_cap_before: number;
+  away_market_cap_before: number;
+  home_market_cap_after: number;
+  away_market_cap_after: number;
+}
+
+export const simulationWorkspaceService = {
+  async list(): Promise<DatabaseSimulationWorkspace[]> {
+    const { data, error } = await supabase
+      .from('simulation_workspaces')
+      .select('id, name, status, created_by, created_at, closed_at')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Fork the current teams, fixtures and open positions into a new workspace (admin only)
+   */
+  async create(name: string): Promise<number> {
+    const { data, error } = await supabase.rpc('create_simulation_workspace', {
+      p_name: sanitizeInput(name, 'text')
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to create simulation workspace');
+    }
+
+    logger.info(`Simulation workspace ${data.workspace_id} created`);
+    return data.workspace_id;
+  },
+
+  /**
+   * Workspace teams, fixtures and positions compared against live caps
+   */
+  async getState(workspaceId: number): Promise<SimulationWorkspaceState> {
+    const [workspaceResult, teamsResult, fixturesResult, positionsResult, liveResult] = await Promise.all([
+      supabase
+        .from('simulation_workspaces')
+        .select('id, name, status, created_by, created_at, closed_at')
+        .eq('id', workspaceId)
+        .single(),
+      supabase
+        .from('simulation_teams')
+        .select('team_id, name, market_cap, total_shares, forked_market_cap')
+        .eq('workspace_id', workspaceId),
+      supabase
+        .from('simulation_fixtures')
+        .select('fixture_id, home_team_id, away_team_id, kickoff_at, matchday, competition_type, status, result, home_score, away_score, transfer_amount, rule_version, simulated_at')
+        .eq('workspace_id', workspaceId)
+        .order('kickoff_at', { ascending: true }),
+      supabase
+        .from('simulation_positions')
+        .select('user_id, team_id, quantity')
+        .eq('workspace_id', workspaceId),
+      supabase.from('teams').select('id, market_cap')
+    ]);
+
+    const error = workspaceResult.error || teamsResult.error || fixturesResult.error || positionsResult.error || liveResult.error;
+    if (error) throw error;
+
+    const teams = (teamsResult.data || []) as WorkspaceTeam[];
+    const comparison = compareWorkspaceTeams(teams, liveResult.data || []);
+
+    return {
+      workspace: workspaceResult.data as DatabaseSimulationWorkspace,
+      teams,
+      fixtures: (fixturesResult.data || []) as DatabaseSimulationFixture[],
+      comparison,
+      userPnl: calculateWorkspaceUserPnl((positionsResult.data || []) as WorkspacePosition[], teams),
+      diverged: comparison.some(team => team.diverged)
+    };
+  },
+
+  /**
+   * Apply a result to a workspace fixture with the active transfer rules.
+   * Only the workspace copy of the fixture and its clubs change.
+   */
+  async simulateFixture(
+    workspaceId: number,
+    fixtureId: number,
+    homeScore: number,
+    awayScore: number
+  ): Promise<WorkspaceSimulationResult> {
+    const { data, error } = await supabase.rpc('simulate_workspace_fixture', {
+      p_workspace_id: workspaceId,
+      p_fixture_id: fixtureId,
+      p_home_score: homeScore,
+      p_away_score: awayScore
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to simulate fixture');
+    }
+
+    return data as WorkspaceSimulationResult;
+  },
+
+  async discard(workspaceId: number): Promise<void> {
+    const { data, error } = await supabase.rpc('discard_simulation_workspace', {
+      p_workspace_id: workspaceId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to discard simulation workspace');
+    }
+
+    logger.info(`Simulation workspace ${workspaceId} discarded`);
+  },
+
+  /**
+   * Replay the workspace's simulated results on the live tables (admin only).
+   * Refused when live caps have moved since the fork.
+   * Returns the number of fixtures promoted.
+   */
+  async promote(workspaceId: number): Promise<number> {
+    const { data, error } = await supabase.rpc('promote_simulation_workspace', {
+      p_workspace_id: workspaceId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to promote simulation workspace');
+    }
+
+    logger.info(`Simulation workspace ${workspaceId} promoted (${data.fixtures_promoted} fixtures)`);
+    return data.fixtures_promoted;
+  }
+};
@@ -0,0 +1,91 @@
+// Tax lots service - trade history and cost basis preference for tax-lot accounting
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import { p2pMarketService } from './p2p-market.service';
+import type { CostBasisMethod, LotTrade } from '../utils/tax-lots';
+
+interface OrderLotRow {
+  id: number;
+  team_id: number;
+  order_type: 'BUY' | 'SELL';
+  quantity: number;
+  total_amount: number;
+  fee_cents: number | null;
+  executed_at: string | null;
+  created_at: string;
+  team: { name: string } | null;
+}
+
+export const taxLotsService = {
+  /**
+   * Every executed trade for a user: filled market orders (platform trades,
+   * including limit and trigger fills) and P2P trades on either side
+   */
+  async getLotTrades(userId: string): Promise<LotTrade[]> {
+    const sanitizedUserId = sanitizeInput(userId, 'database');
+
+    const [ordersResult, p2pTradeRows] = await Promise.all([
+      supabase
+        .from('orders')
+        .select(`
+          id, team_id, order_type, quantity, total_amount, fee_cents, executed_at, created_at,
+          team:teams(name)
+        `)
+        .eq('user_id', sanitizedUserId)
+        .in('order_kind', ['MARKET', 'SETTLEMENT'])
+        .eq('status', 'FILLED'),
+      p2pMarketService.getUserTrades(sanitizedUserId)
+    ]);
+
+    if (ordersResult.error) throw ordersResult.error;
+
+    const orderTrades = ((ordersResult.data || []) as unknown as OrderLotRow[]).map<LotTrade>(order => ({
+      id: `order:${order.id}`,
+      teamId: order.team_id,
+      teamName: order.team?.name ?? `Club ${order.team_id}`,
+      side: order.order_type,
+      quantity: order.quantity,
+      amountCents: Number(order.total_amount),
+      feeCents: Number(order.fee_cents ?? 0),
+      executedAt: order.executed_at ?? order.created_at,
+    }));
+
+    const p2pTrades = p2pTradeRows.map<LotTrade>(trade => ({
+      id: `p2p:${trade.id}`,
+      teamId: trade.team_id,
+      teamName: trade.team?.name ?? `Club ${trade.team_id}`,
+      side: trade.buyer_id === sanitizedUserId ? 'BUY' : 'SELL',
+      quantity: trade.quantity,
+      amountCents: Number(trade.price_cents) * trade.quantity,
+      feeCents: 0,
+      executedAt: trade.executed_at,
+    }));
+
+    logger.debug(`Loaded ${orderTrades.length} order and ${p2pTrades.length} P2P trades for tax lots`);
+    return [...orderTrades, ...p2pTrades];
+  },
+
+  async getCostBasisMethod(userId: string): Promise<CostBasisMethod> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('cost_basis_method')
+      .eq('id', sanitizeInput(userId, 'database'))
+      .single();
+
+    if (error) throw error;
+    return (data?.cost_basis_method as CostBasisMethod) ?? 'FIFO';
+  },
+
+  async setCostBasisMethod(userId: string, method: CostBasisMethod): Promise<void> {
+    const { data, error } = await supabase.rpc('set_cost_basis_method', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_method: method
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update cost basis method');
+    }
+  }
+};
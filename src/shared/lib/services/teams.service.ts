@@ -16,15 +16,19 @@ export interface DatabaseTeam {
   total_shares?: number; // Fixed at 1000
   available_shares?: number; // Platform inventory
   is_latest?: boolean;
+  /** Set when the club was relegated and delisted by a season rollover */
+  delisted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export const teamsService = {
+  /** Listed clubs (relegated clubs are delisted at season rollover) */
   async getAll(): Promise<DatabaseTeam[]> {
     const { data, error } = await supabase
       .from('teams')
       .select('*')
+      .is('delisted_at', null)
       .order('market_cap', { ascending: false });
     
     if (error) throw error;
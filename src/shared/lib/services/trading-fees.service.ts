@@ -0,0 +1,166 @@
+// Trading fees service - fee schedules, promotions, quotes and revenue
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import {
+  getFeeSchedule,
+  type FeeRevenueRow,
+  type FeeSchedule,
+  type FeeScheduleParams,
+  type FeePromotion,
+  type FeeSide,
+} from '../utils/trading-fees';
+
+export interface DatabaseFeeSchedule {
+  version: string;
+  description: string;
+  params: FeeScheduleParams;
+  is_active: boolean;
+  created_at: string;
+  activated_at: string | null;
+}
+
+export interface DatabaseFeePromotion {
+  id: number;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  side: FeeSide | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Inputs for calculateTradeFee, loaded once when a confirmation modal opens */
+export interface TradeFeeContext {
+  schedule: FeeSchedule;
+  promotions: FeePromotion[];
+  monthlyVolumeCents: number;
+}
+
+export interface CreateFeePromotionParams {
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  side: FeeSide | null;
+}
+
+const toPromotion = (row: Pick<DatabaseFeePromotion, 'id' | 'name' | 'starts_at' | 'ends_at' | 'side'>): FeePromotion => ({
+  id: row.id,
+  name: row.name,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  side: row.side,
+});
+
+export const tradingFeesService = {
+  /**
+   * Active schedule, current/upcoming promotions and the user's volume this
+   * month. Falls back to the default published schedule (no volume, no
+   * promotions) if the context can't be loaded, so quotes err on the high side.
+   */
+  async getFeeContext(userId: string): Promise<TradeFeeContext> {
+    const { data, error } = await supabase.rpc('get_trade_fee_context', {
+      p_user_id: sanitizeInput(userId, 'database')
+    });
+
+    if (error || !data?.schedule) {
+      if (error) {
+        logger.warn('Could not load trade fee context, using default schedule:', error);
+      }
+      return { schedule: getFeeSchedule(), promotions: [], monthlyVolumeCents: 0 };
+    }
+
+    return {
+      schedule: data.schedule as FeeSchedule,
+      promotions: ((data.promotions || []) as DatabaseFeePromotion[]).map(toPromotion),
+      monthlyVolumeCents: Number(data.monthly_volume_cents) || 0,
+    };
+  },
+
+  async listSchedules(): Promise<DatabaseFeeSchedule[]> {
+    const { data, error } = await supabase
+      .from('fee_schedules')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DatabaseFeeSchedule[];
+  },
+
+  /** Make a published schedule the active one (admin only); applies to trades from now on */
+  async activateSchedule(version: string): Promise<void> {
+    const { data, error } = await supabase.rpc('activate_fee_schedule', {
+      p_version: version
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to activate fee schedule');
+    }
+
+    logger.info(`Activated fee schedule ${version}`);
+  },
+
+  async listPromotions(): Promise<DatabaseFeePromotion[]> {
+    const { data, error } = await supabase
+      .from('fee_promotions')
+      .select('*')
+      .order('starts_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as DatabaseFeePromotion[];
+  },
+
+  async createPromotion(params: CreateFeePromotionParams): Promise<number> {
+    const { data, error } = await supabase.rpc('create_fee_promotion', {
+      p_name: sanitizeInput(params.name, 'text'),
+      p_starts_at: params.startsAt,
+      p_ends_at: params.endsAt,
+      p_side: params.side
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to create fee promotion');
+    }
+
+    return data.promotion_id;
+  },
+
+  async endPromotion(promotionId: number): Promise<void> {
+    const { data, error } = await supabase.rpc('end_fee_promotion', {
+      p_promotion_id: promotionId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to end fee promotion');
+    }
+  },
+
+  /** Fee revenue per month, side and schedule version (admin only) */
+  async getRevenueBreakdown(months = 12): Promise<FeeRevenueRow[]> {
+    const { data, error } = await supabase.rpc('get_fee_revenue_breakdown', {
+      p_months: months
+    });
+
+    if (error) throw error;
+    return ((data || []) as Array<{
+      month: string;
+      side: FeeSide;
+      schedule_version: string | null;
+      trades: number;
+      waived_trades: number;
+      volume_cents: number;
+      fee_cents: number;
+    }>).map(row => ({
+      month: row.month,
+      side: row.side,
+      scheduleVersion: row.schedule_version,
+      trades: row.trades,
+      waivedTrades: row.waived_trades,
+      volumeCents: Number(row.volume_cents),
+      feeCents: Number(row.fee_cents),
+    }));
+  }
+};
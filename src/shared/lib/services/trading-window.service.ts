@@ -0,0 +1,108 @@
+// Trading window service - per-competition close/reopen rules and trading halts
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import {
+  DEFAULT_TRADING_WINDOW_CONFIG,
+  validateTradingWindowRule,
+  type TradingHalt,
+  type TradingWindowConfig,
+  type TradingWindowRule
+} from '../utils/trading-window';
+
+export interface DatabaseTradingHalt extends TradingHalt {
+  created_at: string;
+  lifted_at: string | null;
+}
+
+export const tradingWindowService = {
+  /**
+   * Rules per competition and unlifted halts.
+   * Falls back to the default rules if the tables can't be read.
+   */
+  async getConfig(): Promise<TradingWindowConfig> {
+    const [rulesResult, haltsResult] = await Promise.all([
+      supabase.from('trading_window_rules').select('competition_type, close_before_kickoff_minutes, reopen_after_full_time_minutes, matchday_freeze'),
+      supabase.from('trading_halts').select('id, team_id, reason, starts_at, ends_at').is('lifted_at', null)
+    ]);
+
+    if (rulesResult.error || haltsResult.error) {
+      logger.warn('Could not load trading window rules, using defaults:', rulesResult.error || haltsResult.error);
+      return DEFAULT_TRADING_WINDOW_CONFIG;
+    }
+
+    const rules = { ...DEFAULT_TRADING_WINDOW_CONFIG.rules };
+    for (const rule of (rulesResult.data || []) as TradingWindowRule[]) {
+      rules[rule.competition_type] = rule;
+    }
+
+    return { rules, halts: (haltsResult.data || []) as TradingHalt[] };
+  },
+
+  /**
+   * Save a competition's rule (admin only). Upcoming fixtures get their
+   * buy_close_at recalculated. Returns the number of fixtures updated.
+   */
+  async updateRule(rule: TradingWindowRule): Promise<number> {
+    const validationError = validateTradingWindowRule(rule);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { data, error } = await supabase.rpc('update_trading_window_rule', {
+      p_competition_type: rule.competition_type,
+      p_close_before_kickoff_minutes: rule.close_before_kickoff_minutes,
+      p_reopen_after_full_time_minutes: rule.reopen_after_full_time_minutes,
+      p_matchday_freeze: rule.matchday_freeze
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to update trading window rule');
+    }
+
+    logger.info(`Trading window rule for ${rule.competition_type} updated (${data.fixtures_updated} fixtures)`);
+    return data.fixtures_updated;
+  },
+
+  async getOpenHalts(): Promise<DatabaseTradingHalt[]> {
+    const { data, error } = await supabase
+      .from('trading_halts')
+      .select('id, team_id, reason, starts_at, ends_at, created_at, lifted_at')
+      .is('lifted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Halt trading for one club, or the whole market when teamId is null (admin only)
+   */
+  async createHalt(teamId: number | null, reason: string, endsAt?: Date): Promise<number> {
+    const { data, error } = await supabase.rpc('create_trading_halt', {
+      p_team_id: teamId,
+      p_reason: sanitizeInput(reason, 'text'),
+      p_ends_at: endsAt ? endsAt.toISOString() : null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to halt trading');
+    }
+
+    logger.info(`Trading halt ${data.halt_id} created for ${teamId ?? 'whole market'}`);
+    return data.halt_id;
+  },
+
+  async liftHalt(haltId: number): Promise<void> {
+    const { data, error } = await supabase.rpc('lift_trading_halt', {
+      p_halt_id: haltId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to lift trading halt');
+    }
+  }
+};
@@ -0,0 +1,75 @@
+// Transfer rules service - versioned market-cap transfer rule sets
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import {
+  getTransferRuleSet,
+  resolveTransferRuleSet,
+  type TransferRuleParams,
+  type TransferRuleSet,
+} from '../utils/transfer-rules';
+
+export interface DatabaseTransferRuleSet {
+  version: string;
+  description: string;
+  params: TransferRuleParams;
+  is_active: boolean;
+  created_at: string;
+  activated_at: string | null;
+}
+
+const toRuleSet = (row: DatabaseTransferRuleSet): TransferRuleSet => ({
+  ...resolveTransferRuleSet(row.version, row.params),
+  description: row.description,
+});
+
+export const transferRulesService = {
+  /**
+   * Rule set the database currently applies to match results.
+   * Falls back to the default published version if the table can't be read.
+   */
+  async getActiveRuleSet(): Promise<TransferRuleSet> {
+    const { data, error } = await supabase
+      .from('transfer_rule_sets')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        logger.warn('Could not load active transfer rule set, using default:', error);
+      }
+      return getTransferRuleSet();
+    }
+
+    return toRuleSet(data as DatabaseTransferRuleSet);
+  },
+
+  async listRuleSets(): Promise<DatabaseTransferRuleSet[]> {
+    const { data, error } = await supabase
+      .from('transfer_rule_sets')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DatabaseTransferRuleSet[];
+  },
+
+  /**
+   * Make a published version the active rule set (admin only).
+   * Only affects fixtures processed after the switch.
+   */
+  async activateRuleSet(version: string): Promise<void> {
+    const { data, error } = await supabase.rpc('activate_transfer_rule_set', {
+      p_version: version
+    });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to activate transfer rule set');
+    }
+
+    logger.info(`Activated transfer rule set ${version}`);
+  }
+};
@@ -1,6 +1,7 @@
 // Transfers service - handles all transfer ledger operations
 import { supabase } from '../supabase';
 import { logger } from '../logger';
+import type { TransferRuleParams } from '../utils/transfer-rules';
 
 export interface DatabaseTransferLedger {
   id: number;
@@ -10,6 +11,11 @@ export interface DatabaseTransferLedger {
   transfer_amount: number;
   applied_at: string;
   is_latest: boolean;
+  rule_version?: string | null;
+  rule_params?: TransferRuleParams | null;
+  /** Set when the fixture's result was voided and this transfer reversed */
+  voided_at?: string | null;
+  void_reason?: string | null;
 }
 
 export const transfersLedgerService = {
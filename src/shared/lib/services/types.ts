@@ -6,7 +6,7 @@ export interface Order {
   quantity: number;
   price_per_share: number;
   total_amount: number;
-  status: 'PENDING' | 'FILLED' | 'CANCELLED';
+  status: 'PENDING' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'TRIGGERED';
   executed_at: string | null;
   created_at: string;
   updated_at: string;
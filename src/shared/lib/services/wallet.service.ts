@@ -29,13 +29,14 @@ export const walletService = {
 
     return 0;
   },
-  async getWalletTransactions(userId: string, limit = 50) {
+  async getWalletTransactions(userId: string, limit = 50, offset = 0) {
     const { data, error } = await supabase
       .from('wallet_transactions')
       .select('*')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
-      .limit(limit);
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
 
     if (error) throw error;
     return data || [];
@@ -0,0 +1,137 @@
+// Withdrawals service - wallet withdrawal requests, admin review and payouts
+import { supabase } from '../supabase';
+import { logger } from '../logger';
+import { sanitizeInput } from '../sanitization';
+import type { WithdrawalStatus } from '../utils/withdrawals';
+
+export interface DatabaseWithdrawal {
+  id: number;
+  user_id: string;
+  amount_cents: number;
+  status: WithdrawalStatus;
+  destination_account_id: string | null;
+  stripe_transfer_id: string | null;
+  requested_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  rejection_reason: string | null;
+  paid_at: string | null;
+  failed_at: string | null;
+  failure_reason: string | null;
+}
+
+export interface WithdrawalQueueItem extends DatabaseWithdrawal {
+  username: string;
+  has_payout_account: boolean;
+}
+
+export const withdrawalsService = {
+  /**
+   * Request a withdrawal. The amount (dollars) leaves the wallet immediately
+   * and is refunded if the request is rejected or the payout fails.
+   */
+  async requestWithdrawal(userId: string, amount: number): Promise<number> {
+    const { data, error } = await supabase.rpc('request_withdrawal', {
+      p_user_id: sanitizeInput(userId, 'database'),
+      p_amount_cents: Math.round(amount * 100)
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to request withdrawal');
+    }
+
+    logger.debug(`Withdrawal ${data.withdrawal_id} requested: $${amount}`);
+    return data.withdrawal_id;
+  },
+
+  async getUserWithdrawals(userId: string, limit = 20): Promise<DatabaseWithdrawal[]> {
+    const { data, error } = await supabase
+      .from('withdrawal_requests')
+      .select('*')
+      .eq('user_id', sanitizeInput(userId, 'database'))
+      .order('requested_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Admin approval queue: requests awaiting review, plus approved requests
+   * whose payout has not settled yet
+   */
+  async getWithdrawalQueue(): Promise<WithdrawalQueueItem[]> {
+    const { data: withdrawals, error } = await supabase
+      .from('withdrawal_requests')
+      .select('*')
+      .in('status', ['requested', 'approved'])
+      .order('requested_at', { ascending: true });
+
+    if (error) throw error;
+    if (!withdrawals || withdrawals.length === 0) return [];
+
+    const userIds = [...new Set(withdrawals.map(w => w.user_id))];
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, username, stripe_connect_account_id')
+      .in('id', userIds);
+
+    if (profilesError) {
+      logger.warn('Error fetching profiles for withdrawal queue:', profilesError);
+    }
+
+    const profilesMap = new Map((profiles || []).map(p => [p.id, p]));
+
+    return withdrawals.map(w => ({
+      ...w,
+      username: profilesMap.get(w.user_id)?.username || 'Unknown',
+      has_payout_account: !!profilesMap.get(w.user_id)?.stripe_connect_account_id
+    }));
+  },
+
+  /**
+   * Approve or reject a requested withdrawal (admin only, enforced in SQL)
+   */
+  async reviewWithdrawal(withdrawalId: number, approve: boolean, reason?: string): Promise<void> {
+    const { data, error } = await supabase.rpc('review_withdrawal', {
+      p_withdrawal_id: withdrawalId,
+      p_approve: approve,
+      p_reason: reason ? sanitizeInput(reason, 'text') : null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to review withdrawal');
+    }
+
+    logger.debug(`Withdrawal ${withdrawalId} ${approve ? 'approved' : 'rejected'}`);
+  },
+
+  /**
+   * Send an approved withdrawal to Stripe. The request is marked paid when
+   * the transfer webhook arrives.
+   */
+  async sendPayout(withdrawalId: number): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not signed in');
+    }
+
+    const response = await fetch('/.netlify/functions/process-withdrawal', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ withdrawal_id: withdrawalId })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.details || result.error || `Server error: ${response.status}`);
+    }
+
+    return result.transfer_id;
+  }
+};
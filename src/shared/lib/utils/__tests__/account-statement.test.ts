@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accountStatementToCsv,
+  accountStatementToJson,
+  buildAccountStatement,
+  calculateStatementHoldingsAt,
+  getStatementPeriod,
+  type AccountStatementInput,
+  type StatementTrade
+} from '../account-statement';
+
+const trade = (id: string, side: StatementTrade['side'], quantity: number, priceCents: number, executedAt: string, feeCents = 0): StatementTrade => ({
+  id,
+  source: id.startsWith('p2p') ? 'p2p' : 'market',
+  teamId: 1,
+  teamName: 'Arsenal',
+  side,
+  quantity,
+  amountCents: priceCents * quantity,
+  feeCents,
+  executedAt,
+});
+
+const input = (overrides: Partial<AccountStatementInput> = {}): AccountStatementInput => ({
+  userId: 'user-1',
+  accountName: 'alice',
+  year: 2026,
+  month: 3,
+  transactions: [
+    { id: 1, type: 'deposit', amountCents: 100_000, createdAt: '2026-02-01T10:00:00Z' },
+    { id: 2, type: 'purchase', amountCents: 20_000, createdAt: '2026-02-10T10:00:00Z' },
+    { id: 3, type: 'trade_fee', amountCents: 200, createdAt: '2026-02-10T10:00:00Z' },
+    { id: 4, type: 'deposit', amountCents: 50_000, createdAt: '2026-03-02T10:00:00Z' },
+    { id: 5, type: 'sale', amountCents: 12_000, createdAt: '2026-03-20T10:00:00Z' },
+    { id: 6, type: 'trade_fee', amountCents: 120, createdAt: '2026-03-20T10:00:00Z' },
+    { id: 7, type: 'withdrawal', amountCents: 10_000, createdAt: '2026-04-05T10:00:00Z' },
+  ],
+  trades: [
+    trade('order:1', 'BUY', 10, 2000, '2026-02-10T10:00:00Z', 200),
+    trade('order:2', 'SELL', 5, 2400, '2026-03-20T10:00:00Z', 120),
+  ],
+  ledger: [
+    { teamId: 1, ledgerType: 'match_win', eventDate: '2026-03-14T15:00:00Z', opponentName: 'Chelsea', matchScore: '2-1', sharePriceBeforeCents: 2000, sharePriceAfterCents: 2400 },
+    { teamId: 1, ledgerType: 'match_loss', eventDate: '2026-03-28T15:00:00Z', opponentName: 'Spurs', matchScore: '0-1', sharePriceBeforeCents: 2400, sharePriceAfterCents: 2200 },
+  ],
+  currentHoldings: new Map([[1, 5]]),
+  teamNames: new Map([[1, 'Arsenal']]),
+  fallbackPriceCents: new Map([[1, 2000]]),
+  ...overrides,
+});
+
+describe('Account Statement', () => {
+  it('should cover a calendar month in UTC', () => {
+    const { start, end } = getStatementPeriod(2026, 12);
+    expect(start.toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should reconcile opening and closing wallet balance through cash flows', () => {
+    const statement = buildAccountStatement(input());
+
+    expect(statement.openingBalanceCents).toBe(100_000 - 20_000 - 200);
+    expect(statement.cashFlows).toEqual(expect.objectContaining({ deposits: 50_000, sales: 12_000, fees: -120, withdrawals: 0 }));
+    expect(statement.closingBalanceCents).toBe(79_800 + 50_000 + 12_000 - 120);
+    expect(statement.walletLines.map(l => l.balanceAfterCents)).toEqual([129_800, 141_800, 141_680]);
+  });
+
+  it('should count reservations as leaving the wallet and p2p purchases as paid from them', () => {
+    const statement = buildAccountStatement(input({
+      transactions: [
+        { id: 1, type: 'deposit', amountCents: 10_000, createdAt: '2026-03-01T10:00:00Z' },
+        { id: 2, type: 'p2p_reserve', amountCents: 5_000, createdAt: '2026-03-02T10:00:00Z' },
+        { id: 3, type: 'p2p_buy', amountCents: 4_500, createdAt: '2026-03-03T10:00:00Z' },
+        { id: 4, type: 'p2p_release', amountCents: 500, createdAt: '2026-03-03T10:00:00Z' },
+      ],
+    }));
+
+    expect(statement.closingBalanceCents).toBe(10_000 - 4_500);
+    expect(statement.cashFlows.reservations).toBe(-4_500);
+  });
+
+  it('should work holdings back from current positions', () => {
+    const trades = input().trades;
+    expect(calculateStatementHoldingsAt(new Map([[1, 5]]), trades, new Date('2026-03-01T00:00:00Z')).get(1)).toBe(10);
+    expect(calculateStatementHoldingsAt(new Map([[1, 5]]), trades, new Date('2026-02-01T00:00:00Z')).get(1)).toBe(0);
+  });
+
+  it('should value match results on the shares held at the time', () => {
+    const statement = buildAccountStatement(input());
+
+    expect(statement.matchValueChanges.map(m => [m.opponentName, m.quantity, m.valueChangeCents])).toEqual([
+      ['Chelsea', 10, 4_000],
+      ['Spurs', 5, -1_000],
+    ]);
+    expect(statement.openingHoldings).toEqual([expect.objectContaining({ quantity: 10, sharePriceCents: 2000, valueCents: 20_000 })]);
+    expect(statement.closingHoldings).toEqual([expect.objectContaining({ quantity: 5, sharePriceCents: 2200, valueCents: 11_000 })]);
+    expect(statement.totals.closingAccountValueCents).toBe(141_680 + 11_000);
+  });
+
+  it('should export CSV and JSON', () => {
+    const statement = buildAccountStatement(input(), new Date('2026-04-01T00:00:00Z'));
+
+    const csv = accountStatementToCsv(statement);
+    expect(csv).toContain('"Account Statement","March 2026"');
+    expect(csv).toContain('"Opening wallet balance","798.00"');
+    expect(csv).toContain('"2026-03-20T10:00:00Z","Arsenal","SELL","Market","5","120.00","1.20"');
+    expect(csv).toContain('"Arsenal","5","22.00","110.00"');
+
+    const json = JSON.parse(accountStatementToJson(statement));
+    expect(json.amountUnit).toBe('cents');
+    expect(json.closingBalanceCents).toBe(141_680);
+  });
+});
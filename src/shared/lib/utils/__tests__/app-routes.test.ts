@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAGE_PATHS,
+  adminPath,
+  clubPath,
+  getPageIdFromPath,
+  isAdminPanel,
+  isPublicLeaderboardPeriod,
+  leaderboardPath,
+  matchPath,
+  parseIdParam,
+} from '../app-routes';
+
+describe('App routes', () => {
+  it('should build deep-link paths', () => {
+    expect(clubPath(12)).toBe('/clubs/12');
+    expect(clubPath('12', 'history')).toBe('/clubs/12/history');
+    expect(matchPath(345)).toBe('/matches/345');
+    expect(leaderboardPath('month')).toBe('/leaderboard/month');
+    expect(leaderboardPath('leagues')).toBe('/leaderboard/leagues');
+    expect(adminPath()).toBe('/admin');
+    expect(adminPath('financial')).toBe('/admin/financial');
+  });
+
+  it('should map paths back to navigation pages', () => {
+    expect(getPageIdFromPath('/')).toBe('marketplace');
+    expect(getPageIdFromPath('/clubs/12/history')).toBe('marketplace');
+    expect(getPageIdFromPath('/matches/345')).toBe('match-results');
+    expect(getPageIdFromPath('/leaderboard/season')).toBe('leaderboard');
+    expect(getPageIdFromPath('/admin/users')).toBe('admin');
+    expect(getPageIdFromPath(PAGE_PATHS['season-simulation'])).toBe('season-simulation');
+    expect(getPageIdFromPath('/unknown')).toBeNull();
+  });
+
+  it('should only accept positive integer ids', () => {
+    expect(parseIdParam('42')).toBe(42);
+    expect(parseIdParam(undefined)).toBeNull();
+    expect(parseIdParam('0')).toBeNull();
+    expect(parseIdParam('-3')).toBeNull();
+    expect(parseIdParam('4.5')).toBeNull();
+    expect(parseIdParam('12abc')).toBeNull();
+  });
+
+  it('should recognise admin panels and public leaderboard periods', () => {
+    expect(isAdminPanel('audit')).toBe(true);
+    expect(isAdminPanel('settings')).toBe(false);
+    expect(isPublicLeaderboardPeriod('matchday')).toBe(true);
+    expect(isPublicLeaderboardPeriod('custom')).toBe(false);
+    expect(isPublicLeaderboardPeriod(undefined)).toBe(false);
+  });
+});
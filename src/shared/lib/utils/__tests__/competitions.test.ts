@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFixtureTeams, resolveListedTeamIds } from '../competitions';
+
+const listed = [
+  { id: 1, name: 'Arsenal FC', externalId: 57 },
+  { id: 2, name: 'Liverpool FC', externalId: 64 },
+  { id: 3, name: 'Real Madrid CF', externalId: null },
+];
+
+describe('Competitions', () => {
+  it('should resolve API clubs by external id, then by name', () => {
+    const resolved = resolveListedTeamIds(
+      [
+        { id: 57, name: 'Arsenal' },
+        { id: 86, name: 'Real Madrid CF' },
+        { id: 5, name: 'FC Bayern München' },
+      ],
+      listed
+    );
+
+    expect([...resolved.entries()]).toEqual([[57, 1], [86, 3]]);
+  });
+
+  it('should keep cross-league ties between listed clubs and skip the rest', () => {
+    const { fixtures, skipped } = resolveFixtureTeams(
+      [
+        { id: 100, homeTeam: { id: 86, name: 'Real Madrid CF' }, awayTeam: { id: 64, name: 'Liverpool FC' } },
+        { id: 101, homeTeam: { id: 5, name: 'FC Bayern München' }, awayTeam: { id: 57, name: 'Arsenal FC' } },
+      ],
+      listed
+    );
+
+    expect(fixtures.map(f => [f.match.id, f.homeTeamId, f.awayTeamId])).toEqual([[100, 3, 2]]);
+    expect(skipped.map(m => m.id)).toEqual([101]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateDividendPool,
+  calculateLeagueTable,
+  matchPrizePoolsToTeams,
+  previewDividends
+} from '../dividends';
+
+describe('Dividend Payouts', () => {
+  describe('calculateLeagueTable', () => {
+    it('should rank by points, then goal difference, then goals scored', () => {
+      const table = calculateLeagueTable([1, 2, 3, 4], [
+        { homeTeamId: 1, awayTeamId: 2, homeScore: 1, awayScore: 0 },
+        { homeTeamId: 3, awayTeamId: 4, homeScore: 3, awayScore: 0 },
+        { homeTeamId: 2, awayTeamId: 3, homeScore: 2, awayScore: 2 },
+        { homeTeamId: 4, awayTeamId: 1, homeScore: 1, awayScore: 1 },
+      ]);
+
+      expect(table.map(r => [r.position, r.teamId, r.points, r.goalDifference])).toEqual([
+        [1, 3, 4, 3],
+        [2, 1, 4, 1],
+        [3, 2, 1, -1],
+        [4, 4, 1, -3],
+      ]);
+    });
+
+    it('should include teams without results', () => {
+      const table = calculateLeagueTable([5, 6], []);
+      expect(table.map(r => [r.position, r.teamId, r.played])).toEqual([[1, 5, 0], [2, 6, 0]]);
+    });
+  });
+
+  describe('allocateDividendPool', () => {
+    it('should split pro rata by shares held', () => {
+      expect(allocateDividendPool(10_000, [
+        { userId: 'a', quantity: 30 },
+        { userId: 'b', quantity: 10 },
+      ])).toEqual([
+        { userId: 'a', quantity: 30, amountCents: 7_500 },
+        { userId: 'b', quantity: 10, amountCents: 2_500 },
+      ]);
+    });
+
+    it('should pay the whole pool, leftover cents to the largest remainders then by user id', () => {
+      const allocations = allocateDividendPool(100, [
+        { userId: 'c', quantity: 1 },
+        { userId: 'b', quantity: 1 },
+        { userId: 'a', quantity: 1 },
+      ]);
+
+      expect(allocations.map(a => [a.userId, a.amountCents])).toEqual([['c', 33], ['b', 33], ['a', 34]]);
+      expect(allocations.reduce((sum, a) => sum + a.amountCents, 0)).toBe(100);
+    });
+
+    it('should pay nothing when nobody holds the club', () => {
+      expect(allocateDividendPool(5_000, [{ userId: 'a', quantity: 0 }])).toEqual([]);
+    });
+  });
+
+  it('should match pools to clubs and total payouts per user', () => {
+    const table = calculateLeagueTable([1, 2], [{ homeTeamId: 1, awayTeamId: 2, homeScore: 2, awayScore: 0 }]);
+    const awards = matchPrizePoolsToTeams(
+      [
+        { awardType: 'league_position', leaguePosition: 1, poolCents: 10_000 },
+        { awardType: 'league_position', leaguePosition: 2, poolCents: 4_000 },
+        { awardType: 'league_position', leaguePosition: 3, poolCents: 1_000 },
+        { awardType: 'cup_win', leaguePosition: null, poolCents: 6_000 },
+      ],
+      table,
+      new Map([[1, 'Arsenal'], [2, 'Chelsea']]),
+      2
+    );
+
+    expect(awards.map(a => [a.teamName, a.awardType, a.poolCents])).toEqual([
+      ['Arsenal', 'league_position', 10_000],
+      ['Chelsea', 'league_position', 4_000],
+      ['Chelsea', 'cup_win', 6_000],
+    ]);
+
+    const preview = previewDividends(awards, new Map([
+      [1, [{ userId: 'a', quantity: 10 }]],
+      [2, [{ userId: 'a', quantity: 5 }, { userId: 'b', quantity: 15 }]],
+    ]));
+
+    expect(preview.totalPoolCents).toBe(20_000);
+    expect(preview.totalPaidCents).toBe(20_000);
+    expect(preview.byUser).toEqual([
+      { userId: 'a', quantity: 20, amountCents: 10_000 + 1_000 + 1_500 },
+      { userId: 'b', quantity: 30, amountCents: 3_000 + 4_500 },
+    ]);
+  });
+});
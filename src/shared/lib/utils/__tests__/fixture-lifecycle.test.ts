@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceFixtureLifecycle,
+  canTransitionFixture,
+  planLifecycleStep,
+  transitionInput,
+  type FixtureLifecycleDriver,
+  type FixtureLifecycleState,
+  type LifecycleFixture,
+  type LifecycleMatch,
+} from '../fixture-lifecycle';
+import { partitionFixtureUpserts, type FixtureUpsert } from '../../football-providers/fixture-sync';
+
+const KICKOFF = '2025-08-16T11:30:00Z';
+const fixture = (state: FixtureLifecycleState, scores: Partial<LifecycleFixture> = {}): LifecycleFixture => ({
+  id: 1,
+  external_id: '537785',
+  lifecycle_state: state,
+  kickoff_at: KICKOFF,
+  buy_close_at: '2025-08-16T11:15:00Z',
+  ...scores,
+});
+const match = (status: string, home: number | null = null, away: number | null = null): LifecycleMatch => ({
+  status,
+  score: { fullTime: { home, away } },
+});
+
+const row = (externalId: string, status: FixtureUpsert['status'], kickoffAt = KICKOFF): FixtureUpsert => ({
+  external_id: externalId,
+  home_team_id: 1,
+  away_team_id: 2,
+  kickoff_at: kickoffAt,
+  buy_close_at: '2025-08-16T11:15:00.000Z',
+  status,
+  result: 'pending',
+  home_score: 0,
+  away_score: 0,
+  matchday: 1,
+  season: 2025,
+  competition_id: 1,
+  competition_type: 'league',
+  updated_at: KICKOFF,
+});
+
+// In-memory stand-in for transition_fixture and record_fixture_transition_failure
+const fakeDriver = (provider: LifecycleMatch, failOnce: FixtureLifecycleState[] = []) => {
+  const log: string[] = [];
+  let state: FixtureLifecycleState | null = null;
+  const driver: FixtureLifecycleDriver = {
+    getMatch: async () => {
+      log.push('fetch');
+      return provider;
+    },
+    transition: async (current, step) => {
+      const from = state ?? current.lifecycle_state;
+      if (from === step.to) return;
+      if (!canTransitionFixture(from, step.to)) throw new Error(`Fixture cannot move from ${from} to ${step.to}`);
+      const failAt = failOnce.indexOf(step.to);
+      if (failAt >= 0) {
+        failOnce.splice(failAt, 1);
+        throw new Error('Applying the result failed: deadlock');
+      }
+      state = step.to;
+      log.push(`${from}->${step.to}${step.details.home_score !== undefined ? ` ${step.details.home_score}-${step.details.away_score}` : ''}`);
+    },
+    recordFailure: async (current, to, error) => {
+      log.push(`failed ${current.lifecycle_state}->${to}: ${error}`);
+    },
+    updateLiveScore: async (_, scores) => {
+      log.push(`score ${scores.home_score}-${scores.away_score}`);
+    },
+  };
+  return { driver, log, state: () => state };
+};
+
+describe('Fixture lifecycle', () => {
+  it('should plan transitions from the clock and the provider status', () => {
+    expect(planLifecycleStep(fixture('scheduled'), null, new Date('2025-08-16T11:00:00Z'))).toBeNull();
+    expect(planLifecycleStep(fixture('scheduled'), null, new Date('2025-08-16T11:15:00Z'))?.to).toBe('buy_closed');
+    expect(planLifecycleStep(fixture('buy_closed'), match('POSTPONED'), new Date('2025-08-16T11:20:00Z'))?.to).toBe('postponed');
+    expect(planLifecycleStep(fixture('snapshotted'), match('TIMED'), new Date('2025-08-16T11:31:00Z'))).toBeNull();
+    expect(planLifecycleStep(fixture('snapshotted'), match('IN_PLAY', 0, 0), new Date('2025-08-16T11:35:00Z')))
+      .toEqual({ to: 'live', details: { home_score: 0, away_score: 0 } });
+    expect(planLifecycleStep(fixture('live'), match('PAUSED', 1, 0), new Date('2025-08-16T12:20:00Z'))).toBeNull();
+    expect(planLifecycleStep(fixture('live'), match('SUSPENDED', 1, 0), new Date('2025-08-16T12:20:00Z'))?.to).toBe('abandoned');
+    expect(planLifecycleStep(fixture('live'), match('FINISHED', 2, 1), new Date('2025-08-16T13:30:00Z')))
+      .toEqual({ to: 'finished', details: { home_score: 2, away_score: 1 } });
+    expect(planLifecycleStep(fixture('applied'), match('FINISHED', 2, 1), new Date('2025-08-16T13:30:00Z'))).toBeNull();
+  });
+
+  it('should walk a fixture through every due transition with one provider fetch', async () => {
+    const { driver, log } = fakeDriver(match('IN_PLAY', 1, 0));
+    const result = await advanceFixtureLifecycle(fixture('scheduled'), driver, new Date('2025-08-16T11:50:00Z'));
+
+    expect(result).toEqual({ transitions: ['buy_closed', 'snapshotted', 'live'], scoreUpdated: false, error: null });
+    expect(log).toEqual(['fetch', 'scheduled->buy_closed', 'buy_closed->snapshotted', 'snapshotted->live 1-0']);
+
+    const scoring = fakeDriver(match('IN_PLAY', 2, 0));
+    const live = await advanceFixtureLifecycle(fixture('live', { home_score: 1, away_score: 0 }), scoring.driver, new Date('2025-08-16T12:40:00Z'));
+    expect(live).toEqual({ transitions: [], scoreUpdated: true, error: null });
+    expect(scoring.log).toEqual(['fetch', 'score 2-0']);
+  });
+
+  it('should record a failed transition and resume from the last recorded state on retry', async () => {
+    const fake = fakeDriver(match('FINISHED', 2, 1), ['applied']);
+    const now = new Date('2025-08-16T13:30:00Z');
+
+    const first = await advanceFixtureLifecycle(fixture('live', { home_score: 1, away_score: 0 }), fake.driver, now);
+    expect(first).toEqual({ transitions: ['finished'], scoreUpdated: false, error: 'Applying the result failed: deadlock' });
+    expect(fake.state()).toBe('finished');
+
+    // The retry starts where the database left the fixture and applies the result once
+    const retry = await advanceFixtureLifecycle(fixture('finished', { home_score: 2, away_score: 1 }), fake.driver, now);
+    expect(retry).toEqual({ transitions: ['applied'], scoreUpdated: false, error: null });
+    expect(fake.log).toEqual([
+      'fetch',
+      'live->finished 2-1',
+      'failed finished->applied: Applying the result failed: deadlock',
+      'finished->applied',
+    ]);
+  });
+
+  it('should only pass schedule changes and pre-kickoff postponements for synced fixtures', () => {
+    const { inserts, updates, postponedFixtureIds } = partitionFixtureUpserts(
+      [row('100', 'scheduled'), row('101', 'postponed'), row('102', 'postponed'), row('103', 'live')],
+      [
+        { id: 11, external_id: '101', lifecycle_state: 'buy_closed', kickoff_at: KICKOFF },
+        { id: 12, external_id: 102, lifecycle_state: 'live', kickoff_at: KICKOFF },
+        { id: 13, external_id: '103', lifecycle_state: 'snapshotted', kickoff_at: KICKOFF },
+      ]
+    );
+
+    expect(inserts.map(insert => insert.external_id)).toEqual(['100']);
+    expect(updates.map(update => update.external_id)).toEqual(['101', '102', '103']);
+    expect(updates[0]).not.toHaveProperty('status');
+    expect(updates[0]).not.toHaveProperty('result');
+    expect(postponedFixtureIds).toEqual([11]);
+  });
+
+  it('should reschedule postponed fixtures and moved kickoffs past buy-close through the lifecycle', () => {
+    const later = '2025-09-24T19:00:00.000Z';
+    const { inserts, updates, postponedFixtureIds, rescheduled } = partitionFixtureUpserts(
+      [row('100', 'postponed'), row('101', 'scheduled', later), row('102', 'scheduled', later), row('103', 'scheduled', later), row('104', 'scheduled')],
+      [
+        { id: 10, external_id: '100', lifecycle_state: 'postponed', kickoff_at: KICKOFF },
+        { id: 11, external_id: '101', lifecycle_state: 'postponed', kickoff_at: KICKOFF },
+        { id: 12, external_id: '102', lifecycle_state: 'snapshotted', kickoff_at: KICKOFF },
+        { id: 13, external_id: '103', lifecycle_state: 'scheduled', kickoff_at: KICKOFF },
+        { id: 14, external_id: '104', lifecycle_state: 'buy_closed', kickoff_at: '2025-08-16T11:30:00+00:00' },
+      ]
+    );
+
+    expect(inserts).toEqual([]);
+    expect(postponedFixtureIds).toEqual([]);
+    expect(rescheduled).toEqual([{ fixtureId: 11, kickoffAt: later }, { fixtureId: 12, kickoffAt: later }]);
+    // Still postponed, a kickoff move before buy-close and an unchanged kickoff are plain schedule updates
+    expect(updates.map(update => [update.external_id, update.kickoff_at])).toEqual([
+      ['100', KICKOFF],
+      ['103', later],
+      ['104', KICKOFF],
+    ]);
+
+    expect(transitionInput('postponed', 'scheduled')).toBe('kickoff');
+    expect(transitionInput('abandoned', 'finished')).toBe('score');
+    expect(transitionInput('applied', 'voided')).toBe('reason');
+    expect(transitionInput('postponed', 'voided')).toBeNull();
+  });
+});
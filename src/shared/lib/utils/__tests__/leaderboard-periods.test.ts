@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWeekPeriod,
+  getCompletedWeekPeriod,
+  getMonthPeriod,
+  getCompletedMonthPeriod,
+  buildMatchdayPeriods,
+  getSeasonPeriod,
+  getCustomPeriod,
+} from '../leaderboard-periods';
+import { calculateLeaderboard, toPeriodLeaderboardDbFormat } from '../leaderboard-calculations';
+
+describe('Leaderboard Periods', () => {
+  describe('calendar periods', () => {
+    it('should run weeks from Monday 03:00 to Monday 02:59:59 UAE', () => {
+      // Wednesday 8 Oct 2025, midday UAE
+      const week = getWeekPeriod(new Date('2025-10-08T08:00:00Z'));
+
+      expect(week.key).toBe('2025-10-06');
+      expect(week.start.toISOString()).toBe('2025-10-05T23:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2025-10-12T22:59:59.000Z');
+      expect(week.label).toBe('Week of 6 Oct 2025');
+    });
+
+    it('should treat Monday before 03:00 UAE as the previous week', () => {
+      expect(getWeekPeriod(new Date('2025-10-05T22:30:00Z')).key).toBe('2025-09-29');
+      expect(getWeekPeriod(new Date('2025-10-05T23:00:00Z')).key).toBe('2025-10-06');
+    });
+
+    it('should pick the previous week when the weekly job runs', () => {
+      // Sunday 23:00 UTC = Monday 03:00 UAE
+      expect(getCompletedWeekPeriod(new Date('2025-10-12T23:00:00Z')).key).toBe('2025-10-06');
+    });
+
+    it('should run months from the 1st 03:00 UAE', () => {
+      const month = getMonthPeriod(2025, 12);
+
+      expect(month.key).toBe('2025-12');
+      expect(month.label).toBe('December 2025');
+      expect(month.start.toISOString()).toBe('2025-11-30T23:00:00.000Z');
+      expect(month.end.toISOString()).toBe('2025-12-31T22:59:59.000Z');
+    });
+
+    it('should pick the previous month once the new one has started', () => {
+      expect(getCompletedMonthPeriod(new Date('2026-01-01T00:00:00Z')).key).toBe('2025-12');
+      expect(getCompletedMonthPeriod(new Date('2025-12-31T22:00:00Z')).key).toBe('2025-11');
+    });
+  });
+
+  describe('fixture periods', () => {
+    const fixtures = [
+      { matchday: 2, kickoff_at: '2025-08-23T14:00:00Z' },
+      { matchday: 1, kickoff_at: '2025-08-16T14:00:00Z' },
+      { matchday: 1, kickoff_at: '2025-08-17T16:30:00Z' },
+      { matchday: 2, kickoff_at: '2025-08-24T16:30:00Z' },
+      { matchday: null, kickoff_at: '2025-08-20T19:00:00Z' },
+    ];
+
+    it('should span each matchday from just before its first kickoff to its last kickoff', () => {
+      const periods = buildMatchdayPeriods(fixtures, 2025);
+
+      expect(periods.map(p => p.key)).toEqual(['2025-md1', '2025-md2']);
+      expect(periods[0].label).toBe('Matchday 1 (2025/26)');
+      expect(periods[0].start.getTime()).toBeLessThan(new Date('2025-08-16T14:00:00Z').getTime());
+      expect(periods[0].end.toISOString()).toBe('2025-08-17T16:30:00.000Z');
+    });
+
+    it('should cap an in-progress season at now', () => {
+      const now = new Date('2025-08-20T00:00:00Z');
+      const season = getSeasonPeriod(2025, fixtures, now)!;
+
+      expect(season.key).toBe('2025');
+      expect(season.end).toEqual(now);
+      expect(getSeasonPeriod(2025, fixtures, new Date('2025-08-01T00:00:00Z'))).toBeNull();
+      expect(getSeasonPeriod(2025, fixtures, new Date('2026-01-01T00:00:00Z'))!.end.toISOString()).toBe('2025-08-24T16:30:00.000Z');
+    });
+  });
+
+  describe('custom periods', () => {
+    it('should key custom ranges by their bounds and reject empty ranges', () => {
+      const period = getCustomPeriod(new Date('2025-10-01T00:00:00Z'), new Date('2025-10-15T00:00:00Z'));
+
+      expect(period.key).toBe('2025-10-01T00:00:00.000Z_2025-10-15T00:00:00.000Z');
+      expect(() => getCustomPeriod(period.end, period.start)).toThrow();
+    });
+
+    it('should store any period with the shared return formula', () => {
+      const period = getMonthPeriod(2025, 10);
+      const [entry] = calculateLeaderboard([{
+        user_id: 'user-1',
+        start_wallet_value: 1000,
+        start_portfolio_value: 0,
+        start_account_value: 1000,
+        end_wallet_value: 600,
+        end_portfolio_value: 1000,
+        end_account_value: 1600,
+        deposits_week: 500,
+      }]);
+
+      // (1600 - 1000 - 500) / (1000 + 500)
+      expect(entry.weekly_return).toBeCloseTo(0.066667, 6);
+      expect(toPeriodLeaderboardDbFormat(entry, period)).toMatchObject({
+        period_type: 'month',
+        period_key: '2025-10',
+        deposits: 50000,
+        period_return: entry.weekly_return,
+        end_account_value: 160000,
+        rank: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isLimitOrderTriggered,
+  calculateLimitReservationCents,
+  isLimitOrderExpired,
+  calculateDistanceToLimitPercent,
+  validateLimitOrderInput,
+} from '../limit-orders';
+
+describe('Limit Order Utilities', () => {
+  describe('isLimitOrderTriggered', () => {
+    it('should trigger BUY orders when NAV falls to or below the limit', () => {
+      expect(isLimitOrderTriggered('BUY', 20, 19.5)).toBe(true);
+      expect(isLimitOrderTriggered('BUY', 20, 20)).toBe(true);
+      expect(isLimitOrderTriggered('BUY', 20, 20.01)).toBe(false);
+    });
+
+    it('should trigger SELL orders when NAV rises to or above the limit', () => {
+      expect(isLimitOrderTriggered('SELL', 25, 25.5)).toBe(true);
+      expect(isLimitOrderTriggered('SELL', 25, 25)).toBe(true);
+      expect(isLimitOrderTriggered('SELL', 25, 24.99)).toBe(false);
+    });
+
+    it('should compare at cent precision', () => {
+      expect(isLimitOrderTriggered('BUY', 20, 20.004)).toBe(true);
+      expect(isLimitOrderTriggered('SELL', 20, 19.996)).toBe(true);
+    });
+
+    it('should never trigger on invalid prices', () => {
+      expect(isLimitOrderTriggered('BUY', 0, 10)).toBe(false);
+      expect(isLimitOrderTriggered('SELL', 10, 0)).toBe(false);
+    });
+  });
+
+  describe('calculateLimitReservationCents', () => {
+    it('should reserve limit price times quantity for BUY orders', () => {
+      expect(calculateLimitReservationCents('BUY', 20, 5)).toBe(10000);
+      expect(calculateLimitReservationCents('BUY', 12.34, 3)).toBe(3702);
+    });
+
+    it('should add the reserved trading fee to BUY orders only', () => {
+      expect(calculateLimitReservationCents('BUY', 20, 5, 100)).toBe(10100);
+      expect(calculateLimitReservationCents('SELL', 20, 5, 100)).toBe(0);
+    });
+
+    it('should reserve no cash for SELL orders', () => {
+      expect(calculateLimitReservationCents('SELL', 20, 5)).toBe(0);
+    });
+  });
+
+  describe('isLimitOrderExpired', () => {
+    const now = new Date('2025-01-10T12:00:00Z');
+
+    it('should treat missing expiry as good-til-cancelled', () => {
+      expect(isLimitOrderExpired(null, now)).toBe(false);
+      expect(isLimitOrderExpired(undefined, now)).toBe(false);
+    });
+
+    it('should expire orders at or after the expiry time', () => {
+      expect(isLimitOrderExpired('2025-01-10T12:00:00Z', now)).toBe(true);
+      expect(isLimitOrderExpired('2025-01-09T12:00:00Z', now)).toBe(true);
+      expect(isLimitOrderExpired('2025-01-11T12:00:00Z', now)).toBe(false);
+    });
+  });
+
+  describe('calculateDistanceToLimitPercent', () => {
+    it('should return the remaining move as a percentage of NAV', () => {
+      expect(calculateDistanceToLimitPercent('BUY', 18, 20)).toBe(10.00);
+      expect(calculateDistanceToLimitPercent('SELL', 22, 20)).toBe(10.00);
+    });
+
+    it('should return 0 once the order is triggered', () => {
+      expect(calculateDistanceToLimitPercent('BUY', 21, 20)).toBe(0);
+      expect(calculateDistanceToLimitPercent('SELL', 19, 20)).toBe(0);
+    });
+  });
+
+  describe('validateLimitOrderInput', () => {
+    const now = new Date('2025-01-10T12:00:00Z');
+
+    it('should accept a valid BUY order', () => {
+      const result = validateLimitOrderInput(
+        { side: 'BUY', quantity: 5, limitPrice: 18, walletBalance: 100 },
+        now
+      );
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject BUY orders the wallet cannot reserve', () => {
+      const result = validateLimitOrderInput(
+        { side: 'BUY', quantity: 10, limitPrice: 18, walletBalance: 100 },
+        now
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Insufficient wallet balance to reserve this order');
+    });
+
+    it('should require the wallet to cover the reserved trading fee too', () => {
+      const order = { side: 'BUY' as const, quantity: 5, limitPrice: 20, walletBalance: 100 };
+      expect(validateLimitOrderInput(order, now).valid).toBe(true);
+      expect(validateLimitOrderInput({ ...order, feeReserveCents: 100 }, now).valid).toBe(false);
+    });
+
+    it('should reject SELL orders larger than the available shares', () => {
+      const result = validateLimitOrderInput(
+        { side: 'SELL', quantity: 6, limitPrice: 22, availableQuantity: 5 },
+        now
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('You only have 5 shares available to sell');
+    });
+
+    it('should reject invalid quantities, prices and past expiries', () => {
+      const result = validateLimitOrderInput(
+        { side: 'BUY', quantity: 1.5, limitPrice: 0, expiresAt: '2025-01-09T00:00:00Z' },
+        now
+      );
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(3);
+    });
+  });
+});
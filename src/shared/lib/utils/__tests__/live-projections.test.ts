@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLiveProjections,
+  calculateProjectedPortfolioValue,
+  mapApiMatchStatus,
+  type LiveFixture,
+  type LiveTeam,
+} from '../live-projections';
+import { getTransferRuleSet } from '../transfer-rules';
+
+const teams = new Map<number, LiveTeam>([
+  [1, { id: 1, name: 'Arsenal', market_cap: 2_000_000, total_shares: 1000 }],
+  [2, { id: 2, name: 'Chelsea', market_cap: 1_000_000, total_shares: 1000 }],
+]);
+
+const fixture = (overrides: Partial<LiveFixture> = {}): LiveFixture => ({
+  id: 10,
+  external_id: 500,
+  home_team_id: 1,
+  away_team_id: 2,
+  status: 'live',
+  home_score: 0,
+  away_score: 0,
+  snapshot_home_cap: null,
+  snapshot_away_cap: null,
+  competition_type: 'league',
+  ...overrides,
+});
+
+describe('Live projected prices', () => {
+  it('should map API statuses like the update-matches function', () => {
+    expect(mapApiMatchStatus('IN_PLAY')).toBe('live');
+    expect(mapApiMatchStatus('PAUSED')).toBe('live');
+    expect(mapApiMatchStatus('TIMED')).toBe('scheduled');
+    expect(mapApiMatchStatus('FINISHED')).toBe('applied');
+    expect(mapApiMatchStatus('SUSPENDED')).toBe('postponed');
+  });
+
+  it('should project prices with the transfer rule for the current score', () => {
+    const projections = buildLiveProjections([fixture({ home_score: 1, away_score: 0 })], teams, [], getTransferRuleSet('v1'));
+
+    // v1: winner takes 10% of the loser's cap ($1,000 of $10,000)
+    expect(projections.get(1)).toMatchObject({ preMatchPrice: 20, projectedPrice: 21, projectedChangePercent: 5, isHome: true });
+    expect(projections.get(2)).toMatchObject({ preMatchPrice: 10, projectedPrice: 9, projectedChangePercent: -10, isHome: false });
+  });
+
+  it('should prefer API scores and pre-match snapshots', () => {
+    const projections = buildLiveProjections(
+      [fixture({ status: 'scheduled', home_score: 0, away_score: 0, snapshot_away_cap: 2_000_000 })],
+      teams,
+      [{ externalId: 500, status: 'IN_PLAY', homeScore: 0, awayScore: 2 }],
+      getTransferRuleSet('v1')
+    );
+
+    const away = projections.get(2)!;
+    expect(away.awayScore).toBe(2);
+    expect(away.preMatchPrice).toBe(20);
+    expect(away.projectedPrice).toBe(22);
+  });
+
+  it('should skip fixtures that are not in progress', () => {
+    const ruleSet = getTransferRuleSet('v1');
+    expect(buildLiveProjections([fixture({ status: 'scheduled' })], teams, [], ruleSet).size).toBe(0);
+    expect(buildLiveProjections([fixture({ status: 'applied' })], teams, [{ externalId: 500, status: 'FINISHED', homeScore: 1, awayScore: 1 }], ruleSet).size).toBe(0);
+    // Finished per the API but not settled yet: still projected
+    expect(buildLiveProjections([fixture()], teams, [{ externalId: 500, status: 'FINISHED', homeScore: 1, awayScore: 1 }], ruleSet).size).toBe(2);
+  });
+
+  it('should value a portfolio at projected prices for live holdings only', () => {
+    const projections = buildLiveProjections([fixture({ home_score: 2, away_score: 1 })], teams, [], getTransferRuleSet('v1'));
+    const value = calculateProjectedPortfolioValue(
+      [
+        { teamId: 2, units: 10, currentPrice: 10 },
+        { teamId: 3, units: 5, currentPrice: 40 },
+      ],
+      projections
+    );
+
+    expect(value).toEqual({ currentValue: 300, projectedValue: 290, change: -10, liveHoldings: 1 });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  replayMarketCaps,
+  reconcileReplay,
+  buildCorrectivePatch,
+  sortFixturesForReplay,
+  type ReplayFixture,
+  type ReplayTeam,
+  type StoredSnapshot,
+  type StoredTransfer,
+} from '../market-cap-replay';
+import { getTransferRuleSet } from '../transfer-rules';
+
+const teams: ReplayTeam[] = [
+  { id: 1, name: 'Arsenal', initialMarketCapCents: 500000 },
+  { id: 2, name: 'Chelsea', initialMarketCapCents: 500000 },
+  { id: 3, name: 'Everton', initialMarketCapCents: 400000 },
+];
+
+const fixtures: ReplayFixture[] = [
+  { id: 12, homeTeamId: 2, awayTeamId: 3, kickoffAt: '2025-08-20T15:00:00Z', result: 'draw', homeScore: 1, awayScore: 1 },
+  { id: 10, homeTeamId: 1, awayTeamId: 2, kickoffAt: '2025-08-16T15:00:00Z', result: 'home_win', homeScore: 2, awayScore: 0 },
+  { id: 11, homeTeamId: 3, awayTeamId: 1, kickoffAt: '2025-08-16T15:00:00Z', result: 'home_win', homeScore: 1, awayScore: 0 },
+];
+
+// What a correct v1 processing run stores for the fixtures above
+const consistentStore = () => {
+  const replay = replayMarketCaps(teams, fixtures);
+  const transfers: StoredTransfer[] = replay.transfers.map((t, i) => ({ id: 100 + i, ...t }));
+  const snapshots: StoredSnapshot[] = replay.snapshots.map((s, i) => ({
+    id: 200 + i,
+    teamId: s.teamId,
+    fixtureId: s.fixtureId,
+    marketCapCents: s.marketCapCents,
+  }));
+  const storedTeams = teams.map(team => ({ ...team, currentMarketCapCents: replay.finalCaps.get(team.id) }));
+  return { replay, transfers, snapshots, teams: storedTeams };
+};
+
+describe('Market Cap Replay', () => {
+  describe('replayMarketCaps', () => {
+    it('should apply fixtures in kickoff order, breaking ties by id', () => {
+      expect(sortFixturesForReplay(fixtures).map(f => f.id)).toEqual([10, 11, 12]);
+    });
+
+    it('should carry running caps from one match to the next', () => {
+      const { transfers, finalCaps } = replayMarketCaps(teams, fixtures);
+
+      // 10: Arsenal take 10% of Chelsea (50000)
+      // 11: Everton take 10% of Arsenal's new 550000 (55000)
+      // 12: draw, nothing moves under v1
+      expect(transfers).toHaveLength(2);
+      expect(transfers[0]).toMatchObject({ fixtureId: 10, winnerTeamId: 1, loserTeamId: 2, transferAmountCents: 50000 });
+      expect(transfers[1]).toMatchObject({ fixtureId: 11, winnerTeamId: 3, loserTeamId: 1, transferAmountCents: 55000 });
+      expect(finalCaps.get(1)).toBe(495000);
+      expect(finalCaps.get(2)).toBe(450000);
+      expect(finalCaps.get(3)).toBe(455000);
+    });
+
+    it('should produce one snapshot per team per fixture', () => {
+      const { snapshots } = replayMarketCaps(teams, fixtures);
+      expect(snapshots).toHaveLength(6);
+      expect(snapshots.find(s => s.fixtureId === 11 && s.teamId === 1)).toMatchObject({
+        matchResult: 'loss',
+        marketCapBeforeCents: 550000,
+        marketCapCents: 495000,
+        priceImpactCents: -55000,
+      });
+    });
+
+    it('should be deterministic', () => {
+      expect(replayMarketCaps(teams, fixtures)).toEqual(replayMarketCaps(teams, [...fixtures].reverse()));
+    });
+
+    it('should reuse the rule version recorded on the ledger row', () => {
+      const { transfers } = replayMarketCaps(teams, fixtures, {
+        storedTransfers: [{ fixtureId: 12, winnerTeamId: 2, loserTeamId: 3, transferAmountCents: 0, ruleVersion: 'v2' }],
+      });
+      // Chelsea (450000) are the underdog against Everton (455000) going into the draw
+      const draw = transfers.find(t => t.fixtureId === 12);
+      expect(draw?.ruleVersion).toBe('v2');
+      expect(draw?.winnerTeamId).toBe(2);
+      expect(draw?.transferAmountCents).toBe(9100);
+    });
+
+    it('should skip fixtures with unknown teams', () => {
+      const result = replayMarketCaps(teams, [
+        ...fixtures,
+        { id: 99, homeTeamId: 1, awayTeamId: 42, kickoffAt: '2025-08-30T15:00:00Z', result: 'home_win' },
+      ]);
+      expect(result.skippedFixtureIds).toEqual([99]);
+    });
+
+    it('should conserve total market cap', () => {
+      const { finalCaps } = replayMarketCaps(teams, fixtures, { defaultRuleSet: getTransferRuleSet('v2') });
+      const total = [...finalCaps.values()].reduce((sum, cap) => sum + cap, 0);
+      expect(total).toBe(1400000);
+    });
+  });
+
+  describe('reconcileReplay', () => {
+    it('should report a consistent store as consistent', () => {
+      const { replay, ...stored } = consistentStore();
+      const report = reconcileReplay(replay, stored);
+      expect(report.isConsistent).toBe(true);
+      expect(report.fixturesReplayed).toBe(3);
+    });
+
+    it('should detect drifted ledger rows, snapshots and caps', () => {
+      const { replay, transfers, snapshots, teams: storedTeams } = consistentStore();
+      transfers[1] = { ...transfers[1], transferAmountCents: 50000 }; // used a stale pre-match cap
+      transfers.push({ id: 150, fixtureId: 12, winnerTeamId: 3, loserTeamId: 2, transferAmountCents: 45000 });
+      const stale = snapshots.findIndex(s => s.fixtureId === 11 && s.teamId === 1);
+      snapshots[stale] = { ...snapshots[stale], marketCapCents: 500000 };
+      snapshots.pop();
+      storedTeams[0] = { ...storedTeams[0], currentMarketCapCents: 500000 };
+
+      const report = reconcileReplay(replay, { transfers, snapshots, teams: storedTeams });
+      expect(report.isConsistent).toBe(false);
+      expect(report.summary).toEqual({
+        missing_transfer: 0,
+        unexpected_transfer: 1,
+        transfer_mismatch: 1,
+        missing_snapshot: 1,
+        snapshot_mismatch: 1,
+        market_cap_drift: 1,
+      });
+    });
+
+    it('should report missing ledger rows and honour the tolerance', () => {
+      const { replay, transfers, snapshots, teams: storedTeams } = consistentStore();
+      const offByOne = { ...transfers[0], transferAmountCents: transfers[0].transferAmountCents + 1 };
+
+      const strict = reconcileReplay(replay, { transfers: [offByOne], snapshots, teams: storedTeams });
+      expect(strict.summary.transfer_mismatch).toBe(1);
+      expect(strict.summary.missing_transfer).toBe(1);
+
+      const tolerant = reconcileReplay(replay, { transfers: [offByOne], snapshots, teams: storedTeams }, 1);
+      expect(tolerant.summary.transfer_mismatch).toBe(0);
+    });
+  });
+
+  describe('buildCorrectivePatch', () => {
+    it('should emit one operation per fixable issue', () => {
+      const { replay, transfers, snapshots, teams: storedTeams } = consistentStore();
+      const stale = snapshots.findIndex(s => s.fixtureId === 10 && s.teamId === 2);
+      snapshots[stale] = { ...snapshots[stale], marketCapCents: 1 };
+      storedTeams[2] = { ...storedTeams[2], currentMarketCapCents: 1 };
+      const stored = { transfers: transfers.slice(1), snapshots, teams: storedTeams };
+
+      const report = reconcileReplay(replay, stored);
+      const patch = buildCorrectivePatch(replay, report, stored);
+
+      expect(patch).toEqual([
+        {
+          table: 'transfers_ledger',
+          action: 'insert',
+          values: expect.objectContaining({ fixture_id: 10, winner_team_id: 1, loser_team_id: 2, transfer_amount: 50000, rule_version: 'v1' }),
+        },
+        {
+          table: 'team_state_snapshots',
+          action: 'update',
+          match: { id: snapshots[stale].id },
+          values: { market_cap: 450000, current_share_price: 450, price_impact: -50000 },
+        },
+        { table: 'teams', action: 'update', match: { id: 3 }, values: { market_cap: 455000 } },
+      ]);
+    });
+
+    it('should leave the ledger row of a voided result alone', () => {
+      const { replay, transfers, snapshots, teams: storedTeams } = consistentStore();
+      // Fixture 11 was voided after it was applied: it expects no transfer,
+      // though its match snapshots are still covered
+      const voidedReplay = replayMarketCaps(teams, fixtures.filter(f => f.id !== 11));
+      const stored = {
+        transfers: transfers.map(t => (t.fixtureId === 11 ? { ...t, voidedAt: '2025-08-18T09:00:00Z' } : t)),
+        snapshots,
+        teams: storedTeams,
+      };
+
+      const report = reconcileReplay({ ...voidedReplay, snapshots: replay.snapshots }, stored);
+      expect(report.summary.unexpected_transfer).toBe(0);
+
+      const patch = buildCorrectivePatch(voidedReplay, report, stored);
+      expect(patch.filter(op => op.table === 'transfers_ledger' && op.action === 'delete')).toEqual([]);
+    });
+
+    it('should emit nothing for a consistent store', () => {
+      const { replay, ...stored } = consistentStore();
+      expect(buildCorrectivePatch(replay, reconcileReplay(replay, stored), stored)).toEqual([]);
+    });
+  });
+});
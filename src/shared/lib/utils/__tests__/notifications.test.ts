@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildNotificationDrafts,
+  buildNotificationEmail,
+  calculatePriceMovePercent,
+  validateAlertThreshold,
+  type NotificationInputs,
+  type PriceAlert,
+} from '../notifications';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+
+const alert = (overrides: Partial<PriceAlert>): PriceAlert => ({
+  id: 1,
+  user_id: 'user-1',
+  team_id: 10,
+  alert_type: 'price_above',
+  threshold: 2500,
+  email_enabled: false,
+  ...overrides,
+});
+
+const inputs = (overrides: Partial<NotificationInputs>): NotificationInputs => ({
+  alerts: [],
+  teams: new Map([[10, { name: 'Arsenal', share_price_cents: 2600 }]]),
+  matchMoves: [],
+  buyWindows: [],
+  holdings: [],
+  now: NOW,
+  ...overrides,
+});
+
+const arsenalWin = {
+  fixture_id: 77,
+  team_id: 10,
+  team_name: 'Arsenal',
+  opponent_name: 'Chelsea',
+  outcome: 'win' as const,
+  match_score: '2-1',
+  share_price_before: 2000,
+  share_price_after: 2150,
+};
+
+describe('Notifications', () => {
+  describe('validateAlertThreshold', () => {
+    it('should validate thresholds per alert type', () => {
+      expect(validateAlertThreshold('price_above', 2500)).toBeNull();
+      expect(validateAlertThreshold('price_below', 0)).not.toBeNull();
+      expect(validateAlertThreshold('price_below', 25.5)).not.toBeNull();
+      expect(validateAlertThreshold('match_move', 7.5)).toBeNull();
+      expect(validateAlertThreshold('match_move', 150)).not.toBeNull();
+      expect(validateAlertThreshold('buy_window_closing', 60)).toBeNull();
+      expect(validateAlertThreshold('buy_window_closing', 2000)).not.toBeNull();
+    });
+  });
+
+  describe('buildNotificationDrafts', () => {
+    it('should fire price alerts once crossed and report them for deactivation', () => {
+      const result = buildNotificationDrafts(inputs({
+        alerts: [
+          alert({ id: 1, alert_type: 'price_above', threshold: 2500, email_enabled: true }),
+          alert({ id: 2, alert_type: 'price_below', threshold: 2500 }),
+        ],
+      }));
+
+      expect(result.firedPriceAlertIds).toEqual([1]);
+      expect(result.drafts).toHaveLength(1);
+      expect(result.drafts[0]).toMatchObject({
+        type: 'price_alert',
+        title: 'Arsenal above $25.00',
+        dedupe_key: 'price_alert:1',
+        send_email: true,
+      });
+      expect(result.drafts[0].body).toContain('$26.00');
+    });
+
+    it('should fire match move alerts when the move reaches the threshold', () => {
+      expect(calculatePriceMovePercent(2000, 2150)).toBe(7.5);
+
+      const { drafts } = buildNotificationDrafts(inputs({
+        alerts: [
+          alert({ id: 3, alert_type: 'match_move', threshold: 5 }),
+          alert({ id: 4, alert_type: 'match_move', threshold: 10 }),
+        ],
+        matchMoves: [arsenalWin],
+      }));
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]).toMatchObject({
+        type: 'match_move',
+        fixture_id: 77,
+        dedupe_key: 'match_move:3:77',
+        title: 'Arsenal +7.50% after Chelsea',
+      });
+    });
+
+    it('should warn holders before the buy window closes', () => {
+      const buyWindows = [{
+        fixture_id: 80,
+        team_id: 10,
+        team_name: 'Arsenal',
+        opponent_name: 'Spurs',
+        buy_close_at: '2025-10-18T12:45:00Z',
+      }];
+      const alerts = [alert({ id: 5, alert_type: 'buy_window_closing', threshold: 60 })];
+
+      const notHeld = buildNotificationDrafts(inputs({ alerts, buyWindows }));
+      expect(notHeld.drafts).toHaveLength(0);
+
+      const held = buildNotificationDrafts(inputs({ alerts, buyWindows, holdings: [{ user_id: 'user-1', team_id: 10 }] }));
+      expect(held.drafts).toHaveLength(1);
+      expect(held.drafts[0]).toMatchObject({
+        type: 'buy_window',
+        title: 'Arsenal trading closes in 45 min',
+        dedupe_key: 'buy_window:5:80',
+      });
+
+      const tooEarly = buildNotificationDrafts(inputs({
+        alerts: [alert({ id: 5, alert_type: 'buy_window_closing', threshold: 30 })],
+        buyWindows,
+        holdings: [{ user_id: 'user-1', team_id: 10 }],
+      }));
+      expect(tooEarly.drafts).toHaveLength(0);
+    });
+
+    it('should notify every holder of a club about its match result', () => {
+      const { drafts } = buildNotificationDrafts(inputs({
+        matchMoves: [arsenalWin],
+        holdings: [
+          { user_id: 'user-1', team_id: 10 },
+          { user_id: 'user-2', team_id: 10 },
+          { user_id: 'user-3', team_id: 11 },
+        ],
+      }));
+
+      expect(drafts.map(d => d.user_id)).toEqual(['user-1', 'user-2']);
+      expect(drafts[0]).toMatchObject({
+        type: 'match_result',
+        title: 'Arsenal vs Chelsea 2-1',
+        dedupe_key: 'match_result:10:77',
+        send_email: false,
+      });
+      expect(drafts[0].body).toBe('Arsenal beat Chelsea. Share price $20.00 → $21.50 (+7.50%).');
+    });
+  });
+
+  it('should build a plain-text email for a notification', () => {
+    const email = buildNotificationEmail('fan@example.com', { title: 'Arsenal above $25.00', body: 'Body' }, 'https://app.example.com');
+
+    expect(email.to).toBe('fan@example.com');
+    expect(email.subject).toBe('Arsenal above $25.00');
+    expect(email.text).toContain('Open the app: https://app.example.com');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateLevels,
+  buildDepth,
+  calculatePremiumToNavPercent,
+  calculateSpread,
+  matchOrderBook,
+  validateP2POrderInput,
+  type OrderBookOrder
+} from '../order-book';
+
+const order = (
+  id: number,
+  userId: string,
+  side: OrderBookOrder['side'],
+  priceCents: number,
+  quantity: number,
+  minute: number
+): OrderBookOrder => ({
+  id,
+  userId,
+  side,
+  priceCents,
+  quantity,
+  createdAt: new Date(Date.UTC(2025, 9, 18, 12, minute)).toISOString(),
+});
+
+describe('P2P order book matching', () => {
+  it('should not trade when the book does not cross', () => {
+    const { fills, resting } = matchOrderBook([order(1, 'a', 'BID', 1900, 5, 0), order(2, 'b', 'ASK', 2000, 5, 1)]);
+    expect(fills).toEqual([]);
+    expect(resting).toHaveLength(2);
+  });
+
+  it('should fill at the resting (maker) price with partial fills', () => {
+    const { fills, resting } = matchOrderBook([
+      order(1, 'seller', 'ASK', 2000, 3, 0),
+      order(2, 'buyer', 'BID', 2100, 5, 1),
+    ]);
+
+    expect(fills).toEqual([
+      { bidOrderId: 2, askOrderId: 1, buyerId: 'buyer', sellerId: 'seller', priceCents: 2000, quantity: 3 },
+    ]);
+    expect(resting).toEqual([expect.objectContaining({ id: 2, quantity: 2 })]);
+  });
+
+  it('should use price-time priority across levels', () => {
+    const { fills } = matchOrderBook([
+      order(1, 'a', 'ASK', 2050, 2, 0),
+      order(2, 'b', 'ASK', 2000, 2, 2),
+      order(3, 'c', 'ASK', 2000, 2, 1),
+      order(4, 'd', 'BID', 2100, 5, 3),
+    ]);
+
+    expect(fills.map(f => [f.askOrderId, f.quantity, f.priceCents])).toEqual([
+      [3, 2, 2000],
+      [2, 2, 2000],
+      [1, 1, 2050],
+    ]);
+  });
+
+  it('should skip self-trades and match the next user instead', () => {
+    const { fills } = matchOrderBook([
+      order(1, 'a', 'ASK', 1900, 5, 0),
+      order(2, 'b', 'ASK', 2000, 5, 1),
+      order(3, 'a', 'BID', 2100, 5, 2),
+    ]);
+
+    expect(fills).toEqual([expect.objectContaining({ askOrderId: 2, sellerId: 'b', buyerId: 'a', priceCents: 2000 })]);
+  });
+});
+
+describe('P2P order book depth', () => {
+  const orders = [
+    order(1, 'a', 'BID', 1900, 5, 0),
+    order(2, 'b', 'BID', 1950, 2, 1),
+    order(3, 'c', 'BID', 1900, 3, 2),
+    order(4, 'd', 'ASK', 2100, 4, 3),
+  ];
+
+  it('should aggregate levels best price first with cumulative depth', () => {
+    const bids = buildDepth(aggregateLevels(orders, 'BID'));
+    expect(bids).toEqual([
+      { priceCents: 1950, quantity: 2, orders: 1, cumulativeQuantity: 2 },
+      { priceCents: 1900, quantity: 8, orders: 2, cumulativeQuantity: 10 },
+    ]);
+  });
+
+  it('should calculate spread and premium to NAV', () => {
+    expect(calculateSpread(1950, 2100)).toEqual({ spreadCents: 150, midCents: 2025 });
+    expect(calculateSpread(null, 2100)).toBeNull();
+    expect(calculatePremiumToNavPercent(2100, 20)).toBe(5);
+    expect(calculatePremiumToNavPercent(1900, 20)).toBe(-5);
+  });
+
+  it('should validate order input', () => {
+    expect(validateP2POrderInput({ side: 'BID', quantity: 5, price: 20, walletBalance: 100 }).valid).toBe(true);
+    expect(validateP2POrderInput({ side: 'BID', quantity: 6, price: 20, walletBalance: 100 }).errors)
+      .toContain('Insufficient wallet balance to reserve this bid');
+    expect(validateP2POrderInput({ side: 'ASK', quantity: 3, price: 20, availableQuantity: 2 }).valid).toBe(false);
+    expect(validateP2POrderInput({ side: 'ASK', quantity: 1.5, price: 0 }).errors).toHaveLength(2);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEquityCurve,
+  buildDailyCheckpoints,
+  buildMatchdayCheckpoints,
+  calculateWalletBalanceAt,
+  calculatePortfolioValueAt,
+  calculateTimeWeightedReturn,
+  calculateMoneyWeightedReturn,
+  calculateMaxDrawdown,
+  calculateVolatility,
+  p2pTradesToHistoryOrders,
+  type EquityPoint,
+  type PortfolioHistoryInput,
+} from '../portfolio-history';
+
+const point = (date: string, accountValue: number, netFlow = 0): EquityPoint => ({
+  date,
+  walletValue: accountValue,
+  portfolioValue: 0,
+  accountValue,
+  netFlow,
+});
+
+describe('Portfolio History', () => {
+  const input: PortfolioHistoryInput = {
+    transactions: [
+      { type: 'deposit', amountCents: 100000, createdAt: '2025-08-01T10:00:00Z' },
+      { type: 'purchase', amountCents: 50000, createdAt: '2025-08-02T10:00:00Z' },
+      { type: 'limit_reserve', amountCents: 20000, createdAt: '2025-08-03T10:00:00Z' },
+      { type: 'limit_release', amountCents: 20000, createdAt: '2025-08-03T18:00:00Z' },
+      { type: 'sale', amountCents: 30000, createdAt: '2025-08-05T10:00:00Z' },
+    ],
+    orders: [
+      { teamId: 1, orderType: 'BUY', quantity: 10, executedAt: '2025-08-02T10:00:00Z' },
+      { teamId: 1, orderType: 'SELL', quantity: 5, executedAt: '2025-08-05T10:00:00Z' },
+    ],
+    prices: [
+      { teamId: 1, effectiveAt: '2025-08-01T00:00:00Z', sharePriceCents: 5000 },
+      { teamId: 1, effectiveAt: '2025-08-04T15:00:00Z', sharePriceCents: 6000 },
+    ],
+  };
+
+  describe('valuation at a point in time', () => {
+    it('should rebuild the wallet from every cash movement', () => {
+      expect(calculateWalletBalanceAt(input.transactions, '2025-08-03T12:00:00Z')).toBe(300);
+      expect(calculateWalletBalanceAt(input.transactions, '2025-08-04T00:00:00Z')).toBe(500);
+      expect(calculateWalletBalanceAt(input.transactions, '2025-08-06T00:00:00Z')).toBe(800);
+    });
+
+    it('should count trading fees and P2P trades paid out of their reservation', () => {
+      const transactions = [
+        { type: 'deposit', amountCents: 100000, createdAt: '2025-08-01T10:00:00Z' },
+        { type: 'trade_fee', amountCents: 500, createdAt: '2025-08-02T10:00:00Z' },
+        { type: 'p2p_reserve', amountCents: 30000, createdAt: '2025-08-03T10:00:00Z' },
+        { type: 'p2p_buy', amountCents: 25000, createdAt: '2025-08-03T11:00:00Z' },
+        { type: 'p2p_release', amountCents: 5000, createdAt: '2025-08-03T12:00:00Z' },
+        { type: 'p2p_sale', amountCents: 10000, createdAt: '2025-08-04T10:00:00Z' },
+      ];
+
+      expect(calculateWalletBalanceAt(transactions, '2025-08-02T12:00:00Z')).toBe(995);
+      expect(calculateWalletBalanceAt(transactions, '2025-08-03T12:00:00Z')).toBe(745);
+      expect(calculateWalletBalanceAt(transactions, '2025-08-05T00:00:00Z')).toBe(845);
+    });
+
+    it('should optionally exclude transactions at the timestamp itself', () => {
+      expect(calculateWalletBalanceAt(input.transactions, '2025-08-01T10:00:00Z')).toBe(1000);
+      expect(calculateWalletBalanceAt(input.transactions, '2025-08-01T10:00:00Z', false)).toBe(0);
+    });
+
+    it('should value holdings at the latest price on or before the timestamp', () => {
+      expect(calculatePortfolioValueAt(input.orders, input.prices, '2025-08-03T00:00:00Z')).toBe(500);
+      expect(calculatePortfolioValueAt(input.orders, input.prices, '2025-08-04T16:00:00Z')).toBe(600);
+      expect(calculatePortfolioValueAt(input.orders, input.prices, '2025-08-06T00:00:00Z')).toBe(300);
+    });
+
+    it('should hold shares bought peer-to-peer and drop shares sold that way', () => {
+      const trades = [
+        { team_id: 1, buyer_id: 'u1', seller_id: 'u2', quantity: 4, executed_at: '2025-08-03T12:00:00Z' },
+        { team_id: 1, buyer_id: 'u2', seller_id: 'u1', quantity: 1, executed_at: '2025-08-04T12:00:00Z' },
+        { team_id: 1, buyer_id: 'u2', seller_id: 'u3', quantity: 7, executed_at: '2025-08-04T12:00:00Z' },
+      ];
+      const orders = [...input.orders, ...p2pTradesToHistoryOrders(trades, 'u1')];
+
+      expect(p2pTradesToHistoryOrders(trades, 'u1').map(order => order.orderType)).toEqual(['BUY', 'SELL']);
+      expect(calculatePortfolioValueAt(orders, input.prices, '2025-08-04T00:00:00Z')).toBe(700);
+      expect(calculatePortfolioValueAt(orders, input.prices, '2025-08-06T00:00:00Z')).toBe(480);
+    });
+
+    it('should fall back to the launch price before any history', () => {
+      const orders = [{ teamId: 2, orderType: 'BUY' as const, quantity: 3, executedAt: '2025-08-01T00:00:00Z' }];
+      expect(calculatePortfolioValueAt(orders, [], '2025-08-02T00:00:00Z')).toBe(60);
+      expect(calculatePortfolioValueAt(orders, [], '2025-08-02T00:00:00Z', new Map([[2, 1500]]))).toBe(45);
+    });
+  });
+
+  describe('equity curve', () => {
+    it('should build one point per checkpoint with flows since the previous point', () => {
+      const curve = buildEquityCurve(input, buildDailyCheckpoints('2025-08-01T00:00:00Z', '2025-08-05T12:00:00Z'));
+
+      expect(curve.map(p => p.accountValue)).toEqual([1000, 1000, 1000, 1100, 1100]);
+      expect(curve.map(p => p.netFlow)).toEqual([1000, 0, 0, 0, 0]);
+    });
+
+    it('should count withdrawals as negative flows and refunds as positive ones', () => {
+      const withWithdrawals: PortfolioHistoryInput = {
+        ...input,
+        transactions: [
+          ...input.transactions,
+          { type: 'withdrawal', amountCents: 40000, createdAt: '2025-08-06T10:00:00Z' },
+          { type: 'withdrawal_reversal', amountCents: 40000, createdAt: '2025-08-07T10:00:00Z' },
+        ],
+      };
+      const curve = buildEquityCurve(withWithdrawals, buildDailyCheckpoints('2025-08-05T12:00:00Z', '2025-08-07T12:00:00Z'));
+
+      expect(curve.map(p => p.walletValue)).toEqual([800, 400, 800]);
+      expect(curve.slice(1).map(p => p.netFlow)).toEqual([-400, 400]);
+    });
+
+    it('should place matchday checkpoints at the last kickoff of each matchday', () => {
+      expect(buildMatchdayCheckpoints([
+        { matchday: 2, kickoff_at: '2025-08-23T14:00:00Z' },
+        { matchday: 1, kickoff_at: '2025-08-16T14:00:00Z' },
+        { matchday: 1, kickoff_at: '2025-08-17T16:30:00Z' },
+        { matchday: null, kickoff_at: '2025-08-20T19:00:00Z' },
+      ])).toEqual(['2025-08-17T16:30:00Z', '2025-08-23T14:00:00Z']);
+    });
+  });
+
+  describe('performance metrics', () => {
+    it('should not count deposits as time-weighted gains', () => {
+      const curve = [
+        point('2025-01-01T00:00:00Z', 1000),
+        point('2025-02-01T00:00:00Z', 1100),
+        point('2025-03-01T00:00:00Z', 6100, 5000),
+        point('2025-04-01T00:00:00Z', 6710),
+      ];
+      // +10%, 0%, +10%
+      expect(calculateTimeWeightedReturn(curve)).toBeCloseTo(0.21, 10);
+    });
+
+    it('should solve the money-weighted return', () => {
+      const curve = [
+        point('2025-01-01T00:00:00Z', 1000),
+        point('2026-01-01T00:00:00Z', 1100),
+      ];
+      expect(calculateMoneyWeightedReturn(curve)).toBeCloseTo(0.10, 6);
+    });
+
+    it('should weight returns by money invested for IRR but not TWR', () => {
+      // Small stake doubles, then a large deposit loses 10%
+      const curve = [
+        point('2025-01-01T00:00:00Z', 100),
+        point('2025-07-01T00:00:00Z', 200),
+        point('2025-07-02T00:00:00Z', 10200, 10000),
+        point('2026-01-01T00:00:00Z', 9180),
+      ];
+      expect(calculateTimeWeightedReturn(curve)).toBeCloseTo(0.8, 10);
+      expect(calculateMoneyWeightedReturn(curve)!).toBeLessThan(0);
+    });
+
+    it('should return null when there is no flow to solve for', () => {
+      expect(calculateMoneyWeightedReturn([point('2025-01-01T00:00:00Z', 0)])).toBeNull();
+      expect(calculateMoneyWeightedReturn([point('2025-01-01T00:00:00Z', 0), point('2025-02-01T00:00:00Z', 0)])).toBeNull();
+    });
+
+    it('should measure max drawdown on the growth index', () => {
+      const curve = [
+        point('2025-01-01T00:00:00Z', 1000),
+        point('2025-01-02T00:00:00Z', 1200),
+        point('2025-01-03T00:00:00Z', 900),
+        point('2025-01-04T00:00:00Z', 5900, 5000), // deposit doesn't hide the loss
+        point('2025-01-05T00:00:00Z', 6000),
+      ];
+      expect(calculateMaxDrawdown(curve)).toBeCloseTo(0.25, 10);
+    });
+
+    it('should compute volatility as the sample standard deviation of period returns', () => {
+      const curve = [
+        point('2025-01-01T00:00:00Z', 1000),
+        point('2025-01-02T00:00:00Z', 1100),
+        point('2025-01-03T00:00:00Z', 990),
+      ];
+      // returns +10% and -10%: mean 0, sample sd = sqrt(0.02) ≈ 0.1414
+      expect(calculateVolatility(curve)).toBeCloseTo(Math.sqrt(0.02), 10);
+      expect(calculateVolatility(curve.slice(0, 2))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { buildPortfolioRisk, type RiskFixture, type RiskTeam } from '../portfolio-risk';
+import { calculateOutcomeProbabilities, sampleOutcome } from '../match-outcomes';
+import { getTransferRuleSet } from '../transfer-rules';
+
+const teams = new Map<number, RiskTeam>([
+  [1, { id: 1, name: 'Arsenal', market_cap: 2_000_000, total_shares: 1000 }],
+  [2, { id: 2, name: 'Chelsea', market_cap: 1_000_000, total_shares: 1000 }],
+  [3, { id: 3, name: 'Everton', market_cap: 1_000_000, total_shares: 1000 }],
+  [4, { id: 4, name: 'Fulham', market_cap: 1_000_000, total_shares: 1000 }],
+]);
+
+const fixture = (id: number, home: number, away: number, matchday: number, kickoff: string): RiskFixture => ({
+  id,
+  home_team_id: home,
+  away_team_id: away,
+  kickoff_at: kickoff,
+  matchday,
+  season: 2025,
+  competition_type: 'league',
+});
+
+const v1 = getTransferRuleSet('v1');
+
+describe('Match outcome probabilities', () => {
+  it('should split win chances by market cap after the draw probability', () => {
+    const probabilities = calculateOutcomeProbabilities(2_000_000, 1_000_000);
+    expect(probabilities.home_win).toBeCloseTo(0.5);
+    expect(probabilities.draw).toBeCloseTo(0.25);
+    expect(probabilities.away_win).toBeCloseTo(0.25);
+    expect(calculateOutcomeProbabilities(0, 0).home_win).toBeCloseTo(0.375);
+  });
+
+  it('should sample outcomes from the probabilities', () => {
+    const probabilities = calculateOutcomeProbabilities(2_000_000, 1_000_000);
+    expect(sampleOutcome(probabilities, 0.1)).toBe('home_win');
+    expect(sampleOutcome(probabilities, 0.6)).toBe('away_win');
+    expect(sampleOutcome(probabilities, 0.9)).toBe('draw');
+  });
+});
+
+describe('Portfolio risk', () => {
+  it('should price each outcome of a fixture involving a held club', () => {
+    const [matchday] = buildPortfolioRisk([{ teamId: 1, units: 10 }], [fixture(10, 1, 2, 8, '2025-10-18T15:00:00Z')], teams, v1);
+    const [scenario] = matchday.scenarios;
+
+    // v1: winner takes 10% of the loser's cap, draws move nothing
+    expect(scenario.pnl).toEqual({ home_win: 10, draw: 0, away_win: -20 });
+    expect(scenario.bestPnl).toBe(10);
+    expect(scenario.worstPnl).toBe(-20);
+    expect(scenario.expectedPnl).toBe(0);
+    expect(scenario.offsetting).toBe(false);
+  });
+
+  it('should flag and net offsetting positions in the same fixture', () => {
+    const [matchday] = buildPortfolioRisk(
+      [{ teamId: 1, units: 10 }, { teamId: 2, units: 20 }],
+      [fixture(10, 1, 2, 8, '2025-10-18T15:00:00Z')],
+      teams,
+      v1
+    );
+    const [scenario] = matchday.scenarios;
+
+    expect(scenario.offsetting).toBe(true);
+    expect(scenario.pnl).toEqual({ home_win: -10, draw: 0, away_win: 20 });
+    expect(scenario.grossExposure).toBe(60);
+    expect(scenario.netExposure).toBe(20);
+    expect(matchday.offsettingFixtures).toBe(1);
+  });
+
+  it('should group fixtures by matchday and skip fixtures without holdings', () => {
+    const risk = buildPortfolioRisk(
+      [{ teamId: 1, units: 10 }, { teamId: 3, units: 5 }],
+      [
+        fixture(12, 1, 4, 9, '2025-10-25T15:00:00Z'),
+        fixture(10, 1, 2, 8, '2025-10-18T15:00:00Z'),
+        fixture(11, 3, 4, 8, '2025-10-18T17:30:00Z'),
+        fixture(13, 2, 4, 8, '2025-10-19T14:00:00Z'),
+      ],
+      teams,
+      v1
+    );
+
+    expect(risk.map(m => m.label)).toEqual(['Matchday 8', 'Matchday 9']);
+    expect(risk[0].scenarios.map(s => s.fixtureId)).toEqual([10, 11]);
+    // Everton v Fulham, equal caps: +$1 or -$1 per share on 5 units
+    expect(risk[0].bestPnl).toBe(15);
+    expect(risk[0].worstPnl).toBe(-25);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePositionTrigger,
+  validatePositionTriggers,
+  calculateTriggerDistancePercent,
+} from '../position-triggers';
+
+describe('Position Trigger Utilities', () => {
+  describe('evaluatePositionTrigger', () => {
+    it('should fire stop-loss when NAV falls to or below the stop', () => {
+      expect(evaluatePositionTrigger({ stopLossPrice: 18 }, 18)).toBe('stop_loss');
+      expect(evaluatePositionTrigger({ stopLossPrice: 18 }, 16.2)).toBe('stop_loss');
+      expect(evaluatePositionTrigger({ stopLossPrice: 18 }, 18.01)).toBeNull();
+    });
+
+    it('should fire take-profit when NAV rises to or above the target', () => {
+      expect(evaluatePositionTrigger({ takeProfitPrice: 22 }, 22)).toBe('take_profit');
+      expect(evaluatePositionTrigger({ takeProfitPrice: 22 }, 24.2)).toBe('take_profit');
+      expect(evaluatePositionTrigger({ takeProfitPrice: 22 }, 21.99)).toBeNull();
+    });
+
+    it('should prefer stop-loss when both are crossed', () => {
+      expect(evaluatePositionTrigger({ stopLossPrice: 20, takeProfitPrice: 19 }, 19.5)).toBe('stop_loss');
+    });
+
+    it('should ignore unset triggers and invalid prices', () => {
+      expect(evaluatePositionTrigger({}, 20)).toBeNull();
+      expect(evaluatePositionTrigger({ stopLossPrice: null, takeProfitPrice: null }, 20)).toBeNull();
+      expect(evaluatePositionTrigger({ stopLossPrice: 18 }, 0)).toBeNull();
+    });
+  });
+
+  describe('validatePositionTriggers', () => {
+    it('should accept a stop below and a target above the current price', () => {
+      const result = validatePositionTriggers({ stopLossPrice: 18, takeProfitPrice: 25 }, 20);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a stop at or above the current price', () => {
+      const result = validatePositionTriggers({ stopLossPrice: 20 }, 20);
+      expect(result.errors).toContain('Stop-loss price must be below the current price');
+    });
+
+    it('should reject a target at or below the current price', () => {
+      const result = validatePositionTriggers({ takeProfitPrice: 19 }, 20);
+      expect(result.errors).toContain('Take-profit price must be above the current price');
+    });
+
+    it('should allow clearing both triggers', () => {
+      expect(validatePositionTriggers({ stopLossPrice: null, takeProfitPrice: null }, 20).valid).toBe(true);
+    });
+  });
+
+  describe('calculateTriggerDistancePercent', () => {
+    it('should return a signed percentage move from the current price', () => {
+      expect(calculateTriggerDistancePercent(18, 20)).toBe(-10.00);
+      expect(calculateTriggerDistancePercent(25, 20)).toBe(25.00);
+    });
+
+    it('should return 0 for an invalid current price', () => {
+      expect(calculateTriggerDistancePercent(18, 0)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLeagueStandings,
+  getLeagueCountingStart,
+  isValidInviteCode,
+  normalizeInviteCode,
+} from '../private-leagues';
+
+const LEAGUE_START = '2025-09-28T23:00:00Z'; // Monday 29 Sep 03:00 UAE
+
+const weeks = [
+  '2025-09-21T23:00:00Z',
+  '2025-09-28T23:00:00Z',
+  '2025-10-05T23:00:00Z',
+  '2025-10-12T23:00:00Z',
+];
+
+describe('Private Leagues', () => {
+  describe('invite codes', () => {
+    it('should normalize case, spaces and dashes', () => {
+      expect(normalizeInviteCode(' abcd-ef23 ')).toBe('ABCDEF23');
+    });
+
+    it('should reject codes with the wrong length or look-alike characters', () => {
+      expect(isValidInviteCode('ABCDEF23')).toBe(true);
+      expect(isValidInviteCode('ABCDEF2')).toBe(false);
+      expect(isValidInviteCode('ABCDEF20')).toBe(false);
+      expect(isValidInviteCode('ABCDEFI3')).toBe(false);
+    });
+  });
+
+  describe('calculateLeagueStandings', () => {
+    it('should compound weekly returns from the league start', () => {
+      const standings = calculateLeagueStandings(
+        LEAGUE_START,
+        [{ user_id: 'alice', full_name: 'Alice', joined_at: '2025-09-20T10:00:00Z' }],
+        [
+          { user_id: 'alice', week_start: weeks[0], weekly_return: 0.5 }, // before league start
+          { user_id: 'alice', week_start: weeks[1], weekly_return: 0.1 },
+          { user_id: 'alice', week_start: weeks[2], weekly_return: -0.1 },
+        ]
+      );
+
+      // 1.1 * 0.9 - 1
+      expect(standings[0].league_return).toBeCloseTo(-0.01, 6);
+      expect(standings[0].weeks_counted).toBe(2);
+      expect(standings[0].last_week_return).toBe(-0.1);
+    });
+
+    it('should only count weeks starting after the member joined', () => {
+      // Joined mid-week: that week is excluded
+      expect(getLeagueCountingStart(LEAGUE_START, '2025-10-08T12:00:00Z').toISOString()).toBe('2025-10-08T12:00:00.000Z');
+
+      const [standing] = calculateLeagueStandings(
+        LEAGUE_START,
+        [{ user_id: 'bob', full_name: 'Bob', joined_at: '2025-10-08T12:00:00Z' }],
+        [
+          { user_id: 'bob', week_start: weeks[2], weekly_return: 0.4 },
+          { user_id: 'bob', week_start: weeks[3], weekly_return: 0.02 },
+        ]
+      );
+
+      expect(standing.league_return).toBe(0.02);
+      expect(standing.weeks_counted).toBe(1);
+    });
+
+    it('should rank by return and list members without counted weeks last', () => {
+      const standings = calculateLeagueStandings(
+        LEAGUE_START,
+        [
+          { user_id: 'new', full_name: 'New', joined_at: '2025-10-14T00:00:00Z' },
+          { user_id: 'loser', full_name: 'Loser', joined_at: LEAGUE_START },
+          { user_id: 'winner', full_name: 'Winner', joined_at: LEAGUE_START },
+        ],
+        [
+          { user_id: 'loser', week_start: weeks[1], weekly_return: -0.05 },
+          { user_id: 'winner', week_start: weeks[1], weekly_return: 0.05 },
+          { user_id: 'new', week_start: weeks[3], weekly_return: 0.3 },
+          { user_id: 'outsider', week_start: weeks[1], weekly_return: 0.9 },
+        ]
+      );
+
+      expect(standings.map(s => [s.rank, s.user_id])).toEqual([
+        [1, 'winner'],
+        [2, 'loser'],
+        [3, 'new'],
+      ]);
+      expect(standings[2]).toMatchObject({ league_return: 0, weeks_counted: 0, last_week_return: null });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  percentile,
+  runSeasonForecast,
+  simulateSeasonOnce,
+  type ForecastFixture,
+  type ForecastTeam
+} from '../season-forecast';
+import { getTransferRuleSet } from '../transfer-rules';
+
+const teams: ForecastTeam[] = [
+  { id: 1, name: 'Arsenal', market_cap: 2_000_000, total_shares: 1000 },
+  { id: 2, name: 'Chelsea', market_cap: 1_000_000, total_shares: 1000 },
+  { id: 3, name: 'Everton', market_cap: 1_000_000, total_shares: 1000 },
+];
+
+const fixtures: ForecastFixture[] = [
+  { id: 10, home_team_id: 1, away_team_id: 2, kickoff_at: '2025-10-18T15:00:00Z' },
+  { id: 11, home_team_id: 3, away_team_id: 1, kickoff_at: '2025-10-25T15:00:00Z' },
+  { id: 12, home_team_id: 2, away_team_id: 3, kickoff_at: '2025-11-01T15:00:00Z' },
+];
+
+const v1 = getTransferRuleSet('v1');
+
+describe('Season forecast', () => {
+  it('should produce a repeatable sequence from a seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => a());
+
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('should conserve total market cap across a simulated season', () => {
+    const startCaps = new Map(teams.map(team => [team.id, team.market_cap]));
+    const finalCaps = simulateSeasonOnce(startCaps, fixtures, v1, createSeededRandom(7));
+    const total = [...finalCaps.values()].reduce((sum, cap) => sum + cap, 0);
+
+    expect(total).toBe(4_000_000);
+    // Start caps are left untouched
+    expect(startCaps.get(1)).toBe(2_000_000);
+  });
+
+  it('should pick nearest-rank percentiles', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(sorted, 5)).toBe(1);
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 95)).toBe(10);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it('should summarise price distributions per club', () => {
+    const forecast = runSeasonForecast(teams, fixtures, v1, 500, createSeededRandom(1));
+    const arsenal = forecast.clubs.find(club => club.teamId === 1)!;
+
+    expect(forecast.iterations).toBe(500);
+    expect(forecast.remainingFixtures).toBe(3);
+    expect(arsenal.currentPrice).toBe(20);
+    expect(arsenal.remainingFixtures).toBe(2);
+    expect(arsenal.p5).toBeLessThanOrEqual(arsenal.median);
+    expect(arsenal.median).toBeLessThanOrEqual(arsenal.p95);
+    expect(arsenal.probabilityAbove).toBeGreaterThan(0);
+    expect(arsenal.probabilityAbove).toBeLessThan(1);
+
+    // Caps only move between clubs, so expected caps still sum to the total
+    const expectedTotal = forecast.clubs.reduce((sum, club) => sum + club.expectedFinalCapCents, 0);
+    expect(Math.abs(expectedTotal - 4_000_000)).toBeLessThanOrEqual(forecast.clubs.length);
+  });
+
+  it('should keep the current price when a club has no fixtures left', () => {
+    const forecast = runSeasonForecast(teams, [], v1, 10, createSeededRandom(3));
+
+    expect(forecast.clubs.every(club => club.median === club.currentPrice)).toBe(true);
+    expect(forecast.clubs.every(club => club.probabilityAbove === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { calculateLeagueTable } from '../dividends';
+import {
+  calculateRelegationSettlement,
+  calculateSharePriceCents,
+  formatSeasonLabel,
+  pairRelegatedClubs,
+  planSeasonRollover
+} from '../season-rollover';
+
+describe('Season Rollover', () => {
+  it('should price shares at market cap over total shares', () => {
+    expect(calculateSharePriceCents(500_000, 1000)).toBe(500);
+    expect(calculateSharePriceCents(123_456, 1000)).toBe(123);
+    expect(calculateSharePriceCents(500_000, 0)).toBe(500);
+  });
+
+  it('should label seasons by their start and end years', () => {
+    expect(formatSeasonLabel(2025)).toBe('2025-26');
+    expect(formatSeasonLabel(2099)).toBe('2099-00');
+  });
+
+  it('should relegate listed clubs missing from the next season, best finish first', () => {
+    const table = calculateLeagueTable([1, 2, 3], [
+      { homeTeamId: 1, awayTeamId: 2, homeScore: 1, awayScore: 0 },
+      { homeTeamId: 2, awayTeamId: 3, homeScore: 2, awayScore: 0 },
+    ]);
+
+    const plan = planSeasonRollover(
+      [
+        { id: 1, name: 'Arsenal', externalId: 57, delisted: false },
+        { id: 2, name: 'Burnley', externalId: 328, delisted: false },
+        { id: 3, name: 'Luton', externalId: 389, delisted: false },
+        { id: 4, name: 'Leeds', externalId: 341, delisted: true },
+      ],
+      table,
+      [57, 341, 356]
+    );
+
+    expect(plan.relegated.map(t => t.name)).toEqual(['Burnley', 'Luton']);
+    expect(plan.promotedExternalIds).toEqual([341, 356]);
+  });
+
+  it('should pair relegated clubs with promoted clubs only when converting', () => {
+    expect(pairRelegatedClubs([2, 3, 5], [10, 11], 'convert')).toEqual([
+      { teamId: 2, convertToTeamId: 10 },
+      { teamId: 3, convertToTeamId: 11 },
+      { teamId: 5, convertToTeamId: null },
+    ]);
+    expect(pairRelegatedClubs([2], [10], 'buyout')).toEqual([{ teamId: 2, convertToTeamId: null }]);
+  });
+
+  describe('calculateRelegationSettlement', () => {
+    it('should buy out every holder at the final price', () => {
+      expect(calculateRelegationSettlement(
+        [{ userId: 'b', quantity: 3 }, { userId: 'a', quantity: 0 }],
+        412,
+        null
+      )).toEqual([{ userId: 'b', quantity: 3, valueCents: 1236, convertedQuantity: 0, cashCents: 1236 }]);
+    });
+
+    it('should convert into whole IPO shares and pay the rest in cash', () => {
+      expect(calculateRelegationSettlement([{ userId: 'a', quantity: 10 }], 412, 500)).toEqual([
+        { userId: 'a', quantity: 10, valueCents: 4120, convertedQuantity: 8, cashCents: 120 },
+      ]);
+    });
+
+    it('should hand out limited IPO shares in user id order', () => {
+      const settlement = calculateRelegationSettlement(
+        [{ userId: 'b', quantity: 10 }, { userId: 'a', quantity: 10 }],
+        1000,
+        500,
+        25
+      );
+
+      expect(settlement.map(s => [s.userId, s.convertedQuantity, s.cashCents])).toEqual([
+        ['a', 20, 0],
+        ['b', 5, 7500],
+      ]);
+    });
+  });
+
+  describe('orders check constraints in force after the migrations', () => {
+    const migrationsDir = resolve(process.cwd(), 'supabase/migrations');
+    const migrations = readdirSync(migrationsDir)
+      .filter(file => file.endsWith('.sql'))
+      .sort()
+      .map(file => readFileSync(resolve(migrationsDir, file), 'utf8'));
+
+    // Latest definition of a constraint on orders, as the migrations leave it
+    const constraint = (name: string): string => {
+      const pattern = new RegExp(`ADD CONSTRAINT ${name}\\s+CHECK \\(([\\s\\S]*?)\\);`, 'g');
+      const definitions = migrations.flatMap(sql => [...sql.matchAll(pattern)].map(match => match[1]));
+      expect(definitions.length).toBeGreaterThan(0);
+      return definitions[definitions.length - 1];
+    };
+
+    // Evaluates the simple boolean CHECK expressions used on orders
+    const satisfies = (check: string, row: Record<string, string | number | null>): boolean => {
+      const js = check
+        .replace(/(\w+) IN \(([^)]*)\)/g, '[$2].includes($1)')
+        .replace(/ IS NOT NULL/g, ' !== null')
+        .replace(/<>/g, '!==')
+        .replace(/ = /g, ' === ')
+        .replace(/\bAND\b/g, '&&')
+        .replace(/\bOR\b/g, '||')
+        .replace(/\b(order_kind|limit_price)\b/g, 'row.$1');
+      return new Function('row', `return ${js};`)(row) as boolean;
+    };
+
+    const rolloverSql = migrations.find(sql => sql.includes('FUNCTION rollover_season'))!;
+
+    it('should accept the settlement orders the rollover inserts', () => {
+      const settlementInserts = [...rolloverSql.matchAll(/INSERT INTO orders \(([^)]*)\) VALUES \(([^;]*?'SETTLEMENT'[^;]*?)\)\s+RETURNING/g)];
+      expect(settlementInserts).toHaveLength(2);
+      settlementInserts.forEach(([, columns]) => expect(columns).not.toContain('limit_price'));
+
+      const settlement = { order_kind: 'SETTLEMENT', limit_price: null };
+      expect(satisfies(constraint('orders_order_kind_check'), settlement)).toBe(true);
+      expect(satisfies(constraint('orders_limit_price_check'), settlement)).toBe(true);
+    });
+
+    it('should still require a positive limit price on limit orders only', () => {
+      const check = constraint('orders_limit_price_check');
+      expect(satisfies(check, { order_kind: 'LIMIT', limit_price: null })).toBe(false);
+      expect(satisfies(check, { order_kind: 'LIMIT', limit_price: 0 })).toBe(false);
+      expect(satisfies(check, { order_kind: 'LIMIT', limit_price: 1500 })).toBe(true);
+      expect(satisfies(check, { order_kind: 'MARKET', limit_price: null })).toBe(true);
+    });
+  });
+});
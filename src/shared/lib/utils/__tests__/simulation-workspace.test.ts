@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { calculateWorkspaceUserPnl, compareWorkspaceTeams, type WorkspaceTeam } from '../simulation-workspace';
+
+const workspaceTeams: WorkspaceTeam[] = [
+  { team_id: 1, name: 'Arsenal', market_cap: 2_100_000, total_shares: 1000, forked_market_cap: 2_000_000 },
+  { team_id: 2, name: 'Chelsea', market_cap: 900_000, total_shares: 1000, forked_market_cap: 1_000_000 },
+  { team_id: 3, name: 'Everton', market_cap: 1_000_000, total_shares: 1000, forked_market_cap: 1_000_000 },
+];
+
+describe('Simulation workspace', () => {
+  it('should compare sandbox prices with live and flag diverged clubs', () => {
+    const comparison = compareWorkspaceTeams(workspaceTeams, [
+      { id: 1, market_cap: 2_000_000 },
+      { id: 2, market_cap: 1_000_000 },
+      { id: 3, market_cap: 1_050_000 },
+    ]);
+
+    expect(comparison.map(c => c.teamId)).toEqual([2, 1, 3]);
+    expect(comparison[0]).toMatchObject({ livePrice: 10, sandboxPrice: 9, priceChangePercent: -10, diverged: false });
+    expect(comparison[1]).toMatchObject({ livePrice: 20, sandboxPrice: 21, priceChangePercent: 5, diverged: false });
+    expect(comparison[2].diverged).toBe(true);
+  });
+
+  it('should value forked positions at fork and sandbox prices', () => {
+    const pnl = calculateWorkspaceUserPnl(
+      [
+        { user_id: 'a', team_id: 1, quantity: 10 },
+        { user_id: 'a', team_id: 2, quantity: 10 },
+        { user_id: 'b', team_id: 2, quantity: 50 },
+        { user_id: 'c', team_id: 3, quantity: 5 },
+      ],
+      workspaceTeams
+    );
+
+    expect(pnl.map(p => p.userId)).toEqual(['b', 'a', 'c']);
+    expect(pnl[0]).toMatchObject({ clubs: 1, forkedValue: 500, sandboxValue: 450, pnl: -50 });
+    // +$1 on Arsenal and -$1 on Chelsea cancel out
+    expect(pnl[1]).toMatchObject({ clubs: 2, forkedValue: 300, sandboxValue: 300, pnl: 0 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annualStatementToCsv,
+  buildAnnualStatement,
+  buildTaxLots,
+  calculateUnrealizedPnl,
+  summarizeRealizedPnl,
+  type LotTrade
+} from '../tax-lots';
+
+const trade = (
+  id: string,
+  side: LotTrade['side'],
+  quantity: number,
+  priceCents: number,
+  executedAt: string,
+  feeCents = 0,
+  teamId = 1
+): LotTrade => ({
+  id,
+  teamId,
+  teamName: teamId === 1 ? 'Arsenal' : 'Chelsea',
+  side,
+  quantity,
+  amountCents: priceCents * quantity,
+  feeCents,
+  executedAt,
+});
+
+// Bought 10 @ $10 then 10 @ $20, sold 15 @ $25
+const history = [
+  trade('order:1', 'BUY', 10, 1000, '2025-01-10T12:00:00Z'),
+  trade('order:2', 'BUY', 10, 2000, '2025-03-10T12:00:00Z'),
+  trade('order:3', 'SELL', 15, 2500, '2025-06-10T12:00:00Z'),
+];
+
+describe('Tax-Lot Accounting', () => {
+  it('should consume the oldest lots first under FIFO', () => {
+    const ledger = buildTaxLots(history, 'FIFO');
+    const [sale] = ledger.disposals;
+
+    expect(sale.lots.map(l => [l.tradeId, l.quantity, l.costCents])).toEqual([
+      ['order:1', 10, 10_000],
+      ['order:2', 5, 10_000],
+    ]);
+    expect(sale.costBasisCents).toBe(20_000);
+    expect(sale.gainCents).toBe(37_500 - 20_000);
+    expect(ledger.openLots).toEqual([expect.objectContaining({ tradeId: 'order:2', quantity: 5, costCents: 10_000 })]);
+  });
+
+  it('should use the average cost of all held shares under AVERAGE', () => {
+    const ledger = buildTaxLots(history, 'AVERAGE');
+    const [sale] = ledger.disposals;
+
+    // Average $15 x 15 shares
+    expect(sale.costBasisCents).toBe(22_500);
+    expect(sale.gainCents).toBe(15_000);
+    expect(ledger.openLots).toEqual([expect.objectContaining({ quantity: 5, costCents: 7_500 })]);
+  });
+
+  it('should conserve basis exactly across partial sells', () => {
+    const trades = [
+      trade('order:1', 'BUY', 3, 1000, '2025-01-01T00:00:00Z', 1),
+      trade('order:2', 'SELL', 1, 1000, '2025-01-02T00:00:00Z'),
+      trade('order:3', 'SELL', 1, 1000, '2025-01-03T00:00:00Z'),
+      trade('order:4', 'SELL', 1, 1000, '2025-01-04T00:00:00Z'),
+    ];
+
+    for (const method of ['FIFO', 'AVERAGE'] as const) {
+      const ledger = buildTaxLots(trades, method);
+      expect(ledger.disposals.reduce((sum, d) => sum + d.costBasisCents, 0)).toBe(3_001);
+      expect(ledger.openLots).toEqual([]);
+    }
+  });
+
+  it('should include fees in basis and proceeds', () => {
+    const ledger = buildTaxLots([
+      trade('order:1', 'BUY', 10, 1000, '2025-01-01T00:00:00Z', 100),
+      trade('order:2', 'SELL', 10, 1200, '2025-02-01T00:00:00Z', 120),
+    ], 'FIFO');
+
+    expect(ledger.disposals[0]).toEqual(expect.objectContaining({ proceedsCents: 11_880, costBasisCents: 10_100, gainCents: 1_780 }));
+  });
+
+  it('should treat shares sold beyond the known history as zero cost', () => {
+    const ledger = buildTaxLots([
+      trade('order:1', 'BUY', 2, 1000, '2025-01-01T00:00:00Z'),
+      trade('order:2', 'SELL', 3, 1000, '2025-02-01T00:00:00Z'),
+    ], 'FIFO');
+
+    expect(ledger.disposals[0].unmatchedQuantity).toBe(1);
+    expect(ledger.disposals[0].costBasisCents).toBe(2_000);
+  });
+
+  it('should split realized P&L by club and period, and value open lots', () => {
+    const ledger = buildTaxLots([
+      ...history,
+      trade('order:4', 'BUY', 4, 500, '2024-12-01T00:00:00Z', 0, 2),
+      trade('order:5', 'SELL', 2, 700, '2024-12-15T00:00:00Z', 0, 2),
+    ], 'FIFO');
+
+    const in2025 = summarizeRealizedPnl(ledger.disposals, { from: new Date('2025-01-01T00:00:00Z'), to: new Date('2026-01-01T00:00:00Z') });
+    expect(in2025.map(c => [c.teamName, c.realizedCents])).toEqual([['Arsenal', 17_500]]);
+
+    const unrealized = calculateUnrealizedPnl(ledger.openLots, new Map([[1, 30], [2, 4]]));
+    expect(unrealized.map(c => [c.teamName, c.quantity, c.unrealizedCents])).toEqual([
+      ['Arsenal', 5, 15_000 - 10_000],
+      ['Chelsea', 2, 800 - 1_000],
+    ]);
+  });
+
+  it('should build an annual statement with a CSV export', () => {
+    const statement = buildAnnualStatement(history, 'FIFO', 2025, new Map([[1, 25]]), new Date('2025-12-31T00:00:00Z'));
+
+    expect(statement.totals).toEqual({
+      proceedsCents: 37_500,
+      costBasisCents: 20_000,
+      realizedCents: 17_500,
+      feesCents: 0,
+      unrealizedCents: 12_500 - 10_000,
+    });
+    expect(buildAnnualStatement(history, 'FIFO', 2024, new Map()).disposals).toEqual([]);
+
+    const csv = annualStatementToCsv(statement);
+    expect(csv).toContain('"Arsenal","2025-01-10","2025-06-10","10","250.00","100.00","150.00"');
+    expect(csv).toContain('"Arsenal","2025-03-10","2025-06-10","5","125.00","100.00","25.00"');
+    expect(csv).toContain('"Total realized gain/loss","175.00"');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMaxTradeFeeCents,
+  calculateTradeFee,
+  findActivePromotion,
+  getFeeSchedule,
+  getFeeVolumeWindowStart,
+  summarizeFeeRevenue,
+  type FeePromotion
+} from '../trading-fees';
+
+describe('Trading Fee Schedule Engine', () => {
+  const v1 = getFeeSchedule('v1').params;
+
+  it('should charge the base rate with a flat minimum', () => {
+    const fee = calculateTradeFee({ side: 'BUY', amountCents: 20_000, monthlyVolumeCents: 0, params: v1 });
+    expect(fee.feeCents).toBe(200);
+    expect(fee.totalCents).toBe(20_200);
+
+    const small = calculateTradeFee({ side: 'SELL', amountCents: 2_000, monthlyVolumeCents: 0, params: v1 });
+    expect(small.feeCents).toBe(50);
+    expect(small.totalCents).toBe(1_950);
+  });
+
+  it('should never charge more than the trade amount', () => {
+    expect(calculateTradeFee({ side: 'SELL', amountCents: 30, monthlyVolumeCents: 0, params: v1 }).feeCents).toBe(30);
+  });
+
+  it('should step down by monthly volume tier', () => {
+    const tier1 = calculateTradeFee({ side: 'BUY', amountCents: 20_000, monthlyVolumeCents: 100_000, params: v1 });
+    expect(tier1.rate).toBe(0.0075);
+    expect(tier1.tierMinVolumeCents).toBe(100_000);
+    expect(tier1.feeCents).toBe(150);
+
+    const tier2 = calculateTradeFee({ side: 'BUY', amountCents: 20_000, monthlyVolumeCents: 2_500_000, params: v1 });
+    expect(tier2.feeCents).toBe(100);
+  });
+
+  it('should round half up to whole cents', () => {
+    expect(calculateTradeFee({ side: 'BUY', amountCents: 12_350, monthlyVolumeCents: 0, params: v1 }).feeCents).toBe(124);
+  });
+
+  it('should waive fees during a promotion for the matching side', () => {
+    const promotions: FeePromotion[] = [
+      { id: 1, name: 'Launch week', startsAt: '2025-10-01T00:00:00Z', endsAt: '2025-10-08T00:00:00Z', side: 'BUY' },
+    ];
+    const at = new Date('2025-10-03T12:00:00Z');
+
+    const buy = calculateTradeFee({ side: 'BUY', amountCents: 20_000, monthlyVolumeCents: 0, params: v1, promotions, at });
+    expect(buy.feeCents).toBe(0);
+    expect(buy.promotion?.name).toBe('Launch week');
+
+    expect(calculateTradeFee({ side: 'SELL', amountCents: 20_000, monthlyVolumeCents: 0, params: v1, promotions, at }).feeCents).toBe(200);
+    expect(findActivePromotion(promotions, 'BUY', new Date('2025-10-08T00:00:00Z'))).toBeNull();
+  });
+
+  it('should reserve the base rate for a resting purchase whatever the volume tier', () => {
+    expect(calculateMaxTradeFeeCents(20_000, v1)).toBe(200);
+    expect(calculateMaxTradeFeeCents(2_000, v1)).toBe(50);
+    expect(calculateMaxTradeFeeCents(0, v1)).toBe(0);
+  });
+
+  it('should charge nothing on the no-fee schedule', () => {
+    expect(calculateTradeFee({ side: 'BUY', amountCents: 20_000, monthlyVolumeCents: 0, params: getFeeSchedule('v0').params }).feeCents).toBe(0);
+  });
+
+  it('should measure volume from the start of the UTC month', () => {
+    expect(getFeeVolumeWindowStart(new Date('2025-10-18T23:30:00Z')).toISOString()).toBe('2025-10-01T00:00:00.000Z');
+  });
+
+  it('should summarize revenue by side and month', () => {
+    const summary = summarizeFeeRevenue([
+      { month: '2025-09', side: 'BUY', scheduleVersion: 'v1', trades: 4, waivedTrades: 0, volumeCents: 100_000, feeCents: 1_000 },
+      { month: '2025-10', side: 'BUY', scheduleVersion: 'v1', trades: 2, waivedTrades: 1, volumeCents: 40_000, feeCents: 200 },
+      { month: '2025-10', side: 'SELL', scheduleVersion: 'v1', trades: 1, waivedTrades: 0, volumeCents: 60_000, feeCents: 600 },
+    ]);
+
+    expect(summary.totalFeeCents).toBe(1_800);
+    expect(summary.trades).toBe(7);
+    expect(summary.waivedTrades).toBe(1);
+    expect(summary.effectiveRatePercent).toBe(0.9);
+    expect(summary.bySide.SELL.feeCents).toBe(600);
+    expect(summary.byMonth.map(m => [m.month, m.feeCents])).toEqual([['2025-10', 800], ['2025-09', 1_000]]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TRADING_WINDOW_CONFIG,
+  evaluateTradingWindow,
+  getBuyCloseTime,
+  validateTradingWindowRule,
+  type TradingWindowConfig,
+  type TradingWindowFixture,
+} from '../trading-window';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+
+const fixture = (overrides: Partial<TradingWindowFixture>): TradingWindowFixture => ({
+  home_team_id: 1,
+  away_team_id: 2,
+  kickoff_at: '2025-10-18T15:00:00Z',
+  status: 'scheduled',
+  result: 'pending',
+  matchday: 8,
+  season: 2025,
+  competition_type: 'league',
+  ...overrides,
+});
+
+const config = (league: Partial<TradingWindowConfig['rules']['league']> = {}, halts: TradingWindowConfig['halts'] = []): TradingWindowConfig => ({
+  rules: {
+    ...DEFAULT_TRADING_WINDOW_CONFIG.rules,
+    league: { ...DEFAULT_TRADING_WINDOW_CONFIG.rules.league, ...league },
+  },
+  halts,
+});
+
+describe('Trading window rules', () => {
+  it('should close the buy window the configured minutes before kickoff', () => {
+    const fixtures = [fixture({ kickoff_at: '2025-10-18T12:20:00Z' })];
+
+    const defaultRule = evaluateTradingWindow(1, fixtures, config(), NOW);
+    expect(defaultRule.isOpen).toBe(true);
+    expect(defaultRule.nextCloseTime).toEqual(new Date('2025-10-18T12:05:00Z'));
+
+    const thirtyMinutes = evaluateTradingWindow(1, fixtures, config({ close_before_kickoff_minutes: 30 }), NOW);
+    expect(thirtyMinutes.isOpen).toBe(false);
+    expect(thirtyMinutes.nextKickoffTime).toEqual(new Date('2025-10-18T12:20:00Z'));
+
+    // Clubs without a fixture are unaffected
+    expect(evaluateTradingWindow(3, fixtures, config({ close_before_kickoff_minutes: 30 }), NOW).isOpen).toBe(true);
+  });
+
+  it('should use the rule of the fixture competition', () => {
+    const cupConfig: TradingWindowConfig = {
+      ...config(),
+      rules: { ...config().rules, cup: { competition_type: 'cup', close_before_kickoff_minutes: 60, reopen_after_full_time_minutes: 0, matchday_freeze: false } },
+    };
+    const cupTie = [fixture({ kickoff_at: '2025-10-18T12:45:00Z', competition_type: 'cup' })];
+
+    expect(evaluateTradingWindow(1, cupTie, cupConfig, NOW).isOpen).toBe(false);
+    expect(getBuyCloseTime('2025-10-18T12:45:00', cupConfig.rules.cup)).toEqual(new Date('2025-10-18T11:45:00Z'));
+  });
+
+  it('should keep trading closed while a match is in progress', () => {
+    expect(evaluateTradingWindow(1, [fixture({ kickoff_at: '2025-10-18T11:00:00Z', status: 'live' })], config(), NOW).reason)
+      .toBe('Trading closed. Match in progress.');
+
+    // Status not updated yet, kickoff passed recently
+    expect(evaluateTradingWindow(1, [fixture({ kickoff_at: '2025-10-18T11:30:00Z' })], config(), NOW).isOpen).toBe(false);
+    // Stale scheduled fixture beyond the grace period does not block trading
+    expect(evaluateTradingWindow(1, [fixture({ kickoff_at: '2025-10-18T06:00:00Z' })], config(), NOW).isOpen).toBe(true);
+    // Postponed fixtures are ignored
+    expect(evaluateTradingWindow(1, [fixture({ kickoff_at: '2025-10-18T11:30:00Z', status: 'postponed' })], config(), NOW).isOpen).toBe(true);
+  });
+
+  it('should reopen the configured minutes after the final whistle', () => {
+    const finished = [fixture({
+      kickoff_at: '2025-10-18T10:00:00Z',
+      status: 'applied',
+      result: 'home_win',
+      finished_at: '2025-10-18T11:50:00Z',
+    })];
+
+    expect(evaluateTradingWindow(1, finished, config(), NOW).isOpen).toBe(true);
+
+    const delayed = evaluateTradingWindow(1, finished, config({ reopen_after_full_time_minutes: 30 }), NOW);
+    expect(delayed.isOpen).toBe(false);
+    expect(delayed.reopensAt).toEqual(new Date('2025-10-18T12:20:00Z'));
+  });
+
+  it('should freeze every club for the whole matchday when enabled', () => {
+    const matchday = [
+      fixture({ home_team_id: 1, away_team_id: 2, kickoff_at: '2025-10-18T11:00:00Z', status: 'applied', result: 'draw', finished_at: '2025-10-18T11:55:00Z' }),
+      fixture({ home_team_id: 3, away_team_id: 4, kickoff_at: '2025-10-18T16:00:00Z' }),
+    ];
+
+    expect(evaluateTradingWindow(5, matchday, config(), NOW).isOpen).toBe(true);
+
+    const frozen = evaluateTradingWindow(5, matchday, config({ matchday_freeze: true }), NOW);
+    expect(frozen.isOpen).toBe(false);
+    expect(frozen.reason).toBe('Trading closed. Matchday 8 freeze in progress.');
+    expect(frozen.reopensAt).toBeUndefined();
+
+    // Before the matchday starts, the freeze is the next close
+    const before = evaluateTradingWindow(5, matchday, config({ matchday_freeze: true }), new Date('2025-10-18T08:00:00Z'));
+    expect(before.isOpen).toBe(true);
+    expect(before.nextCloseTime).toEqual(new Date('2025-10-18T10:45:00Z'));
+  });
+
+  it('should apply team and market-wide halts', () => {
+    const halts = [
+      { id: 1, team_id: 1, reason: 'Ownership review', starts_at: '2025-10-18T09:00:00Z', ends_at: '2025-10-18T18:00:00Z' },
+      { id: 2, team_id: null, reason: 'Maintenance', starts_at: '2025-10-19T00:00:00Z', ends_at: null },
+    ];
+
+    const halted = evaluateTradingWindow(1, [], config({}, halts), NOW);
+    expect(halted.isOpen).toBe(false);
+    expect(halted.reason).toBe('Trading halted: Ownership review');
+    expect(halted.reopensAt).toEqual(new Date('2025-10-18T18:00:00Z'));
+
+    expect(evaluateTradingWindow(2, [], config({}, halts), NOW).isOpen).toBe(true);
+    expect(evaluateTradingWindow(2, [], config({}, halts), new Date('2025-10-19T01:00:00Z')).reason)
+      .toBe('Trading halted: Maintenance');
+  });
+
+  it('should validate rule values', () => {
+    expect(validateTradingWindowRule(DEFAULT_TRADING_WINDOW_CONFIG.rules.league)).toBeNull();
+    expect(validateTradingWindowRule({ ...DEFAULT_TRADING_WINDOW_CONFIG.rules.league, close_before_kickoff_minutes: -5 })).not.toBeNull();
+    expect(validateTradingWindowRule({ ...DEFAULT_TRADING_WINDOW_CONFIG.rules.league, reopen_after_full_time_minutes: 2.5 })).not.toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMatchTransfer,
+  calculateWinTransferRate,
+  getTransferRuleSet,
+  resolveTransferRuleSet,
+  resolveMatchOutcome,
+  TRANSFER_RULE_SETS,
+  DEFAULT_TRANSFER_RULE_VERSION,
+} from '../transfer-rules';
+
+describe('Transfer Rules Engine', () => {
+  describe('v1 (legacy rules)', () => {
+    const v1 = getTransferRuleSet('v1');
+
+    it('should transfer 10% of the loser cap to the winner', () => {
+      const result = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 400000, homeScore: 2, awayScore: 0 }, v1);
+      expect(result.outcome).toBe('home_win');
+      expect(result.receiver).toBe('home');
+      expect(result.transferCents).toBe(40000);
+      expect(result.homeCapAfterCents).toBe(540000);
+      expect(result.awayCapAfterCents).toBe(360000);
+    });
+
+    it('should ignore goal difference and venue', () => {
+      const narrow = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 400000, homeScore: 0, awayScore: 1 }, v1);
+      const wide = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 400000, homeScore: 0, awayScore: 5 }, v1);
+      expect(narrow.transferCents).toBe(50000);
+      expect(wide.transferCents).toBe(50000);
+    });
+
+    it('should transfer nothing on a draw', () => {
+      const result = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 100000, homeScore: 1, awayScore: 1 }, v1);
+      expect(result.receiver).toBeNull();
+      expect(result.transferCents).toBe(0);
+      expect(result.homeCapAfterCents).toBe(500000);
+      expect(result.awayCapAfterCents).toBe(100000);
+    });
+
+    it('should not push the loser below the $10 floor', () => {
+      const result = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 1050, result: 'home_win' }, v1);
+      expect(result.transferCents).toBe(50);
+      expect(result.awayCapAfterCents).toBe(1000);
+
+      const atFloor = calculateMatchTransfer({ homeCapCents: 500000, awayCapCents: 1000, result: 'home_win' }, v1);
+      expect(atFloor.transferCents).toBe(0);
+      expect(atFloor.receiver).toBeNull();
+    });
+
+    it('should be the default rule set', () => {
+      expect(DEFAULT_TRANSFER_RULE_VERSION).toBe('v1');
+      expect(calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, result: 'away_win' }).ruleVersion).toBe('v1');
+    });
+  });
+
+  describe('v2 (margin-weighted rules)', () => {
+    const v2 = getTransferRuleSet('v2');
+
+    it('should scale the transfer with goal difference up to the cap', () => {
+      const oneGoal = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 1, awayScore: 0 }, v2);
+      const threeGoals = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 3, awayScore: 0 }, v2);
+      const sixGoals = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 6, awayScore: 0 }, v2);
+      expect(oneGoal.transferCents).toBe(10000);
+      expect(threeGoals.transferCents).toBe(15000);
+      expect(sixGoals.transferCents).toBe(15000);
+    });
+
+    it('should weight away wins', () => {
+      const result = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 0, awayScore: 1 }, v2);
+      expect(result.receiver).toBe('away');
+      expect(result.transferCents).toBe(11000);
+    });
+
+    it('should move cap from favourite to underdog on a draw', () => {
+      const result = calculateMatchTransfer({ homeCapCents: 300000, awayCapCents: 100000, homeScore: 2, awayScore: 2 }, v2);
+      expect(result.receiver).toBe('away');
+      expect(result.transferCents).toBe(6000);
+      expect(result.homeCapAfterCents).toBe(294000);
+      expect(result.awayCapAfterCents).toBe(106000);
+    });
+
+    it('should apply the cup multiplier', () => {
+      const league = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 1, awayScore: 0, competitionType: 'league' }, v2);
+      const cup = calculateMatchTransfer({ homeCapCents: 100000, awayCapCents: 100000, homeScore: 1, awayScore: 0, competitionType: 'cup' }, v2);
+      expect(cup.transferCents).toBe(league.transferCents * 1.5);
+    });
+
+    it('should never exceed the maximum transfer rate', () => {
+      expect(calculateWinTransferRate(v2.params, 3, 'away', 'cup').toNumber()).toBeCloseTo(0.2475);
+
+      const capped = resolveTransferRuleSet('v2', { maxTransferRate: 0.2 });
+      expect(calculateWinTransferRate(capped.params, 3, 'away', 'cup').toNumber()).toBe(0.2);
+    });
+  });
+
+  describe('invariants', () => {
+    it('should conserve total market cap for every published rule set', () => {
+      for (const ruleSet of Object.values(TRANSFER_RULE_SETS)) {
+        for (const [homeScore, awayScore] of [[3, 0], [0, 2], [1, 1], [4, 4]]) {
+          const result = calculateMatchTransfer({ homeCapCents: 123457, awayCapCents: 98765, homeScore, awayScore }, ruleSet);
+          expect(result.homeCapAfterCents + result.awayCapAfterCents).toBe(123457 + 98765);
+          expect(Number.isInteger(result.transferCents)).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('helpers', () => {
+    it('should derive the outcome from scores when no result is given', () => {
+      expect(resolveMatchOutcome({ homeScore: 2, awayScore: 1 })).toBe('home_win');
+      expect(resolveMatchOutcome({ homeScore: 0, awayScore: 1 })).toBe('away_win');
+      expect(resolveMatchOutcome({ homeScore: 0, awayScore: 0 })).toBe('draw');
+      expect(resolveMatchOutcome({ homeScore: 0, awayScore: 1, result: 'draw' })).toBe('draw');
+    });
+
+    it('should reject unknown versions', () => {
+      expect(() => getTransferRuleSet('v999')).toThrow('Unknown transfer rule version');
+    });
+
+    it('should rebuild a rule set from stored ledger parameters', () => {
+      const ruleSet = resolveTransferRuleSet('v2', { drawTransferRate: 0.05 });
+      expect(ruleSet.version).toBe('v2');
+      expect(ruleSet.params.drawTransferRate).toBe(0.05);
+      expect(ruleSet.params.baseTransferRate).toBe(0.10);
+      expect(resolveTransferRuleSet(null).version).toBe('v1');
+    });
+  });
+});
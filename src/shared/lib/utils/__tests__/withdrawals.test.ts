@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  canTransitionWithdrawal,
+  isWithdrawalOutstanding,
+  validateWithdrawalAmount,
+  payoutWithdrawal,
+  handleWithdrawalTransferEvent,
+  type PayableWithdrawal,
+  type WithdrawalPayoutClient,
+  type WithdrawalPayoutStore,
+} from '../withdrawals';
+
+const createStubStripe = (transferId = 'tr_123') => {
+  const create = vi.fn().mockResolvedValue({ id: transferId });
+  const client: WithdrawalPayoutClient = { transfers: { create } };
+  return { client, create };
+};
+
+const createStubStore = () => {
+  const store = {
+    recordTransfer: vi.fn().mockResolvedValue(undefined),
+    complete: vi.fn().mockResolvedValue(undefined),
+    fail: vi.fn().mockResolvedValue(undefined),
+  };
+  return store satisfies WithdrawalPayoutStore;
+};
+
+const approved: PayableWithdrawal = {
+  id: 42,
+  userId: 'user-1',
+  amountCents: 2500,
+  status: 'approved',
+  destinationAccountId: 'acct_abc',
+};
+
+describe('Withdrawal Utilities', () => {
+  describe('lifecycle', () => {
+    it('should only allow review from requested and settlement from approved', () => {
+      expect(canTransitionWithdrawal('requested', 'approved')).toBe(true);
+      expect(canTransitionWithdrawal('requested', 'rejected')).toBe(true);
+      expect(canTransitionWithdrawal('requested', 'paid')).toBe(false);
+      expect(canTransitionWithdrawal('approved', 'paid')).toBe(true);
+      expect(canTransitionWithdrawal('paid', 'failed')).toBe(true);
+      expect(canTransitionWithdrawal('rejected', 'approved')).toBe(false);
+      expect(canTransitionWithdrawal('failed', 'paid')).toBe(false);
+    });
+
+    it('should treat rejected and failed withdrawals as refunded', () => {
+      expect(isWithdrawalOutstanding('requested')).toBe(true);
+      expect(isWithdrawalOutstanding('paid')).toBe(true);
+      expect(isWithdrawalOutstanding('rejected')).toBe(false);
+      expect(isWithdrawalOutstanding('failed')).toBe(false);
+    });
+  });
+
+  describe('validateWithdrawalAmount', () => {
+    it('should accept amounts between the minimum and the wallet balance', () => {
+      expect(validateWithdrawalAmount(10, 50)).toEqual({ valid: true, errors: [] });
+      expect(validateWithdrawalAmount(50, 50).valid).toBe(true);
+    });
+
+    it('should reject amounts below the minimum or above the balance', () => {
+      expect(validateWithdrawalAmount(9.99, 50).errors).toEqual(['Minimum withdrawal is $10.00']);
+      expect(validateWithdrawalAmount(50.01, 50).errors).toEqual(['Insufficient wallet balance']);
+      expect(validateWithdrawalAmount(0, 50).errors).toEqual(['Enter an amount greater than 0']);
+      expect(validateWithdrawalAmount(NaN, 50).valid).toBe(false);
+    });
+  });
+
+  describe('payoutWithdrawal', () => {
+    it('should create an idempotent transfer and record it', async () => {
+      const { client, create } = createStubStripe();
+      const store = createStubStore();
+
+      await expect(payoutWithdrawal(client, store, approved)).resolves.toBe('tr_123');
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 2500,
+          currency: 'usd',
+          destination: 'acct_abc',
+          metadata: { withdrawal_id: '42', user_id: 'user-1' },
+        }),
+        { idempotencyKey: 'withdrawal_42' }
+      );
+      expect(store.recordTransfer).toHaveBeenCalledWith(42, 'tr_123', 'acct_abc');
+    });
+
+    it('should not create a second transfer when one is already recorded', async () => {
+      const { client, create } = createStubStripe();
+      const store = createStubStore();
+
+      await expect(payoutWithdrawal(client, store, { ...approved, stripeTransferId: 'tr_old' })).resolves.toBe('tr_old');
+      expect(create).not.toHaveBeenCalled();
+      expect(store.recordTransfer).not.toHaveBeenCalled();
+    });
+
+    it('should refuse withdrawals that are not approved or have no payout account', async () => {
+      const { client, create } = createStubStripe();
+      const store = createStubStore();
+
+      await expect(payoutWithdrawal(client, store, { ...approved, status: 'requested' })).rejects.toThrow('not approved');
+      await expect(payoutWithdrawal(client, store, { ...approved, destinationAccountId: null })).rejects.toThrow('no payout account');
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should leave the withdrawal untouched when Stripe fails', async () => {
+      const create = vi.fn().mockRejectedValue(new Error('Insufficient platform balance'));
+      const store = createStubStore();
+
+      await expect(payoutWithdrawal({ transfers: { create } }, store, approved)).rejects.toThrow('Insufficient platform balance');
+      expect(store.recordTransfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWithdrawalTransferEvent', () => {
+    const transferEvent = (type: string, metadata: Record<string, string> | null = { withdrawal_id: '42' }) => ({
+      type,
+      data: { object: { id: 'tr_123', metadata } },
+    });
+
+    it('should mark the withdrawal paid when the transfer is created', async () => {
+      const store = createStubStore();
+      await expect(handleWithdrawalTransferEvent(store, transferEvent('transfer.created'))).resolves.toBe('paid');
+      expect(store.complete).toHaveBeenCalledWith(42, 'tr_123');
+    });
+
+    it('should fail and refund the withdrawal when the transfer is reversed', async () => {
+      const store = createStubStore();
+      await expect(handleWithdrawalTransferEvent(store, transferEvent('transfer.reversed'))).resolves.toBe('failed');
+      expect(store.fail).toHaveBeenCalledWith(42, 'Stripe transfer tr_123 reversed');
+    });
+
+    it('should ignore transfers that are not withdrawals and unrelated events', async () => {
+      const store = createStubStore();
+      await expect(handleWithdrawalTransferEvent(store, transferEvent('transfer.created', null))).resolves.toBe('ignored');
+      await expect(handleWithdrawalTransferEvent(store, transferEvent('transfer.updated'))).resolves.toBe('ignored');
+      expect(store.complete).not.toHaveBeenCalled();
+      expect(store.fail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Monthly Account Statement
+ *
+ * Rebuilds one calendar month (UTC) of a user's account from their wallet
+ * transactions, executed trades, current positions and team price history:
+ * opening/closing wallet balance, cash activity by category, trades,
+ * value changes caused by match results, and opening/closing holdings.
+ *
+ * Conventions:
+ * - Inputs and outputs are integer cents
+ * - Wallet balances follow the actual wallet movement of each transaction
+ *   type (WALLET_TRANSACTION_EFFECTS)
+ * - Holdings are worked backwards from current positions, so shares that
+ *   predate the trade history are still reported
+ * - Share prices come from total_ledger (share_price_after), falling back to
+ *   the team's launch price, the same valuation as the equity curve
+ */
+
+import { getSharePriceAt, type TeamPricePoint } from './portfolio-history';
+import { toDecimal } from './decimal';
+import { WALLET_TRANSACTION_EFFECTS, type WalletCashCategory } from './wallet-transactions';
+
+export { WALLET_TRANSACTION_EFFECTS };
+
+export type StatementCashCategory = WalletCashCategory;
+
+export const STATEMENT_CASH_CATEGORY_LABELS: Record<StatementCashCategory, string> = {
+  deposits: 'Deposits',
+  withdrawals: 'Withdrawals',
+  purchases: 'Share purchases',
+  sales: 'Share sales',
+  fees: 'Trading fees',
+  dividends: 'Dividends',
+  reservations: 'Order reservations (incl. P2P purchases)',
+  other: 'Refunds and adjustments',
+};
+
+export const STATEMENT_TRADE_SOURCE_LABELS: Record<StatementTrade['source'], string> = {
+  market: 'Market',
+  p2p: 'P2P',
+  settlement: 'Settlement',
+};
+
+const MATCH_LEDGER_OUTCOMES: Record<string, 'win' | 'loss' | 'draw'> = {
+  match_win: 'win',
+  match_loss: 'loss',
+  match_draw: 'draw',
+};
+
+export interface StatementWalletTransaction {
+  id: number;
+  type: string;
+  amountCents: number;
+  createdAt: string;
+  ref?: string | null;
+}
+
+export interface StatementTrade {
+  /** Unique per trade source, e.g. 'order:12' or 'p2p:4' */
+  id: string;
+  /** settlement: relegated club buyout or conversion at season rollover */
+  source: 'market' | 'p2p' | 'settlement';
+  teamId: number;
+  teamName: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  /** Trade amount before fees */
+  amountCents: number;
+  feeCents: number;
+  executedAt: string;
+}
+
+/** One total_ledger row for a team the user held */
+export interface StatementLedgerEntry {
+  teamId: number;
+  ledgerType: string;
+  eventDate: string;
+  opponentName: string | null;
+  matchScore: string | null;
+  sharePriceBeforeCents: number;
+  sharePriceAfterCents: number;
+}
+
+export interface AccountStatementInput {
+  userId: string;
+  accountName: string;
+  year: number;
+  /** 1-12 */
+  month: number;
+  transactions: StatementWalletTransaction[];
+  trades: StatementTrade[];
+  ledger: StatementLedgerEntry[];
+  /** Shares held now per team id (positions.quantity) */
+  currentHoldings: Map<number, number>;
+  teamNames: Map<number, string>;
+  /** Price before a team has any ledger history (cents), usually teams.launch_price */
+  fallbackPriceCents?: Map<number, number>;
+}
+
+export interface StatementWalletLine extends StatementWalletTransaction {
+  category: StatementCashCategory;
+  /** Effect on the wallet balance */
+  signedAmountCents: number;
+  balanceAfterCents: number;
+}
+
+export interface StatementMatchValueChange {
+  teamId: number;
+  teamName: string;
+  eventDate: string;
+  opponentName: string | null;
+  matchScore: string | null;
+  outcome: 'win' | 'loss' | 'draw';
+  quantity: number;
+  sharePriceBeforeCents: number;
+  sharePriceAfterCents: number;
+  valueChangeCents: number;
+}
+
+export interface StatementHolding {
+  teamId: number;
+  teamName: string;
+  quantity: number;
+  sharePriceCents: number;
+  valueCents: number;
+}
+
+export interface AccountStatement {
+  userId: string;
+  accountName: string;
+  year: number;
+  month: number;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  cashFlows: Record<StatementCashCategory, number>;
+  walletLines: StatementWalletLine[];
+  trades: StatementTrade[];
+  matchValueChanges: StatementMatchValueChange[];
+  openingHoldings: StatementHolding[];
+  closingHoldings: StatementHolding[];
+  totals: {
+    openingHoldingsValueCents: number;
+    closingHoldingsValueCents: number;
+    matchValueChangeCents: number;
+    feesCents: number;
+    openingAccountValueCents: number;
+    closingAccountValueCents: number;
+  };
+}
+
+/**
+ * [start, end) of a calendar month in UTC
+ */
+export const getStatementPeriod = (year: number, month: number): { start: Date; end: Date } => ({
+  start: new Date(Date.UTC(year, month - 1, 1)),
+  end: new Date(Date.UTC(year, month, 1)),
+});
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const signedAmount = (tx: StatementWalletTransaction) =>
+  (WALLET_TRANSACTION_EFFECTS[tx.type]?.sign ?? 0) * Number(tx.amountCents);
+
+/**
+ * Shares held per team at a point in time: current holdings less every
+ * trade executed at or after it
+ */
+export const calculateStatementHoldingsAt = (
+  currentHoldings: Map<number, number>,
+  trades: StatementTrade[],
+  at: Date
+): Map<number, number> => {
+  const holdings = new Map(currentHoldings);
+  for (const trade of trades) {
+    if (time(trade.executedAt) < at.getTime()) continue;
+    const signed = trade.side === 'BUY' ? trade.quantity : -trade.quantity;
+    holdings.set(trade.teamId, (holdings.get(trade.teamId) ?? 0) - signed);
+  }
+  return holdings;
+};
+
+const valueHoldings = (
+  holdings: Map<number, number>,
+  prices: TeamPricePoint[],
+  at: Date,
+  input: AccountStatementInput
+): StatementHolding[] => {
+  // Price as of just before `at`, consistent with the [start, end) period
+  const asOf = new Date(at.getTime() - 1).toISOString();
+  return [...holdings.entries()]
+    .filter(([, quantity]) => quantity > 0)
+    .map(([teamId, quantity]) => {
+      const sharePriceCents = getSharePriceAt(prices, teamId, asOf, input.fallbackPriceCents?.get(teamId));
+      return {
+        teamId,
+        teamName: input.teamNames.get(teamId) ?? `Club ${teamId}`,
+        quantity,
+        sharePriceCents,
+        valueCents: sharePriceCents * quantity,
+      };
+    })
+    .sort((a, b) => a.teamName.localeCompare(b.teamName));
+};
+
+const sumValues = (holdings: StatementHolding[]) => holdings.reduce((sum, h) => sum + h.valueCents, 0);
+
+/**
+ * Build the statement for one calendar month
+ */
+export const buildAccountStatement = (input: AccountStatementInput, now: Date = new Date()): AccountStatement => {
+  const { start, end } = getStatementPeriod(input.year, input.month);
+  const inPeriod = (iso: string) => time(iso) >= start.getTime() && time(iso) < end.getTime();
+
+  const transactions = [...input.transactions].sort((a, b) => time(a.createdAt) - time(b.createdAt) || a.id - b.id);
+  const openingBalanceCents = transactions
+    .filter(tx => time(tx.createdAt) < start.getTime())
+    .reduce((sum, tx) => sum + signedAmount(tx), 0);
+
+  const cashFlows: Record<StatementCashCategory, number> = {
+    deposits: 0, withdrawals: 0, purchases: 0, sales: 0, fees: 0, dividends: 0, reservations: 0, other: 0,
+  };
+  let balance = openingBalanceCents;
+  const walletLines: StatementWalletLine[] = [];
+  for (const tx of transactions.filter(t => inPeriod(t.createdAt))) {
+    const category = WALLET_TRANSACTION_EFFECTS[tx.type]?.category ?? 'other';
+    const signedAmountCents = signedAmount(tx);
+    balance += signedAmountCents;
+    cashFlows[category] += signedAmountCents;
+    walletLines.push({ ...tx, category, signedAmountCents, balanceAfterCents: balance });
+  }
+
+  const trades = [...input.trades].sort((a, b) => time(a.executedAt) - time(b.executedAt));
+  const prices: TeamPricePoint[] = input.ledger.map(entry => ({
+    teamId: entry.teamId,
+    effectiveAt: entry.eventDate,
+    sharePriceCents: entry.sharePriceAfterCents,
+  }));
+
+  const matchValueChanges: StatementMatchValueChange[] = input.ledger
+    .filter(entry => MATCH_LEDGER_OUTCOMES[entry.ledgerType] && inPeriod(entry.eventDate))
+    .sort((a, b) => time(a.eventDate) - time(b.eventDate))
+    .flatMap(entry => {
+      // Shares held when the result was applied
+      const quantity = calculateStatementHoldingsAt(input.currentHoldings, trades, new Date(entry.eventDate)).get(entry.teamId) ?? 0;
+      if (quantity <= 0) return [];
+      return [{
+        teamId: entry.teamId,
+        teamName: input.teamNames.get(entry.teamId) ?? `Club ${entry.teamId}`,
+        eventDate: entry.eventDate,
+        opponentName: entry.opponentName,
+        matchScore: entry.matchScore,
+        outcome: MATCH_LEDGER_OUTCOMES[entry.ledgerType],
+        quantity,
+        sharePriceBeforeCents: entry.sharePriceBeforeCents,
+        sharePriceAfterCents: entry.sharePriceAfterCents,
+        valueChangeCents: (entry.sharePriceAfterCents - entry.sharePriceBeforeCents) * quantity,
+      }];
+    });
+
+  const openingHoldings = valueHoldings(calculateStatementHoldingsAt(input.currentHoldings, trades, start), prices, start, input);
+  const closingHoldings = valueHoldings(calculateStatementHoldingsAt(input.currentHoldings, trades, end), prices, end, input);
+  const openingHoldingsValueCents = sumValues(openingHoldings);
+  const closingHoldingsValueCents = sumValues(closingHoldings);
+  const periodTrades = trades.filter(t => inPeriod(t.executedAt));
+
+  return {
+    userId: input.userId,
+    accountName: input.accountName,
+    year: input.year,
+    month: input.month,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    generatedAt: now.toISOString(),
+    openingBalanceCents,
+    closingBalanceCents: balance,
+    cashFlows,
+    walletLines,
+    trades: periodTrades,
+    matchValueChanges,
+    openingHoldings,
+    closingHoldings,
+    totals: {
+      openingHoldingsValueCents,
+      closingHoldingsValueCents,
+      matchValueChangeCents: matchValueChanges.reduce((sum, m) => sum + m.valueChangeCents, 0),
+      feesCents: periodTrades.reduce((sum, t) => sum + t.feeCents, 0),
+      openingAccountValueCents: openingBalanceCents + openingHoldingsValueCents,
+      closingAccountValueCents: balance + closingHoldingsValueCents,
+    },
+  };
+};
+
+/** "March 2026" */
+export const formatStatementPeriod = (statement: Pick<AccountStatement, 'year' | 'month'>): string =>
+  new Date(Date.UTC(statement.year, statement.month - 1, 1))
+    .toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const dollars = (cents: number) => toDecimal(cents).dividedBy(100).toFixed(2);
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/**
+ * CSV export: summary, then one section per part of the statement
+ */
+export const accountStatementToCsv = (statement: AccountStatement): string => {
+  const rows: (string | number)[][] = [
+    ['Account Statement', formatStatementPeriod(statement)],
+    ['Account', statement.accountName],
+    ['Generated', statement.generatedAt],
+    [],
+    ['Opening wallet balance', dollars(statement.openingBalanceCents)],
+    ...(Object.keys(STATEMENT_CASH_CATEGORY_LABELS) as StatementCashCategory[])
+      .map(category => [STATEMENT_CASH_CATEGORY_LABELS[category], dollars(statement.cashFlows[category])]),
+    ['Closing wallet balance', dollars(statement.closingBalanceCents)],
+    ['Opening holdings value', dollars(statement.totals.openingHoldingsValueCents)],
+    ['Closing holdings value', dollars(statement.totals.closingHoldingsValueCents)],
+    ['Match-driven value change', dollars(statement.totals.matchValueChangeCents)],
+    ['Closing account value', dollars(statement.totals.closingAccountValueCents)],
+    [],
+    ['Wallet Transactions'],
+    ['Date', 'Type', 'Reference', 'Amount', 'Balance'],
+    ...statement.walletLines.map(line => [line.createdAt, line.type, line.ref ?? '', dollars(line.signedAmountCents), dollars(line.balanceAfterCents)]),
+    [],
+    ['Trades'],
+    ['Date', 'Club', 'Side', 'Venue', 'Shares', 'Amount', 'Fee'],
+    ...statement.trades.map(t => [t.executedAt, t.teamName, t.side, STATEMENT_TRADE_SOURCE_LABELS[t.source], t.quantity, dollars(t.amountCents), dollars(t.feeCents)]),
+    [],
+    ['Match-Driven Value Changes'],
+    ['Date', 'Club', 'Opponent', 'Result', 'Shares', 'Price Before', 'Price After', 'Value Change'],
+    ...statement.matchValueChanges.map(m => [
+      m.eventDate, m.teamName, m.opponentName ?? '', `${m.outcome}${m.matchScore ? ` ${m.matchScore}` : ''}`,
+      m.quantity, dollars(m.sharePriceBeforeCents), dollars(m.sharePriceAfterCents), dollars(m.valueChangeCents),
+    ]),
+    [],
+    ['Closing Holdings'],
+    ['Club', 'Shares', 'Share Price', 'Value'],
+    ...statement.closingHoldings.map(h => [h.teamName, h.quantity, dollars(h.sharePriceCents), dollars(h.valueCents)]),
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+/**
+ * JSON export; amounts stay in integer cents so the file round-trips exactly
+ */
+export const accountStatementToJson = (statement: AccountStatement): string =>
+  JSON.stringify({ ...statement, amountUnit: 'cents' }, null, 2);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlTable = (headers: string[], rows: (string | number)[][], empty: string) => `
+  <table>
+    <tr>${headers.map((h, i) => `<th${i > 0 ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('')}</tr>
+    ${rows.length === 0
+      ? `<tr><td colspan="${headers.length}">${escapeHtml(empty)}</td></tr>`
+      : rows.map(row => `<tr>${row.map((cell, i) => `<td${i > 0 ? ' class="num"' : ''}>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('')}
+  </table>`;
+
+/**
+ * Printable HTML; the browser's print dialog saves it as PDF
+ */
+export const accountStatementToHtml = (statement: AccountStatement): string => {
+  const period = escapeHtml(formatStatementPeriod(statement));
+  const date = (iso: string) => new Date(iso).toISOString().slice(0, 10);
+  const money = (cents: number) => `$${dollars(cents)}`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Account Statement ${period}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 12px; margin: 32px; color: #111; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+    .num { text-align: right; }
+  </style>
+</head>
+<body>
+  <h1>Account Statement — ${period}</h1>
+  <p>${escapeHtml(statement.accountName)}<br>Generated: ${escapeHtml(new Date(statement.generatedAt).toLocaleString())}</p>
+  <h2>Summary</h2>
+  ${htmlTable(['', 'Amount'], [
+    ['Opening wallet balance', money(statement.openingBalanceCents)],
+    ...(Object.keys(STATEMENT_CASH_CATEGORY_LABELS) as StatementCashCategory[])
+      .filter(category => statement.cashFlows[category] !== 0)
+      .map(category => [STATEMENT_CASH_CATEGORY_LABELS[category], money(statement.cashFlows[category])]),
+    ['Closing wallet balance', money(statement.closingBalanceCents)],
+    ['Opening holdings value', money(statement.totals.openingHoldingsValueCents)],
+    ['Match-driven value change', money(statement.totals.matchValueChangeCents)],
+    ['Closing holdings value', money(statement.totals.closingHoldingsValueCents)],
+    ['Closing account value', money(statement.totals.closingAccountValueCents)],
+  ], '')}
+  <h2>Trades</h2>
+  ${htmlTable(['Date', 'Club', 'Side', 'Shares', 'Amount', 'Fee'],
+    statement.trades.map(t => [date(t.executedAt), t.teamName, t.side, t.quantity, money(t.amountCents), money(t.feeCents)]),
+    'No trades this month')}
+  <h2>Match-Driven Value Changes</h2>
+  ${htmlTable(['Date', 'Club', 'Opponent', 'Result', 'Shares', 'Value Change'],
+    statement.matchValueChanges.map(m => [date(m.eventDate), m.teamName, m.opponentName ?? '', `${m.outcome}${m.matchScore ? ` ${m.matchScore}` : ''}`, m.quantity, money(m.valueChangeCents)]),
+    'No match results for held clubs this month')}
+  <h2>Closing Holdings</h2>
+  ${htmlTable(['Club', 'Shares', 'Share Price', 'Value'],
+    statement.closingHoldings.map(h => [h.teamName, h.quantity, money(h.sharePriceCents), money(h.valueCents)]),
+    'No holdings')}
+  <h2>Wallet Transactions</h2>
+  ${htmlTable(['Date', 'Type', 'Amount', 'Balance'],
+    statement.walletLines.map(line => [date(line.createdAt), line.type, money(line.signedAmountCents), money(line.balanceAfterCents)]),
+    'No wallet activity this month')}
+</body>
+</html>`;
+};
@@ -0,0 +1,87 @@
+/**
+ * App Routes
+ *
+ * URL paths for every page, club, fixture, leaderboard period and admin
+ * panel. Navigation, links and route guards build paths here instead of
+ * hard-coding strings, so a path change is made in one place.
+ *
+ * Page ids match the entries in Navigation.
+ */
+
+import type { LeaderboardPeriodType } from './leaderboard-periods';
+
+export type AppPageId =
+  | 'marketplace'
+  | 'portfolio'
+  | 'leaderboard'
+  | 'match-results'
+  | 'standings'
+  | 'season-simulation'
+  | 'admin';
+
+export const PAGE_PATHS: Record<AppPageId, string> = {
+  marketplace: '/marketplace',
+  portfolio: '/portfolio',
+  leaderboard: '/leaderboard',
+  'match-results': '/matches',
+  standings: '/standings',
+  'season-simulation': '/simulation',
+  admin: '/admin',
+};
+
+/** Pages only admins can open */
+export const ADMIN_PAGE_IDS: AppPageId[] = ['admin', 'season-simulation'];
+
+/** Tabs of the admin dashboard, in display order */
+export const ADMIN_PANELS = ['dashboard', 'users', 'trading', 'leaderboard', 'teams', 'matches', 'financial', 'audit'] as const;
+
+export type AdminPanel = typeof ADMIN_PANELS[number];
+
+/** Leaderboard periods reachable by URL; custom ranges are admin-only */
+export const PUBLIC_LEADERBOARD_PERIODS: LeaderboardPeriodType[] = ['week', 'matchday', 'month', 'season'];
+
+/** Leaderboard path segment for the private leagues tab */
+export const LEAGUES_LEADERBOARD_SEGMENT = 'leagues';
+
+export const clubPath = (teamId: number | string, view?: 'history'): string =>
+  view ? `/clubs/${teamId}/${view}` : `/clubs/${teamId}`;
+
+export const matchPath = (fixtureId: number | string): string => `/matches/${fixtureId}`;
+
+export const leaderboardPath = (period: LeaderboardPeriodType | typeof LEAGUES_LEADERBOARD_SEGMENT): string =>
+  `/leaderboard/${period}`;
+
+export const adminPath = (panel: AdminPanel = 'dashboard'): string =>
+  panel === 'dashboard' ? PAGE_PATHS.admin : `/admin/${panel}`;
+
+/**
+ * Page a path belongs to, used to highlight the active navigation entry
+ *
+ * @param pathname - location.pathname
+ * @returns Page id, or null for unknown paths
+ */
+export const getPageIdFromPath = (pathname: string): AppPageId | null => {
+  const [segment] = pathname.split('/').filter(Boolean);
+  if (!segment || segment === 'clubs') return 'marketplace';
+
+  const entry = (Object.entries(PAGE_PATHS) as [AppPageId, string][])
+    .find(([, path]) => path === `/${segment}`);
+  return entry ? entry[0] : null;
+};
+
+/**
+ * Parse a numeric id route param
+ *
+ * @returns Positive integer id, or null when missing or malformed
+ */
+export const parseIdParam = (param: string | undefined): number | null => {
+  if (!param || !/^\d+$/.test(param)) return null;
+  const id = Number(param);
+  return id > 0 && Number.isSafeInteger(id) ? id : null;
+};
+
+export const isAdminPanel = (value: string | undefined): value is AdminPanel =>
+  !!value && (ADMIN_PANELS as readonly string[]).includes(value);
+
+export const isPublicLeaderboardPeriod = (value: string | undefined): value is LeaderboardPeriodType =>
+  !!value && (PUBLIC_LEADERBOARD_PERIODS as string[]).includes(value);
@@ -0,0 +1,84 @@
+/**
+ * Competitions
+ *
+ * Competitions are keyed by their football-data.org code. Clubs are listed
+ * per competition and season (supabase/migrations/20261019001500_competitions.sql);
+ * a club keeps one row in teams across competitions, so Champions League
+ * ties between clubs from different leagues move value between them like
+ * any other fixture.
+ *
+ * API clubs are matched to listed clubs by external id first, then by exact
+ * name for clubs listed before external ids were recorded.
+ *
+ * Season rollover (season-rollover.ts) relegates from the Premier League only.
+ */
+
+export const PREMIER_LEAGUE_CODE = 'PL';
+
+export interface CompetitionApiTeam {
+  id: number;
+  name: string;
+}
+
+export interface CompetitionListedTeam {
+  id: number;
+  name: string;
+  externalId: number | null;
+}
+
+export interface CompetitionApiMatch {
+  id: number;
+  homeTeam: CompetitionApiTeam;
+  awayTeam: CompetitionApiTeam;
+}
+
+/**
+ * Listed club id for each API club id; API clubs that are not listed are
+ * left out
+ */
+export const resolveListedTeamIds = (
+  apiTeams: CompetitionApiTeam[],
+  listedTeams: CompetitionListedTeam[]
+): Map<number, number> => {
+  const byExternalId = new Map(
+    listedTeams.filter(team => team.externalId !== null).map(team => [team.externalId as number, team.id])
+  );
+  const byName = new Map(listedTeams.map(team => [team.name, team.id]));
+  const resolved = new Map<number, number>();
+
+  for (const apiTeam of apiTeams) {
+    const teamId = byExternalId.get(apiTeam.id) ?? byName.get(apiTeam.name);
+    if (teamId !== undefined) resolved.set(apiTeam.id, teamId);
+  }
+
+  return resolved;
+};
+
+/**
+ * Matches whose home and away clubs are both listed, with their club ids.
+ * In cup competitions most opponents are not listed; those matches are
+ * returned in skipped.
+ */
+export const resolveFixtureTeams = <T extends CompetitionApiMatch>(
+  matches: T[],
+  listedTeams: CompetitionListedTeam[]
+): { fixtures: Array<{ match: T; homeTeamId: number; awayTeamId: number }>; skipped: T[] } => {
+  const teamIds = resolveListedTeamIds(
+    matches.flatMap(match => [match.homeTeam, match.awayTeam]),
+    listedTeams
+  );
+  const fixtures: Array<{ match: T; homeTeamId: number; awayTeamId: number }> = [];
+  const skipped: T[] = [];
+
+  for (const match of matches) {
+    const homeTeamId = teamIds.get(match.homeTeam.id);
+    const awayTeamId = teamIds.get(match.awayTeam.id);
+    if (homeTeamId === undefined || awayTeamId === undefined) {
+      skipped.push(match);
+    } else {
+      fixtures.push({ match, homeTeamId, awayTeamId });
+    }
+  }
+
+  return { fixtures, skipped };
+};
@@ -0,0 +1,229 @@
+/**
+ * Dividend Payouts
+ *
+ * Prize pools paid to shareholders when their club finishes in a league
+ * position, wins a cup, or (optionally) tops the table after a matchday.
+ * Each pool is split pro rata between the holders of the club's shares at
+ * the record date.
+ *
+ * Mirrored by supabase/migrations/20261019001300_dividends.sql
+ * (allocate_dividend): the admin preview is computed here and the payout in
+ * the database, so both must split a pool identically:
+ * - Everyone gets floor(pool x quantity / total held)
+ * - The cents left over go one each to the largest remainders, ties broken
+ *   by user id (ascending, plain string comparison)
+ * All amounts are integer cents.
+ */
+
+export type DividendAwardType = 'league_position' | 'matchday_position' | 'cup_win';
+
+export const DIVIDEND_AWARD_TYPES: Record<DividendAwardType, string> = {
+  league_position: 'Final league position',
+  matchday_position: 'League position after matchday',
+  cup_win: 'Cup winner',
+};
+
+/** Admin-defined pool for one award */
+export interface DividendPrizePool {
+  awardType: DividendAwardType;
+  /** League position the pool is for; null for cup wins */
+  leaguePosition: number | null;
+  poolCents: number;
+}
+
+export interface LeagueTableFixture {
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore: number;
+  awayScore: number;
+}
+
+export interface LeagueTableRow {
+  position: number;
+  teamId: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+}
+
+export interface DividendHolding {
+  userId: string;
+  quantity: number;
+}
+
+export interface DividendAllocation extends DividendHolding {
+  amountCents: number;
+}
+
+export interface DividendAwardInput {
+  teamId: number;
+  teamName: string;
+  awardType: DividendAwardType;
+  leaguePosition: number | null;
+  poolCents: number;
+}
+
+export interface DividendAwardPreview extends DividendAwardInput {
+  holders: number;
+  sharesHeld: number;
+  allocations: DividendAllocation[];
+  /** Pool paid out; 0 when nobody holds the club */
+  paidCents: number;
+}
+
+export interface DividendPreview {
+  awards: DividendAwardPreview[];
+  totalPoolCents: number;
+  totalPaidCents: number;
+  /** Total per user across all awards */
+  byUser: DividendAllocation[];
+}
+
+/**
+ * League table from finished fixtures: 3 points a win, 1 a draw; ties on
+ * points are split by goal difference, then goals scored, then team id
+ *
+ * @param teamIds - Every team in the league, so teams without results still get a position
+ */
+export const calculateLeagueTable = (teamIds: number[], fixtures: LeagueTableFixture[]): LeagueTableRow[] => {
+  const rows = new Map<number, LeagueTableRow>();
+  const rowFor = (teamId: number) => {
+    let row = rows.get(teamId);
+    if (!row) {
+      row = { position: 0, teamId, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, goalDifference: 0, points: 0 };
+      rows.set(teamId, row);
+    }
+    return row;
+  };
+  teamIds.forEach(rowFor);
+
+  for (const fixture of fixtures) {
+    const sides: [LeagueTableRow, number, number][] = [
+      [rowFor(fixture.homeTeamId), fixture.homeScore, fixture.awayScore],
+      [rowFor(fixture.awayTeamId), fixture.awayScore, fixture.homeScore],
+    ];
+    for (const [row, scored, conceded] of sides) {
+      row.played += 1;
+      row.goalsFor += scored;
+      row.goalsAgainst += conceded;
+      row.goalDifference = row.goalsFor - row.goalsAgainst;
+      if (scored > conceded) {
+        row.won += 1;
+        row.points += 3;
+      } else if (scored === conceded) {
+        row.drawn += 1;
+        row.points += 1;
+      } else {
+        row.lost += 1;
+      }
+    }
+  }
+
+  return [...rows.values()]
+    .sort((a, b) =>
+      b.points - a.points ||
+      b.goalDifference - a.goalDifference ||
+      b.goalsFor - a.goalsFor ||
+      a.teamId - b.teamId
+    )
+    .map((row, i) => ({ ...row, position: i + 1 }));
+};
+
+/**
+ * Split a pool pro rata by shares held (see header for the rounding rule)
+ */
+export const allocateDividendPool = (poolCents: number, holdings: DividendHolding[]): DividendAllocation[] => {
+  const holders = holdings.filter(h => h.quantity > 0);
+  const totalShares = holders.reduce((sum, h) => sum + h.quantity, 0);
+  if (poolCents <= 0 || totalShares === 0) return [];
+
+  const shares = holders.map(holding => {
+    const numerator = BigInt(poolCents) * BigInt(holding.quantity);
+    return {
+      ...holding,
+      amountCents: Number(numerator / BigInt(totalShares)),
+      remainder: numerator % BigInt(totalShares),
+    };
+  });
+
+  let leftover = poolCents - shares.reduce((sum, s) => sum + s.amountCents, 0);
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder ? (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0) : a.remainder > b.remainder ? -1 : 1
+  );
+  for (const share of byRemainder) {
+    if (leftover === 0) break;
+    share.amountCents += 1;
+    leftover -= 1;
+  }
+
+  return shares.map(({ userId, quantity, amountCents }) => ({ userId, quantity, amountCents }));
+};
+
+/**
+ * Pools matched to the clubs that earned them
+ *
+ * @param table - League table (for position awards)
+ * @param pools - Admin-defined pools for one award type
+ * @param cupWinnerTeamId - Club that won the cup (for cup_win pools)
+ */
+export const matchPrizePoolsToTeams = (
+  pools: DividendPrizePool[],
+  table: LeagueTableRow[],
+  teamNames: Map<number, string>,
+  cupWinnerTeamId?: number | null
+): DividendAwardInput[] =>
+  pools.flatMap(pool => {
+    const teamId = pool.awardType === 'cup_win'
+      ? cupWinnerTeamId
+      : table.find(row => row.position === pool.leaguePosition)?.teamId;
+    if (!teamId || pool.poolCents <= 0) return [];
+    return [{
+      teamId,
+      teamName: teamNames.get(teamId) ?? `Club ${teamId}`,
+      awardType: pool.awardType,
+      leaguePosition: pool.awardType === 'cup_win' ? null : pool.leaguePosition,
+      poolCents: pool.poolCents,
+    }];
+  });
+
+/**
+ * Allocation of every award, plus totals per user
+ *
+ * @param holdersByTeam - Holdings at the record date per team id
+ */
+export const previewDividends = (
+  awards: DividendAwardInput[],
+  holdersByTeam: Map<number, DividendHolding[]>
+): DividendPreview => {
+  const byUser = new Map<string, DividendAllocation>();
+
+  const previews = awards.map(award => {
+    const holdings = holdersByTeam.get(award.teamId) ?? [];
+    const allocations = allocateDividendPool(award.poolCents, holdings);
+    for (const allocation of allocations) {
+      const total = byUser.get(allocation.userId) ?? { userId: allocation.userId, quantity: 0, amountCents: 0 };
+      total.quantity += allocation.quantity;
+      total.amountCents += allocation.amountCents;
+      byUser.set(allocation.userId, total);
+    }
+    return {
+      ...award,
+      holders: allocations.length,
+      sharesHeld: allocations.reduce((sum, a) => sum + a.quantity, 0),
+      allocations,
+      paidCents: allocations.reduce((sum, a) => sum + a.amountCents, 0),
+    };
+  });
+
+  return {
+    awards: previews,
+    totalPoolCents: awards.reduce((sum, a) => sum + a.poolCents, 0),
+    totalPaidCents: previews.reduce((sum, a) => sum + a.paidCents, 0),
+    byUser: [...byUser.values()].sort((a, b) => b.amountCents - a.amountCents),
+  };
+};
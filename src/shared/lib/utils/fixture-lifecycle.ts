@@ -0,0 +1,272 @@
+/**
+ * Fixture Lifecycle
+ *
+ * The state machine every fixture moves through
+ * (supabase/migrations/20261019001600_fixture_lifecycle.sql):
+ *
+ *   scheduled -> buy_closed -> snapshotted -> live -> finished -> applied
+ *
+ * plus postponed (before kickoff), abandoned (after kickoff) and voided.
+ * Fixtures are unwound (supabase/migrations/20261019001700_fixture_unwind.sql)
+ * by rescheduling back to scheduled at a new kickoff, letting an abandoned
+ * result stand (abandoned -> finished), or voiding, which for an applied
+ * result reverses its transfer. transition_fixture in SQL validates and
+ * performs transitions; FIXTURE_LIFECYCLE_TRANSITIONS mirrors its table and
+ * must stay in sync.
+ *
+ * planLifecycleStep decides the next transition from the clock and the
+ * provider's view of the match, and advanceFixtureLifecycle walks a fixture
+ * through as many transitions as are due, recording a failure (retried with
+ * backoff by the database) when one does not go through. The update-matches
+ * function drives every due fixture this way; the admin matches panel
+ * drives one at a time or forces a transition.
+ */
+
+import { mapApiMatchStatus } from '../football-providers/match-status';
+
+export type FixtureLifecycleState =
+  | 'scheduled'
+  | 'buy_closed'
+  | 'snapshotted'
+  | 'live'
+  | 'finished'
+  | 'applied'
+  | 'postponed'
+  | 'abandoned'
+  | 'voided';
+
+export type FixtureTransitionSource = 'scheduler' | 'admin' | 'provider';
+
+export const FIXTURE_LIFECYCLE_TRANSITIONS: Record<FixtureLifecycleState, FixtureLifecycleState[]> = {
+  scheduled: ['buy_closed', 'postponed'],
+  buy_closed: ['snapshotted', 'postponed', 'scheduled'],
+  snapshotted: ['live', 'postponed', 'scheduled'],
+  live: ['finished', 'abandoned'],
+  finished: ['applied'],
+  applied: ['voided'],
+  postponed: ['scheduled', 'voided'],
+  abandoned: ['scheduled', 'finished', 'voided'],
+  voided: []
+};
+
+export const FIXTURE_LIFECYCLE_LABELS: Record<FixtureLifecycleState, string> = {
+  scheduled: 'Scheduled',
+  buy_closed: 'Buy closed',
+  snapshotted: 'Snapshotted',
+  live: 'Live',
+  finished: 'Finished',
+  applied: 'Applied',
+  postponed: 'Postponed',
+  abandoned: 'Abandoned',
+  voided: 'Voided'
+};
+
+/** States the scheduler still has work to do for */
+export const ACTIVE_LIFECYCLE_STATES: FixtureLifecycleState[] = ['scheduled', 'buy_closed', 'snapshotted', 'live', 'finished'];
+
+/** States waiting on an admin to reschedule, let the result stand or void */
+export const UNRESOLVED_LIFECYCLE_STATES: FixtureLifecycleState[] = ['postponed', 'abandoned'];
+
+/** The scheduler stops retrying after this many failed attempts; an admin advances the fixture instead */
+export const MAX_LIFECYCLE_ATTEMPTS = 8;
+
+/** Fixtures that kicked off longer ago than this are left to an admin */
+export const LIFECYCLE_RESUME_WINDOW_HOURS = 72;
+
+/** Pre-kickoff fixtures are checked with the provider from this long before kickoff */
+const PROVIDER_CHECK_BEFORE_KICKOFF_MS = 30 * 60 * 1000;
+
+export interface LifecycleFixture {
+  id: number;
+  external_id?: string | number | null;
+  lifecycle_state: FixtureLifecycleState;
+  kickoff_at: string;
+  buy_close_at: string;
+  home_score?: number | null;
+  away_score?: number | null;
+}
+
+/** Provider view of a match (FootballMatch status and score) */
+export interface LifecycleMatch {
+  status: string;
+  score?: { fullTime?: { home: number | null; away: number | null } } | null;
+}
+
+export interface LifecycleScores {
+  home_score: number;
+  away_score: number;
+}
+
+export interface LifecycleStep {
+  to: FixtureLifecycleState;
+  details: Partial<LifecycleScores>;
+}
+
+/** Extra transition_fixture details an admin transition needs */
+export type LifecycleTransitionInput = 'score' | 'kickoff' | 'reason';
+
+/** Details sent with an admin transition */
+export interface LifecycleTransitionDetails extends Partial<LifecycleScores> {
+  kickoff_at?: string;
+  reason?: string;
+}
+
+export const canTransitionFixture = (from: FixtureLifecycleState, to: FixtureLifecycleState): boolean =>
+  FIXTURE_LIFECYCLE_TRANSITIONS[from].includes(to);
+
+/**
+ * What a transition needs beyond the target: the final score to finish, a
+ * new kickoff to reschedule, a reason to void an applied result
+ */
+export const transitionInput = (from: FixtureLifecycleState, to: FixtureLifecycleState): LifecycleTransitionInput | null => {
+  if (to === 'finished') return 'score';
+  if (to === 'scheduled') return 'kickoff';
+  if (from === 'applied' && to === 'voided') return 'reason';
+  return null;
+};
+
+/**
+ * Public fixtures.status for a lifecycle state; trading stays closed while
+ * a finished result waits to be applied
+ */
+export const fixtureStatusForLifecycle = (state: FixtureLifecycleState): 'scheduled' | 'live' | 'applied' | 'postponed' => {
+  switch (state) {
+    case 'scheduled':
+    case 'buy_closed':
+    case 'snapshotted': return 'scheduled';
+    case 'live':
+    case 'finished': return 'live';
+    case 'applied': return 'applied';
+    default: return 'postponed';
+  }
+};
+
+const scoresFromMatch = (match: LifecycleMatch): Partial<LifecycleScores> => {
+  const home = match.score?.fullTime?.home;
+  const away = match.score?.fullTime?.away;
+  return home === null || home === undefined || away === null || away === undefined
+    ? {}
+    : { home_score: home, away_score: away };
+};
+
+/**
+ * Whether the next step depends on the provider: always once snapshotted,
+ * and from shortly before kickoff to catch late postponements. Earlier
+ * postponements arrive through the fixture sync.
+ */
+export const needsProviderMatch = (fixture: LifecycleFixture, now: Date): boolean => {
+  if (fixture.lifecycle_state === 'snapshotted' || fixture.lifecycle_state === 'live') return true;
+  if (fixture.lifecycle_state !== 'scheduled' && fixture.lifecycle_state !== 'buy_closed') return false;
+  return now.getTime() >= new Date(fixture.kickoff_at).getTime() - PROVIDER_CHECK_BEFORE_KICKOFF_MS;
+};
+
+/**
+ * Next transition for a fixture, or null when nothing is due. match is the
+ * provider's view when needsProviderMatch asked for it.
+ */
+export const planLifecycleStep = (
+  fixture: LifecycleFixture,
+  match: LifecycleMatch | null,
+  now: Date
+): LifecycleStep | null => {
+  const providerStatus = match ? mapApiMatchStatus(match.status) : null;
+
+  switch (fixture.lifecycle_state) {
+    case 'scheduled':
+      if (providerStatus === 'postponed') return { to: 'postponed', details: {} };
+      return now >= new Date(fixture.buy_close_at) ? { to: 'buy_closed', details: {} } : null;
+
+    case 'buy_closed':
+      if (providerStatus === 'postponed') return { to: 'postponed', details: {} };
+      return { to: 'snapshotted', details: {} };
+
+    case 'snapshotted':
+      if (providerStatus === 'postponed') return { to: 'postponed', details: {} };
+      if (providerStatus === 'live' || providerStatus === 'applied') {
+        return { to: 'live', details: scoresFromMatch(match!) };
+      }
+      return null;
+
+    case 'live': {
+      // Suspended or cancelled after kickoff
+      if (providerStatus === 'postponed') return { to: 'abandoned', details: scoresFromMatch(match!) };
+      const scores = providerStatus === 'applied' ? scoresFromMatch(match!) : {};
+      return scores.home_score !== undefined ? { to: 'finished', details: scores } : null;
+    }
+
+    case 'finished':
+      return { to: 'applied', details: {} };
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Current score of a live fixture when the provider's differs from the stored one
+ */
+export const liveScoreUpdate = (fixture: LifecycleFixture, match: LifecycleMatch | null): LifecycleScores | null => {
+  if (fixture.lifecycle_state !== 'live' || !match) return null;
+  const scores = scoresFromMatch(match);
+  if (scores.home_score === undefined || scores.away_score === undefined) return null;
+  if (scores.home_score === fixture.home_score && scores.away_score === fixture.away_score) return null;
+  return { home_score: scores.home_score, away_score: scores.away_score };
+};
+
+export interface FixtureLifecycleDriver {
+  getMatch(fixture: LifecycleFixture): Promise<LifecycleMatch>;
+  /** Performs the transition; throws when it does not go through */
+  transition(fixture: LifecycleFixture, step: LifecycleStep): Promise<void>;
+  recordFailure(fixture: LifecycleFixture, to: FixtureLifecycleState | null, error: string): Promise<void>;
+  updateLiveScore(fixture: LifecycleFixture, scores: LifecycleScores): Promise<void>;
+}
+
+export interface LifecycleAdvanceResult {
+  transitions: FixtureLifecycleState[];
+  scoreUpdated: boolean;
+  error: string | null;
+}
+
+/**
+ * Walk a fixture through every transition that is due. The provider match
+ * is fetched at most once. Stops at the first failure, which is recorded.
+ */
+export const advanceFixtureLifecycle = async (
+  fixture: LifecycleFixture,
+  driver: FixtureLifecycleDriver,
+  now: Date
+): Promise<LifecycleAdvanceResult> => {
+  const result: LifecycleAdvanceResult = { transitions: [], scoreUpdated: false, error: null };
+  let current: LifecycleFixture = { ...fixture };
+  let match: LifecycleMatch | null = null;
+  let matchFetched = false;
+
+  // Each state has at most one way forward per run
+  for (let i = 0; i < ACTIVE_LIFECYCLE_STATES.length; i++) {
+    let step: LifecycleStep | null = null;
+    try {
+      if (!matchFetched && needsProviderMatch(current, now)) {
+        match = await driver.getMatch(current);
+        matchFetched = true;
+      }
+      step = planLifecycleStep(current, match, now);
+      if (!step) break;
+
+      await driver.transition(current, step);
+      result.transitions.push(step.to);
+      current = { ...current, lifecycle_state: step.to, ...step.details };
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      await driver.recordFailure(current, step?.to ?? null, result.error);
+      return result;
+    }
+  }
+
+  const scores = liveScoreUpdate(current, match);
+  if (scores) {
+    await driver.updateLiveScore(current, scores);
+    result.scoreUpdated = true;
+  }
+
+  return result;
+};
@@ -1,7 +1,11 @@
 /**
- * Centralized Weekly Leaderboard Calculations
+ * Centralized Leaderboard Calculations
  * 
- * This module provides calculation functions for weekly leaderboard metrics.
+ * This module provides calculation functions for leaderboard metrics.
+ * The weekly leaderboard and the period leaderboards (matchday, month,
+ * season, custom range - see leaderboard-periods.ts) share the same
+ * deposit-adjusted return; for non-weekly periods the *_week / weekly_*
+ * fields hold the values for that period.
  * Uses Decimal.js for precision to ensure consistency between backend and frontend.
  * 
  * All calculations:
@@ -21,6 +25,7 @@
  */
 
 import { Decimal, toDecimal, roundForDisplay, fromCents, toCents } from './decimal';
+import type { LeaderboardPeriod } from './leaderboard-periods';
 
 /**
  * Convert cents to number (from database BIGINT values)
@@ -81,11 +86,11 @@ export const calculateAccountValue = (
 };
 
 /**
- * Calculate weekly return (ROI) for leaderboard
+ * Calculate period return (ROI) for leaderboard
  * 
  * Formula: (End Account Value - Start Account Value - Deposits) / (Start Account Value + Deposits)
  * 
- * This formula accounts for deposits during the week:
+ * This formula accounts for deposits during the period:
  * - If deposits = 0: Simple ROI = (end - start) / start
  * - If deposits > 0: Adjusted ROI considering the added capital
  * 
@@ -101,12 +106,12 @@ export const calculateAccountValue = (
  * - Rounds ONLY at the final step to 6 decimal places
  * - Ensures consistent rounding across all calculations
  * 
- * @param startAccountValue - Account value at start of week (dollars)
- * @param endAccountValue - Account value at end of week (dollars)
- * @param depositsWeek - Total deposits during the week (dollars)
- * @returns Weekly return as decimal fraction (NOT percentage), 6 decimal places
+ * @param startAccountValue - Account value at start of period (dollars)
+ * @param endAccountValue - Account value at end of period (dollars)
+ * @param depositsWeek - Net deposits during the period (dollars)
+ * @returns Period return as decimal fraction (NOT percentage), 6 decimal places
  */
-export const calculateWeeklyReturn = (
+export const calculatePeriodReturn = (
   startAccountValue: number | string | Decimal,
   endAccountValue: number | string | Decimal,
   depositsWeek: number | string | Decimal
@@ -158,6 +163,12 @@ export const calculateWeeklyReturn = (
   return weeklyReturn.toDecimalPlaces(6, Decimal.ROUND_HALF_UP).toNumber();
 };
 
+/**
+ * Calculate weekly return (ROI) for leaderboard
+ * Same formula as calculatePeriodReturn over a Monday-to-Monday window.
+ */
+export const calculateWeeklyReturn = calculatePeriodReturn;
+
 /**
  * Calculate and rank leaderboard entries
  * 
@@ -170,7 +181,7 @@ export const calculateLeaderboard = (
   // Calculate weekly return for each user
   const entriesWithReturns = userData.map(user => ({
     ...user,
-    weekly_return: calculateWeeklyReturn(
+    weekly_return: calculatePeriodReturn(
       user.start_account_value,
       user.end_account_value,
       user.deposits_week
@@ -214,10 +225,34 @@ export const toLeaderboardDbFormat = (
   };
 };
 
+/**
+ * Convert leaderboard entry to period_leaderboard format (bigint cents for storage)
+ * 
+ * @param entry - Leaderboard entry with values in dollars
+ * @param period - Period the entry was calculated for
+ * @returns Row for the period_leaderboard table
+ */
+export const toPeriodLeaderboardDbFormat = (
+  entry: LeaderboardEntry,
+  period: LeaderboardPeriod
+): Record<string, unknown> => {
+  const { deposits_week, weekly_return, ...values } = toLeaderboardDbFormat(entry);
+  return {
+    ...values,
+    period_type: period.type,
+    period_key: period.key,
+    period_label: period.label,
+    period_start: period.start.toISOString(),
+    period_end: period.end.toISOString(),
+    deposits: deposits_week,
+    period_return: weekly_return
+  };
+};
+
 /**
  * Convert database format to leaderboard entry (cents to dollars)
  * 
- * @param dbEntry - Entry from database with cents values
+ * @param dbEntry - Entry from weekly_leaderboard or period_leaderboard with cents values
  * @returns Entry with values converted to dollars
  */
 export const fromLeaderboardDbFormat = (
@@ -233,8 +268,9 @@ export const fromLeaderboardDbFormat = (
     end_wallet_value: fromCentsToNumber(dbEntry.end_wallet_value),
     end_portfolio_value: fromCentsToNumber(dbEntry.end_portfolio_value),
     end_account_value: fromCentsToNumber(dbEntry.end_account_value),
-    deposits_week: fromCentsToNumber(dbEntry.deposits_week),
-    weekly_return: dbEntry.weekly_return // Already decimal fraction
+    // period_leaderboard rows use deposits / period_return
+    deposits_week: fromCentsToNumber(dbEntry.deposits_week ?? dbEntry.deposits),
+    weekly_return: Number(dbEntry.weekly_return ?? dbEntry.period_return) // Already decimal fraction
   };
 };
 
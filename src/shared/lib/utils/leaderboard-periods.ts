@@ -0,0 +1,227 @@
+/**
+ * Leaderboard Periods
+ *
+ * Start/end bounds for every leaderboard period type. All periods are
+ * scored with the same deposit-adjusted return (calculatePeriodReturn in
+ * leaderboard-calculations); only the window differs.
+ *
+ * Calendar periods follow the weekly leaderboard's UAE day boundary
+ * (03:00 UAE = 23:00 UTC the previous day):
+ * - week:  Monday 03:00 UAE -> next Monday 02:59:59 UAE
+ * - month: 1st 03:00 UAE -> next 1st 02:59:59 UAE
+ *
+ * Fixture periods follow the ledger, where a match moves prices at kickoff:
+ * - matchday: just before the matchday's first kickoff -> its last kickoff
+ * - season:   just before the season's first kickoff -> its last kickoff
+ *             (or now, while the season is in progress)
+ *
+ * Returned bounds are UTC Dates, matching how Supabase stores timestamps.
+ */
+
+export type LeaderboardPeriodType = 'week' | 'matchday' | 'month' | 'season' | 'custom';
+
+export interface LeaderboardPeriod {
+  type: LeaderboardPeriodType;
+  /** Stable identifier within the period type, e.g. '2025-10' for a month */
+  key: string;
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface LeaderboardPeriodFixture {
+  kickoff_at: string;
+  matchday?: number | null;
+  season?: number | null;
+}
+
+export const LEADERBOARD_PERIOD_TYPES: LeaderboardPeriodType[] = ['week', 'matchday', 'month', 'season', 'custom'];
+
+export const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriodType, string> = {
+  week: 'Weekly',
+  matchday: 'Matchday',
+  month: 'Monthly',
+  season: 'Season',
+  custom: 'Custom',
+};
+
+/** UAE is UTC+4 with no daylight saving */
+export const LEADERBOARD_UTC_OFFSET_HOURS = 4;
+/** Leaderboard days start at 03:00 UAE */
+export const LEADERBOARD_DAY_START_HOUR = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+/** Periods end one second before the next one starts (02:59:59) */
+const PERIOD_END_GAP_MS = 1000;
+/** Fixture periods start just before the first kickoff so its price move is inside the period */
+const KICKOFF_LEAD_MS = 1;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Shift a UTC instant so that its UTC fields read as the UAE leaderboard day
+const toLeaderboardClock = (date: Date) =>
+  new Date(date.getTime() + (LEADERBOARD_UTC_OFFSET_HOURS - LEADERBOARD_DAY_START_HOUR) * HOUR_MS);
+
+const fromLeaderboardClock = (date: Date) =>
+  new Date(date.getTime() - (LEADERBOARD_UTC_OFFSET_HOURS - LEADERBOARD_DAY_START_HOUR) * HOUR_MS);
+
+const formatDay = (date: Date) => {
+  const uae = new Date(date.getTime() + LEADERBOARD_UTC_OFFSET_HOURS * HOUR_MS);
+  return `${uae.getUTCDate()} ${MONTH_NAMES[uae.getUTCMonth()].slice(0, 3)} ${uae.getUTCFullYear()}`;
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Leaderboard week containing a point in time
+ *
+ * @param reference - Any instant inside the week
+ * @returns Week period keyed by its Monday (UAE date)
+ */
+export const getWeekPeriod = (reference: Date): LeaderboardPeriod => {
+  const clock = toLeaderboardClock(reference);
+  const day = clock.getUTCDay(); // 0 = Sunday
+  const diffToMonday = (day === 0 ? -6 : 1) - day;
+
+  const monday = new Date(Date.UTC(clock.getUTCFullYear(), clock.getUTCMonth(), clock.getUTCDate() + diffToMonday));
+  const start = fromLeaderboardClock(monday);
+  const end = new Date(start.getTime() + 7 * DAY_MS - PERIOD_END_GAP_MS);
+
+  return {
+    type: 'week',
+    key: isoDay(monday),
+    label: `Week of ${formatDay(start)}`,
+    start,
+    end,
+  };
+};
+
+/**
+ * The most recent fully completed leaderboard week
+ *
+ * @param now - Reference time (default: current time)
+ */
+export const getCompletedWeekPeriod = (now: Date = new Date()): LeaderboardPeriod => {
+  return getWeekPeriod(new Date(now.getTime() - 7 * DAY_MS));
+};
+
+/**
+ * Leaderboard calendar month
+ *
+ * @param year - Calendar year
+ * @param month - Month 1-12
+ */
+export const getMonthPeriod = (year: number, month: number): LeaderboardPeriod => {
+  const start = fromLeaderboardClock(new Date(Date.UTC(year, month - 1, 1)));
+  const nextStart = fromLeaderboardClock(new Date(Date.UTC(year, month, 1)));
+
+  return {
+    type: 'month',
+    key: `${year}-${String(month).padStart(2, '0')}`,
+    label: `${MONTH_NAMES[month - 1]} ${year}`,
+    start,
+    end: new Date(nextStart.getTime() - PERIOD_END_GAP_MS),
+  };
+};
+
+/**
+ * The most recent fully completed leaderboard month
+ *
+ * @param now - Reference time (default: current time)
+ */
+export const getCompletedMonthPeriod = (now: Date = new Date()): LeaderboardPeriod => {
+  const clock = toLeaderboardClock(now);
+  const previous = new Date(Date.UTC(clock.getUTCFullYear(), clock.getUTCMonth() - 1, 1));
+  return getMonthPeriod(previous.getUTCFullYear(), previous.getUTCMonth() + 1);
+};
+
+const kickoffBounds = (fixtures: LeaderboardPeriodFixture[]) => {
+  const times = fixtures.map(f => new Date(f.kickoff_at).getTime()).filter(t => !isNaN(t));
+  if (times.length === 0) return null;
+  return {
+    start: new Date(Math.min(...times) - KICKOFF_LEAD_MS),
+    end: new Date(Math.max(...times)),
+  };
+};
+
+/**
+ * One period per matchday, in matchday order
+ * Fixtures without a matchday are ignored.
+ *
+ * @param fixtures - Fixtures of a single season
+ * @param season - Season the fixtures belong to (used in keys and labels)
+ */
+export const buildMatchdayPeriods = (
+  fixtures: LeaderboardPeriodFixture[],
+  season?: number | null
+): LeaderboardPeriod[] => {
+  const byMatchday = new Map<number, LeaderboardPeriodFixture[]>();
+  for (const fixture of fixtures) {
+    if (fixture.matchday == null) continue;
+    const list = byMatchday.get(fixture.matchday) ?? [];
+    list.push(fixture);
+    byMatchday.set(fixture.matchday, list);
+  }
+
+  const periods: LeaderboardPeriod[] = [];
+  for (const [matchday, list] of [...byMatchday.entries()].sort(([a], [b]) => a - b)) {
+    const bounds = kickoffBounds(list);
+    if (!bounds) continue;
+    periods.push({
+      type: 'matchday',
+      key: season != null ? `${season}-md${matchday}` : `md${matchday}`,
+      label: `Matchday ${matchday}${season != null ? ` (${season}/${String((season + 1) % 100).padStart(2, '0')})` : ''}`,
+      ...bounds,
+    });
+  }
+  return periods;
+};
+
+/**
+ * Whole-season period, capped at now while the season is in progress
+ *
+ * @param season - Season start year (fixtures.season)
+ * @param fixtures - Fixtures of that season
+ * @param now - Reference time (default: current time)
+ * @returns Season period, or null if the season has not started
+ */
+export const getSeasonPeriod = (
+  season: number,
+  fixtures: LeaderboardPeriodFixture[],
+  now: Date = new Date()
+): LeaderboardPeriod | null => {
+  const bounds = kickoffBounds(fixtures);
+  if (!bounds || bounds.start.getTime() > now.getTime()) return null;
+
+  return {
+    type: 'season',
+    key: String(season),
+    label: `Season ${season}/${String((season + 1) % 100).padStart(2, '0')}`,
+    start: bounds.start,
+    end: bounds.end.getTime() > now.getTime() ? now : bounds.end,
+  };
+};
+
+/**
+ * Arbitrary date range
+ *
+ * @param start - Range start
+ * @param end - Range end (must be after start)
+ */
+export const getCustomPeriod = (start: Date, end: Date): LeaderboardPeriod => {
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end.getTime() <= start.getTime()) {
+    throw new Error('Custom leaderboard period must end after it starts');
+  }
+
+  return {
+    type: 'custom',
+    key: `${start.toISOString()}_${end.toISOString()}`,
+    label: `${formatDay(start)} - ${formatDay(end)}`,
+    start,
+    end,
+  };
+};
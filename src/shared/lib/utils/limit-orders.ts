@@ -0,0 +1,166 @@
+/**
+ * Limit Order Utilities
+ *
+ * Pure helpers shared by the UI and the server-side matcher for resting
+ * limit orders. Prices passed in are dollars per share (NAV), matching
+ * calculateSharePrice(); amounts returned for reservations are cents,
+ * matching how the database stores money.
+ *
+ * Trigger rule (mirrors match_limit_orders in SQL):
+ * - BUY triggers when NAV <= limit price
+ * - SELL triggers when NAV >= limit price
+ * Execution always happens at the current NAV, so a fill is never worse
+ * than the limit.
+ */
+
+import { Decimal, toDecimal, toCents, roundForDisplay } from './decimal';
+
+export type LimitOrderSide = 'BUY' | 'SELL';
+
+export type LimitOrderStatus = 'PENDING' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED';
+
+export interface LimitOrderInput {
+  side: LimitOrderSide;
+  quantity: number;
+  limitPrice: number;
+  expiresAt?: Date | string | null;
+  /** Cash available in the wallet (dollars), required for BUY validation */
+  walletBalance?: number;
+  /** Trading fee reserved on top of a BUY (cents), see calculateMaxTradeFeeCents */
+  feeReserveCents?: number;
+  /** Shares not already committed to other orders, required for SELL validation */
+  availableQuantity?: number;
+}
+
+/**
+ * Check whether a limit order should fill at the given NAV
+ *
+ * @param side - BUY or SELL
+ * @param limitPrice - Limit price per share (dollars)
+ * @param currentPrice - Current NAV per share (dollars)
+ * @returns True if the order's limit has been crossed
+ */
+export const isLimitOrderTriggered = (
+  side: LimitOrderSide,
+  limitPrice: number | string | Decimal,
+  currentPrice: number | string | Decimal
+): boolean => {
+  const limit = roundForDisplay(toDecimal(limitPrice));
+  const nav = roundForDisplay(toDecimal(currentPrice));
+  if (limit <= 0 || nav <= 0) {
+    return false;
+  }
+  return side === 'BUY' ? nav <= limit : nav >= limit;
+};
+
+/**
+ * Calculate the cash reserved when placing a BUY limit order
+ * SELL orders reserve shares rather than cash, so they reserve 0 cents.
+ *
+ * @param side - BUY or SELL
+ * @param limitPrice - Limit price per share (dollars)
+ * @param quantity - Number of shares
+ * @param feeReserveCents - Trading fee reserved on top of the price (default: 0)
+ * @returns Reservation in cents
+ */
+export const calculateLimitReservationCents = (
+  side: LimitOrderSide,
+  limitPrice: number | string | Decimal,
+  quantity: number,
+  feeReserveCents: number = 0
+): number => {
+  if (side === 'SELL') {
+    return 0;
+  }
+  const limitCents = toCents(toDecimal(limitPrice));
+  return limitCents * Math.max(0, Math.floor(quantity)) + Math.max(0, feeReserveCents);
+};
+
+/**
+ * Check whether a limit order has passed its expiry
+ *
+ * @param expiresAt - Expiry timestamp, null/undefined for good-til-cancelled
+ * @param now - Reference time (default: current time)
+ * @returns True if the order is expired
+ */
+export const isLimitOrderExpired = (
+  expiresAt: Date | string | null | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!expiresAt) {
+    return false;
+  }
+  const expiry = expiresAt instanceof Date ? expiresAt : new Date(expiresAt);
+  if (isNaN(expiry.getTime())) {
+    return false;
+  }
+  return expiry.getTime() <= now.getTime();
+};
+
+/**
+ * Distance from the current NAV to the limit, as a percentage of NAV
+ * Positive means the price still has to move towards the limit.
+ *
+ * @param side - BUY or SELL
+ * @param limitPrice - Limit price per share (dollars)
+ * @param currentPrice - Current NAV per share (dollars)
+ * @returns Percentage distance rounded to 2 decimal places (0 if already triggered)
+ */
+export const calculateDistanceToLimitPercent = (
+  side: LimitOrderSide,
+  limitPrice: number | string | Decimal,
+  currentPrice: number | string | Decimal
+): number => {
+  const nav = toDecimal(currentPrice);
+  if (nav.lte(0)) {
+    return 0;
+  }
+  if (isLimitOrderTriggered(side, limitPrice, currentPrice)) {
+    return 0;
+  }
+  const limit = toDecimal(limitPrice);
+  const gap = side === 'BUY' ? nav.minus(limit) : limit.minus(nav);
+  return roundForDisplay(gap.dividedBy(nav).times(100));
+};
+
+/**
+ * Validate limit order input before sending it to the database
+ *
+ * @param input - Limit order parameters
+ * @param now - Reference time for expiry validation (default: current time)
+ * @returns Validation result with error messages
+ */
+export const validateLimitOrderInput = (
+  input: LimitOrderInput,
+  now: Date = new Date()
+): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    errors.push('Number of shares must be a whole number greater than 0');
+  }
+
+  if (!(input.limitPrice > 0)) {
+    errors.push('Limit price must be greater than 0');
+  }
+
+  if (input.expiresAt && isLimitOrderExpired(input.expiresAt, now)) {
+    errors.push('Expiry must be in the future');
+  }
+
+  if (input.side === 'BUY' && input.walletBalance !== undefined && input.limitPrice > 0 && input.quantity > 0) {
+    const requiredCents = calculateLimitReservationCents('BUY', input.limitPrice, input.quantity, input.feeReserveCents);
+    if (toCents(toDecimal(input.walletBalance)) < requiredCents) {
+      errors.push('Insufficient wallet balance to reserve this order');
+    }
+  }
+
+  if (input.side === 'SELL' && input.availableQuantity !== undefined && input.quantity > input.availableQuantity) {
+    errors.push(`You only have ${input.availableQuantity} shares available to sell`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Live Projected Prices
+ *
+ * While a match is being played trading is closed, so traders can only
+ * watch. These helpers show what each playing club's share price would be
+ * after the match if the current scoreline held, using the same transfer
+ * rule set the database applies when the result is processed
+ * (calculate_match_transfer): pre-match caps come from the fixture
+ * snapshot, falling back to the current cap, exactly like the SQL path.
+ *
+ * Live scores come from the football API when available and from the
+ * fixture row (updated by the update-matches function) otherwise.
+ */
+
+import { calculateMatchTransfer, type CompetitionType, type TransferRuleSet } from './transfer-rules';
+import { calculatePercentChange, calculateSharePrice } from './calculations';
+import { fromCents, roundForDisplay, toDecimal } from './decimal';
+import { mapApiMatchStatus, type FixtureStatusFromApi } from '../football-providers/match-status';
+
+// Shared with the update-matches function so both agree on what "live" means
+export { mapApiMatchStatus, type FixtureStatusFromApi };
+
+export interface LiveTeam {
+  id: number;
+  name: string;
+  /** Current market cap in cents */
+  market_cap: number;
+  total_shares?: number | null;
+}
+
+export interface LiveFixture {
+  id: number;
+  /** football-data.org match id */
+  external_id?: string | number | null;
+  home_team_id: number;
+  away_team_id: number;
+  status: string;
+  home_score?: number | null;
+  away_score?: number | null;
+  snapshot_home_cap?: number | null;
+  snapshot_away_cap?: number | null;
+  competition_type?: CompetitionType | null;
+}
+
+/** Live score reported by the football API */
+export interface LiveApiScore {
+  externalId: number;
+  status: string;
+  homeScore: number | null;
+  awayScore: number | null;
+}
+
+export interface LiveProjection {
+  fixtureId: number;
+  teamId: number;
+  opponentId: number;
+  isHome: boolean;
+  homeScore: number;
+  awayScore: number;
+  /** Share price before the match (from the pre-match cap) */
+  preMatchPrice: number;
+  /** Share price if the current score is the final score */
+  projectedPrice: number;
+  projectedCapCents: number;
+  /** Change from the pre-match price, in percent */
+  projectedChangePercent: number;
+}
+
+export interface ProjectedPortfolioValue {
+  currentValue: number;
+  projectedValue: number;
+  change: number;
+  /** Number of holdings with a match in progress */
+  liveHoldings: number;
+}
+
+/** Fixed shares per club when the team row doesn't say */
+export const DEFAULT_TOTAL_SHARES = 1000;
+
+const sharePriceFromCents = (capCents: number, totalShares?: number | null) =>
+  calculateSharePrice(fromCents(capCents), totalShares || DEFAULT_TOTAL_SHARES);
+
+/**
+ * Project post-match share prices for every club playing right now
+ *
+ * @param fixtures - Fixtures that may be in progress
+ * @param teams - Teams by id with their current market cap
+ * @param apiScores - Live scores from the football API (may be empty)
+ * @param ruleSet - Active transfer rule set
+ * @returns Projection per team id
+ */
+export const buildLiveProjections = (
+  fixtures: LiveFixture[],
+  teams: Map<number, LiveTeam>,
+  apiScores: LiveApiScore[],
+  ruleSet: TransferRuleSet
+): Map<number, LiveProjection> => {
+  const scoresByExternalId = new Map(apiScores.map(score => [score.externalId, score]));
+  const projections = new Map<number, LiveProjection>();
+
+  for (const fixture of fixtures) {
+    const apiScore = fixture.external_id != null ? scoresByExternalId.get(Number(fixture.external_id)) : undefined;
+    const apiStatus = apiScore ? mapApiMatchStatus(apiScore.status) : null;
+    // The API is fresher than the fixture row; a match it reports as over stays projected until settled
+    const inProgress = apiStatus
+      ? apiStatus === 'live' || (apiStatus === 'applied' && fixture.status !== 'applied')
+      : fixture.status === 'live' || fixture.status === 'closed';
+    if (!inProgress) continue;
+
+    const home = teams.get(fixture.home_team_id);
+    const away = teams.get(fixture.away_team_id);
+    if (!home || !away) continue;
+
+    const homeScore = apiScore?.homeScore ?? fixture.home_score ?? 0;
+    const awayScore = apiScore?.awayScore ?? fixture.away_score ?? 0;
+    const homeCapBefore = fixture.snapshot_home_cap ?? home.market_cap;
+    const awayCapBefore = fixture.snapshot_away_cap ?? away.market_cap;
+
+    const transfer = calculateMatchTransfer({
+      homeCapCents: homeCapBefore,
+      awayCapCents: awayCapBefore,
+      homeScore,
+      awayScore,
+      competitionType: fixture.competition_type ?? 'league',
+    }, ruleSet);
+
+    const sides = [
+      { team: home, opponent: away, isHome: true, before: homeCapBefore, after: transfer.homeCapAfterCents },
+      { team: away, opponent: home, isHome: false, before: awayCapBefore, after: transfer.awayCapAfterCents },
+    ];
+    for (const side of sides) {
+      const preMatchPrice = sharePriceFromCents(side.before, side.team.total_shares);
+      const projectedPrice = sharePriceFromCents(side.after, side.team.total_shares);
+      projections.set(side.team.id, {
+        fixtureId: fixture.id,
+        teamId: side.team.id,
+        opponentId: side.opponent.id,
+        isHome: side.isHome,
+        homeScore,
+        awayScore,
+        preMatchPrice,
+        projectedPrice,
+        projectedCapCents: side.after,
+        projectedChangePercent: calculatePercentChange(projectedPrice, preMatchPrice),
+      });
+    }
+  }
+
+  return projections;
+};
+
+/**
+ * Portfolio value if every live match ended with its current score
+ *
+ * @param holdings - Held clubs with units and current price (dollars)
+ * @param projections - Output of buildLiveProjections
+ */
+export const calculateProjectedPortfolioValue = (
+  holdings: { teamId: number; units: number; currentPrice: number }[],
+  projections: Map<number, LiveProjection>
+): ProjectedPortfolioValue => {
+  let current = toDecimal(0);
+  let projected = toDecimal(0);
+  let liveHoldings = 0;
+
+  for (const holding of holdings) {
+    const projection = projections.get(holding.teamId);
+    const currentValue = toDecimal(holding.currentPrice).times(holding.units);
+    current = current.plus(currentValue);
+    if (projection) {
+      liveHoldings++;
+      projected = projected.plus(toDecimal(projection.projectedPrice).times(holding.units));
+    } else {
+      projected = projected.plus(currentValue);
+    }
+  }
+
+  return {
+    currentValue: roundForDisplay(current),
+    projectedValue: roundForDisplay(projected),
+    change: roundForDisplay(projected.minus(current)),
+    liveHoldings,
+  };
+};
@@ -0,0 +1,447 @@
+/**
+ * Market Cap Replay Engine
+ *
+ * Deterministically recomputes every team's market cap from its initial cap
+ * and the ordered history of applied fixtures, then reconciles the result
+ * against what the database has stored (transfers_ledger,
+ * team_state_snapshots and teams.market_cap).
+ *
+ * Pure and in-memory: the scripts/replay-market-caps.ts CLI loads the data
+ * and applies patches; everything here can be unit tested with plain objects.
+ *
+ * Replay model:
+ * - Only match results move market cap (trades don't change it)
+ * - Fixtures are applied in kickoff order, ties broken by fixture id
+ * - Each match uses the teams' running caps going into that match
+ * - The rule set recorded on a fixture's ledger row is reused when present,
+ *   so history is reproduced with the rules it was originally processed under
+ * - Ledger rows of voided results are the void's audit trail; they are never
+ *   reconciled or patched
+ *
+ * All amounts are cents.
+ */
+
+import {
+  calculateMatchTransfer,
+  getTransferRuleSet,
+  resolveTransferRuleSet,
+  type CompetitionType,
+  type MatchOutcome,
+  type TransferRuleParams,
+  type TransferRuleSet,
+} from './transfer-rules';
+
+export interface ReplayTeam {
+  id: number;
+  name?: string;
+  initialMarketCapCents: number;
+  /** Current teams.market_cap; used for drift detection */
+  currentMarketCapCents?: number;
+}
+
+export interface ReplayFixture {
+  id: number;
+  homeTeamId: number;
+  awayTeamId: number;
+  kickoffAt: string;
+  result: MatchOutcome;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  competitionType?: CompetitionType;
+}
+
+export interface StoredTransfer {
+  id?: number;
+  fixtureId: number;
+  winnerTeamId: number;
+  loserTeamId: number;
+  transferAmountCents: number;
+  ruleVersion?: string | null;
+  ruleParams?: Partial<TransferRuleParams> | null;
+  /** Set when the fixture's result was voided */
+  voidedAt?: string | null;
+}
+
+export interface StoredSnapshot {
+  id?: number;
+  teamId: number;
+  fixtureId: number;
+  marketCapCents: number;
+}
+
+export interface ExpectedTransfer {
+  fixtureId: number;
+  winnerTeamId: number;
+  loserTeamId: number;
+  transferAmountCents: number;
+  ruleVersion: string;
+  ruleParams: TransferRuleParams;
+}
+
+export interface ExpectedSnapshot {
+  teamId: number;
+  fixtureId: number;
+  effectiveAt: string;
+  matchResult: 'win' | 'loss' | 'draw';
+  marketCapBeforeCents: number;
+  marketCapCents: number;
+  priceImpactCents: number;
+}
+
+export interface ReplayResult {
+  transfers: ExpectedTransfer[];
+  snapshots: ExpectedSnapshot[];
+  finalCaps: Map<number, number>;
+  /** Fixtures skipped because a team was unknown */
+  skippedFixtureIds: number[];
+}
+
+export type ReconciliationIssueType =
+  | 'missing_transfer'
+  | 'unexpected_transfer'
+  | 'transfer_mismatch'
+  | 'missing_snapshot'
+  | 'snapshot_mismatch'
+  | 'market_cap_drift';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  fixtureId?: number;
+  teamId?: number;
+  expected?: number;
+  actual?: number;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  fixturesReplayed: number;
+  issues: ReconciliationIssue[];
+  /** Counts per issue type */
+  summary: Record<ReconciliationIssueType, number>;
+  isConsistent: boolean;
+}
+
+export type PatchOperation =
+  | { table: 'teams'; action: 'update'; match: { id: number }; values: { market_cap: number } }
+  | { table: 'transfers_ledger'; action: 'insert'; values: { fixture_id: number; winner_team_id: number; loser_team_id: number; transfer_amount: number; rule_version: string; rule_params: TransferRuleParams } }
+  | { table: 'transfers_ledger'; action: 'update'; match: { id: number }; values: { winner_team_id: number; loser_team_id: number; transfer_amount: number } }
+  | { table: 'transfers_ledger'; action: 'delete'; match: { id: number } }
+  | { table: 'team_state_snapshots'; action: 'update'; match: { id: number }; values: { market_cap: number; current_share_price: number; price_impact: number } };
+
+export interface ReplayOptions {
+  /** Rule set used when a fixture has no recorded version (default: DEFAULT_TRANSFER_RULE_VERSION) */
+  defaultRuleSet?: TransferRuleSet;
+  /** Stored ledger rows; their recorded rule versions are reused for the matching fixtures */
+  storedTransfers?: StoredTransfer[];
+}
+
+/**
+ * Order fixtures the way they are replayed: kickoff time, then id
+ */
+export const sortFixturesForReplay = (fixtures: ReplayFixture[]): ReplayFixture[] =>
+  [...fixtures].sort((a, b) => {
+    const diff = new Date(a.kickoffAt).getTime() - new Date(b.kickoffAt).getTime();
+    return diff !== 0 ? diff : a.id - b.id;
+  });
+
+/**
+ * Replay the fixture history from initial market caps
+ *
+ * @param teams - Teams with their initial caps
+ * @param fixtures - Applied fixtures with final results (any order)
+ * @param options - Rule set selection
+ * @returns Expected ledger rows, snapshots and final caps
+ */
+export const replayMarketCaps = (
+  teams: ReplayTeam[],
+  fixtures: ReplayFixture[],
+  options: ReplayOptions = {}
+): ReplayResult => {
+  const defaultRuleSet = options.defaultRuleSet ?? getTransferRuleSet();
+  const recordedRules = new Map<number, TransferRuleSet>();
+  for (const row of options.storedTransfers ?? []) {
+    if (row.ruleVersion && !recordedRules.has(row.fixtureId)) {
+      recordedRules.set(row.fixtureId, resolveTransferRuleSet(row.ruleVersion, row.ruleParams));
+    }
+  }
+
+  const caps = new Map(teams.map(team => [team.id, team.initialMarketCapCents]));
+  const transfers: ExpectedTransfer[] = [];
+  const snapshots: ExpectedSnapshot[] = [];
+  const skippedFixtureIds: number[] = [];
+
+  for (const fixture of sortFixturesForReplay(fixtures)) {
+    const homeCap = caps.get(fixture.homeTeamId);
+    const awayCap = caps.get(fixture.awayTeamId);
+    if (homeCap === undefined || awayCap === undefined) {
+      skippedFixtureIds.push(fixture.id);
+      continue;
+    }
+
+    const ruleSet = recordedRules.get(fixture.id) ?? defaultRuleSet;
+    const outcome = calculateMatchTransfer({
+      homeCapCents: homeCap,
+      awayCapCents: awayCap,
+      homeScore: fixture.homeScore,
+      awayScore: fixture.awayScore,
+      result: fixture.result,
+      competitionType: fixture.competitionType,
+    }, ruleSet);
+
+    caps.set(fixture.homeTeamId, outcome.homeCapAfterCents);
+    caps.set(fixture.awayTeamId, outcome.awayCapAfterCents);
+
+    if (outcome.receiver) {
+      const homeReceives = outcome.receiver === 'home';
+      transfers.push({
+        fixtureId: fixture.id,
+        winnerTeamId: homeReceives ? fixture.homeTeamId : fixture.awayTeamId,
+        loserTeamId: homeReceives ? fixture.awayTeamId : fixture.homeTeamId,
+        transferAmountCents: outcome.transferCents,
+        ruleVersion: ruleSet.version,
+        ruleParams: ruleSet.params,
+      });
+    }
+
+    const teamResult = (isHome: boolean): ExpectedSnapshot['matchResult'] => {
+      if (fixture.result === 'draw') return 'draw';
+      return (fixture.result === 'home_win') === isHome ? 'win' : 'loss';
+    };
+
+    snapshots.push(
+      {
+        teamId: fixture.homeTeamId,
+        fixtureId: fixture.id,
+        effectiveAt: fixture.kickoffAt,
+        matchResult: teamResult(true),
+        marketCapBeforeCents: homeCap,
+        marketCapCents: outcome.homeCapAfterCents,
+        priceImpactCents: outcome.homeCapAfterCents - homeCap,
+      },
+      {
+        teamId: fixture.awayTeamId,
+        fixtureId: fixture.id,
+        effectiveAt: fixture.kickoffAt,
+        matchResult: teamResult(false),
+        marketCapBeforeCents: awayCap,
+        marketCapCents: outcome.awayCapAfterCents,
+        priceImpactCents: outcome.awayCapAfterCents - awayCap,
+      }
+    );
+  }
+
+  return { transfers, snapshots, finalCaps: caps, skippedFixtureIds };
+};
+
+const emptySummary = (): Record<ReconciliationIssueType, number> => ({
+  missing_transfer: 0,
+  unexpected_transfer: 0,
+  transfer_mismatch: 0,
+  missing_snapshot: 0,
+  snapshot_mismatch: 0,
+  market_cap_drift: 0,
+});
+
+/**
+ * Diff a replay against stored data
+ *
+ * @param replay - Output of replayMarketCaps
+ * @param stored - Current ledger rows, match snapshots and teams
+ * @param toleranceCents - Differences up to this many cents are ignored (default: 0)
+ * @returns Reconciliation report
+ */
+export const reconcileReplay = (
+  replay: ReplayResult,
+  stored: { transfers: StoredTransfer[]; snapshots: StoredSnapshot[]; teams: ReplayTeam[] },
+  toleranceCents: number = 0
+): ReconciliationReport => {
+  const issues: ReconciliationIssue[] = [];
+  const differs = (a: number, b: number) => Math.abs(a - b) > toleranceCents;
+
+  const storedTransfers = new Map<number, StoredTransfer>();
+  for (const row of stored.transfers) {
+    if (!row.voidedAt && !storedTransfers.has(row.fixtureId)) storedTransfers.set(row.fixtureId, row);
+  }
+  const expectedFixtureIds = new Set(replay.transfers.map(t => t.fixtureId));
+
+  for (const expected of replay.transfers) {
+    const actual = storedTransfers.get(expected.fixtureId);
+    if (!actual) {
+      issues.push({
+        type: 'missing_transfer',
+        fixtureId: expected.fixtureId,
+        expected: expected.transferAmountCents,
+        message: `Fixture ${expected.fixtureId}: no ledger row, expected ${expected.transferAmountCents} to team ${expected.winnerTeamId}`,
+      });
+    } else if (
+      actual.winnerTeamId !== expected.winnerTeamId ||
+      differs(actual.transferAmountCents, expected.transferAmountCents)
+    ) {
+      issues.push({
+        type: 'transfer_mismatch',
+        fixtureId: expected.fixtureId,
+        expected: expected.transferAmountCents,
+        actual: actual.transferAmountCents,
+        message: `Fixture ${expected.fixtureId}: stored ${actual.transferAmountCents} to team ${actual.winnerTeamId}, expected ${expected.transferAmountCents} to team ${expected.winnerTeamId}`,
+      });
+    }
+  }
+
+  const replayedFixtureIds = new Set(replay.snapshots.map(s => s.fixtureId));
+  for (const actual of storedTransfers.values()) {
+    if (!expectedFixtureIds.has(actual.fixtureId) && replayedFixtureIds.has(actual.fixtureId)) {
+      issues.push({
+        type: 'unexpected_transfer',
+        fixtureId: actual.fixtureId,
+        actual: actual.transferAmountCents,
+        message: `Fixture ${actual.fixtureId}: ledger row of ${actual.transferAmountCents} where no transfer is expected`,
+      });
+    }
+  }
+
+  const storedSnapshots = new Map(stored.snapshots.map(s => [`${s.teamId}:${s.fixtureId}`, s]));
+  for (const expected of replay.snapshots) {
+    const actual = storedSnapshots.get(`${expected.teamId}:${expected.fixtureId}`);
+    if (!actual) {
+      issues.push({
+        type: 'missing_snapshot',
+        fixtureId: expected.fixtureId,
+        teamId: expected.teamId,
+        expected: expected.marketCapCents,
+        message: `Team ${expected.teamId}, fixture ${expected.fixtureId}: no match snapshot`,
+      });
+    } else if (differs(actual.marketCapCents, expected.marketCapCents)) {
+      issues.push({
+        type: 'snapshot_mismatch',
+        fixtureId: expected.fixtureId,
+        teamId: expected.teamId,
+        expected: expected.marketCapCents,
+        actual: actual.marketCapCents,
+        message: `Team ${expected.teamId}, fixture ${expected.fixtureId}: snapshot cap ${actual.marketCapCents}, expected ${expected.marketCapCents}`,
+      });
+    }
+  }
+
+  for (const team of stored.teams) {
+    const expected = replay.finalCaps.get(team.id);
+    if (expected === undefined || team.currentMarketCapCents === undefined) continue;
+    if (differs(team.currentMarketCapCents, expected)) {
+      issues.push({
+        type: 'market_cap_drift',
+        teamId: team.id,
+        expected,
+        actual: team.currentMarketCapCents,
+        message: `Team ${team.name ?? team.id}: market cap ${team.currentMarketCapCents}, replay gives ${expected}`,
+      });
+    }
+  }
+
+  const summary = emptySummary();
+  for (const issue of issues) summary[issue.type]++;
+
+  return {
+    fixturesReplayed: replayedFixtureIds.size,
+    issues,
+    summary,
+    isConsistent: issues.length === 0,
+  };
+};
+
+/**
+ * Build the corrective patch set for a reconciliation report
+ *
+ * Missing snapshots are reported but not patched: snapshots are created by
+ * create_team_snapshot, which the CLI calls separately if needed.
+ *
+ * @param replay - Output of replayMarketCaps
+ * @param report - Output of reconcileReplay
+ * @param stored - The same stored data passed to reconcileReplay (row ids are needed)
+ * @param totalShares - Fixed share count used for current_share_price (default: 1000)
+ * @returns Patch operations in apply order
+ */
+export const buildCorrectivePatch = (
+  replay: ReplayResult,
+  report: ReconciliationReport,
+  stored: { transfers: StoredTransfer[]; snapshots: StoredSnapshot[] },
+  totalShares: number = 1000
+): PatchOperation[] => {
+  const patch: PatchOperation[] = [];
+  const expectedTransfers = new Map(replay.transfers.map(t => [t.fixtureId, t]));
+  const expectedSnapshots = new Map(replay.snapshots.map(s => [`${s.teamId}:${s.fixtureId}`, s]));
+  const storedTransfers = new Map<number, StoredTransfer>();
+  for (const row of stored.transfers) {
+    if (!row.voidedAt && !storedTransfers.has(row.fixtureId)) storedTransfers.set(row.fixtureId, row);
+  }
+  const storedSnapshots = new Map(stored.snapshots.map(s => [`${s.teamId}:${s.fixtureId}`, s]));
+
+  for (const issue of report.issues) {
+    const fixtureId = issue.fixtureId ?? -1;
+    const expectedTransfer = expectedTransfers.get(fixtureId);
+    const storedTransfer = storedTransfers.get(fixtureId);
+
+    switch (issue.type) {
+      case 'missing_transfer':
+        if (expectedTransfer) {
+          patch.push({
+            table: 'transfers_ledger',
+            action: 'insert',
+            values: {
+              fixture_id: expectedTransfer.fixtureId,
+              winner_team_id: expectedTransfer.winnerTeamId,
+              loser_team_id: expectedTransfer.loserTeamId,
+              transfer_amount: expectedTransfer.transferAmountCents,
+              rule_version: expectedTransfer.ruleVersion,
+              rule_params: expectedTransfer.ruleParams,
+            },
+          });
+        }
+        break;
+      case 'transfer_mismatch':
+        if (expectedTransfer && storedTransfer?.id !== undefined) {
+          patch.push({
+            table: 'transfers_ledger',
+            action: 'update',
+            match: { id: storedTransfer.id },
+            values: {
+              winner_team_id: expectedTransfer.winnerTeamId,
+              loser_team_id: expectedTransfer.loserTeamId,
+              transfer_amount: expectedTransfer.transferAmountCents,
+            },
+          });
+        }
+        break;
+      case 'unexpected_transfer':
+        if (storedTransfer?.id !== undefined) {
+          patch.push({ table: 'transfers_ledger', action: 'delete', match: { id: storedTransfer.id } });
+        }
+        break;
+      case 'snapshot_mismatch': {
+        const key = `${issue.teamId}:${fixtureId}`;
+        const expected = expectedSnapshots.get(key);
+        const actual = storedSnapshots.get(key);
+        if (expected && actual?.id !== undefined) {
+          patch.push({
+            table: 'team_state_snapshots',
+            action: 'update',
+            match: { id: actual.id },
+            values: {
+              market_cap: expected.marketCapCents,
+              current_share_price: Math.round(expected.marketCapCents / totalShares),
+              price_impact: expected.priceImpactCents,
+            },
+          });
+        }
+        break;
+      }
+      case 'market_cap_drift':
+        if (issue.teamId !== undefined && issue.expected !== undefined) {
+          patch.push({ table: 'teams', action: 'update', match: { id: issue.teamId }, values: { market_cap: issue.expected } });
+        }
+        break;
+      case 'missing_snapshot':
+        break;
+    }
+  }
+
+  return patch;
+};
@@ -0,0 +1,49 @@
+/**
+ * Match Outcome Probabilities
+ *
+ * The market-cap model used by the season simulation: each side's chance of
+ * winning is proportional to its share of the two clubs' combined market
+ * cap, after setting aside a fixed draw probability. Shared by the season
+ * simulation (to pick results) and portfolio risk (to weight scenarios), so
+ * both agree on how likely each outcome is.
+ */
+
+import type { MatchOutcome } from './transfer-rules';
+
+export type OutcomeProbabilities = Record<MatchOutcome, number>;
+
+/** Chance of a draw regardless of the clubs' market caps */
+export const DRAW_PROBABILITY = 0.25;
+
+/** Outcomes in display order */
+export const MATCH_OUTCOMES: MatchOutcome[] = ['home_win', 'draw', 'away_win'];
+
+/**
+ * Outcome probabilities for a fixture
+ *
+ * @param homeCap - Home market cap (any unit, only the ratio matters)
+ * @param awayCap - Away market cap
+ * @returns Probabilities summing to 1; evenly split wins when both caps are 0
+ */
+export const calculateOutcomeProbabilities = (homeCap: number, awayCap: number): OutcomeProbabilities => {
+  const totalCap = homeCap + awayCap;
+  const homeShare = totalCap > 0 ? homeCap / totalCap : 0.5;
+
+  return {
+    home_win: homeShare * (1 - DRAW_PROBABILITY),
+    draw: DRAW_PROBABILITY,
+    away_win: (1 - homeShare) * (1 - DRAW_PROBABILITY),
+  };
+};
+
+/**
+ * Pick an outcome from probabilities
+ *
+ * @param probabilities - Outcome probabilities
+ * @param random - Uniform number in [0, 1)
+ */
+export const sampleOutcome = (probabilities: OutcomeProbabilities, random: number): MatchOutcome => {
+  if (random < probabilities.home_win) return 'home_win';
+  if (random < probabilities.home_win + probabilities.away_win) return 'away_win';
+  return 'draw';
+};
@@ -0,0 +1,288 @@
+/**
+ * Notifications
+ *
+ * Alert evaluation and message building for the notification inbox.
+ * The process-notifications job loads the inputs, calls
+ * buildNotificationDrafts and stores the drafts; every draft carries a
+ * dedupe_key so re-running the job never notifies twice.
+ *
+ * Alert types (threshold units):
+ * - price_above / price_below: share price in cents. One-shot: the alert is
+ *   deactivated once it fires.
+ * - match_move: absolute % move of the share price caused by a single
+ *   applied match. Fires once per fixture.
+ * - buy_window_closing: minutes before the buy window closes. Fires once
+ *   per fixture, only while the user holds the club.
+ *
+ * Holders of a club also get a match_result notification for every applied
+ * fixture of that club, without setting up an alert.
+ */
+
+import { roundForDisplay, toDecimal } from './decimal';
+
+export type AlertType = 'price_above' | 'price_below' | 'match_move' | 'buy_window_closing';
+export type NotificationType = 'price_alert' | 'match_move' | 'buy_window' | 'match_result';
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  price_above: 'Price rises above',
+  price_below: 'Price falls below',
+  match_move: 'Moves after a match by',
+  buy_window_closing: 'Buy window closes within',
+};
+
+/** Longest buy-window lead time, in minutes (one day) */
+export const MAX_BUY_WINDOW_LEAD_MINUTES = 24 * 60;
+
+export interface PriceAlert {
+  id: number;
+  user_id: string;
+  team_id: number;
+  alert_type: AlertType;
+  threshold: number;
+  email_enabled: boolean;
+}
+
+/** Share price move caused by one applied fixture (from total_ledger) */
+export interface MatchPriceMove {
+  fixture_id: number;
+  team_id: number;
+  team_name: string;
+  opponent_name: string;
+  /** From the club's point of view */
+  outcome: 'win' | 'loss' | 'draw';
+  match_score: string | null;
+  share_price_before: number;
+  share_price_after: number;
+}
+
+/** Upcoming fixture whose buy window has not closed yet */
+export interface UpcomingBuyWindow {
+  fixture_id: number;
+  team_id: number;
+  team_name: string;
+  opponent_name: string;
+  buy_close_at: string;
+}
+
+export interface Holding {
+  user_id: string;
+  team_id: number;
+}
+
+export interface NotificationInputs {
+  alerts: PriceAlert[];
+  /** team_id -> name and current share price in cents */
+  teams: Map<number, { name: string; share_price_cents: number }>;
+  matchMoves: MatchPriceMove[];
+  buyWindows: UpcomingBuyWindow[];
+  holdings: Holding[];
+  now: Date;
+}
+
+export interface NotificationDraft {
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  team_id: number;
+  fixture_id: number | null;
+  alert_id: number | null;
+  dedupe_key: string;
+  send_email: boolean;
+}
+
+export interface NotificationDraftResult {
+  drafts: NotificationDraft[];
+  /** One-shot price alerts that fired and should be deactivated */
+  firedPriceAlertIds: number[];
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outbound email transport. Backed by SMTP in production; tests can point
+ * it at a local SMTP stub.
+ */
+export interface EmailChannel {
+  send(message: EmailMessage): Promise<void>;
+}
+
+const formatCents = (cents: number) => `$${roundForDisplay(toDecimal(cents).dividedBy(100)).toFixed(2)}`;
+
+const OUTCOME_VERBS: Record<MatchPriceMove['outcome'], string> = {
+  win: 'beat',
+  loss: 'lost to',
+  draw: 'drew with',
+};
+
+const formatMove = (percent: number) => `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+
+/**
+ * Percentage share price move, e.g. 5.25 for +5.25%
+ *
+ * @param before - Share price before (cents)
+ * @param after - Share price after (cents)
+ * @returns Move in percent, 0 when there is no starting price
+ */
+export const calculatePriceMovePercent = (before: number, after: number): number => {
+  const start = toDecimal(before);
+  if (start.lte(0)) return 0;
+  return roundForDisplay(toDecimal(after).minus(start).dividedBy(start).times(100));
+};
+
+/**
+ * Validate an alert threshold for its type
+ *
+ * @param type - Alert type
+ * @param threshold - Cents, percent or minutes depending on the type
+ * @returns Error message, or null when valid
+ */
+export const validateAlertThreshold = (type: AlertType, threshold: number): string | null => {
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    return 'Threshold must be greater than zero';
+  }
+  if ((type === 'price_above' || type === 'price_below') && !Number.isInteger(threshold)) {
+    return 'Price thresholds are whole cents';
+  }
+  if (type === 'match_move' && threshold > 100) {
+    return 'Match move threshold cannot exceed 100%';
+  }
+  if (type === 'buy_window_closing' && (!Number.isInteger(threshold) || threshold > MAX_BUY_WINDOW_LEAD_MINUTES)) {
+    return `Lead time must be whole minutes, at most ${MAX_BUY_WINDOW_LEAD_MINUTES}`;
+  }
+  return null;
+};
+
+/**
+ * Whether a price alert is crossed at the current share price
+ *
+ * @param alert - price_above or price_below alert
+ * @param sharePriceCents - Current share price in cents
+ */
+export const isPriceAlertTriggered = (alert: PriceAlert, sharePriceCents: number): boolean => {
+  if (alert.alert_type === 'price_above') return sharePriceCents >= alert.threshold;
+  if (alert.alert_type === 'price_below') return sharePriceCents <= alert.threshold;
+  return false;
+};
+
+/**
+ * Build notifications for crossed alerts and held clubs' results
+ *
+ * @param inputs - Active alerts, prices, recent match moves, open buy windows and holdings
+ * @returns Drafts to store plus the one-shot alerts to deactivate
+ */
+export const buildNotificationDrafts = (inputs: NotificationInputs): NotificationDraftResult => {
+  const { alerts, teams, matchMoves, buyWindows, holdings, now } = inputs;
+  const drafts: NotificationDraft[] = [];
+  const firedPriceAlertIds: number[] = [];
+
+  const holds = new Set(holdings.map(h => `${h.user_id}:${h.team_id}`));
+
+  for (const alert of alerts) {
+    const team = teams.get(alert.team_id);
+    const teamName = team?.name ?? `Club #${alert.team_id}`;
+
+    if (alert.alert_type === 'price_above' || alert.alert_type === 'price_below') {
+      if (!team || !isPriceAlertTriggered(alert, team.share_price_cents)) continue;
+      firedPriceAlertIds.push(alert.id);
+      drafts.push({
+        user_id: alert.user_id,
+        type: 'price_alert',
+        title: `${teamName} ${alert.alert_type === 'price_above' ? 'above' : 'below'} ${formatCents(alert.threshold)}`,
+        body: `${teamName} shares are now ${formatCents(team.share_price_cents)} (your alert: ${ALERT_TYPE_LABELS[alert.alert_type].toLowerCase()} ${formatCents(alert.threshold)}).`,
+        team_id: alert.team_id,
+        fixture_id: null,
+        alert_id: alert.id,
+        dedupe_key: `price_alert:${alert.id}`,
+        send_email: alert.email_enabled
+      });
+      continue;
+    }
+
+    if (alert.alert_type === 'match_move') {
+      for (const move of matchMoves) {
+        if (move.team_id !== alert.team_id) continue;
+        const percent = calculatePriceMovePercent(move.share_price_before, move.share_price_after);
+        if (Math.abs(percent) < alert.threshold) continue;
+        drafts.push({
+          user_id: alert.user_id,
+          type: 'match_move',
+          title: `${move.team_name} ${formatMove(percent)} after ${move.opponent_name}`,
+          body: `${move.team_name} ${move.match_score ? `${move.match_score} ` : ''}vs ${move.opponent_name}: share price ${formatCents(move.share_price_before)} → ${formatCents(move.share_price_after)} (${formatMove(percent)}).`,
+          team_id: alert.team_id,
+          fixture_id: move.fixture_id,
+          alert_id: alert.id,
+          dedupe_key: `match_move:${alert.id}:${move.fixture_id}`,
+          send_email: alert.email_enabled
+        });
+      }
+      continue;
+    }
+
+    // buy_window_closing: only relevant while the club is held
+    if (!holds.has(`${alert.user_id}:${alert.team_id}`)) continue;
+    for (const window of buyWindows) {
+      if (window.team_id !== alert.team_id) continue;
+      const minutesLeft = (new Date(window.buy_close_at).getTime() - now.getTime()) / 60000;
+      if (minutesLeft <= 0 || minutesLeft > alert.threshold) continue;
+      drafts.push({
+        user_id: alert.user_id,
+        type: 'buy_window',
+        title: `${window.team_name} trading closes in ${Math.ceil(minutesLeft)} min`,
+        body: `Trading in ${window.team_name} closes before the match against ${window.opponent_name}. Adjust your position before ${new Date(window.buy_close_at).toUTCString()}.`,
+        team_id: alert.team_id,
+        fixture_id: window.fixture_id,
+        alert_id: alert.id,
+        dedupe_key: `buy_window:${alert.id}:${window.fixture_id}`,
+        send_email: alert.email_enabled
+      });
+    }
+  }
+
+  // Result of every applied match for clubs the user holds
+  for (const move of matchMoves) {
+    const percent = calculatePriceMovePercent(move.share_price_before, move.share_price_after);
+    for (const holding of holdings) {
+      if (holding.team_id !== move.team_id) continue;
+      drafts.push({
+        user_id: holding.user_id,
+        type: 'match_result',
+        title: `${move.team_name} vs ${move.opponent_name}${move.match_score ? ` ${move.match_score}` : ''}`,
+        body: `${move.team_name} ${OUTCOME_VERBS[move.outcome]} ${move.opponent_name}. Share price ${formatCents(move.share_price_before)} → ${formatCents(move.share_price_after)} (${formatMove(percent)}).`,
+        team_id: move.team_id,
+        fixture_id: move.fixture_id,
+        alert_id: null,
+        dedupe_key: `match_result:${move.team_id}:${move.fixture_id}`,
+        send_email: false
+      });
+    }
+  }
+
+  return { drafts, firedPriceAlertIds };
+};
+
+/**
+ * Email for a stored notification
+ *
+ * @param to - Recipient address
+ * @param notification - Title and body of the notification
+ * @param appUrl - Link back to the app, if known
+ */
+export const buildNotificationEmail = (
+  to: string,
+  notification: { title: string; body: string },
+  appUrl?: string
+): EmailMessage => ({
+  to,
+  subject: notification.title,
+  text: [
+    notification.body,
+    '',
+    appUrl ? `Open the app: ${appUrl}` : null,
+    'You receive this email because you enabled email delivery on this alert.'
+  ].filter(line => line !== null).join('\n')
+});
@@ -0,0 +1,206 @@
+/**
+ * Peer-to-Peer Order Book
+ *
+ * Users post bids and asks for club shares at their own prices, next to
+ * (not instead of) platform trading at NAV. Prices are cents per share,
+ * matching how the database stores money.
+ *
+ * Matching rule (mirrors match_p2p_orders in SQL):
+ * - price-time priority: highest bid and lowest ask first, older orders
+ *   first at the same price
+ * - a bid and an ask cross when bid price >= ask price
+ * - the trade executes at the price of the order that was resting first
+ *   (the maker), so neither side ever trades worse than their own price
+ * - orders from the same user never trade with each other; the best
+ *   crossing pair from different users is used instead
+ * - partial fills leave the remainder resting
+ *
+ * Trades move shares and cash between two users only; market cap, NAV and
+ * platform inventory are unchanged.
+ */
+
+import { Decimal, toCents, toDecimal, roundForDisplay } from './decimal';
+
+export type OrderBookSide = 'BID' | 'ASK';
+
+export type P2POrderStatus = 'OPEN' | 'FILLED' | 'CANCELLED' | 'EXPIRED';
+
+export interface OrderBookOrder {
+  id: number;
+  userId: string;
+  side: OrderBookSide;
+  priceCents: number;
+  /** Unfilled quantity */
+  quantity: number;
+  createdAt: string;
+}
+
+export interface OrderBookFill {
+  bidOrderId: number;
+  askOrderId: number;
+  buyerId: string;
+  sellerId: string;
+  priceCents: number;
+  quantity: number;
+}
+
+export interface OrderBookLevel {
+  priceCents: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface DepthLevel extends OrderBookLevel {
+  /** Quantity at this price and all better prices */
+  cumulativeQuantity: number;
+}
+
+export interface P2POrderInput {
+  side: OrderBookSide;
+  quantity: number;
+  /** Dollars per share */
+  price: number;
+  /** Cash available in the wallet (dollars), required for bid validation */
+  walletBalance?: number;
+  /** Shares not already committed to other orders, required for ask validation */
+  availableQuantity?: number;
+}
+
+const byTime = (a: OrderBookOrder, b: OrderBookOrder) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id;
+
+/** Bids best first: highest price, then oldest */
+const bidPriority = (a: OrderBookOrder, b: OrderBookOrder) => b.priceCents - a.priceCents || byTime(a, b);
+
+/** Asks best first: lowest price, then oldest */
+const askPriority = (a: OrderBookOrder, b: OrderBookOrder) => a.priceCents - b.priceCents || byTime(a, b);
+
+// Best crossing bid/ask pair from different users, or null
+const findCrossingPair = (bids: OrderBookOrder[], asks: OrderBookOrder[]): [OrderBookOrder, OrderBookOrder] | null => {
+  for (const bid of bids) {
+    for (const ask of asks) {
+      if (ask.priceCents > bid.priceCents) break;
+      if (ask.userId !== bid.userId) return [bid, ask];
+    }
+  }
+  return null;
+};
+
+/**
+ * Cross a set of open orders for one club
+ *
+ * @param orders - Open bids and asks
+ * @returns Fills in execution order and the orders still resting (with remaining quantity)
+ */
+export const matchOrderBook = (orders: OrderBookOrder[]): { fills: OrderBookFill[]; resting: OrderBookOrder[] } => {
+  const bids = orders.filter(o => o.side === 'BID' && o.quantity > 0).map(o => ({ ...o })).sort(bidPriority);
+  const asks = orders.filter(o => o.side === 'ASK' && o.quantity > 0).map(o => ({ ...o })).sort(askPriority);
+  const fills: OrderBookFill[] = [];
+
+  let pair = findCrossingPair(bids, asks);
+  while (pair) {
+    const [bid, ask] = pair;
+    const quantity = Math.min(bid.quantity, ask.quantity);
+    const maker = byTime(bid, ask) <= 0 ? bid : ask;
+
+    fills.push({
+      bidOrderId: bid.id,
+      askOrderId: ask.id,
+      buyerId: bid.userId,
+      sellerId: ask.userId,
+      priceCents: maker.priceCents,
+      quantity,
+    });
+
+    bid.quantity -= quantity;
+    ask.quantity -= quantity;
+    if (bid.quantity === 0) bids.splice(bids.indexOf(bid), 1);
+    if (ask.quantity === 0) asks.splice(asks.indexOf(ask), 1);
+
+    pair = findCrossingPair(bids, asks);
+  }
+
+  return { fills, resting: [...bids, ...asks] };
+};
+
+/**
+ * Aggregate open orders into price levels, best price first
+ */
+export const aggregateLevels = (orders: OrderBookOrder[], side: OrderBookSide): OrderBookLevel[] => {
+  const levels = new Map<number, OrderBookLevel>();
+  for (const order of orders) {
+    if (order.side !== side || order.quantity <= 0) continue;
+    const level = levels.get(order.priceCents) ?? { priceCents: order.priceCents, quantity: 0, orders: 0 };
+    level.quantity += order.quantity;
+    level.orders += 1;
+    levels.set(order.priceCents, level);
+  }
+  return [...levels.values()].sort((a, b) => (side === 'BID' ? b.priceCents - a.priceCents : a.priceCents - b.priceCents));
+};
+
+/**
+ * Add cumulative quantity to levels already sorted best price first
+ */
+export const buildDepth = (levels: OrderBookLevel[]): DepthLevel[] => {
+  let cumulative = 0;
+  return levels.map(level => {
+    cumulative += level.quantity;
+    return { ...level, cumulativeQuantity: cumulative };
+  });
+};
+
+/**
+ * Spread and mid price between the best bid and best ask
+ *
+ * @returns null when either side of the book is empty
+ */
+export const calculateSpread = (
+  bestBidCents: number | null | undefined,
+  bestAskCents: number | null | undefined
+): { spreadCents: number; midCents: number } | null => {
+  if (!bestBidCents || !bestAskCents) return null;
+  return {
+    spreadCents: bestAskCents - bestBidCents,
+    midCents: Math.round((bestBidCents + bestAskCents) / 2),
+  };
+};
+
+/**
+ * Premium (+) or discount (-) of a P2P price against NAV, in percent
+ */
+export const calculatePremiumToNavPercent = (
+  priceCents: number,
+  navPrice: number | string | Decimal
+): number => {
+  const navCents = toDecimal(navPrice).times(100);
+  if (navCents.lte(0)) return 0;
+  return roundForDisplay(toDecimal(priceCents).minus(navCents).dividedBy(navCents).times(100));
+};
+
+/**
+ * Validate a P2P order before sending it to the database
+ */
+export const validateP2POrderInput = (input: P2POrderInput): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    errors.push('Number of shares must be a whole number greater than 0');
+  }
+
+  if (!(input.price > 0)) {
+    errors.push('Price must be greater than 0');
+  }
+
+  if (input.side === 'BID' && input.walletBalance !== undefined && input.price > 0 && input.quantity > 0) {
+    const requiredCents = toCents(toDecimal(input.price)) * input.quantity;
+    if (toCents(toDecimal(input.walletBalance)) < requiredCents) {
+      errors.push('Insufficient wallet balance to reserve this bid');
+    }
+  }
+
+  if (input.side === 'ASK' && input.availableQuantity !== undefined && input.quantity > input.availableQuantity) {
+    errors.push(`You only have ${input.availableQuantity} shares available to sell`);
+  }
+
+  return { valid: errors.length === 0, errors };
+};
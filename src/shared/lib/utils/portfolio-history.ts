@@ -0,0 +1,374 @@
+/**
+ * Portfolio History Calculations
+ *
+ * Rebuilds a user's account value over time from their filled orders, wallet
+ * transactions and team price history, and computes performance metrics on
+ * the resulting equity curve.
+ *
+ * Shared by the portfolio page (via portfolioHistoryService) and the weekly
+ * leaderboard job, so both value a portfolio at a point in time the same way.
+ *
+ * Conventions:
+ * - Inputs are BIGINT cents, as stored; outputs are dollars (full precision)
+ * - External cash flows are deposits (and withdrawals, negative); trades only
+ *   move value between wallet and portfolio and are not flows
+ * - Period returns treat flows as arriving at the start of the period, the
+ *   same convention as calculateWeeklyReturn in leaderboard-calculations
+ */
+
+import { Decimal, toDecimal, fromCents } from './decimal';
+import { WALLET_TRANSACTION_EFFECTS } from './wallet-transactions';
+
+export interface HistoryOrder {
+  teamId: number;
+  orderType: 'BUY' | 'SELL';
+  quantity: number;
+  /** executed_at, falling back to created_at */
+  executedAt: string;
+}
+
+/** A p2p_trades row; settlement writes no orders row for either side */
+export interface HistoryP2PTrade {
+  team_id: number;
+  buyer_id: string;
+  seller_id: string;
+  quantity: number;
+  executed_at: string;
+}
+
+export interface HistoryWalletTransaction {
+  type: string;
+  amountCents: number;
+  createdAt: string;
+}
+
+export interface TeamPricePoint {
+  teamId: number;
+  effectiveAt: string;
+  sharePriceCents: number;
+}
+
+export interface PortfolioHistoryInput {
+  orders: HistoryOrder[];
+  transactions: HistoryWalletTransaction[];
+  prices: TeamPricePoint[];
+  /** Price used before a team has any price history (cents), usually teams.launch_price */
+  fallbackPriceCents?: Map<number, number>;
+}
+
+export interface EquityPoint {
+  date: string;
+  walletValue: number;
+  portfolioValue: number;
+  accountValue: number;
+  /** External flows since the previous point (deposits minus withdrawals) */
+  netFlow: number;
+}
+
+export interface PortfolioPerformanceMetrics {
+  /** Time-weighted return over the whole curve (fraction) */
+  timeWeightedReturn: number;
+  /** Money-weighted return (annualised IRR, fraction); null when it can't be solved */
+  moneyWeightedReturn: number | null;
+  /** Largest peak-to-trough fall of the time-weighted index (fraction, positive) */
+  maxDrawdown: number;
+  /** Sample standard deviation of period returns (fraction) */
+  volatility: number;
+}
+
+/** Wallet transaction types that are external cash flows (sign: deposits +) */
+export const EXTERNAL_FLOW_TYPES: Record<string, 1 | -1> = {
+  deposit: 1,
+  withdrawal: -1,
+  // Refund of a rejected or failed withdrawal
+  withdrawal_reversal: 1,
+};
+
+const DEFAULT_LAUNCH_PRICE_CENTS = 2000;
+
+const isBefore = (time: string, timestamp: string, inclusive: boolean) => {
+  const diff = new Date(time).getTime() - new Date(timestamp).getTime();
+  return inclusive ? diff <= 0 : diff < 0;
+};
+
+/**
+ * Reconstruct the wallet balance at a point in time
+ *
+ * Each transaction moves the wallet as WALLET_TRANSACTION_EFFECTS says,
+ * the same movements the account statement reports.
+ *
+ * @param transactions - The user's wallet transactions
+ * @param timestamp - Point in time (ISO string)
+ * @param inclusive - Include transactions exactly at timestamp (default: true)
+ * @returns Wallet balance in dollars
+ */
+export const calculateWalletBalanceAt = (
+  transactions: HistoryWalletTransaction[],
+  timestamp: string,
+  inclusive: boolean = true
+): number => {
+  let balance = new Decimal(0);
+  for (const tx of transactions) {
+    if (!isBefore(tx.createdAt, timestamp, inclusive)) continue;
+    const effect = WALLET_TRANSACTION_EFFECTS[tx.type];
+    if (effect) {
+      balance = balance.plus(fromCents(tx.amountCents).times(effect.sign));
+    }
+  }
+  return balance.toNumber();
+};
+
+/**
+ * The user's side of each P2P trade as a history order
+ */
+export const p2pTradesToHistoryOrders = (trades: HistoryP2PTrade[], userId: string): HistoryOrder[] =>
+  trades
+    .filter(trade => trade.buyer_id === userId || trade.seller_id === userId)
+    .map(trade => ({
+      teamId: trade.team_id,
+      orderType: trade.buyer_id === userId ? 'BUY' : 'SELL',
+      quantity: trade.quantity,
+      executedAt: trade.executed_at
+    }));
+
+/**
+ * Reconstruct holdings per team at a point in time from filled orders
+ */
+export const calculateHoldingsAt = (orders: HistoryOrder[], timestamp: string): Map<number, number> => {
+  const holdings = new Map<number, number>();
+  for (const order of orders) {
+    if (!isBefore(order.executedAt, timestamp, true)) continue;
+    const current = holdings.get(order.teamId) ?? 0;
+    holdings.set(order.teamId, order.orderType === 'BUY' ? current + order.quantity : current - order.quantity);
+  }
+  return holdings;
+};
+
+/**
+ * Latest known share price for a team at a point in time
+ *
+ * @returns Price in cents, or the fallback (launch price) when there is no history yet
+ */
+export const getSharePriceAt = (
+  prices: TeamPricePoint[],
+  teamId: number,
+  timestamp: string,
+  fallbackPriceCents: number = DEFAULT_LAUNCH_PRICE_CENTS
+): number => {
+  let latest: TeamPricePoint | null = null;
+  for (const point of prices) {
+    if (point.teamId !== teamId || !isBefore(point.effectiveAt, timestamp, true)) continue;
+    if (!latest || new Date(point.effectiveAt).getTime() >= new Date(latest.effectiveAt).getTime()) {
+      latest = point;
+    }
+  }
+  return latest ? latest.sharePriceCents : fallbackPriceCents;
+};
+
+/**
+ * Value a portfolio at a point in time
+ *
+ * @param orders - The user's filled orders
+ * @param prices - Team price history (cents)
+ * @param timestamp - Point in time (ISO string)
+ * @param fallbackPriceCents - Per-team price before any history (cents)
+ * @returns Portfolio value in dollars (full precision)
+ */
+export const calculatePortfolioValueAt = (
+  orders: HistoryOrder[],
+  prices: TeamPricePoint[],
+  timestamp: string,
+  fallbackPriceCents?: Map<number, number>
+): number => {
+  let value = new Decimal(0);
+  for (const [teamId, quantity] of calculateHoldingsAt(orders, timestamp)) {
+    if (quantity <= 0) continue;
+    const price = getSharePriceAt(prices, teamId, timestamp, fallbackPriceCents?.get(teamId));
+    value = value.plus(fromCents(price).times(quantity));
+  }
+  return value.toNumber();
+};
+
+/**
+ * Net external flows in (after, upTo]
+ */
+export const calculateNetFlowBetween = (
+  transactions: HistoryWalletTransaction[],
+  after: string | null,
+  upTo: string
+): number => {
+  let flow = new Decimal(0);
+  for (const tx of transactions) {
+    const sign = EXTERNAL_FLOW_TYPES[tx.type];
+    if (!sign || !isBefore(tx.createdAt, upTo, true)) continue;
+    if (after && isBefore(tx.createdAt, after, true)) continue;
+    flow = flow.plus(fromCents(tx.amountCents).times(sign));
+  }
+  return flow.toNumber();
+};
+
+/**
+ * Build an equity curve at the given checkpoints
+ *
+ * @param input - Orders, wallet transactions and price history
+ * @param checkpoints - Points in time (ISO strings), any order
+ * @returns One point per checkpoint, oldest first
+ */
+export const buildEquityCurve = (input: PortfolioHistoryInput, checkpoints: string[]): EquityPoint[] => {
+  const sorted = [...checkpoints].sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  let previous: string | null = null;
+
+  return sorted.map(date => {
+    const walletValue = calculateWalletBalanceAt(input.transactions, date);
+    const portfolioValue = calculatePortfolioValueAt(input.orders, input.prices, date, input.fallbackPriceCents);
+    const netFlow = calculateNetFlowBetween(input.transactions, previous, date);
+    previous = date;
+    return {
+      date,
+      walletValue,
+      portfolioValue,
+      accountValue: toDecimal(walletValue).plus(portfolioValue).toNumber(),
+      netFlow,
+    };
+  });
+};
+
+/**
+ * End-of-day checkpoints (UTC) from start to end inclusive
+ */
+export const buildDailyCheckpoints = (start: string, end: string): string[] => {
+  const checkpoints: string[] = [];
+  const day = new Date(start);
+  day.setUTCHours(23, 59, 59, 999);
+  const last = new Date(end).getTime();
+  while (day.getTime() < last) {
+    checkpoints.push(day.toISOString());
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  checkpoints.push(new Date(end).toISOString());
+  return checkpoints;
+};
+
+/**
+ * One checkpoint per matchday, at its last kickoff (match results are dated at kickoff)
+ */
+export const buildMatchdayCheckpoints = (fixtures: { matchday?: number | null; kickoff_at: string }[]): string[] => {
+  const lastKickoff = new Map<number, string>();
+  for (const fixture of fixtures) {
+    if (fixture.matchday == null) continue;
+    const current = lastKickoff.get(fixture.matchday);
+    if (!current || new Date(fixture.kickoff_at).getTime() > new Date(current).getTime()) {
+      lastKickoff.set(fixture.matchday, fixture.kickoff_at);
+    }
+  }
+  return [...lastKickoff.entries()].sort(([a], [b]) => a - b).map(([, kickoff]) => kickoff);
+};
+
+/**
+ * Return for each period between consecutive points
+ * Periods with no capital at risk are skipped.
+ */
+export const calculatePeriodReturns = (curve: EquityPoint[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const start = toDecimal(curve[i - 1].accountValue).plus(curve[i].netFlow);
+    if (start.lte(0.01)) continue;
+    const gain = toDecimal(curve[i].accountValue).minus(curve[i - 1].accountValue).minus(curve[i].netFlow);
+    returns.push(gain.dividedBy(start).toNumber());
+  }
+  return returns;
+};
+
+/**
+ * Time-weighted return: chain-linked period returns, unaffected by the size
+ * and timing of deposits
+ */
+export const calculateTimeWeightedReturn = (curve: EquityPoint[]): number =>
+  calculatePeriodReturns(curve)
+    .reduce((growth, r) => growth.times(toDecimal(1).plus(r)), new Decimal(1))
+    .minus(1)
+    .toNumber();
+
+/**
+ * Money-weighted return: the annualised rate that discounts all flows and the
+ * final value back to zero (XIRR). The first point's value is treated as the
+ * opening investment.
+ *
+ * @returns Annualised rate (fraction), or null if there is nothing to solve
+ */
+export const calculateMoneyWeightedReturn = (curve: EquityPoint[]): number | null => {
+  if (curve.length < 2) return null;
+
+  const t0 = new Date(curve[0].date).getTime();
+  const years = (date: string) => (new Date(date).getTime() - t0) / (365 * 24 * 60 * 60 * 1000);
+
+  // Investor perspective: money in is negative, value out is positive
+  const flows: { t: number; amount: number }[] = [{ t: 0, amount: -(curve[0].accountValue + curve[0].netFlow) }];
+  for (let i = 1; i < curve.length; i++) {
+    if (curve[i].netFlow !== 0) flows.push({ t: years(curve[i].date), amount: -curve[i].netFlow });
+  }
+  const last = curve[curve.length - 1];
+  flows.push({ t: years(last.date), amount: last.accountValue });
+
+  const hasOutflow = flows.some(f => f.amount < 0);
+  const hasInflow = flows.some(f => f.amount > 0);
+  if (!hasOutflow || !hasInflow || years(last.date) <= 0) return null;
+
+  const npv = (rate: number) => flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.t), 0);
+
+  // Bisection: NPV is monotonic in rate for a conventional investment
+  let low = -0.9999;
+  let high = 1000;
+  let npvLow = npv(low);
+  if (npvLow * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-9) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Largest peak-to-trough fall of the time-weighted growth index
+ */
+export const calculateMaxDrawdown = (curve: EquityPoint[]): number => {
+  let index = new Decimal(1);
+  let peak = new Decimal(1);
+  let maxDrawdown = new Decimal(0);
+  for (const r of calculatePeriodReturns(curve)) {
+    index = index.times(toDecimal(1).plus(r));
+    peak = Decimal.max(peak, index);
+    maxDrawdown = Decimal.max(maxDrawdown, peak.minus(index).dividedBy(peak));
+  }
+  return maxDrawdown.toNumber();
+};
+
+/**
+ * Sample standard deviation of period returns
+ */
+export const calculateVolatility = (curve: EquityPoint[]): number => {
+  const returns = calculatePeriodReturns(curve);
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((sum, r) => sum.plus(r), new Decimal(0)).dividedBy(returns.length);
+  const variance = returns
+    .reduce((sum, r) => sum.plus(toDecimal(r).minus(mean).pow(2)), new Decimal(0))
+    .dividedBy(returns.length - 1);
+  return variance.sqrt().toNumber();
+};
+
+/**
+ * All performance metrics for an equity curve
+ */
+export const calculatePerformanceMetrics = (curve: EquityPoint[]): PortfolioPerformanceMetrics => ({
+  timeWeightedReturn: calculateTimeWeightedReturn(curve),
+  moneyWeightedReturn: calculateMoneyWeightedReturn(curve),
+  maxDrawdown: calculateMaxDrawdown(curve),
+  volatility: calculateVolatility(curve),
+});
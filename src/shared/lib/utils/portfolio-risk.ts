@@ -0,0 +1,209 @@
+/**
+ * Portfolio Risk
+ *
+ * Exposure of a portfolio to upcoming fixtures. For every fixture involving
+ * a held club, each outcome (home win, draw, away win) is priced with the
+ * active transfer rule set and weighted by the market-cap probability model
+ * (see match-outcomes). Fixtures are then grouped by matchday into best,
+ * worst and expected P&L.
+ *
+ * Holding both clubs of a fixture is flagged as offsetting: whatever one
+ * club gains the other loses, so the net exposure is smaller than the gross
+ * exposure of the two positions.
+ *
+ * Scenarios use current market caps and a one-goal margin; matchdays are
+ * treated independently (results of one matchday do not feed the next).
+ */
+
+import { calculateMatchTransfer, type CompetitionType, type MatchOutcome, type TransferRuleSet } from './transfer-rules';
+import { calculateOutcomeProbabilities, MATCH_OUTCOMES, type OutcomeProbabilities } from './match-outcomes';
+import { Decimal, roundForDisplay, toDecimal } from './decimal';
+
+export interface RiskHolding {
+  teamId: number;
+  units: number;
+}
+
+export interface RiskTeam {
+  id: number;
+  name: string;
+  /** Market cap in cents */
+  market_cap: number;
+  total_shares?: number | null;
+}
+
+export interface RiskFixture {
+  id: number;
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  matchday?: number | null;
+  season?: number | null;
+  competition_type?: CompetitionType | null;
+}
+
+export interface FixtureScenario {
+  fixtureId: number;
+  kickoffAt: string;
+  homeTeam: RiskTeam;
+  awayTeam: RiskTeam;
+  homeUnits: number;
+  awayUnits: number;
+  probabilities: OutcomeProbabilities;
+  /** Portfolio P&L in dollars per outcome */
+  pnl: Record<MatchOutcome, number>;
+  expectedPnl: number;
+  bestPnl: number;
+  worstPnl: number;
+  /** Both clubs are held, so the positions partly cancel out */
+  offsetting: boolean;
+  /** Largest move of the two positions taken separately */
+  grossExposure: number;
+  /** Largest move of the combined position */
+  netExposure: number;
+}
+
+export interface MatchdayRisk {
+  key: string;
+  label: string;
+  firstKickoff: string;
+  scenarios: FixtureScenario[];
+  bestPnl: number;
+  worstPnl: number;
+  expectedPnl: number;
+  offsettingFixtures: number;
+}
+
+/** Fixed shares per club when the team row doesn't say */
+const DEFAULT_TOTAL_SHARES = 1000;
+
+/** Scores used to price each outcome */
+const SCENARIO_SCORES: Record<MatchOutcome, { home: number; away: number }> = {
+  home_win: { home: 1, away: 0 },
+  draw: { home: 1, away: 1 },
+  away_win: { home: 0, away: 1 },
+};
+
+// Dollar value change of `units` shares when a club's cap moves by `deltaCents`
+const positionPnl = (units: number, deltaCents: number, team: RiskTeam): Decimal =>
+  toDecimal(deltaCents).times(units).dividedBy(team.total_shares || DEFAULT_TOTAL_SHARES).dividedBy(100);
+
+/**
+ * Scenario table for one fixture
+ *
+ * @returns null when neither club is held
+ */
+export const buildFixtureScenario = (
+  fixture: RiskFixture,
+  holdings: Map<number, number>,
+  teams: Map<number, RiskTeam>,
+  ruleSet: TransferRuleSet
+): FixtureScenario | null => {
+  const homeUnits = holdings.get(fixture.home_team_id) ?? 0;
+  const awayUnits = holdings.get(fixture.away_team_id) ?? 0;
+  const homeTeam = teams.get(fixture.home_team_id);
+  const awayTeam = teams.get(fixture.away_team_id);
+  if ((homeUnits <= 0 && awayUnits <= 0) || !homeTeam || !awayTeam) return null;
+
+  const probabilities = calculateOutcomeProbabilities(homeTeam.market_cap, awayTeam.market_cap);
+  const pnl = {} as Record<MatchOutcome, number>;
+  let expected = new Decimal(0);
+  let gross = new Decimal(0);
+  let net = new Decimal(0);
+
+  for (const outcome of MATCH_OUTCOMES) {
+    const transfer = calculateMatchTransfer({
+      homeCapCents: homeTeam.market_cap,
+      awayCapCents: awayTeam.market_cap,
+      homeScore: SCENARIO_SCORES[outcome].home,
+      awayScore: SCENARIO_SCORES[outcome].away,
+      result: outcome,
+      competitionType: fixture.competition_type ?? 'league',
+    }, ruleSet);
+
+    const homePnl = positionPnl(homeUnits, transfer.homeCapAfterCents - homeTeam.market_cap, homeTeam);
+    const awayPnl = positionPnl(awayUnits, transfer.awayCapAfterCents - awayTeam.market_cap, awayTeam);
+    const total = homePnl.plus(awayPnl);
+
+    pnl[outcome] = roundForDisplay(total);
+    expected = expected.plus(total.times(probabilities[outcome]));
+    gross = Decimal.max(gross, homePnl.abs().plus(awayPnl.abs()));
+    net = Decimal.max(net, total.abs());
+  }
+
+  const values = MATCH_OUTCOMES.map(outcome => pnl[outcome]);
+  return {
+    fixtureId: fixture.id,
+    kickoffAt: fixture.kickoff_at,
+    homeTeam,
+    awayTeam,
+    homeUnits,
+    awayUnits,
+    probabilities,
+    pnl,
+    expectedPnl: roundForDisplay(expected),
+    bestPnl: Math.max(...values),
+    worstPnl: Math.min(...values),
+    offsetting: homeUnits > 0 && awayUnits > 0,
+    grossExposure: roundForDisplay(gross),
+    netExposure: roundForDisplay(net),
+  };
+};
+
+/**
+ * Exposure per matchday for every upcoming fixture involving a held club
+ *
+ * @param holdings - Held clubs and units
+ * @param fixtures - Upcoming fixtures
+ * @param teams - Teams by id with current market caps
+ * @param ruleSet - Transfer rule set used to price outcomes
+ * @returns Matchdays in kickoff order
+ */
+export const buildPortfolioRisk = (
+  holdings: RiskHolding[],
+  fixtures: RiskFixture[],
+  teams: Map<number, RiskTeam>,
+  ruleSet: TransferRuleSet
+): MatchdayRisk[] => {
+  const units = new Map<number, number>();
+  for (const holding of holdings) {
+    units.set(holding.teamId, (units.get(holding.teamId) ?? 0) + holding.units);
+  }
+
+  const matchdays = new Map<string, MatchdayRisk>();
+  const sorted = [...fixtures].sort((a, b) => new Date(a.kickoff_at).getTime() - new Date(b.kickoff_at).getTime());
+
+  for (const fixture of sorted) {
+    const scenario = buildFixtureScenario(fixture, units, teams, ruleSet);
+    if (!scenario) continue;
+
+    const competition = fixture.competition_type ?? 'league';
+    const key = fixture.matchday != null
+      ? `${competition}:${fixture.season ?? ''}:${fixture.matchday}`
+      : `${competition}:${fixture.kickoff_at.slice(0, 10)}`;
+    const label = fixture.matchday != null
+      ? `${competition === 'cup' ? 'Cup round' : 'Matchday'} ${fixture.matchday}`
+      : new Date(fixture.kickoff_at).toLocaleDateString();
+
+    const matchday = matchdays.get(key) ?? {
+      key,
+      label,
+      firstKickoff: fixture.kickoff_at,
+      scenarios: [],
+      bestPnl: 0,
+      worstPnl: 0,
+      expectedPnl: 0,
+      offsettingFixtures: 0,
+    };
+    matchday.scenarios.push(scenario);
+    matchdays.set(key, matchday);
+  }
+
+  return [...matchdays.values()].map(matchday => ({
+    ...matchday,
+    bestPnl: roundForDisplay(matchday.scenarios.reduce((sum, s) => sum.plus(s.bestPnl), new Decimal(0))),
+    worstPnl: roundForDisplay(matchday.scenarios.reduce((sum, s) => sum.plus(s.worstPnl), new Decimal(0))),
+    expectedPnl: roundForDisplay(matchday.scenarios.reduce((sum, s) => sum.plus(s.expectedPnl), new Decimal(0))),
+    offsettingFixtures: matchday.scenarios.filter(s => s.offsetting).length,
+  }));
+};
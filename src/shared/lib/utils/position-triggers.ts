@@ -0,0 +1,108 @@
+/**
+ * Position Trigger Utilities
+ *
+ * Pure helpers for stop-loss / take-profit triggers on positions. Prices are
+ * dollars per share (NAV), matching calculateSharePrice(). The evaluation
+ * rule mirrors evaluate_position_triggers in SQL:
+ * - Stop-loss fires when NAV <= stop-loss price
+ * - Take-profit fires when NAV >= take-profit price
+ * - If both are crossed, stop-loss wins
+ */
+
+import { Decimal, toDecimal, roundForDisplay } from './decimal';
+
+export type PositionTriggerType = 'stop_loss' | 'take_profit';
+
+export type PositionTriggerEventStatus = 'queued' | 'executed' | 'failed' | 'cancelled';
+
+export interface PositionTriggerPrices {
+  stopLossPrice?: number | null;
+  takeProfitPrice?: number | null;
+}
+
+/**
+ * Determine which trigger (if any) fires at the given NAV
+ *
+ * @param triggers - Armed stop-loss / take-profit prices (dollars)
+ * @param currentPrice - Current NAV per share (dollars)
+ * @returns The trigger type that fires, or null
+ */
+export const evaluatePositionTrigger = (
+  triggers: PositionTriggerPrices,
+  currentPrice: number | string | Decimal
+): PositionTriggerType | null => {
+  const nav = roundForDisplay(toDecimal(currentPrice));
+  if (nav <= 0) {
+    return null;
+  }
+
+  if (triggers.stopLossPrice != null && triggers.stopLossPrice > 0 && nav <= roundForDisplay(triggers.stopLossPrice)) {
+    return 'stop_loss';
+  }
+
+  if (triggers.takeProfitPrice != null && triggers.takeProfitPrice > 0 && nav >= roundForDisplay(triggers.takeProfitPrice)) {
+    return 'take_profit';
+  }
+
+  return null;
+};
+
+/**
+ * Validate stop-loss / take-profit prices against the current NAV
+ * Stop-loss must sit below the current price and take-profit above it,
+ * otherwise the trigger would fire immediately on the next evaluation.
+ *
+ * @param triggers - Proposed prices (dollars), null/undefined to leave unset
+ * @param currentPrice - Current NAV per share (dollars)
+ * @returns Validation result with error messages
+ */
+export const validatePositionTriggers = (
+  triggers: PositionTriggerPrices,
+  currentPrice: number
+): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const { stopLossPrice, takeProfitPrice } = triggers;
+
+  if (stopLossPrice != null) {
+    if (!(stopLossPrice > 0)) {
+      errors.push('Stop-loss price must be greater than 0');
+    } else if (currentPrice > 0 && stopLossPrice >= currentPrice) {
+      errors.push('Stop-loss price must be below the current price');
+    }
+  }
+
+  if (takeProfitPrice != null) {
+    if (!(takeProfitPrice > 0)) {
+      errors.push('Take-profit price must be greater than 0');
+    } else if (currentPrice > 0 && takeProfitPrice <= currentPrice) {
+      errors.push('Take-profit price must be above the current price');
+    }
+  }
+
+  if (stopLossPrice != null && takeProfitPrice != null && stopLossPrice >= takeProfitPrice) {
+    errors.push('Stop-loss must be below take-profit');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Percentage move from the current NAV that would fire a trigger
+ *
+ * @param triggerPrice - Trigger price (dollars)
+ * @param currentPrice - Current NAV per share (dollars)
+ * @returns Signed percentage move rounded to 2 decimal places
+ */
+export const calculateTriggerDistancePercent = (
+  triggerPrice: number | string | Decimal,
+  currentPrice: number | string | Decimal
+): number => {
+  const nav = toDecimal(currentPrice);
+  if (nav.lte(0)) {
+    return 0;
+  }
+  return roundForDisplay(toDecimal(triggerPrice).minus(nav).dividedBy(nav).times(100));
+};
@@ -0,0 +1,127 @@
+/**
+ * Private Leagues
+ *
+ * Invite-only mini-leaderboards ranked from the weekly leaderboard.
+ * A member's league return compounds their weekly returns over the weeks
+ * that started on or after both the league start date and the day they
+ * joined, so returns earned before joining never count:
+ *
+ *   league_return = Π (1 + weekly_return) - 1
+ *
+ * Members with no counted weeks yet are listed with a 0 return, after
+ * every member who has one.
+ */
+
+import { Decimal, toDecimal } from './decimal';
+
+/** Invite codes avoid look-alike characters (0/O, 1/I/L) */
+export const LEAGUE_INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const LEAGUE_INVITE_CODE_LENGTH = 8;
+export const MAX_LEAGUE_NAME_LENGTH = 50;
+
+export interface LeagueMember {
+  user_id: string;
+  full_name: string | null;
+  joined_at: string;
+}
+
+export interface LeagueWeeklyReturn {
+  user_id: string;
+  week_start: string;
+  /** Decimal fraction, as stored in weekly_leaderboard */
+  weekly_return: number;
+}
+
+export interface LeagueStanding {
+  rank: number;
+  user_id: string;
+  full_name: string | null;
+  /** Compounded return as a decimal fraction, 6 decimal places */
+  league_return: number;
+  weeks_counted: number;
+  /** Most recent counted weekly return, null if no week counted yet */
+  last_week_return: number | null;
+}
+
+/**
+ * Normalize a user-entered invite code (case and separators are ignored)
+ *
+ * @param code - Code as typed or pasted
+ * @returns Upper-case code without spaces or dashes
+ */
+export const normalizeInviteCode = (code: string): string => {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+};
+
+/**
+ * Check an invite code's shape before sending it to the server
+ *
+ * @param code - Normalized invite code
+ */
+export const isValidInviteCode = (code: string): boolean => {
+  if (code.length !== LEAGUE_INVITE_CODE_LENGTH) return false;
+  return [...code].every(char => LEAGUE_INVITE_CODE_ALPHABET.includes(char));
+};
+
+/**
+ * First instant from which a member's weekly returns count
+ *
+ * @param leagueStartsAt - League start date
+ * @param joinedAt - When the member joined
+ * @returns The later of the two
+ */
+export const getLeagueCountingStart = (leagueStartsAt: string, joinedAt: string): Date => {
+  const leagueStart = new Date(leagueStartsAt);
+  const joined = new Date(joinedAt);
+  return joined > leagueStart ? joined : leagueStart;
+};
+
+/**
+ * Rank league members by compounded weekly return
+ *
+ * @param leagueStartsAt - League start date
+ * @param members - Current league members
+ * @param weeklyReturns - Weekly leaderboard rows for the members (any range)
+ * @returns Standings, rank 1 = highest league return
+ */
+export const calculateLeagueStandings = (
+  leagueStartsAt: string,
+  members: LeagueMember[],
+  weeklyReturns: LeagueWeeklyReturn[]
+): LeagueStanding[] => {
+  const returnsByUser = new Map<string, LeagueWeeklyReturn[]>();
+  for (const row of weeklyReturns) {
+    const list = returnsByUser.get(row.user_id) ?? [];
+    list.push(row);
+    returnsByUser.set(row.user_id, list);
+  }
+
+  const standings = members.map(member => {
+    const countingStart = getLeagueCountingStart(leagueStartsAt, member.joined_at);
+    const counted = (returnsByUser.get(member.user_id) ?? [])
+      .filter(row => new Date(row.week_start) >= countingStart)
+      .sort((a, b) => new Date(a.week_start).getTime() - new Date(b.week_start).getTime());
+
+    const growth = counted.reduce(
+      (total, row) => total.times(toDecimal(1).plus(toDecimal(row.weekly_return))),
+      new Decimal(1)
+    );
+
+    return {
+      user_id: member.user_id,
+      full_name: member.full_name,
+      league_return: growth.minus(1).toDecimalPlaces(6, Decimal.ROUND_HALF_UP).toNumber(),
+      weeks_counted: counted.length,
+      last_week_return: counted.length > 0 ? Number(counted[counted.length - 1].weekly_return) : null
+    };
+  });
+
+  const sorted = [...standings].sort((a, b) => {
+    const aActive = a.weeks_counted > 0 ? 1 : 0;
+    const bActive = b.weeks_counted > 0 ? 1 : 0;
+    if (aActive !== bActive) return bActive - aActive;
+    return b.league_return - a.league_return;
+  });
+
+  return sorted.map((standing, index) => ({ ...standing, rank: index + 1 }));
+};
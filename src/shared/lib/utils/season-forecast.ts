@@ -0,0 +1,211 @@
+/**
+ * Monte Carlo Season Forecast
+ *
+ * Plays out the remaining fixtures thousands of times in memory, never
+ * touching the database, and summarises where each club's share price is
+ * likely to finish. Each simulated match:
+ * - draws an outcome from the market-cap probability model (match-outcomes),
+ *   using the caps as they stand at that point of the simulated season
+ * - moves market cap with the transfer rule set (transfer-rules), with a
+ *   one-goal margin for wins and 1-1 for draws
+ *
+ * Fixtures are played in kickoff order so that earlier results change the
+ * odds and stakes of later ones, as they would in the real season.
+ */
+
+import { calculateMatchTransfer, type CompetitionType, type MatchOutcome, type TransferRuleSet } from './transfer-rules';
+import { calculateOutcomeProbabilities, sampleOutcome } from './match-outcomes';
+import { calculateSharePrice } from './calculations';
+import { fromCents } from './decimal';
+
+export interface ForecastTeam {
+  id: number;
+  name: string;
+  /** Current market cap in cents */
+  market_cap: number;
+  total_shares?: number | null;
+}
+
+export interface ForecastFixture {
+  id: number;
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  competition_type?: CompetitionType | null;
+}
+
+export interface ClubForecast {
+  teamId: number;
+  teamName: string;
+  currentPrice: number;
+  /** Final share price percentiles */
+  p5: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p95: number;
+  /** Share of simulations finishing above the current price (0-1) */
+  probabilityAbove: number;
+  expectedFinalCapCents: number;
+  expectedFinalPrice: number;
+  /** Remaining fixtures for the club */
+  remainingFixtures: number;
+}
+
+export interface SeasonForecast {
+  iterations: number;
+  remainingFixtures: number;
+  clubs: ClubForecast[];
+}
+
+/** Fixed shares per club when the team row doesn't say */
+const DEFAULT_TOTAL_SHARES = 1000;
+
+const SIMULATED_SCORES: Record<MatchOutcome, { home: number; away: number }> = {
+  home_win: { home: 1, away: 0 },
+  draw: { home: 1, away: 1 },
+  away_win: { home: 0, away: 1 },
+};
+
+/**
+ * Deterministic uniform generator in [0, 1) (mulberry32), for reproducible forecasts
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Play the remaining fixtures once
+ *
+ * @param startCaps - Market caps (cents) by team id before the first fixture
+ * @param fixtures - Remaining fixtures in kickoff order
+ * @param ruleSet - Transfer rule set
+ * @param random - Uniform generator in [0, 1)
+ * @returns Final market caps by team id
+ */
+export const simulateSeasonOnce = (
+  startCaps: Map<number, number>,
+  fixtures: ForecastFixture[],
+  ruleSet: TransferRuleSet,
+  random: () => number
+): Map<number, number> => {
+  const caps = new Map(startCaps);
+
+  for (const fixture of fixtures) {
+    const homeCap = caps.get(fixture.home_team_id);
+    const awayCap = caps.get(fixture.away_team_id);
+    if (homeCap === undefined || awayCap === undefined) continue;
+
+    const outcome = sampleOutcome(calculateOutcomeProbabilities(homeCap, awayCap), random());
+    const transfer = calculateMatchTransfer({
+      homeCapCents: homeCap,
+      awayCapCents: awayCap,
+      homeScore: SIMULATED_SCORES[outcome].home,
+      awayScore: SIMULATED_SCORES[outcome].away,
+      result: outcome,
+      competitionType: fixture.competition_type ?? 'league',
+    }, ruleSet);
+
+    caps.set(fixture.home_team_id, transfer.homeCapAfterCents);
+    caps.set(fixture.away_team_id, transfer.awayCapAfterCents);
+  }
+
+  return caps;
+};
+
+/**
+ * Value at a percentile of an ascending-sorted array (nearest rank)
+ */
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+/**
+ * Collects final caps across simulations and turns them into per-club forecasts.
+ * Runs can be added in batches so callers can yield to the UI between them.
+ */
+export const createForecastAccumulator = (teams: ForecastTeam[], fixtures: ForecastFixture[]) => {
+  const startCaps = new Map(teams.map(team => [team.id, team.market_cap]));
+  const samples = new Map<number, number[]>(teams.map(team => [team.id, []]));
+  const ordered = [...fixtures].sort((a, b) => new Date(a.kickoff_at).getTime() - new Date(b.kickoff_at).getTime());
+  const remainingByTeam = new Map<number, number>();
+  for (const fixture of ordered) {
+    remainingByTeam.set(fixture.home_team_id, (remainingByTeam.get(fixture.home_team_id) ?? 0) + 1);
+    remainingByTeam.set(fixture.away_team_id, (remainingByTeam.get(fixture.away_team_id) ?? 0) + 1);
+  }
+  let iterations = 0;
+
+  return {
+    run(count: number, ruleSet: TransferRuleSet, random: () => number) {
+      for (let i = 0; i < count; i++) {
+        const finalCaps = simulateSeasonOnce(startCaps, ordered, ruleSet, random);
+        for (const [teamId, cap] of finalCaps) {
+          samples.get(teamId)?.push(cap);
+        }
+        iterations++;
+      }
+    },
+
+    get iterations() {
+      return iterations;
+    },
+
+    summarize(): SeasonForecast {
+      const clubs = teams.map(team => {
+        const shares = team.total_shares || DEFAULT_TOTAL_SHARES;
+        const toPrice = (capCents: number) => calculateSharePrice(fromCents(capCents), shares);
+        const caps = Float64Array.from(samples.get(team.id) ?? []).sort();
+        const currentPrice = toPrice(team.market_cap);
+        const mean = caps.length > 0 ? caps.reduce((sum, cap) => sum + cap, 0) / caps.length : team.market_cap;
+        const above = caps.filter(cap => toPrice(cap) > currentPrice).length;
+
+        return {
+          teamId: team.id,
+          teamName: team.name,
+          currentPrice,
+          p5: toPrice(percentile(caps, 5) || team.market_cap),
+          p25: toPrice(percentile(caps, 25) || team.market_cap),
+          median: toPrice(percentile(caps, 50) || team.market_cap),
+          p75: toPrice(percentile(caps, 75) || team.market_cap),
+          p95: toPrice(percentile(caps, 95) || team.market_cap),
+          probabilityAbove: caps.length > 0 ? above / caps.length : 0,
+          expectedFinalCapCents: Math.round(mean),
+          expectedFinalPrice: toPrice(Math.round(mean)),
+          remainingFixtures: remainingByTeam.get(team.id) ?? 0,
+        };
+      });
+
+      return { iterations, remainingFixtures: ordered.length, clubs };
+    },
+  };
+};
+
+/**
+ * Run a full forecast synchronously
+ *
+ * @param teams - Clubs with current market caps
+ * @param fixtures - Remaining (unplayed) fixtures
+ * @param ruleSet - Transfer rule set
+ * @param iterations - Number of simulated seasons
+ * @param random - Uniform generator (default Math.random)
+ */
+export const runSeasonForecast = (
+  teams: ForecastTeam[],
+  fixtures: ForecastFixture[],
+  ruleSet: TransferRuleSet,
+  iterations: number,
+  random: () => number = Math.random
+): SeasonForecast => {
+  const accumulator = createForecastAccumulator(teams, fixtures);
+  accumulator.run(iterations, ruleSet, random);
+  return accumulator.summarize();
+};
@@ -0,0 +1,150 @@
+/**
+ * Season Rollover
+ *
+ * Moving the platform from a finished season to the next one:
+ * - The finished season is archived (fixtures, match ledger, final table
+ *   with closing caps, season leaderboard) under its season id
+ * - Listed clubs missing from the next season's competition are relegated:
+ *   they are delisted and every position is settled at the final NAV
+ *   (market cap / total shares), either bought out for cash or converted
+ *   into shares of a promoted club at its IPO price
+ * - Clubs new to the competition are promoted and listed at an IPO cap
+ *
+ * Mirrored by supabase/migrations/20261019001400_season_rollover.sql
+ * (rollover_season): the admin preview is computed here and the settlement
+ * in the database, so both must settle identically:
+ * - value = quantity x final price
+ * - converted shares = floor(value / IPO price), limited by the promoted
+ *   club's unsold shares, handed out in user id order (plain string
+ *   comparison); whatever is not converted is paid in cash
+ * All amounts are integer cents.
+ */
+
+import type { LeagueTableRow } from './dividends';
+
+export type RelegationPolicy = 'buyout' | 'convert';
+
+export const RELEGATION_POLICIES: Record<RelegationPolicy, string> = {
+  buyout: 'Forced buyout at final NAV',
+  convert: 'Convert into a promoted club',
+};
+
+/** Shares per club in the fixed-shares model */
+export const DEFAULT_TOTAL_SHARES = 1000;
+
+/** IPO market cap for promoted clubs unless the admin sets one ($5,000) */
+export const DEFAULT_PROMOTED_IPO_MARKET_CAP_CENTS = 500_000;
+
+export interface RolloverTeam {
+  id: number;
+  name: string;
+  externalId: number | null;
+  /** Delisted by an earlier rollover */
+  delisted: boolean;
+}
+
+export interface SeasonRolloverPlan {
+  /** Listed clubs not in the next season, best final position first */
+  relegated: RolloverTeam[];
+  /** Clubs in the next season that are not listed yet (API ids) */
+  promotedExternalIds: number[];
+}
+
+export interface RelegationPairing {
+  teamId: number;
+  /** Promoted club the position converts into; null = cash buyout */
+  convertToTeamId: number | null;
+}
+
+export interface RelegationHolding {
+  userId: string;
+  quantity: number;
+}
+
+export interface RelegationSettlement extends RelegationHolding {
+  valueCents: number;
+  convertedQuantity: number;
+  cashCents: number;
+}
+
+/** Season as shown to users, e.g. 2025 -> "2025-26" */
+export const formatSeasonLabel = (season: number): string =>
+  `${season}-${String((season + 1) % 100).padStart(2, '0')}`;
+
+/**
+ * Share price in cents: market cap over total shares, rounded to the cent
+ */
+export const calculateSharePriceCents = (marketCapCents: number, totalShares?: number | null): number =>
+  Math.round(marketCapCents / (totalShares && totalShares > 0 ? totalShares : DEFAULT_TOTAL_SHARES));
+
+/**
+ * Relegated and promoted clubs, from the listed clubs and the next season's
+ * competition (by external API id)
+ *
+ * @param finalTable - Final table of the finished season, to order the relegated clubs
+ */
+export const planSeasonRollover = (
+  teams: RolloverTeam[],
+  finalTable: LeagueTableRow[],
+  nextSeasonExternalIds: number[]
+): SeasonRolloverPlan => {
+  const next = new Set(nextSeasonExternalIds);
+  const listed = teams.filter(team => !team.delisted);
+  const listedExternalIds = new Set(listed.map(team => team.externalId));
+  const position = (teamId: number) =>
+    finalTable.find(row => row.teamId === teamId)?.position ?? Number.MAX_SAFE_INTEGER;
+
+  return {
+    relegated: listed
+      .filter(team => team.externalId !== null && !next.has(team.externalId))
+      .sort((a, b) => position(a.id) - position(b.id) || a.id - b.id),
+    promotedExternalIds: nextSeasonExternalIds.filter(id => !listedExternalIds.has(id)),
+  };
+};
+
+/**
+ * Which promoted club each relegated club converts into: the best-placed
+ * relegated club takes the first promoted club, and so on. Relegated clubs
+ * left over are bought out.
+ */
+export const pairRelegatedClubs = (
+  relegatedTeamIds: number[],
+  promotedTeamIds: number[],
+  policy: RelegationPolicy
+): RelegationPairing[] =>
+  relegatedTeamIds.map((teamId, i) => ({
+    teamId,
+    convertToTeamId: policy === 'convert' ? promotedTeamIds[i] ?? null : null,
+  }));
+
+/**
+ * Settle every holder of a relegated club (see header for the rules)
+ *
+ * @param ipoPriceCents - Promoted club's IPO share price; null = cash buyout
+ * @param availableShares - Promoted club shares left to hand out
+ */
+export const calculateRelegationSettlement = (
+  holdings: RelegationHolding[],
+  finalPriceCents: number,
+  ipoPriceCents: number | null,
+  availableShares = Number.MAX_SAFE_INTEGER
+): RelegationSettlement[] => {
+  let remaining = availableShares;
+
+  return holdings
+    .filter(holding => holding.quantity > 0)
+    .sort((a, b) => (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0))
+    .map(holding => {
+      const valueCents = holding.quantity * finalPriceCents;
+      const convertedQuantity = ipoPriceCents && ipoPriceCents > 0
+        ? Math.min(Math.floor(valueCents / ipoPriceCents), remaining)
+        : 0;
+      remaining -= convertedQuantity;
+      return {
+        ...holding,
+        valueCents,
+        convertedQuantity,
+        cashCents: valueCents - convertedQuantity * (ipoPriceCents ?? 0),
+      };
+    });
+};
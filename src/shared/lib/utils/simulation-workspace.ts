@@ -0,0 +1,124 @@
+/**
+ * Simulation Workspace
+ *
+ * Compares a sandbox workspace (see the simulation_workspaces migration)
+ * with live state. Workspace teams carry the live market cap at fork time,
+ * so every club can show:
+ * - its sandbox price against the current live price
+ * - whether live has moved since the fork (promotion is refused if so)
+ *
+ * User P&L is the change in value of each user's forked positions between
+ * fork-time caps and sandbox caps, i.e. what promoting the workspace would
+ * do to their portfolio.
+ */
+
+import { calculatePercentChange, calculateSharePrice } from './calculations';
+import { Decimal, fromCents, roundForDisplay } from './decimal';
+
+export interface WorkspaceTeam {
+  team_id: number;
+  name: string;
+  /** Sandbox market cap in cents */
+  market_cap: number;
+  total_shares: number;
+  /** Live market cap in cents when the workspace was forked */
+  forked_market_cap: number;
+}
+
+export interface WorkspacePosition {
+  user_id: string;
+  team_id: number;
+  quantity: number;
+}
+
+export interface LiveTeamCap {
+  id: number;
+  /** Live market cap in cents */
+  market_cap: number;
+}
+
+export interface WorkspaceTeamComparison {
+  teamId: number;
+  teamName: string;
+  liveCapCents: number;
+  sandboxCapCents: number;
+  livePrice: number;
+  sandboxPrice: number;
+  /** Sandbox price vs live price, in percent */
+  priceChangePercent: number;
+  /** Live cap moved since the fork */
+  diverged: boolean;
+}
+
+export interface WorkspaceUserPnl {
+  userId: string;
+  clubs: number;
+  forkedValue: number;
+  sandboxValue: number;
+  pnl: number;
+}
+
+/**
+ * Sandbox vs live per club, biggest sandbox movers first
+ *
+ * @param workspaceTeams - Teams in the workspace
+ * @param liveTeams - Current live caps (clubs missing from live are compared with the fork)
+ */
+export const compareWorkspaceTeams = (
+  workspaceTeams: WorkspaceTeam[],
+  liveTeams: LiveTeamCap[]
+): WorkspaceTeamComparison[] => {
+  const liveCaps = new Map(liveTeams.map(team => [team.id, team.market_cap]));
+
+  return workspaceTeams
+    .map(team => {
+      const liveCapCents = liveCaps.get(team.team_id) ?? team.forked_market_cap;
+      const livePrice = calculateSharePrice(fromCents(liveCapCents), team.total_shares);
+      const sandboxPrice = calculateSharePrice(fromCents(team.market_cap), team.total_shares);
+
+      return {
+        teamId: team.team_id,
+        teamName: team.name,
+        liveCapCents,
+        sandboxCapCents: team.market_cap,
+        livePrice,
+        sandboxPrice,
+        priceChangePercent: calculatePercentChange(fromCents(team.market_cap), fromCents(liveCapCents)),
+        diverged: liveCapCents !== team.forked_market_cap,
+      };
+    })
+    .sort((a, b) => Math.abs(b.priceChangePercent) - Math.abs(a.priceChangePercent));
+};
+
+/**
+ * P&L per user from fork-time prices to sandbox prices, biggest moves first
+ */
+export const calculateWorkspaceUserPnl = (
+  positions: WorkspacePosition[],
+  workspaceTeams: WorkspaceTeam[]
+): WorkspaceUserPnl[] => {
+  const teams = new Map(workspaceTeams.map(team => [team.team_id, team]));
+  const users = new Map<string, { clubs: number; forked: Decimal; sandbox: Decimal }>();
+
+  for (const position of positions) {
+    const team = teams.get(position.team_id);
+    if (!team || position.quantity <= 0) continue;
+
+    const perShare = (capCents: number) => fromCents(capCents).dividedBy(team.total_shares || 1000);
+    const entry = users.get(position.user_id) ?? { clubs: 0, forked: new Decimal(0), sandbox: new Decimal(0) };
+    entry.clubs += 1;
+    entry.forked = entry.forked.plus(perShare(team.forked_market_cap).times(position.quantity));
+    entry.sandbox = entry.sandbox.plus(perShare(team.market_cap).times(position.quantity));
+    users.set(position.user_id, entry);
+  }
+
+  return [...users.entries()]
+    .map(([userId, entry]) => ({
+      userId,
+      clubs: entry.clubs,
+      forkedValue: roundForDisplay(entry.forked),
+      sandboxValue: roundForDisplay(entry.sandbox),
+      pnl: roundForDisplay(entry.sandbox.minus(entry.forked)),
+    }))
+    .sort((a, b) => Math.abs(b.pnl) - Math.abs(a.pnl));
+};
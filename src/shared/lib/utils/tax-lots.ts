@@ -0,0 +1,358 @@
+/**
+ * Tax-Lot Accounting
+ *
+ * Lot-level cost basis derived from a user's executed trades, instead of the
+ * aggregate quantity/total_invested kept on positions. Every buy opens a lot;
+ * every sell consumes lots by the user's cost basis method:
+ * - FIFO: oldest lots first, each at its own cost
+ * - AVERAGE: lots are still consumed oldest first for holding dates, but the
+ *   cost removed is the average cost of everything still held
+ *
+ * Trading fees are part of the cost of a buy and reduce the proceeds of a
+ * sell. All amounts are integer cents; partial lot costs are apportioned by
+ * quantity and rounded half up, and the last share of a lot always carries
+ * whatever cost is left so basis is conserved exactly.
+ */
+
+import { Decimal, toDecimal } from './decimal';
+
+export type CostBasisMethod = 'FIFO' | 'AVERAGE';
+
+export const COST_BASIS_METHODS: Record<CostBasisMethod, string> = {
+  FIFO: 'First in, first out',
+  AVERAGE: 'Average cost',
+};
+
+export interface LotTrade {
+  /** Unique per trade source, e.g. 'order:12' or 'p2p:4' */
+  id: string;
+  teamId: number;
+  teamName: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  /** Trade amount before fees */
+  amountCents: number;
+  feeCents: number;
+  executedAt: string;
+}
+
+export interface TaxLot {
+  tradeId: string;
+  teamId: number;
+  teamName: string;
+  acquiredAt: string;
+  originalQuantity: number;
+  /** Shares still held from this lot */
+  quantity: number;
+  /** Cost basis of the shares still held */
+  costCents: number;
+}
+
+export interface LotConsumption {
+  tradeId: string;
+  acquiredAt: string;
+  quantity: number;
+  costCents: number;
+}
+
+export interface Disposal {
+  tradeId: string;
+  teamId: number;
+  teamName: string;
+  soldAt: string;
+  quantity: number;
+  /** Sale amount after fees */
+  proceedsCents: number;
+  costBasisCents: number;
+  gainCents: number;
+  lots: LotConsumption[];
+  /** Shares sold beyond what the trade history shows as held (treated as zero cost) */
+  unmatchedQuantity: number;
+}
+
+export interface TaxLotLedger {
+  method: CostBasisMethod;
+  openLots: TaxLot[];
+  disposals: Disposal[];
+}
+
+export interface ClubRealizedPnl {
+  teamId: number;
+  teamName: string;
+  quantitySold: number;
+  proceedsCents: number;
+  costBasisCents: number;
+  realizedCents: number;
+}
+
+export interface ClubUnrealizedPnl {
+  teamId: number;
+  teamName: string;
+  quantity: number;
+  costBasisCents: number;
+  marketValueCents: number;
+  unrealizedCents: number;
+}
+
+export interface AnnualStatement {
+  year: number;
+  method: CostBasisMethod;
+  generatedAt: string;
+  disposals: Disposal[];
+  realizedByClub: ClubRealizedPnl[];
+  unrealizedByClub: ClubUnrealizedPnl[];
+  totals: {
+    proceedsCents: number;
+    costBasisCents: number;
+    realizedCents: number;
+    feesCents: number;
+    unrealizedCents: number;
+  };
+}
+
+const apportion = (totalCents: number, part: number, whole: number): number =>
+  part >= whole
+    ? totalCents
+    : toDecimal(totalCents).times(part).dividedBy(whole).toDecimalPlaces(0, Decimal.ROUND_HALF_UP).toNumber();
+
+const byExecution = (a: LotTrade, b: LotTrade) =>
+  new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() || a.id.localeCompare(b.id);
+
+/**
+ * Replay trades into open lots and disposals
+ */
+export const buildTaxLots = (trades: LotTrade[], method: CostBasisMethod): TaxLotLedger => {
+  const lotsByTeam = new Map<number, TaxLot[]>();
+  const disposals: Disposal[] = [];
+
+  for (const trade of [...trades].sort(byExecution)) {
+    if (trade.quantity <= 0) continue;
+    const lots = lotsByTeam.get(trade.teamId) ?? [];
+    lotsByTeam.set(trade.teamId, lots);
+
+    if (trade.side === 'BUY') {
+      lots.push({
+        tradeId: trade.id,
+        teamId: trade.teamId,
+        teamName: trade.teamName,
+        acquiredAt: trade.executedAt,
+        originalQuantity: trade.quantity,
+        quantity: trade.quantity,
+        costCents: trade.amountCents + trade.feeCents,
+      });
+      continue;
+    }
+
+    const heldQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const heldCost = lots.reduce((sum, lot) => sum + lot.costCents, 0);
+    const matchedQuantity = Math.min(trade.quantity, heldQuantity);
+    const averageBasis = method === 'AVERAGE' ? apportion(heldCost, matchedQuantity, heldQuantity) : 0;
+
+    const consumed: LotConsumption[] = [];
+    let remaining = matchedQuantity;
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0];
+      const quantity = Math.min(remaining, lot.quantity);
+      const costCents = method === 'FIFO' ? apportion(lot.costCents, quantity, lot.quantity) : 0;
+      consumed.push({ tradeId: lot.tradeId, acquiredAt: lot.acquiredAt, quantity, costCents });
+
+      lot.quantity -= quantity;
+      lot.costCents -= costCents;
+      remaining -= quantity;
+      if (lot.quantity === 0) lots.shift();
+    }
+
+    if (method === 'AVERAGE') {
+      // Spread the average basis over the consumed lots, then re-average what is left
+      let unallocated = averageBasis;
+      consumed.forEach((lot, i) => {
+        lot.costCents = i === consumed.length - 1 ? unallocated : apportion(averageBasis, lot.quantity, matchedQuantity);
+        unallocated -= lot.costCents;
+      });
+
+      const remainingQuantity = heldQuantity - matchedQuantity;
+      let remainingCost = heldCost - averageBasis;
+      lots.forEach((lot, i) => {
+        lot.costCents = i === lots.length - 1 ? remainingCost : apportion(heldCost - averageBasis, lot.quantity, remainingQuantity);
+        remainingCost -= lot.costCents;
+      });
+    }
+
+    const costBasisCents = consumed.reduce((sum, lot) => sum + lot.costCents, 0);
+    const proceedsCents = trade.amountCents - trade.feeCents;
+
+    disposals.push({
+      tradeId: trade.id,
+      teamId: trade.teamId,
+      teamName: trade.teamName,
+      soldAt: trade.executedAt,
+      quantity: trade.quantity,
+      proceedsCents,
+      costBasisCents,
+      gainCents: proceedsCents - costBasisCents,
+      lots: consumed,
+      unmatchedQuantity: trade.quantity - matchedQuantity,
+    });
+  }
+
+  return {
+    method,
+    openLots: [...lotsByTeam.values()].flat(),
+    disposals,
+  };
+};
+
+/**
+ * Realized P&L per club for disposals inside [from, to)
+ */
+export const summarizeRealizedPnl = (
+  disposals: Disposal[],
+  period?: { from?: Date; to?: Date }
+): ClubRealizedPnl[] => {
+  const clubs = new Map<number, ClubRealizedPnl>();
+
+  for (const disposal of disposals) {
+    const soldAt = new Date(disposal.soldAt).getTime();
+    if (period?.from && soldAt < period.from.getTime()) continue;
+    if (period?.to && soldAt >= period.to.getTime()) continue;
+
+    const club = clubs.get(disposal.teamId) ?? {
+      teamId: disposal.teamId,
+      teamName: disposal.teamName,
+      quantitySold: 0,
+      proceedsCents: 0,
+      costBasisCents: 0,
+      realizedCents: 0,
+    };
+    club.quantitySold += disposal.quantity;
+    club.proceedsCents += disposal.proceedsCents;
+    club.costBasisCents += disposal.costBasisCents;
+    club.realizedCents += disposal.gainCents;
+    clubs.set(disposal.teamId, club);
+  }
+
+  return [...clubs.values()].sort((a, b) => a.teamName.localeCompare(b.teamName));
+};
+
+/**
+ * Unrealized P&L per club for open lots at current share prices (dollars)
+ */
+export const calculateUnrealizedPnl = (
+  openLots: TaxLot[],
+  currentPrices: Map<number, number>
+): ClubUnrealizedPnl[] => {
+  const clubs = new Map<number, ClubUnrealizedPnl>();
+
+  for (const lot of openLots) {
+    const club = clubs.get(lot.teamId) ?? {
+      teamId: lot.teamId,
+      teamName: lot.teamName,
+      quantity: 0,
+      costBasisCents: 0,
+      marketValueCents: 0,
+      unrealizedCents: 0,
+    };
+    club.quantity += lot.quantity;
+    club.costBasisCents += lot.costCents;
+    clubs.set(lot.teamId, club);
+  }
+
+  for (const club of clubs.values()) {
+    const price = currentPrices.get(club.teamId) ?? 0;
+    club.marketValueCents = toDecimal(price).times(100).times(club.quantity).toDecimalPlaces(0, Decimal.ROUND_HALF_UP).toNumber();
+    club.unrealizedCents = club.marketValueCents - club.costBasisCents;
+  }
+
+  return [...clubs.values()].sort((a, b) => a.teamName.localeCompare(b.teamName));
+};
+
+/**
+ * Statement for one calendar year (UTC): disposals and fees in the year, and
+ * unrealized P&L on lots still held valued at current prices
+ */
+export const buildAnnualStatement = (
+  trades: LotTrade[],
+  method: CostBasisMethod,
+  year: number,
+  currentPrices: Map<number, number>,
+  now: Date = new Date()
+): AnnualStatement => {
+  const from = new Date(Date.UTC(year, 0, 1));
+  const to = new Date(Date.UTC(year + 1, 0, 1));
+  const inYear = (at: string) => new Date(at) >= from && new Date(at) < to;
+
+  const ledger = buildTaxLots(trades, method);
+  const disposals = ledger.disposals.filter(d => inYear(d.soldAt));
+  const realizedByClub = summarizeRealizedPnl(disposals);
+  const unrealizedByClub = calculateUnrealizedPnl(ledger.openLots, currentPrices);
+
+  return {
+    year,
+    method,
+    generatedAt: now.toISOString(),
+    disposals,
+    realizedByClub,
+    unrealizedByClub,
+    totals: {
+      proceedsCents: realizedByClub.reduce((sum, c) => sum + c.proceedsCents, 0),
+      costBasisCents: realizedByClub.reduce((sum, c) => sum + c.costBasisCents, 0),
+      realizedCents: realizedByClub.reduce((sum, c) => sum + c.realizedCents, 0),
+      feesCents: trades.filter(t => inYear(t.executedAt)).reduce((sum, t) => sum + t.feeCents, 0),
+      unrealizedCents: unrealizedByClub.reduce((sum, c) => sum + c.unrealizedCents, 0),
+    },
+  };
+};
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+const centsCell = (cents: number) => toDecimal(cents).dividedBy(100).toFixed(2);
+
+/**
+ * CSV export of an annual statement: one row per lot consumed by each sale,
+ * followed by per-club and overall totals
+ */
+export const annualStatementToCsv = (statement: AnnualStatement): string => {
+  const rows: (string | number)[][] = [
+    ['Annual Realized P&L Statement', statement.year],
+    ['Cost basis method', COST_BASIS_METHODS[statement.method]],
+    ['Generated', statement.generatedAt],
+    [],
+    ['Club', 'Date Acquired', 'Date Sold', 'Shares', 'Proceeds', 'Cost Basis', 'Gain/Loss'],
+  ];
+
+  for (const disposal of statement.disposals) {
+    const lines = disposal.unmatchedQuantity > 0
+      ? [...disposal.lots, { tradeId: '', acquiredAt: 'Unknown', quantity: disposal.unmatchedQuantity, costCents: 0 }]
+      : disposal.lots;
+    // Last line takes the rounding remainder so lines add up to the sale
+    let unallocated = disposal.proceedsCents;
+    lines.forEach((lot, i) => {
+      const proceeds = i === lines.length - 1 ? unallocated : apportion(disposal.proceedsCents, lot.quantity, disposal.quantity);
+      unallocated -= proceeds;
+      rows.push([
+        disposal.teamName,
+        lot.acquiredAt.slice(0, 10),
+        disposal.soldAt.slice(0, 10),
+        lot.quantity,
+        centsCell(proceeds),
+        centsCell(lot.costCents),
+        centsCell(proceeds - lot.costCents),
+      ]);
+    });
+  }
+
+  rows.push([], ['Club', 'Shares Sold', 'Proceeds', 'Cost Basis', 'Realized Gain/Loss']);
+  for (const club of statement.realizedByClub) {
+    rows.push([club.teamName, club.quantitySold, centsCell(club.proceedsCents), centsCell(club.costBasisCents), centsCell(club.realizedCents)]);
+  }
+
+  rows.push(
+    [],
+    ['Total proceeds', centsCell(statement.totals.proceedsCents)],
+    ['Total cost basis', centsCell(statement.totals.costBasisCents)],
+    ['Total realized gain/loss', centsCell(statement.totals.realizedCents)],
+    ['Trading fees paid', centsCell(statement.totals.feesCents)],
+    ['Unrealized gain/loss (current prices)', centsCell(statement.totals.unrealizedCents)],
+  );
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,259 @@
+/**
+ * Trading Fee Schedule Engine
+ *
+ * Pure, versioned fee schedules for platform trades (market purchases and
+ * sales at NAV, including limit orders when they fill). The same calculation
+ * runs in two places and must stay in sync:
+ * - The confirmation modals, which show the fee before the user confirms
+ * - The database (calculate_trade_fee in SQL), which charges the fee inside
+ *   the purchase/sale transaction and records it on the order row
+ *
+ * A fee is a percentage of the trade amount with a flat minimum, never more
+ * than the trade itself. The percentage steps down once the user's traded
+ * volume for the current calendar month (UTC, before this trade) reaches a
+ * tier threshold. Promotional periods waive the fee entirely, optionally for
+ * one side only.
+ *
+ * Like transfer rule sets, schedules are immutable once published: add a new
+ * version rather than editing one, so every recorded fee can be reproduced.
+ * All amounts are cents; fees round half up to whole cents.
+ */
+
+import { Decimal, toDecimal } from './decimal';
+
+export type FeeSide = 'BUY' | 'SELL';
+
+export interface FeeTier {
+  /** Monthly traded volume (cents) from which this rate applies */
+  minMonthlyVolumeCents: number;
+  /** Fraction of the trade amount (0.01 = 1%) */
+  percentRate: number;
+}
+
+export interface FeeScheduleParams {
+  /** Fraction of the trade amount charged below the first tier */
+  percentRate: number;
+  /** Flat minimum per trade in cents (0 disables) */
+  minFeeCents: number;
+  /** Volume tiers; the highest threshold reached wins */
+  tiers: FeeTier[];
+}
+
+export interface FeeSchedule {
+  version: string;
+  description: string;
+  params: FeeScheduleParams;
+}
+
+export interface FeePromotion {
+  id: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  /** Side the promotion waives fees for; null for both */
+  side: FeeSide | null;
+}
+
+export interface TradeFeeInput {
+  side: FeeSide;
+  amountCents: number;
+  /** Volume already traded this calendar month, excluding this trade */
+  monthlyVolumeCents: number;
+  params: FeeScheduleParams;
+  promotions?: FeePromotion[];
+  at?: Date;
+}
+
+export interface TradeFeeResult {
+  feeCents: number;
+  /** Percentage rate applied (0 when waived) */
+  rate: number;
+  /** Threshold of the tier applied, null for the base rate */
+  tierMinVolumeCents: number | null;
+  /** Promotion that waived the fee, if any */
+  promotion: FeePromotion | null;
+  /** Cash out for a purchase (amount + fee) or in for a sale (amount - fee) */
+  totalCents: number;
+}
+
+export interface FeeRevenueRow {
+  month: string;
+  side: FeeSide;
+  scheduleVersion: string | null;
+  trades: number;
+  waivedTrades: number;
+  volumeCents: number;
+  feeCents: number;
+}
+
+export interface FeeRevenueSummary {
+  totalFeeCents: number;
+  totalVolumeCents: number;
+  trades: number;
+  waivedTrades: number;
+  /** Fees as a percentage of volume */
+  effectiveRatePercent: number;
+  bySide: Record<FeeSide, { feeCents: number; volumeCents: number; trades: number }>;
+  byMonth: { month: string; feeCents: number; volumeCents: number; trades: number }[];
+}
+
+/** v0 - trades were free before fee schedules existed */
+const NO_FEES: FeeSchedule = {
+  version: 'v0',
+  description: 'No trading fees',
+  params: { percentRate: 0, minFeeCents: 0, tiers: [] },
+};
+
+/** v1 - 1% per trade, $0.50 minimum, cheaper from $1,000 and $10,000 monthly volume */
+const STANDARD_FEES: FeeSchedule = {
+  version: 'v1',
+  description: '1% per trade, $0.50 minimum; 0.75% from $1,000 and 0.5% from $10,000 monthly volume',
+  params: {
+    percentRate: 0.01,
+    minFeeCents: 50,
+    tiers: [
+      { minMonthlyVolumeCents: 100_000, percentRate: 0.0075 },
+      { minMonthlyVolumeCents: 1_000_000, percentRate: 0.005 },
+    ],
+  },
+};
+
+export const FEE_SCHEDULES: Readonly<Record<string, FeeSchedule>> = {
+  [NO_FEES.version]: NO_FEES,
+  [STANDARD_FEES.version]: STANDARD_FEES,
+};
+
+/** Version seeded as active by the fee schedule migration */
+export const DEFAULT_FEE_SCHEDULE_VERSION = STANDARD_FEES.version;
+
+/**
+ * Look up a published fee schedule
+ *
+ * @throws Error if the version is unknown
+ */
+export const getFeeSchedule = (version: string = DEFAULT_FEE_SCHEDULE_VERSION): FeeSchedule => {
+  const schedule = FEE_SCHEDULES[version];
+  if (!schedule) {
+    throw new Error(`Unknown fee schedule version: ${version}`);
+  }
+  return schedule;
+};
+
+/**
+ * Start of the UTC calendar month that volume tiers are measured over
+ */
+export const getFeeVolumeWindowStart = (at: Date = new Date()): Date =>
+  new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+
+/**
+ * Promotion waiving fees for this side at the given time, if any
+ */
+export const findActivePromotion = (
+  promotions: FeePromotion[],
+  side: FeeSide,
+  at: Date = new Date()
+): FeePromotion | null => {
+  const time = at.getTime();
+  return promotions.find(promo =>
+    (promo.side === null || promo.side === side) &&
+    new Date(promo.startsAt).getTime() <= time &&
+    time < new Date(promo.endsAt).getTime()
+  ) ?? null;
+};
+
+/**
+ * Rate and tier for a user's monthly volume
+ */
+export const resolveFeeRate = (
+  params: FeeScheduleParams,
+  monthlyVolumeCents: number
+): { rate: number; tierMinVolumeCents: number | null } => {
+  const tier = [...params.tiers]
+    .sort((a, b) => b.minMonthlyVolumeCents - a.minMonthlyVolumeCents)
+    .find(t => monthlyVolumeCents >= t.minMonthlyVolumeCents);
+
+  return tier
+    ? { rate: tier.percentRate, tierMinVolumeCents: tier.minMonthlyVolumeCents }
+    : { rate: params.percentRate, tierMinVolumeCents: null };
+};
+
+/**
+ * Fee for one platform trade (mirror of calculate_trade_fee in SQL)
+ */
+export const calculateTradeFee = (input: TradeFeeInput): TradeFeeResult => {
+  const amountCents = Math.max(0, Math.round(input.amountCents));
+  const withFee = (feeCents: number, rate: number, tierMinVolumeCents: number | null, promotion: FeePromotion | null) => ({
+    feeCents,
+    rate,
+    tierMinVolumeCents,
+    promotion,
+    totalCents: input.side === 'BUY' ? amountCents + feeCents : amountCents - feeCents,
+  });
+
+  if (amountCents === 0) {
+    return withFee(0, 0, null, null);
+  }
+
+  const promotion = findActivePromotion(input.promotions ?? [], input.side, input.at);
+  if (promotion) {
+    return withFee(0, 0, null, promotion);
+  }
+
+  const { rate, tierMinVolumeCents } = resolveFeeRate(input.params, input.monthlyVolumeCents);
+  if (rate <= 0 && input.params.minFeeCents <= 0) {
+    return withFee(0, rate, tierMinVolumeCents, null);
+  }
+
+  const percentFee = toDecimal(amountCents).times(rate).toDecimalPlaces(0, Decimal.ROUND_HALF_UP).toNumber();
+  const feeCents = Math.min(Math.max(percentFee, input.params.minFeeCents), amountCents);
+
+  return withFee(feeCents, rate, tierMinVolumeCents, null);
+};
+
+/**
+ * Most a purchase of this amount can be charged, reserved up front by a
+ * resting BUY limit order (mirror of reserve_limit_order_fee in SQL): the
+ * rate at zero monthly volume, with promotions ignored
+ */
+export const calculateMaxTradeFeeCents = (amountCents: number, params: FeeScheduleParams): number =>
+  calculateTradeFee({ side: 'BUY', amountCents, monthlyVolumeCents: 0, params }).feeCents;
+
+/**
+ * Totals, per-side split and monthly trend from revenue breakdown rows
+ */
+export const summarizeFeeRevenue = (rows: FeeRevenueRow[]): FeeRevenueSummary => {
+  const bySide: FeeRevenueSummary['bySide'] = {
+    BUY: { feeCents: 0, volumeCents: 0, trades: 0 },
+    SELL: { feeCents: 0, volumeCents: 0, trades: 0 },
+  };
+  const months = new Map<string, { month: string; feeCents: number; volumeCents: number; trades: number }>();
+  let waivedTrades = 0;
+
+  for (const row of rows) {
+    bySide[row.side].feeCents += row.feeCents;
+    bySide[row.side].volumeCents += row.volumeCents;
+    bySide[row.side].trades += row.trades;
+    waivedTrades += row.waivedTrades;
+
+    const month = months.get(row.month) ?? { month: row.month, feeCents: 0, volumeCents: 0, trades: 0 };
+    month.feeCents += row.feeCents;
+    month.volumeCents += row.volumeCents;
+    month.trades += row.trades;
+    months.set(row.month, month);
+  }
+
+  const totalFeeCents = bySide.BUY.feeCents + bySide.SELL.feeCents;
+  const totalVolumeCents = bySide.BUY.volumeCents + bySide.SELL.volumeCents;
+
+  return {
+    totalFeeCents,
+    totalVolumeCents,
+    trades: bySide.BUY.trades + bySide.SELL.trades,
+    waivedTrades,
+    effectiveRatePercent: totalVolumeCents > 0
+      ? toDecimal(totalFeeCents).dividedBy(totalVolumeCents).times(100).toDecimalPlaces(2).toNumber()
+      : 0,
+    bySide,
+    byMonth: [...months.values()].sort((a, b) => b.month.localeCompare(a.month)),
+  };
+};
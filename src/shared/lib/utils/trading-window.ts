@@ -0,0 +1,294 @@
+/**
+ * Trading Window Rules
+ *
+ * Decides whether a club can be traded at a given moment. Admins configure
+ * one rule per competition type (trading_window_rules) plus manual halts
+ * (trading_halts) for a single club or the whole market. The same evaluation
+ * runs in two places and must stay in sync:
+ * - buyWindowService (calculateBuyWindowStatus and isBuyWindowOpen)
+ * - is_team_trading_window_open in SQL, which guards the atomic
+ *   purchase/sale RPCs, limit order matching and position triggers
+ *
+ * Checks, in order:
+ * 1. Active halt for the club or the whole market
+ * 2. Match in progress (live, or kickoff passed within LIVE_MATCH_GRACE_HOURS
+ *    while the status has not been updated yet)
+ * 3. Reopen delay after the final whistle of the club's last match
+ * 4. Matchday freeze: every club is frozen from the first buy-window close
+ *    of a matchday until all of its matches are over (plus the reopen delay)
+ * 5. Buy window closed ahead of the club's next kickoff
+ *
+ * Postponed fixtures are ignored throughout.
+ */
+
+import type { CompetitionType } from './transfer-rules';
+
+export interface TradingWindowRule {
+  competition_type: CompetitionType;
+  /** Trading closes this many minutes before kickoff */
+  close_before_kickoff_minutes: number;
+  /** Trading reopens this many minutes after the final whistle */
+  reopen_after_full_time_minutes: number;
+  /** Freeze the whole market for the duration of each matchday */
+  matchday_freeze: boolean;
+}
+
+export interface TradingHalt {
+  id: number;
+  /** null halts the whole market */
+  team_id: number | null;
+  reason: string;
+  starts_at: string;
+  /** null keeps the halt until an admin lifts it */
+  ends_at: string | null;
+}
+
+export interface TradingWindowFixture {
+  home_team_id: number;
+  away_team_id: number;
+  kickoff_at: string;
+  status: string;
+  result?: string | null;
+  /** Set when the result is recorded; estimated from kickoff when missing */
+  finished_at?: string | null;
+  matchday?: number | null;
+  season?: number | null;
+  competition_type?: CompetitionType | null;
+}
+
+export interface TradingWindowConfig {
+  rules: Record<CompetitionType, TradingWindowRule>;
+  /** Halts that have not been lifted */
+  halts: TradingHalt[];
+}
+
+export interface TradingWindowStatus {
+  isOpen: boolean;
+  nextCloseTime?: Date;
+  nextKickoffTime?: Date;
+  /** When a closed window is known to reopen */
+  reopensAt?: Date;
+  reason: string;
+}
+
+/** Buy window close used before rules are configured */
+export const DEFAULT_CLOSE_BEFORE_KICKOFF_MINUTES = 15;
+
+/** Kickoff passed but status not yet updated from the API: treated as live this long */
+export const LIVE_MATCH_GRACE_HOURS = 4;
+
+/** Final whistle estimate for finished fixtures without finished_at */
+export const ASSUMED_MATCH_DURATION_MINUTES = 120;
+
+export const DEFAULT_TRADING_WINDOW_CONFIG: TradingWindowConfig = {
+  rules: {
+    league: { competition_type: 'league', close_before_kickoff_minutes: DEFAULT_CLOSE_BEFORE_KICKOFF_MINUTES, reopen_after_full_time_minutes: 0, matchday_freeze: false },
+    cup: { competition_type: 'cup', close_before_kickoff_minutes: DEFAULT_CLOSE_BEFORE_KICKOFF_MINUTES, reopen_after_full_time_minutes: 0, matchday_freeze: false },
+  },
+  halts: [],
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parse a fixture timestamp, treating strings without a timezone as UTC
+ */
+export const parseUTCDate = (dateString: string): Date => {
+  if (dateString.includes('Z') || /[+-]\d{2}:\d{2}$/.test(dateString)) {
+    return new Date(dateString);
+  }
+  return new Date(dateString + 'Z');
+};
+
+const hasResult = (fixture: TradingWindowFixture) =>
+  !!fixture.result && fixture.result !== 'pending';
+
+/**
+ * Rule for a fixture's competition, falling back to the league rule
+ */
+export const getRuleForFixture = (config: TradingWindowConfig, fixture: TradingWindowFixture): TradingWindowRule =>
+  config.rules[fixture.competition_type ?? 'league'] ?? config.rules.league;
+
+/**
+ * When the buy window closes for a fixture
+ *
+ * @param kickoffAt - Kickoff timestamp
+ * @param rule - Rule of the fixture's competition
+ */
+export const getBuyCloseTime = (kickoffAt: string | Date, rule: TradingWindowRule): Date => {
+  const kickoff = typeof kickoffAt === 'string' ? parseUTCDate(kickoffAt) : kickoffAt;
+  return new Date(kickoff.getTime() - rule.close_before_kickoff_minutes * MINUTE_MS);
+};
+
+/**
+ * Final whistle of a finished fixture (recorded, or estimated from kickoff)
+ */
+export const getFullTimeAt = (fixture: TradingWindowFixture): Date =>
+  fixture.finished_at
+    ? parseUTCDate(fixture.finished_at)
+    : new Date(parseUTCDate(fixture.kickoff_at).getTime() + ASSUMED_MATCH_DURATION_MINUTES * MINUTE_MS);
+
+/**
+ * Halts in force at `now` for a club (club-specific or market-wide)
+ */
+export const getActiveHalts = (teamId: number, halts: TradingHalt[], now: Date): TradingHalt[] =>
+  halts.filter(halt =>
+    (halt.team_id === null || halt.team_id === teamId) &&
+    parseUTCDate(halt.starts_at) <= now &&
+    (!halt.ends_at || parseUTCDate(halt.ends_at) > now)
+  );
+
+const isMatchInProgress = (fixture: TradingWindowFixture, now: Date) => {
+  if (hasResult(fixture)) return false;
+  if (fixture.status === 'live' || fixture.status === 'closed') return true;
+  const kickoff = parseUTCDate(fixture.kickoff_at);
+  return fixture.status === 'scheduled' &&
+    kickoff <= now &&
+    now.getTime() < kickoff.getTime() + LIVE_MATCH_GRACE_HOURS * 60 * MINUTE_MS;
+};
+
+interface MatchdayFreeze {
+  label: string;
+  start: Date;
+  end: Date;
+  /** false while some results are still missing */
+  complete: boolean;
+}
+
+/**
+ * Freeze windows of matchdays whose competition rule has matchday_freeze on
+ */
+export const getMatchdayFreezes = (fixtures: TradingWindowFixture[], config: TradingWindowConfig): MatchdayFreeze[] => {
+  const groups = new Map<string, TradingWindowFixture[]>();
+  for (const fixture of fixtures) {
+    if (fixture.status === 'postponed' || fixture.matchday == null || fixture.season == null) continue;
+    if (!getRuleForFixture(config, fixture).matchday_freeze) continue;
+    const key = `${fixture.competition_type ?? 'league'}:${fixture.season}:${fixture.matchday}`;
+    groups.set(key, [...(groups.get(key) ?? []), fixture]);
+  }
+
+  return [...groups.values()].map(group => {
+    const rule = getRuleForFixture(config, group[0]);
+    const start = Math.min(...group.map(f => getBuyCloseTime(f.kickoff_at, rule).getTime()));
+    const end = Math.max(...group.map(f => hasResult(f)
+      ? getFullTimeAt(f).getTime()
+      : parseUTCDate(f.kickoff_at).getTime() + LIVE_MATCH_GRACE_HOURS * 60 * MINUTE_MS
+    )) + rule.reopen_after_full_time_minutes * MINUTE_MS;
+
+    return {
+      label: `Matchday ${group[0].matchday}`,
+      start: new Date(start),
+      end: new Date(end),
+      complete: group.every(hasResult),
+    };
+  });
+};
+
+/**
+ * Evaluate the trading window for a club
+ *
+ * @param teamId - Club id
+ * @param fixtures - Fixtures around `now` (all clubs, needed for matchday freezes)
+ * @param config - Rules per competition and unlifted halts
+ * @param now - Evaluation time
+ * @returns Whether trading is open, with the next close / reopen time when known
+ */
+export const evaluateTradingWindow = (
+  teamId: number,
+  fixtures: TradingWindowFixture[],
+  config: TradingWindowConfig,
+  now: Date = new Date()
+): TradingWindowStatus => {
+  const halts = getActiveHalts(teamId, config.halts, now);
+  if (halts.length > 0) {
+    const ends = halts.map(h => h.ends_at);
+    return {
+      isOpen: false,
+      reopensAt: ends.includes(null) ? undefined : new Date(Math.max(...ends.map(end => parseUTCDate(end!).getTime()))),
+      reason: `Trading halted: ${halts[0].reason}`,
+    };
+  }
+
+  const teamFixtures = fixtures.filter(f =>
+    f.status !== 'postponed' && (f.home_team_id === teamId || f.away_team_id === teamId)
+  );
+
+  const liveMatch = teamFixtures.find(f => isMatchInProgress(f, now));
+  if (liveMatch) {
+    return {
+      isOpen: false,
+      nextKickoffTime: parseUTCDate(liveMatch.kickoff_at),
+      reason: 'Trading closed. Match in progress.',
+    };
+  }
+
+  const reopenTimes = teamFixtures
+    .filter(f => hasResult(f) && getRuleForFixture(config, f).reopen_after_full_time_minutes > 0)
+    .map(f => getFullTimeAt(f).getTime() + getRuleForFixture(config, f).reopen_after_full_time_minutes * MINUTE_MS)
+    .filter(reopen => reopen > now.getTime());
+  if (reopenTimes.length > 0) {
+    const reopensAt = new Date(Math.max(...reopenTimes));
+    return {
+      isOpen: false,
+      reopensAt,
+      reason: `Trading closed after the final whistle. Reopens at ${reopensAt.toLocaleString()}`,
+    };
+  }
+
+  const freezes = getMatchdayFreezes(fixtures, config);
+  const activeFreeze = freezes.find(freeze => freeze.start <= now && now < freeze.end);
+  if (activeFreeze) {
+    return {
+      isOpen: false,
+      reopensAt: activeFreeze.complete ? activeFreeze.end : undefined,
+      reason: `Trading closed. ${activeFreeze.label} freeze in progress.`,
+    };
+  }
+
+  const upcoming = teamFixtures
+    .filter(f => f.status === 'scheduled' && parseUTCDate(f.kickoff_at) > now)
+    .map(f => ({ kickoff: parseUTCDate(f.kickoff_at), close: getBuyCloseTime(f.kickoff_at, getRuleForFixture(config, f)) }))
+    .sort((a, b) => a.kickoff.getTime() - b.kickoff.getTime());
+
+  const closedAhead = upcoming.find(f => f.close <= now);
+  if (closedAhead) {
+    return {
+      isOpen: false,
+      nextCloseTime: closedAhead.close,
+      nextKickoffTime: closedAhead.kickoff,
+      reason: `Trading closed. Buy window closed at ${closedAhead.close.toLocaleString()}. Next match starts at ${closedAhead.kickoff.toLocaleString()}`,
+    };
+  }
+
+  const closeTimes = [
+    ...upcoming.map(f => f.close.getTime()),
+    ...freezes.filter(freeze => freeze.start > now).map(freeze => freeze.start.getTime()),
+  ];
+  if (closeTimes.length === 0) {
+    return { isOpen: true, reason: 'No upcoming fixtures - trading open' };
+  }
+
+  const nextCloseTime = new Date(Math.min(...closeTimes));
+  return {
+    isOpen: true,
+    nextCloseTime,
+    nextKickoffTime: upcoming[0]?.kickoff,
+    reason: `Trading open until ${nextCloseTime.toLocaleString()}`,
+  };
+};
+
+/**
+ * Validate a rule before saving it
+ *
+ * @returns Error message, or null when valid
+ */
+export const validateTradingWindowRule = (rule: TradingWindowRule): string | null => {
+  const { close_before_kickoff_minutes: close, reopen_after_full_time_minutes: reopen } = rule;
+  if (!Number.isInteger(close) || close < 0 || close > 24 * 60) {
+    return 'Close time must be between 0 and 1440 minutes before kickoff';
+  }
+  if (!Number.isInteger(reopen) || reopen < 0 || reopen > 24 * 60) {
+    return 'Reopen delay must be between 0 and 1440 minutes';
+  }
+  return null;
+};
@@ -0,0 +1,257 @@
+/**
+ * Market Cap Transfer Rules Engine
+ *
+ * Pure, versioned rules for how a match result moves market cap between the
+ * two clubs. The same calculation runs in three places and must stay in sync:
+ * - Client-side previews and simulations (SeasonSimulation, seasonSimulationService)
+ * - The database processing path (calculate_match_transfer in SQL), which
+ *   records the rule version and parameters on every transfers_ledger row
+ * - Offline tooling that replays history from the ledger
+ *
+ * Rule sets are immutable once published: to change behaviour, add a new
+ * version rather than editing an existing one, so historical ledger rows can
+ * always be reproduced from the version they recorded.
+ *
+ * All market caps are BIGINT cents, matching the database. Transfer amounts
+ * are rounded to whole cents (ROUND_HALF_UP) and total market cap is always
+ * conserved: whatever one club loses, the other gains.
+ */
+
+import { Decimal, toDecimal } from './decimal';
+
+export type CompetitionType = 'league' | 'cup';
+
+export type MatchOutcome = 'home_win' | 'away_win' | 'draw';
+
+export interface TransferRuleParams {
+  /** Fraction of the loser's market cap transferred for a one-goal win (0.10 = 10%) */
+  baseTransferRate: number;
+  /** Extra rate added per goal of winning margin beyond the first (0 disables scaling) */
+  goalDifferenceStep: number;
+  /** Largest winning margin counted for goal-difference scaling */
+  maxGoalDifference: number;
+  /** Fraction of the favourite's cap transferred to the underdog on a draw (0 = no transfer) */
+  drawTransferRate: number;
+  /** Multiplier applied when the home side wins */
+  homeWinWeight: number;
+  /** Multiplier applied when the away side wins */
+  awayWinWeight: number;
+  /** Multiplier per competition type */
+  competitionMultipliers: Record<CompetitionType, number>;
+  /** Hard ceiling on the final transfer rate */
+  maxTransferRate: number;
+  /** Market cap floor in cents; the paying club never drops below it */
+  minMarketCapCents: number;
+}
+
+export interface TransferRuleSet {
+  version: string;
+  description: string;
+  params: TransferRuleParams;
+}
+
+export interface MatchTransferInput {
+  homeCapCents: number;
+  awayCapCents: number;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  /** Explicit result; derived from scores when omitted */
+  result?: MatchOutcome | null;
+  competitionType?: CompetitionType;
+}
+
+export interface MatchTransferResult {
+  outcome: MatchOutcome;
+  /** Side receiving market cap, null when nothing moves */
+  receiver: 'home' | 'away' | null;
+  transferCents: number;
+  /** Effective rate applied to the paying club's cap */
+  rate: number;
+  homeCapAfterCents: number;
+  awayCapAfterCents: number;
+  ruleVersion: string;
+  params: TransferRuleParams;
+}
+
+/**
+ * v1 - the original model: winner takes 10% of the loser's cap,
+ * draws move nothing, $10 floor. Matches the legacy database trigger.
+ */
+const LEGACY_RULES: TransferRuleSet = {
+  version: 'v1',
+  description: 'Winner takes 10% of loser market cap; draws transfer nothing',
+  params: {
+    baseTransferRate: 0.10,
+    goalDifferenceStep: 0,
+    maxGoalDifference: 1,
+    drawTransferRate: 0,
+    homeWinWeight: 1,
+    awayWinWeight: 1,
+    competitionMultipliers: { league: 1, cup: 1 },
+    maxTransferRate: 0.10,
+    minMarketCapCents: 1000,
+  },
+};
+
+/**
+ * v2 - margin-aware model: +2.5% per extra goal (up to 3), away wins weighted
+ * up, draws move 2% from favourite to underdog, cup ties count 1.5x.
+ */
+const MARGIN_WEIGHTED_RULES: TransferRuleSet = {
+  version: 'v2',
+  description: 'Goal-difference scaling, away-win weighting, draw transfer to underdog, cup multiplier',
+  params: {
+    baseTransferRate: 0.10,
+    goalDifferenceStep: 0.025,
+    maxGoalDifference: 3,
+    drawTransferRate: 0.02,
+    homeWinWeight: 1,
+    awayWinWeight: 1.1,
+    competitionMultipliers: { league: 1, cup: 1.5 },
+    maxTransferRate: 0.25,
+    minMarketCapCents: 1000,
+  },
+};
+
+export const TRANSFER_RULE_SETS: Readonly<Record<string, TransferRuleSet>> = {
+  [LEGACY_RULES.version]: LEGACY_RULES,
+  [MARGIN_WEIGHTED_RULES.version]: MARGIN_WEIGHTED_RULES,
+};
+
+/** Version used when the database has not told us which rule set is active */
+export const DEFAULT_TRANSFER_RULE_VERSION = LEGACY_RULES.version;
+
+/**
+ * Look up a published rule set by version
+ *
+ * @param version - Rule set version (default: DEFAULT_TRANSFER_RULE_VERSION)
+ * @returns The rule set
+ * @throws Error if the version is unknown
+ */
+export const getTransferRuleSet = (version: string = DEFAULT_TRANSFER_RULE_VERSION): TransferRuleSet => {
+  const ruleSet = TRANSFER_RULE_SETS[version];
+  if (!ruleSet) {
+    throw new Error(`Unknown transfer rule version: ${version}`);
+  }
+  return ruleSet;
+};
+
+/**
+ * Build a rule set from a version and stored parameters (e.g. a transfers_ledger row)
+ * Missing parameters fall back to the published version, so older rows stay readable.
+ */
+export const resolveTransferRuleSet = (
+  version: string | null | undefined,
+  params?: Partial<TransferRuleParams> | null
+): TransferRuleSet => {
+  const base = TRANSFER_RULE_SETS[version || ''] || getTransferRuleSet();
+  if (!params) {
+    return base;
+  }
+  return {
+    version: version || base.version,
+    description: base.description,
+    params: {
+      ...base.params,
+      ...params,
+      competitionMultipliers: { ...base.params.competitionMultipliers, ...(params.competitionMultipliers || {}) },
+    },
+  };
+};
+
+/**
+ * Derive the match outcome from scores, or use the explicit result
+ */
+export const resolveMatchOutcome = (input: Pick<MatchTransferInput, 'homeScore' | 'awayScore' | 'result'>): MatchOutcome => {
+  if (input.result) {
+    return input.result;
+  }
+  const home = input.homeScore ?? 0;
+  const away = input.awayScore ?? 0;
+  if (home > away) return 'home_win';
+  if (away > home) return 'away_win';
+  return 'draw';
+};
+
+/**
+ * Calculate the effective transfer rate for a decisive result
+ *
+ * @param params - Rule parameters
+ * @param goalDifference - Winning margin (treated as 1 when unknown)
+ * @param winner - Which side won
+ * @param competitionType - League or cup
+ * @returns Rate applied to the loser's market cap
+ */
+export const calculateWinTransferRate = (
+  params: TransferRuleParams,
+  goalDifference: number,
+  winner: 'home' | 'away',
+  competitionType: CompetitionType = 'league'
+): Decimal => {
+  const margin = Math.min(Math.max(1, Math.abs(goalDifference)), Math.max(1, params.maxGoalDifference));
+  const rate = toDecimal(params.baseTransferRate)
+    .plus(toDecimal(params.goalDifferenceStep).times(margin - 1))
+    .times(winner === 'home' ? params.homeWinWeight : params.awayWinWeight)
+    .times(params.competitionMultipliers[competitionType] ?? 1);
+  return Decimal.min(rate, toDecimal(params.maxTransferRate));
+};
+
+/**
+ * Apply a rule set to a match result
+ *
+ * @param input - Pre-match market caps (cents), score and competition
+ * @param ruleSet - Rule set to apply (default: DEFAULT_TRANSFER_RULE_VERSION)
+ * @returns Transfer amount, receiving side and resulting caps
+ */
+export const calculateMatchTransfer = (
+  input: MatchTransferInput,
+  ruleSet: TransferRuleSet = getTransferRuleSet()
+): MatchTransferResult => {
+  const { params } = ruleSet;
+  const competitionType = input.competitionType ?? 'league';
+  const outcome = resolveMatchOutcome(input);
+  const homeCap = toDecimal(input.homeCapCents);
+  const awayCap = toDecimal(input.awayCapCents);
+
+  let receiver: 'home' | 'away' | null = null;
+  let rate = new Decimal(0);
+
+  if (outcome === 'draw') {
+    // Favourite (higher cap) pays the underdog; equal caps move nothing
+    if (params.drawTransferRate > 0 && !homeCap.equals(awayCap)) {
+      receiver = homeCap.lessThan(awayCap) ? 'home' : 'away';
+      rate = Decimal.min(
+        toDecimal(params.drawTransferRate).times(params.competitionMultipliers[competitionType] ?? 1),
+        toDecimal(params.maxTransferRate)
+      );
+    }
+  } else {
+    receiver = outcome === 'home_win' ? 'home' : 'away';
+    const goalDifference = (input.homeScore ?? 0) - (input.awayScore ?? 0);
+    rate = calculateWinTransferRate(params, goalDifference, receiver, competitionType);
+  }
+
+  let transfer = new Decimal(0);
+  if (receiver) {
+    const payerCap = receiver === 'home' ? awayCap : homeCap;
+    const headroom = Decimal.max(payerCap.minus(params.minMarketCapCents), 0);
+    transfer = Decimal.min(
+      payerCap.times(rate).toDecimalPlaces(0, Decimal.ROUND_HALF_UP),
+      headroom
+    );
+  }
+
+  const transferCents = transfer.toNumber();
+  const homeDelta = receiver === 'home' ? transferCents : receiver === 'away' ? -transferCents : 0;
+
+  return {
+    outcome,
+    receiver: transferCents > 0 ? receiver : null,
+    transferCents,
+    rate: rate.toNumber(),
+    homeCapAfterCents: homeCap.plus(homeDelta).toNumber(),
+    awayCapAfterCents: awayCap.minus(homeDelta).toNumber(),
+    ruleVersion: ruleSet.version,
+    params,
+  };
+};
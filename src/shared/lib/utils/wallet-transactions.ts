@@ -0,0 +1,32 @@
+/**
+ * Wallet Transaction Types
+ *
+ * How each wallet_transactions type moves the wallet, shared by the account
+ * statement and the portfolio history so both rebuild the same balance.
+ * Amounts are stored positive; the sign gives the direction. Limit and P2P
+ * reservations leave the wallet when the order is placed and any unused
+ * part comes back on release; a P2P purchase is paid out of its
+ * reservation, so the p2p_buy row itself does not move cash.
+ */
+
+export type WalletCashCategory = 'deposits' | 'withdrawals' | 'purchases' | 'sales' | 'fees' | 'dividends' | 'reservations' | 'other';
+
+/** Wallet effect per transaction type: category and sign of amount_cents */
+export const WALLET_TRANSACTION_EFFECTS: Record<string, { category: WalletCashCategory; sign: 1 | -1 | 0 }> = {
+  deposit: { category: 'deposits', sign: 1 },
+  withdrawal: { category: 'withdrawals', sign: -1 },
+  // Refund of a rejected or failed withdrawal
+  withdrawal_reversal: { category: 'withdrawals', sign: 1 },
+  purchase: { category: 'purchases', sign: -1 },
+  sale: { category: 'sales', sign: 1 },
+  p2p_buy: { category: 'purchases', sign: 0 },
+  p2p_sale: { category: 'sales', sign: 1 },
+  trade_fee: { category: 'fees', sign: -1 },
+  dividend: { category: 'dividends', sign: 1 },
+  limit_reserve: { category: 'reservations', sign: -1 },
+  limit_release: { category: 'reservations', sign: 1 },
+  p2p_reserve: { category: 'reservations', sign: -1 },
+  p2p_release: { category: 'reservations', sign: 1 },
+  refund: { category: 'other', sign: 1 },
+  adjustment: { category: 'other', sign: 1 },
+};
@@ -0,0 +1,218 @@
+/**
+ * Withdrawal Utilities
+ *
+ * Lifecycle rules for wallet withdrawals plus the Stripe payout steps used by
+ * the process-withdrawal and stripe-webhook functions. The Stripe client and
+ * the database are passed in, so the payout flow can run against stubs.
+ *
+ * Lifecycle (mirrors the withdrawal_requests functions in SQL):
+ * - requested -> approved | rejected (admin review)
+ * - approved  -> paid (transfer.created) | failed (payout error)
+ * - paid      -> failed (transfer.reversed)
+ * Rejected and failed withdrawals are refunded to the wallet.
+ */
+
+import { toCents } from './decimal';
+
+export type WithdrawalStatus = 'requested' | 'approved' | 'rejected' | 'paid' | 'failed';
+
+/** Same $10.00 floor as deposits */
+export const MIN_WITHDRAWAL_CENTS = 1000;
+
+export const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['paid', 'failed'],
+  paid: ['failed'],
+  rejected: [],
+  failed: [],
+};
+
+export interface PayableWithdrawal {
+  id: number;
+  userId: string;
+  amountCents: number;
+  status: WithdrawalStatus;
+  /** Stripe Connect account receiving the payout */
+  destinationAccountId: string | null;
+  /** Set once a transfer has been created */
+  stripeTransferId?: string | null;
+}
+
+/** The subset of the Stripe SDK the payout flow relies on */
+export interface WithdrawalPayoutClient {
+  transfers: {
+    create(
+      params: {
+        amount: number;
+        currency: string;
+        destination: string;
+        description?: string;
+        metadata?: Record<string, string>;
+      },
+      options?: { idempotencyKey?: string }
+    ): Promise<{ id: string }>;
+  };
+}
+
+/** Persistence for payout state, backed by the settlement RPCs in production */
+export interface WithdrawalPayoutStore {
+  recordTransfer(withdrawalId: number, transferId: string, destinationAccountId: string): Promise<void>;
+  complete(withdrawalId: number, transferId: string): Promise<void>;
+  fail(withdrawalId: number, reason: string): Promise<void>;
+}
+
+/** Minimal shape of a Stripe transfer webhook event */
+export interface WithdrawalTransferEvent {
+  type: string;
+  data: {
+    object: {
+      id: string;
+      metadata?: Record<string, string> | null;
+    };
+  };
+}
+
+export type WithdrawalEventOutcome = 'paid' | 'failed' | 'ignored';
+
+/**
+ * Check whether a withdrawal may move from one status to another
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ */
+export const canTransitionWithdrawal = (from: WithdrawalStatus, to: WithdrawalStatus): boolean => {
+  return WITHDRAWAL_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Check whether a withdrawal still holds the user's money
+ * Requested, approved and paid withdrawals have left the wallet; rejected
+ * and failed ones have been refunded.
+ *
+ * @param status - Withdrawal status
+ * @returns True if the amount is currently debited from the wallet
+ */
+export const isWithdrawalOutstanding = (status: WithdrawalStatus): boolean => {
+  return status === 'requested' || status === 'approved' || status === 'paid';
+};
+
+/**
+ * Validate a withdrawal amount before sending it to the database
+ *
+ * @param amount - Amount to withdraw (dollars)
+ * @param walletBalance - Cash available in the wallet (dollars)
+ * @returns Validation result with error messages
+ */
+export const validateWithdrawalAmount = (
+  amount: number,
+  walletBalance: number
+): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!(amount > 0) || !Number.isFinite(amount)) {
+    errors.push('Enter an amount greater than 0');
+  } else {
+    const amountCents = toCents(amount);
+    if (amountCents < MIN_WITHDRAWAL_CENTS) {
+      errors.push(`Minimum withdrawal is $${(MIN_WITHDRAWAL_CENTS / 100).toFixed(2)}`);
+    }
+    if (amountCents > toCents(walletBalance)) {
+      errors.push('Insufficient wallet balance');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Idempotency key for a withdrawal's Stripe transfer
+ * Retrying a payout reuses the key, so Stripe never creates a second transfer.
+ *
+ * @param withdrawalId - Withdrawal request id
+ * @returns Stripe idempotency key
+ */
+export const getWithdrawalIdempotencyKey = (withdrawalId: number): string => {
+  return `withdrawal_${withdrawalId}`;
+};
+
+/**
+ * Send an approved withdrawal to the user's connected account
+ * Safe to retry: an already recorded transfer is returned as-is and the
+ * Stripe request carries a per-withdrawal idempotency key.
+ *
+ * @param client - Stripe client (or stub)
+ * @param store - Payout state store
+ * @param withdrawal - Withdrawal to pay out
+ * @returns Stripe transfer id
+ */
+export const payoutWithdrawal = async (
+  client: WithdrawalPayoutClient,
+  store: WithdrawalPayoutStore,
+  withdrawal: PayableWithdrawal
+): Promise<string> => {
+  if (withdrawal.status !== 'approved') {
+    throw new Error(`Withdrawal ${withdrawal.id} is ${withdrawal.status}, not approved`);
+  }
+
+  if (withdrawal.stripeTransferId) {
+    return withdrawal.stripeTransferId;
+  }
+
+  if (!withdrawal.destinationAccountId) {
+    throw new Error(`Withdrawal ${withdrawal.id} has no payout account`);
+  }
+
+  const transfer = await client.transfers.create(
+    {
+      amount: withdrawal.amountCents,
+      currency: 'usd',
+      destination: withdrawal.destinationAccountId,
+      description: `Wallet withdrawal #${withdrawal.id}`,
+      metadata: {
+        withdrawal_id: String(withdrawal.id),
+        user_id: withdrawal.userId,
+      },
+    },
+    { idempotencyKey: getWithdrawalIdempotencyKey(withdrawal.id) }
+  );
+
+  await store.recordTransfer(withdrawal.id, transfer.id, withdrawal.destinationAccountId);
+  return transfer.id;
+};
+
+/**
+ * Settle a withdrawal from a Stripe transfer webhook
+ * Events for transfers that are not withdrawals are ignored. Duplicate
+ * deliveries are filtered by the stripe_events guard and the settlement
+ * RPCs are themselves idempotent.
+ *
+ * @param store - Payout state store
+ * @param event - Stripe webhook event
+ * @returns What the event did to the withdrawal
+ */
+export const handleWithdrawalTransferEvent = async (
+  store: WithdrawalPayoutStore,
+  event: WithdrawalTransferEvent
+): Promise<WithdrawalEventOutcome> => {
+  const transfer = event.data.object;
+  const withdrawalId = parseInt(transfer.metadata?.withdrawal_id || '', 10);
+  if (!Number.isInteger(withdrawalId)) {
+    return 'ignored';
+  }
+
+  if (event.type === 'transfer.created') {
+    await store.complete(withdrawalId, transfer.id);
+    return 'paid';
+  }
+
+  if (event.type === 'transfer.reversed') {
+    await store.fail(withdrawalId, `Stripe transfer ${transfer.id} reversed`);
+    return 'failed';
+  }
+
+  return 'ignored';
+};
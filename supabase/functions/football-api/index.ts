@@ -1,4 +1,72 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  createFootballDataProvider,
+  parseRecording,
+  resolveFootballDataProviderId,
+  type FootballDataProvider
+} from "../../../src/shared/lib/football-providers/index.ts"
+
+// Football data provider: football-data (default), api-football, or recorded,
+// which replays the JSON file at FOOTBALL_RECORDING_PATH. Responses keep the
+// football-data.org v4 envelopes whichever provider serves them.
+let providerPromise: Promise<FootballDataProvider> | null = null
+
+const getProvider = (): Promise<FootballDataProvider> => {
+  if (!providerPromise) {
+    providerPromise = (async () => {
+      const provider = resolveFootballDataProviderId(Deno.env.get('FOOTBALL_DATA_PROVIDER'))
+
+      if (provider === 'recorded') {
+        const recordingPath = Deno.env.get('FOOTBALL_RECORDING_PATH')
+        if (!recordingPath) {
+          throw new Error('Football data recording not configured')
+        }
+        return createFootballDataProvider({
+          provider,
+          recording: parseRecording(JSON.parse(await Deno.readTextFile(recordingPath))),
+          now: () => new Date()
+        })
+      }
+
+      const apiKey = Deno.env.get(provider === 'api-football' ? 'API_FOOTBALL_KEY' : 'FOOTBALL_API_KEY')
+      if (!apiKey) {
+        throw new Error('Football API key not configured')
+      }
+      return createFootballDataProvider({ provider, footballDataApiKey: apiKey, apiFootballApiKey: apiKey })
+    })()
+    providerPromise.catch(() => { providerPromise = null })
+  }
+  return providerPromise
+}
+
+// Serve a football-data.org path through the provider; null for paths the
+// provider interface does not cover
+const serveFromProvider = async (provider: FootballDataProvider, path: string, params: URLSearchParams): Promise<unknown | null> => {
+  const season = parseInt(params.get('season') || '2025')
+  const competitionRoute = /^competitions\/([A-Z0-9]+)\/(matches|teams|standings|scorers)$/.exec(path)
+
+  if (competitionRoute) {
+    const [, code, resource] = competitionRoute
+    switch (resource) {
+      case 'matches': return { matches: await provider.getMatches(code, season) }
+      case 'teams': return { teams: await provider.getTeams(code, season) }
+      case 'standings': return { standings: [{ type: 'TOTAL', table: await provider.getStandings(code, season) }] }
+      case 'scorers': return { scorers: await provider.getScorers(code, season, parseInt(params.get('limit') || '10')) }
+    }
+  }
+
+  const matchRoute = /^matches\/(\d+)$/.exec(path)
+  if (matchRoute) {
+    return provider.getMatch(parseInt(matchRoute[1]))
+  }
+
+  if (path === 'matches' && params.get('status') === 'LIVE') {
+    const codes = (params.get('competitions') || 'PL').split(',')
+    return { matches: await provider.getLiveMatches(codes) }
+  }
+
+  return null
+}
 
 // Get allowed origins from environment
 const getAllowedOrigin = (origin: string | null): string | null => {
@@ -73,6 +141,19 @@ serve(async (req) => {
       throw new Error('Invalid path')
     }
     
+    const provider = await getProvider()
+    const served = await serveFromProvider(provider, path, url.searchParams)
+    if (served !== null) {
+      return new Response(JSON.stringify(served), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Team details and head-to-head only exist on football-data.org
+    if (provider.id !== 'football-data') {
+      throw new Error(`Unsupported path for the ${provider.id} provider`)
+    }
+
     // Get API key from environment
     const apiKey = Deno.env.get('FOOTBALL_API_KEY')
     if (!apiKey) {
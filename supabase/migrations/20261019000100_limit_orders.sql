@@ -0,0 +1,415 @@
+-- Limit orders
+--
+-- A limit order is a resting BUY/SELL instruction stored in `orders` with
+-- order_kind = 'LIMIT' and status = 'PENDING'. Placing one reserves the
+-- worst-case cash (BUY) or the shares (SELL). The matcher executes triggered
+-- orders through the same atomic purchase/sale RPCs used for market orders,
+-- so the FILLED market order it creates is the trade record. The limit row
+-- then moves to TRIGGERED and points at that fill via filled_order_id.
+--
+-- Lifecycle: PENDING -> TRIGGERED | CANCELLED | EXPIRED
+-- All money values are BIGINT cents, matching the rest of the schema.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_kind TEXT NOT NULL DEFAULT 'MARKET';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS limit_price BIGINT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reserved_cents BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS filled_order_id INTEGER REFERENCES orders(id);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancel_reason TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS last_match_error TEXT;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('PENDING', 'FILLED', 'CANCELLED', 'EXPIRED', 'TRIGGERED'));
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_kind_check;
+ALTER TABLE orders ADD CONSTRAINT orders_order_kind_check
+  CHECK (order_kind IN ('MARKET', 'LIMIT'));
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_limit_price_check;
+ALTER TABLE orders ADD CONSTRAINT orders_limit_price_check
+  CHECK (order_kind = 'MARKET' OR (limit_price IS NOT NULL AND limit_price > 0));
+
+-- Shares committed to resting SELL limit orders
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS reserved_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE positions DROP CONSTRAINT IF EXISTS valid_reserved_quantity;
+ALTER TABLE positions ADD CONSTRAINT valid_reserved_quantity
+  CHECK (reserved_quantity >= 0 AND reserved_quantity <= quantity);
+
+CREATE INDEX IF NOT EXISTS idx_orders_open_limit
+  ON orders (team_id, order_type)
+  WHERE order_kind = 'LIMIT' AND status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_orders_limit_expiry
+  ON orders (expires_at)
+  WHERE order_kind = 'LIMIT' AND status = 'PENDING';
+
+-- ============================================================
+-- Trading window (server-side mirror of buyWindowService)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION is_team_trading_window_open(p_team_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM fixtures f
+    WHERE (f.home_team_id = p_team_id OR f.away_team_id = p_team_id)
+      AND COALESCE(f.result, 'pending') = 'pending'
+      AND (
+        -- Match in progress ('closed' kept for backward compatibility)
+        f.status IN ('live', 'closed')
+        -- Kickoff passed but status not yet updated from the API
+        OR (f.status = 'scheduled' AND f.kickoff_at <= NOW() AND f.kickoff_at > NOW() - INTERVAL '4 hours')
+        -- Buy window closed ahead of kickoff
+        OR (f.status = 'scheduled' AND f.buy_close_at <= NOW() AND f.kickoff_at > NOW())
+      )
+  );
+$$;
+
+-- ============================================================
+-- Place
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION place_limit_order(
+  p_user_id UUID,
+  p_team_id INTEGER,
+  p_order_type TEXT,
+  p_quantity INTEGER,
+  p_limit_price_cents BIGINT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_reserved_cents BIGINT := 0;
+  v_balance BIGINT;
+  v_position RECORD;
+  v_order_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot place orders for another user';
+  END IF;
+
+  IF p_order_type NOT IN ('BUY', 'SELL') THEN
+    RAISE EXCEPTION 'Invalid order type: %', p_order_type;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  IF p_limit_price_cents IS NULL OR p_limit_price_cents <= 0 THEN
+    RAISE EXCEPTION 'Limit price must be greater than 0';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  SELECT id, market_cap, total_shares, shares_outstanding
+  INTO v_team
+  FROM teams
+  WHERE id = p_team_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF p_order_type = 'BUY' THEN
+    v_reserved_cents := p_limit_price_cents * p_quantity;
+
+    SELECT wallet_balance INTO v_balance
+    FROM profiles
+    WHERE id = p_user_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < v_reserved_cents THEN
+      RAISE EXCEPTION 'Insufficient balance to reserve % cents', v_reserved_cents;
+    END IF;
+
+    UPDATE profiles
+    SET wallet_balance = wallet_balance - v_reserved_cents,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+  ELSE
+    SELECT id, quantity, reserved_quantity INTO v_position
+    FROM positions
+    WHERE user_id = p_user_id AND team_id = p_team_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_position.quantity - v_position.reserved_quantity) < p_quantity THEN
+      RAISE EXCEPTION 'Insufficient shares available to reserve';
+    END IF;
+
+    UPDATE positions
+    SET reserved_quantity = reserved_quantity + p_quantity,
+        updated_at = NOW()
+    WHERE id = v_position.id;
+  END IF;
+
+  INSERT INTO orders (
+    user_id, team_id, order_type, order_kind, quantity,
+    price_per_share, total_amount, limit_price, reserved_cents,
+    expires_at, status, market_cap_before, shares_outstanding_before
+  ) VALUES (
+    p_user_id, p_team_id, p_order_type, 'LIMIT', p_quantity,
+    p_limit_price_cents, p_limit_price_cents * p_quantity, p_limit_price_cents, v_reserved_cents,
+    p_expires_at, 'PENDING', v_team.market_cap, v_team.shares_outstanding
+  )
+  -- Insert triggers may add to the reservation (the trading fee)
+  RETURNING id, reserved_cents INTO v_order_id, v_reserved_cents;
+
+  IF v_reserved_cents > 0 THEN
+    INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+    VALUES (p_user_id, v_reserved_cents, 'limit_reserve', 'limit_order:' || v_order_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'reserved_cents', v_reserved_cents
+  );
+END;
+$$;
+
+-- ============================================================
+-- Release (shared by cancel, expiry and fill)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION release_limit_order_reservation(p_order_id INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.order_type = 'BUY' AND v_order.reserved_cents > 0 THEN
+    UPDATE profiles
+    SET wallet_balance = wallet_balance + v_order.reserved_cents,
+        updated_at = NOW()
+    WHERE id = v_order.user_id;
+
+    INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+    VALUES (v_order.user_id, v_order.reserved_cents, 'limit_release', 'limit_order:' || v_order.id);
+  ELSIF v_order.order_type = 'SELL' THEN
+    UPDATE positions
+    SET reserved_quantity = GREATEST(reserved_quantity - v_order.quantity, 0),
+        updated_at = NOW()
+    WHERE user_id = v_order.user_id AND team_id = v_order.team_id;
+  END IF;
+
+  UPDATE orders SET reserved_cents = 0, updated_at = NOW() WHERE id = p_order_id;
+END;
+$$;
+
+-- ============================================================
+-- Cancel
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION cancel_limit_order(
+  p_order_id INTEGER,
+  p_user_id UUID,
+  p_reason TEXT DEFAULT 'user_cancelled'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot cancel orders for another user';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND user_id = p_user_id AND order_kind = 'LIMIT'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Limit order not found');
+  END IF;
+
+  IF v_order.status <> 'PENDING' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order is no longer open (' || v_order.status || ')');
+  END IF;
+
+  PERFORM release_limit_order_reservation(p_order_id);
+
+  UPDATE orders
+  SET status = 'CANCELLED',
+      cancelled_at = NOW(),
+      cancel_reason = p_reason,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order_id', p_order_id);
+END;
+$$;
+
+-- ============================================================
+-- Expire
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION expire_limit_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE order_kind = 'LIMIT'
+      AND status = 'PENDING'
+      AND expires_at IS NOT NULL
+      AND expires_at <= NOW()
+    ORDER BY expires_at
+  LOOP
+    PERFORM 1 FROM orders WHERE id = v_order_id AND status = 'PENDING' FOR UPDATE;
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM release_limit_order_reservation(v_order_id);
+
+    UPDATE orders
+    SET status = 'EXPIRED',
+        cancelled_at = NOW(),
+        cancel_reason = 'expired',
+        updated_at = NOW()
+    WHERE id = v_order_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================
+-- Match
+-- ============================================================
+
+-- Fills every resting limit order whose limit has been crossed by the
+-- current NAV, provided the club's trading window is open. Each order runs
+-- in its own sub-transaction so one failure leaves the others untouched.
+-- BUY triggers when NAV <= limit, SELL triggers when NAV >= limit; both
+-- execute at the current NAV, never at a worse price than the limit.
+CREATE OR REPLACE FUNCTION match_limit_orders(p_team_id INTEGER DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_nav NUMERIC;
+  v_nav_cents BIGINT;
+  v_result JSONB;
+  v_fill_id INTEGER;
+  v_filled INTEGER := 0;
+  v_failed INTEGER := 0;
+BEGIN
+  FOR v_order IN
+    SELECT o.*, t.market_cap AS team_market_cap, COALESCE(NULLIF(t.total_shares, 0), 1000) AS team_total_shares
+    FROM orders o
+    JOIN teams t ON t.id = o.team_id
+    WHERE o.order_kind = 'LIMIT'
+      AND o.status = 'PENDING'
+      AND (o.expires_at IS NULL OR o.expires_at > NOW())
+      AND (p_team_id IS NULL OR o.team_id = p_team_id)
+    ORDER BY o.created_at, o.id
+  LOOP
+    IF NOT is_team_trading_window_open(v_order.team_id) THEN
+      CONTINUE;
+    END IF;
+
+    -- NAV in dollars (rounded like calculateSharePrice) and in cents for comparison
+    v_nav := ROUND(v_order.team_market_cap::NUMERIC / v_order.team_total_shares / 100, 2);
+    v_nav_cents := (v_nav * 100)::BIGINT;
+
+    IF (v_order.order_type = 'BUY' AND v_nav_cents > v_order.limit_price)
+       OR (v_order.order_type = 'SELL' AND v_nav_cents < v_order.limit_price) THEN
+      CONTINUE;
+    END IF;
+
+    -- The loop reads an unlocked snapshot; skip orders a concurrent run or a
+    -- cancellation has already taken out of PENDING
+    PERFORM 1 FROM orders WHERE id = v_order.id AND status = 'PENDING' FOR UPDATE;
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      PERFORM release_limit_order_reservation(v_order.id);
+
+      IF v_order.order_type = 'BUY' THEN
+        v_result := to_jsonb(process_share_purchase_atomic(
+          v_order.user_id, v_order.team_id, v_order.quantity, v_nav, v_nav * v_order.quantity
+        ));
+      ELSE
+        v_result := to_jsonb(process_share_sale_atomic(
+          v_order.user_id, v_order.team_id, v_order.quantity, v_nav, v_nav * v_order.quantity
+        ));
+      END IF;
+
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Execution failed');
+      END IF;
+
+      v_fill_id := (v_result->>'order_id')::INTEGER;
+
+      UPDATE orders
+      SET status = 'TRIGGERED',
+          filled_order_id = v_fill_id,
+          executed_at = NOW(),
+          last_match_error = NULL,
+          updated_at = NOW()
+      WHERE id = v_order.id;
+
+      v_filled := v_filled + 1;
+    EXCEPTION WHEN OTHERS THEN
+      -- Sub-transaction rolled back: reservation is intact, order stays PENDING
+      UPDATE orders
+      SET last_match_error = SQLERRM,
+          updated_at = NOW()
+      WHERE id = v_order.id;
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('filled', v_filled, 'failed', v_failed);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_team_trading_window_open(INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION place_limit_order(UUID, INTEGER, TEXT, INTEGER, BIGINT, TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION cancel_limit_order(INTEGER, UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION expire_limit_orders() TO service_role;
+GRANT EXECUTE ON FUNCTION match_limit_orders(INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION expire_limit_orders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_limit_orders(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_limit_order_reservation(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,255 @@
+-- Stop-loss / take-profit triggers on positions
+--
+-- Users arm a stop-loss and/or take-profit price (BIGINT cents per share) on
+-- their row in `positions`. After match results are applied, the match
+-- update job evaluates armed triggers against the new NAV. A crossed trigger
+-- is disarmed and queued in position_trigger_events; queued events are
+-- executed through process_share_sale_atomic (the same path as sellClub) the
+-- next time the club's trading window is open.
+--
+-- Event lifecycle: queued -> executed | failed | cancelled
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS stop_loss_price BIGINT;
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS take_profit_price BIGINT;
+
+ALTER TABLE positions DROP CONSTRAINT IF EXISTS valid_trigger_prices;
+ALTER TABLE positions ADD CONSTRAINT valid_trigger_prices
+  CHECK (
+    (stop_loss_price IS NULL OR stop_loss_price > 0)
+    AND (take_profit_price IS NULL OR take_profit_price > 0)
+    AND (stop_loss_price IS NULL OR take_profit_price IS NULL OR stop_loss_price < take_profit_price)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_positions_armed_triggers
+  ON positions (team_id)
+  WHERE stop_loss_price IS NOT NULL OR take_profit_price IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS position_trigger_events (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id),
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN ('stop_loss', 'take_profit')),
+  trigger_price BIGINT NOT NULL,
+  nav_at_trigger BIGINT NOT NULL,
+  quantity INTEGER,
+  executed_price BIGINT,
+  order_id INTEGER REFERENCES orders(id),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'executed', 'failed', 'cancelled')),
+  error TEXT,
+  triggered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  executed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One queued sale per position at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_position_trigger_events_one_queued
+  ON position_trigger_events (user_id, team_id)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_position_trigger_events_user
+  ON position_trigger_events (user_id, triggered_at DESC);
+
+ALTER TABLE position_trigger_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own trigger events" ON position_trigger_events;
+CREATE POLICY "Users can view own trigger events"
+  ON position_trigger_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================================
+-- Arm / disarm
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION set_position_triggers(
+  p_user_id UUID,
+  p_team_id INTEGER,
+  p_stop_loss_cents BIGINT,
+  p_take_profit_cents BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_position_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot set triggers for another user';
+  END IF;
+
+  SELECT id INTO v_position_id
+  FROM positions
+  WHERE user_id = p_user_id AND team_id = p_team_id AND quantity > 0
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not hold shares in this club');
+  END IF;
+
+  IF p_stop_loss_cents IS NOT NULL AND p_take_profit_cents IS NOT NULL
+     AND p_stop_loss_cents >= p_take_profit_cents THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Stop-loss must be below take-profit');
+  END IF;
+
+  UPDATE positions
+  SET stop_loss_price = p_stop_loss_cents,
+      take_profit_price = p_take_profit_cents,
+      updated_at = NOW()
+  WHERE id = v_position_id;
+
+  RETURN jsonb_build_object('success', true, 'position_id', v_position_id);
+END;
+$$;
+
+-- ============================================================
+-- Evaluate (run after match results are applied)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION evaluate_position_triggers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_position RECORD;
+  v_nav_cents BIGINT;
+  v_type TEXT;
+  v_price BIGINT;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_position IN
+    SELECT p.*, t.market_cap AS team_market_cap, COALESCE(NULLIF(t.total_shares, 0), 1000) AS team_total_shares
+    FROM positions p
+    JOIN teams t ON t.id = p.team_id
+    WHERE p.quantity > 0
+      AND (p.stop_loss_price IS NOT NULL OR p.take_profit_price IS NOT NULL)
+    FOR UPDATE OF p
+  LOOP
+    v_nav_cents := ROUND(v_position.team_market_cap::NUMERIC / v_position.team_total_shares);
+    v_type := NULL;
+
+    -- Stop-loss wins if both are somehow crossed
+    IF v_position.stop_loss_price IS NOT NULL AND v_nav_cents <= v_position.stop_loss_price THEN
+      v_type := 'stop_loss';
+      v_price := v_position.stop_loss_price;
+    ELSIF v_position.take_profit_price IS NOT NULL AND v_nav_cents >= v_position.take_profit_price THEN
+      v_type := 'take_profit';
+      v_price := v_position.take_profit_price;
+    END IF;
+
+    CONTINUE WHEN v_type IS NULL;
+
+    -- Skip if a sale is already queued for this position
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM position_trigger_events
+      WHERE user_id = v_position.user_id AND team_id = v_position.team_id AND status = 'queued'
+    );
+
+    INSERT INTO position_trigger_events (user_id, team_id, trigger_type, trigger_price, nav_at_trigger)
+    VALUES (v_position.user_id, v_position.team_id, v_type, v_price, v_nav_cents);
+
+    -- A trigger fires once; the user re-arms it if they want it again
+    UPDATE positions
+    SET stop_loss_price = NULL,
+        take_profit_price = NULL,
+        updated_at = NOW()
+    WHERE id = v_position.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================
+-- Execute queued sales (only while the trading window is open)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION execute_queued_position_triggers()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event RECORD;
+  v_position RECORD;
+  v_team RECORD;
+  v_quantity INTEGER;
+  v_nav NUMERIC;
+  v_result JSONB;
+  v_order_id INTEGER;
+  v_executed INTEGER := 0;
+  v_failed INTEGER := 0;
+BEGIN
+  FOR v_event IN
+    SELECT * FROM position_trigger_events
+    WHERE status = 'queued'
+    ORDER BY triggered_at, id
+  LOOP
+    CONTINUE WHEN NOT is_team_trading_window_open(v_event.team_id);
+
+    SELECT quantity, reserved_quantity INTO v_position
+    FROM positions
+    WHERE user_id = v_event.user_id AND team_id = v_event.team_id;
+
+    -- Shares reserved by resting SELL limit orders are not sold
+    v_quantity := COALESCE(v_position.quantity, 0) - COALESCE(v_position.reserved_quantity, 0);
+
+    IF v_quantity <= 0 THEN
+      UPDATE position_trigger_events
+      SET status = 'cancelled', error = 'No unreserved shares left to sell', executed_at = NOW()
+      WHERE id = v_event.id;
+      CONTINUE;
+    END IF;
+
+    SELECT market_cap, COALESCE(NULLIF(total_shares, 0), 1000) AS total_shares INTO v_team
+    FROM teams WHERE id = v_event.team_id;
+
+    v_nav := ROUND(v_team.market_cap::NUMERIC / v_team.total_shares / 100, 2);
+
+    BEGIN
+      v_result := to_jsonb(process_share_sale_atomic(
+        v_event.user_id, v_event.team_id, v_quantity, v_nav, v_nav * v_quantity
+      ));
+
+      IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_result->>'error', 'Sale failed');
+      END IF;
+
+      v_order_id := (v_result->>'order_id')::INTEGER;
+
+      UPDATE position_trigger_events
+      SET status = 'executed',
+          quantity = v_quantity,
+          executed_price = (v_nav * 100)::BIGINT,
+          order_id = v_order_id,
+          executed_at = NOW()
+      WHERE id = v_event.id;
+
+      v_executed := v_executed + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE position_trigger_events
+      SET status = 'failed', error = SQLERRM, executed_at = NOW()
+      WHERE id = v_event.id;
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('executed', v_executed, 'failed', v_failed);
+END;
+$$;
+
+GRANT SELECT ON position_trigger_events TO authenticated;
+GRANT EXECUTE ON FUNCTION set_position_triggers(UUID, INTEGER, BIGINT, BIGINT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION evaluate_position_triggers() TO service_role;
+GRANT EXECUTE ON FUNCTION execute_queued_position_triggers() TO service_role;
+REVOKE EXECUTE ON FUNCTION evaluate_position_triggers() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION execute_queued_position_triggers() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,349 @@
+-- Versioned market-cap transfer rules
+--
+-- Mirrors src/shared/lib/utils/transfer-rules.ts. The TypeScript engine is
+-- the reference implementation; calculate_match_transfer below must produce
+-- identical results for the same version and parameters. Parameter keys are
+-- the camelCase names used by TransferRuleParams so stored parameters can be
+-- fed straight back into the TypeScript engine.
+--
+-- Exactly one rule set is active. process_match_result_atomic (and the
+-- fixture_result_trigger that calls it) applies the active set and records
+-- its version and parameters on every transfers_ledger row, so history can
+-- be reproduced even after the active set changes. Published rule sets are never edited - add a new version.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS transfer_rule_sets (
+  version TEXT PRIMARY KEY,
+  description TEXT NOT NULL,
+  params JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transfer_rule_sets_single_active
+  ON transfer_rule_sets (is_active)
+  WHERE is_active;
+
+INSERT INTO transfer_rule_sets (version, description, params, is_active, activated_at) VALUES
+  (
+    'v1',
+    'Winner takes 10% of loser market cap; draws transfer nothing',
+    '{"baseTransferRate": 0.10, "goalDifferenceStep": 0, "maxGoalDifference": 1, "drawTransferRate": 0,
+      "homeWinWeight": 1, "awayWinWeight": 1, "competitionMultipliers": {"league": 1, "cup": 1},
+      "maxTransferRate": 0.10, "minMarketCapCents": 1000}'::jsonb,
+    true,
+    NOW()
+  ),
+  (
+    'v2',
+    'Goal-difference scaling, away-win weighting, draw transfer to underdog, cup multiplier',
+    '{"baseTransferRate": 0.10, "goalDifferenceStep": 0.025, "maxGoalDifference": 3, "drawTransferRate": 0.02,
+      "homeWinWeight": 1, "awayWinWeight": 1.1, "competitionMultipliers": {"league": 1, "cup": 1.5},
+      "maxTransferRate": 0.25, "minMarketCapCents": 1000}'::jsonb,
+    false,
+    NULL
+  )
+ON CONFLICT (version) DO NOTHING;
+
+ALTER TABLE transfer_rule_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read transfer rule sets" ON transfer_rule_sets;
+CREATE POLICY "Anyone can read transfer rule sets"
+  ON transfer_rule_sets FOR SELECT
+  USING (true);
+
+GRANT SELECT ON transfer_rule_sets TO anon, authenticated;
+
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS competition_type TEXT NOT NULL DEFAULT 'league';
+ALTER TABLE fixtures DROP CONSTRAINT IF EXISTS fixtures_competition_type_check;
+ALTER TABLE fixtures ADD CONSTRAINT fixtures_competition_type_check
+  CHECK (competition_type IN ('league', 'cup'));
+
+ALTER TABLE transfers_ledger ADD COLUMN IF NOT EXISTS rule_version TEXT;
+ALTER TABLE transfers_ledger ADD COLUMN IF NOT EXISTS rule_params JSONB;
+
+-- Rows written before this migration were produced by the legacy trigger
+UPDATE transfers_ledger
+SET rule_version = 'v1',
+    rule_params = (SELECT params FROM transfer_rule_sets WHERE version = 'v1')
+WHERE rule_version IS NULL;
+
+-- ============================================================
+-- Calculation (mirror of calculateMatchTransfer)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION calculate_match_transfer(
+  p_home_cap BIGINT,
+  p_away_cap BIGINT,
+  p_home_score INTEGER,
+  p_away_score INTEGER,
+  p_result TEXT,
+  p_competition_type TEXT,
+  p_params JSONB
+)
+RETURNS TABLE (receiver TEXT, transfer_amount BIGINT, rate NUMERIC)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_outcome TEXT := p_result;
+  v_multiplier NUMERIC := COALESCE((p_params->'competitionMultipliers'->>COALESCE(p_competition_type, 'league'))::NUMERIC, 1);
+  v_max_rate NUMERIC := (p_params->>'maxTransferRate')::NUMERIC;
+  v_min_cap BIGINT := (p_params->>'minMarketCapCents')::BIGINT;
+  v_margin INTEGER;
+  v_payer_cap BIGINT;
+BEGIN
+  receiver := NULL;
+  transfer_amount := 0;
+  rate := 0;
+
+  IF v_outcome IS NULL OR v_outcome = 'pending' THEN
+    v_outcome := CASE
+      WHEN COALESCE(p_home_score, 0) > COALESCE(p_away_score, 0) THEN 'home_win'
+      WHEN COALESCE(p_away_score, 0) > COALESCE(p_home_score, 0) THEN 'away_win'
+      ELSE 'draw'
+    END;
+  END IF;
+
+  IF v_outcome = 'draw' THEN
+    IF (p_params->>'drawTransferRate')::NUMERIC > 0 AND p_home_cap <> p_away_cap THEN
+      receiver := CASE WHEN p_home_cap < p_away_cap THEN 'home' ELSE 'away' END;
+      rate := LEAST((p_params->>'drawTransferRate')::NUMERIC * v_multiplier, v_max_rate);
+    END IF;
+  ELSE
+    receiver := CASE WHEN v_outcome = 'home_win' THEN 'home' ELSE 'away' END;
+    v_margin := LEAST(
+      GREATEST(1, ABS(COALESCE(p_home_score, 0) - COALESCE(p_away_score, 0))),
+      GREATEST(1, (p_params->>'maxGoalDifference')::INTEGER)
+    );
+    rate := LEAST(
+      ((p_params->>'baseTransferRate')::NUMERIC + (p_params->>'goalDifferenceStep')::NUMERIC * (v_margin - 1))
+        * CASE WHEN receiver = 'home' THEN (p_params->>'homeWinWeight')::NUMERIC ELSE (p_params->>'awayWinWeight')::NUMERIC END
+        * v_multiplier,
+      v_max_rate
+    );
+  END IF;
+
+  IF receiver IS NOT NULL THEN
+    v_payer_cap := CASE WHEN receiver = 'home' THEN p_away_cap ELSE p_home_cap END;
+    transfer_amount := LEAST(ROUND(v_payer_cap * rate)::BIGINT, GREATEST(v_payer_cap - v_min_cap, 0));
+    IF transfer_amount <= 0 THEN
+      receiver := NULL;
+      transfer_amount := 0;
+    END IF;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- ============================================================
+-- Match processing using the active rule set
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION process_match_result_atomic(p_fixture_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_home RECORD;
+  v_away RECORD;
+  v_rules RECORD;
+  v_calc RECORD;
+  v_home_cap_before BIGINT;
+  v_away_cap_before BIGINT;
+  v_home_after BIGINT;
+  v_away_after BIGINT;
+  v_home_delta BIGINT;
+  v_home_ledger TEXT;
+  v_away_ledger TEXT;
+  v_score TEXT;
+BEGIN
+  SELECT * INTO v_fixture FROM fixtures WHERE id = p_fixture_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture not found');
+  END IF;
+
+  IF COALESCE(v_fixture.result, 'pending') = 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture result is pending');
+  END IF;
+
+  -- Idempotency: a fixture is applied at most once
+  IF EXISTS (
+    SELECT 1 FROM total_ledger
+    WHERE trigger_event_type = 'fixture'
+      AND trigger_event_id = p_fixture_id
+      AND ledger_type IN ('match_win', 'match_loss', 'match_draw')
+  ) THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true, 'fixture_id', p_fixture_id);
+  END IF;
+
+  SELECT * INTO v_rules FROM transfer_rule_sets WHERE is_active;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No active transfer rule set');
+  END IF;
+
+  SELECT id, name, market_cap, COALESCE(NULLIF(total_shares, 0), 1000) AS total_shares, shares_outstanding
+  INTO v_home FROM teams WHERE id = v_fixture.home_team_id FOR UPDATE;
+  SELECT id, name, market_cap, COALESCE(NULLIF(total_shares, 0), 1000) AS total_shares, shares_outstanding
+  INTO v_away FROM teams WHERE id = v_fixture.away_team_id FOR UPDATE;
+
+  -- Transfer size is based on the caps frozen at buy-close when available
+  v_home_cap_before := COALESCE(v_fixture.snapshot_home_cap, v_home.market_cap)::BIGINT;
+  v_away_cap_before := COALESCE(v_fixture.snapshot_away_cap, v_away.market_cap)::BIGINT;
+
+  SELECT * INTO v_calc FROM calculate_match_transfer(
+    v_home_cap_before,
+    v_away_cap_before,
+    v_fixture.home_score,
+    v_fixture.away_score,
+    v_fixture.result,
+    v_fixture.competition_type,
+    v_rules.params
+  );
+
+  v_home_delta := CASE v_calc.receiver
+    WHEN 'home' THEN v_calc.transfer_amount
+    WHEN 'away' THEN -v_calc.transfer_amount
+    ELSE 0
+  END;
+  v_home_after := v_home.market_cap + v_home_delta;
+  v_away_after := v_away.market_cap - v_home_delta;
+
+  UPDATE teams SET market_cap = v_home_after, updated_at = NOW() WHERE id = v_home.id;
+  UPDATE teams SET market_cap = v_away_after, updated_at = NOW() WHERE id = v_away.id;
+
+  IF v_calc.receiver IS NOT NULL THEN
+    INSERT INTO transfers_ledger (fixture_id, winner_team_id, loser_team_id, transfer_amount, rule_version, rule_params)
+    VALUES (
+      p_fixture_id,
+      CASE WHEN v_calc.receiver = 'home' THEN v_home.id ELSE v_away.id END,
+      CASE WHEN v_calc.receiver = 'home' THEN v_away.id ELSE v_home.id END,
+      v_calc.transfer_amount,
+      v_rules.version,
+      v_rules.params
+    );
+  END IF;
+
+  v_home_ledger := CASE v_fixture.result WHEN 'home_win' THEN 'match_win' WHEN 'away_win' THEN 'match_loss' ELSE 'match_draw' END;
+  v_away_ledger := CASE v_fixture.result WHEN 'away_win' THEN 'match_win' WHEN 'home_win' THEN 'match_loss' ELSE 'match_draw' END;
+  v_score := COALESCE(v_fixture.home_score, 0) || '-' || COALESCE(v_fixture.away_score, 0);
+
+  INSERT INTO total_ledger (
+    team_id, ledger_type, event_date, event_description, trigger_event_id, trigger_event_type,
+    opponent_team_id, opponent_team_name, is_home_match, match_result, match_score,
+    amount_transferred, price_impact,
+    market_cap_before, market_cap_after,
+    shares_outstanding_before, shares_outstanding_after,
+    share_price_before, share_price_after, notes
+  ) VALUES
+  (
+    v_home.id, v_home_ledger, v_fixture.kickoff_at, 'Match vs ' || v_away.name, p_fixture_id, 'fixture',
+    v_away.id, v_away.name, true, v_fixture.result, v_score,
+    ABS(v_home_delta), v_home_delta,
+    v_home.market_cap, v_home_after,
+    v_home.shares_outstanding, v_home.shares_outstanding,
+    ROUND(v_home.market_cap::NUMERIC / v_home.total_shares), ROUND(v_home_after::NUMERIC / v_home.total_shares),
+    'Transfer rules ' || v_rules.version
+  ),
+  (
+    v_away.id, v_away_ledger, v_fixture.kickoff_at, 'Match vs ' || v_home.name, p_fixture_id, 'fixture',
+    v_home.id, v_home.name, false, v_fixture.result, v_score,
+    ABS(v_home_delta), -v_home_delta,
+    v_away.market_cap, v_away_after,
+    v_away.shares_outstanding, v_away.shares_outstanding,
+    ROUND(v_away.market_cap::NUMERIC / v_away.total_shares), ROUND(v_away_after::NUMERIC / v_away.total_shares),
+    'Transfer rules ' || v_rules.version
+  );
+
+  PERFORM create_team_snapshot(v_home.id, 'match_result', p_fixture_id, 'fixture', replace(v_home_ledger, 'match_', ''), v_home_delta, 0, 0, v_fixture.kickoff_at);
+  PERFORM create_team_snapshot(v_away.id, 'match_result', p_fixture_id, 'fixture', replace(v_away_ledger, 'match_', ''), -v_home_delta, 0, 0, v_fixture.kickoff_at);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'fixture_id', p_fixture_id,
+    'receiver', v_calc.receiver,
+    'transfer_amount', v_calc.transfer_amount,
+    'rule_version', v_rules.version,
+    'home_market_cap_after', v_home_after,
+    'away_market_cap_after', v_away_after
+  );
+END;
+$$;
+
+-- Fixture updates are processed by the fixtures AFTER UPDATE trigger; route it
+-- through process_match_result_atomic so the same rules apply on every path
+CREATE OR REPLACE FUNCTION fixture_result_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.result IS DISTINCT FROM OLD.result AND COALESCE(NEW.result, 'pending') <> 'pending' THEN
+    PERFORM process_match_result_atomic(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Admin backfill of fixtures without a ledger row; clients cannot call
+-- process_match_result_atomic directly
+CREATE OR REPLACE FUNCTION apply_match_result(p_fixture_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can apply match results';
+  END IF;
+
+  RETURN process_match_result_atomic(p_fixture_id);
+END;
+$$;
+
+-- ============================================================
+-- Activation (admin only)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION activate_transfer_rule_set(p_version TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the active transfer rules';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM transfer_rule_sets WHERE version = p_version) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown transfer rule version');
+  END IF;
+
+  UPDATE transfer_rule_sets SET is_active = false WHERE is_active AND version <> p_version;
+  UPDATE transfer_rule_sets SET is_active = true, activated_at = NOW() WHERE version = p_version;
+
+  RETURN jsonb_build_object('success', true, 'version', p_version);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_match_transfer(BIGINT, BIGINT, INTEGER, INTEGER, TEXT, TEXT, JSONB) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION process_match_result_atomic(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_match_result_atomic(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_match_result(INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION activate_transfer_rule_set(TEXT) TO authenticated, service_role;
@@ -0,0 +1,332 @@
+-- Wallet withdrawals
+--
+-- A withdrawal request debits profiles.wallet_balance immediately (the amount
+-- is reserved and no longer tradable) and is recorded as a `withdrawal`
+-- wallet transaction. An admin approves or rejects it; rejection refunds the
+-- wallet with a `withdrawal_reversal` transaction. Approved requests are paid
+-- out as a Stripe transfer to the user's connected account by the
+-- process-withdrawal function, and the transfer webhooks settle them.
+--
+-- Lifecycle: requested -> approved | rejected
+--            approved  -> paid | failed
+--            paid      -> failed (transfer reversed)
+-- Failed requests are refunded the same way as rejected ones.
+-- All money values are BIGINT cents, matching the rest of the schema.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+-- Stripe Connect account that receives payouts
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS stripe_connect_account_id TEXT;
+
+CREATE TABLE IF NOT EXISTS withdrawal_requests (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'paid', 'failed')),
+  destination_account_id TEXT,
+  stripe_transfer_id TEXT UNIQUE,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES profiles(id),
+  rejection_reason TEXT,
+  paid_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  failure_reason TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_user
+  ON withdrawal_requests (user_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_open
+  ON withdrawal_requests (requested_at)
+  WHERE status IN ('requested', 'approved');
+
+ALTER TABLE withdrawal_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own withdrawals" ON withdrawal_requests;
+CREATE POLICY "Users can view own withdrawals"
+  ON withdrawal_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all withdrawals" ON withdrawal_requests;
+CREATE POLICY "Admins can view all withdrawals"
+  ON withdrawal_requests FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- ============================================================
+-- Refund (shared by reject and fail)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION refund_withdrawal(p_withdrawal_id INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request FROM withdrawal_requests WHERE id = p_withdrawal_id;
+
+  UPDATE profiles
+  SET wallet_balance = wallet_balance + v_request.amount_cents,
+      updated_at = NOW()
+  WHERE id = v_request.user_id;
+
+  INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+  VALUES (v_request.user_id, v_request.amount_cents, 'withdrawal_reversal', 'withdrawal:' || v_request.id);
+END;
+$$;
+
+-- ============================================================
+-- Request
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION request_withdrawal(
+  p_user_id UUID,
+  p_amount_cents BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+  v_withdrawal_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot request withdrawals for another user';
+  END IF;
+
+  -- Same $10 floor as deposits
+  IF p_amount_cents IS NULL OR p_amount_cents < 1000 THEN
+    RAISE EXCEPTION 'Minimum withdrawal is $10.00';
+  END IF;
+
+  SELECT wallet_balance INTO v_balance
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF COALESCE(v_balance, 0) < p_amount_cents THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  UPDATE profiles
+  SET wallet_balance = wallet_balance - p_amount_cents,
+      updated_at = NOW()
+  WHERE id = p_user_id;
+
+  INSERT INTO withdrawal_requests (user_id, amount_cents)
+  VALUES (p_user_id, p_amount_cents)
+  RETURNING id INTO v_withdrawal_id;
+
+  INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+  VALUES (p_user_id, p_amount_cents, 'withdrawal', 'withdrawal:' || v_withdrawal_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'withdrawal_id', v_withdrawal_id,
+    'new_balance', v_balance - p_amount_cents
+  );
+END;
+$$;
+
+-- ============================================================
+-- Admin review
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION review_withdrawal(
+  p_withdrawal_id INTEGER,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review withdrawals';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM withdrawal_requests
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  IF v_request.status <> 'requested' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal already ' || v_request.status);
+  END IF;
+
+  UPDATE withdrawal_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_at = NOW(),
+      reviewed_by = auth.uid(),
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE p_reason END,
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id;
+
+  IF NOT p_approve THEN
+    PERFORM refund_withdrawal(p_withdrawal_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'withdrawal_id', p_withdrawal_id,
+    'status', CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END
+  );
+END;
+$$;
+
+-- ============================================================
+-- Payout settlement (service role: process-withdrawal and stripe-webhook)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION record_withdrawal_transfer(
+  p_withdrawal_id INTEGER,
+  p_transfer_id TEXT,
+  p_destination_account_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request
+  FROM withdrawal_requests
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal is ' || v_request.status);
+  END IF;
+
+  UPDATE withdrawal_requests
+  SET stripe_transfer_id = p_transfer_id,
+      destination_account_id = p_destination_account_id,
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', p_withdrawal_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_withdrawal(
+  p_withdrawal_id INTEGER,
+  p_transfer_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request
+  FROM withdrawal_requests
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  -- Webhook retries
+  IF v_request.status = 'paid' THEN
+    RETURN jsonb_build_object('success', true, 'already_paid', true);
+  END IF;
+
+  IF v_request.status <> 'approved' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal is ' || v_request.status);
+  END IF;
+
+  UPDATE withdrawal_requests
+  SET status = 'paid',
+      stripe_transfer_id = COALESCE(stripe_transfer_id, p_transfer_id),
+      paid_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id;
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', p_withdrawal_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fail_withdrawal(
+  p_withdrawal_id INTEGER,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request
+  FROM withdrawal_requests
+  WHERE id = p_withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal not found';
+  END IF;
+
+  -- Already refunded
+  IF v_request.status IN ('failed', 'rejected') THEN
+    RETURN jsonb_build_object('success', true, 'already_refunded', true);
+  END IF;
+
+  IF v_request.status NOT IN ('approved', 'paid') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal is ' || v_request.status);
+  END IF;
+
+  UPDATE withdrawal_requests
+  SET status = 'failed',
+      failed_at = NOW(),
+      failure_reason = p_reason,
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id;
+
+  PERFORM refund_withdrawal(p_withdrawal_id);
+
+  RETURN jsonb_build_object('success', true, 'withdrawal_id', p_withdrawal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_withdrawal(UUID, BIGINT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION review_withdrawal(INTEGER, BOOLEAN, TEXT) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION record_withdrawal_transfer(INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_withdrawal(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_withdrawal(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_withdrawal_transfer(INTEGER, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_withdrawal(INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_withdrawal(INTEGER, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION refund_withdrawal(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,106 @@
+-- Period leaderboards
+--
+-- Matchday, calendar month, season and custom date-range leaderboards,
+-- stored alongside weekly_leaderboard (which keeps the weekly history and
+-- its week_number). Every period is scored with the same deposit-adjusted
+-- return as the weekly board:
+--   (end_account - start_account - deposits) / (start_account + deposits)
+-- where deposits are net external flows (deposits minus withdrawals).
+--
+-- Rows are written by the update-period-leaderboards function with the
+-- service role. A period is identified by (period_type, period_key), e.g.
+-- ('month', '2025-10'), ('matchday', '2025-md7'), ('season', '2025').
+-- The running season is rewritten on every run until it ends.
+-- All money values are BIGINT cents, matching the rest of the schema.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS period_leaderboard (
+  id SERIAL PRIMARY KEY,
+  period_type TEXT NOT NULL CHECK (period_type IN ('matchday', 'month', 'season', 'custom')),
+  period_key TEXT NOT NULL,
+  period_label TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL,
+  start_wallet_value BIGINT NOT NULL DEFAULT 0,
+  start_portfolio_value BIGINT NOT NULL DEFAULT 0,
+  start_account_value BIGINT NOT NULL DEFAULT 0,
+  end_wallet_value BIGINT NOT NULL DEFAULT 0,
+  end_portfolio_value BIGINT NOT NULL DEFAULT 0,
+  end_account_value BIGINT NOT NULL DEFAULT 0,
+  deposits BIGINT NOT NULL DEFAULT 0,
+  period_return NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (period_end > period_start),
+  UNIQUE (period_type, period_key, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_period_leaderboard_period
+  ON period_leaderboard (period_type, period_end DESC, rank);
+
+ALTER TABLE period_leaderboard ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view period leaderboards" ON period_leaderboard;
+CREATE POLICY "Authenticated users can view period leaderboards"
+  ON period_leaderboard FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- ============================================================
+-- Read
+-- ============================================================
+
+-- Ranked rows for one period with display names (profiles are not
+-- readable across users). Defaults to the most recent period of the type.
+CREATE OR REPLACE FUNCTION get_period_leaderboard(
+  p_period_type TEXT,
+  p_period_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  rank INTEGER,
+  period_key TEXT,
+  period_label TEXT,
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  period_return NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period_key TEXT := p_period_key;
+BEGIN
+  IF v_period_key IS NULL THEN
+    SELECT pl.period_key INTO v_period_key
+    FROM period_leaderboard pl
+    WHERE pl.period_type = p_period_type
+    ORDER BY pl.period_end DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN QUERY
+  SELECT pl.user_id,
+         COALESCE(NULLIF(TRIM(p.full_name), ''), p.username)::TEXT,
+         pl.rank,
+         pl.period_key,
+         pl.period_label,
+         pl.period_start,
+         pl.period_end,
+         pl.period_return
+  FROM period_leaderboard pl
+  LEFT JOIN profiles p ON p.id = pl.user_id
+  WHERE pl.period_type = p_period_type
+    AND pl.period_key = v_period_key
+  ORDER BY pl.rank ASC;
+END;
+$$;
+
+GRANT SELECT ON period_leaderboard TO authenticated;
+GRANT EXECUTE ON FUNCTION get_period_leaderboard(TEXT, TEXT) TO authenticated, service_role;
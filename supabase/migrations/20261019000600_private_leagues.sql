@@ -0,0 +1,283 @@
+-- Private leagues
+--
+-- Invite-only groups of users ranked against each other. Leagues keep no
+-- scores of their own: standings are computed client-side from
+-- weekly_leaderboard (see src/shared/lib/utils/private-leagues.ts), counting
+-- only weeks that start on or after both the league's starts_at and the
+-- member's joined_at.
+--
+-- Membership is managed through the RPCs below; the tables are read-only
+-- to clients. The league owner can remove members and regenerate the
+-- invite code; if the owner leaves, the league is deleted.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS leagues (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  invite_code TEXT NOT NULL UNIQUE,
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS league_members (
+  league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (league_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_members_user ON league_members (user_id);
+
+-- Membership check used by RLS (SECURITY DEFINER avoids recursive policies)
+CREATE OR REPLACE FUNCTION is_league_member(p_league_id INTEGER, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM league_members WHERE league_id = p_league_id AND user_id = p_user_id
+  );
+$$;
+
+ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE league_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their leagues" ON leagues;
+CREATE POLICY "Members can view their leagues"
+  ON leagues FOR SELECT
+  USING (is_league_member(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Members can view league members" ON league_members;
+CREATE POLICY "Members can view league members"
+  ON league_members FOR SELECT
+  USING (is_league_member(league_id, auth.uid()));
+
+-- ============================================================
+-- Invite codes
+-- ============================================================
+
+-- 8 characters without look-alikes (0/O, 1/I/L), matching
+-- LEAGUE_INVITE_CODE_ALPHABET in private-leagues.ts
+CREATE OR REPLACE FUNCTION generate_league_invite_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  LOOP
+    v_code := '';
+    FOR i IN 1..8 LOOP
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM leagues WHERE invite_code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+-- ============================================================
+-- Membership
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_league(
+  p_user_id UUID,
+  p_name TEXT,
+  p_starts_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT := btrim(p_name);
+  v_league_id INTEGER;
+  v_code TEXT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot create a league for another user';
+  END IF;
+
+  IF v_name IS NULL OR char_length(v_name) = 0 OR char_length(v_name) > 50 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'League name must be 1-50 characters');
+  END IF;
+
+  v_code := generate_league_invite_code();
+
+  INSERT INTO leagues (name, invite_code, owner_id, starts_at)
+  VALUES (v_name, v_code, p_user_id, COALESCE(p_starts_at, NOW()))
+  RETURNING id INTO v_league_id;
+
+  INSERT INTO league_members (league_id, user_id, role)
+  VALUES (v_league_id, p_user_id, 'owner');
+
+  RETURN jsonb_build_object('success', true, 'league_id', v_league_id, 'invite_code', v_code);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_league(p_user_id UUID, p_invite_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_league RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot join a league for another user';
+  END IF;
+
+  SELECT * INTO v_league
+  FROM leagues
+  WHERE invite_code = upper(regexp_replace(p_invite_code, '[\s-]', '', 'g'));
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid invite code');
+  END IF;
+
+  IF is_league_member(v_league.id, p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Already a member of this league');
+  END IF;
+
+  INSERT INTO league_members (league_id, user_id, role)
+  VALUES (v_league.id, p_user_id, 'member');
+
+  RETURN jsonb_build_object('success', true, 'league_id', v_league.id, 'name', v_league.name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION leave_league(p_user_id UUID, p_league_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot leave a league for another user';
+  END IF;
+
+  SELECT role INTO v_role
+  FROM league_members
+  WHERE league_id = p_league_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not a member of this league');
+  END IF;
+
+  -- Owner leaving closes the league
+  IF v_role = 'owner' THEN
+    DELETE FROM leagues WHERE id = p_league_id;
+    RETURN jsonb_build_object('success', true, 'deleted', true);
+  END IF;
+
+  DELETE FROM league_members WHERE league_id = p_league_id AND user_id = p_user_id;
+  RETURN jsonb_build_object('success', true, 'deleted', false);
+END;
+$$;
+
+-- Owner-only: remove a member or rotate the invite code
+CREATE OR REPLACE FUNCTION remove_league_member(p_league_id INTEGER, p_member_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM leagues WHERE id = p_league_id AND owner_id = auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the league owner can remove members');
+  END IF;
+
+  IF p_member_id = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The owner cannot be removed');
+  END IF;
+
+  DELETE FROM league_members WHERE league_id = p_league_id AND user_id = p_member_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not a member of this league');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION regenerate_league_invite_code(p_league_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM leagues WHERE id = p_league_id AND owner_id = auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the league owner can change the invite code');
+  END IF;
+
+  v_code := generate_league_invite_code();
+
+  UPDATE leagues
+  SET invite_code = v_code,
+      updated_at = NOW()
+  WHERE id = p_league_id;
+
+  RETURN jsonb_build_object('success', true, 'invite_code', v_code);
+END;
+$$;
+
+-- ============================================================
+-- Read
+-- ============================================================
+
+-- League members with display names (profiles are not readable across users)
+CREATE OR REPLACE FUNCTION get_league_members(p_league_id INTEGER)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  role TEXT,
+  joined_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_league_member(p_league_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this league';
+  END IF;
+
+  RETURN QUERY
+  SELECT lm.user_id,
+         COALESCE(NULLIF(TRIM(p.full_name), ''), p.username)::TEXT,
+         lm.role,
+         lm.joined_at
+  FROM league_members lm
+  LEFT JOIN profiles p ON p.id = lm.user_id
+  WHERE lm.league_id = p_league_id
+  ORDER BY lm.joined_at ASC;
+END;
+$$;
+
+GRANT SELECT ON leagues TO authenticated;
+GRANT SELECT ON league_members TO authenticated;
+GRANT EXECUTE ON FUNCTION create_league(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_league(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_league(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_league_member(INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION regenerate_league_invite_code(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_league_members(INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION generate_league_invite_code() FROM PUBLIC, anon, authenticated;
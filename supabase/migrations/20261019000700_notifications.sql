@@ -0,0 +1,190 @@
+-- Price alerts and notifications
+--
+-- Users define alerts per club; the process-notifications function
+-- evaluates them every few minutes (see src/shared/lib/utils/notifications.ts)
+-- and writes the results to the notifications inbox. Holders of a club also
+-- get a notification for each applied match result without an alert.
+--
+-- Alert thresholds:
+-- - price_above / price_below: share price in cents (one-shot)
+-- - match_move: absolute % move of the share price after a single match
+-- - buy_window_closing: minutes before the buy window closes
+--
+-- notifications.dedupe_key is unique per user, so the job can be re-run
+-- without notifying twice. Email delivery is tracked with emailed_at.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS price_alerts (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('price_above', 'price_below', 'match_move', 'buy_window_closing')),
+  threshold NUMERIC NOT NULL CHECK (threshold > 0),
+  email_enabled BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_user ON price_alerts (user_id);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_active ON price_alerts (is_active) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('price_alert', 'match_move', 'buy_window', 'match_result')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  team_id INTEGER REFERENCES teams(id) ON DELETE SET NULL,
+  fixture_id INTEGER REFERENCES fixtures(id) ON DELETE SET NULL,
+  alert_id INTEGER REFERENCES price_alerts(id) ON DELETE SET NULL,
+  dedupe_key TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE price_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own price alerts" ON price_alerts;
+CREATE POLICY "Users can view own price alerts"
+  ON price_alerts FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Live inbox updates for the notification bell
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- Alert management
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_price_alert(
+  p_user_id UUID,
+  p_team_id INTEGER,
+  p_alert_type TEXT,
+  p_threshold NUMERIC,
+  p_email_enabled BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot create alerts for another user';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM teams WHERE id = p_team_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Club not found');
+  END IF;
+
+  IF p_alert_type NOT IN ('price_above', 'price_below', 'match_move', 'buy_window_closing') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown alert type');
+  END IF;
+
+  IF p_threshold IS NULL OR p_threshold <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Threshold must be greater than zero');
+  END IF;
+
+  IF p_alert_type = 'match_move' AND p_threshold > 100 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Match move threshold cannot exceed 100%');
+  END IF;
+
+  IF p_alert_type = 'buy_window_closing' AND p_threshold > 1440 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Lead time cannot exceed one day');
+  END IF;
+
+  IF (SELECT COUNT(*) FROM price_alerts WHERE user_id = p_user_id AND is_active) >= 50 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Maximum of 50 active alerts reached');
+  END IF;
+
+  INSERT INTO price_alerts (user_id, team_id, alert_type, threshold, email_enabled)
+  VALUES (p_user_id, p_team_id, p_alert_type, p_threshold, COALESCE(p_email_enabled, false))
+  RETURNING id INTO v_alert_id;
+
+  RETURN jsonb_build_object('success', true, 'alert_id', v_alert_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_price_alert(p_user_id UUID, p_alert_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot delete alerts of another user';
+  END IF;
+
+  DELETE FROM price_alerts WHERE id = p_alert_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Alert not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================================
+-- Inbox
+-- ============================================================
+
+-- Mark the given notifications (or all when p_ids is NULL) as read
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_user_id UUID, p_ids INTEGER[] DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot update notifications of another user';
+  END IF;
+
+  UPDATE notifications
+  SET read_at = NOW()
+  WHERE user_id = p_user_id
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated);
+END;
+$$;
+
+GRANT SELECT ON price_alerts TO authenticated;
+GRANT SELECT ON notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION create_price_alert(UUID, INTEGER, TEXT, NUMERIC, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_price_alert(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(UUID, INTEGER[]) TO authenticated;
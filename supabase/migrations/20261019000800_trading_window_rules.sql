@@ -0,0 +1,361 @@
+-- Configurable trading window rules
+--
+-- Replaces the fixed "close 15 minutes before kickoff" with one rule per
+-- competition type plus manual halts. is_team_trading_window_open is the
+-- server-side mirror of evaluateTradingWindow
+-- (src/shared/lib/utils/trading-window.ts); both evaluate, in order:
+--   1. active halt for the club or the whole market
+--   2. match in progress (live, or kickoff passed < 4 hours ago with no result)
+--   3. reopen delay after the final whistle of the club's last match
+--   4. matchday freeze (all clubs, first buy-window close until the matchday ends)
+--   5. buy window closed ahead of the club's next kickoff
+--
+-- The atomic purchase/sale RPCs are guarded by a trigger on filled market
+-- orders, so every execution path (market orders, limit order matching,
+-- position triggers) goes through the same check.
+--
+-- fixtures.buy_close_at is kept in sync with the rules for display and
+-- notifications; fixtures.finished_at records the final whistle.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS trading_window_rules (
+  competition_type TEXT PRIMARY KEY CHECK (competition_type IN ('league', 'cup')),
+  close_before_kickoff_minutes INTEGER NOT NULL DEFAULT 15
+    CHECK (close_before_kickoff_minutes BETWEEN 0 AND 1440),
+  reopen_after_full_time_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (reopen_after_full_time_minutes BETWEEN 0 AND 1440),
+  matchday_freeze BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO trading_window_rules (competition_type)
+VALUES ('league'), ('cup')
+ON CONFLICT (competition_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS trading_halts (
+  id SERIAL PRIMARY KEY,
+  team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,  -- NULL = whole market
+  reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 200),
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lifted_at TIMESTAMPTZ,
+  lifted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trading_halts_open ON trading_halts (team_id) WHERE lifted_at IS NULL;
+
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS finished_at TIMESTAMPTZ;
+
+-- Rules and halts are public so every client evaluates the same window
+ALTER TABLE trading_window_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trading_halts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view trading window rules" ON trading_window_rules;
+CREATE POLICY "Anyone can view trading window rules"
+  ON trading_window_rules FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view trading halts" ON trading_halts;
+CREATE POLICY "Anyone can view trading halts"
+  ON trading_halts FOR SELECT
+  USING (true);
+
+-- ============================================================
+-- Fixture timestamps
+-- ============================================================
+
+-- buy_close_at follows the competition rule; finished_at is stamped when the
+-- result is first recorded
+CREATE OR REPLACE FUNCTION sync_fixture_trading_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_close_minutes INTEGER;
+BEGIN
+  SELECT close_before_kickoff_minutes INTO v_close_minutes
+  FROM trading_window_rules
+  WHERE competition_type = COALESCE(NEW.competition_type, 'league');
+
+  IF NEW.kickoff_at IS NOT NULL THEN
+    NEW.buy_close_at := NEW.kickoff_at - make_interval(mins => COALESCE(v_close_minutes, 15));
+  END IF;
+
+  IF COALESCE(NEW.result, 'pending') <> 'pending' AND NEW.finished_at IS NULL
+     AND (TG_OP = 'INSERT' OR COALESCE(OLD.result, 'pending') = 'pending') THEN
+    NEW.finished_at := LEAST(NOW(), NEW.kickoff_at + INTERVAL '120 minutes');
+  ELSIF COALESCE(NEW.result, 'pending') = 'pending' THEN
+    NEW.finished_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_fixture_trading_times ON fixtures;
+CREATE TRIGGER trg_sync_fixture_trading_times
+  BEFORE INSERT OR UPDATE OF kickoff_at, competition_type, result, buy_close_at ON fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_fixture_trading_times();
+
+-- Backfill: estimated final whistle for finished fixtures, close times from the rules
+UPDATE fixtures
+SET finished_at = kickoff_at + INTERVAL '120 minutes'
+WHERE finished_at IS NULL AND COALESCE(result, 'pending') <> 'pending';
+
+UPDATE fixtures f
+SET buy_close_at = f.kickoff_at - make_interval(mins => r.close_before_kickoff_minutes)
+FROM trading_window_rules r
+WHERE r.competition_type = f.competition_type
+  AND f.status = 'scheduled';
+
+-- ============================================================
+-- Trading window (server-side mirror of evaluateTradingWindow)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION is_team_trading_window_open(p_team_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  -- 1. Halts
+  IF EXISTS (
+    SELECT 1 FROM trading_halts h
+    WHERE h.lifted_at IS NULL
+      AND (h.team_id IS NULL OR h.team_id = p_team_id)
+      AND h.starts_at <= NOW()
+      AND (h.ends_at IS NULL OR h.ends_at > NOW())
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- 2, 3 and 5. The club's own fixtures
+  IF EXISTS (
+    SELECT 1
+    FROM fixtures f
+    JOIN trading_window_rules r ON r.competition_type = f.competition_type
+    WHERE (f.home_team_id = p_team_id OR f.away_team_id = p_team_id)
+      AND f.status <> 'postponed'
+      AND (
+        (COALESCE(f.result, 'pending') = 'pending' AND (
+          -- Match in progress ('closed' kept for backward compatibility)
+          f.status IN ('live', 'closed')
+          -- Kickoff passed but status not yet updated from the API
+          OR (f.status = 'scheduled' AND f.kickoff_at <= NOW() AND f.kickoff_at > NOW() - INTERVAL '4 hours')
+          -- Buy window closed ahead of kickoff
+          OR (f.status = 'scheduled' AND f.kickoff_at > NOW()
+              AND f.kickoff_at - make_interval(mins => r.close_before_kickoff_minutes) <= NOW())
+        ))
+        -- Reopen delay after the final whistle
+        OR (COALESCE(f.result, 'pending') <> 'pending'
+            AND r.reopen_after_full_time_minutes > 0
+            AND COALESCE(f.finished_at, f.kickoff_at + INTERVAL '120 minutes')
+                + make_interval(mins => r.reopen_after_full_time_minutes) > NOW())
+      )
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- 4. Matchday freezes
+  IF EXISTS (
+    SELECT 1
+    FROM fixtures f
+    JOIN trading_window_rules r ON r.competition_type = f.competition_type AND r.matchday_freeze
+    WHERE f.status <> 'postponed'
+      AND f.season IS NOT NULL
+      AND f.matchday IS NOT NULL
+    GROUP BY f.competition_type, f.season, f.matchday, r.close_before_kickoff_minutes, r.reopen_after_full_time_minutes
+    HAVING MIN(f.kickoff_at) - make_interval(mins => r.close_before_kickoff_minutes) <= NOW()
+       AND MAX(
+             CASE WHEN COALESCE(f.result, 'pending') = 'pending'
+                  THEN f.kickoff_at + INTERVAL '4 hours'
+                  ELSE COALESCE(f.finished_at, f.kickoff_at + INTERVAL '120 minutes')
+             END
+           ) + make_interval(mins => r.reopen_after_full_time_minutes) > NOW()
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Guard for the atomic purchase/sale RPCs: every executed trade is a FILLED
+-- market order row
+CREATE OR REPLACE FUNCTION enforce_trading_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.order_kind = 'MARKET' AND NEW.status = 'FILLED'
+     AND NOT is_team_trading_window_open(NEW.team_id) THEN
+    RAISE EXCEPTION 'Trading is closed for this club';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_trading_window ON orders;
+CREATE TRIGGER trg_enforce_trading_window
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_trading_window();
+
+-- ============================================================
+-- Admin
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_trading_window_rule(
+  p_competition_type TEXT,
+  p_close_before_kickoff_minutes INTEGER,
+  p_reopen_after_full_time_minutes INTEGER,
+  p_matchday_freeze BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixtures_updated INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change trading window rules';
+  END IF;
+
+  IF p_close_before_kickoff_minutes NOT BETWEEN 0 AND 1440
+     OR p_reopen_after_full_time_minutes NOT BETWEEN 0 AND 1440 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Minutes must be between 0 and 1440');
+  END IF;
+
+  UPDATE trading_window_rules
+  SET close_before_kickoff_minutes = p_close_before_kickoff_minutes,
+      reopen_after_full_time_minutes = p_reopen_after_full_time_minutes,
+      matchday_freeze = COALESCE(p_matchday_freeze, false),
+      updated_by = auth.uid(),
+      updated_at = NOW()
+  WHERE competition_type = p_competition_type;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown competition type');
+  END IF;
+
+  -- Re-derive close times of upcoming fixtures (sync trigger applies the rule)
+  UPDATE fixtures
+  SET buy_close_at = kickoff_at
+  WHERE competition_type = p_competition_type
+    AND status = 'scheduled'
+    AND kickoff_at > NOW();
+
+  GET DIAGNOSTICS v_fixtures_updated = ROW_COUNT;
+
+  INSERT INTO audit_log (user_id, action, table_name, new_values)
+  VALUES (
+    auth.uid(), 'trading_window_rule_updated', 'trading_window_rules',
+    jsonb_build_object(
+      'competition_type', p_competition_type,
+      'close_before_kickoff_minutes', p_close_before_kickoff_minutes,
+      'reopen_after_full_time_minutes', p_reopen_after_full_time_minutes,
+      'matchday_freeze', p_matchday_freeze
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'fixtures_updated', v_fixtures_updated);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_trading_halt(
+  p_team_id INTEGER,
+  p_reason TEXT,
+  p_ends_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_halt_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can halt trading';
+  END IF;
+
+  IF p_team_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM teams WHERE id = p_team_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Club not found');
+  END IF;
+
+  IF p_reason IS NULL OR char_length(TRIM(p_reason)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  IF p_ends_at IS NOT NULL AND p_ends_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'End time must be in the future');
+  END IF;
+
+  INSERT INTO trading_halts (team_id, reason, ends_at, created_by)
+  VALUES (p_team_id, TRIM(p_reason), p_ends_at, auth.uid())
+  RETURNING id INTO v_halt_id;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (
+    auth.uid(), 'trading_halt_created', 'trading_halts', v_halt_id,
+    jsonb_build_object('team_id', p_team_id, 'reason', TRIM(p_reason), 'ends_at', p_ends_at)
+  );
+
+  RETURN jsonb_build_object('success', true, 'halt_id', v_halt_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION lift_trading_halt(p_halt_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can lift trading halts';
+  END IF;
+
+  UPDATE trading_halts
+  SET lifted_at = NOW(), lifted_by = auth.uid()
+  WHERE id = p_halt_id AND lifted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Halt not found or already lifted');
+  END IF;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id)
+  VALUES (auth.uid(), 'trading_halt_lifted', 'trading_halts', p_halt_id);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT SELECT ON trading_window_rules TO anon, authenticated;
+GRANT SELECT ON trading_halts TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_team_trading_window_open(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_trading_window_rule(TEXT, INTEGER, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_trading_halt(INTEGER, TEXT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION lift_trading_halt(INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION sync_fixture_trading_times() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION enforce_trading_window() FROM PUBLIC;
@@ -0,0 +1,390 @@
+-- Simulation workspaces (sandbox)
+--
+-- A workspace is a forked copy of teams, fixtures and open positions taken
+-- at one point in time. Admins simulate results inside the workspace with
+-- the same calculate_match_transfer and active rule set as live processing,
+-- but only simulation_* tables are written. Live tables are touched only
+-- when a workspace is promoted:
+--   - promotion is refused if any live market cap moved since the fork, or
+--     if a simulated fixture already has a live result
+--   - simulated results are then written to fixtures in simulation order,
+--     and fixture_result_trigger processes them exactly like real results
+-- Discarded and promoted workspaces are read-only.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS simulation_workspaces (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'discarded', 'promoted')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS simulation_teams (
+  workspace_id INTEGER NOT NULL REFERENCES simulation_workspaces(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  market_cap BIGINT NOT NULL,
+  total_shares INTEGER NOT NULL DEFAULT 1000,
+  -- Live market cap when the workspace was forked
+  forked_market_cap BIGINT NOT NULL,
+  PRIMARY KEY (workspace_id, team_id)
+);
+
+CREATE TABLE IF NOT EXISTS simulation_fixtures (
+  workspace_id INTEGER NOT NULL REFERENCES simulation_workspaces(id) ON DELETE CASCADE,
+  fixture_id INTEGER NOT NULL REFERENCES fixtures(id) ON DELETE CASCADE,
+  home_team_id INTEGER NOT NULL,
+  away_team_id INTEGER NOT NULL,
+  kickoff_at TIMESTAMPTZ NOT NULL,
+  matchday INTEGER,
+  competition_type TEXT NOT NULL DEFAULT 'league',
+  status TEXT NOT NULL,
+  result TEXT NOT NULL DEFAULT 'pending',
+  home_score INTEGER,
+  away_score INTEGER,
+  snapshot_home_cap BIGINT,
+  snapshot_away_cap BIGINT,
+  transfer_amount BIGINT,
+  rule_version TEXT,
+  -- Set only for fixtures simulated inside the workspace
+  simulated_at TIMESTAMPTZ,
+  PRIMARY KEY (workspace_id, fixture_id)
+);
+
+CREATE TABLE IF NOT EXISTS simulation_positions (
+  workspace_id INTEGER NOT NULL REFERENCES simulation_workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  team_id INTEGER NOT NULL,
+  quantity INTEGER NOT NULL,
+  PRIMARY KEY (workspace_id, user_id, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_simulation_fixtures_simulated
+  ON simulation_fixtures (workspace_id, simulated_at)
+  WHERE simulated_at IS NOT NULL;
+
+ALTER TABLE simulation_workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE simulation_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE simulation_fixtures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE simulation_positions ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are admin tooling; all writes go through the functions below
+DROP POLICY IF EXISTS "Admins can view simulation workspaces" ON simulation_workspaces;
+CREATE POLICY "Admins can view simulation workspaces"
+  ON simulation_workspaces FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+DROP POLICY IF EXISTS "Admins can view simulation teams" ON simulation_teams;
+CREATE POLICY "Admins can view simulation teams"
+  ON simulation_teams FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+DROP POLICY IF EXISTS "Admins can view simulation fixtures" ON simulation_fixtures;
+CREATE POLICY "Admins can view simulation fixtures"
+  ON simulation_fixtures FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+DROP POLICY IF EXISTS "Admins can view simulation positions" ON simulation_positions;
+CREATE POLICY "Admins can view simulation positions"
+  ON simulation_positions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+GRANT SELECT ON simulation_workspaces, simulation_teams, simulation_fixtures, simulation_positions TO authenticated;
+
+-- ============================================================
+-- Fork
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_simulation_workspace(p_name TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create simulation workspaces';
+  END IF;
+
+  IF p_name IS NULL OR char_length(TRIM(p_name)) NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Name must be 1-100 characters');
+  END IF;
+
+  INSERT INTO simulation_workspaces (name, created_by)
+  VALUES (TRIM(p_name), auth.uid())
+  RETURNING id INTO v_workspace_id;
+
+  INSERT INTO simulation_teams (workspace_id, team_id, name, market_cap, total_shares, forked_market_cap)
+  SELECT v_workspace_id, id, name, market_cap, COALESCE(NULLIF(total_shares, 0), 1000), market_cap
+  FROM teams;
+
+  INSERT INTO simulation_fixtures (
+    workspace_id, fixture_id, home_team_id, away_team_id, kickoff_at, matchday, competition_type,
+    status, result, home_score, away_score, snapshot_home_cap, snapshot_away_cap
+  )
+  SELECT
+    v_workspace_id, id, home_team_id, away_team_id, kickoff_at, matchday, COALESCE(competition_type, 'league'),
+    status, COALESCE(result, 'pending'), home_score, away_score, snapshot_home_cap, snapshot_away_cap
+  FROM fixtures;
+
+  INSERT INTO simulation_positions (workspace_id, user_id, team_id, quantity)
+  SELECT v_workspace_id, user_id, team_id, SUM(quantity)
+  FROM positions
+  WHERE quantity > 0
+  GROUP BY user_id, team_id;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (
+    auth.uid(), 'simulation_workspace_created', 'simulation_workspaces', v_workspace_id,
+    jsonb_build_object('name', TRIM(p_name))
+  );
+
+  RETURN jsonb_build_object('success', true, 'workspace_id', v_workspace_id);
+END;
+$$;
+
+-- ============================================================
+-- Simulate a fixture inside a workspace
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION simulate_workspace_fixture(
+  p_workspace_id INTEGER,
+  p_fixture_id INTEGER,
+  p_home_score INTEGER,
+  p_away_score INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_home RECORD;
+  v_away RECORD;
+  v_rules RECORD;
+  v_calc RECORD;
+  v_result TEXT;
+  v_home_delta BIGINT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can run simulations';
+  END IF;
+
+  IF p_home_score IS NULL OR p_away_score IS NULL OR p_home_score < 0 OR p_away_score < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Scores must be zero or more');
+  END IF;
+
+  PERFORM 1 FROM simulation_workspaces WHERE id = p_workspace_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Workspace not found or closed');
+  END IF;
+
+  SELECT * INTO v_fixture FROM simulation_fixtures
+  WHERE workspace_id = p_workspace_id AND fixture_id = p_fixture_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture not found in workspace');
+  END IF;
+
+  IF v_fixture.result <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture already has a result');
+  END IF;
+
+  SELECT * INTO v_rules FROM transfer_rule_sets WHERE is_active;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No active transfer rule set');
+  END IF;
+
+  SELECT * INTO v_home FROM simulation_teams
+  WHERE workspace_id = p_workspace_id AND team_id = v_fixture.home_team_id FOR UPDATE;
+  SELECT * INTO v_away FROM simulation_teams
+  WHERE workspace_id = p_workspace_id AND team_id = v_fixture.away_team_id FOR UPDATE;
+
+  v_result := CASE
+    WHEN p_home_score > p_away_score THEN 'home_win'
+    WHEN p_away_score > p_home_score THEN 'away_win'
+    ELSE 'draw'
+  END;
+
+  SELECT * INTO v_calc FROM calculate_match_transfer(
+    v_home.market_cap,
+    v_away.market_cap,
+    p_home_score,
+    p_away_score,
+    v_result,
+    v_fixture.competition_type,
+    v_rules.params
+  );
+
+  v_home_delta := CASE v_calc.receiver
+    WHEN 'home' THEN v_calc.transfer_amount
+    WHEN 'away' THEN -v_calc.transfer_amount
+    ELSE 0
+  END;
+
+  UPDATE simulation_teams SET market_cap = market_cap + v_home_delta
+  WHERE workspace_id = p_workspace_id AND team_id = v_home.team_id;
+  UPDATE simulation_teams SET market_cap = market_cap - v_home_delta
+  WHERE workspace_id = p_workspace_id AND team_id = v_away.team_id;
+
+  UPDATE simulation_fixtures
+  SET status = 'applied',
+      result = v_result,
+      home_score = p_home_score,
+      away_score = p_away_score,
+      snapshot_home_cap = v_home.market_cap,
+      snapshot_away_cap = v_away.market_cap,
+      transfer_amount = v_calc.transfer_amount,
+      rule_version = v_rules.version,
+      simulated_at = clock_timestamp()
+  WHERE workspace_id = p_workspace_id AND fixture_id = p_fixture_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'result', v_result,
+    'transfer_amount', v_calc.transfer_amount,
+    'rule_version', v_rules.version,
+    'home_market_cap_before', v_home.market_cap,
+    'away_market_cap_before', v_away.market_cap,
+    'home_market_cap_after', v_home.market_cap + v_home_delta,
+    'away_market_cap_after', v_away.market_cap - v_home_delta
+  );
+END;
+$$;
+
+-- ============================================================
+-- Discard / promote
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION discard_simulation_workspace(p_workspace_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can discard simulation workspaces';
+  END IF;
+
+  UPDATE simulation_workspaces
+  SET status = 'discarded', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = p_workspace_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Workspace not found or closed');
+  END IF;
+
+  -- Keep the workspace row for the audit trail; the forked copies can go
+  DELETE FROM simulation_positions WHERE workspace_id = p_workspace_id;
+  DELETE FROM simulation_fixtures WHERE workspace_id = p_workspace_id AND simulated_at IS NULL;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id)
+  VALUES (auth.uid(), 'simulation_workspace_discarded', 'simulation_workspaces', p_workspace_id);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promote_simulation_workspace(p_workspace_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_diverged INTEGER;
+  v_promoted INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can promote simulation workspaces';
+  END IF;
+
+  PERFORM 1 FROM simulation_workspaces WHERE id = p_workspace_id AND status = 'open' FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Workspace not found or closed');
+  END IF;
+
+  -- Lock live teams so nothing moves between the check and the replay
+  PERFORM 1 FROM teams FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_diverged
+  FROM simulation_teams s
+  JOIN teams t ON t.id = s.team_id
+  WHERE s.workspace_id = p_workspace_id
+    AND t.market_cap <> s.forked_market_cap;
+
+  IF v_diverged > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Live market caps changed since the workspace was forked',
+      'diverged_teams', v_diverged
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM simulation_fixtures s
+    JOIN fixtures f ON f.id = s.fixture_id
+    WHERE s.workspace_id = p_workspace_id
+      AND s.simulated_at IS NOT NULL
+      AND COALESCE(f.result, 'pending') <> 'pending'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A simulated fixture already has a live result');
+  END IF;
+
+  -- Replay in simulation order; fixture_result_trigger applies each transfer
+  FOR v_fixture IN
+    SELECT * FROM simulation_fixtures
+    WHERE workspace_id = p_workspace_id AND simulated_at IS NOT NULL
+    ORDER BY simulated_at
+  LOOP
+    UPDATE fixtures
+    SET status = 'applied',
+        result = v_fixture.result,
+        home_score = v_fixture.home_score,
+        away_score = v_fixture.away_score,
+        snapshot_home_cap = v_fixture.snapshot_home_cap,
+        snapshot_away_cap = v_fixture.snapshot_away_cap
+    WHERE id = v_fixture.fixture_id;
+
+    v_promoted := v_promoted + 1;
+  END LOOP;
+
+  UPDATE simulation_workspaces
+  SET status = 'promoted', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = p_workspace_id;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (
+    auth.uid(), 'simulation_workspace_promoted', 'simulation_workspaces', p_workspace_id,
+    jsonb_build_object('fixtures_promoted', v_promoted)
+  );
+
+  RETURN jsonb_build_object('success', true, 'fixtures_promoted', v_promoted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_simulation_workspace(TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION simulate_workspace_fixture(INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION discard_simulation_workspace(INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION promote_simulation_workspace(INTEGER) TO authenticated, service_role;
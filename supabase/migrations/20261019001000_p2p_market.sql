@@ -0,0 +1,549 @@
+-- Peer-to-peer secondary market
+--
+-- Optional order book next to platform trading at NAV. Users post bids
+-- (BID) and asks (ASK) for club shares at their own prices; trades move
+-- shares and cash between two users and never touch market_cap,
+-- available_shares or the platform order flow in `orders`.
+--
+-- Matching mirrors matchOrderBook (src/shared/lib/utils/order-book.ts):
+-- price-time priority, execution at the maker's price, no self-trades,
+-- partial fills. Orders are matched when placed and again by the
+-- scheduled job, in both cases only while the club's trading window is
+-- open (is_team_trading_window_open).
+--
+-- Reservations follow limit orders: a bid debits price x quantity from the
+-- wallet up front, an ask adds to positions.reserved_quantity. Unused
+-- reservation is returned on fill (price improvement), cancel and expiry.
+--
+-- Lifecycle: OPEN -> FILLED | CANCELLED | EXPIRED
+-- All money values are BIGINT cents.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS p2p_orders (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('BID', 'ASK')),
+  price_cents BIGINT NOT NULL CHECK (price_cents > 0),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  filled_quantity INTEGER NOT NULL DEFAULT 0,
+  reserved_cents BIGINT NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'FILLED', 'CANCELLED', 'EXPIRED')),
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cancelled_at TIMESTAMPTZ,
+  CHECK (filled_quantity BETWEEN 0 AND quantity)
+);
+
+CREATE TABLE IF NOT EXISTS p2p_trades (
+  id SERIAL PRIMARY KEY,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  bid_order_id INTEGER NOT NULL REFERENCES p2p_orders(id),
+  ask_order_id INTEGER NOT NULL REFERENCES p2p_orders(id),
+  buyer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  price_cents BIGINT NOT NULL CHECK (price_cents > 0),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  executed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_orders_book
+  ON p2p_orders (team_id, side, price_cents, created_at)
+  WHERE status = 'OPEN';
+
+CREATE INDEX IF NOT EXISTS idx_p2p_orders_user
+  ON p2p_orders (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_trades_team
+  ON p2p_trades (team_id, executed_at DESC);
+
+ALTER TABLE p2p_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE p2p_trades ENABLE ROW LEVEL SECURITY;
+
+-- Other users' orders are only visible aggregated (get_p2p_order_book)
+DROP POLICY IF EXISTS "Users can view own p2p orders" ON p2p_orders;
+CREATE POLICY "Users can view own p2p orders"
+  ON p2p_orders FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own p2p trades" ON p2p_trades;
+CREATE POLICY "Users can view own p2p trades"
+  ON p2p_trades FOR SELECT
+  USING (auth.uid() = buyer_id OR auth.uid() = seller_id);
+
+GRANT SELECT ON p2p_orders, p2p_trades TO authenticated;
+
+-- ============================================================
+-- Release (shared by cancel and expiry)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION release_p2p_order_reservation(p_order_id INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM p2p_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.side = 'BID' AND v_order.reserved_cents > 0 THEN
+    UPDATE profiles
+    SET wallet_balance = wallet_balance + v_order.reserved_cents,
+        updated_at = NOW()
+    WHERE id = v_order.user_id;
+
+    INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+    VALUES (v_order.user_id, v_order.reserved_cents, 'p2p_release', 'p2p_order:' || v_order.id);
+  ELSIF v_order.side = 'ASK' THEN
+    UPDATE positions
+    SET reserved_quantity = GREATEST(reserved_quantity - (v_order.quantity - v_order.filled_quantity), 0),
+        updated_at = NOW()
+    WHERE user_id = v_order.user_id AND team_id = v_order.team_id;
+  END IF;
+
+  UPDATE p2p_orders SET reserved_cents = 0, updated_at = NOW() WHERE id = p_order_id;
+END;
+$$;
+
+-- ============================================================
+-- Settle one trade
+-- ============================================================
+
+-- Moves p_quantity shares from the ask's owner to the bid's owner at
+-- p_price_cents. The buyer's cash was reserved at the bid price; any
+-- improvement is returned straight away. The seller's cost basis drops
+-- pro rata so average cost is unchanged. Returns NULL without settling when,
+-- once locked, either order can no longer take p_quantity (a concurrent
+-- match got there first).
+CREATE OR REPLACE FUNCTION settle_p2p_trade(
+  p_bid_order_id INTEGER,
+  p_ask_order_id INTEGER,
+  p_quantity INTEGER,
+  p_price_cents BIGINT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bid RECORD;
+  v_ask RECORD;
+  v_seller_position RECORD;
+  v_cost BIGINT := p_price_cents * p_quantity;
+  v_bid_reserved BIGINT;
+  v_improvement BIGINT;
+  v_basis_sold BIGINT;
+  v_trade_id INTEGER;
+BEGIN
+  SELECT * INTO v_bid FROM p2p_orders WHERE id = p_bid_order_id FOR UPDATE;
+  SELECT * INTO v_ask FROM p2p_orders WHERE id = p_ask_order_id FOR UPDATE;
+
+  v_bid_reserved := v_bid.price_cents * p_quantity;
+
+  IF v_bid.status IS DISTINCT FROM 'OPEN' OR v_ask.status IS DISTINCT FROM 'OPEN'
+     OR v_bid.quantity - v_bid.filled_quantity < p_quantity
+     OR v_ask.quantity - v_ask.filled_quantity < p_quantity THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_bid.reserved_cents < v_bid_reserved THEN
+    RAISE EXCEPTION 'Bid reservation does not cover the trade';
+  END IF;
+
+  v_improvement := v_bid_reserved - v_cost;
+
+  -- Seller: shares out (from the reserved ones), cash in
+  SELECT * INTO v_seller_position
+  FROM positions
+  WHERE user_id = v_ask.user_id AND team_id = v_ask.team_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_seller_position.quantity < p_quantity OR v_seller_position.reserved_quantity < p_quantity THEN
+    RAISE EXCEPTION 'Seller no longer holds the reserved shares';
+  END IF;
+
+  v_basis_sold := ROUND(v_seller_position.total_invested::NUMERIC * p_quantity / v_seller_position.quantity)::BIGINT;
+
+  UPDATE positions
+  SET quantity = quantity - p_quantity,
+      reserved_quantity = reserved_quantity - p_quantity,
+      total_invested = total_invested - v_basis_sold,
+      updated_at = NOW()
+  WHERE id = v_seller_position.id;
+
+  UPDATE profiles
+  SET wallet_balance = wallet_balance + v_cost,
+      updated_at = NOW()
+  WHERE id = v_ask.user_id;
+
+  -- Buyer: shares in, reservation consumed, improvement back
+  UPDATE positions
+  SET quantity = quantity + p_quantity,
+      total_invested = total_invested + v_cost,
+      updated_at = NOW()
+  WHERE user_id = v_bid.user_id AND team_id = v_bid.team_id;
+
+  IF NOT FOUND THEN
+    INSERT INTO positions (user_id, team_id, quantity, total_invested)
+    VALUES (v_bid.user_id, v_bid.team_id, p_quantity, v_cost);
+  END IF;
+
+  IF v_improvement > 0 THEN
+    UPDATE profiles
+    SET wallet_balance = wallet_balance + v_improvement,
+        updated_at = NOW()
+    WHERE id = v_bid.user_id;
+  END IF;
+
+  UPDATE p2p_orders
+  SET filled_quantity = filled_quantity + p_quantity,
+      reserved_cents = reserved_cents - v_bid_reserved,
+      status = CASE WHEN filled_quantity + p_quantity = quantity THEN 'FILLED' ELSE status END,
+      updated_at = NOW()
+  WHERE id = p_bid_order_id;
+
+  UPDATE p2p_orders
+  SET filled_quantity = filled_quantity + p_quantity,
+      status = CASE WHEN filled_quantity + p_quantity = quantity THEN 'FILLED' ELSE status END,
+      updated_at = NOW()
+  WHERE id = p_ask_order_id;
+
+  INSERT INTO p2p_trades (team_id, bid_order_id, ask_order_id, buyer_id, seller_id, price_cents, quantity)
+  VALUES (v_bid.team_id, p_bid_order_id, p_ask_order_id, v_bid.user_id, v_ask.user_id, p_price_cents, p_quantity)
+  RETURNING id INTO v_trade_id;
+
+  INSERT INTO wallet_transactions (user_id, amount_cents, type, ref) VALUES
+    (v_bid.user_id, v_cost, 'p2p_buy', 'p2p_trade:' || v_trade_id),
+    (v_ask.user_id, v_cost, 'p2p_sale', 'p2p_trade:' || v_trade_id);
+
+  IF v_improvement > 0 THEN
+    INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+    VALUES (v_bid.user_id, v_improvement, 'p2p_release', 'p2p_trade:' || v_trade_id);
+  END IF;
+
+  RETURN v_trade_id;
+END;
+$$;
+
+-- ============================================================
+-- Match
+-- ============================================================
+
+-- Crosses the book of one club (or every club) until no bid/ask pair from
+-- different users crosses. Each trade runs in its own sub-transaction. A
+-- pair that went stale since it was read is simply re-read; an ask whose
+-- owner no longer has the shares is cancelled and matching continues; any
+-- other failure (a deadlock, say) leaves the club for the next run.
+CREATE OR REPLACE FUNCTION match_p2p_orders(p_team_id INTEGER DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id INTEGER;
+  v_pair RECORD;
+  v_trades INTEGER := 0;
+  v_failed INTEGER := 0;
+BEGIN
+  FOR v_team_id IN
+    SELECT DISTINCT team_id FROM p2p_orders
+    WHERE status = 'OPEN' AND (p_team_id IS NULL OR team_id = p_team_id)
+  LOOP
+    IF NOT is_team_trading_window_open(v_team_id) THEN
+      CONTINUE;
+    END IF;
+
+    LOOP
+      SELECT
+        b.id AS bid_id,
+        a.id AS ask_id,
+        LEAST(b.quantity - b.filled_quantity, a.quantity - a.filled_quantity) AS quantity,
+        CASE WHEN (b.created_at, b.id) <= (a.created_at, a.id) THEN b.price_cents ELSE a.price_cents END AS price_cents
+      INTO v_pair
+      FROM p2p_orders b
+      JOIN p2p_orders a
+        ON a.team_id = b.team_id
+       AND a.side = 'ASK'
+       AND a.status = 'OPEN'
+       AND (a.expires_at IS NULL OR a.expires_at > NOW())
+       AND a.price_cents <= b.price_cents
+       AND a.user_id <> b.user_id
+      WHERE b.team_id = v_team_id
+        AND b.side = 'BID'
+        AND b.status = 'OPEN'
+        AND (b.expires_at IS NULL OR b.expires_at > NOW())
+      ORDER BY b.price_cents DESC, b.created_at, b.id, a.price_cents, a.created_at, a.id
+      LIMIT 1;
+
+      EXIT WHEN NOT FOUND;
+
+      BEGIN
+        IF settle_p2p_trade(v_pair.bid_id, v_pair.ask_id, v_pair.quantity, v_pair.price_cents) IS NOT NULL THEN
+          v_trades := v_trades + 1;
+        END IF;
+      EXCEPTION WHEN OTHERS THEN
+        v_failed := v_failed + 1;
+        IF SQLERRM <> 'Seller no longer holds the reserved shares' THEN
+          EXIT;
+        END IF;
+        PERFORM 1 FROM p2p_orders WHERE id = v_pair.ask_id AND status = 'OPEN' FOR UPDATE;
+        IF FOUND THEN
+          PERFORM release_p2p_order_reservation(v_pair.ask_id);
+          UPDATE p2p_orders
+          SET status = 'CANCELLED', cancelled_at = NOW(), updated_at = NOW()
+          WHERE id = v_pair.ask_id;
+        END IF;
+      END;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('trades', v_trades, 'failed', v_failed);
+END;
+$$;
+
+-- ============================================================
+-- Place
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION place_p2p_order(
+  p_user_id UUID,
+  p_team_id INTEGER,
+  p_side TEXT,
+  p_quantity INTEGER,
+  p_price_cents BIGINT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reserved_cents BIGINT := 0;
+  v_balance BIGINT;
+  v_position RECORD;
+  v_order_id INTEGER;
+  v_match JSONB;
+  v_order RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot place orders for another user';
+  END IF;
+
+  IF p_side NOT IN ('BID', 'ASK') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Side must be BID or ASK');
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  END IF;
+
+  IF p_price_cents IS NULL OR p_price_cents <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Price must be greater than 0');
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Expiry must be in the future');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM teams WHERE id = p_team_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Team not found');
+  END IF;
+
+  IF p_side = 'BID' THEN
+    v_reserved_cents := p_price_cents * p_quantity;
+
+    SELECT wallet_balance INTO v_balance FROM profiles WHERE id = p_user_id FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < v_reserved_cents THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Insufficient balance to reserve this bid');
+    END IF;
+
+    UPDATE profiles
+    SET wallet_balance = wallet_balance - v_reserved_cents,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+  ELSE
+    SELECT id, quantity, reserved_quantity INTO v_position
+    FROM positions
+    WHERE user_id = p_user_id AND team_id = p_team_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_position.quantity - v_position.reserved_quantity) < p_quantity THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Insufficient shares available to sell');
+    END IF;
+
+    UPDATE positions
+    SET reserved_quantity = reserved_quantity + p_quantity,
+        updated_at = NOW()
+    WHERE id = v_position.id;
+  END IF;
+
+  INSERT INTO p2p_orders (user_id, team_id, side, price_cents, quantity, reserved_cents, expires_at)
+  VALUES (p_user_id, p_team_id, p_side, p_price_cents, p_quantity, v_reserved_cents, p_expires_at)
+  RETURNING id INTO v_order_id;
+
+  IF v_reserved_cents > 0 THEN
+    INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+    VALUES (p_user_id, v_reserved_cents, 'p2p_reserve', 'p2p_order:' || v_order_id);
+  END IF;
+
+  v_match := match_p2p_orders(p_team_id);
+
+  SELECT status, filled_quantity INTO v_order FROM p2p_orders WHERE id = v_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'status', v_order.status,
+    'filled_quantity', v_order.filled_quantity,
+    'trades', v_match->'trades'
+  );
+END;
+$$;
+
+-- ============================================================
+-- Cancel / expire
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION cancel_p2p_order(p_order_id INTEGER, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot cancel orders for another user';
+  END IF;
+
+  SELECT * INTO v_order FROM p2p_orders WHERE id = p_order_id AND user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF v_order.status <> 'OPEN' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order is no longer open (' || v_order.status || ')');
+  END IF;
+
+  PERFORM release_p2p_order_reservation(p_order_id);
+
+  UPDATE p2p_orders
+  SET status = 'CANCELLED', cancelled_at = NOW(), updated_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order_id', p_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_p2p_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM p2p_orders
+    WHERE status = 'OPEN' AND expires_at IS NOT NULL AND expires_at <= NOW()
+    ORDER BY expires_at
+  LOOP
+    PERFORM 1 FROM p2p_orders WHERE id = v_order_id AND status = 'OPEN' FOR UPDATE;
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM release_p2p_order_reservation(v_order_id);
+
+    UPDATE p2p_orders
+    SET status = 'EXPIRED', cancelled_at = NOW(), updated_at = NOW()
+    WHERE id = v_order_id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================
+-- Read models
+-- ============================================================
+
+-- Aggregated depth (no user ids) plus the last trade for one club
+CREATE OR REPLACE FUNCTION get_p2p_order_book(p_team_id INTEGER, p_levels INTEGER DEFAULT 10)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH open_orders AS (
+    SELECT side, price_cents, quantity - filled_quantity AS remaining
+    FROM p2p_orders
+    WHERE team_id = p_team_id
+      AND status = 'OPEN'
+      AND (expires_at IS NULL OR expires_at > NOW())
+  ),
+  levels AS (
+    SELECT side, price_cents, SUM(remaining)::INTEGER AS quantity, COUNT(*)::INTEGER AS orders
+    FROM open_orders
+    GROUP BY side, price_cents
+  ),
+  bids AS (
+    SELECT * FROM levels WHERE side = 'BID' ORDER BY price_cents DESC LIMIT p_levels
+  ),
+  asks AS (
+    SELECT * FROM levels WHERE side = 'ASK' ORDER BY price_cents ASC LIMIT p_levels
+  ),
+  last_trade AS (
+    SELECT price_cents, quantity, executed_at
+    FROM p2p_trades
+    WHERE team_id = p_team_id
+    ORDER BY executed_at DESC, id DESC
+    LIMIT 1
+  )
+  SELECT jsonb_build_object(
+    'bids', COALESCE((SELECT jsonb_agg(jsonb_build_object('price_cents', price_cents, 'quantity', quantity, 'orders', orders) ORDER BY price_cents DESC) FROM bids), '[]'::jsonb),
+    'asks', COALESCE((SELECT jsonb_agg(jsonb_build_object('price_cents', price_cents, 'quantity', quantity, 'orders', orders) ORDER BY price_cents ASC) FROM asks), '[]'::jsonb),
+    'last_trade', (SELECT to_jsonb(last_trade) FROM last_trade)
+  );
+$$;
+
+-- Last P2P trade per club, for showing next to NAV
+CREATE OR REPLACE FUNCTION get_p2p_last_prices()
+RETURNS TABLE (team_id INTEGER, price_cents BIGINT, quantity INTEGER, executed_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (t.team_id) t.team_id, t.price_cents, t.quantity, t.executed_at
+  FROM p2p_trades t
+  ORDER BY t.team_id, t.executed_at DESC, t.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_p2p_order(UUID, INTEGER, TEXT, INTEGER, BIGINT, TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION cancel_p2p_order(INTEGER, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_p2p_order_book(INTEGER, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_p2p_last_prices() TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION expire_p2p_orders() TO service_role;
+GRANT EXECUTE ON FUNCTION match_p2p_orders(INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION expire_p2p_orders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_p2p_orders(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_p2p_trade(INTEGER, INTEGER, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_p2p_order_reservation(INTEGER) FROM PUBLIC, anon, authenticated;
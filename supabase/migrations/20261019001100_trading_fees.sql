@@ -0,0 +1,511 @@
+-- Trading fees and fee schedules
+--
+-- Mirrors src/shared/lib/utils/trading-fees.ts. The TypeScript engine is the
+-- reference implementation (the confirmation modals quote fees with it);
+-- calculate_trade_fee below must produce identical results for the same
+-- parameters. Parameter keys are the camelCase names used by
+-- FeeScheduleParams.
+--
+-- Exactly one fee schedule is active. Every executed platform trade is a
+-- FILLED market order row (see enforce_trading_window), so fees are applied
+-- by triggers on orders and therefore cover market orders, limit order
+-- fills and stop-loss/take-profit sales alike, inside the same transaction
+-- as the trade:
+-- - BEFORE INSERT prices the fee and records it on the row (fee_cents,
+--   fee_rate, fee_schedule_version, fee_promotion_id)
+-- - AFTER INSERT debits it from the wallet as a 'trade_fee' transaction;
+--   a purchase whose wallet cannot also cover the fee is rolled back
+-- - A resting BUY limit order reserves the most its fill can be charged on
+--   top of its price, so a fully reserved wallet can still pay the fee
+--
+-- Volume tiers use the user's FILLED market order volume for the current
+-- UTC calendar month, before the trade being priced. Promotions waive the
+-- fee for trades executed inside their window. Peer-to-peer trades are not
+-- platform trades and are not charged. All money values are BIGINT cents.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+  version TEXT PRIMARY KEY,
+  description TEXT NOT NULL,
+  params JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_schedules_single_active
+  ON fee_schedules (is_active)
+  WHERE is_active;
+
+INSERT INTO fee_schedules (version, description, params, is_active, activated_at) VALUES
+  (
+    'v0',
+    'No trading fees',
+    '{"percentRate": 0, "minFeeCents": 0, "tiers": []}'::jsonb,
+    false,
+    NULL
+  ),
+  (
+    'v1',
+    '1% per trade, $0.50 minimum; 0.75% from $1,000 and 0.5% from $10,000 monthly volume',
+    '{"percentRate": 0.01, "minFeeCents": 50, "tiers": [
+      {"minMonthlyVolumeCents": 100000, "percentRate": 0.0075},
+      {"minMonthlyVolumeCents": 1000000, "percentRate": 0.005}]}'::jsonb,
+    true,
+    NOW()
+  )
+ON CONFLICT (version) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS fee_promotions (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  side TEXT CHECK (side IN ('BUY', 'SELL')),
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_promotions_window
+  ON fee_promotions (starts_at, ends_at);
+
+ALTER TABLE fee_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fee_promotions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read fee schedules" ON fee_schedules;
+CREATE POLICY "Anyone can read fee schedules"
+  ON fee_schedules FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read fee promotions" ON fee_promotions;
+CREATE POLICY "Anyone can read fee promotions"
+  ON fee_promotions FOR SELECT
+  USING (true);
+
+GRANT SELECT ON fee_schedules, fee_promotions TO anon, authenticated;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fee_cents BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fee_rate NUMERIC(8, 6);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fee_schedule_version TEXT REFERENCES fee_schedules(version);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fee_promotion_id INTEGER REFERENCES fee_promotions(id);
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_filled_month
+  ON orders (user_id, created_at)
+  WHERE order_kind = 'MARKET' AND status = 'FILLED';
+
+-- ============================================================
+-- Calculation (mirror of calculateTradeFee, promotions excluded)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION calculate_trade_fee(
+  p_amount_cents BIGINT,
+  p_monthly_volume_cents BIGINT,
+  p_params JSONB
+)
+RETURNS TABLE (fee_cents BIGINT, rate NUMERIC)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate NUMERIC := COALESCE((p_params->>'percentRate')::NUMERIC, 0);
+  v_min_fee BIGINT := COALESCE((p_params->>'minFeeCents')::BIGINT, 0);
+  v_tier_rate NUMERIC;
+BEGIN
+  IF COALESCE(p_amount_cents, 0) <= 0 THEN
+    RETURN QUERY SELECT 0::BIGINT, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  SELECT (tier->>'percentRate')::NUMERIC INTO v_tier_rate
+  FROM jsonb_array_elements(COALESCE(p_params->'tiers', '[]'::jsonb)) AS tier
+  WHERE (tier->>'minMonthlyVolumeCents')::BIGINT <= COALESCE(p_monthly_volume_cents, 0)
+  ORDER BY (tier->>'minMonthlyVolumeCents')::BIGINT DESC
+  LIMIT 1;
+
+  v_rate := COALESCE(v_tier_rate, v_rate);
+
+  IF v_rate <= 0 AND v_min_fee <= 0 THEN
+    RETURN QUERY SELECT 0::BIGINT, v_rate;
+    RETURN;
+  END IF;
+
+  -- ROUND on NUMERIC rounds half away from zero (half up for positive amounts)
+  RETURN QUERY SELECT
+    LEAST(GREATEST(ROUND(p_amount_cents * v_rate)::BIGINT, v_min_fee), p_amount_cents),
+    v_rate;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_monthly_trade_volume(p_user_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(total_amount), 0)::BIGINT
+  FROM orders
+  WHERE user_id = p_user_id
+    AND order_kind = 'MARKET'
+    AND status = 'FILLED'
+    AND created_at >= (date_trunc('month', p_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+    AND created_at <= p_at;
+$$;
+
+-- ============================================================
+-- Apply to executed trades
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION price_trade_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule RECORD;
+  v_promotion_id INTEGER;
+  v_fee RECORD;
+BEGIN
+  IF NEW.order_kind <> 'MARKET' OR NEW.status <> 'FILLED' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT version, params INTO v_schedule FROM fee_schedules WHERE is_active;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.fee_schedule_version := v_schedule.version;
+
+  SELECT id INTO v_promotion_id
+  FROM fee_promotions
+  WHERE starts_at <= NOW() AND ends_at > NOW()
+    AND (side IS NULL OR side = NEW.order_type)
+  ORDER BY starts_at
+  LIMIT 1;
+
+  IF v_promotion_id IS NOT NULL THEN
+    NEW.fee_promotion_id := v_promotion_id;
+    NEW.fee_cents := 0;
+    NEW.fee_rate := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_fee
+  FROM calculate_trade_fee(NEW.total_amount, get_monthly_trade_volume(NEW.user_id), v_schedule.params);
+
+  NEW.fee_cents := v_fee.fee_cents;
+  NEW.fee_rate := v_fee.rate;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION charge_trade_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance BIGINT;
+BEGIN
+  IF NEW.fee_cents <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT wallet_balance INTO v_balance FROM profiles WHERE id = NEW.user_id FOR UPDATE;
+
+  -- Sale proceeds always cover the fee (fee <= trade amount)
+  IF NEW.order_type = 'BUY' AND COALESCE(v_balance, 0) < NEW.fee_cents THEN
+    RAISE EXCEPTION 'Insufficient balance to cover the trading fee';
+  END IF;
+
+  UPDATE profiles
+  SET wallet_balance = wallet_balance - NEW.fee_cents,
+      updated_at = NOW()
+  WHERE id = NEW.user_id;
+
+  INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+  VALUES (NEW.user_id, NEW.fee_cents, 'trade_fee', 'order:' || NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- The base rate (tiers only lower it) on the full limit amount, ignoring
+-- promotions. Fills release the whole reservation before the purchase, so
+-- the fee is paid out of it; place_limit_order records the total reserved.
+CREATE OR REPLACE FUNCTION reserve_limit_order_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_params JSONB;
+  v_fee_cents BIGINT;
+  v_balance BIGINT;
+BEGIN
+  IF NEW.order_kind <> 'LIMIT' OR NEW.order_type <> 'BUY' OR NEW.status <> 'PENDING' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT params INTO v_params FROM fee_schedules WHERE is_active;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT fee_cents INTO v_fee_cents FROM calculate_trade_fee(NEW.total_amount, 0, v_params);
+
+  IF COALESCE(v_fee_cents, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT wallet_balance INTO v_balance FROM profiles WHERE id = NEW.user_id FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < v_fee_cents THEN
+    RAISE EXCEPTION 'Insufficient balance to reserve % cents', NEW.reserved_cents + v_fee_cents;
+  END IF;
+
+  UPDATE profiles
+  SET wallet_balance = wallet_balance - v_fee_cents,
+      updated_at = NOW()
+  WHERE id = NEW.user_id;
+
+  NEW.reserved_cents := NEW.reserved_cents + v_fee_cents;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_price_trade_fee ON orders;
+CREATE TRIGGER trg_price_trade_fee
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION price_trade_fee();
+
+DROP TRIGGER IF EXISTS trg_charge_trade_fee ON orders;
+CREATE TRIGGER trg_charge_trade_fee
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION charge_trade_fee();
+
+DROP TRIGGER IF EXISTS trg_reserve_limit_order_fee ON orders;
+CREATE TRIGGER trg_reserve_limit_order_fee
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION reserve_limit_order_fee();
+
+-- ============================================================
+-- Quotes
+-- ============================================================
+
+-- Everything the client needs to quote a fee with calculateTradeFee:
+-- the active schedule, current and upcoming promotions and the user's
+-- volume so far this month
+CREATE OR REPLACE FUNCTION get_trade_fee_context(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot read fee context for another user';
+  END IF;
+
+  SELECT version, description, params INTO v_schedule FROM fee_schedules WHERE is_active;
+
+  RETURN jsonb_build_object(
+    'schedule', CASE WHEN v_schedule.version IS NULL THEN NULL ELSE jsonb_build_object(
+      'version', v_schedule.version,
+      'description', v_schedule.description,
+      'params', v_schedule.params
+    ) END,
+    'promotions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', id, 'name', name, 'starts_at', starts_at, 'ends_at', ends_at, 'side', side
+      ) ORDER BY starts_at)
+      FROM fee_promotions
+      WHERE ends_at > NOW()
+    ), '[]'::jsonb),
+    'monthly_volume_cents', get_monthly_trade_volume(p_user_id)
+  );
+END;
+$$;
+
+-- ============================================================
+-- Admin
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION activate_fee_schedule(p_version TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the active fee schedule';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM fee_schedules WHERE version = p_version) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown fee schedule version');
+  END IF;
+
+  UPDATE fee_schedules SET is_active = false WHERE is_active AND version <> p_version;
+  UPDATE fee_schedules SET is_active = true, activated_at = NOW() WHERE version = p_version;
+
+  INSERT INTO audit_log (user_id, action, table_name, new_values)
+  VALUES (auth.uid(), 'fee_schedule_activated', 'fee_schedules', jsonb_build_object('version', p_version));
+
+  RETURN jsonb_build_object('success', true, 'version', p_version);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_fee_promotion(
+  p_name TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ,
+  p_side TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create fee promotions';
+  END IF;
+
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Promotion name is required');
+  END IF;
+
+  IF p_ends_at <= p_starts_at THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Promotion must end after it starts');
+  END IF;
+
+  IF p_ends_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Promotion must end in the future');
+  END IF;
+
+  IF p_side IS NOT NULL AND p_side NOT IN ('BUY', 'SELL') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Side must be BUY, SELL or empty for both');
+  END IF;
+
+  INSERT INTO fee_promotions (name, starts_at, ends_at, side, created_by)
+  VALUES (TRIM(p_name), p_starts_at, p_ends_at, p_side, auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'fee_promotion_created', 'fee_promotions', v_id,
+    jsonb_build_object('name', TRIM(p_name), 'starts_at', p_starts_at, 'ends_at', p_ends_at, 'side', p_side));
+
+  RETURN jsonb_build_object('success', true, 'promotion_id', v_id);
+END;
+$$;
+
+-- Ends a promotion now (or drops it if it has not started yet)
+CREATE OR REPLACE FUNCTION end_fee_promotion(p_promotion_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion RECORD;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can end fee promotions';
+  END IF;
+
+  SELECT * INTO v_promotion FROM fee_promotions WHERE id = p_promotion_id FOR UPDATE;
+
+  IF NOT FOUND OR v_promotion.ends_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Promotion not found or already ended');
+  END IF;
+
+  IF v_promotion.starts_at > NOW() AND NOT EXISTS (SELECT 1 FROM orders WHERE fee_promotion_id = p_promotion_id) THEN
+    DELETE FROM fee_promotions WHERE id = p_promotion_id;
+  ELSE
+    UPDATE fee_promotions SET ends_at = NOW() WHERE id = p_promotion_id;
+  END IF;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'fee_promotion_ended', 'fee_promotions', p_promotion_id, jsonb_build_object('ended_at', NOW()));
+
+  RETURN jsonb_build_object('success', true, 'promotion_id', p_promotion_id);
+END;
+$$;
+
+-- Fee revenue per UTC month, side and schedule version
+CREATE OR REPLACE FUNCTION get_fee_revenue_breakdown(p_months INTEGER DEFAULT 12)
+RETURNS TABLE (
+  month TEXT,
+  side TEXT,
+  schedule_version TEXT,
+  trades INTEGER,
+  waived_trades INTEGER,
+  volume_cents BIGINT,
+  fee_cents BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view fee revenue';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    to_char(o.created_at AT TIME ZONE 'UTC', 'YYYY-MM'),
+    o.order_type::TEXT,
+    o.fee_schedule_version,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE o.fee_promotion_id IS NOT NULL)::INTEGER,
+    COALESCE(SUM(o.total_amount), 0)::BIGINT,
+    COALESCE(SUM(o.fee_cents), 0)::BIGINT
+  FROM orders o
+  WHERE o.order_kind = 'MARKET'
+    AND o.status = 'FILLED'
+    AND o.created_at >= (date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')
+      - make_interval(months => GREATEST(COALESCE(p_months, 12), 1) - 1)
+  GROUP BY 1, 2, 3
+  ORDER BY 1 DESC, 2, 3;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_trade_fee(BIGINT, BIGINT, JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_trade_fee_context(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION activate_fee_schedule(TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION create_fee_promotion(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION end_fee_promotion(INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_fee_revenue_breakdown(INTEGER) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION get_monthly_trade_volume(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,40 @@
+-- Cost basis method preference for tax-lot accounting
+--
+-- Lots are built client-side from FILLED market orders and P2P trades (see
+-- src/shared/lib/utils/tax-lots.ts); the database only stores which method
+-- the user reports under. Changing it re-states past years on the next
+-- statement, it does not rewrite any trade.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS cost_basis_method TEXT NOT NULL DEFAULT 'FIFO'
+    CHECK (cost_basis_method IN ('FIFO', 'AVERAGE'));
+
+CREATE OR REPLACE FUNCTION set_cost_basis_method(
+  p_user_id UUID,
+  p_method TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Cannot change the cost basis method of another user';
+  END IF;
+
+  IF p_method NOT IN ('FIFO', 'AVERAGE') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown cost basis method');
+  END IF;
+
+  UPDATE profiles SET cost_basis_method = p_method WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Profile not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'method', p_method);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_cost_basis_method(UUID, TEXT) TO authenticated, service_role;
@@ -0,0 +1,369 @@
+-- Dividend payouts to shareholders
+--
+-- Admins define prize pools per season: one per final league position, one
+-- per league position after a matchday (optional) and one for the cup
+-- winner. Paying an award splits its pool pro rata between the holders of
+-- the club's shares at the record date and credits each wallet through
+-- credit_wallet with a 'dividend' wallet transaction.
+--
+-- allocate_dividend mirrors allocateDividendPool in
+-- src/shared/lib/utils/dividends.ts, which the admin preview uses; both
+-- must split a pool identically. Holdings at the record date are current
+-- positions less every filled market order and P2P trade executed after it.
+-- An award is paid at most once per season, award type, matchday and club.
+-- All money values are BIGINT cents.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS dividend_prize_pools (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL,
+  award_type TEXT NOT NULL CHECK (award_type IN ('league_position', 'matchday_position', 'cup_win')),
+  league_position INTEGER CHECK (league_position > 0),
+  pool_cents BIGINT NOT NULL CHECK (pool_cents > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((award_type = 'cup_win') = (league_position IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dividend_prize_pools_unique
+  ON dividend_prize_pools (season, award_type, COALESCE(league_position, 0));
+
+CREATE TABLE IF NOT EXISTS dividend_awards (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL,
+  award_type TEXT NOT NULL CHECK (award_type IN ('league_position', 'matchday_position', 'cup_win')),
+  matchday INTEGER,
+  league_position INTEGER,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  pool_cents BIGINT NOT NULL CHECK (pool_cents > 0),
+  record_date TIMESTAMPTZ NOT NULL,
+  holders_count INTEGER NOT NULL DEFAULT 0,
+  shares_held BIGINT NOT NULL DEFAULT 0,
+  paid_cents BIGINT NOT NULL DEFAULT 0,
+  paid_by UUID REFERENCES profiles(id),
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((award_type = 'matchday_position') = (matchday IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dividend_awards_once
+  ON dividend_awards (season, award_type, COALESCE(matchday, 0), team_id);
+
+CREATE TABLE IF NOT EXISTS dividend_payouts (
+  id SERIAL PRIMARY KEY,
+  award_id INTEGER NOT NULL REFERENCES dividend_awards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  quantity BIGINT NOT NULL CHECK (quantity > 0),
+  amount_cents BIGINT NOT NULL CHECK (amount_cents >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (award_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dividend_payouts_user
+  ON dividend_payouts (user_id, created_at DESC);
+
+ALTER TABLE dividend_prize_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dividend_awards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dividend_payouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read dividend prize pools" ON dividend_prize_pools;
+CREATE POLICY "Anyone can read dividend prize pools"
+  ON dividend_prize_pools FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read dividend awards" ON dividend_awards;
+CREATE POLICY "Anyone can read dividend awards"
+  ON dividend_awards FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view own dividend payouts" ON dividend_payouts;
+CREATE POLICY "Users can view own dividend payouts"
+  ON dividend_payouts FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all dividend payouts" ON dividend_payouts;
+CREATE POLICY "Admins can view all dividend payouts"
+  ON dividend_payouts FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- ============================================================
+-- Wallet credit with a transaction type
+-- ============================================================
+
+-- Overload of credit_wallet that records the given wallet transaction type
+-- instead of a deposit. p_type has no default, so existing credit_wallet
+-- calls keep resolving to the original function. Not exposed to clients.
+CREATE OR REPLACE FUNCTION credit_wallet(
+  p_user_id UUID,
+  p_amount_cents BIGINT,
+  p_ref TEXT,
+  p_currency TEXT,
+  p_type TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive';
+  END IF;
+
+  UPDATE profiles
+  SET wallet_balance = COALESCE(wallet_balance, 0) + p_amount_cents,
+      updated_at = NOW()
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile % not found', p_user_id;
+  END IF;
+
+  INSERT INTO wallet_transactions (user_id, amount_cents, currency, type, ref)
+  VALUES (p_user_id, p_amount_cents, COALESCE(p_currency, 'usd'), p_type, p_ref);
+END;
+$$;
+
+-- ============================================================
+-- Holders and allocation
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_dividend_holders(
+  p_team_id INTEGER,
+  p_record_date TIMESTAMPTZ
+)
+RETURNS TABLE (user_id UUID, quantity BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view dividend holders';
+  END IF;
+
+  RETURN QUERY
+  SELECT h.user_id, SUM(h.quantity)::BIGINT
+  FROM (
+    SELECT p.user_id, p.quantity::BIGINT AS quantity
+    FROM positions p
+    WHERE p.team_id = p_team_id
+    UNION ALL
+    SELECT o.user_id, (CASE WHEN o.order_type = 'BUY' THEN -o.quantity ELSE o.quantity END)::BIGINT
+    FROM orders o
+    WHERE o.team_id = p_team_id
+      AND o.order_kind = 'MARKET'
+      AND o.status = 'FILLED'
+      AND COALESCE(o.executed_at, o.created_at) > p_record_date
+    UNION ALL
+    SELECT t.buyer_id, -t.quantity::BIGINT
+    FROM p2p_trades t
+    WHERE t.team_id = p_team_id AND t.executed_at > p_record_date
+    UNION ALL
+    SELECT t.seller_id, t.quantity::BIGINT
+    FROM p2p_trades t
+    WHERE t.team_id = p_team_id AND t.executed_at > p_record_date
+  ) h
+  GROUP BY h.user_id
+  HAVING SUM(h.quantity) > 0;
+END;
+$$;
+
+-- Pro-rata split: floor share each, leftover cents to the largest
+-- remainders, ties by user id
+CREATE OR REPLACE FUNCTION allocate_dividend(
+  p_team_id INTEGER,
+  p_record_date TIMESTAMPTZ,
+  p_pool_cents BIGINT
+)
+RETURNS TABLE (user_id UUID, quantity BIGINT, amount_cents BIGINT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH holders AS (
+    SELECT h.user_id, h.quantity, (SUM(h.quantity) OVER ())::BIGINT AS total
+    FROM get_dividend_holders(p_team_id, p_record_date) h
+  ),
+  shares AS (
+    SELECT user_id, quantity,
+      (p_pool_cents * quantity) / total AS base_cents,
+      (p_pool_cents * quantity) % total AS remainder
+    FROM holders
+  ),
+  ranked AS (
+    SELECT s.*,
+      ROW_NUMBER() OVER (ORDER BY remainder DESC, user_id::TEXT COLLATE "C") AS rank,
+      p_pool_cents - SUM(base_cents) OVER () AS leftover
+    FROM shares s
+  )
+  SELECT user_id, quantity, base_cents + CASE WHEN rank <= leftover THEN 1 ELSE 0 END
+  FROM ranked;
+$$;
+
+-- ============================================================
+-- Admin
+-- ============================================================
+
+-- Replaces the season's pools for one award type.
+-- p_pools: [{"leaguePosition": 1, "poolCents": 100000}, ...]; leaguePosition
+-- is omitted for cup_win
+CREATE OR REPLACE FUNCTION set_dividend_prize_pools(
+  p_season INTEGER,
+  p_award_type TEXT,
+  p_pools JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can define dividend prize pools';
+  END IF;
+
+  IF p_award_type NOT IN ('league_position', 'matchday_position', 'cup_win') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown award type');
+  END IF;
+
+  DELETE FROM dividend_prize_pools WHERE season = p_season AND award_type = p_award_type;
+
+  INSERT INTO dividend_prize_pools (season, award_type, league_position, pool_cents)
+  SELECT p_season, p_award_type,
+    CASE WHEN p_award_type = 'cup_win' THEN NULL ELSE (pool->>'leaguePosition')::INTEGER END,
+    (pool->>'poolCents')::BIGINT
+  FROM jsonb_array_elements(COALESCE(p_pools, '[]'::jsonb)) pool
+  WHERE (pool->>'poolCents')::BIGINT > 0;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'dividend_prize_pools_updated', 'dividend_prize_pools', p_season,
+    jsonb_build_object('season', p_season, 'award_type', p_award_type, 'pools', p_pools));
+
+  RETURN jsonb_build_object('success', true, 'pools', v_count);
+END;
+$$;
+
+-- Pays the awards confirmed in the admin preview, all or nothing.
+-- p_awards: [{"teamId": 1, "leaguePosition": 1, "poolCents": 100000}, ...]
+CREATE OR REPLACE FUNCTION pay_dividends(
+  p_season INTEGER,
+  p_award_type TEXT,
+  p_matchday INTEGER,
+  p_record_date TIMESTAMPTZ,
+  p_awards JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_award JSONB;
+  v_award_id INTEGER;
+  v_payout RECORD;
+  v_holders INTEGER;
+  v_shares BIGINT;
+  v_paid BIGINT;
+  v_total_paid BIGINT := 0;
+  v_awards INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can pay dividends';
+  END IF;
+
+  IF p_award_type NOT IN ('league_position', 'matchday_position', 'cup_win') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown award type');
+  END IF;
+
+  IF (p_award_type = 'matchday_position') <> (p_matchday IS NOT NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A matchday is required for matchday awards only');
+  END IF;
+
+  IF p_record_date IS NULL OR p_record_date > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Record date must be in the past');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_awards, '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No awards to pay');
+  END IF;
+
+  FOR v_award IN SELECT * FROM jsonb_array_elements(p_awards) LOOP
+    IF EXISTS (
+      SELECT 1 FROM dividend_awards
+      WHERE season = p_season
+        AND award_type = p_award_type
+        AND COALESCE(matchday, 0) = COALESCE(p_matchday, 0)
+        AND team_id = (v_award->>'teamId')::INTEGER
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error',
+        'Award already paid for team ' || (v_award->>'teamId'));
+    END IF;
+
+    INSERT INTO dividend_awards (season, award_type, matchday, league_position, team_id, pool_cents, record_date, paid_by)
+    VALUES (
+      p_season, p_award_type, p_matchday,
+      CASE WHEN p_award_type = 'cup_win' THEN NULL ELSE (v_award->>'leaguePosition')::INTEGER END,
+      (v_award->>'teamId')::INTEGER, (v_award->>'poolCents')::BIGINT, p_record_date, auth.uid()
+    )
+    RETURNING id INTO v_award_id;
+
+    v_holders := 0;
+    v_shares := 0;
+    v_paid := 0;
+
+    FOR v_payout IN
+      SELECT * FROM allocate_dividend((v_award->>'teamId')::INTEGER, p_record_date, (v_award->>'poolCents')::BIGINT)
+    LOOP
+      INSERT INTO dividend_payouts (award_id, user_id, team_id, quantity, amount_cents)
+      VALUES (v_award_id, v_payout.user_id, (v_award->>'teamId')::INTEGER, v_payout.quantity, v_payout.amount_cents);
+
+      IF v_payout.amount_cents > 0 THEN
+        PERFORM credit_wallet(
+          p_user_id => v_payout.user_id,
+          p_amount_cents => v_payout.amount_cents,
+          p_ref => 'dividend:' || v_award_id,
+          p_currency => 'usd',
+          p_type => 'dividend'
+        );
+      END IF;
+
+      v_holders := v_holders + 1;
+      v_shares := v_shares + v_payout.quantity;
+      v_paid := v_paid + v_payout.amount_cents;
+    END LOOP;
+
+    UPDATE dividend_awards
+    SET holders_count = v_holders, shares_held = v_shares, paid_cents = v_paid
+    WHERE id = v_award_id;
+
+    v_total_paid := v_total_paid + v_paid;
+    v_awards := v_awards + 1;
+  END LOOP;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'dividends_paid', 'dividend_awards', v_award_id,
+    jsonb_build_object('season', p_season, 'award_type', p_award_type, 'matchday', p_matchday,
+      'record_date', p_record_date, 'awards', v_awards, 'paid_cents', v_total_paid));
+
+  RETURN jsonb_build_object('success', true, 'awards', v_awards, 'paid_cents', v_total_paid);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dividend_holders(INTEGER, TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION set_dividend_prize_pools(INTEGER, TEXT, JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION pay_dividends(INTEGER, TEXT, INTEGER, TIMESTAMPTZ, JSONB) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION credit_wallet(UUID, BIGINT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION allocate_dividend(INTEGER, TIMESTAMPTZ, BIGINT) FROM PUBLIC, anon, authenticated;
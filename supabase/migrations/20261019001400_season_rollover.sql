@@ -0,0 +1,570 @@
+-- Season rollover
+--
+-- Replaces the old "delete every fixture and re-sync" season update.
+-- rollover_season runs all of it in one transaction:
+-- 1. Archives the finished season under its season id: fixtures (with team
+--    names), the match ledger, the final table with closing market caps and
+--    the season leaderboard
+-- 2. Lists the promoted clubs at the IPO market cap chosen by the admin
+-- 3. Relegates clubs that are not in the next season: open limit and P2P
+--    orders are cancelled, every position is settled at the final NAV
+--    (market cap / total shares) and the club is delisted. Depending on the
+--    policy a holder is bought out for cash or converted into shares of the
+--    paired promoted club at its IPO price, with any remainder in cash
+-- 4. Deletes the finished season's fixtures, now that they are archived
+--
+-- Settlements are recorded as FILLED orders with order_kind = 'SETTLEMENT'
+-- (a SELL of the relegated club, plus a BUY of the promoted club when
+-- converting) so trade history, tax lots and statements include them.
+-- Settlement orders bypass the trading window and trading fees, and are the
+-- only orders allowed on a delisted club.
+--
+-- The settlement mirrors calculateRelegationSettlement in
+-- src/shared/lib/utils/season-rollover.ts, which the admin preview uses.
+-- All money values are BIGINT cents.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS delisted_at TIMESTAMPTZ;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_kind_check;
+ALTER TABLE orders ADD CONSTRAINT orders_order_kind_check
+  CHECK (order_kind IN ('MARKET', 'LIMIT', 'SETTLEMENT'));
+
+-- Only limit orders carry a limit price
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_limit_price_check;
+ALTER TABLE orders ADD CONSTRAINT orders_limit_price_check
+  CHECK (order_kind <> 'LIMIT' OR (limit_price IS NOT NULL AND limit_price > 0));
+
+CREATE TABLE IF NOT EXISTS archived_seasons (
+  season INTEGER PRIMARY KEY,
+  next_season INTEGER NOT NULL,
+  relegation_policy TEXT NOT NULL CHECK (relegation_policy IN ('buyout', 'convert')),
+  promoted_ipo_market_cap BIGINT NOT NULL CHECK (promoted_ipo_market_cap > 0),
+  promoted_team_ids INTEGER[] NOT NULL DEFAULT '{}',
+  fixtures_count INTEGER NOT NULL DEFAULT 0,
+  settled_cents BIGINT NOT NULL DEFAULT 0,
+  archived_by UUID REFERENCES profiles(id),
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (next_season > season)
+);
+
+CREATE TABLE IF NOT EXISTS archived_season_fixtures (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL REFERENCES archived_seasons(season) ON DELETE CASCADE,
+  fixture_id INTEGER NOT NULL,
+  external_id TEXT,
+  competition_type TEXT NOT NULL DEFAULT 'league',
+  matchday INTEGER,
+  kickoff_at TIMESTAMPTZ NOT NULL,
+  home_team_id INTEGER NOT NULL,
+  away_team_id INTEGER NOT NULL,
+  home_team_name TEXT NOT NULL,
+  away_team_name TEXT NOT NULL,
+  home_score INTEGER,
+  away_score INTEGER,
+  result TEXT NOT NULL,
+  status TEXT NOT NULL,
+  UNIQUE (season, fixture_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_season_fixtures_kickoff
+  ON archived_season_fixtures (season, kickoff_at);
+
+CREATE TABLE IF NOT EXISTS archived_season_ledger (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL REFERENCES archived_seasons(season) ON DELETE CASCADE,
+  ledger_id INTEGER NOT NULL,
+  fixture_id INTEGER,
+  team_id INTEGER NOT NULL,
+  ledger_type TEXT NOT NULL,
+  event_date TIMESTAMPTZ NOT NULL,
+  opponent_team_name TEXT,
+  match_score TEXT,
+  market_cap_before BIGINT,
+  market_cap_after BIGINT,
+  share_price_before BIGINT,
+  share_price_after BIGINT,
+  UNIQUE (season, ledger_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_season_ledger_team
+  ON archived_season_ledger (season, team_id, event_date);
+
+CREATE TABLE IF NOT EXISTS archived_season_teams (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL REFERENCES archived_seasons(season) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL,
+  team_name TEXT NOT NULL,
+  external_id TEXT,
+  logo_url TEXT,
+  final_position INTEGER NOT NULL,
+  played INTEGER NOT NULL DEFAULT 0,
+  won INTEGER NOT NULL DEFAULT 0,
+  drawn INTEGER NOT NULL DEFAULT 0,
+  lost INTEGER NOT NULL DEFAULT 0,
+  goals_for INTEGER NOT NULL DEFAULT 0,
+  goals_against INTEGER NOT NULL DEFAULT 0,
+  points INTEGER NOT NULL DEFAULT 0,
+  final_market_cap BIGINT NOT NULL,
+  final_share_price BIGINT NOT NULL,
+  total_shares INTEGER NOT NULL,
+  outcome TEXT NOT NULL DEFAULT 'stayed' CHECK (outcome IN ('stayed', 'relegated')),
+  converted_to_team_id INTEGER REFERENCES teams(id),
+  holders_settled INTEGER NOT NULL DEFAULT 0,
+  settled_cents BIGINT NOT NULL DEFAULT 0,
+  UNIQUE (season, team_id)
+);
+
+CREATE TABLE IF NOT EXISTS archived_season_leaderboard (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL REFERENCES archived_seasons(season) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  full_name TEXT,
+  rank INTEGER NOT NULL,
+  end_account_value BIGINT NOT NULL DEFAULT 0,
+  period_return NUMERIC(10, 6) NOT NULL DEFAULT 0,
+  UNIQUE (season, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS relegation_settlements (
+  id SERIAL PRIMARY KEY,
+  season INTEGER NOT NULL REFERENCES archived_seasons(season) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  final_price_cents BIGINT NOT NULL,
+  value_cents BIGINT NOT NULL,
+  converted_to_team_id INTEGER REFERENCES teams(id),
+  converted_quantity INTEGER NOT NULL DEFAULT 0,
+  ipo_price_cents BIGINT,
+  cash_cents BIGINT NOT NULL,
+  sell_order_id INTEGER REFERENCES orders(id),
+  buy_order_id INTEGER REFERENCES orders(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (season, team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_relegation_settlements_user
+  ON relegation_settlements (user_id, created_at DESC);
+
+ALTER TABLE archived_seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE archived_season_fixtures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE archived_season_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE archived_season_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE archived_season_leaderboard ENABLE ROW LEVEL SECURITY;
+ALTER TABLE relegation_settlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read archived seasons" ON archived_seasons;
+CREATE POLICY "Anyone can read archived seasons"
+  ON archived_seasons FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read archived fixtures" ON archived_season_fixtures;
+CREATE POLICY "Anyone can read archived fixtures"
+  ON archived_season_fixtures FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read archived ledger" ON archived_season_ledger;
+CREATE POLICY "Anyone can read archived ledger"
+  ON archived_season_ledger FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read archived tables" ON archived_season_teams;
+CREATE POLICY "Anyone can read archived tables"
+  ON archived_season_teams FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can view archived leaderboards" ON archived_season_leaderboard;
+CREATE POLICY "Authenticated users can view archived leaderboards"
+  ON archived_season_leaderboard FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view own relegation settlements" ON relegation_settlements;
+CREATE POLICY "Users can view own relegation settlements"
+  ON relegation_settlements FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all relegation settlements" ON relegation_settlements;
+CREATE POLICY "Admins can view all relegation settlements"
+  ON relegation_settlements FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- ============================================================
+-- Delisted clubs
+-- ============================================================
+
+-- Shared by orders and p2p_orders; only settlement orders may touch a
+-- delisted club
+CREATE OR REPLACE FUNCTION enforce_team_listed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(to_jsonb(NEW)->>'order_kind', '') <> 'SETTLEMENT'
+     AND EXISTS (SELECT 1 FROM teams WHERE id = NEW.team_id AND delisted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This club is no longer listed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_team_listed ON orders;
+CREATE TRIGGER trg_enforce_team_listed
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_team_listed();
+
+DROP TRIGGER IF EXISTS trg_enforce_team_listed ON p2p_orders;
+CREATE TRIGGER trg_enforce_team_listed
+  BEFORE INSERT ON p2p_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_team_listed();
+
+-- ============================================================
+-- Rollover
+-- ============================================================
+
+-- p_standings: final table, [{"teamId": 1, "position": 1, "played": 38,
+--   "won": 28, "drawn": 5, "lost": 5, "goalsFor": 90, "goalsAgainst": 30,
+--   "points": 89}, ...]
+-- p_relegations: [{"teamId": 18, "convertToTeamId": 21}, ...];
+--   convertToTeamId is null (or omitted) for a cash buyout
+-- p_promoted_team_ids: [21, 22, 23]
+CREATE OR REPLACE FUNCTION rollover_season(
+  p_season INTEGER,
+  p_next_season INTEGER,
+  p_standings JSONB,
+  p_relegations JSONB,
+  p_promoted_team_ids JSONB,
+  p_relegation_policy TEXT,
+  p_ipo_market_cap BIGINT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promoted INTEGER[] := ARRAY(
+    SELECT value::INTEGER FROM jsonb_array_elements_text(COALESCE(p_promoted_team_ids, '[]'::jsonb))
+  );
+  v_relegation JSONB;
+  v_team RECORD;
+  v_target RECORD;
+  v_target_id INTEGER;
+  v_position RECORD;
+  v_order_id INTEGER;
+  v_sell_order_id INTEGER;
+  v_buy_order_id INTEGER;
+  v_final_price BIGINT;
+  v_ipo_price BIGINT;
+  v_available BIGINT;
+  v_value BIGINT;
+  v_converted BIGINT;
+  v_cash BIGINT;
+  v_holders INTEGER;
+  v_team_settled BIGINT;
+  v_settled BIGINT := 0;
+  v_relegated INTEGER := 0;
+  v_fixtures INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can roll over the season';
+  END IF;
+
+  IF p_next_season IS NULL OR p_next_season <= p_season THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The next season must come after the archived one');
+  END IF;
+
+  IF p_relegation_policy NOT IN ('buyout', 'convert') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown relegation policy');
+  END IF;
+
+  IF p_ipo_market_cap IS NULL OR p_ipo_market_cap <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'IPO market cap must be positive');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM archived_seasons WHERE season = p_season) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Season ' || p_season || ' is already archived');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_relegations, '[]'::jsonb)) r
+    WHERE (r->>'convertToTeamId') IS NOT NULL
+      AND (p_relegation_policy <> 'convert' OR NOT (r->>'convertToTeamId')::INTEGER = ANY (v_promoted))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Relegated clubs can only convert into promoted clubs');
+  END IF;
+
+  INSERT INTO archived_seasons (season, next_season, relegation_policy, promoted_ipo_market_cap, promoted_team_ids, archived_by)
+  VALUES (p_season, p_next_season, p_relegation_policy, p_ipo_market_cap, v_promoted, auth.uid());
+
+  -- 1. Archive
+
+  INSERT INTO archived_season_fixtures (
+    season, fixture_id, external_id, competition_type, matchday, kickoff_at,
+    home_team_id, away_team_id, home_team_name, away_team_name,
+    home_score, away_score, result, status
+  )
+  SELECT p_season, f.id, f.external_id::TEXT, COALESCE(f.competition_type, 'league'), f.matchday, f.kickoff_at,
+    f.home_team_id, f.away_team_id, h.name, a.name,
+    f.home_score, f.away_score, f.result, f.status
+  FROM fixtures f
+  JOIN teams h ON h.id = f.home_team_id
+  JOIN teams a ON a.id = f.away_team_id
+  WHERE f.season = p_season;
+
+  GET DIAGNOSTICS v_fixtures = ROW_COUNT;
+
+  INSERT INTO archived_season_ledger (
+    season, ledger_id, fixture_id, team_id, ledger_type, event_date,
+    opponent_team_name, match_score, market_cap_before, market_cap_after,
+    share_price_before, share_price_after
+  )
+  SELECT p_season, l.id, l.trigger_event_id, l.team_id, l.ledger_type, l.event_date,
+    l.opponent_team_name, l.match_score, l.market_cap_before, l.market_cap_after,
+    l.share_price_before, l.share_price_after
+  FROM total_ledger l
+  WHERE l.trigger_event_type = 'fixture'
+    AND l.trigger_event_id IN (SELECT id FROM fixtures WHERE season = p_season);
+
+  -- Closing caps are taken before any relegation settlement
+  INSERT INTO archived_season_teams (
+    season, team_id, team_name, external_id, logo_url, final_position,
+    played, won, drawn, lost, goals_for, goals_against, points,
+    final_market_cap, final_share_price, total_shares, outcome
+  )
+  SELECT p_season, t.id, t.name, t.external_id::TEXT, t.logo_url, (s->>'position')::INTEGER,
+    COALESCE((s->>'played')::INTEGER, 0), COALESCE((s->>'won')::INTEGER, 0),
+    COALESCE((s->>'drawn')::INTEGER, 0), COALESCE((s->>'lost')::INTEGER, 0),
+    COALESCE((s->>'goalsFor')::INTEGER, 0), COALESCE((s->>'goalsAgainst')::INTEGER, 0),
+    COALESCE((s->>'points')::INTEGER, 0),
+    t.market_cap, ROUND(t.market_cap::NUMERIC / COALESCE(NULLIF(t.total_shares, 0), 1000)),
+    COALESCE(NULLIF(t.total_shares, 0), 1000),
+    CASE WHEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_relegations, '[]'::jsonb)) r
+      WHERE (r->>'teamId')::INTEGER = t.id
+    ) THEN 'relegated' ELSE 'stayed' END
+  FROM jsonb_array_elements(COALESCE(p_standings, '[]'::jsonb)) s
+  JOIN teams t ON t.id = (s->>'teamId')::INTEGER;
+
+  INSERT INTO archived_season_leaderboard (season, user_id, full_name, rank, end_account_value, period_return)
+  SELECT p_season, pl.user_id, pr.full_name, pl.rank, pl.end_account_value, pl.period_return
+  FROM period_leaderboard pl
+  LEFT JOIN profiles pr ON pr.id = pl.user_id
+  WHERE pl.period_type = 'season' AND pl.period_key = p_season::TEXT;
+
+  -- 2. List promoted clubs (before relegation, so conversions buy at the IPO price)
+
+  UPDATE teams
+  SET total_shares = COALESCE(NULLIF(total_shares, 0), 1000),
+      available_shares = COALESCE(NULLIF(total_shares, 0), 1000),
+      initial_market_cap = p_ipo_market_cap,
+      market_cap = p_ipo_market_cap,
+      launch_price = ROUND(p_ipo_market_cap::NUMERIC / COALESCE(NULLIF(total_shares, 0), 1000)),
+      is_tradeable = true,
+      delisted_at = NULL,
+      updated_at = NOW()
+  WHERE id = ANY (v_promoted);
+
+  -- Price history restarts at the IPO price
+  INSERT INTO total_ledger (
+    team_id, ledger_type, event_date, event_description, trigger_event_type,
+    amount_transferred, price_impact,
+    market_cap_before, market_cap_after,
+    shares_outstanding_before, shares_outstanding_after,
+    share_price_before, share_price_after, notes
+  )
+  SELECT t.id, 'initial_state', NOW(), 'Listed for season ' || p_next_season, 'season_rollover',
+    0, 0,
+    t.market_cap, t.market_cap,
+    t.shares_outstanding, t.shares_outstanding,
+    t.launch_price, t.launch_price, 'Promoted club IPO'
+  FROM teams t
+  WHERE t.id = ANY (v_promoted);
+
+  -- 3. Relegate
+
+  FOR v_relegation IN SELECT * FROM jsonb_array_elements(COALESCE(p_relegations, '[]'::jsonb)) LOOP
+    SELECT * INTO v_team FROM teams WHERE id = (v_relegation->>'teamId')::INTEGER FOR UPDATE;
+
+    IF NOT FOUND OR v_team.delisted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Club % is not listed', v_relegation->>'teamId';
+    END IF;
+
+    v_final_price := ROUND(v_team.market_cap::NUMERIC / COALESCE(NULLIF(v_team.total_shares, 0), 1000));
+    v_target_id := NULL;
+    v_ipo_price := NULL;
+    v_available := 0;
+
+    IF (v_relegation->>'convertToTeamId') IS NOT NULL THEN
+      SELECT * INTO v_target FROM teams WHERE id = (v_relegation->>'convertToTeamId')::INTEGER FOR UPDATE;
+      v_target_id := v_target.id;
+      v_ipo_price := ROUND(v_target.market_cap::NUMERIC / COALESCE(NULLIF(v_target.total_shares, 0), 1000));
+      v_available := COALESCE(v_target.available_shares, 0);
+    END IF;
+
+    FOR v_order_id IN
+      SELECT id FROM orders WHERE team_id = v_team.id AND order_kind = 'LIMIT' AND status = 'PENDING'
+    LOOP
+      PERFORM release_limit_order_reservation(v_order_id);
+
+      UPDATE orders
+      SET status = 'CANCELLED', cancelled_at = NOW(), cancel_reason = 'club_relegated', updated_at = NOW()
+      WHERE id = v_order_id;
+    END LOOP;
+
+    FOR v_order_id IN
+      SELECT id FROM p2p_orders WHERE team_id = v_team.id AND status = 'OPEN'
+    LOOP
+      PERFORM release_p2p_order_reservation(v_order_id);
+
+      UPDATE p2p_orders
+      SET status = 'CANCELLED', cancelled_at = NOW(), updated_at = NOW()
+      WHERE id = v_order_id;
+    END LOOP;
+
+    v_holders := 0;
+    v_team_settled := 0;
+
+    FOR v_position IN
+      SELECT * FROM positions
+      WHERE team_id = v_team.id AND quantity > 0
+      ORDER BY user_id::TEXT COLLATE "C"
+      FOR UPDATE
+    LOOP
+      v_value := v_position.quantity::BIGINT * v_final_price;
+      v_converted := 0;
+      IF v_ipo_price > 0 THEN
+        v_converted := LEAST(v_value / v_ipo_price, v_available);
+        v_available := v_available - v_converted;
+      END IF;
+      v_cash := v_value - v_converted * COALESCE(v_ipo_price, 0);
+
+      INSERT INTO orders (
+        user_id, team_id, order_type, order_kind, quantity, price_per_share, total_amount,
+        status, executed_at, market_cap_before, shares_outstanding_before
+      ) VALUES (
+        v_position.user_id, v_team.id, 'SELL', 'SETTLEMENT', v_position.quantity, v_final_price, v_value,
+        'FILLED', NOW(), v_team.market_cap, v_team.shares_outstanding
+      )
+      RETURNING id INTO v_sell_order_id;
+
+      UPDATE positions
+      SET quantity = 0,
+          reserved_quantity = 0,
+          total_invested = 0,
+          updated_at = NOW()
+      WHERE id = v_position.id;
+
+      IF v_value > 0 THEN
+        UPDATE profiles
+        SET wallet_balance = COALESCE(wallet_balance, 0) + v_value,
+            updated_at = NOW()
+        WHERE id = v_position.user_id;
+
+        INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+        VALUES (v_position.user_id, v_value, 'sale', 'order:' || v_sell_order_id);
+      END IF;
+
+      v_buy_order_id := NULL;
+
+      IF v_converted > 0 THEN
+        INSERT INTO orders (
+          user_id, team_id, order_type, order_kind, quantity, price_per_share, total_amount,
+          status, executed_at, market_cap_before, shares_outstanding_before
+        ) VALUES (
+          v_position.user_id, v_target.id, 'BUY', 'SETTLEMENT', v_converted, v_ipo_price, v_converted * v_ipo_price,
+          'FILLED', NOW(), v_target.market_cap, v_target.shares_outstanding
+        )
+        RETURNING id INTO v_buy_order_id;
+
+        UPDATE profiles
+        SET wallet_balance = wallet_balance - v_converted * v_ipo_price,
+            updated_at = NOW()
+        WHERE id = v_position.user_id;
+
+        INSERT INTO wallet_transactions (user_id, amount_cents, type, ref)
+        VALUES (v_position.user_id, v_converted * v_ipo_price, 'purchase', 'order:' || v_buy_order_id);
+
+        UPDATE positions
+        SET quantity = quantity + v_converted,
+            total_invested = total_invested + v_converted * v_ipo_price,
+            updated_at = NOW()
+        WHERE user_id = v_position.user_id AND team_id = v_target.id;
+
+        IF NOT FOUND THEN
+          INSERT INTO positions (user_id, team_id, quantity, total_invested)
+          VALUES (v_position.user_id, v_target.id, v_converted, v_converted * v_ipo_price);
+        END IF;
+      END IF;
+
+      INSERT INTO relegation_settlements (
+        season, team_id, user_id, quantity, final_price_cents, value_cents,
+        converted_to_team_id, converted_quantity, ipo_price_cents, cash_cents,
+        sell_order_id, buy_order_id
+      ) VALUES (
+        p_season, v_team.id, v_position.user_id, v_position.quantity, v_final_price, v_value,
+        v_target_id, v_converted, v_ipo_price, v_cash,
+        v_sell_order_id, v_buy_order_id
+      );
+
+      v_holders := v_holders + 1;
+      v_team_settled := v_team_settled + v_value;
+    END LOOP;
+
+    IF v_target_id IS NOT NULL THEN
+      UPDATE teams SET available_shares = v_available, updated_at = NOW() WHERE id = v_target_id;
+    END IF;
+
+    UPDATE teams
+    SET delisted_at = NOW(),
+        is_tradeable = false,
+        available_shares = COALESCE(NULLIF(total_shares, 0), 1000),
+        updated_at = NOW()
+    WHERE id = v_team.id;
+
+    UPDATE archived_season_teams
+    SET converted_to_team_id = v_target_id,
+        holders_settled = v_holders,
+        settled_cents = v_team_settled
+    WHERE season = p_season AND team_id = v_team.id;
+
+    v_settled := v_settled + v_team_settled;
+    v_relegated := v_relegated + 1;
+  END LOOP;
+
+  -- 4. Clear the archived fixtures
+
+  DELETE FROM fixtures WHERE season = p_season;
+
+  UPDATE archived_seasons
+  SET fixtures_count = v_fixtures, settled_cents = v_settled
+  WHERE season = p_season;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'season_rolled_over', 'archived_seasons', p_season,
+    jsonb_build_object('season', p_season, 'next_season', p_next_season,
+      'relegation_policy', p_relegation_policy, 'ipo_market_cap', p_ipo_market_cap,
+      'relegations', p_relegations, 'promoted_team_ids', p_promoted_team_ids,
+      'fixtures_archived', v_fixtures, 'settled_cents', v_settled));
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'fixtures_archived', v_fixtures,
+    'relegated', v_relegated,
+    'promoted', COALESCE(array_length(v_promoted, 1), 0),
+    'settled_cents', v_settled
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rollover_season(INTEGER, INTEGER, JSONB, JSONB, JSONB, TEXT, BIGINT) TO authenticated, service_role;
@@ -0,0 +1,196 @@
+-- Competitions
+--
+-- Competitions become a first-class entity keyed by their football-data.org
+-- code (PL, PD, SA, CL). Clubs are listed per competition and season
+-- through team_competitions, and every fixture belongs to a competition.
+--
+-- A fixture's competition_type (used by the transfer rules and the trading
+-- window rules) follows its competition, so Champions League ties between
+-- clubs from different leagues apply transfers at the cup multiplier like
+-- any other cup fixture.
+--
+-- League competitions list the clubs the API returns for them; cup
+-- competitions only link clubs already listed through a league.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS competitions (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9]{2,4}$'),
+  name TEXT NOT NULL,
+  competition_type TEXT NOT NULL CHECK (competition_type IN ('league', 'cup')),
+  area TEXT,
+  emblem_url TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO competitions (code, name, competition_type, area, emblem_url, is_active) VALUES
+  ('PL', 'Premier League', 'league', 'England', 'https://crests.football-data.org/PL.png', true),
+  ('PD', 'La Liga', 'league', 'Spain', 'https://crests.football-data.org/PD.png', false),
+  ('SA', 'Serie A', 'league', 'Italy', 'https://crests.football-data.org/SA.png', false),
+  ('CL', 'UEFA Champions League', 'cup', 'Europe', 'https://crests.football-data.org/CL.png', false)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS team_competitions (
+  competition_id INTEGER NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  season INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (competition_id, season, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_competitions_team ON team_competitions (team_id, season);
+
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS competition_id INTEGER REFERENCES competitions(id);
+CREATE INDEX IF NOT EXISTS idx_fixtures_competition_season ON fixtures (competition_id, season);
+
+-- Everything synced so far came from the Premier League
+UPDATE fixtures
+SET competition_id = (SELECT id FROM competitions WHERE code = 'PL')
+WHERE competition_id IS NULL AND competition_type = 'league';
+
+INSERT INTO team_competitions (competition_id, team_id, season)
+SELECT DISTINCT f.competition_id, t.team_id, f.season
+FROM fixtures f
+CROSS JOIN LATERAL (VALUES (f.home_team_id), (f.away_team_id)) AS t(team_id)
+WHERE f.competition_id IS NOT NULL AND f.season IS NOT NULL AND t.team_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE competitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_competitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view competitions" ON competitions;
+CREATE POLICY "Anyone can view competitions"
+  ON competitions FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view team competitions" ON team_competitions;
+CREATE POLICY "Anyone can view team competitions"
+  ON team_competitions FOR SELECT
+  USING (true);
+
+GRANT SELECT ON competitions, team_competitions TO anon, authenticated;
+
+-- ============================================================
+-- Fixture competition type
+-- ============================================================
+
+-- Named to fire before trg_sync_fixture_trading_times, which reads
+-- competition_type to pick the trading window rule
+CREATE OR REPLACE FUNCTION set_fixture_competition_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.competition_id IS NOT NULL THEN
+    SELECT competition_type INTO NEW.competition_type
+    FROM competitions
+    WHERE id = NEW.competition_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_fixture_competition_type ON fixtures;
+CREATE TRIGGER trg_set_fixture_competition_type
+  BEFORE INSERT OR UPDATE OF competition_id, competition_type ON fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION set_fixture_competition_type();
+
+-- A competition change can change competition_type, so it must also re-run
+-- the trading window sync
+DROP TRIGGER IF EXISTS trg_sync_fixture_trading_times ON fixtures;
+CREATE TRIGGER trg_sync_fixture_trading_times
+  BEFORE INSERT OR UPDATE OF kickoff_at, competition_id, competition_type, result, buy_close_at ON fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_fixture_trading_times();
+
+-- ============================================================
+-- Admin functions
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION set_competition_active(
+  p_competition_id INTEGER,
+  p_is_active BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  UPDATE competitions
+  SET is_active = p_is_active, updated_at = NOW()
+  WHERE id = p_competition_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Competition not found');
+  END IF;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), CASE WHEN p_is_active THEN 'competition_activated' ELSE 'competition_deactivated' END,
+    'competitions', p_competition_id, jsonb_build_object('is_active', p_is_active));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Replaces a competition's clubs for one season with the given club ids
+CREATE OR REPLACE FUNCTION set_competition_teams(
+  p_competition_id INTEGER,
+  p_season INTEGER,
+  p_team_ids JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM competitions WHERE id = p_competition_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Competition not found');
+  END IF;
+
+  IF jsonb_typeof(p_team_ids) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Club ids must be an array');
+  END IF;
+
+  DELETE FROM team_competitions
+  WHERE competition_id = p_competition_id AND season = p_season;
+
+  INSERT INTO team_competitions (competition_id, team_id, season)
+  SELECT DISTINCT p_competition_id, t.id, p_season
+  FROM jsonb_array_elements_text(p_team_ids) AS ids(team_id)
+  JOIN teams t ON t.id = ids.team_id::INTEGER;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+  VALUES (auth.uid(), 'competition_teams_synced', 'team_competitions', p_competition_id,
+    jsonb_build_object('season', p_season, 'teams', v_count));
+
+  RETURN jsonb_build_object('success', true, 'teams', v_count);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_competition_active(INTEGER, BOOLEAN) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION set_competition_teams(INTEGER, INTEGER, JSONB) TO authenticated, service_role;
@@ -0,0 +1,364 @@
+-- Fixture Lifecycle
+--
+-- Every fixture moves through one state machine, driven by the update-matches
+-- scheduled function and advanced manually from the admin matches panel:
+--
+--   scheduled -> buy_closed -> snapshotted -> live -> finished -> applied
+--
+-- with postponed (before kickoff), abandoned (after kickoff) and voided
+-- (a postponed or abandoned fixture that will not be played) on the side.
+-- fixtures.lifecycle_state holds the state; fixtures.status stays the coarse
+-- status the trading window, the projections and the UI read:
+--
+--   scheduled, buy_closed, snapshotted -> scheduled
+--   live, finished                     -> live (trading stays closed until applied)
+--   applied                            -> applied
+--   postponed, abandoned, voided       -> postponed
+--
+-- Transitions go through transition_fixture, which validates them against
+-- the table in fixture_lifecycle_can_transition (mirrored by
+-- FIXTURE_LIFECYCLE_TRANSITIONS in src/shared/lib/utils/fixture-lifecycle.ts),
+-- applies the state's side effects and records the transition. Repeating a
+-- transition into the current state is a no-op, so a run that dies halfway
+-- resumes from the last recorded state. Failed attempts are recorded too and
+-- back off exponentially (1, 2, 4 ... 60 minutes).
+--
+-- The legacy 'closed' status becomes 'live'.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS lifecycle_state TEXT NOT NULL DEFAULT 'scheduled';
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS lifecycle_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS lifecycle_error TEXT;
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS lifecycle_retry_at TIMESTAMPTZ;
+ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS lifecycle_updated_at TIMESTAMPTZ;
+
+ALTER TABLE fixtures DROP CONSTRAINT IF EXISTS fixtures_lifecycle_state_check;
+ALTER TABLE fixtures ADD CONSTRAINT fixtures_lifecycle_state_check CHECK (lifecycle_state IN (
+  'scheduled', 'buy_closed', 'snapshotted', 'live', 'finished', 'applied', 'postponed', 'abandoned', 'voided'
+));
+
+CREATE INDEX IF NOT EXISTS idx_fixtures_lifecycle_active ON fixtures (lifecycle_state, kickoff_at)
+  WHERE lifecycle_state NOT IN ('applied', 'voided');
+
+CREATE TABLE IF NOT EXISTS fixture_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  fixture_id INTEGER NOT NULL REFERENCES fixtures(id) ON DELETE CASCADE,
+  from_state TEXT NOT NULL,
+  -- NULL when an attempt failed before a target state was chosen
+  to_state TEXT,
+  succeeded BOOLEAN NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('scheduler', 'admin', 'provider', 'migration', 'direct')),
+  actor_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixture_transitions_fixture ON fixture_transitions (fixture_id, created_at);
+
+ALTER TABLE fixture_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view fixture transitions" ON fixture_transitions;
+CREATE POLICY "Admins can view fixture transitions"
+  ON fixture_transitions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+GRANT SELECT ON fixture_transitions TO authenticated;
+
+-- ============================================================
+-- Backfill
+-- ============================================================
+
+UPDATE fixtures SET status = 'live' WHERE status = 'closed';
+
+UPDATE fixtures
+SET lifecycle_state = CASE
+    WHEN status = 'applied' AND COALESCE(result, 'pending') <> 'pending' THEN 'applied'
+    WHEN status = 'applied' THEN 'finished'
+    WHEN status = 'postponed' THEN 'postponed'
+    WHEN status = 'live' THEN 'live'
+    WHEN snapshot_home_cap IS NOT NULL AND snapshot_away_cap IS NOT NULL THEN 'snapshotted'
+    WHEN buy_close_at <= NOW() THEN 'buy_closed'
+    ELSE 'scheduled'
+  END,
+  lifecycle_updated_at = NOW();
+
+INSERT INTO fixture_transitions (fixture_id, from_state, to_state, succeeded, source)
+SELECT id, 'scheduled', lifecycle_state, true, 'migration'
+FROM fixtures
+WHERE lifecycle_state <> 'scheduled';
+
+-- Fixtures inserted by the fixture sync (or any other path) start in the
+-- state matching the status they were inserted with; afterwards only
+-- transition_fixture moves them
+CREATE OR REPLACE FUNCTION set_initial_fixture_lifecycle_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'closed' THEN
+    NEW.status := 'live';
+  END IF;
+
+  NEW.lifecycle_state := CASE
+    WHEN NEW.status = 'applied' AND COALESCE(NEW.result, 'pending') <> 'pending' THEN 'applied'
+    WHEN NEW.status = 'applied' THEN 'finished'
+    WHEN NEW.status = 'postponed' THEN 'postponed'
+    WHEN NEW.status = 'live' THEN 'live'
+    ELSE 'scheduled'
+  END;
+  NEW.lifecycle_updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_initial_fixture_lifecycle_state ON fixtures;
+CREATE TRIGGER trg_set_initial_fixture_lifecycle_state
+  BEFORE INSERT ON fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION set_initial_fixture_lifecycle_state();
+
+-- Status written directly (season simulation, manual result tools) carries
+-- the lifecycle along so the scheduler does not replay those fixtures.
+-- transition_fixture sets both columns together and is left alone.
+CREATE OR REPLACE FUNCTION follow_fixture_status_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_state TEXT;
+BEGIN
+  IF NEW.status = 'closed' THEN
+    NEW.status := 'live';
+  END IF;
+
+  IF NEW.lifecycle_state IS DISTINCT FROM OLD.lifecycle_state
+     OR NOT (NEW.status IS DISTINCT FROM OLD.status
+             OR (NEW.status = 'applied' AND NEW.result IS DISTINCT FROM OLD.result)) THEN
+    RETURN NEW;
+  END IF;
+
+  v_state := CASE
+    WHEN NEW.status = 'applied' AND COALESCE(NEW.result, 'pending') <> 'pending' THEN 'applied'
+    WHEN NEW.status = 'applied' THEN 'finished'
+    WHEN NEW.status = 'postponed' THEN 'postponed'
+    WHEN NEW.status = 'live' THEN 'live'
+    WHEN OLD.lifecycle_state IN ('scheduled', 'buy_closed', 'snapshotted') THEN OLD.lifecycle_state
+    ELSE 'scheduled'
+  END;
+
+  IF v_state <> OLD.lifecycle_state THEN
+    NEW.lifecycle_state := v_state;
+    NEW.lifecycle_error := NULL;
+    NEW.lifecycle_retry_at := NULL;
+    NEW.lifecycle_updated_at := NOW();
+    INSERT INTO fixture_transitions (fixture_id, from_state, to_state, succeeded, source, actor_id, details)
+    VALUES (NEW.id, OLD.lifecycle_state, v_state, true, 'direct', auth.uid(),
+      jsonb_build_object('status', NEW.status, 'result', NEW.result));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_follow_fixture_status_update ON fixtures;
+CREATE TRIGGER trg_follow_fixture_status_update
+  BEFORE UPDATE OF status, result ON fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION follow_fixture_status_update();
+
+-- ============================================================
+-- Transitions
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION fixture_lifecycle_can_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'scheduled' THEN p_to IN ('buy_closed', 'postponed')
+    WHEN 'buy_closed' THEN p_to IN ('snapshotted', 'postponed')
+    WHEN 'snapshotted' THEN p_to IN ('live', 'postponed')
+    WHEN 'live' THEN p_to IN ('finished', 'abandoned')
+    WHEN 'finished' THEN p_to IN ('applied')
+    WHEN 'postponed' THEN p_to IN ('voided')
+    WHEN 'abandoned' THEN p_to IN ('voided')
+    ELSE false
+  END;
+$$;
+
+-- Public fixture status for a lifecycle state
+CREATE OR REPLACE FUNCTION fixture_status_for_lifecycle(p_state TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_state IN ('scheduled', 'buy_closed', 'snapshotted') THEN 'scheduled'
+    WHEN p_state IN ('live', 'finished') THEN 'live'
+    WHEN p_state = 'applied' THEN 'applied'
+    ELSE 'postponed'
+  END;
+$$;
+
+-- Move a fixture to p_to_state. p_details carries the scores for live and
+-- finished ({"home_score": 2, "away_score": 1}); live accepts them without.
+CREATE OR REPLACE FUNCTION transition_fixture(
+  p_fixture_id INTEGER,
+  p_to_state TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb,
+  p_source TEXT DEFAULT 'scheduler'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_home_cap BIGINT;
+  v_away_cap BIGINT;
+  v_home_score INTEGER;
+  v_away_score INTEGER;
+  v_result TEXT;
+  v_apply JSONB;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  SELECT * INTO v_fixture FROM fixtures WHERE id = p_fixture_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture not found');
+  END IF;
+
+  -- Idempotency: a repeated transition leaves the fixture as it is
+  IF v_fixture.lifecycle_state = p_to_state THEN
+    RETURN jsonb_build_object('success', true, 'already', true, 'fixture_id', p_fixture_id, 'state', p_to_state);
+  END IF;
+
+  IF NOT fixture_lifecycle_can_transition(v_fixture.lifecycle_state, p_to_state) THEN
+    RETURN jsonb_build_object('success', false,
+      'error', format('Fixture cannot move from %s to %s', v_fixture.lifecycle_state, p_to_state));
+  END IF;
+
+  v_home_score := COALESCE((p_details->>'home_score')::INTEGER, v_fixture.home_score);
+  v_away_score := COALESCE((p_details->>'away_score')::INTEGER, v_fixture.away_score);
+
+  CASE p_to_state
+    WHEN 'snapshotted' THEN
+      -- Caps frozen at buy-close size the match transfer
+      SELECT market_cap INTO v_home_cap FROM teams WHERE id = v_fixture.home_team_id;
+      SELECT market_cap INTO v_away_cap FROM teams WHERE id = v_fixture.away_team_id;
+      UPDATE fixtures
+      SET snapshot_home_cap = COALESCE(snapshot_home_cap, v_home_cap),
+          snapshot_away_cap = COALESCE(snapshot_away_cap, v_away_cap)
+      WHERE id = p_fixture_id;
+
+    WHEN 'live' THEN
+      UPDATE fixtures
+      SET home_score = COALESCE(v_home_score, 0), away_score = COALESCE(v_away_score, 0)
+      WHERE id = p_fixture_id;
+
+    WHEN 'finished' THEN
+      IF p_details->>'home_score' IS NULL OR p_details->>'away_score' IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Final score required');
+      END IF;
+      UPDATE fixtures
+      SET home_score = v_home_score, away_score = v_away_score, finished_at = NOW()
+      WHERE id = p_fixture_id;
+
+    WHEN 'applied' THEN
+      v_result := CASE
+        WHEN v_home_score > v_away_score THEN 'home_win'
+        WHEN v_away_score > v_home_score THEN 'away_win'
+        ELSE 'draw'
+      END;
+      -- The result trigger applies the transfer; applying again here surfaces
+      -- its outcome (a repeat returns already_processed)
+      UPDATE fixtures SET result = v_result WHERE id = p_fixture_id;
+      v_apply := process_match_result_atomic(p_fixture_id);
+      IF NOT COALESCE((v_apply->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION 'Applying the result failed: %', COALESCE(v_apply->>'error', 'unknown error');
+      END IF;
+
+    ELSE
+      NULL;
+  END CASE;
+
+  UPDATE fixtures
+  SET lifecycle_state = p_to_state,
+      status = fixture_status_for_lifecycle(p_to_state),
+      lifecycle_attempts = 0,
+      lifecycle_error = NULL,
+      lifecycle_retry_at = NULL,
+      lifecycle_updated_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_fixture_id;
+
+  INSERT INTO fixture_transitions (fixture_id, from_state, to_state, succeeded, source, actor_id, details)
+  VALUES (p_fixture_id, v_fixture.lifecycle_state, p_to_state, true, p_source, auth.uid(), COALESCE(p_details, '{}'::jsonb));
+
+  IF p_source = 'admin' THEN
+    INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+    VALUES (auth.uid(), 'fixture_transitioned', 'fixtures', p_fixture_id,
+      jsonb_build_object('from', v_fixture.lifecycle_state, 'to', p_to_state, 'details', p_details));
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'fixture_id', p_fixture_id,
+    'from_state', v_fixture.lifecycle_state, 'state', p_to_state);
+END;
+$$;
+
+-- Record a failed attempt and schedule the retry
+CREATE OR REPLACE FUNCTION record_fixture_transition_failure(
+  p_fixture_id INTEGER,
+  p_to_state TEXT,
+  p_error TEXT,
+  p_source TEXT DEFAULT 'scheduler'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_attempts INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  SELECT * INTO v_fixture FROM fixtures WHERE id = p_fixture_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture not found');
+  END IF;
+
+  v_attempts := v_fixture.lifecycle_attempts + 1;
+
+  UPDATE fixtures
+  SET lifecycle_attempts = v_attempts,
+      lifecycle_error = p_error,
+      lifecycle_retry_at = NOW() + make_interval(mins => LEAST(power(2, v_attempts - 1)::INTEGER, 60))
+  WHERE id = p_fixture_id;
+
+  INSERT INTO fixture_transitions (fixture_id, from_state, to_state, succeeded, source, actor_id, error)
+  VALUES (p_fixture_id, v_fixture.lifecycle_state, p_to_state, false, p_source, auth.uid(), p_error);
+
+  RETURN jsonb_build_object('success', true, 'attempts', v_attempts);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION fixture_lifecycle_can_transition(TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION transition_fixture(INTEGER, TEXT, JSONB, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION record_fixture_transition_failure(INTEGER, TEXT, TEXT, TEXT) TO authenticated, service_role;
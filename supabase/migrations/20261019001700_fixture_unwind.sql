@@ -0,0 +1,305 @@
+-- Postponed, Abandoned and Voided Fixtures
+--
+-- Extends the fixture lifecycle (20261019001600_fixture_lifecycle.sql) with
+-- the ways a match that did not go to plan is unwound:
+--
+--   Rescheduling  buy_closed, snapshotted, postponed, abandoned -> scheduled
+--                 The new kickoff is set (buy_close_at follows it through
+--                 sync_fixture_trading_times), the kickoff snapshot and any
+--                 scores are cleared, so the buy window reopens and caps are
+--                 snapshotted again at the new buy-close.
+--   Abandonment   abandoned -> finished when the result at abandonment stands
+--                 (final score required), otherwise rescheduled or voided.
+--   Voiding       applied -> voided, admin only and with a reason. The
+--                 transfers_ledger row is marked voided and the transfer is
+--                 reversed out of both clubs' current market caps, with
+--                 compensating total_ledger rows and team snapshots.
+--
+-- A voided fixture stays in process_match_result_atomic's ledger, so its
+-- result is never applied again. Voiding compensates at today's caps rather
+-- than replaying later fixtures; scripts/replay-market-caps.ts replays
+-- history without the voided fixture when a full recomputation is wanted.
+
+-- ============================================================
+-- Schema
+-- ============================================================
+
+ALTER TABLE transfers_ledger ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+ALTER TABLE transfers_ledger ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+-- ============================================================
+-- Transitions
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION fixture_lifecycle_can_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'scheduled' THEN p_to IN ('buy_closed', 'postponed')
+    WHEN 'buy_closed' THEN p_to IN ('snapshotted', 'postponed', 'scheduled')
+    WHEN 'snapshotted' THEN p_to IN ('live', 'postponed', 'scheduled')
+    WHEN 'live' THEN p_to IN ('finished', 'abandoned')
+    WHEN 'finished' THEN p_to IN ('applied')
+    WHEN 'applied' THEN p_to IN ('voided')
+    WHEN 'postponed' THEN p_to IN ('scheduled', 'voided')
+    WHEN 'abandoned' THEN p_to IN ('scheduled', 'finished', 'voided')
+    ELSE false
+  END;
+$$;
+
+-- Reverse an applied fixture's transfer out of both clubs' current caps.
+-- Only transition_fixture calls it, while voiding an applied result.
+CREATE OR REPLACE FUNCTION reverse_fixture_result(p_fixture_id INTEGER, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_home RECORD;
+  v_away RECORD;
+  v_transfer RECORD;
+  v_home_delta BIGINT := 0;
+  v_home_after BIGINT;
+  v_away_after BIGINT;
+  v_score TEXT;
+  v_notes TEXT := 'Result voided: ' || p_reason;
+BEGIN
+  SELECT * INTO v_fixture FROM fixtures WHERE id = p_fixture_id FOR UPDATE;
+
+  IF NOT FOUND OR v_fixture.lifecycle_state <> 'applied' THEN
+    RAISE EXCEPTION 'Fixture % has no applied result to reverse', p_fixture_id;
+  END IF;
+
+  SELECT id, name, market_cap, COALESCE(NULLIF(total_shares, 0), 1000) AS total_shares, shares_outstanding
+  INTO v_home FROM teams WHERE id = v_fixture.home_team_id FOR UPDATE;
+  SELECT id, name, market_cap, COALESCE(NULLIF(total_shares, 0), 1000) AS total_shares, shares_outstanding
+  INTO v_away FROM teams WHERE id = v_fixture.away_team_id FOR UPDATE;
+
+  -- Draws under rules without a draw transfer have no ledger row to reverse
+  SELECT * INTO v_transfer FROM transfers_ledger
+  WHERE fixture_id = p_fixture_id AND voided_at IS NULL
+  ORDER BY id DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    v_home_delta := CASE WHEN v_transfer.winner_team_id = v_home.id
+      THEN -v_transfer.transfer_amount::BIGINT
+      ELSE v_transfer.transfer_amount::BIGINT
+    END;
+
+    UPDATE transfers_ledger
+    SET voided_at = NOW(), void_reason = p_reason, is_latest = false
+    WHERE id = v_transfer.id;
+  END IF;
+
+  v_home_after := v_home.market_cap + v_home_delta;
+  v_away_after := v_away.market_cap - v_home_delta;
+
+  IF v_home_after <= 0 OR v_away_after <= 0 THEN
+    RAISE EXCEPTION 'Reversing fixture % would leave a club without market cap', p_fixture_id;
+  END IF;
+
+  UPDATE teams SET market_cap = v_home_after, updated_at = NOW() WHERE id = v_home.id;
+  UPDATE teams SET market_cap = v_away_after, updated_at = NOW() WHERE id = v_away.id;
+
+  v_score := COALESCE(v_fixture.home_score, 0) || '-' || COALESCE(v_fixture.away_score, 0);
+
+  INSERT INTO total_ledger (
+    team_id, ledger_type, event_date, event_description, trigger_event_id, trigger_event_type,
+    opponent_team_id, opponent_team_name, is_home_match, match_score,
+    amount_transferred, price_impact,
+    market_cap_before, market_cap_after,
+    shares_outstanding_before, shares_outstanding_after,
+    share_price_before, share_price_after, notes
+  ) VALUES
+  (
+    v_home.id, 'manual_adjustment', NOW(), 'Voided match vs ' || v_away.name, p_fixture_id, 'fixture',
+    v_away.id, v_away.name, true, v_score,
+    ABS(v_home_delta), v_home_delta,
+    v_home.market_cap, v_home_after,
+    v_home.shares_outstanding, v_home.shares_outstanding,
+    ROUND(v_home.market_cap::NUMERIC / v_home.total_shares), ROUND(v_home_after::NUMERIC / v_home.total_shares),
+    v_notes
+  ),
+  (
+    v_away.id, 'manual_adjustment', NOW(), 'Voided match vs ' || v_home.name, p_fixture_id, 'fixture',
+    v_home.id, v_home.name, false, v_score,
+    ABS(v_home_delta), -v_home_delta,
+    v_away.market_cap, v_away_after,
+    v_away.shares_outstanding, v_away.shares_outstanding,
+    ROUND(v_away.market_cap::NUMERIC / v_away.total_shares), ROUND(v_away_after::NUMERIC / v_away.total_shares),
+    v_notes
+  );
+
+  PERFORM create_team_snapshot(v_home.id, 'manual', p_fixture_id, 'fixture', NULL, v_home_delta, 0, 0, NOW());
+  PERFORM create_team_snapshot(v_away.id, 'manual', p_fixture_id, 'fixture', NULL, -v_home_delta, 0, 0, NOW());
+
+  RETURN jsonb_build_object(
+    'transfer_id', v_transfer.id,
+    'home_delta', v_home_delta,
+    'home_market_cap', v_home_after,
+    'away_market_cap', v_away_after
+  );
+END;
+$$;
+
+-- Move a fixture to p_to_state. p_details carries the scores for live and
+-- finished ({"home_score": 2, "away_score": 1}), the new kickoff for
+-- scheduled ({"kickoff_at": "..."}) and the reason for voiding an applied
+-- result ({"reason": "..."}).
+CREATE OR REPLACE FUNCTION transition_fixture(
+  p_fixture_id INTEGER,
+  p_to_state TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb,
+  p_source TEXT DEFAULT 'scheduler'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fixture RECORD;
+  v_home_cap BIGINT;
+  v_away_cap BIGINT;
+  v_home_score INTEGER;
+  v_away_score INTEGER;
+  v_result TEXT;
+  v_apply JSONB;
+  v_kickoff TIMESTAMPTZ;
+  v_reason TEXT;
+  v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  SELECT * INTO v_fixture FROM fixtures WHERE id = p_fixture_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Fixture not found');
+  END IF;
+
+  -- Idempotency: a repeated transition leaves the fixture as it is
+  IF v_fixture.lifecycle_state = p_to_state THEN
+    RETURN jsonb_build_object('success', true, 'already', true, 'fixture_id', p_fixture_id, 'state', p_to_state);
+  END IF;
+
+  IF NOT fixture_lifecycle_can_transition(v_fixture.lifecycle_state, p_to_state) THEN
+    RETURN jsonb_build_object('success', false,
+      'error', format('Fixture cannot move from %s to %s', v_fixture.lifecycle_state, p_to_state));
+  END IF;
+
+  v_home_score := COALESCE((v_details->>'home_score')::INTEGER, v_fixture.home_score);
+  v_away_score := COALESCE((v_details->>'away_score')::INTEGER, v_fixture.away_score);
+
+  CASE p_to_state
+    WHEN 'scheduled' THEN
+      v_kickoff := (v_details->>'kickoff_at')::TIMESTAMPTZ;
+      IF v_kickoff IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'New kickoff required');
+      END IF;
+      v_details := v_details || jsonb_build_object('previous_kickoff_at', v_fixture.kickoff_at);
+      -- buy_close_at follows the kickoff; caps are snapshotted again at the new buy-close
+      UPDATE fixtures
+      SET kickoff_at = v_kickoff,
+          snapshot_home_cap = NULL,
+          snapshot_away_cap = NULL,
+          home_score = 0,
+          away_score = 0,
+          result = 'pending'
+      WHERE id = p_fixture_id;
+
+    WHEN 'snapshotted' THEN
+      -- Caps frozen at buy-close size the match transfer
+      SELECT market_cap INTO v_home_cap FROM teams WHERE id = v_fixture.home_team_id;
+      SELECT market_cap INTO v_away_cap FROM teams WHERE id = v_fixture.away_team_id;
+      UPDATE fixtures
+      SET snapshot_home_cap = COALESCE(snapshot_home_cap, v_home_cap),
+          snapshot_away_cap = COALESCE(snapshot_away_cap, v_away_cap)
+      WHERE id = p_fixture_id;
+
+    WHEN 'live' THEN
+      UPDATE fixtures
+      SET home_score = COALESCE(v_home_score, 0), away_score = COALESCE(v_away_score, 0)
+      WHERE id = p_fixture_id;
+
+    WHEN 'finished' THEN
+      IF v_details->>'home_score' IS NULL OR v_details->>'away_score' IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Final score required');
+      END IF;
+      UPDATE fixtures
+      SET home_score = v_home_score, away_score = v_away_score, finished_at = NOW()
+      WHERE id = p_fixture_id;
+
+    WHEN 'applied' THEN
+      v_result := CASE
+        WHEN v_home_score > v_away_score THEN 'home_win'
+        WHEN v_away_score > v_home_score THEN 'away_win'
+        ELSE 'draw'
+      END;
+      -- The result trigger applies the transfer; applying again here surfaces
+      -- its outcome (a repeat returns already_processed)
+      UPDATE fixtures SET result = v_result WHERE id = p_fixture_id;
+      v_apply := process_match_result_atomic(p_fixture_id);
+      IF NOT COALESCE((v_apply->>'success')::BOOLEAN, false) THEN
+        RAISE EXCEPTION 'Applying the result failed: %', COALESCE(v_apply->>'error', 'unknown error');
+      END IF;
+
+    WHEN 'voided' THEN
+      IF v_fixture.lifecycle_state = 'applied' THEN
+        -- The caller's identity, not the source it reports
+        IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+          RETURN jsonb_build_object('success', false, 'error', 'Only an admin can void an applied result');
+        END IF;
+        v_reason := NULLIF(btrim(v_details->>'reason'), '');
+        IF v_reason IS NULL THEN
+          RETURN jsonb_build_object('success', false, 'error', 'A reason is required to void a result');
+        END IF;
+        v_details := v_details || jsonb_build_object(
+          'result', v_fixture.result,
+          'reversal', reverse_fixture_result(p_fixture_id, v_reason)
+        );
+      END IF;
+      -- The state moves with the result so the status trigger leaves it alone
+      UPDATE fixtures
+      SET result = 'pending', lifecycle_state = 'voided', status = fixture_status_for_lifecycle('voided')
+      WHERE id = p_fixture_id;
+
+    ELSE
+      NULL;
+  END CASE;
+
+  UPDATE fixtures
+  SET lifecycle_state = p_to_state,
+      status = fixture_status_for_lifecycle(p_to_state),
+      lifecycle_attempts = 0,
+      lifecycle_error = NULL,
+      lifecycle_retry_at = NULL,
+      lifecycle_updated_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_fixture_id;
+
+  INSERT INTO fixture_transitions (fixture_id, from_state, to_state, succeeded, source, actor_id, details)
+  VALUES (p_fixture_id, v_fixture.lifecycle_state, p_to_state, true, p_source, auth.uid(), v_details);
+
+  IF p_source = 'admin' THEN
+    INSERT INTO audit_log (user_id, action, table_name, record_id, new_values)
+    VALUES (auth.uid(), CASE WHEN v_fixture.lifecycle_state = 'applied' THEN 'fixture_result_voided' ELSE 'fixture_transitioned' END,
+      'fixtures', p_fixture_id,
+      jsonb_build_object('from', v_fixture.lifecycle_state, 'to', p_to_state, 'details', v_details));
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'fixture_id', p_fixture_id,
+    'from_state', v_fixture.lifecycle_state, 'state', p_to_state, 'details', v_details);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reverse_fixture_result(INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transition_fixture(INTEGER, TEXT, JSONB, TEXT) TO authenticated, service_role;